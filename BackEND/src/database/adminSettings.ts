@@ -1,5 +1,10 @@
 import { getDatabase, saveDatabase } from './db';
 import { AdminSettings } from '../types';
+import { DEFAULT_GAME_DURATION_YEARS, getGameDurationYears } from '../game/gameDuration';
+import { DEFAULT_TAX_SETTINGS } from '../game/taxes';
+import { DEFAULT_LOAN_SETTINGS } from '../game/loans';
+import { isLanguage } from '../game/languages';
+import { isValidQuizBonusCash } from '../game/quizScoring';
 
 /**
  * Get current admin settings
@@ -27,6 +32,12 @@ export function getAdminSettings(): AdminSettings | null {
       enableQuiz: (row.enable_quiz as number) === 1,
       eventsCount: (row.events_count as number) || 3,
       monthDuration: (row.month_duration as number) || 5000,
+      gameDurationYears: getGameDurationYears({ gameDurationYears: row.game_duration_years as number }),
+      taxSettings: row.tax_settings ? JSON.parse(row.tax_settings as string) : { ...DEFAULT_TAX_SETTINGS },
+      loanSettings: row.loan_settings ? JSON.parse(row.loan_settings as string) : { ...DEFAULT_LOAN_SETTINGS },
+      scenarioId: (row.scenario_id as string) || undefined,
+      defaultLanguage: isLanguage(row.default_language) ? row.default_language : undefined,
+      quizBonusCash: isValidQuizBonusCash(row.quiz_bonus_cash) ? row.quiz_bonus_cash : 0,
     };
 
     return settings;
@@ -44,6 +55,8 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
     const db = getDatabase();
 
     const categoriesJson = JSON.stringify(settings.selectedCategories);
+    const taxSettingsJson = settings.taxSettings ? JSON.stringify(settings.taxSettings) : null;
+    const loanSettingsJson = settings.loanSettings ? JSON.stringify(settings.loanSettings) : null;
 
     const performUpdate = () => {
       // Check if settings exist
@@ -63,6 +76,12 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
             enable_quiz = ?,
             events_count = ?,
             month_duration = ?,
+            game_duration_years = ?,
+            tax_settings = ?,
+            loan_settings = ?,
+            scenario_id = ?,
+            default_language = ?,
+            quiz_bonus_cash = ?,
             updated_at = CURRENT_TIMESTAMP
           WHERE id = 1`,
           [
@@ -74,13 +93,19 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
             settings.enableQuiz ? 1 : 0,
             settings.eventsCount || 3,
             settings.monthDuration || 5000,
+            getGameDurationYears(settings),
+            taxSettingsJson,
+            loanSettingsJson,
+            settings.scenarioId || null,
+            settings.defaultLanguage || null,
+            settings.quizBonusCash || 0,
           ]
         );
       } else {
         // Insert new settings
         db.run(
-          `INSERT INTO admin_settings (id, selected_categories, game_start_year, hide_current_year, initial_pocket_cash, recurring_income, enable_quiz, events_count, month_duration)
-          VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          `INSERT INTO admin_settings (id, selected_categories, game_start_year, hide_current_year, initial_pocket_cash, recurring_income, enable_quiz, events_count, month_duration, game_duration_years, tax_settings, loan_settings, scenario_id, default_language, quiz_bonus_cash)
+          VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             categoriesJson,
             settings.gameStartYear,
@@ -90,6 +115,12 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
             settings.enableQuiz ? 1 : 0,
             settings.eventsCount || 3,
             settings.monthDuration || 5000,
+            getGameDurationYears(settings),
+            taxSettingsJson,
+            loanSettingsJson,
+            settings.scenarioId || null,
+            settings.defaultLanguage || null,
+            settings.quizBonusCash || 0,
           ]
         );
       }
@@ -106,6 +137,24 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
         } else if (err.message.includes('no such column: month_duration')) {
           db.run('ALTER TABLE admin_settings ADD COLUMN month_duration INTEGER NOT NULL DEFAULT 5000');
           performUpdate();
+        } else if (err.message.includes('no such column: game_duration_years')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN game_duration_years INTEGER NOT NULL DEFAULT 20');
+          performUpdate();
+        } else if (err.message.includes('no such column: tax_settings')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN tax_settings TEXT');
+          performUpdate();
+        } else if (err.message.includes('no such column: loan_settings')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN loan_settings TEXT');
+          performUpdate();
+        } else if (err.message.includes('no such column: scenario_id')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN scenario_id TEXT');
+          performUpdate();
+        } else if (err.message.includes('no such column: default_language')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN default_language TEXT');
+          performUpdate();
+        } else if (err.message.includes('no such column: quiz_bonus_cash')) {
+          db.run('ALTER TABLE admin_settings ADD COLUMN quiz_bonus_cash REAL NOT NULL DEFAULT 0');
+          performUpdate();
         } else {
           throw err;
         }
@@ -127,7 +176,7 @@ export function updateAdminSettings(settings: AdminSettings): { success: boolean
  */
 export function getDefaultAdminSettings(): AdminSettings {
   return {
-    selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'CRYPTO', 'REIT', 'COMMODITIES'],
+    selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'REIT', 'COMMODITIES', 'BONDS'], // CRYPTO and FOREX are opt-in
     gameStartYear: 2005,
     hideCurrentYear: false,
     initialPocketCash: 100000,
@@ -135,6 +184,10 @@ export function getDefaultAdminSettings(): AdminSettings {
     enableQuiz: true,
     eventsCount: 3,
     monthDuration: 5000,
+    gameDurationYears: DEFAULT_GAME_DURATION_YEARS,
+    taxSettings: { ...DEFAULT_TAX_SETTINGS },
+    loanSettings: { ...DEFAULT_LOAN_SETTINGS },
+    quizBonusCash: 0,
   };
 }
 
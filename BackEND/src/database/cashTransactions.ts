@@ -4,7 +4,7 @@ export interface CashTransaction {
   id?: number;
   logId: number;
   playerName: string;
-  txType: 'recurring_income' | 'life_event_gain' | 'life_event_loss' | string;
+  txType: 'recurring_income' | 'life_event_gain' | 'life_event_loss' | 'dividend' | 'corporate_action' | 'quiz_bonus' | string;
   subType?: string | null;
   amount: number;
   message?: string | null;
@@ -93,6 +93,7 @@ export function getCashSummaryByLogId(logId: number) {
       recurringIncomeTotal: 0,
       lifeEventGains: 0,
       lifeEventLosses: 0,
+      dividendsTotal: 0,
       eventsCount: txs.length
     } as any;
 
@@ -103,6 +104,7 @@ export function getCashSummaryByLogId(logId: number) {
       if (t.txType === 'recurring_income') summary.recurringIncomeTotal += t.amount;
       if (t.txType === 'life_event_gain') summary.lifeEventGains += t.amount;
       if (t.txType === 'life_event_loss') summary.lifeEventLosses += Math.abs(t.amount);
+      if (t.txType === 'dividend') summary.dividendsTotal += t.amount;
     }
 
     return summary;
@@ -0,0 +1,46 @@
+/**
+ * Historical Consumer Price Index (India)
+ * Annual average CPI, rebased so 2001 = 100 (CPI-IW linked to CPI-Combined from 2012).
+ * Values are approximate and only used to seed the cpi_index table - edit the table for finer data.
+ * The comment on each row is that year's inflation.
+ */
+
+export const HISTORICAL_CPI: { [year: number]: number } = {
+  1990: 40.7, // 9.0%
+  1991: 46.3, // 13.9%
+  1992: 51.8, // 11.8%
+  1993: 55.1, // 6.4%
+  1994: 60.7, // 10.2%
+  1995: 66.9, // 10.2%
+  1996: 72.9, // 9.0%
+  1997: 78.2, // 7.2%
+  1998: 88.5, // 13.2%
+  1999: 92.6, // 4.7%
+  2000: 96.3, // 4.0%
+  2001: 100.0, // 3.8%
+  2002: 104.3, // 4.3%
+  2003: 108.3, // 3.8%
+  2004: 112.4, // 3.8%
+  2005: 117.3, // 4.4%
+  2006: 125.2, // 6.7%
+  2007: 132.9, // 6.2%
+  2008: 145.0, // 9.1%
+  2009: 163.0, // 12.4%
+  2010: 180.0, // 10.4%
+  2011: 195.1, // 8.4%
+  2012: 215.0, // 10.2%
+  2013: 235.4, // 9.5%
+  2014: 250.5, // 6.4%
+  2015: 262.8, // 4.9%
+  2016: 274.6, // 4.5%
+  2017: 284.5, // 3.6%
+  2018: 294.1, // 3.4%
+  2019: 308.3, // 4.8%
+  2020: 327.4, // 6.2%
+  2021: 345.4, // 5.5%
+  2022: 368.5, // 6.7%
+  2023: 388.4, // 5.4%
+  2024: 407.5, // 4.9%
+  2025: 417.6, // 2.5%
+  2026: 434.4, // 4.0%
+};
@@ -2,6 +2,11 @@ import initSqlJs, { Database } from 'sql.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as bcrypt from 'bcrypt';
+import { HISTORICAL_FD_RATES } from './fdRateSeed';
+import { DEFAULT_LIFE_EVENT_POOL } from './lifeEventSeed';
+import { DEFAULT_QUIZ_BANK } from './quizBankSeed';
+import { LIFE_EVENT_MESSAGE_TRANSLATIONS, LIFE_EVENT_CHOICE_TRANSLATIONS, QUIZ_CATEGORY_TRANSLATIONS, QUIZ_QUESTION_TRANSLATIONS } from './translationSeed';
+import { Language, LifeEventChoice } from '../types';
 
 const DB_PATH = path.join(__dirname, '../../data/game.db');
 const DATA_DIR = path.join(__dirname, '../../data');
@@ -80,6 +85,15 @@ function runMigrations(): void {
     saveDatabase();
   }
 
+  // Check if suspicious_submissions column exists in player_logs
+  const hasSuspiciousSubmissions =
+    infoLogs && infoLogs.length > 0 && infoLogs[0].values && infoLogs[0].values.some((row: any) => row[1] === 'suspicious_submissions');
+
+  if (!hasSuspiciousSubmissions) {
+    db.run('ALTER TABLE player_logs ADD COLUMN suspicious_submissions INTEGER NOT NULL DEFAULT 0');
+    saveDatabase();
+  }
+
   // Check if trading_transactions table exists
   const tablesList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='trading_transactions'");
   const hasTradesTable = tablesList && tablesList.length > 0 && tablesList[0].values && tablesList[0].values.length > 0;
@@ -98,6 +112,8 @@ function runMigrations(): void {
         exit_price REAL,
         position_size REAL NOT NULL,
         profit_loss REAL,
+        charges REAL NOT NULL DEFAULT 0,
+        tax_paid REAL NOT NULL DEFAULT 0,
         game_year INTEGER NOT NULL,
         game_month INTEGER NOT NULL,
         timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -242,6 +258,230 @@ function runMigrations(): void {
     db.run('ALTER TABLE admin_settings ADD COLUMN month_duration INTEGER NOT NULL DEFAULT 5000');
     saveDatabase();
   }
+
+  // Check if game_duration_years column exists in admin_settings
+  const hasGameDuration =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'game_duration_years');
+
+  if (!hasGameDuration) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN game_duration_years INTEGER NOT NULL DEFAULT 20');
+    saveDatabase();
+  }
+
+  // Check if tax_settings column exists in admin_settings (JSON, NULL = taxes off)
+  const hasTaxSettings =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'tax_settings');
+
+  if (!hasTaxSettings) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN tax_settings TEXT');
+    saveDatabase();
+  }
+
+  // Check if loan_settings column exists in admin_settings (JSON, NULL = default rates)
+  const hasLoanSettings =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'loan_settings');
+
+  if (!hasLoanSettings) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN loan_settings TEXT');
+    saveDatabase();
+  }
+
+  // Check if scenario_id column exists in admin_settings (NULL = classic game)
+  const hasScenarioId =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'scenario_id');
+
+  if (!hasScenarioId) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN scenario_id TEXT');
+    saveDatabase();
+  }
+
+  // Check if default_language column exists in admin_settings (NULL = English)
+  const hasDefaultLanguage =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'default_language');
+
+  if (!hasDefaultLanguage) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN default_language TEXT');
+    saveDatabase();
+  }
+
+  // Check if quiz_bonus_cash column exists in admin_settings (0 = no bonus)
+  const hasQuizBonusCash =
+    infoAdminSettings && infoAdminSettings.length > 0 && infoAdminSettings[0].values && infoAdminSettings[0].values.some((row: any) => row[1] === 'quiz_bonus_cash');
+
+  if (!hasQuizBonusCash) {
+    db.run('ALTER TABLE admin_settings ADD COLUMN quiz_bonus_cash REAL NOT NULL DEFAULT 0');
+    saveDatabase();
+  }
+
+  // Check if trading_transactions has the fee/tax columns
+  const infoTrades = db.exec("PRAGMA table_info('trading_transactions')");
+  const hasTradeCharges =
+    infoTrades && infoTrades.length > 0 && infoTrades[0].values && infoTrades[0].values.some((row: any) => row[1] === 'charges');
+
+  if (!hasTradeCharges) {
+    db.run('ALTER TABLE trading_transactions ADD COLUMN charges REAL NOT NULL DEFAULT 0');
+    db.run('ALTER TABLE trading_transactions ADD COLUMN tax_paid REAL NOT NULL DEFAULT 0');
+    saveDatabase();
+  }
+
+  // Check if room_snapshots table exists - live rooms are persisted here so a restart can resume them
+  const snapshotsList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='room_snapshots'");
+  const hasSnapshotsTable = snapshotsList && snapshotsList.length > 0 && snapshotsList[0].values && snapshotsList[0].values.length > 0;
+
+  if (!hasSnapshotsTable) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS room_snapshots (
+        room_id TEXT PRIMARY KEY,
+        snapshot TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    saveDatabase();
+  }
+
+  // Check if fd_rates table exists - FD rates used to be hardcoded, seed it with the historical table
+  const fdRatesList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='fd_rates'");
+  const hasFDRatesTable = fdRatesList && fdRatesList.length > 0 && fdRatesList[0].values && fdRatesList[0].values.length > 0;
+
+  if (!hasFDRatesTable) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS fd_rates (
+        year INTEGER NOT NULL,
+        tenure_months INTEGER NOT NULL,
+        rate REAL NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (year, tenure_months)
+      )
+    `);
+    seedFDRates();
+    saveDatabase();
+  }
+
+  // Check if life_event_pool table exists - life events used to be hardcoded, seed it with the built-in pool
+  const lifeEventPoolList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='life_event_pool'");
+  const hasLifeEventPoolTable = lifeEventPoolList && lifeEventPoolList.length > 0 && lifeEventPoolList[0].values && lifeEventPoolList[0].values.length > 0;
+
+  if (!hasLifeEventPoolTable) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS life_event_pool (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        weight REAL NOT NULL DEFAULT 1,
+        months TEXT,
+        insurance_type TEXT,
+        choices TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    seedLifeEventPool();
+    saveDatabase();
+  }
+
+  // Check if the quiz bank tables exist - quiz questions used to be hardcoded in the frontend
+  const quizTableList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='quiz_questions'");
+  const hasQuizTables = quizTableList && quizTableList.length > 0 && quizTableList[0].values && quizTableList[0].values.length > 0;
+
+  if (!hasQuizTables) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS quiz_categories (
+        category TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS quiz_questions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        category TEXT NOT NULL,
+        question TEXT NOT NULL,
+        options TEXT NOT NULL,
+        correct_answer INTEGER NOT NULL,
+        hint TEXT NOT NULL DEFAULT '',
+        enabled INTEGER NOT NULL DEFAULT 1,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+    seedQuizBank();
+    saveDatabase();
+  }
+
+  // Check if the translation tables exist - quiz and life event text used to be English only
+  const translationTableList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='life_event_translations'");
+  const hasTranslationTables = translationTableList && translationTableList.length > 0 && translationTableList[0].values && translationTableList[0].values.length > 0;
+
+  if (!hasTranslationTables) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS life_event_translations (
+        event_id INTEGER NOT NULL,
+        language TEXT NOT NULL,
+        message TEXT NOT NULL,
+        choice_labels TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (event_id, language)
+      )
+    `);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS quiz_category_translations (
+        category TEXT NOT NULL,
+        language TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (category, language)
+      )
+    `);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS quiz_question_translations (
+        question_id INTEGER NOT NULL,
+        language TEXT NOT NULL,
+        question TEXT NOT NULL,
+        options TEXT NOT NULL,
+        hint TEXT NOT NULL DEFAULT '',
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (question_id, language)
+      )
+    `);
+    seedTranslations();
+    saveDatabase();
+  }
+
+  // The built-in quiz questions shipped without translations at first - seed them once
+  if (seedQuizQuestionTranslations()) saveDatabase();
+
+  // Check if quiz_attempts table exists - quizzes used to record completion only
+  // Multiplayer rows are written during the game and get their log_id once the player's game is logged
+  const quizAttemptsList = db.exec("SELECT name FROM sqlite_master WHERE type='table' AND name='quiz_attempts'");
+  const hasQuizAttemptsTable = quizAttemptsList && quizAttemptsList.length > 0 && quizAttemptsList[0].values && quizAttemptsList[0].values.length > 0;
+
+  if (!hasQuizAttemptsTable) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS quiz_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        log_id INTEGER,
+        game_mode TEXT NOT NULL,
+        room_id TEXT,
+        player_name TEXT NOT NULL,
+        category TEXT NOT NULL,
+        question_id INTEGER,
+        answers TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        points INTEGER NOT NULL,
+        bonus_cash REAL NOT NULL DEFAULT 0,
+        time_taken_ms INTEGER,
+        game_year INTEGER,
+        game_month INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (log_id) REFERENCES player_logs(id) ON DELETE CASCADE
+      )
+    `);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_log_id ON quiz_attempts(log_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_room ON quiz_attempts(room_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_player ON quiz_attempts(player_name)`);
+    saveDatabase();
+  }
 }
 
 /**
@@ -273,6 +513,12 @@ async function createTables(): Promise<void> {
       enable_quiz INTEGER NOT NULL DEFAULT 1,
       events_count INTEGER NOT NULL DEFAULT 3,
       month_duration INTEGER NOT NULL DEFAULT 5000,
+      game_duration_years INTEGER NOT NULL DEFAULT 20,
+      tax_settings TEXT,
+      loan_settings TEXT,
+      scenario_id TEXT,
+      default_language TEXT,
+      quiz_bonus_cash REAL NOT NULL DEFAULT 0,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
@@ -292,6 +538,7 @@ async function createTables(): Promise<void> {
       portfolio_breakdown TEXT NOT NULL,
       admin_settings TEXT NOT NULL,
       game_duration_minutes INTEGER,
+      suspicious_submissions INTEGER NOT NULL DEFAULT 0,
       completed_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `);
@@ -316,6 +563,8 @@ async function createTables(): Promise<void> {
       exit_price REAL,
       position_size REAL NOT NULL,
       profit_loss REAL,
+      charges REAL NOT NULL DEFAULT 0,
+      tax_paid REAL NOT NULL DEFAULT 0,
       game_year INTEGER NOT NULL,
       game_month INTEGER NOT NULL,
       timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -325,6 +574,282 @@ async function createTables(): Promise<void> {
 
   db.run(`CREATE INDEX IF NOT EXISTS idx_trades_log_id ON trading_transactions(log_id)`);
   db.run(`CREATE INDEX IF NOT EXISTS idx_trades_player ON trading_transactions(player_name)`);
+
+  // Live room snapshots (JSON) for resuming games after a server restart
+  db.run(`
+    CREATE TABLE IF NOT EXISTS room_snapshots (
+      room_id TEXT PRIMARY KEY,
+      snapshot TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Fixed deposit rates (annual %) per calendar year and tenure, editable from the admin panel
+  db.run(`
+    CREATE TABLE IF NOT EXISTS fd_rates (
+      year INTEGER NOT NULL,
+      tenure_months INTEGER NOT NULL,
+      rate REAL NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (year, tenure_months)
+    )
+  `);
+  seedFDRates();
+
+  // Life event pool (JSON columns for months and choices), editable by admins
+  db.run(`
+    CREATE TABLE IF NOT EXISTS life_event_pool (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      weight REAL NOT NULL DEFAULT 1,
+      months TEXT,
+      insurance_type TEXT,
+      choices TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  seedLifeEventPool();
+
+  // Quiz bank: one row per category (intro text) and one per question (options as JSON)
+  db.run(`
+    CREATE TABLE IF NOT EXISTS quiz_categories (
+      category TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS quiz_questions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT NOT NULL,
+      question TEXT NOT NULL,
+      options TEXT NOT NULL,
+      correct_answer INTEGER NOT NULL,
+      hint TEXT NOT NULL DEFAULT '',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  seedQuizBank();
+
+  // Translations layered over the English pool and quiz bank; rows without one stay English
+  db.run(`
+    CREATE TABLE IF NOT EXISTS life_event_translations (
+      event_id INTEGER NOT NULL,
+      language TEXT NOT NULL,
+      message TEXT NOT NULL,
+      choice_labels TEXT,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (event_id, language)
+    )
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS quiz_category_translations (
+      category TEXT NOT NULL,
+      language TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (category, language)
+    )
+  `);
+  db.run(`
+    CREATE TABLE IF NOT EXISTS quiz_question_translations (
+      question_id INTEGER NOT NULL,
+      language TEXT NOT NULL,
+      question TEXT NOT NULL,
+      options TEXT NOT NULL,
+      hint TEXT NOT NULL DEFAULT '',
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (question_id, language)
+    )
+  `);
+  seedTranslations();
+
+  // Scored quizzes, one row per quiz answered
+  db.run(`
+    CREATE TABLE IF NOT EXISTS quiz_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      log_id INTEGER,
+      game_mode TEXT NOT NULL,
+      room_id TEXT,
+      player_name TEXT NOT NULL,
+      category TEXT NOT NULL,
+      question_id INTEGER,
+      answers TEXT NOT NULL,
+      attempts INTEGER NOT NULL,
+      points INTEGER NOT NULL,
+      bonus_cash REAL NOT NULL DEFAULT 0,
+      time_taken_ms INTEGER,
+      game_year INTEGER,
+      game_month INTEGER,
+      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (log_id) REFERENCES player_logs(id) ON DELETE CASCADE
+    )
+  `);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_log_id ON quiz_attempts(log_id)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_room ON quiz_attempts(room_id)`);
+  db.run(`CREATE INDEX IF NOT EXISTS idx_quiz_attempts_player ON quiz_attempts(player_name)`);
+}
+
+/**
+ * Seed the fd_rates table with the historical National Savings rates
+ */
+function seedFDRates(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  for (const [year, rates] of Object.entries(HISTORICAL_FD_RATES)) {
+    for (const [tenureMonths, rate] of Object.entries(rates)) {
+      db.run(
+        'INSERT OR IGNORE INTO fd_rates (year, tenure_months, rate) VALUES (?, ?, ?)',
+        [Number(year), Number(tenureMonths), rate]
+      );
+    }
+  }
+}
+
+/**
+ * Seed the life_event_pool table with the built-in events (only when it is empty)
+ */
+function seedLifeEventPool(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const countResult = db.exec('SELECT COUNT(*) FROM life_event_pool');
+  const existing = countResult.length > 0 ? (countResult[0].values[0][0] as number) : 0;
+  if (existing > 0) return;
+
+  DEFAULT_LIFE_EVENT_POOL.forEach(template => {
+    db!.run(
+      'INSERT INTO life_event_pool (message, amount, weight, months, insurance_type, choices) VALUES (?, ?, ?, ?, ?, ?)',
+      [
+        template.message,
+        template.amount,
+        template.weight,
+        template.months ? JSON.stringify(template.months) : null,
+        template.insuranceType || null,
+        template.choices ? JSON.stringify(template.choices) : null,
+      ]
+    );
+  });
+}
+
+/**
+ * Seed the quiz tables with the built-in quiz bank (only when there are no questions)
+ */
+function seedQuizBank(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const countResult = db.exec('SELECT COUNT(*) FROM quiz_questions');
+  const existing = countResult.length > 0 ? (countResult[0].values[0][0] as number) : 0;
+  if (existing > 0) return;
+
+  Object.values(DEFAULT_QUIZ_BANK).forEach(content => {
+    db!.run(
+      'INSERT OR IGNORE INTO quiz_categories (category, title, description) VALUES (?, ?, ?)',
+      [content.category, content.title, content.description]
+    );
+    content.questions.forEach(question => {
+      db!.run(
+        'INSERT INTO quiz_questions (category, question, options, correct_answer, hint) VALUES (?, ?, ?, ?, ?)',
+        [content.category, question.question, JSON.stringify(question.options), question.correctAnswer, question.hint]
+      );
+    });
+  });
+}
+
+/**
+ * Seed the built-in translations for the seeded life events and quiz category intros
+ * Events are matched on their English message, so ones the admin reworded are skipped
+ */
+function seedTranslations(): void {
+  if (!db) throw new Error('Database not initialized');
+
+  const countResult = db.exec('SELECT COUNT(*) FROM life_event_translations');
+  const existing = countResult.length > 0 ? (countResult[0].values[0][0] as number) : 0;
+  if (existing > 0) return;
+
+  const eventStmt = db.prepare('SELECT id, message, choices FROM life_event_pool');
+  const events: { id: number; message: string; choices: LifeEventChoice[] }[] = [];
+  while (eventStmt.step()) {
+    const row = eventStmt.getAsObject();
+    events.push({ id: row.id as number, message: row.message as string, choices: row.choices ? JSON.parse(row.choices as string) : [] });
+  }
+  eventStmt.free();
+
+  events.forEach(event => {
+    const messages = LIFE_EVENT_MESSAGE_TRANSLATIONS[event.message];
+    if (!messages) return;
+
+    (Object.keys(messages) as Language[]).forEach(language => {
+      const choiceLabels: { [choiceId: string]: string } = {};
+      event.choices.forEach(choice => {
+        const label = LIFE_EVENT_CHOICE_TRANSLATIONS[choice.label]?.[language];
+        if (label) choiceLabels[choice.id] = label;
+      });
+      db!.run(
+        'INSERT OR IGNORE INTO life_event_translations (event_id, language, message, choice_labels) VALUES (?, ?, ?, ?)',
+        [event.id, language, messages[language]!, Object.keys(choiceLabels).length > 0 ? JSON.stringify(choiceLabels) : null]
+      );
+    });
+  });
+
+  Object.entries(QUIZ_CATEGORY_TRANSLATIONS).forEach(([category, intros]) => {
+    (Object.keys(intros) as Language[]).forEach(language => {
+      db!.run(
+        'INSERT OR IGNORE INTO quiz_category_translations (category, language, title, description) SELECT ?, ?, ?, ? WHERE EXISTS (SELECT 1 FROM quiz_categories WHERE category = ?)',
+        [category, language, intros[language]!.title, intros[language]!.description, category]
+      );
+    });
+  });
+}
+
+/**
+ * Seed the built-in translations for the seeded quiz questions (only when there are none)
+ * Questions are matched on their English text and options, so ones the admin edited are skipped
+ * @returns whether any translation was added
+ */
+function seedQuizQuestionTranslations(): boolean {
+  if (!db) throw new Error('Database not initialized');
+
+  const countResult = db.exec('SELECT COUNT(*) FROM quiz_question_translations');
+  const existing = countResult.length > 0 ? (countResult[0].values[0][0] as number) : 0;
+  if (existing > 0) return false;
+
+  // The same question text can appear in more than one category with different options
+  const seededOptions: { [question: string]: Set<string> } = {};
+  Object.values(DEFAULT_QUIZ_BANK).forEach(content => {
+    content.questions.forEach(question => {
+      (seededOptions[question.question] ??= new Set()).add(JSON.stringify(question.options));
+    });
+  });
+
+  const questionStmt = db.prepare('SELECT id, question, options FROM quiz_questions');
+  const questions: { id: number; question: string; options: string }[] = [];
+  while (questionStmt.step()) {
+    const row = questionStmt.getAsObject();
+    questions.push({ id: row.id as number, question: row.question as string, options: row.options as string });
+  }
+  questionStmt.free();
+
+  let added = 0;
+  questions.forEach(question => {
+    const translations = QUIZ_QUESTION_TRANSLATIONS[question.question];
+    if (!translations || !seededOptions[question.question]?.has(question.options)) return;
+
+    (Object.keys(translations) as Language[]).forEach(language => {
+      const translation = translations[language]!;
+      db!.run(
+        'INSERT OR IGNORE INTO quiz_question_translations (question_id, language, question, options, hint) VALUES (?, ?, ?, ?, ?)',
+        [question.id, language, translation.question, JSON.stringify(translation.options), translation.hint]
+      );
+      added++;
+    });
+  });
+
+  return added > 0;
 }
 
 /**
@@ -0,0 +1,54 @@
+/**
+ * Historical Fixed Deposit Rates
+ * National Savings Time Deposit Account Scheme rates (annual %) keyed by tenure in months.
+ * Only used to seed the fd_rates table - the table is the source of truth once it exists.
+ */
+
+export const HISTORICAL_FD_RATES: { [year: number]: { [tenureMonths: number]: number } } = {
+  1981: { 12: 8.50, 24: 9.50, 36: 10.50 },
+  1982: { 12: 9.00, 24: 9.75, 36: 10.50 },
+  1983: { 12: 9.00, 24: 9.75, 36: 10.50 },
+  1984: { 12: 9.00, 24: 9.75, 36: 10.50 },
+  1985: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1986: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1987: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1988: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1989: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1990: { 12: 9.50, 24: 10.00, 36: 10.50 },
+  1991: { 12: 12.00, 24: 12.00, 36: 13.00 },
+  1992: { 12: 12.00, 24: 12.00, 36: 13.00 },
+  1993: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1994: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1995: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1996: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1997: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1998: { 12: 10.50, 24: 11.00, 36: 12.00 },
+  1999: { 12: 9.00, 24: 10.00, 36: 11.00 },
+  2000: { 12: 8.00, 24: 9.00, 36: 10.00 },
+  2001: { 12: 7.50, 24: 8.00, 36: 9.00 },
+  2002: { 12: 7.25, 24: 7.50, 36: 8.25 },
+  2003: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2004: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2005: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2006: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2007: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2008: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2009: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2010: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2011: { 12: 6.25, 24: 6.50, 36: 7.25 },
+  2012: { 12: 8.20, 24: 8.30, 36: 8.40 },
+  2013: { 12: 8.20, 24: 8.20, 36: 8.30 },
+  2014: { 12: 8.40, 24: 8.40, 36: 8.40 },
+  2015: { 12: 8.40, 24: 8.40, 36: 8.40 },
+  2016: { 12: 7.10, 24: 7.20, 36: 7.40 },
+  2017: { 12: 6.90, 24: 7.00, 36: 7.20 },
+  2018: { 12: 6.60, 24: 6.70, 36: 6.90 },
+  2019: { 12: 7.00, 24: 7.00, 36: 7.00 },
+  2020: { 12: 5.50, 24: 5.50, 36: 5.50 },
+  2021: { 12: 5.50, 24: 5.50, 36: 5.50 },
+  2022: { 12: 5.50, 24: 5.70, 36: 5.80 },
+  2023: { 12: 6.80, 24: 6.90, 36: 7.00 },
+  2024: { 12: 6.90, 24: 7.00, 36: 7.10 },
+  2025: { 12: 6.90, 24: 7.00, 36: 7.10 },
+  2026: { 12: 6.90, 24: 7.00, 36: 7.10 },
+};
@@ -0,0 +1,75 @@
+import { getDatabase, saveDatabase } from './db';
+
+export interface FDRateRow {
+  year: number;
+  tenureMonths: number;
+  rate: number;
+}
+
+/**
+ * Get every FD rate row, ordered by year then tenure
+ */
+export function getFDRateRows(): FDRateRow[] {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT year, tenure_months, rate FROM fd_rates ORDER BY year ASC, tenure_months ASC');
+
+    const rows: FDRateRow[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      rows.push({
+        year: row.year as number,
+        tenureMonths: row.tenure_months as number,
+        rate: row.rate as number,
+      });
+    }
+    stmt.free();
+
+    return rows;
+  } catch (error) {
+    console.error('Get FD rates error:', error);
+    return [];
+  }
+}
+
+/**
+ * Insert or update the rate for a calendar year and tenure
+ */
+export function upsertFDRate(year: number, tenureMonths: number, rate: number): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `INSERT OR REPLACE INTO fd_rates (year, tenure_months, rate, updated_at)
+       VALUES (?, ?, ?, CURRENT_TIMESTAMP)`,
+      [year, tenureMonths, rate]
+    );
+
+    saveDatabase();
+    return { success: true, message: 'FD rate saved successfully' };
+  } catch (error) {
+    console.error('Upsert FD rate error:', error);
+    return { success: false, message: 'Failed to save FD rate' };
+  }
+}
+
+/**
+ * Delete the rate for a calendar year and tenure
+ */
+export function deleteFDRate(year: number, tenureMonths: number): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM fd_rates WHERE year = ? AND tenure_months = ?', [year, tenureMonths]);
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'FD rate not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'FD rate deleted successfully' };
+  } catch (error) {
+    console.error('Delete FD rate error:', error);
+    return { success: false, message: 'Failed to delete FD rate' };
+  }
+}
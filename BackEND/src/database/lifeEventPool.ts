@@ -0,0 +1,325 @@
+import { getDatabase, saveDatabase } from './db';
+import { LifeEventChoice, LifeEventTemplate, LifeEventTranslation, InsuranceType, Language } from '../types';
+import { DEFAULT_LIFE_EVENT_POOL } from './lifeEventSeed';
+import { isInsuranceType } from '../game/insurance';
+import { DEFAULT_LANGUAGE } from '../game/languages';
+
+function toTemplate(row: { [column: string]: any }): LifeEventTemplate {
+  return {
+    id: row.id as number,
+    message: row.message as string,
+    amount: row.amount as number,
+    weight: row.weight as number,
+    months: row.months ? JSON.parse(row.months as string) : undefined,
+    insuranceType: (row.insurance_type as InsuranceType) || undefined,
+    choices: row.choices ? JSON.parse(row.choices as string) : undefined,
+    enabled: row.enabled === 1,
+  };
+}
+
+function toColumns(template: LifeEventTemplate): (string | number | null)[] {
+  return [
+    template.message,
+    template.amount,
+    template.weight,
+    template.months && template.months.length > 0 ? JSON.stringify(template.months) : null,
+    template.insuranceType || null,
+    template.choices && template.choices.length > 0 ? JSON.stringify(template.choices) : null,
+    template.enabled === false ? 0 : 1,
+  ];
+}
+
+function parseChoice(value: any): LifeEventChoice | null {
+  if (!value || typeof value.id !== 'string' || !value.id.trim() || typeof value.label !== 'string' || !value.label.trim()) {
+    return null;
+  }
+  if (typeof value.amountFactor !== 'number' || !isFinite(value.amountFactor) || value.amountFactor < 0 || value.amountFactor > 2) {
+    return null;
+  }
+  return {
+    id: value.id.trim(),
+    label: value.label.trim(),
+    amountFactor: value.amountFactor,
+    ...(value.breakFD === true ? { breakFD: true } : {}),
+  };
+}
+
+/**
+ * Validate and normalise a template sent by the admin panel or read from an import file
+ * Returns null when a field is missing or out of range
+ */
+export function parseLifeEventTemplate(value: any): LifeEventTemplate | null {
+  if (!value || typeof value.message !== 'string' || !value.message.trim()) return null;
+  if (!Number.isInteger(value.amount) || value.amount === 0 || Math.abs(value.amount) > 10000000) return null;
+
+  const weight = value.weight ?? 1;
+  if (typeof weight !== 'number' || !isFinite(weight) || weight < 0 || weight > 100) return null;
+
+  const months = value.months ?? [];
+  if (!Array.isArray(months) || !months.every(m => Number.isInteger(m) && m >= 1 && m <= 12)) return null;
+
+  if (value.insuranceType && !isInsuranceType(value.insuranceType)) return null;
+
+  const rawChoices = value.choices ?? [];
+  if (!Array.isArray(rawChoices)) return null;
+  const choices = rawChoices.map(parseChoice);
+  if (choices.some(c => c === null) || new Set(choices.map(c => c!.id)).size !== choices.length) return null;
+
+  return {
+    message: value.message.trim(),
+    amount: value.amount,
+    weight,
+    months: months.length > 0 ? Array.from(new Set<number>(months)).sort((a, b) => a - b) : undefined,
+    insuranceType: value.insuranceType || undefined,
+    choices: choices.length > 0 ? (choices as LifeEventChoice[]) : undefined,
+    enabled: value.enabled !== false,
+  };
+}
+
+/**
+ * Validate a translation sent by the admin panel
+ * Choice labels are optional - untranslated choices keep their English label
+ */
+export function parseLifeEventTranslation(value: any): LifeEventTranslation | null {
+  if (!value || typeof value.message !== 'string' || !value.message.trim()) return null;
+
+  const rawLabels = value.choiceLabels ?? {};
+  if (typeof rawLabels !== 'object' || Array.isArray(rawLabels)) return null;
+
+  const choiceLabels: { [choiceId: string]: string } = {};
+  for (const [choiceId, label] of Object.entries(rawLabels)) {
+    if (typeof label !== 'string') return null;
+    if (label.trim()) choiceLabels[choiceId] = label.trim();
+  }
+
+  return {
+    message: value.message.trim(),
+    choiceLabels: Object.keys(choiceLabels).length > 0 ? choiceLabels : undefined,
+  };
+}
+
+function applyTranslation(template: LifeEventTemplate, translation?: LifeEventTranslation): LifeEventTemplate {
+  if (!translation) return template;
+  return {
+    ...template,
+    message: translation.message,
+    choices: template.choices?.map(choice => ({
+      ...choice,
+      label: translation.choiceLabels?.[choice.id] || choice.label,
+    })),
+  };
+}
+
+/**
+ * Get the translations stored for one language, keyed by life event id
+ */
+export function getLifeEventTranslations(language: Language): { [eventId: number]: LifeEventTranslation } {
+  const translations: { [eventId: number]: LifeEventTranslation } = {};
+  if (language === DEFAULT_LANGUAGE) return translations;
+
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT event_id, message, choice_labels FROM life_event_translations WHERE language = ?');
+    stmt.bind([language]);
+
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      translations[row.event_id as number] = {
+        message: row.message as string,
+        choiceLabels: row.choice_labels ? JSON.parse(row.choice_labels as string) : undefined,
+      };
+    }
+    stmt.free();
+  } catch (error) {
+    console.error('Get life event translations error:', error);
+  }
+
+  return translations;
+}
+
+/**
+ * Get the enabled life event templates, worded in the given language where a translation exists
+ * Falls back to the built-in pool when the table is empty or can't be read, so games always have events
+ */
+export function getLifeEventPool(language: Language = DEFAULT_LANGUAGE): LifeEventTemplate[] {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM life_event_pool WHERE enabled = 1 ORDER BY id ASC');
+    const translations = getLifeEventTranslations(language);
+
+    const pool: LifeEventTemplate[] = [];
+    while (stmt.step()) {
+      const template = toTemplate(stmt.getAsObject());
+      pool.push(applyTranslation(template, translations[template.id!]));
+    }
+    stmt.free();
+
+    return pool.length > 0 ? pool : DEFAULT_LIFE_EVENT_POOL;
+  } catch (error) {
+    console.error('Get life event pool error:', error);
+    return DEFAULT_LIFE_EVENT_POOL;
+  }
+}
+
+/**
+ * Get every template, including disabled ones (admin panel)
+ */
+export function getAllLifeEventTemplates(): LifeEventTemplate[] {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT * FROM life_event_pool ORDER BY id ASC');
+
+    const templates: LifeEventTemplate[] = [];
+    while (stmt.step()) {
+      templates.push(toTemplate(stmt.getAsObject()));
+    }
+    stmt.free();
+
+    return templates;
+  } catch (error) {
+    console.error('Get life event templates error:', error);
+    return [];
+  }
+}
+
+export function createLifeEventTemplate(template: LifeEventTemplate): { success: boolean; message: string; id?: number } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      'INSERT INTO life_event_pool (message, amount, weight, months, insurance_type, choices, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      toColumns(template)
+    );
+
+    // Read the id before saving - exporting the database reopens it
+    const lastIdStmt = db.prepare('SELECT last_insert_rowid() as id');
+    lastIdStmt.step();
+    const result = lastIdStmt.getAsObject();
+    lastIdStmt.free();
+
+    saveDatabase();
+    return { success: true, message: 'Life event added successfully', id: result.id as number };
+  } catch (error) {
+    console.error('Create life event error:', error);
+    return { success: false, message: 'Failed to add life event' };
+  }
+}
+
+export function updateLifeEventTemplate(id: number, template: LifeEventTemplate): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `UPDATE life_event_pool
+       SET message = ?, amount = ?, weight = ?, months = ?, insurance_type = ?, choices = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [...toColumns(template), id]
+    );
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Life event not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'Life event saved successfully' };
+  } catch (error) {
+    console.error('Update life event error:', error);
+    return { success: false, message: 'Failed to save life event' };
+  }
+}
+
+export function deleteLifeEventTemplate(id: number): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM life_event_pool WHERE id = ?', [id]);
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Life event not found' };
+    }
+    db.run('DELETE FROM life_event_translations WHERE event_id = ?', [id]);
+
+    saveDatabase();
+    return { success: true, message: 'Life event deleted successfully' };
+  } catch (error) {
+    console.error('Delete life event error:', error);
+    return { success: false, message: 'Failed to delete life event' };
+  }
+}
+
+/**
+ * Add imported templates, optionally replacing the whole pool
+ */
+export function importLifeEventTemplates(templates: LifeEventTemplate[], replace: boolean): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('BEGIN TRANSACTION');
+    try {
+      if (replace) {
+        db.run('DELETE FROM life_event_pool');
+        db.run('DELETE FROM life_event_translations');
+      }
+      templates.forEach(template => {
+        db.run(
+          'INSERT INTO life_event_pool (message, amount, weight, months, insurance_type, choices, enabled) VALUES (?, ?, ?, ?, ?, ?, ?)',
+          toColumns(template)
+        );
+      });
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    saveDatabase();
+    return { success: true, message: `Imported ${templates.length} life events` };
+  } catch (error) {
+    console.error('Import life events error:', error);
+    return { success: false, message: 'Failed to import life events' };
+  }
+}
+
+export function saveLifeEventTranslation(id: number, language: Language, translation: LifeEventTranslation): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    const stmt = db.prepare('SELECT id FROM life_event_pool WHERE id = ?');
+    stmt.bind([id]);
+    const exists = stmt.step();
+    stmt.free();
+    if (!exists) {
+      return { success: false, message: 'Life event not found' };
+    }
+
+    db.run(
+      `INSERT OR REPLACE INTO life_event_translations (event_id, language, message, choice_labels, updated_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [id, language, translation.message, translation.choiceLabels ? JSON.stringify(translation.choiceLabels) : null]
+    );
+
+    saveDatabase();
+    return { success: true, message: 'Translation saved successfully' };
+  } catch (error) {
+    console.error('Save life event translation error:', error);
+    return { success: false, message: 'Failed to save translation' };
+  }
+}
+
+export function deleteLifeEventTranslation(id: number, language: Language): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM life_event_translations WHERE event_id = ? AND language = ?', [id, language]);
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Translation not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'Translation deleted successfully' };
+  } catch (error) {
+    console.error('Delete life event translation error:', error);
+    return { success: false, message: 'Failed to delete translation' };
+  }
+}
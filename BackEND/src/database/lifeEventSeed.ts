@@ -0,0 +1,67 @@
+/**
+ * Built-in life event pool
+ * Only used to seed the life_event_pool table (and as a fallback when it can't be read) -
+ * the table is the source of truth once it exists.
+ */
+import { LifeEventChoice, LifeEventTemplate } from '../types';
+
+// Ways of paying for a loss - the first choice is applied when the player doesn't pick one in time
+const MEDICAL_CHOICES: LifeEventChoice[] = [
+  { id: 'private', label: 'Private hospital, paid from pocket cash', amountFactor: 1 },
+  { id: 'fd', label: 'Private hospital, break a fixed deposit to pay', amountFactor: 1, breakFD: true },
+  { id: 'government', label: 'Government hospital - cheaper, longer wait', amountFactor: 0.4 },
+];
+
+const VEHICLE_CHOICES: LifeEventChoice[] = [
+  { id: 'service', label: 'Authorised service centre', amountFactor: 1 },
+  { id: 'local', label: 'Local mechanic - cheaper, no warranty', amountFactor: 0.6 },
+  { id: 'fd', label: 'Service centre, break a fixed deposit to pay', amountFactor: 1, breakFD: true },
+];
+
+const REPLACE_CHOICES: LifeEventChoice[] = [
+  { id: 'replace', label: 'Buy a new one', amountFactor: 1 },
+  { id: 'repair', label: 'Get the old one repaired', amountFactor: 0.4 },
+];
+
+const SPEND_CHOICES: LifeEventChoice[] = [
+  { id: 'planned', label: 'Spend as planned', amountFactor: 1 },
+  { id: 'simple', label: 'Keep it simple', amountFactor: 0.6 },
+  { id: 'fd', label: 'Spend as planned, break a fixed deposit to pay', amountFactor: 1, breakFD: true },
+];
+
+const MONSOON = [6, 7, 8, 9];
+const FESTIVE = [10, 11];
+const WEDDING_SEASON = [11, 12, 1, 2];
+const SUMMER = [4, 5, 6];
+
+export const DEFAULT_LIFE_EVENT_POOL: LifeEventTemplate[] = [
+  // Losses
+  { message: 'House robbery during Diwali', amount: -30000, weight: 1, months: FESTIVE },
+  { message: 'Family medical emergency', amount: -75000, weight: 1, insuranceType: 'HEALTH', choices: MEDICAL_CHOICES },
+  { message: 'Vehicle repair after monsoon', amount: -20000, weight: 1, months: MONSOON, insuranceType: 'VEHICLE', choices: VEHICLE_CHOICES },
+  { message: 'Wedding shopping expenses', amount: -50000, weight: 1, months: WEDDING_SEASON, choices: SPEND_CHOICES },
+  { message: 'Health insurance deductible', amount: -25000, weight: 1 },
+  { message: 'Home repairs after flooding', amount: -45000, weight: 1, months: MONSOON },
+  { message: 'Laptop suddenly stopped working', amount: -50000, weight: 1, choices: REPLACE_CHOICES },
+  { message: 'Legal fees for property dispute', amount: -40000, weight: 1 },
+  { message: 'AC breakdown in peak summer', amount: -10000, weight: 1, months: SUMMER, choices: REPLACE_CHOICES },
+  { message: 'Parent hospitalization costs', amount: -80000, weight: 1, insuranceType: 'HEALTH', choices: MEDICAL_CHOICES },
+  { message: 'Car accident repairs', amount: -40000, weight: 1, insuranceType: 'VEHICLE', choices: VEHICLE_CHOICES },
+  { message: 'Stolen mobile phone', amount: -12000, weight: 1 },
+  { message: 'Urgent home appliance replacement', amount: -28000, weight: 1, choices: REPLACE_CHOICES },
+  { message: 'Child school fees increase', amount: -50000, weight: 1, months: SUMMER },
+  { message: 'Unexpected tax liability', amount: -30000, weight: 1, months: [3, 7] },
+  { message: 'Emergency dental treatment', amount: -18000, weight: 1, insuranceType: 'HEALTH' },
+  { message: 'Bike accident repair', amount: -14000, weight: 1, insuranceType: 'VEHICLE', choices: VEHICLE_CHOICES },
+  { message: 'Flooding damaged furniture', amount: -40000, weight: 1, months: MONSOON },
+  { message: 'Friend wedding gift expected', amount: -10000, weight: 1, months: WEDDING_SEASON },
+  { message: 'Pet medical emergency', amount: -10000, weight: 1 },
+  // Gains
+  { message: 'Diwali bonus from company', amount: 50000, weight: 1, months: FESTIVE },
+  { message: 'Freelance project bonus', amount: 40000, weight: 1 },
+  { message: 'Side business profit', amount: 35000, weight: 1 },
+  { message: 'Performance bonus at work', amount: 45000, weight: 1, months: [3, 4] },
+  { message: 'Tax refund received', amount: 25000, weight: 1, months: [8, 9, 10] },
+  { message: 'Sold old items online', amount: 15000, weight: 1 },
+  { message: 'Investment dividend received', amount: 30000, weight: 1 },
+];
@@ -14,6 +14,7 @@ export interface PlayerLog {
   portfolioBreakdown: PortfolioBreakdown;
   adminSettings: AdminSettings;
   gameDurationMinutes: number | null;
+  suspiciousSubmissions: number; // Networth submissions the server rejected (multiplayer only)
   completedAt: string;
 }
 
@@ -118,6 +119,34 @@ export function logPlayerGame(params: LogPlayerGameParams): { success: boolean;
   }
 }
 
+/**
+ * Attach the server's suspicious-submission count to a player's latest multiplayer log
+ * The client writes the log itself, so the server fills this in afterwards
+ */
+export function setSuspiciousSubmissions(roomId: string, playerName: string, count: number): boolean {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `UPDATE player_logs SET suspicious_submissions = ?
+       WHERE id = (
+         SELECT id FROM player_logs
+         WHERE room_id = ? AND game_mode = 'multiplayer' AND LOWER(TRIM(player_name)) = LOWER(TRIM(?))
+         ORDER BY completed_at DESC
+         LIMIT 1
+       )`,
+      [count, roomId, playerName]
+    );
+
+    const updated = db.getRowsModified() > 0;
+    saveDatabase();
+    return updated;
+  } catch (error) {
+    console.error('Set suspicious submissions error:', error);
+    return false;
+  }
+}
+
 /**
  * Get all player logs with optional filters
  */
@@ -183,6 +212,7 @@ export function getPlayerLogs(filters?: {
         portfolioBreakdown: JSON.parse(row.portfolio_breakdown as string),
         adminSettings: JSON.parse(row.admin_settings as string),
         gameDurationMinutes: row.game_duration_minutes as number | null,
+        suspiciousSubmissions: (row.suspicious_submissions as number) || 0,
         completedAt: row.completed_at as string,
       });
     }
@@ -219,6 +249,7 @@ export function getPlayerLogByUniqueId(uniqueId: string): PlayerLog | null {
       portfolioBreakdown: JSON.parse(row.portfolio_breakdown as string),
       adminSettings: JSON.parse(row.admin_settings as string),
       gameDurationMinutes: row.game_duration_minutes as number | null,
+      suspiciousSubmissions: (row.suspicious_submissions as number) || 0,
       completedAt: row.completed_at as string,
     };
   } catch (error) {
@@ -4,6 +4,7 @@
  */
 
 import { Pool, PoolClient } from 'pg';
+import { HISTORICAL_CPI } from './cpiSeed';
 
 interface PostgresConfig {
   host: string;
@@ -73,11 +74,37 @@ export async function initPostgresPool(): Promise<Pool> {
       pool = null;
       throw new Error(
         'Table "asset_prices" is empty — no market data found.\n' +
-        '   Please restore the database backup:\n' +
         '   docker exec -i bullrun_game_postgres psql -U postgres -d BullRun_GameDB_PGSQL < backups/backup_BullRun_GameDB_PGSQL.sql'
       );
     }
 
+    // Corporate actions are optional - older backups don't have them, so create the table empty
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS corporate_actions (
+        id SERIAL PRIMARY KEY,
+        asset_name TEXT NOT NULL,
+        action_type TEXT NOT NULL CHECK (action_type IN ('dividend', 'split', 'bonus')),
+        ex_date DATE NOT NULL,
+        amount NUMERIC NOT NULL DEFAULT 0,
+        factor NUMERIC NOT NULL DEFAULT 1
+      )
+    `);
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_corporate_actions_ex_date ON corporate_actions(ex_date)');
+
+    // CPI series for inflation-adjusted results - seeded with annual averages (pinned mid-year) when empty
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS cpi_index (
+        period DATE PRIMARY KEY,
+        value NUMERIC NOT NULL
+      )
+    `);
+    const cpiCount = await pool.query('SELECT COUNT(*) as count FROM cpi_index');
+    if (parseInt(cpiCount.rows[0].count, 10) === 0) {
+      for (const [year, value] of Object.entries(HISTORICAL_CPI)) {
+        await pool.query('INSERT INTO cpi_index (period, value) VALUES ($1::date, $2) ON CONFLICT DO NOTHING', [`${year}-07-01`, value]);
+      }
+    }
+
     return pool;
   } catch (error) {
     console.error('❌ Failed to connect to PostgreSQL:', error);
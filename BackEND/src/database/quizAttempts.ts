@@ -0,0 +1,185 @@
+import { getDatabase, saveDatabase } from './db';
+import { QuizResult } from '../types';
+
+export interface LogQuizAttemptParams {
+  logId?: number; // Known for solo games; multiplayer rows are attached after the game (attachQuizAttemptsToLog)
+  gameMode: 'solo' | 'multiplayer';
+  roomId?: string;
+  playerName: string;
+  result: QuizResult;
+}
+
+export interface QuizStats {
+  totalQuizzes: number;
+  averagePoints: number;
+  averageAttempts: number;
+  firstTryRate: number; // Fraction of quizzes answered correctly on the first try
+  averageTimeSeconds: number;
+  totalBonusCash: number;
+}
+
+export interface QuizLeaderboardEntry {
+  playerName: string;
+  quizzes: number;
+  totalPoints: number;
+  averagePoints: number;
+  firstTryRate: number;
+}
+
+export function logQuizAttempt(params: LogQuizAttemptParams): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+    const { result } = params;
+
+    db.run(
+      `INSERT INTO quiz_attempts (
+        log_id, game_mode, room_id, player_name, category, question_id,
+        answers, attempts, points, bonus_cash, time_taken_ms, game_year, game_month
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        params.logId ?? null,
+        params.gameMode,
+        params.roomId || null,
+        params.playerName,
+        result.category,
+        result.questionId,
+        JSON.stringify(result.answers),
+        result.attempts,
+        result.points,
+        result.bonusCash,
+        result.timeTakenMs,
+        result.gameYear,
+        result.gameMonth,
+      ]
+    );
+
+    saveDatabase();
+    return { success: true, message: 'Quiz attempt logged successfully' };
+  } catch (error) {
+    console.error('Log quiz attempt error:', error);
+    return { success: false, message: 'Failed to log quiz attempt' };
+  }
+}
+
+/**
+ * Point a player's quiz rows from a multiplayer room at their latest log for that room
+ * Returns the number of rows attached (0 when the player never logged the game)
+ */
+export function attachQuizAttemptsToLog(roomId: string, playerName: string): number {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `UPDATE quiz_attempts SET log_id = (
+         SELECT id FROM player_logs
+         WHERE room_id = ? AND game_mode = 'multiplayer' AND LOWER(TRIM(player_name)) = LOWER(TRIM(?))
+         ORDER BY completed_at DESC
+         LIMIT 1
+       )
+       WHERE room_id = ? AND log_id IS NULL AND LOWER(TRIM(player_name)) = LOWER(TRIM(?))`,
+      [roomId, playerName, roomId, playerName]
+    );
+
+    const attached = db.getRowsModified();
+    saveDatabase();
+    return attached;
+  } catch (error) {
+    console.error('Attach quiz attempts error:', error);
+    return 0;
+  }
+}
+
+/**
+ * Quiz statistics across every scored quiz, or one player's
+ */
+export function getQuizStats(playerName?: string): QuizStats {
+  try {
+    const db = getDatabase();
+
+    let query = `
+      SELECT
+        COUNT(*) as total_quizzes,
+        AVG(points) as avg_points,
+        AVG(attempts) as avg_attempts,
+        AVG(CASE WHEN attempts = 1 THEN 1.0 ELSE 0 END) as first_try_rate,
+        AVG(time_taken_ms) as avg_time_ms,
+        SUM(bonus_cash) as total_bonus_cash
+      FROM quiz_attempts
+    `;
+
+    const params: any[] = [];
+
+    if (playerName) {
+      query += ' WHERE player_name = ?';
+      params.push(playerName);
+    }
+
+    const stmt = db.prepare(query);
+    if (params.length > 0) {
+      stmt.bind(params);
+    }
+
+    stmt.step();
+    const row = stmt.getAsObject();
+    stmt.free();
+
+    return {
+      totalQuizzes: (row.total_quizzes as number) || 0,
+      averagePoints: (row.avg_points as number) || 0,
+      averageAttempts: (row.avg_attempts as number) || 0,
+      firstTryRate: (row.first_try_rate as number) || 0,
+      averageTimeSeconds: ((row.avg_time_ms as number) || 0) / 1000,
+      totalBonusCash: (row.total_bonus_cash as number) || 0,
+    };
+  } catch (error) {
+    console.error('Get quiz stats error:', error);
+    return {
+      totalQuizzes: 0,
+      averagePoints: 0,
+      averageAttempts: 0,
+      firstTryRate: 0,
+      averageTimeSeconds: 0,
+      totalBonusCash: 0,
+    };
+  }
+}
+
+/**
+ * Players ranked by total quiz points (names compared case-insensitively)
+ */
+export function getQuizLeaderboard(limit: number = 10): QuizLeaderboardEntry[] {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare(`
+      SELECT
+        MAX(player_name) as player_name,
+        COUNT(*) as quizzes,
+        SUM(points) as total_points,
+        AVG(points) as avg_points,
+        AVG(CASE WHEN attempts = 1 THEN 1.0 ELSE 0 END) as first_try_rate
+      FROM quiz_attempts
+      GROUP BY LOWER(TRIM(player_name))
+      ORDER BY total_points DESC, avg_points DESC
+      LIMIT ?
+    `);
+    stmt.bind([limit]);
+
+    const entries: QuizLeaderboardEntry[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      entries.push({
+        playerName: row.player_name as string,
+        quizzes: row.quizzes as number,
+        totalPoints: row.total_points as number,
+        averagePoints: row.avg_points as number,
+        firstTryRate: row.first_try_rate as number,
+      });
+    }
+
+    stmt.free();
+    return entries;
+  } catch (error) {
+    console.error('Get quiz leaderboard error:', error);
+    return [];
+  }
+}
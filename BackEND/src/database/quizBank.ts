@@ -0,0 +1,405 @@
+import { getDatabase, saveDatabase } from './db';
+import { AssetEducationContent, QuizQuestion, QuizQuestionTranslation, QuizBankTranslations, Language } from '../types';
+import { DEFAULT_QUIZ_BANK } from './quizBankSeed';
+import { DEFAULT_LANGUAGE } from '../game/languages';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+
+/**
+ * Validate and normalise a question sent by the admin panel or read from an import file
+ * Returns null when a field is missing or the correct answer is out of range
+ */
+export function parseQuizQuestion(value: any): QuizQuestion | null {
+  if (!value || typeof value.question !== 'string' || !value.question.trim()) return null;
+  if (!Array.isArray(value.options)) return null;
+
+  const options = value.options.filter((o: unknown) => typeof o === 'string').map((o: string) => o.trim());
+  if (options.length !== value.options.length || options.length < MIN_OPTIONS || options.length > MAX_OPTIONS || options.some((o: string) => !o)) {
+    return null;
+  }
+  if (!Number.isInteger(value.correctAnswer) || value.correctAnswer < 0 || value.correctAnswer >= options.length) return null;
+  if (value.hint !== undefined && typeof value.hint !== 'string') return null;
+
+  return {
+    question: value.question.trim(),
+    options,
+    correctAnswer: value.correctAnswer,
+    hint: (value.hint || '').trim(),
+    enabled: value.enabled !== false,
+  };
+}
+
+/**
+ * Validate a question translation against the English question it rewords
+ * The options must line up one-to-one so the stored correct answer still points at the right one
+ */
+export function parseQuizQuestionTranslation(value: any, optionCount: number): QuizQuestionTranslation | null {
+  if (!value || typeof value.question !== 'string' || !value.question.trim()) return null;
+  if (!Array.isArray(value.options) || value.options.length !== optionCount) return null;
+  if (!value.options.every((o: unknown) => typeof o === 'string' && o.trim())) return null;
+  if (value.hint !== undefined && typeof value.hint !== 'string') return null;
+
+  return {
+    question: value.question.trim(),
+    options: value.options.map((o: string) => o.trim()),
+    hint: (value.hint || '').trim(),
+  };
+}
+
+/**
+ * Category intros and questions stored for one language
+ */
+export function getQuizBankTranslations(language: Language): QuizBankTranslations {
+  const translations: QuizBankTranslations = { categories: {}, questions: {} };
+  if (language === DEFAULT_LANGUAGE) return translations;
+
+  try {
+    const db = getDatabase();
+
+    const categoryStmt = db.prepare('SELECT category, title, description FROM quiz_category_translations WHERE language = ?');
+    categoryStmt.bind([language]);
+    while (categoryStmt.step()) {
+      const row = categoryStmt.getAsObject();
+      translations.categories[row.category as string] = {
+        title: row.title as string,
+        description: row.description as string,
+      };
+    }
+    categoryStmt.free();
+
+    const questionStmt = db.prepare('SELECT question_id, question, options, hint FROM quiz_question_translations WHERE language = ?');
+    questionStmt.bind([language]);
+    while (questionStmt.step()) {
+      const row = questionStmt.getAsObject();
+      translations.questions[row.question_id as number] = {
+        question: row.question as string,
+        options: JSON.parse(row.options as string),
+        hint: row.hint as string,
+      };
+    }
+    questionStmt.free();
+  } catch (error) {
+    console.error('Get quiz bank translations error:', error);
+  }
+
+  return translations;
+}
+
+// Reword the bank in place; a question whose options no longer match the English count keeps its English text
+function applyTranslations(contents: AssetEducationContent[], translations: QuizBankTranslations): void {
+  contents.forEach(content => {
+    const category = translations.categories[content.category];
+    if (category) {
+      content.title = category.title;
+      content.description = category.description;
+    }
+    content.questions.forEach(question => {
+      const translated = translations.questions[question.id!];
+      if (translated && translated.options.length === question.options.length) {
+        question.question = translated.question;
+        question.options = translated.options;
+        question.hint = translated.hint || question.hint;
+      }
+    });
+  });
+}
+
+// Categories with their questions; disabled questions are left out unless includeDisabled
+function readQuizBank(includeDisabled: boolean): AssetEducationContent[] {
+  const db = getDatabase();
+  const contents: AssetEducationContent[] = [];
+  const byCategory = new Map<string, AssetEducationContent>();
+
+  const categoryStmt = db.prepare('SELECT category, title, description FROM quiz_categories ORDER BY rowid ASC');
+  while (categoryStmt.step()) {
+    const row = categoryStmt.getAsObject();
+    const content: AssetEducationContent = {
+      category: row.category as string,
+      title: row.title as string,
+      description: row.description as string,
+      questions: [],
+    };
+    contents.push(content);
+    byCategory.set(content.category, content);
+  }
+  categoryStmt.free();
+
+  const questionStmt = db.prepare(
+    `SELECT id, category, question, options, correct_answer, hint, enabled FROM quiz_questions
+     ${includeDisabled ? '' : 'WHERE enabled = 1'} ORDER BY id ASC`
+  );
+  while (questionStmt.step()) {
+    const row = questionStmt.getAsObject();
+    byCategory.get(row.category as string)?.questions.push({
+      id: row.id as number,
+      question: row.question as string,
+      options: JSON.parse(row.options as string),
+      correctAnswer: row.correct_answer as number,
+      hint: row.hint as string,
+      enabled: row.enabled === 1,
+    });
+  }
+  questionStmt.free();
+
+  return contents;
+}
+
+/**
+ * Quiz bank served to games, keyed by category (enabled questions only)
+ * Categories without an enabled question are left out, so their asset unlocks without an intro.
+ * Translated text replaces the English where it exists; the question order is the same in every language.
+ * Falls back to the built-in bank when the tables are empty or can't be read
+ */
+export function getQuizBank(language: Language = DEFAULT_LANGUAGE): { [category: string]: AssetEducationContent } {
+  try {
+    const contents = readQuizBank(false);
+    if (!contents.some(content => content.questions.length > 0)) {
+      return DEFAULT_QUIZ_BANK;
+    }
+    if (language !== DEFAULT_LANGUAGE) {
+      applyTranslations(contents, getQuizBankTranslations(language));
+    }
+
+    const bank: { [category: string]: AssetEducationContent } = {};
+    contents.filter(content => content.questions.length > 0).forEach(content => {
+      bank[content.category] = content;
+    });
+    return bank;
+  } catch (error) {
+    console.error('Get quiz bank error:', error);
+    return DEFAULT_QUIZ_BANK;
+  }
+}
+
+/**
+ * Every category and question, including disabled ones (admin panel)
+ */
+export function getFullQuizBank(): AssetEducationContent[] {
+  try {
+    return readQuizBank(true);
+  } catch (error) {
+    console.error('Get full quiz bank error:', error);
+    return [];
+  }
+}
+
+export function isQuizCategory(category: string): boolean {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT 1 FROM quiz_categories WHERE category = ?');
+    stmt.bind([category]);
+    const exists = stmt.step();
+    stmt.free();
+    return exists;
+  } catch (error) {
+    console.error('Check quiz category error:', error);
+    return false;
+  }
+}
+
+/**
+ * Update the intro title and description shown before a category's quiz
+ */
+export function updateQuizCategory(category: string, title: string, description: string): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      'UPDATE quiz_categories SET title = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE category = ?',
+      [title, description, category]
+    );
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Quiz category not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'Quiz category saved successfully' };
+  } catch (error) {
+    console.error('Update quiz category error:', error);
+    return { success: false, message: 'Failed to save quiz category' };
+  }
+}
+
+export function createQuizQuestion(category: string, question: QuizQuestion): { success: boolean; message: string; id?: number } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      'INSERT INTO quiz_questions (category, question, options, correct_answer, hint, enabled) VALUES (?, ?, ?, ?, ?, ?)',
+      [category, question.question, JSON.stringify(question.options), question.correctAnswer, question.hint, question.enabled === false ? 0 : 1]
+    );
+
+    const lastIdStmt = db.prepare('SELECT last_insert_rowid() as id');
+    lastIdStmt.step();
+    const result = lastIdStmt.getAsObject();
+    lastIdStmt.free();
+
+    saveDatabase();
+    return { success: true, message: 'Question added successfully', id: result.id as number };
+  } catch (error) {
+    console.error('Create quiz question error:', error);
+    return { success: false, message: 'Failed to add question' };
+  }
+}
+
+export function updateQuizQuestion(id: number, category: string, question: QuizQuestion): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `UPDATE quiz_questions
+       SET category = ?, question = ?, options = ?, correct_answer = ?, hint = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [category, question.question, JSON.stringify(question.options), question.correctAnswer, question.hint, question.enabled === false ? 0 : 1, id]
+    );
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Question not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'Question saved successfully' };
+  } catch (error) {
+    console.error('Update quiz question error:', error);
+    return { success: false, message: 'Failed to save question' };
+  }
+}
+
+export function deleteQuizQuestion(id: number): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM quiz_questions WHERE id = ?', [id]);
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Question not found' };
+    }
+    db.run('DELETE FROM quiz_question_translations WHERE question_id = ?', [id]);
+
+    saveDatabase();
+    return { success: true, message: 'Question deleted successfully' };
+  } catch (error) {
+    console.error('Delete quiz question error:', error);
+    return { success: false, message: 'Failed to delete question' };
+  }
+}
+
+/**
+ * Import categories from a file. Titles and descriptions that are given overwrite the current ones;
+ * with replace, the imported categories lose their existing questions first.
+ */
+export function importQuizBank(contents: AssetEducationContent[], replace: boolean): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+    let questionCount = 0;
+
+    db.run('BEGIN TRANSACTION');
+    try {
+      contents.forEach(content => {
+        if (content.title && content.description) {
+          db.run(
+            'UPDATE quiz_categories SET title = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE category = ?',
+            [content.title, content.description, content.category]
+          );
+        }
+        if (replace) {
+          db.run(
+            'DELETE FROM quiz_question_translations WHERE question_id IN (SELECT id FROM quiz_questions WHERE category = ?)',
+            [content.category]
+          );
+          db.run('DELETE FROM quiz_questions WHERE category = ?', [content.category]);
+        }
+        content.questions.forEach(question => {
+          db.run(
+            'INSERT INTO quiz_questions (category, question, options, correct_answer, hint, enabled) VALUES (?, ?, ?, ?, ?, ?)',
+            [content.category, question.question, JSON.stringify(question.options), question.correctAnswer, question.hint, question.enabled === false ? 0 : 1]
+          );
+          questionCount++;
+        });
+      });
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    saveDatabase();
+    return { success: true, message: `Imported ${questionCount} questions into ${contents.length} categories` };
+  } catch (error) {
+    console.error('Import quiz bank error:', error);
+    return { success: false, message: 'Failed to import quiz bank' };
+  }
+}
+
+export function saveQuizCategoryTranslation(category: string, language: Language, title: string, description: string): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `INSERT OR REPLACE INTO quiz_category_translations (category, language, title, description, updated_at)
+       VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [category, language, title, description]
+    );
+
+    saveDatabase();
+    return { success: true, message: 'Translation saved successfully' };
+  } catch (error) {
+    console.error('Save quiz category translation error:', error);
+    return { success: false, message: 'Failed to save translation' };
+  }
+}
+
+/**
+ * Get the option count of a stored question, or null when it doesn't exist
+ */
+export function getQuizQuestionOptionCount(id: number): number | null {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT options FROM quiz_questions WHERE id = ?');
+    stmt.bind([id]);
+    const count = stmt.step() ? JSON.parse(stmt.getAsObject().options as string).length : null;
+    stmt.free();
+    return count;
+  } catch (error) {
+    console.error('Get quiz question error:', error);
+    return null;
+  }
+}
+
+export function saveQuizQuestionTranslation(id: number, language: Language, translation: QuizQuestionTranslation): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run(
+      `INSERT OR REPLACE INTO quiz_question_translations (question_id, language, question, options, hint, updated_at)
+       VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+      [id, language, translation.question, JSON.stringify(translation.options), translation.hint]
+    );
+
+    saveDatabase();
+    return { success: true, message: 'Translation saved successfully' };
+  } catch (error) {
+    console.error('Save quiz question translation error:', error);
+    return { success: false, message: 'Failed to save translation' };
+  }
+}
+
+export function deleteQuizQuestionTranslation(id: number, language: Language): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM quiz_question_translations WHERE question_id = ? AND language = ?', [id, language]);
+
+    if (db.getRowsModified() === 0) {
+      return { success: false, message: 'Translation not found' };
+    }
+
+    saveDatabase();
+    return { success: true, message: 'Translation deleted successfully' };
+  } catch (error) {
+    console.error('Delete quiz question translation error:', error);
+    return { success: false, message: 'Failed to delete translation' };
+  }
+}
@@ -0,0 +1,76 @@
+import { getDatabase, saveDatabase } from './db';
+import { RoomSnapshot } from '../types';
+
+/**
+ * Save (or replace) the snapshots of live rooms and drop those of finished rooms, writing the database file once
+ */
+export function writeRoomSnapshots(snapshots: RoomSnapshot[], removedRoomIds: string[] = []): boolean {
+  if (snapshots.length === 0 && removedRoomIds.length === 0) return true;
+
+  try {
+    const db = getDatabase();
+
+    snapshots.forEach(snapshot => {
+      db.run(
+        `INSERT OR REPLACE INTO room_snapshots (room_id, snapshot, updated_at)
+         VALUES (?, ?, CURRENT_TIMESTAMP)`,
+        [snapshot.id, JSON.stringify(snapshot)]
+      );
+    });
+    removedRoomIds.forEach(roomId => {
+      db.run('DELETE FROM room_snapshots WHERE room_id = ?', [roomId]);
+    });
+
+    saveDatabase();
+    return true;
+  } catch (error) {
+    console.error('Save room snapshots error:', error);
+    return false;
+  }
+}
+
+/**
+ * Load every persisted room snapshot (used on server boot)
+ */
+export function loadRoomSnapshots(): RoomSnapshot[] {
+  try {
+    const db = getDatabase();
+    const stmt = db.prepare('SELECT room_id, snapshot FROM room_snapshots ORDER BY updated_at ASC');
+
+    const snapshots: RoomSnapshot[] = [];
+    while (stmt.step()) {
+      const row = stmt.getAsObject();
+      try {
+        snapshots.push(JSON.parse(row.snapshot as string));
+      } catch (err) {
+        console.error(`Skipping unreadable snapshot for room ${row.room_id}:`, err);
+      }
+    }
+    stmt.free();
+
+    return snapshots;
+  } catch (error) {
+    console.error('Load room snapshots error:', error);
+    return [];
+  }
+}
+
+/**
+ * Delete a room's snapshot once the room is gone or its game has finished
+ */
+export function deleteRoomSnapshot(roomId: string): boolean {
+  try {
+    const db = getDatabase();
+
+    db.run('DELETE FROM room_snapshots WHERE room_id = ?', [roomId]);
+
+    const deleted = db.getRowsModified() > 0;
+    if (deleted) {
+      saveDatabase();
+    }
+    return deleted;
+  } catch (error) {
+    console.error('Delete room snapshot error:', error);
+    return false;
+  }
+}
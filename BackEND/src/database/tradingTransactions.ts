@@ -12,6 +12,8 @@ export interface TradingTransaction {
   exitPrice: number | null;
   positionSize: number;
   profitLoss: number | null;
+  charges: number; // Brokerage + STT + stamp duty
+  taxPaid: number; // Capital gains tax
   gameYear: number;
   gameMonth: number;
   timestamp: string;
@@ -28,6 +30,8 @@ export interface LogTradeParams {
   exitPrice?: number;
   positionSize: number;
   profitLoss?: number;
+  charges?: number;
+  taxPaid?: number;
   gameYear: number;
   gameMonth: number;
 }
@@ -40,8 +44,8 @@ export function logTrade(params: LogTradeParams): { success: boolean; message: s
       `INSERT INTO trading_transactions (
         log_id, player_name, transaction_type, asset_type, asset_name,
         quantity, entry_price, exit_price, position_size, profit_loss,
-        game_year, game_month
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        charges, tax_paid, game_year, game_month
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         params.logId,
         params.playerName,
@@ -53,6 +57,8 @@ export function logTrade(params: LogTradeParams): { success: boolean; message: s
         params.exitPrice || null,
         params.positionSize,
         params.profitLoss || null,
+        params.charges || 0,
+        params.taxPaid || 0,
         params.gameYear,
         params.gameMonth,
       ]
@@ -100,6 +106,8 @@ export function getTradesByLogId(logId: number): TradingTransaction[] {
         exitPrice: row.exit_price as number | null,
         positionSize: row.position_size as number,
         profitLoss: row.profit_loss as number | null,
+        charges: (row.charges as number) || 0,
+        taxPaid: (row.tax_paid as number) || 0,
         gameYear: row.game_year as number,
         gameMonth: row.game_month as number,
         timestamp: row.timestamp as string,
@@ -0,0 +1,808 @@
+/**
+ * Built-in translations for the seeded life event pool, quiz category intros and quiz questions
+ * Only used to seed the translation tables; admins add or correct the rest in the admin panel.
+ * Keyed by the English text so they can be matched to the seeded rows.
+ */
+import { Language } from '../types';
+
+type Translated<T> = Partial<Record<Language, T>>;
+
+export const LIFE_EVENT_MESSAGE_TRANSLATIONS: { [message: string]: Translated<string> } = {
+  'House robbery during Diwali': { hi: 'दिवाली के दौरान घर में चोरी', mr: 'दिवाळीत घरात चोरी', ta: 'தீபாவளியின் போது வீட்டில் திருட்டு' },
+  'Family medical emergency': { hi: 'परिवार में मेडिकल इमरजेंसी', mr: 'कुटुंबातील वैद्यकीय आणीबाणी', ta: 'குடும்ப மருத்துவ அவசரநிலை' },
+  'Vehicle repair after monsoon': { hi: 'मानसून के बाद वाहन की मरम्मत', mr: 'पावसाळ्यानंतर वाहन दुरुस्ती', ta: 'பருவமழைக்குப் பின் வாகனப் பழுது நீக்கம்' },
+  'Wedding shopping expenses': { hi: 'शादी की खरीदारी का खर्च', mr: 'लग्नाच्या खरेदीचा खर्च', ta: 'திருமணப் பொருட்கள் வாங்கும் செலவு' },
+  'Health insurance deductible': { hi: 'स्वास्थ्य बीमा में अपनी जेब से दी जाने वाली राशि', mr: 'आरोग्य विम्यातील स्वतः भरायची रक्कम', ta: 'மருத்துவக் காப்பீட்டில் நீங்களே செலுத்த வேண்டிய தொகை' },
+  'Home repairs after flooding': { hi: 'बाढ़ के बाद घर की मरम्मत', mr: 'पुरानंतर घराची दुरुस्ती', ta: 'வெள்ளத்துக்குப் பின் வீட்டுப் பழுது நீக்கம்' },
+  'Laptop suddenly stopped working': { hi: 'लैपटॉप अचानक बंद हो गया', mr: 'लॅपटॉप अचानक बंद पडला', ta: 'லேப்டாப் திடீரென வேலை செய்யவில்லை' },
+  'Legal fees for property dispute': { hi: 'संपत्ति विवाद की कानूनी फीस', mr: 'मालमत्तेच्या वादासाठी वकिलाची फी', ta: 'சொத்துத் தகராறுக்கான சட்டக் கட்டணம்' },
+  'AC breakdown in peak summer': { hi: 'भरी गर्मी में एसी खराब', mr: 'ऐन उन्हाळ्यात एसी बिघडला', ta: 'கடும் கோடையில் ஏசி பழுது' },
+  'Parent hospitalization costs': { hi: 'माता-पिता के अस्पताल का खर्च', mr: 'आई-वडिलांच्या रुग्णालयाचा खर्च', ta: 'பெற்றோரின் மருத்துவமனைச் செலவு' },
+  'Car accident repairs': { hi: 'कार दुर्घटना की मरम्मत', mr: 'कार अपघातानंतरची दुरुस्ती', ta: 'கார் விபத்துப் பழுது நீக்கம்' },
+  'Stolen mobile phone': { hi: 'मोबाइल फोन चोरी हो गया', mr: 'मोबाईल फोन चोरीला गेला', ta: 'கைபேசி திருடுபோனது' },
+  'Urgent home appliance replacement': { hi: 'घरेलू उपकरण तुरंत बदलना पड़ा', mr: 'घरगुती उपकरण तातडीने बदलावे लागले', ta: 'வீட்டு உபகரணத்தை அவசரமாக மாற்ற வேண்டியது' },
+  'Child school fees increase': { hi: 'बच्चे की स्कूल फीस बढ़ी', mr: 'मुलाची शाळेची फी वाढली', ta: 'குழந்தையின் பள்ளிக் கட்டண உயர்வு' },
+  'Unexpected tax liability': { hi: 'अचानक टैक्स की देनदारी', mr: 'अनपेक्षित कराची रक्कम भरावी लागली', ta: 'எதிர்பாராத வரிச் சுமை' },
+  'Emergency dental treatment': { hi: 'दांतों का आपातकालीन इलाज', mr: 'दातांचे तातडीचे उपचार', ta: 'அவசரப் பல் சிகிச்சை' },
+  'Bike accident repair': { hi: 'बाइक दुर्घटना की मरम्मत', mr: 'बाईक अपघातानंतरची दुरुस्ती', ta: 'பைக் விபத்துப் பழுது நீக்கம்' },
+  'Flooding damaged furniture': { hi: 'बाढ़ से फर्नीचर खराब हुआ', mr: 'पुरामुळे फर्निचरचे नुकसान', ta: 'வெள்ளத்தால் மரச்சாமான்கள் சேதம்' },
+  'Friend wedding gift expected': { hi: 'दोस्त की शादी में उपहार देना है', mr: 'मित्राच्या लग्नात भेटवस्तू द्यायची आहे', ta: 'நண்பரின் திருமணத்துக்குப் பரிசு தர வேண்டும்' },
+  'Pet medical emergency': { hi: 'पालतू जानवर की मेडिकल इमरजेंसी', mr: 'पाळीव प्राण्याची वैद्यकीय आणीबाणी', ta: 'செல்லப்பிராணியின் மருத்துவ அவசரநிலை' },
+  'Diwali bonus from company': { hi: 'कंपनी से दिवाली बोनस', mr: 'कंपनीकडून दिवाळी बोनस', ta: 'நிறுவனத்திடமிருந்து தீபாவளி போனஸ்' },
+  'Freelance project bonus': { hi: 'फ्रीलांस प्रोजेक्ट बोनस', mr: 'फ्रीलान्स प्रकल्पाचा बोनस', ta: 'ஃப்ரீலான்ஸ் திட்ட போனஸ்' },
+  'Side business profit': { hi: 'साइड बिज़नेस से मुनाफ़ा', mr: 'जोडधंद्यातून नफा', ta: 'பக்கத் தொழில் லாபம்' },
+  'Performance bonus at work': { hi: 'ऑफिस में परफॉर्मेंस बोनस', mr: 'कामातील चांगल्या कामगिरीचा बोनस', ta: 'பணியில் செயல்திறன் போனஸ்' },
+  'Tax refund received': { hi: 'टैक्स रिफंड मिला', mr: 'कर परतावा मिळाला', ta: 'வரித் திருப்பம் கிடைத்தது' },
+  'Sold old items online': { hi: 'पुराना सामान ऑनलाइन बेचा', mr: 'जुन्या वस्तू ऑनलाइन विकल्या', ta: 'பழைய பொருட்களை ஆன்லைனில் விற்றது' },
+  'Investment dividend received': { hi: 'निवेश पर डिविडेंड मिला', mr: 'गुंतवणुकीवर लाभांश मिळाला', ta: 'முதலீட்டு ஈவுத்தொகை கிடைத்தது' },
+};
+
+export const LIFE_EVENT_CHOICE_TRANSLATIONS: { [label: string]: Translated<string> } = {
+  'Private hospital, paid from pocket cash': { hi: 'निजी अस्पताल, जेब के पैसों से भुगतान', mr: 'खासगी रुग्णालय, हातातील पैशांतून खर्च', ta: 'தனியார் மருத்துவமனை, கையிருப்புப் பணத்தில் செலுத்துதல்' },
+  'Private hospital, break a fixed deposit to pay': { hi: 'निजी अस्पताल, एफडी तोड़कर भुगतान', mr: 'खासगी रुग्णालय, एफडी मोडून खर्च', ta: 'தனியார் மருத்துவமனை, நிலை வைப்பை முறித்துச் செலுத்துதல்' },
+  'Government hospital - cheaper, longer wait': { hi: 'सरकारी अस्पताल - सस्ता, पर लंबा इंतज़ार', mr: 'सरकारी रुग्णालय - स्वस्त, पण जास्त प्रतीक्षा', ta: 'அரசு மருத்துவமனை - செலவு குறைவு, காத்திருப்பு அதிகம்' },
+  'Authorised service centre': { hi: 'अधिकृत सर्विस सेंटर', mr: 'अधिकृत सर्व्हिस सेंटर', ta: 'அங்கீகரிக்கப்பட்ட சர்வீஸ் மையம்' },
+  'Local mechanic - cheaper, no warranty': { hi: 'लोकल मैकेनिक - सस्ता, कोई वारंटी नहीं', mr: 'स्थानिक मेकॅनिक - स्वस्त, वॉरंटी नाही', ta: 'உள்ளூர் மெக்கானிக் - செலவு குறைவு, உத்தரவாதம் இல்லை' },
+  'Service centre, break a fixed deposit to pay': { hi: 'सर्विस सेंटर, एफडी तोड़कर भुगतान', mr: 'सर्व्हिस सेंटर, एफडी मोडून खर्च', ta: 'சர்வீஸ் மையம், நிலை வைப்பை முறித்துச் செலுத்துதல்' },
+  'Buy a new one': { hi: 'नया खरीदें', mr: 'नवीन विकत घ्या', ta: 'புதியது வாங்குதல்' },
+  'Get the old one repaired': { hi: 'पुराना ठीक करवाएँ', mr: 'जुनेच दुरुस्त करून घ्या', ta: 'பழையதைப் பழுது பார்த்தல்' },
+  'Spend as planned': { hi: 'योजना के अनुसार खर्च करें', mr: 'ठरल्याप्रमाणे खर्च करा', ta: 'திட்டமிட்டபடி செலவு செய்தல்' },
+  'Keep it simple': { hi: 'सादगी से करें', mr: 'साधेपणाने करा', ta: 'எளிமையாகச் செய்தல்' },
+  'Spend as planned, break a fixed deposit to pay': { hi: 'योजना के अनुसार खर्च, एफडी तोड़कर भुगतान', mr: 'ठरल्याप्रमाणे खर्च, एफडी मोडून', ta: 'திட்டமிட்டபடி செலவு, நிலை வைப்பை முறித்துச் செலுத்துதல்' },
+};
+
+export const QUIZ_CATEGORY_TRANSLATIONS: { [category: string]: Translated<{ title: string; description: string }> } = {
+  BANKING: {
+    hi: {
+      title: 'बैंकिंग: बचत खाता और सावधि जमा (FD)',
+      description: 'बैंकिंग आपके पैसे को सुरक्षित रखने और बढ़ाने के आसान तरीके देती है। बचत खाते से पैसा कभी भी निकाला जा सकता है और थोड़ा ब्याज मिलता है, जबकि सावधि जमा (FD) में पैसा तय समय के लिए जमा रहता है और ज़्यादा गारंटीड ब्याज मिलता है। दोनों DICGC द्वारा ₹5 लाख तक बीमित हैं।',
+    },
+    mr: {
+      title: 'बँकिंग: बचत खाते आणि मुदत ठेव (FD)',
+      description: 'बँकिंग तुमचे पैसे सुरक्षित ठेवण्याचे आणि वाढवण्याचे सोपे मार्ग देते. बचत खात्यातील पैसे कधीही काढता येतात आणि त्यावर थोडे व्याज मिळते, तर मुदत ठेवीत (FD) पैसे ठरावीक काळासाठी ठेवले जातात आणि जास्त हमखास व्याज मिळते. दोन्ही DICGC कडून ₹5 लाखांपर्यंत विमा-संरक्षित आहेत.',
+    },
+    ta: {
+      title: 'வங்கி: சேமிப்புக் கணக்கும் நிலை வைப்பும் (FD)',
+      description: 'வங்கி உங்கள் பணத்தைப் பாதுகாப்பாக வைத்து வளர்க்க எளிய வழிகளைத் தருகிறது. சேமிப்புக் கணக்கில் பணத்தை எப்போது வேண்டுமானாலும் எடுக்கலாம், சிறிய வட்டியும் கிடைக்கும். நிலை வைப்பில் (FD) பணம் குறிப்பிட்ட காலத்துக்கு முடக்கப்பட்டு அதிக உறுதியான வட்டி கிடைக்கும். இரண்டுக்கும் DICGC மூலம் ₹5 லட்சம் வரை காப்பீடு உண்டு.',
+    },
+  },
+  SAVINGS_AC: {
+    hi: {
+      title: 'बचत खाता',
+      description: 'बचत खाता एक बुनियादी बैंक खाता है जिसमें आप पैसा जमा करके सुरक्षित रख सकते हैं और थोड़ा ब्याज कमा सकते हैं। ज़रूरत पड़ने पर पैसा कभी भी आसानी से निकाला जा सकता है।',
+    },
+    mr: {
+      title: 'बचत खाते',
+      description: 'बचत खाते हे एक मूलभूत बँक खाते आहे. यात तुम्ही पैसे जमा करून सुरक्षित ठेवू शकता आणि थोडे व्याज मिळवू शकता. गरज पडेल तेव्हा पैसे सहज काढता येतात.',
+    },
+    ta: {
+      title: 'சேமிப்புக் கணக்கு',
+      description: 'சேமிப்புக் கணக்கு என்பது பணத்தைச் செலுத்திப் பாதுகாப்பாக வைத்து, சிறிய வட்டி ஈட்ட உதவும் அடிப்படை வங்கிக் கணக்கு. தேவைப்படும்போது எளிதாகப் பணத்தை எடுக்கலாம்.',
+    },
+  },
+  FIXED_DEPOSIT: {
+    hi: {
+      title: 'सावधि जमा (FD)',
+      description: 'सावधि जमा एक सुरक्षित निवेश है जिसमें आप पैसा तय अवधि (3 महीने, 1 साल या 3 साल) के लिए जमा करते हैं और गारंटीड ब्याज कमाते हैं। ब्याज बचत खाते से ज़्यादा मिलता है, लेकिन समय से पहले निकालने पर जुर्माना लगता है।',
+    },
+    mr: {
+      title: 'मुदत ठेव (FD)',
+      description: 'मुदत ठेव ही एक सुरक्षित गुंतवणूक आहे. यात तुम्ही पैसे ठरावीक काळासाठी (3 महिने, 1 वर्ष किंवा 3 वर्षे) ठेवता आणि हमखास व्याज मिळवता. बचत खात्यापेक्षा जास्त व्याज मिळते, पण मुदतीपूर्वी पैसे काढल्यास दंड लागतो.',
+    },
+    ta: {
+      title: 'நிலை வைப்பு (FD)',
+      description: 'நிலை வைப்பு என்பது பணத்தைக் குறிப்பிட்ட காலத்துக்கு (3 மாதம், 1 ஆண்டு அல்லது 3 ஆண்டுகள்) முடக்கி உறுதியான வட்டி ஈட்டும் பாதுகாப்பான முதலீடு. சேமிப்புக் கணக்கை விட வட்டி அதிகம், ஆனால் முன்கூட்டியே எடுத்தால் அபராதம் உண்டு.',
+    },
+  },
+  GOLD: {
+    hi: {
+      title: 'सोने में निवेश',
+      description: 'सोना एक कीमती धातु है जिसमें महंगाई से बचाव के लिए निवेश किया जाता है। आप भौतिक सोना (गहने, सिक्के) या डिजिटल सोना (ऑनलाइन, असली सोने से समर्थित) खरीद सकते हैं। आर्थिक अनिश्चितता के समय भी सोना आमतौर पर अपनी कीमत बनाए रखता है।',
+    },
+    mr: {
+      title: 'सोन्यातील गुंतवणूक',
+      description: 'सोने हा एक मौल्यवान धातू आहे, ज्यात महागाईपासून बचावासाठी गुंतवणूक केली जाते. तुम्ही प्रत्यक्ष सोने (दागिने, नाणी) किंवा डिजिटल सोने (ऑनलाइन, खऱ्या सोन्याचा आधार असलेले) घेऊ शकता. आर्थिक अनिश्चिततेच्या काळातही सोने सहसा आपले मूल्य टिकवून ठेवते.',
+    },
+    ta: {
+      title: 'தங்க முதலீடு',
+      description: 'தங்கம் விலைவாசி உயர்விலிருந்து பாதுகாக்கும் முதலீடாகப் பயன்படும் விலைமதிப்புள்ள உலோகம். நகைகள், நாணயங்கள் போன்ற நேரடித் தங்கம் அல்லது உண்மையான தங்கத்தின் ஆதரவுடைய டிஜிட்டல் தங்கத்தை வாங்கலாம். பொருளாதார நிச்சயமற்ற காலங்களிலும் தங்கம் பொதுவாகத் தன் மதிப்பைத் தக்கவைக்கும்.',
+    },
+  },
+  STOCKS: {
+    hi: {
+      title: 'शेयर बाज़ार',
+      description: 'शेयर किसी कंपनी में हिस्सेदारी दर्शाते हैं। शेयर खरीदने पर आप कंपनी के आंशिक मालिक बन जाते हैं और उसकी बढ़त से मुनाफ़ा कमा सकते हैं। शेयरों की कीमतें कंपनी के प्रदर्शन और बाज़ार की स्थिति के साथ ऊपर-नीचे होती हैं। जोखिम ज़्यादा है, पर रिटर्न भी ज़्यादा हो सकता है।',
+    },
+    mr: {
+      title: 'शेअर बाजार',
+      description: 'शेअर म्हणजे कंपनीतील मालकीचा हिस्सा. शेअर विकत घेतल्यावर तुम्ही कंपनीचे अंशतः मालक होता आणि कंपनीच्या वाढीतून नफा मिळवू शकता. कंपनीची कामगिरी आणि बाजारातील परिस्थितीनुसार शेअरच्या किमती कमी-जास्त होतात. जोखीम जास्त, पण परतावाही जास्त मिळू शकतो.',
+    },
+    ta: {
+      title: 'பங்குச் சந்தை',
+      description: 'பங்குகள் ஒரு நிறுவனத்தில் உள்ள உரிமையைக் குறிக்கின்றன. பங்குகளை வாங்கும்போது நீங்கள் நிறுவனத்தின் பகுதி உரிமையாளராகி அதன் வளர்ச்சியில் லாபம் பெறலாம். நிறுவனத்தின் செயல்பாடு மற்றும் சந்தை நிலவரத்தைப் பொறுத்து பங்கு விலைகள் ஏறி இறங்கும். அபாயம் அதிகம், ஆனால் வருமானமும் அதிகமாக இருக்கலாம்.',
+    },
+  },
+  CRYPTO: {
+    hi: {
+      title: 'क्रिप्टोकरेंसी',
+      description: 'बिटकॉइन (BTC) और एथेरियम (ETH) जैसी क्रिप्टोकरेंसी ब्लॉकचेन तकनीक पर चलने वाली डिजिटल मुद्राएँ हैं। इनकी कीमतें बहुत तेज़ी से बदलती हैं और ये सट्टे जैसे निवेश हैं। इन पर पारंपरिक संपत्तियों जैसा नियमन नहीं है। आप एक सिक्के का छोटा हिस्सा भी खरीद सकते हैं।',
+    },
+    mr: {
+      title: 'क्रिप्टोकरन्सी',
+      description: 'बिटकॉइन (BTC) आणि इथेरियम (ETH) सारख्या क्रिप्टोकरन्सी ब्लॉकचेन तंत्रज्ञानावर चालणारी डिजिटल चलने आहेत. त्यांच्या किमती खूप वेगाने बदलतात आणि ही सट्टेबाजीसारखी गुंतवणूक आहे. पारंपरिक मालमत्तांसारखे त्यांच्यावर नियमन नाही. तुम्ही एका नाण्याचा छोटा भागही विकत घेऊ शकता.',
+    },
+    ta: {
+      title: 'கிரிப்டோகரன்சி',
+      description: 'பிட்காயின் (BTC), எத்தேரியம் (ETH) போன்ற கிரிப்டோகரன்சிகள் பிளாக்செயின் தொழில்நுட்பத்தில் இயங்கும் டிஜிட்டல் நாணயங்கள். இவற்றின் விலை மிக வேகமாக மாறும்; இவை ஊக முதலீடுகள். பாரம்பரிய சொத்துகளைப் போல ஒழுங்குமுறை இல்லை. ஒரு நாணயத்தின் ஒரு பகுதியைக் கூட வாங்கலாம்.',
+    },
+  },
+  FOREX: {
+    hi: {
+      title: 'विदेशी मुद्रा (फ़ॉरेक्स)',
+      description: 'USDINR, EURINR और GBPINR जैसी फ़ॉरेक्स जोड़ियाँ बताती हैं कि विदेशी मुद्रा की एक इकाई कितने रुपये की है। रुपया कमज़ोर होने पर विदेशी मुद्रा रखने वाले को फ़ायदा होता है और रुपया मज़बूत होने पर नुकसान। दरें ब्याज दरों, व्यापार संतुलन और दुनिया भर के पैसे के प्रवाह के साथ बदलती हैं।',
+    },
+    mr: {
+      title: 'परकीय चलन (फॉरेक्स)',
+      description: 'USDINR, EURINR आणि GBPINR सारख्या फॉरेक्स जोड्या दाखवतात की परकीय चलनाच्या एका एककासाठी किती रुपये लागतात. रुपया कमकुवत झाल्यावर परकीय चलन बाळगणाऱ्याला फायदा होतो आणि रुपया मजबूत झाल्यावर तोटा. व्याजदर, व्यापार तोल आणि जागतिक पैशांच्या ओघानुसार दर बदलतात.',
+    },
+    ta: {
+      title: 'அந்நியச் செலாவணி (ஃபாரெக்ஸ்)',
+      description: 'USDINR, EURINR, GBPINR போன்ற ஃபாரெக்ஸ் இணைகள் ஒரு வெளிநாட்டு நாணய அலகின் விலை எத்தனை ரூபாய் என்பதைக் காட்டுகின்றன. ரூபாய் பலவீனமடைந்தால் வெளிநாட்டு நாணயம் வைத்திருப்பவருக்கு லாபம், வலுவடைந்தால் நஷ்டம். வட்டி விகிதங்கள், வர்த்தகச் சமநிலை, உலகப் பணப் புழக்கம் ஆகியவற்றைப் பொறுத்து விகிதங்கள் மாறும்.',
+    },
+  },
+  BONDS: {
+    hi: {
+      title: 'बॉन्ड और सरकारी प्रतिभूतियाँ',
+      description: 'बॉन्ड सरकार या किसी कंपनी को दिया गया कर्ज़ है। इसके बदले आपको हर 6 महीने तय कूपन (ब्याज) मिलता है और परिपक्वता पर पूरा पैसा वापस मिलता है। G-Sec के पीछे सरकार की गारंटी होती है, RBI बॉन्ड परिपक्वता तक रखे जाते हैं, और कॉर्पोरेट बॉन्ड थोड़े ज़्यादा जोखिम के बदले ज़्यादा ब्याज देते हैं। जब बाज़ार में यील्ड बढ़ती है तो मौजूदा बॉन्ड की कीमतें गिरती हैं - और इसका उल्टा भी होता है।',
+    },
+    mr: {
+      title: 'बाँड आणि सरकारी रोखे',
+      description: 'बाँड म्हणजे सरकारला किंवा कंपनीला दिलेले कर्ज. त्याबदल्यात तुम्हाला दर 6 महिन्यांनी ठरलेले कूपन (व्याज) मिळते आणि मुदतपूर्तीला मूळ रक्कम परत मिळते. G-Sec ला सरकारची हमी असते, RBI बाँड मुदतपूर्तीपर्यंत ठेवावे लागतात, आणि कॉर्पोरेट बाँड थोड्या जास्त जोखमीसाठी जास्त व्याज देतात. बाजारातील यील्ड वाढले की सध्याच्या बाँडच्या किमती घसरतात - आणि उलटही घडते.',
+    },
+    ta: {
+      title: 'பத்திரங்களும் அரசுப் பத்திரங்களும்',
+      description: 'பத்திரம் என்பது அரசுக்கோ நிறுவனத்துக்கோ நீங்கள் தரும் கடன். இதற்கு ஈடாக ஒவ்வொரு 6 மாதமும் நிலையான கூப்பன் (வட்டி) கிடைக்கும்; முதிர்வின் போது உங்கள் பணம் திரும்பக் கிடைக்கும். G-Sec-களுக்கு அரசின் உத்தரவாதம் உண்டு, RBI பத்திரங்கள் முதிர்வு வரை வைத்திருக்கப்படும், நிறுவனப் பத்திரங்கள் சற்று அதிக அபாயத்துக்கு அதிக வட்டி தரும். சந்தை ஈட்டு விகிதம் உயரும்போது ஏற்கெனவே உள்ள பத்திரங்களின் விலை குறையும் - மறுதலையாகவும் நடக்கும்.',
+    },
+  },
+  COMMODITY: {
+    hi: {
+      title: 'कमोडिटी',
+      description: 'कमोडिटी कच्चे माल हैं, जैसे कपास, गेहूँ, कच्चा तेल, चाँदी, प्राकृतिक गैस, ताँबा और एल्युमिनियम। इनकी कीमतें दुनिया भर की माँग, मौसम और आर्थिक हालात पर निर्भर करती हैं। इनका उपयोग निवेश में विविधता लाने और महंगाई से बचाव के लिए होता है।',
+    },
+    mr: {
+      title: 'कमोडिटी',
+      description: 'कमोडिटी म्हणजे कापूस, गहू, कच्चे तेल, चांदी, नैसर्गिक वायू, तांबे आणि ॲल्युमिनियम सारखा कच्चा माल. त्यांच्या किमती जागतिक मागणी, हवामान आणि आर्थिक परिस्थितीवर अवलंबून असतात. गुंतवणुकीत विविधता आणण्यासाठी आणि महागाईपासून बचावासाठी त्यांचा वापर होतो.',
+    },
+    ta: {
+      title: 'பண்டங்கள் (கமாடிட்டி)',
+      description: 'பருத்தி, கோதுமை, கச்சா எண்ணெய், வெள்ளி, இயற்கை எரிவாயு, செம்பு, அலுமினியம் போன்ற மூலப்பொருட்களே பண்டங்கள். இவற்றின் விலை உலகத் தேவை, வானிலை, பொருளாதார நிலை ஆகியவற்றைப் பொறுத்தது. முதலீட்டைப் பரவலாக்கவும் விலைவாசி உயர்விலிருந்து பாதுகாக்கவும் பயன்படுகின்றன.',
+    },
+  },
+  INDEX_FUND: {
+    hi: {
+      title: 'इंडेक्स फंड',
+      description: 'इंडेक्स फंड (ETF) निफ्टी 50 जैसे बाज़ार सूचकांकों को ट्रैक करने वाले निष्क्रिय निवेश हैं। ये एक साथ कई कंपनियों में निवेश करके तुरंत विविधता देते हैं। इनकी फीस कम होती है और ये अलग-अलग शेयरों से कम जोखिम वाले होते हैं।',
+    },
+    mr: {
+      title: 'इंडेक्स फंड',
+      description: 'इंडेक्स फंड (ETF) ही निफ्टी 50 सारख्या बाजार निर्देशांकांचा मागोवा घेणारी निष्क्रिय गुंतवणूक आहे. एकाच वेळी अनेक कंपन्यांमध्ये गुंतवणूक करून ते लगेच विविधता देतात. त्यांची फी कमी असते आणि स्वतंत्र शेअर्सपेक्षा जोखीम कमी असते.',
+    },
+    ta: {
+      title: 'குறியீட்டு நிதிகள் (இன்டெக்ஸ் ஃபண்ட்)',
+      description: 'குறியீட்டு நிதிகள் (ETF) நிஃப்டி 50 போன்ற சந்தைக் குறியீடுகளைப் பின்பற்றும் செயலற்ற முதலீடுகள். ஒரே நேரத்தில் பல நிறுவனங்களில் முதலீடு செய்வதால் உடனடிப் பரவலாக்கம் கிடைக்கும். கட்டணம் குறைவு; தனிப் பங்குகளை விட அபாயம் குறைவு.',
+    },
+  },
+  MUTUAL_FUND: {
+    hi: {
+      title: 'म्यूचुअल फंड',
+      description: 'म्यूचुअल फंड कई निवेशकों का पैसा इकट्ठा करके शेयरों, बॉन्ड या दूसरी संपत्तियों में लगाते हैं। निवेश के फ़ैसले पेशेवर फंड मैनेजर लेते हैं। ये उन निवेशकों के लिए ठीक हैं जो खुद अलग-अलग शेयर नहीं चुनना चाहते।',
+    },
+    mr: {
+      title: 'म्युच्युअल फंड',
+      description: 'म्युच्युअल फंड अनेक गुंतवणूकदारांचे पैसे एकत्र करून शेअर्स, बाँड किंवा इतर मालमत्तांमध्ये गुंतवतात. गुंतवणुकीचे निर्णय व्यावसायिक फंड मॅनेजर घेतात. ज्यांना स्वतः शेअर्स निवडायचे नाहीत अशा गुंतवणूकदारांसाठी हे योग्य आहेत.',
+    },
+    ta: {
+      title: 'பரஸ்பர நிதிகள் (மியூச்சுவல் ஃபண்ட்)',
+      description: 'பரஸ்பர நிதிகள் பல முதலீட்டாளர்களின் பணத்தைத் திரட்டிப் பங்குகள், பத்திரங்கள் அல்லது பிற சொத்துகளில் முதலீடு செய்கின்றன. முதலீட்டு முடிவுகளைத் தொழில்முறை நிதி மேலாளர்கள் எடுக்கிறார்கள். தனிப் பங்குகளைத் தாங்களே தேர்ந்தெடுக்க விரும்பாதவர்களுக்கு ஏற்றவை.',
+    },
+  },
+  REIT: {
+    hi: {
+      title: 'रियल एस्टेट इन्वेस्टमेंट ट्रस्ट (REIT)',
+      description: 'REIT के ज़रिए आप सीधे संपत्ति खरीदे बिना व्यावसायिक रियल एस्टेट (ऑफिस बिल्डिंग, बिज़नेस पार्क) में निवेश कर सकते हैं। इनसे नियमित किराये की आय मिलती है और संपत्ति की कीमत बढ़ने का फ़ायदा भी मिल सकता है।',
+    },
+    mr: {
+      title: 'रिअल इस्टेट इन्व्हेस्टमेंट ट्रस्ट (REIT)',
+      description: 'REIT मुळे तुम्ही थेट मालमत्ता विकत न घेता व्यावसायिक स्थावर मालमत्तेत (ऑफिस इमारती, बिझनेस पार्क) गुंतवणूक करू शकता. त्यातून नियमित भाड्याचे उत्पन्न मिळते आणि मालमत्तेचे मूल्य वाढण्याचा फायदाही मिळू शकतो.',
+    },
+    ta: {
+      title: 'ரியல் எஸ்டேட் முதலீட்டு அறக்கட்டளை (REIT)',
+      description: 'REIT மூலம் சொத்தை நேரடியாக வாங்காமலேயே வணிக ரியல் எஸ்டேட்டில் (அலுவலகக் கட்டடங்கள், வணிகப் பூங்காக்கள்) முதலீடு செய்யலாம். இவை தொடர்ந்து வாடகை வருமானத்தையும், சொத்து மதிப்பு உயர்வின் பலனையும் தரக்கூடும்.',
+    },
+  },
+};
+
+
+export const QUIZ_QUESTION_TRANSLATIONS: { [question: string]: Translated<{ question: string; options: string[]; hint: string }> } = {
+  // Banking, savings account and fixed deposits
+  'What is the main benefit of a savings account?': {
+    hi: { question: 'बचत खाते का मुख्य फ़ायदा क्या है?', options: ['गारंटीड टैक्स-फ्री आय', 'ब्याज के साथ सुरक्षित बचत', '1 साल में पैसा दोगुना', 'सबसे ज़्यादा रिटर्न'], hint: 'सुरक्षा और गारंटीड रिटर्न के बारे में सोचें!' },
+    mr: { question: 'बचत खात्याचा मुख्य फायदा कोणता?', options: ['हमखास करमुक्त उत्पन्न', 'व्याजासह सुरक्षित बचत', '1 वर्षात पैसे दुप्पट', 'सर्वाधिक परतावा'], hint: 'सुरक्षितता आणि हमखास परताव्याचा विचार करा!' },
+    ta: { question: 'சேமிப்புக் கணக்கின் முக்கியப் பயன் என்ன?', options: ['உத்தரவாதமான வரியில்லா வருமானம்', 'வட்டியுடன் பாதுகாப்பான சேமிப்பு', '1 ஆண்டில் பணம் இரட்டிப்பு', 'அதிகபட்ச வருமானம்'], hint: 'பாதுகாப்பையும் உத்தரவாதமான வருமானத்தையும் நினைத்துப் பாருங்கள்!' },
+  },
+  'What happens if you break an FD before maturity?': {
+    hi: { question: 'अगर आप FD को मैच्योरिटी से पहले तोड़ दें तो क्या होता है?', options: ['आपको बोनस ब्याज मिलता है', 'आपको जुर्माना देना पड़ता है', 'आपका पूरा पैसा डूब जाता है', 'कुछ नहीं होता'], hint: 'जल्दी तोड़ने की एक कीमत होती है!' },
+    mr: { question: 'मुदतपूर्तीपूर्वी FD मोडल्यास काय होते?', options: ['तुम्हाला बोनस व्याज मिळते', 'तुम्हाला दंड भरावा लागतो', 'तुमचे सगळे पैसे बुडतात', 'काहीच होत नाही'], hint: 'लवकर मोडण्याची किंमत मोजावी लागते!' },
+    ta: { question: 'முதிர்வுக்கு முன் FD-ஐ முறித்தால் என்ன ஆகும்?', options: ['உங்களுக்குக் கூடுதல் வட்டி கிடைக்கும்', 'நீங்கள் அபராதம் செலுத்த வேண்டும்', 'முழுப் பணத்தையும் இழப்பீர்கள்', 'எதுவும் நடக்காது'], hint: 'முன்கூட்டியே முறிப்பதற்கு ஒரு விலை உண்டு!' },
+  },
+  'Which offers higher interest - Savings Account or FD?': {
+    hi: { question: 'किस पर ज़्यादा ब्याज मिलता है - बचत खाता या FD?', options: ['हमेशा बचत खाता', 'दोनों बिल्कुल बराबर', 'आमतौर पर सावधि जमा (FD)', 'सिर्फ़ बैंक पर निर्भर'], hint: 'पैसा ज़्यादा समय के लिए रखने पर ज़्यादा मिलता है!' },
+    mr: { question: 'जास्त व्याज कशावर मिळते - बचत खाते की FD?', options: ['नेहमी बचत खाते', 'दोन्ही अगदी सारखे', 'सहसा मुदत ठेव (FD)', 'फक्त बँकेवर अवलंबून'], hint: 'पैसे जास्त काळ ठेवले तर जास्त मिळते!' },
+    ta: { question: 'எதில் அதிக வட்டி கிடைக்கும் - சேமிப்புக் கணக்கா, FD-யா?', options: ['எப்போதும் சேமிப்புக் கணக்கு', 'இரண்டும் சரிசமம்', 'பொதுவாக நிலை வைப்பு (FD)', 'வங்கியைப் பொறுத்தது மட்டும்'], hint: 'பணத்தை நீண்ட காலம் பூட்டி வைத்தால் அதிகம் கிடைக்கும்!' },
+  },
+  'What is the deposit insurance limit in India?': {
+    hi: { question: 'भारत में जमा बीमा की सीमा क्या है?', options: ['₹5 लाख तक', '₹1 लाख तक', 'असीमित बीमा', 'कोई बीमा नहीं होता'], hint: 'DICGC जमा राशि की सुरक्षा करता है!' },
+    mr: { question: 'भारतात ठेव विम्याची मर्यादा किती आहे?', options: ['₹5 लाखांपर्यंत', '₹1 लाखापर्यंत', 'अमर्यादित विमा', 'कोणताही विमा नसतो'], hint: 'DICGC ठेवींचे संरक्षण करते!' },
+    ta: { question: 'இந்தியாவில் வைப்புக் காப்பீட்டு வரம்பு என்ன?', options: ['₹5 லட்சம் வரை', '₹1 லட்சம் வரை', 'வரம்பில்லாக் காப்பீடு', 'காப்பீடே இல்லை'], hint: 'DICGC வைப்புகளுக்குப் பாதுகாப்பு தருகிறது!' },
+  },
+  'Can you withdraw from a savings account anytime?': {
+    hi: { question: 'क्या आप बचत खाते से कभी भी पैसा निकाल सकते हैं?', options: ['सिर्फ़ 6 महीने बाद', 'सिर्फ़ कामकाजी दिनों में', 'हाँ, जब भी ज़रूरत हो', '1 साल के लिए बंद'], hint: 'बचत खाते में पैसा आसानी से मिलता है!' },
+    mr: { question: 'बचत खात्यातून कधीही पैसे काढता येतात का?', options: ['फक्त 6 महिन्यांनंतर', 'फक्त कामाच्या दिवशी', 'हो, गरज असेल तेव्हा', '1 वर्षासाठी बंद'], hint: 'बचत खात्यातील पैसे सहज मिळतात!' },
+    ta: { question: 'சேமிப்புக் கணக்கிலிருந்து எப்போது வேண்டுமானாலும் பணம் எடுக்கலாமா?', options: ['6 மாதங்களுக்குப் பிறகு மட்டும்', 'வேலை நாட்களில் மட்டும்', 'ஆம், தேவைப்படும் போதெல்லாம்', '1 ஆண்டுக்குப் பூட்டப்படும்'], hint: 'சேமிப்புக் கணக்கில் பணம் எளிதில் கிடைக்கும்!' },
+  },
+  'Which FD tenure typically offers the highest interest rate?': {
+    hi: { question: 'आमतौर पर किस अवधि की FD पर सबसे ज़्यादा ब्याज मिलता है?', options: ['3 साल या उससे ज़्यादा', 'सिर्फ़ 1 महीना', 'सिर्फ़ 3 महीने', 'सिर्फ़ 1 साल'], hint: 'लंबी अवधि, बेहतर दरें!' },
+    mr: { question: 'सहसा कोणत्या मुदतीच्या FD वर सर्वाधिक व्याज मिळते?', options: ['3 वर्षे किंवा अधिक', 'फक्त 1 महिना', 'फक्त 3 महिने', 'फक्त 1 वर्ष'], hint: 'जास्त मुदत, चांगला दर!' },
+    ta: { question: 'பொதுவாக எந்தக் கால அளவு FD-க்கு அதிக வட்டி கிடைக்கும்?', options: ['3 ஆண்டுகள் அல்லது அதற்கு மேல்', '1 மாதம் மட்டும்', '3 மாதங்கள் மட்டும்', '1 ஆண்டு மட்டும்'], hint: 'நீண்ட காலம் என்றால் சிறந்த வட்டி!' },
+  },
+  'Are FD returns guaranteed?': {
+    hi: { question: 'क्या FD का रिटर्न गारंटीड होता है?', options: ['सिर्फ़ सरकारी FD में', 'शेयर बाज़ार पर निर्भर', 'हाँ, दर शुरू में तय हो जाती है', 'नहीं, रोज़ बदलता है'], hint: 'निवेश करते समय दर तय हो जाती है!' },
+    mr: { question: 'FD चा परतावा हमखास असतो का?', options: ['फक्त सरकारी FD मध्ये', 'शेअर बाजारावर अवलंबून', 'हो, दर सुरुवातीलाच ठरतो', 'नाही, रोज बदलतो'], hint: 'गुंतवणूक करतानाच दर ठरतो!' },
+    ta: { question: 'FD வருமானம் உத்தரவாதமானதா?', options: ['அரசு FD-களுக்கு மட்டும்', 'பங்குச் சந்தையைப் பொறுத்தது', 'ஆம், தொடக்கத்திலேயே வட்டி நிர்ணயம்', 'இல்லை, தினமும் மாறும்'], hint: 'முதலீடு செய்யும் போதே வட்டி நிர்ணயிக்கப்படுகிறது!' },
+  },
+  'Who should use banking products like Savings and FDs?': {
+    hi: { question: 'बचत खाता और FD जैसे बैंकिंग उत्पाद किसे इस्तेमाल करने चाहिए?', options: ['सिर्फ़ अमीर लोग', 'सभी, आपातकालीन फंड के लिए', 'सिर्फ़ वरिष्ठ नागरिक', 'सिर्फ़ व्यापारी'], hint: 'सबको सुरक्षित बचत की ज़रूरत होती है!' },
+    mr: { question: 'बचत खाते आणि FD सारखी बँकिंग उत्पादने कोणी वापरावीत?', options: ['फक्त श्रीमंत लोक', 'सर्वांनी, आपत्कालीन निधीसाठी', 'फक्त ज्येष्ठ नागरिक', 'फक्त व्यावसायिक'], hint: 'प्रत्येकाला सुरक्षित बचतीची गरज असते!' },
+    ta: { question: 'சேமிப்புக் கணக்கு, FD போன்ற வங்கிச் சேவைகளை யார் பயன்படுத்த வேண்டும்?', options: ['பணக்காரர்கள் மட்டும்', 'அனைவரும், அவசரகால நிதிக்காக', 'மூத்த குடிமக்கள் மட்டும்', 'தொழில் உரிமையாளர்கள் மட்டும்'], hint: 'அனைவருக்கும் பாதுகாப்பான சேமிப்பு தேவை!' },
+  },
+  'Can you take a loan against your FD?': {
+    hi: { question: 'क्या आप अपनी FD के बदले लोन ले सकते हैं?', options: ['कानूनन कभी नहीं', 'सिर्फ़ 5 साल बाद', 'हाँ, मूल्य के 80-90% तक', 'सिर्फ़ वरिष्ठ नागरिकों के लिए'], hint: 'FD को गिरवी रखा जा सकता है!' },
+    mr: { question: 'तुमच्या FD वर कर्ज घेता येते का?', options: ['कायद्याने कधीच नाही', 'फक्त 5 वर्षांनंतर', 'हो, मूल्याच्या 80-90% पर्यंत', 'फक्त ज्येष्ठ नागरिकांसाठी'], hint: 'FD तारण म्हणून वापरता येते!' },
+    ta: { question: 'உங்கள் FD-க்கு எதிராகக் கடன் வாங்க முடியுமா?', options: ['சட்டப்படி ஒருபோதும் முடியாது', '5 ஆண்டுகளுக்குப் பிறகு மட்டும்', 'ஆம், மதிப்பில் 80-90% வரை', 'மூத்த குடிமக்களுக்கு மட்டும்'], hint: 'FD-ஐ அடமானமாகப் பயன்படுத்தலாம்!' },
+  },
+  // Also asked with the rate in the last option; the translation leaves the rate out so it fits both
+  'What type of interest does a savings account typically earn?': {
+    hi: { question: 'बचत खाते पर आमतौर पर किस तरह का ब्याज मिलता है?', options: ['बहुत ज़्यादा ब्याज (10%+)', 'कोई ब्याज नहीं', 'बदलता हुआ नकारात्मक ब्याज', 'कम लेकिन स्थिर ब्याज'], hint: 'ब्याज थोड़ा है, पर स्थिर है!' },
+    mr: { question: 'बचत खात्यावर सहसा कोणत्या प्रकारचे व्याज मिळते?', options: ['खूप जास्त व्याज (10%+)', 'अजिबात व्याज नाही', 'बदलणारे ऋण व्याज', 'कमी पण स्थिर व्याज'], hint: 'व्याज थोडे असले तरी स्थिर असते!' },
+    ta: { question: 'சேமிப்புக் கணக்கில் பொதுவாக எந்த வகை வட்டி கிடைக்கும்?', options: ['மிக அதிக வட்டி (10%+)', 'வட்டியே இல்லை', 'மாறும் எதிர்மறை வட்டி', 'குறைவான ஆனால் நிலையான வட்டி'], hint: 'வட்டி குறைவு, ஆனால் நிலையானது!' },
+  },
+  'Can you withdraw money from a savings account at any time?': {
+    hi: { question: 'क्या आप बचत खाते से किसी भी समय पैसा निकाल सकते हैं?', options: ['सिर्फ़ 6 महीने बाद', 'सिर्फ़ कामकाजी दिनों में', 'हाँ, जब भी ज़रूरत हो', '1 साल के लिए बंद'], hint: 'बचत खाते में पैसा आसानी से मिलता है!' },
+    mr: { question: 'बचत खात्यातून कोणत्याही वेळी पैसे काढता येतात का?', options: ['फक्त 6 महिन्यांनंतर', 'फक्त कामाच्या दिवशी', 'हो, गरज असेल तेव्हा', '1 वर्षासाठी बंद'], hint: 'बचत खात्यातील पैसे सहज मिळतात!' },
+    ta: { question: 'சேமிப்புக் கணக்கிலிருந்து எந்த நேரத்திலும் பணம் எடுக்க முடியுமா?', options: ['6 மாதங்களுக்குப் பிறகு மட்டும்', 'வேலை நாட்களில் மட்டும்', 'ஆம், தேவைப்படும் போதெல்லாம்', '1 ஆண்டுக்குப் பூட்டப்படும்'], hint: 'சேமிப்புக் கணக்கில் பணம் எளிதில் கிடைக்கும்!' },
+  },
+  'Is money in a savings account safe?': {
+    hi: { question: 'क्या बचत खाते में रखा पैसा सुरक्षित है?', options: ['सिर्फ़ निजी बैंकों में सुरक्षित', 'हाँ, जमा बीमा इसकी रक्षा करता है', 'नहीं, यह गायब हो सकता है', 'सिर्फ़ ₹1 लाख से ऊपर सुरक्षित'], hint: 'बैंक बीमा सुरक्षा देते हैं!' },
+    mr: { question: 'बचत खात्यातील पैसे सुरक्षित असतात का?', options: ['फक्त खासगी बँकांमध्ये सुरक्षित', 'हो, ठेव विमा त्यांचे संरक्षण करतो', 'नाही, ते गायब होऊ शकतात', 'फक्त ₹1 लाखांवर सुरक्षित'], hint: 'बँका विमा संरक्षण देतात!' },
+    ta: { question: 'சேமிப்புக் கணக்கில் உள்ள பணம் பாதுகாப்பானதா?', options: ['தனியார் வங்கிகளில் மட்டும் பாதுகாப்பு', 'ஆம், வைப்புக் காப்பீடு பாதுகாக்கிறது', 'இல்லை, அது மறைந்துவிடலாம்', '₹1 லட்சத்துக்கு மேல் மட்டும் பாதுகாப்பு'], hint: 'வங்கிகள் காப்பீட்டுப் பாதுகாப்பு தருகின்றன!' },
+  },
+  'What happens to interest in a savings account?': {
+    hi: { question: 'बचत खाते में ब्याज का क्या होता है?', options: ['आपको खुद दावा करना पड़ता है', '1 साल बाद खत्म हो जाता है', 'समय के साथ चक्रवृद्धि होता है', 'साल में एक बार मिलता है'], hint: 'ब्याज पर भी ब्याज मिलता है!' },
+    mr: { question: 'बचत खात्यातील व्याजाचे काय होते?', options: ['तुम्हाला स्वतः दावा करावा लागतो', '1 वर्षानंतर संपते', 'कालांतराने चक्रवाढ होते', 'वर्षातून एकदा मिळते'], hint: 'व्याजावरही व्याज मिळते!' },
+    ta: { question: 'சேமிப்புக் கணக்கில் வட்டிக்கு என்ன ஆகும்?', options: ['நீங்களே கோர வேண்டும்', '1 ஆண்டுக்குப் பின் இழக்கப்படும்', 'காலப்போக்கில் கூட்டு வட்டியாகும்', 'ஆண்டுக்கு ஒருமுறை மட்டும்'], hint: 'வட்டிக்கும் வட்டி கிடைக்கும்!' },
+  },
+  'Who should use a savings account?': {
+    hi: { question: 'बचत खाता किसे इस्तेमाल करना चाहिए?', options: ['सिर्फ़ अमीर लोग', 'सभी, आपातकालीन फंड के लिए', 'सिर्फ़ वरिष्ठ नागरिक', 'सिर्फ़ व्यापारी'], hint: 'सबको आपातकालीन बचत की ज़रूरत होती है!' },
+    mr: { question: 'बचत खाते कोणी वापरावे?', options: ['फक्त श्रीमंत लोक', 'सर्वांनी, आपत्कालीन निधीसाठी', 'फक्त ज्येष्ठ नागरिक', 'फक्त व्यावसायिक'], hint: 'प्रत्येकाला आपत्कालीन बचतीची गरज असते!' },
+    ta: { question: 'சேமிப்புக் கணக்கை யார் பயன்படுத்த வேண்டும்?', options: ['பணக்காரர்கள் மட்டும்', 'அனைவரும், அவசரகால நிதிக்காக', 'மூத்த குடிமக்கள் மட்டும்', 'தொழில் உரிமையாளர்கள் மட்டும்'], hint: 'அனைவருக்கும் அவசரகாலச் சேமிப்பு தேவை!' },
+  },
+  'What is the minimum balance requirement in most savings accounts?': {
+    hi: { question: 'ज़्यादातर बचत खातों में न्यूनतम बैलेंस कितना रखना होता है?', options: ['कम से कम ₹10 लाख', 'आमतौर पर ₹1,000 - ₹10,000', 'कम से कम ₹1 लाख', 'कभी कोई न्यूनतम नहीं'], hint: 'यह शर्त आमतौर पर कम होती है!' },
+    mr: { question: 'बहुतेक बचत खात्यांमध्ये किमान शिल्लक किती ठेवावी लागते?', options: ['किमान ₹10 लाख', 'सहसा ₹1,000 - ₹10,000', 'किमान ₹1 लाख', 'कधीच किमान मर्यादा नाही'], hint: 'ही अट सहसा कमी असते!' },
+    ta: { question: 'பெரும்பாலான சேமிப்புக் கணக்குகளில் குறைந்தபட்ச இருப்பு எவ்வளவு?', options: ['குறைந்தது ₹10 லட்சம்', 'பொதுவாக ₹1,000 - ₹10,000', 'குறைந்தது ₹1 லட்சம்', 'குறைந்தபட்சம் எப்போதும் இல்லை'], hint: 'இந்த நிபந்தனை பொதுவாகக் குறைவு!' },
+  },
+  'How does inflation affect savings account returns?': {
+    hi: { question: 'महंगाई बचत खाते के रिटर्न पर कैसे असर डालती है?', options: ['महंगाई आपका पैसा दोगुना करती है', 'बचत पर कोई असर नहीं', 'असली मूल्य घट सकता है', 'महंगाई रिटर्न बढ़ाती है'], hint: 'महंगाई खरीदने की ताकत घटाती है!' },
+    mr: { question: 'महागाईचा बचत खात्याच्या परताव्यावर काय परिणाम होतो?', options: ['महागाई तुमचे पैसे दुप्पट करते', 'बचतीवर काहीच परिणाम नाही', 'खरे मूल्य कमी होऊ शकते', 'महागाई परतावा वाढवते'], hint: 'महागाईमुळे क्रयशक्ती कमी होते!' },
+    ta: { question: 'பணவீக்கம் சேமிப்புக் கணக்கு வருமானத்தை எப்படிப் பாதிக்கிறது?', options: ['பணவீக்கம் பணத்தை இரட்டிப்பாக்கும்', 'சேமிப்பில் எந்தப் பாதிப்பும் இல்லை', 'உண்மையான மதிப்பு குறையலாம்', 'பணவீக்கம் வருமானத்தை உயர்த்தும்'], hint: 'பணவீக்கம் வாங்கும் சக்தியைக் குறைக்கிறது!' },
+  },
+  'Can you have multiple savings accounts?': {
+    hi: { question: 'क्या आपके कई बचत खाते हो सकते हैं?', options: ['सिर्फ़ अलग-अलग देशों में', 'सिर्फ़ शादीशुदा होने पर', 'नहीं, एक व्यक्ति का एक ही', 'हाँ, कई खाते हो सकते हैं'], hint: 'आप अलग-अलग बैंकों में बाँट सकते हैं!' },
+    mr: { question: 'तुमची अनेक बचत खाती असू शकतात का?', options: ['फक्त वेगवेगळ्या देशांत', 'फक्त लग्न झाले असल्यास', 'नाही, एका व्यक्तीचे एकच', 'हो, अनेक खाती असू शकतात'], hint: 'वेगवेगळ्या बँकांमध्ये विभागणी करता येते!' },
+    ta: { question: 'பல சேமிப்புக் கணக்குகள் வைத்திருக்கலாமா?', options: ['வெவ்வேறு நாடுகளில் மட்டும்', 'திருமணமானவர்கள் மட்டும்', 'இல்லை, ஒருவருக்கு ஒன்று மட்டும்', 'ஆம், பல கணக்குகள் வைக்கலாம்'], hint: 'வெவ்வேறு வங்கிகளில் பிரித்து வைக்கலாம்!' },
+  },
+  'What is the typical interest rate for savings accounts in India?': {
+    hi: { question: 'भारत में बचत खातों पर आमतौर पर कितनी ब्याज दर मिलती है?', options: ['20% प्रति वर्ष', '10-15% प्रति वर्ष', '2.5-4% प्रति वर्ष', '0.5-1% प्रति वर्ष'], hint: 'दरें कम हैं, पर स्थिर हैं!' },
+    mr: { question: 'भारतात बचत खात्यांवर सहसा किती व्याजदर मिळतो?', options: ['दरवर्षी 20%', 'दरवर्षी 10-15%', 'दरवर्षी 2.5-4%', 'दरवर्षी 0.5-1%'], hint: 'दर कमी पण स्थिर असतात!' },
+    ta: { question: 'இந்தியாவில் சேமிப்புக் கணக்குகளுக்கு வழக்கமான வட்டி விகிதம் என்ன?', options: ['ஆண்டுக்கு 20%', 'ஆண்டுக்கு 10-15%', 'ஆண்டுக்கு 2.5-4%', 'ஆண்டுக்கு 0.5-1%'], hint: 'விகிதம் குறைவு, ஆனால் நிலையானது!' },
+  },
+  'What is the main advantage of a Fixed Deposit?': {
+    hi: { question: 'सावधि जमा (FD) का मुख्य फ़ायदा क्या है?', options: ['हमेशा टैक्स-फ्री आय', 'रोज़ पैसे निकालने की छूट', 'कभी भी आसानी से पैसा', 'गारंटीड तय रिटर्न'], hint: 'FD से पहले से पता रिटर्न मिलता है!' },
+    mr: { question: 'मुदत ठेवीचा (FD) मुख्य फायदा कोणता?', options: ['नेहमी करमुक्त उत्पन्न', 'रोज पैसे काढण्याची मुभा', 'कधीही सहज पैसे', 'हमखास निश्चित परतावा'], hint: 'FD मुळे आधीच माहीत असलेला परतावा मिळतो!' },
+    ta: { question: 'நிலை வைப்பின் (FD) முக்கிய நன்மை என்ன?', options: ['எப்போதும் வரியில்லா வருமானம்', 'தினமும் பணம் எடுக்கலாம்', 'எப்போதும் எளிதில் பணம்', 'உத்தரவாதமான நிலையான வருமானம்'], hint: 'FD முன்கூட்டியே தெரிந்த வருமானம் தருகிறது!' },
+  },
+  'What is the typical penalty for breaking an FD early?': {
+    hi: { question: 'FD जल्दी तोड़ने पर आमतौर पर कितना जुर्माना लगता है?', options: ['पूरा ब्याज चला जाता है', 'मूलधन का 50%', 'कोई जुर्माना नहीं', 'ब्याज में 0.5-2% की कटौती'], hint: 'ब्याज दर पर छोटा जुर्माना!' },
+    mr: { question: 'FD लवकर मोडल्यास सहसा किती दंड लागतो?', options: ['सगळे व्याज जाते', 'मुद्दलाच्या 50%', 'कोणताही दंड नाही', 'व्याजात 0.5-2% कपात'], hint: 'व्याजदरावर थोडा दंड!' },
+    ta: { question: 'FD-ஐ முன்கூட்டியே முறித்தால் வழக்கமான அபராதம் என்ன?', options: ['முழு வட்டியும் இழப்பு', 'அசலில் 50%', 'அபராதம் இல்லை', 'வட்டியில் 0.5-2% குறைப்பு'], hint: 'வட்டி விகிதத்தில் சிறிய அபராதம்!' },
+  },
+  'Can you renew an FD automatically after maturity?': {
+    hi: { question: 'क्या मैच्योरिटी के बाद FD अपने आप रिन्यू हो सकती है?', options: ['सिर्फ़ 1 साल की FD', 'हाँ, ऑटो-रिन्यूअल मिलता है', 'सिर्फ़ खुद रिन्यू करना होता है', 'सिर्फ़ वरिष्ठ नागरिक रिन्यू कर सकते हैं'], hint: 'ऑटो-रिन्यूअल एक आम सुविधा है!' },
+    mr: { question: 'मुदतपूर्तीनंतर FD आपोआप नूतनीकरण होऊ शकते का?', options: ['फक्त 1 वर्षाची FD', 'हो, स्वयं-नूतनीकरण मिळते', 'फक्त स्वतः नूतनीकरण करावे लागते', 'फक्त ज्येष्ठ नागरिक नूतनीकरण करू शकतात'], hint: 'स्वयं-नूतनीकरण ही सामान्य सुविधा आहे!' },
+    ta: { question: 'முதிர்வுக்குப் பின் FD தானாகப் புதுப்பிக்கப்படுமா?', options: ['1 ஆண்டு FD-க்கு மட்டும்', 'ஆம், தானியங்கிப் புதுப்பித்தல் உண்டு', 'நீங்களே புதுப்பிக்க வேண்டும்', 'மூத்த குடிமக்கள் மட்டும் புதுப்பிக்கலாம்'], hint: 'தானியங்கிப் புதுப்பித்தல் ஒரு பொதுவான வசதி!' },
+  },
+  'How is FD interest typically paid?': {
+    hi: { question: 'FD का ब्याज आमतौर पर कैसे मिलता है?', options: ['मासिक, तिमाही या मैच्योरिटी पर', 'सिर्फ़ FD तोड़ने पर', 'रोज़ आपके खाते में', 'कभी नहीं, बस जुड़ता रहता है'], hint: 'भुगतान के कई विकल्प हैं!' },
+    mr: { question: 'FD चे व्याज सहसा कसे मिळते?', options: ['मासिक, तिमाही किंवा मुदतपूर्तीला', 'फक्त FD मोडल्यावर', 'रोज तुमच्या खात्यात', 'कधीच नाही, फक्त जमा होते'], hint: 'व्याज मिळण्याचे अनेक पर्याय आहेत!' },
+    ta: { question: 'FD வட்டி பொதுவாக எப்படி வழங்கப்படுகிறது?', options: ['மாதம், காலாண்டு அல்லது முதிர்வில்', 'FD-ஐ முறிக்கும் போது மட்டும்', 'தினமும் உங்கள் கணக்கில்', 'ஒருபோதும் இல்லை, சேர்ந்துகொண்டே இருக்கும்'], hint: 'பல வழங்கல் முறைகள் உண்டு!' },
+  },
+  'Who offers Fixed Deposits in India?': {
+    hi: { question: 'भारत में सावधि जमा (FD) कौन देता है?', options: ['सिर्फ़ स्टॉक एक्सचेंज', 'बैंक और कुछ NBFC', 'सिर्फ़ निजी कंपनियाँ', 'सिर्फ़ सरकारी दफ़्तर'], hint: 'कई संस्थाएँ FD देती हैं!' },
+    mr: { question: 'भारतात मुदत ठेवी (FD) कोण देते?', options: ['फक्त शेअर बाजार', 'बँका आणि काही NBFC', 'फक्त खासगी कंपन्या', 'फक्त सरकारी कार्यालये'], hint: 'अनेक संस्था FD देतात!' },
+    ta: { question: 'இந்தியாவில் நிலை வைப்புகளை (FD) யார் வழங்குகிறார்கள்?', options: ['பங்குச் சந்தைகள் மட்டும்', 'வங்கிகளும் சில NBFC-களும்', 'தனியார் நிறுவனங்கள் மட்டும்', 'அரசு அலுவலகங்கள் மட்டும்'], hint: 'பல நிறுவனங்கள் FD வழங்குகின்றன!' },
+  },
+  'What is the deposit insurance limit for FDs in India?': {
+    hi: { question: 'भारत में FD पर जमा बीमा की सीमा क्या है?', options: ['₹5 लाख तक', '₹1 लाख तक', 'असीमित बीमा', 'कोई बीमा नहीं होता'], hint: 'DICGC सुरक्षा देता है!' },
+    mr: { question: 'भारतात FD वरील ठेव विम्याची मर्यादा किती आहे?', options: ['₹5 लाखांपर्यंत', '₹1 लाखापर्यंत', 'अमर्यादित विमा', 'कोणताही विमा नसतो'], hint: 'DICGC संरक्षण देते!' },
+    ta: { question: 'இந்தியாவில் FD-களுக்கான வைப்புக் காப்பீட்டு வரம்பு என்ன?', options: ['₹5 லட்சம் வரை', '₹1 லட்சம் வரை', 'வரம்பில்லாக் காப்பீடு', 'காப்பீடே இல்லை'], hint: 'DICGC பாதுகாப்பு தருகிறது!' },
+  },
+  // Gold
+  'Why do people invest in gold?': {
+    hi: { question: 'लोग सोने में निवेश क्यों करते हैं?', options: ['ज़्यादा ब्याज कमाने के लिए', 'हर महीने आय पाने के लिए', 'रोज़ जल्दी मुनाफ़े के लिए', 'महंगाई से बचाव के लिए'], hint: 'कीमतें बढ़ने पर सोना आपकी संपत्ति बचाता है!' },
+    mr: { question: 'लोक सोन्यात गुंतवणूक का करतात?', options: ['जास्त व्याज मिळवण्यासाठी', 'दरमहा उत्पन्नासाठी', 'रोज झटपट नफ्यासाठी', 'महागाईपासून बचावासाठी'], hint: 'किमती वाढल्यावर सोने तुमची संपत्ती जपते!' },
+    ta: { question: 'மக்கள் ஏன் தங்கத்தில் முதலீடு செய்கிறார்கள்?', options: ['அதிக வட்டி பெற', 'மாத வருமானம் பெற', 'தினசரி விரைவு லாபத்துக்கு', 'பணவீக்கத்திலிருந்து பாதுகாக்க'], hint: 'விலைகள் உயரும் போது தங்கம் உங்கள் செல்வத்தைக் காக்கிறது!' },
+  },
+  'What are the two main types of gold investment?': {
+    hi: { question: 'सोने में निवेश के दो मुख्य प्रकार कौन से हैं?', options: ['भारतीय और विदेशी सोना', 'भौतिक और डिजिटल सोना', 'पुराना और नया सोना', 'शुद्ध और मिलावटी सोना'], hint: 'आप असली या ऑनलाइन सोना खरीद सकते हैं!' },
+    mr: { question: 'सोन्यातील गुंतवणुकीचे दोन मुख्य प्रकार कोणते?', options: ['भारतीय आणि परदेशी सोने', 'प्रत्यक्ष आणि डिजिटल सोने', 'जुने आणि नवे सोने', 'शुद्ध आणि भेसळयुक्त सोने'], hint: 'तुम्ही खरे किंवा ऑनलाइन सोने घेऊ शकता!' },
+    ta: { question: 'தங்க முதலீட்டின் இரண்டு முக்கிய வகைகள் யாவை?', options: ['இந்திய மற்றும் வெளிநாட்டுத் தங்கம்', 'பௌதிக மற்றும் டிஜிட்டல் தங்கம்', 'பழைய மற்றும் புதிய தங்கம்', 'தூய மற்றும் கலப்புத் தங்கம்'], hint: 'உண்மையான அல்லது ஆன்லைன் தங்கம் வாங்கலாம்!' },
+  },
+  'Does gold provide regular income like dividends?': {
+    hi: { question: 'क्या सोना डिविडेंड की तरह नियमित आय देता है?', options: ['हाँ, सालाना ब्याज', 'सिर्फ़ त्योहारों पर', 'हाँ, मासिक डिविडेंड', 'नहीं, सिर्फ़ कीमत बढ़ती है'], hint: 'समय के साथ सोने का मूल्य बढ़ता है!' },
+    mr: { question: 'सोने लाभांशासारखे नियमित उत्पन्न देते का?', options: ['हो, वार्षिक व्याज', 'फक्त सणांच्या काळात', 'हो, मासिक लाभांश', 'नाही, फक्त किंमत वाढते'], hint: 'कालांतराने सोन्याचे मूल्य वाढते!' },
+    ta: { question: 'ஈவுத்தொகை போல் தங்கம் வழக்கமான வருமானம் தருமா?', options: ['ஆம், ஆண்டு வட்டி', 'பண்டிகைக் காலத்தில் மட்டும்', 'ஆம், மாத ஈவுத்தொகை', 'இல்லை, விலை உயர்வு மட்டும்'], hint: 'காலப்போக்கில் தங்கத்தின் மதிப்பு உயர்கிறது!' },
+  },
+  'When does gold typically perform well?': {
+    hi: { question: 'सोना आमतौर पर कब अच्छा प्रदर्शन करता है?', options: ['आर्थिक अनिश्चितता के समय', 'सिर्फ़ शादियों के मौसम में', 'कभी अच्छा नहीं करता', 'जब शेयर बढ़ रहे हों'], hint: 'संकट के समय सुरक्षित सहारा!' },
+    mr: { question: 'सोने सहसा केव्हा चांगली कामगिरी करते?', options: ['आर्थिक अनिश्चिततेच्या काळात', 'फक्त लग्नसराईत', 'कधीच चांगली नाही', 'शेअर्स वाढत असताना'], hint: 'संकटकाळातील सुरक्षित आधार!' },
+    ta: { question: 'தங்கம் பொதுவாக எப்போது நன்றாகச் செயல்படும்?', options: ['பொருளாதார நிச்சயமற்ற காலங்களில்', 'திருமணக் காலத்தில் மட்டும்', 'ஒருபோதும் இல்லை', 'பங்குகள் உயரும் போது'], hint: 'நெருக்கடிக் காலத்தின் பாதுகாப்பான புகலிடம்!' },
+  },
+  'What is the purity measure for gold?': {
+    hi: { question: 'सोने की शुद्धता किससे मापी जाती है?', options: ['सिर्फ़ प्रतिशत', 'तापमान की डिग्री', 'कैरेट (22K, 24K)', 'ग्राम और किलोग्राम'], hint: 'संख्या जितनी ज़्यादा, सोना उतना शुद्ध!' },
+    mr: { question: 'सोन्याची शुद्धता कशात मोजली जाते?', options: ['फक्त टक्केवारी', 'तापमानाचे अंश', 'कॅरेट (22K, 24K)', 'ग्रॅम आणि किलोग्रॅम'], hint: 'आकडा जितका मोठा, सोने तितके शुद्ध!' },
+    ta: { question: 'தங்கத்தின் தூய்மை எதனால் அளக்கப்படுகிறது?', options: ['சதவீதம் மட்டும்', 'வெப்பநிலை டிகிரி', 'கேரட் (22K, 24K)', 'கிராம் மற்றும் கிலோகிராம்'], hint: 'எண் அதிகமானால் தங்கம் தூய்மையானது!' },
+  },
+  'What storage costs are involved when physical gold is kept in a bank?': {
+    hi: { question: 'भौतिक सोना बैंक में रखने पर कौन से खर्च आते हैं?', options: ['सरकार खर्च उठाती है', 'सिर्फ़ बिजली का खर्च', 'लॉकर का किराया और बीमा', 'कोई खर्च नहीं'], hint: 'सुरक्षा की भी कीमत होती है!' },
+    mr: { question: 'प्रत्यक्ष सोने बँकेत ठेवल्यास कोणते खर्च येतात?', options: ['सरकार खर्च करते', 'फक्त विजेचा खर्च', 'लॉकर भाडे आणि विमा', 'कोणताही खर्च नाही'], hint: 'सुरक्षिततेचीही किंमत असते!' },
+    ta: { question: 'பௌதிகத் தங்கத்தை வங்கியில் வைத்தால் என்ன செலவுகள் உண்டு?', options: ['அரசு செலவை ஏற்கும்', 'மின்சாரச் செலவு மட்டும்', 'லாக்கர் வாடகையும் காப்பீடும்', 'எந்தச் செலவும் இல்லை'], hint: 'பாதுகாப்புக்கும் ஒரு விலை உண்டு!' },
+  },
+  'What is Digital Gold backed by?': {
+    hi: { question: 'डिजिटल गोल्ड के पीछे क्या होता है?', options: ['कुछ नहीं, यह आभासी है', 'सिर्फ़ सरकार का वादा', 'क्रिप्टोकरेंसी टोकन', 'तिजोरियों में रखा असली सोना'], hint: 'असली सोना डिजिटल गोल्ड को सुरक्षित करता है!' },
+    mr: { question: 'डिजिटल सोन्यामागे काय असते?', options: ['काहीच नाही, ते आभासी आहे', 'फक्त सरकारचे आश्वासन', 'क्रिप्टोकरन्सी टोकन', 'तिजोरीत ठेवलेले खरे सोने'], hint: 'खरे सोने डिजिटल सोन्याला आधार देते!' },
+    ta: { question: 'டிஜிட்டல் தங்கத்துக்கு எது ஆதாரம்?', options: ['எதுவும் இல்லை, அது மெய்நிகர்', 'அரசின் வாக்குறுதி மட்டும்', 'கிரிப்டோ டோக்கன்கள்', 'பெட்டகங்களில் உள்ள உண்மையான தங்கம்'], hint: 'உண்மையான தங்கம் டிஜிட்டல் தங்கத்துக்குப் பாதுகாப்பு!' },
+  },
+  'Can you sell gold easily when needed?': {
+    hi: { question: 'क्या ज़रूरत पड़ने पर सोना आसानी से बेचा जा सकता है?', options: ['सिर्फ़ कामकाजी घंटों में', 'नहीं, हमेशा बहुत मुश्किल', 'हाँ, सोना आसानी से बिकता है', 'सिर्फ़ सरकारी एजेंसियों को'], hint: 'सोने को आसानी से नकद में बदला जा सकता है!' },
+    mr: { question: 'गरज पडल्यास सोने सहज विकता येते का?', options: ['फक्त कामाच्या वेळेत', 'नाही, नेहमी खूप अवघड', 'हो, सोने सहज विकले जाते', 'फक्त सरकारी संस्थांना'], hint: 'सोने सहज रोख रकमेत बदलता येते!' },
+    ta: { question: 'தேவைப்படும் போது தங்கத்தை எளிதாக விற்க முடியுமா?', options: ['வேலை நேரத்தில் மட்டும்', 'இல்லை, எப்போதும் மிகக் கடினம்', 'ஆம், தங்கம் எளிதில் விற்கும்', 'அரசு நிறுவனங்களுக்கு மட்டும்'], hint: 'தங்கத்தை எளிதாகப் பணமாக மாற்றலாம்!' },
+  },
+  'What is making charge on gold jewelry?': {
+    hi: { question: 'सोने के गहनों पर मेकिंग चार्ज क्या होता है?', options: ['रखने का शुल्क', 'सोने की खरीद पर टैक्स', 'सिर्फ़ डिलीवरी शुल्क', 'गहना बनाने की लागत'], hint: 'सुनार कारीगरी का पैसा लेते हैं!' },
+    mr: { question: 'सोन्याच्या दागिन्यांवरील घडणावळ म्हणजे काय?', options: ['साठवणुकीचे शुल्क', 'सोने खरेदीवरील कर', 'फक्त डिलिव्हरी शुल्क', 'दागिना घडवण्याचा खर्च'], hint: 'सोनार कारागिरीचे पैसे घेतात!' },
+    ta: { question: 'தங்க நகைகளுக்கான செய்கூலி என்றால் என்ன?', options: ['சேமிப்புக் கட்டணம்', 'தங்கம் வாங்குவதற்கான வரி', 'டெலிவரி கட்டணம் மட்டும்', 'நகை செய்வதற்கான செலவு'], hint: 'நகைக்கடைக்காரர்கள் வேலைப்பாட்டுக்குக் கட்டணம் வசூலிக்கிறார்கள்!' },
+  },
+  'Which gold investment has lower making charges?': {
+    hi: { question: 'सोने के किस निवेश पर मेकिंग चार्ज कम लगता है?', options: ['सोने के सिक्के और बिस्कुट', 'गहने', 'ऑनलाइन डिजिटल गोल्ड', 'सब पर बराबर शुल्क'], hint: 'सादे रूप में लागत कम होती है!' },
+    mr: { question: 'सोन्याच्या कोणत्या गुंतवणुकीवर घडणावळ कमी असते?', options: ['सोन्याची नाणी आणि बिस्किटे', 'दागिने', 'ऑनलाइन डिजिटल सोने', 'सर्वांवर सारखेच शुल्क'], hint: 'साध्या स्वरूपात खर्च कमी असतो!' },
+    ta: { question: 'எந்தத் தங்க முதலீட்டுக்குச் செய்கூலி குறைவு?', options: ['தங்க நாணயங்களும் கட்டிகளும்', 'நகைகள்', 'ஆன்லைன் டிஜிட்டல் தங்கம்', 'அனைத்துக்கும் ஒரே கட்டணம்'], hint: 'எளிய வடிவங்களுக்குச் செலவு குறைவு!' },
+  },
+  // Stocks
+  'What do you become when you buy stocks?': {
+    hi: { question: 'शेयर खरीदने पर आप क्या बन जाते हैं?', options: ['कंपनी के कर्मचारी', 'कंपनी को कर्ज़ देने वाले', 'कंपनी के आंशिक मालिक', 'कंपनी के ग्राहक'], hint: 'आप कंपनी के एक हिस्से के मालिक बनते हैं!' },
+    mr: { question: 'शेअर्स विकत घेतल्यावर तुम्ही कोण बनता?', options: ['कंपनीचे कर्मचारी', 'कंपनीला कर्ज देणारे', 'कंपनीचे अंशतः मालक', 'कंपनीचे ग्राहक'], hint: 'तुम्ही कंपनीच्या एका भागाचे मालक होता!' },
+    ta: { question: 'பங்குகள் வாங்கும் போது நீங்கள் யார் ஆகிறீர்கள்?', options: ['நிறுவன ஊழியர்', 'நிறுவனத்துக்குக் கடன் கொடுப்பவர்', 'நிறுவனத்தின் பகுதி உரிமையாளர்', 'நிறுவன வாடிக்கையாளர்'], hint: 'நிறுவனத்தின் ஒரு பகுதிக்கு நீங்கள் உரிமையாளர்!' },
+  },
+  'How do stock investors make money?': {
+    hi: { question: 'शेयर निवेशक पैसा कैसे कमाते हैं?', options: ['सिर्फ़ वेतन से', 'सरकारी सब्सिडी से', 'हर महीने तय ब्याज से', 'कीमत बढ़ने और डिविडेंड से'], hint: 'शेयरों से मुनाफ़े के दो तरीके!' },
+    mr: { question: 'शेअर गुंतवणूकदार पैसे कसे कमावतात?', options: ['फक्त पगारातून', 'सरकारी अनुदानातून', 'दरमहा निश्चित व्याजातून', 'किंमतवाढ आणि लाभांशातून'], hint: 'शेअर्समधून नफ्याचे दोन मार्ग!' },
+    ta: { question: 'பங்கு முதலீட்டாளர்கள் எப்படிப் பணம் சம்பாதிக்கிறார்கள்?', options: ['சம்பளம் மூலம் மட்டும்', 'அரசு மானியம் மூலம்', 'மாதந்தோறும் நிலையான வட்டி', 'விலை உயர்வும் ஈவுத்தொகையும்'], hint: 'பங்குகளில் லாபம் பெற இரண்டு வழிகள்!' },
+  },
+  'What makes stock prices go up or down?': {
+    hi: { question: 'शेयरों की कीमतें ऊपर-नीचे क्यों होती हैं?', options: ['शेयरधारकों की संख्या', 'कंपनी का प्रदर्शन और बाज़ार का रुझान', 'दिन का समय', 'सिर्फ़ सरकारी आदेश'], hint: 'प्रदर्शन और धारणा, दोनों मायने रखते हैं!' },
+    mr: { question: 'शेअर्सच्या किमती वर-खाली का होतात?', options: ['भागधारकांची संख्या', 'कंपनीची कामगिरी आणि बाजारातील भावना', 'दिवसाची वेळ', 'फक्त सरकारी आदेश'], hint: 'कामगिरी आणि समज दोन्ही महत्त्वाचे!' },
+    ta: { question: 'பங்கு விலைகள் ஏன் ஏறி இறங்குகின்றன?', options: ['பங்குதாரர்களின் எண்ணிக்கை', 'நிறுவனச் செயல்திறனும் சந்தை மனநிலையும்', 'நாளின் நேரம்', 'அரசு உத்தரவுகள் மட்டும்'], hint: 'செயல்திறனும் பார்வையும் முக்கியம்!' },
+  },
+  'What is a dividend?': {
+    hi: { question: 'डिविडेंड क्या है?', options: ['कंपनी के मुनाफ़े का हिस्सा', 'शेयर खरीदने का शुल्क', 'कंपनी के कर्ज़ का भुगतान', 'सरकारी टैक्स'], hint: 'कंपनियाँ मुनाफ़ा अपने मालिकों से बाँटती हैं!' },
+    mr: { question: 'लाभांश म्हणजे काय?', options: ['कंपनीच्या नफ्यातील वाटा', 'शेअर खरेदी शुल्क', 'कंपनीच्या कर्जाची परतफेड', 'सरकारी कर'], hint: 'कंपन्या नफा मालकांमध्ये वाटतात!' },
+    ta: { question: 'ஈவுத்தொகை என்றால் என்ன?', options: ['நிறுவன லாபத்தின் பங்கு', 'பங்கு வாங்கும் கட்டணம்', 'நிறுவனக் கடன் செலுத்துதல்', 'அரசு வரி'], hint: 'நிறுவனங்கள் லாபத்தை உரிமையாளர்களுடன் பகிர்கின்றன!' },
+  },
+  'What is the risk level of stock investing?': {
+    hi: { question: 'शेयरों में निवेश का जोखिम कितना होता है?', options: ['ज़्यादा जोखिम, ज़्यादा रिटर्न', 'बचत खाते जितना', 'कोई जोखिम नहीं', 'सिर्फ़ कागज़ी जोखिम'], hint: 'जोखिम और इनाम साथ चलते हैं!' },
+    mr: { question: 'शेअर्समधील गुंतवणुकीत किती जोखीम असते?', options: ['जास्त जोखीम, जास्त परतावा', 'बचत खात्याइतकीच', 'काहीच जोखीम नाही', 'फक्त कागदपत्रांची जोखीम'], hint: 'जोखीम आणि बक्षीस हातात हात घालून येतात!' },
+    ta: { question: 'பங்கு முதலீட்டின் அபாய நிலை என்ன?', options: ['அதிக அபாயம், அதிக வருமானம்', 'சேமிப்புக் கணக்கு அளவுதான்', 'அபாயமே இல்லை', 'ஆவண அபாயம் மட்டும்'], hint: 'அபாயமும் பலனும் சேர்ந்தே வரும்!' },
+  },
+  'Can you lose money in stocks?': {
+    hi: { question: 'क्या शेयरों में पैसा डूब सकता है?', options: ['नहीं, शेयर हमेशा बढ़ते हैं', 'सिर्फ़ कंपनी बंद होने पर', 'हाँ, अगर कीमत गिर जाए', 'सरकार सारे नुकसान की भरपाई करती है'], hint: 'कीमत खरीद मूल्य से नीचे जा सकती है!' },
+    mr: { question: 'शेअर्समध्ये पैसे बुडू शकतात का?', options: ['नाही, शेअर्स नेहमी वाढतात', 'फक्त कंपनी बंद पडल्यास', 'हो, किंमत घसरल्यास', 'सरकार सगळे नुकसान भरून देते'], hint: 'किंमत खरेदी किमतीच्या खाली जाऊ शकते!' },
+    ta: { question: 'பங்குகளில் பணத்தை இழக்க முடியுமா?', options: ['இல்லை, பங்குகள் எப்போதும் உயரும்', 'நிறுவனம் மூடினால் மட்டும்', 'ஆம், விலை விழுந்தால்', 'அரசு எல்லா இழப்பையும் ஈடுகட்டும்'], hint: 'விலை வாங்கிய விலைக்குக் கீழே போகலாம்!' },
+  },
+  'What does market capitalization mean?': {
+    hi: { question: 'मार्केट कैपिटलाइज़ेशन का क्या मतलब है?', options: ['CEO का वेतन पैकेज', 'कर्मचारियों की संख्या', 'सभी शेयरों का कुल मूल्य', 'कंपनी का सालाना मुनाफ़ा'], hint: 'सभी शेयरों की कुल कीमत!' },
+    mr: { question: 'बाजार भांडवल म्हणजे काय?', options: ['CEO चे वेतन पॅकेज', 'कर्मचाऱ्यांची संख्या', 'सर्व शेअर्सचे एकूण मूल्य', 'कंपनीचा वार्षिक नफा'], hint: 'सर्व शेअर्सची एकूण किंमत!' },
+    ta: { question: 'சந்தை மூலதனம் என்றால் என்ன?', options: ['CEO சம்பளத் தொகுப்பு', 'ஊழியர்களின் எண்ணிக்கை', 'அனைத்துப் பங்குகளின் மொத்த மதிப்பு', 'நிறுவன ஆண்டு லாபம்'], hint: 'அனைத்துப் பங்குகளின் மொத்த மதிப்பு!' },
+  },
+  'What is diversification in stock investing?': {
+    hi: { question: 'शेयर निवेश में विविधीकरण क्या है?', options: ['सिर्फ़ एक शेयर खरीदना', 'सारे शेयर जल्दी बेचना', 'हर दिन ट्रेडिंग करना', 'कई शेयरों में पैसा बाँटना'], hint: 'सारे अंडे एक टोकरी में मत रखिए!' },
+    mr: { question: 'शेअर गुंतवणुकीत वैविध्य म्हणजे काय?', options: ['फक्त एकच शेअर घेणे', 'सगळे शेअर्स पटकन विकणे', 'रोज ट्रेडिंग करणे', 'अनेक शेअर्समध्ये पैसे विभागणे'], hint: 'सगळी अंडी एकाच टोपलीत ठेवू नका!' },
+    ta: { question: 'பங்கு முதலீட்டில் பரவலாக்கம் என்றால் என்ன?', options: ['ஒரே ஒரு பங்கு வாங்குதல்', 'எல்லாப் பங்குகளையும் விரைவில் விற்றல்', 'ஒவ்வொரு நாளும் வர்த்தகம்', 'பல பங்குகளில் பிரித்து முதலீடு'], hint: 'எல்லா முட்டைகளையும் ஒரே கூடையில் வைக்காதீர்கள்!' },
+  },
+  'What is a stock exchange?': {
+    hi: { question: 'स्टॉक एक्सचेंज क्या है?', options: ['शेयर खरीदने-बेचने का बाज़ार', 'बैंक की शाखा', 'सरकारी दफ़्तर', 'कंपनी का मुख्यालय'], hint: 'जहाँ खरीदार और विक्रेता मिलते हैं!' },
+    mr: { question: 'शेअर बाजार (स्टॉक एक्सचेंज) म्हणजे काय?', options: ['शेअर्स खरेदी-विक्रीचा बाजार', 'बँकेची शाखा', 'सरकारी कार्यालय', 'कंपनीचे मुख्यालय'], hint: 'जिथे खरेदीदार आणि विक्रेते भेटतात!' },
+    ta: { question: 'பங்குச் சந்தை என்றால் என்ன?', options: ['பங்குகளை வாங்கி விற்கும் சந்தை', 'வங்கிக் கிளை', 'அரசு அலுவலகம்', 'நிறுவனத் தலைமையகம்'], hint: 'வாங்குபவரும் விற்பவரும் சந்திக்கும் இடம்!' },
+  },
+  'What does BSE and NSE stand for?': {
+    hi: { question: 'BSE और NSE का पूरा नाम क्या है?', options: ['बिज़नेस सेल्स एंटरप्राइज़', 'बेसिक स्टॉक एस्टैब्लिशमेंट', 'बैंक सेविंग्स एंटिटी', 'बॉम्बे/नेशनल स्टॉक एक्सचेंज'], hint: 'भारत के प्रमुख स्टॉक एक्सचेंज!' },
+    mr: { question: 'BSE आणि NSE चे पूर्ण रूप काय?', options: ['बिझनेस सेल्स एंटरप्राइझ', 'बेसिक स्टॉक एस्टॅब्लिशमेंट', 'बँक सेव्हिंग्ज एंटिटी', 'बॉम्बे/नॅशनल स्टॉक एक्सचेंज'], hint: 'भारतातील प्रमुख शेअर बाजार!' },
+    ta: { question: 'BSE, NSE என்பதன் விரிவாக்கம் என்ன?', options: ['பிசினஸ் சேல்ஸ் எண்டர்பிரைஸ்', 'பேசிக் ஸ்டாக் எஸ்டாப்ளிஷ்மென்ட்', 'பேங்க் சேவிங்ஸ் என்டிட்டி', 'பாம்பே/நேஷனல் ஸ்டாக் எக்ஸ்சேஞ்ச்'], hint: 'இந்தியாவின் முக்கியப் பங்குச் சந்தைகள்!' },
+  },
+  // Cryptocurrency
+  'What is the main characteristic of cryptocurrency?': {
+    hi: { question: 'क्रिप्टोकरेंसी की मुख्य खासियत क्या है?', options: ['सरकार का समर्थन', 'गारंटीड रिटर्न', 'बहुत ज़्यादा उतार-चढ़ाव और जोखिम', 'तय ब्याज दर'], hint: 'क्रिप्टो की कीमतें बहुत तेज़ी से बदल सकती हैं!' },
+    mr: { question: 'क्रिप्टोकरन्सीचे मुख्य वैशिष्ट्य कोणते?', options: ['सरकारचा पाठिंबा', 'हमखास परतावा', 'प्रचंड चढ-उतार आणि जोखीम', 'निश्चित व्याजदर'], hint: 'क्रिप्टोच्या किमती झपाट्याने बदलू शकतात!' },
+    ta: { question: 'கிரிப்டோகரன்சியின் முக்கியப் பண்பு என்ன?', options: ['அரசின் ஆதரவு', 'உத்தரவாதமான வருமானம்', 'அதிக ஏற்ற இறக்கமும் அபாயமும்', 'நிலையான வட்டி விகிதம்'], hint: 'கிரிப்டோ விலைகள் கடுமையாக ஊசலாடலாம்!' },
+  },
+  'What technology powers cryptocurrency?': {
+    hi: { question: 'क्रिप्टोकरेंसी किस तकनीक पर चलती है?', options: ['पारंपरिक बैंकिंग प्रणाली', 'कागज़ी मुद्रा प्रणाली', 'ब्लॉकचेन तकनीक', 'सोने का मानक'], hint: 'बँटी हुई खाता-बही (लेजर) तकनीक!' },
+    mr: { question: 'क्रिप्टोकरन्सी कोणत्या तंत्रज्ञानावर चालते?', options: ['पारंपरिक बँकिंग व्यवस्था', 'कागदी चलन व्यवस्था', 'ब्लॉकचेन तंत्रज्ञान', 'सुवर्ण मानक'], hint: 'विखुरलेल्या खातेवहीचे (लेजर) तंत्रज्ञान!' },
+    ta: { question: 'கிரிப்டோகரன்சி எந்தத் தொழில்நுட்பத்தில் இயங்குகிறது?', options: ['பாரம்பரிய வங்கி முறை', 'காகித நாணய முறை', 'பிளாக்செயின் தொழில்நுட்பம்', 'தங்கத் தரநிலை'], hint: 'பகிரப்பட்ட பேரேடு (லெட்ஜர்) தொழில்நுட்பம்!' },
+  },
+  'Is cryptocurrency regulated in India?': {
+    hi: { question: 'क्या भारत में क्रिप्टोकरेंसी पर नियम लागू हैं?', options: ['हाँ, बैंकों की तरह पूरी तरह', 'सिर्फ़ बिटकॉइन पर', 'कोई नियम नहीं', 'आंशिक रूप से, टैक्स लगता है'], hint: 'अस्पष्ट स्थिति, पर टैक्स लागू है!' },
+    mr: { question: 'भारतात क्रिप्टोकरन्सीवर नियम लागू आहेत का?', options: ['हो, बँकांसारखे पूर्णपणे', 'फक्त बिटकॉइनवर', 'कोणतेही नियम नाहीत', 'अंशतः, कर लागू आहे'], hint: 'अस्पष्ट स्थिती, पण कर लागू!' },
+    ta: { question: 'இந்தியாவில் கிரிப்டோகரன்சி ஒழுங்குபடுத்தப்படுகிறதா?', options: ['ஆம், வங்கிகள் போல் முழுமையாக', 'பிட்காயின் மட்டும்', 'எந்த ஒழுங்குமுறையும் இல்லை', 'பகுதியளவு, வரி விதிக்கப்படுகிறது'], hint: 'தெளிவற்ற நிலை, ஆனால் வரி உண்டு!' },
+  },
+  'What is Bitcoin?': {
+    hi: { question: 'बिटकॉइन क्या है?', options: ['एक पारंपरिक बैंक', 'पहली मशहूर क्रिप्टोकरेंसी', 'एक स्टॉक एक्सचेंज', 'सरकारी मुद्रा'], hint: 'क्रिप्टो की शुरुआत करने वाला!' },
+    mr: { question: 'बिटकॉइन म्हणजे काय?', options: ['एक पारंपरिक बँक', 'पहिली प्रसिद्ध क्रिप्टोकरन्सी', 'एक शेअर बाजार', 'सरकारी चलन'], hint: 'क्रिप्टोचा पहिला प्रणेता!' },
+    ta: { question: 'பிட்காயின் என்றால் என்ன?', options: ['ஒரு பாரம்பரிய வங்கி', 'முதல் பிரபல கிரிப்டோகரன்சி', 'ஒரு பங்குச் சந்தை', 'அரசு நாணயம்'], hint: 'கிரிப்டோவின் முன்னோடி!' },
+  },
+  'Can cryptocurrency prices crash suddenly?': {
+    hi: { question: 'क्या क्रिप्टोकरेंसी की कीमतें अचानक गिर सकती हैं?', options: ['नहीं, कीमतें स्थिर हैं', 'सिर्फ़ सप्ताहांत में', 'सरकार कीमतों की रक्षा करती है', 'हाँ, भारी उतार-चढ़ाव आम है'], hint: 'ज़्यादा जोखिम, ज़्यादा इनाम वाली संपत्ति!' },
+    mr: { question: 'क्रिप्टोकरन्सीच्या किमती अचानक कोसळू शकतात का?', options: ['नाही, किमती स्थिर असतात', 'फक्त आठवड्याच्या शेवटी', 'सरकार किमतींचे रक्षण करते', 'हो, प्रचंड चढ-उतार सामान्य आहेत'], hint: 'जास्त जोखीम, जास्त बक्षीस असलेली मालमत्ता!' },
+    ta: { question: 'கிரிப்டோகரன்சி விலைகள் திடீரென வீழ்ச்சியடையுமா?', options: ['இல்லை, விலைகள் நிலையானவை', 'வார இறுதிகளில் மட்டும்', 'அரசு விலைகளைப் பாதுகாக்கிறது', 'ஆம், கடும் ஏற்ற இறக்கம் சகஜம்'], hint: 'அதிக அபாயம், அதிக பலன் தரும் சொத்து!' },
+  },
+  'Where do you store cryptocurrency?': {
+    hi: { question: 'क्रिप्टोकरेंसी कहाँ रखी जाती है?', options: ['डिजिटल वॉलेट में', 'बैंक खाते में', 'तिजोरी में', 'सरकारी खज़ाने में'], hint: 'डिजिटल संपत्ति के लिए डिजिटल जगह!' },
+    mr: { question: 'क्रिप्टोकरन्सी कुठे ठेवली जाते?', options: ['डिजिटल वॉलेटमध्ये', 'बँक खात्यात', 'तिजोरीत', 'सरकारी खजिन्यात'], hint: 'डिजिटल मालमत्तेसाठी डिजिटल जागा!' },
+    ta: { question: 'கிரிப்டோகரன்சியை எங்கே வைத்திருப்பீர்கள்?', options: ['டிஜிட்டல் வாலட்டில்', 'வங்கிக் கணக்கில்', 'பெட்டகத்தில்', 'அரசுக் கருவூலத்தில்'], hint: 'டிஜிட்டல் சொத்துக்கு டிஜிட்டல் சேமிப்பு!' },
+  },
+  'What is crypto mining?': {
+    hi: { question: 'क्रिप्टो माइनिंग क्या है?', options: ['एक्सचेंज पर क्रिप्टो खरीदना', 'सरकार का पैसा छापना', 'ज़मीन में सोना खोदना', 'लेन-देन की पुष्टि करके सिक्के पाना'], hint: 'कंप्यूटर के काम के बदले इनाम!' },
+    mr: { question: 'क्रिप्टो मायनिंग म्हणजे काय?', options: ['एक्सचेंजवर क्रिप्टो खरेदी', 'सरकारने पैसे छापणे', 'जमिनीत सोने खणणे', 'व्यवहारांची पडताळणी करून नाणी मिळवणे'], hint: 'संगणकाच्या कामाबद्दल बक्षीस!' },
+    ta: { question: 'கிரிப்டோ மைனிங் என்றால் என்ன?', options: ['எக்ஸ்சேஞ்சில் கிரிப்டோ வாங்குதல்', 'அரசு பணம் அச்சிடுதல்', 'நிலத்தில் தங்கம் தோண்டுதல்', 'பரிவர்த்தனைகளைச் சரிபார்த்து நாணயம் பெறுதல்'], hint: 'கணினி உழைப்புக்கு வெகுமதி!' },
+  },
+  'Are cryptocurrency transactions anonymous?': {
+    hi: { question: 'क्या क्रिप्टोकरेंसी के लेन-देन गुमनाम होते हैं?', options: ['हमेशा पूरी तरह गुमनाम', 'सिर्फ़ सरकार देख सकती है', 'छद्म नाम से - पता लगाया जा सकता है', 'नाम सहित पूरी तरह सार्वजनिक'], hint: 'खाता-बही सार्वजनिक, पहचान निजी!' },
+    mr: { question: 'क्रिप्टोकरन्सीचे व्यवहार निनावी असतात का?', options: ['नेहमी पूर्णपणे निनावी', 'फक्त सरकार पाहू शकते', 'टोपणनावाने - माग काढता येतो', 'नावांसह पूर्णपणे सार्वजनिक'], hint: 'खातेवही सार्वजनिक, ओळख खासगी!' },
+    ta: { question: 'கிரிப்டோகரன்சி பரிவர்த்தனைகள் அநாமதேயமானவையா?', options: ['எப்போதும் முழுமையாக அநாமதேயம்', 'அரசு மட்டுமே பார்க்க முடியும்', 'புனைபெயரில் - கண்டறிய முடியும்', 'பெயர்களுடன் முழுமையாகப் பொது'], hint: 'பேரேடு பொது, அடையாளம் தனிப்பட்டது!' },
+  },
+  'What is the maximum supply of Bitcoin?': {
+    hi: { question: 'बिटकॉइन की अधिकतम आपूर्ति कितनी है?', options: ['असीमित आपूर्ति', '10 करोड़ सिक्के', 'हर साल बदलती है', '2.1 करोड़ सिक्के'], hint: 'सीमित आपूर्ति कमी पैदा करती है!' },
+    mr: { question: 'बिटकॉइनचा कमाल पुरवठा किती आहे?', options: ['अमर्यादित पुरवठा', '10 कोटी नाणी', 'दरवर्षी बदलतो', '2.1 कोटी नाणी'], hint: 'मर्यादित पुरवठ्यामुळे दुर्मिळता येते!' },
+    ta: { question: 'பிட்காயினின் அதிகபட்ச விநியோகம் எவ்வளவு?', options: ['வரம்பற்ற விநியோகம்', '10 கோடி நாணயங்கள்', 'ஒவ்வோர் ஆண்டும் மாறும்', '2.1 கோடி நாணயங்கள்'], hint: 'வரம்புக்குட்பட்ட விநியோகம் அரிதாக்குகிறது!' },
+  },
+  'Should beginners invest heavily in cryptocurrency?': {
+    hi: { question: 'क्या नए निवेशकों को क्रिप्टोकरेंसी में भारी निवेश करना चाहिए?', options: ['हाँ, गारंटीड मुनाफ़ा', 'सिर्फ़ दोस्त सलाह दें तो', 'नहीं, सिर्फ़ उतना जितना खो सकें', 'हाँ, सारी बचत लगा दें'], hint: 'ज़्यादा जोखिम में सावधानी ज़रूरी है!' },
+    mr: { question: 'नवख्या गुंतवणूकदारांनी क्रिप्टोकरन्सीत मोठी गुंतवणूक करावी का?', options: ['हो, हमखास नफा', 'फक्त मित्रांनी सुचवले तर', 'नाही, फक्त गमावणे परवडेल तितकेच', 'हो, सगळी बचत गुंतवा'], hint: 'जास्त जोखमीत सावधगिरी हवी!' },
+    ta: { question: 'தொடக்க முதலீட்டாளர்கள் கிரிப்டோகரன்சியில் அதிகமாக முதலீடு செய்யலாமா?', options: ['ஆம், உத்தரவாதமான லாபம்', 'நண்பர்கள் பரிந்துரைத்தால் மட்டும்', 'இல்லை, இழக்கக்கூடிய அளவு மட்டும்', 'ஆம், எல்லாச் சேமிப்பையும் போடுங்கள்'], hint: 'அதிக அபாயத்தில் எச்சரிக்கை தேவை!' },
+  },
+  // Foreign exchange
+  'What does the pair USDINR show?': {
+    hi: { question: 'USDINR जोड़ी क्या दिखाती है?', options: ['एक डॉलर के लिए कितने रुपये', 'एक रुपये के लिए कितने डॉलर', 'भारत में अमेरिकी ब्याज दर', 'डॉलर में सोने की कीमत'], hint: 'दूसरी मुद्रा पहली की कीमत बताती है!' },
+    mr: { question: 'USDINR ही जोडी काय दाखवते?', options: ['एका डॉलरसाठी किती रुपये', 'एका रुपयासाठी किती डॉलर', 'भारतातील अमेरिकी व्याजदर', 'डॉलरमध्ये सोन्याची किंमत'], hint: 'दुसरे चलन पहिल्याची किंमत सांगते!' },
+    ta: { question: 'USDINR ஜோடி எதைக் காட்டுகிறது?', options: ['ஒரு டாலருக்குத் தேவையான ரூபாய்', 'ஒரு ரூபாய்க்குத் தேவையான டாலர்', 'இந்தியாவில் அமெரிக்க வட்டி விகிதம்', 'டாலரில் தங்கத்தின் விலை'], hint: 'இரண்டாவது நாணயம் முதலாவதன் விலையைக் காட்டுகிறது!' },
+  },
+  'If USDINR rises from 70 to 75, the rupee has...': {
+    hi: { question: 'अगर USDINR 70 से बढ़कर 75 हो जाए, तो रुपया...', options: ['मज़बूत हुआ है', 'वैसा ही रहा है', 'कमज़ोर हुआ है', 'कानून से पुनर्मूल्यांकित हुआ है'], hint: 'उसी डॉलर के लिए ज़्यादा रुपये!' },
+    mr: { question: 'USDINR 70 वरून 75 झाला, तर रुपया...', options: ['मजबूत झाला आहे', 'तसाच राहिला आहे', 'कमकुवत झाला आहे', 'कायद्याने पुनर्मूल्यांकित झाला आहे'], hint: 'त्याच डॉलरसाठी जास्त रुपये!' },
+    ta: { question: 'USDINR 70-இலிருந்து 75 ஆக உயர்ந்தால், ரூபாய்...', options: ['வலுவடைந்துள்ளது', 'அப்படியே உள்ளது', 'பலவீனமடைந்துள்ளது', 'சட்டப்படி மறுமதிப்பிடப்பட்டுள்ளது'], hint: 'அதே டாலருக்கு அதிக ரூபாய்!' },
+  },
+  'Who benefits when the rupee weakens?': {
+    hi: { question: 'रुपया कमज़ोर होने पर किसे फ़ायदा होता है?', options: ['तेल आयात करने वालों को', 'अमेरिकी फीस भरने वाले छात्रों को', 'भारतीय निर्यातकों को', 'रुपये में भुगतान करने वाले विदेशी पर्यटकों को'], hint: 'उनकी डॉलर की कमाई ज़्यादा रुपयों में बदलती है!' },
+    mr: { question: 'रुपया कमकुवत झाल्यावर कोणाला फायदा होतो?', options: ['तेल आयात करणाऱ्यांना', 'अमेरिकी फी भरणाऱ्या विद्यार्थ्यांना', 'भारतीय निर्यातदारांना', 'रुपयात पैसे देणाऱ्या परदेशी पर्यटकांना'], hint: 'त्यांची डॉलरमधील कमाई जास्त रुपयांत बदलते!' },
+    ta: { question: 'ரூபாய் பலவீனமடையும் போது யாருக்கு லாபம்?', options: ['எண்ணெய் இறக்குமதியாளர்களுக்கு', 'அமெரிக்கக் கட்டணம் செலுத்தும் மாணவர்களுக்கு', 'இந்திய ஏற்றுமதியாளர்களுக்கு', 'ரூபாயில் செலுத்தும் வெளிநாட்டுச் சுற்றுலாப் பயணிகளுக்கு'], hint: 'அவர்களின் டாலர் வருமானம் அதிக ரூபாயாக மாறும்!' },
+  },
+  'What mainly drives exchange rates?': {
+    hi: { question: 'विनिमय दरें मुख्य रूप से किससे तय होती हैं?', options: ['कंपनियों के डिविडेंड', 'ब्याज दरें, व्यापार और पूँजी का प्रवाह', 'बैंक छुट्टियों की संख्या', 'सिर्फ़ सोने का खनन'], hint: 'पैसा वहाँ जाता है जहाँ ज़्यादा कमाता है!' },
+    mr: { question: 'विनिमय दर मुख्यतः कशामुळे ठरतात?', options: ['कंपन्यांचे लाभांश', 'व्याजदर, व्यापार आणि भांडवलाचा ओघ', 'बँक सुट्ट्यांची संख्या', 'फक्त सोन्याचे उत्खनन'], hint: 'पैसा तिथे जातो जिथे जास्त कमावतो!' },
+    ta: { question: 'நாணய மாற்று விகிதங்களை முக்கியமாக எது தீர்மானிக்கிறது?', options: ['நிறுவன ஈவுத்தொகைகள்', 'வட்டி விகிதங்கள், வர்த்தகம், மூலதன ஓட்டம்', 'வங்கி விடுமுறைகளின் எண்ணிக்கை', 'தங்கச் சுரங்க உற்பத்தி மட்டும்'], hint: 'அதிகம் சம்பாதிக்கும் இடத்துக்குப் பணம் செல்கிறது!' },
+  },
+  'Which body manages India\'s foreign exchange reserves?': {
+    hi: { question: 'भारत के विदेशी मुद्रा भंडार का प्रबंधन कौन करता है?', options: ['SEBI', 'पर्यटन मंत्रालय', 'NSE', 'भारतीय रिज़र्व बैंक'], hint: 'भारत का केंद्रीय बैंक!' },
+    mr: { question: 'भारताच्या परकीय चलन साठ्याचे व्यवस्थापन कोण करते?', options: ['SEBI', 'पर्यटन मंत्रालय', 'NSE', 'भारतीय रिझर्व्ह बँक'], hint: 'भारताची मध्यवर्ती बँक!' },
+    ta: { question: 'இந்தியாவின் அந்நியச் செலாவணி இருப்பை எந்த அமைப்பு நிர்வகிக்கிறது?', options: ['SEBI', 'சுற்றுலா அமைச்சகம்', 'NSE', 'இந்திய ரிசர்வ் வங்கி'], hint: 'இந்தியாவின் மத்திய வங்கி!' },
+  },
+  'Why might an Indian investor hold foreign currency?': {
+    hi: { question: 'एक भारतीय निवेशक विदेशी मुद्रा क्यों रख सकता है?', options: ['गारंटीड ऊँचे रिटर्न के लिए', 'गिरते रुपये से बचाव के लिए', 'यह तय ब्याज देती है', 'इसका मूल्य कभी नहीं घटता'], hint: 'इसे बीमे की तरह समझिए!' },
+    mr: { question: 'भारतीय गुंतवणूकदार परकीय चलन का ठेवू शकतो?', options: ['हमखास जास्त परताव्यासाठी', 'घसरत्या रुपयापासून बचावासाठी', 'त्यावर निश्चित व्याज मिळते', 'त्याचे मूल्य कधीच घटत नाही'], hint: 'याला विम्यासारखे समजा!' },
+    ta: { question: 'இந்திய முதலீட்டாளர் ஏன் வெளிநாட்டு நாணயம் வைத்திருக்கலாம்?', options: ['உத்தரவாதமான அதிக வருமானத்துக்கு', 'வீழும் ரூபாயிலிருந்து பாதுகாக்க', 'நிலையான வட்டி தருவதால்', 'அதன் மதிப்பு ஒருபோதும் குறையாது'], hint: 'இதைக் காப்பீடு போல் நினையுங்கள்!' },
+  },
+  'What is the \'spread\' in a currency quote?': {
+    hi: { question: 'मुद्रा के भाव में "स्प्रेड" क्या होता है?', options: ['खरीद और बिक्री मूल्य का अंतर', 'रोज़ मिलने वाला ब्याज', 'मुद्रा के मुनाफ़े पर टैक्स', 'कारोबार वाली मुद्राओं की संख्या'], hint: 'डीलर का मार्जिन!' },
+    mr: { question: 'चलनाच्या भावातील "स्प्रेड" म्हणजे काय?', options: ['खरेदी आणि विक्री किमतीतील फरक', 'रोज मिळणारे व्याज', 'चलनातील नफ्यावरील कर', 'व्यवहार होणाऱ्या चलनांची संख्या'], hint: 'डीलरचे मार्जिन!' },
+    ta: { question: 'நாணய விலைப்புள்ளியில் "ஸ்ப்ரெட்" என்றால் என்ன?', options: ['வாங்கும் விற்கும் விலைகளுக்கிடையிலான வேறுபாடு', 'தினசரி வட்டி', 'நாணய லாபத்தின் மீதான வரி', 'வர்த்தகமாகும் நாணயங்களின் எண்ணிக்கை'], hint: 'டீலரின் லாப வரம்பு!' },
+  },
+  'What usually happens to the rupee when foreign investors pull money out?': {
+    hi: { question: 'विदेशी निवेशक पैसा निकालें तो रुपये का आमतौर पर क्या होता है?', options: ['मज़बूत होता है', 'कमज़ोर होता है', 'कोई असर नहीं', 'सोने से जुड़ जाता है'], hint: 'डॉलर के लिए रुपये बेचे जाते हैं!' },
+    mr: { question: 'परदेशी गुंतवणूकदारांनी पैसे काढले तर रुपयाचे सहसा काय होते?', options: ['मजबूत होतो', 'कमकुवत होतो', 'काहीच परिणाम नाही', 'सोन्याशी जोडला जातो'], hint: 'डॉलरसाठी रुपये विकले जातात!' },
+    ta: { question: 'வெளிநாட்டு முதலீட்டாளர்கள் பணத்தை வெளியே எடுத்தால் ரூபாய்க்குப் பொதுவாக என்ன ஆகும்?', options: ['வலுவடையும்', 'பலவீனமடையும்', 'எந்தப் பாதிப்பும் இல்லை', 'தங்கத்துடன் இணைக்கப்படும்'], hint: 'டாலருக்காக ரூபாய் விற்கப்படுகிறது!' },
+  },
+  'How volatile are major currency pairs compared with stocks?': {
+    hi: { question: 'शेयरों की तुलना में प्रमुख मुद्रा जोड़ियों में कितना उतार-चढ़ाव होता है?', options: ['क्रिप्टो से भी कहीं ज़्यादा', 'बिल्कुल शेयरों जितना', 'आमतौर पर शेयरों से कम', 'कभी नहीं बदलतीं'], hint: 'रोज़ के छोटे बदलाव सालों में बड़े बन जाते हैं!' },
+    mr: { question: 'शेअर्सच्या तुलनेत प्रमुख चलन जोड्यांमध्ये किती चढ-उतार असतात?', options: ['क्रिप्टोपेक्षाही खूप जास्त', 'अगदी शेअर्सइतके', 'सहसा शेअर्सपेक्षा कमी', 'कधीच बदलत नाहीत'], hint: 'रोजचे छोटे बदल वर्षानुवर्षे मोठे होतात!' },
+    ta: { question: 'பங்குகளுடன் ஒப்பிடும் போது முக்கிய நாணய ஜோடிகள் எவ்வளவு ஏற்ற இறக்கம் கொண்டவை?', options: ['கிரிப்டோவை விடவும் அதிகம்', 'பங்குகள் அளவுதான்', 'பொதுவாகப் பங்குகளை விடக் குறைவு', 'ஒருபோதும் மாறாது'], hint: 'சிறிய தினசரி மாற்றங்கள் ஆண்டுகளில் பெரிதாகும்!' },
+  },
+  'Over the long run, the rupee has generally...': {
+    hi: { question: 'लंबे समय में रुपया आमतौर पर...', options: ['डॉलर के मुकाबले मज़बूत हुआ है', '45 पर स्थिर रहा है', 'यूरो से बदल दिया गया है', 'डॉलर के मुकाबले कमज़ोर हुआ है'], hint: 'भारत में महंगाई अमेरिका से ज़्यादा है!' },
+    mr: { question: 'दीर्घ काळात रुपया सहसा...', options: ['डॉलरच्या तुलनेत मजबूत झाला आहे', '45 वर स्थिर राहिला आहे', 'युरोने बदलला गेला आहे', 'डॉलरच्या तुलनेत घसरला आहे'], hint: 'भारतात महागाई अमेरिकेपेक्षा जास्त आहे!' },
+    ta: { question: 'நீண்ட காலத்தில் ரூபாய் பொதுவாக...', options: ['டாலருக்கு எதிராக வலுவடைந்துள்ளது', '45-இல் நிலையாக உள்ளது', 'யூரோவால் மாற்றப்பட்டுள்ளது', 'டாலருக்கு எதிராக மதிப்பிழந்துள்ளது'], hint: 'அமெரிக்காவை விட இந்தியாவில் பணவீக்கம் அதிகம்!' },
+  },
+  // Bonds
+  'What is a bond\'s coupon?': {
+    hi: { question: 'बॉन्ड का कूपन क्या होता है?', options: ['जारीकर्ता का डिस्काउंट वाउचर', 'धारक को मिलने वाला तय ब्याज', 'बॉन्ड खरीदने का शुल्क', 'कंपनी के मुनाफ़े में बॉन्ड का हिस्सा'], hint: 'यह तय समय पर मिलता है!' },
+    mr: { question: 'बाँडचे कूपन म्हणजे काय?', options: ['जारीकर्त्याचे सवलत व्हाउचर', 'धारकाला मिळणारे निश्चित व्याज', 'बाँड खरेदीचे शुल्क', 'कंपनीच्या नफ्यातील बाँडचा वाटा'], hint: 'ते ठरलेल्या वेळी मिळते!' },
+    ta: { question: 'பத்திரத்தின் கூப்பன் என்றால் என்ன?', options: ['வெளியீட்டாளரின் தள்ளுபடிச் சீட்டு', 'வைத்திருப்பவருக்குக் கிடைக்கும் நிலையான வட்டி', 'பத்திரம் வாங்கும் கட்டணம்', 'நிறுவன லாபத்தில் பத்திரத்தின் பங்கு'], hint: 'இது குறிப்பிட்ட கால அட்டவணைப்படி வழங்கப்படும்!' },
+  },
+  'Who issues a G-Sec (Government Security)?': {
+    hi: { question: 'G-Sec (सरकारी प्रतिभूति) कौन जारी करता है?', options: ['भारत सरकार', 'कोई भी सूचीबद्ध कंपनी', 'स्टॉक एक्सचेंज', 'म्यूचुअल फंड कंपनियाँ'], hint: '"G" एक बड़ा संकेत है!' },
+    mr: { question: 'G-Sec (सरकारी रोखे) कोण जारी करते?', options: ['भारत सरकार', 'कोणतीही सूचीबद्ध कंपनी', 'शेअर बाजार', 'म्युच्युअल फंड कंपन्या'], hint: '"G" हा मोठा संकेत आहे!' },
+    ta: { question: 'G-Sec (அரசுப் பத்திரம்) யார் வெளியிடுகிறார்கள்?', options: ['இந்திய அரசு', 'எந்தப் பட்டியலிடப்பட்ட நிறுவனமும்', 'பங்குச் சந்தைகள்', 'மியூச்சுவல் ஃபண்ட் நிறுவனங்கள்'], hint: '"G" ஒரு பெரிய குறிப்பு!' },
+  },
+  'If market yields rise, what happens to the price of an existing bond?': {
+    hi: { question: 'बाज़ार में यील्ड बढ़ें तो मौजूदा बॉन्ड की कीमत का क्या होता है?', options: ['बढ़ती है', 'बिल्कुल वैसी ही रहती है', 'घटती है', 'दोगुनी हो जाती है'], hint: 'नए बॉन्ड अब ज़्यादा देते हैं, इसलिए पुराने कम आकर्षक हैं!' },
+    mr: { question: 'बाजारातील यील्ड वाढल्यास सध्याच्या बाँडच्या किमतीचे काय होते?', options: ['वाढते', 'अगदी तशीच राहते', 'घटते', 'दुप्पट होते'], hint: 'नवे बाँड आता जास्त देतात, म्हणून जुने कमी आकर्षक!' },
+    ta: { question: 'சந்தை ஈட்டம் (யீல்டு) உயர்ந்தால் ஏற்கனவே உள்ள பத்திரத்தின் விலைக்கு என்ன ஆகும்?', options: ['உயரும்', 'அப்படியே இருக்கும்', 'குறையும்', 'இரட்டிப்பாகும்'], hint: 'புதிய பத்திரங்கள் அதிகம் தருவதால் பழையவை கவர்ச்சி குறைந்தவை!' },
+  },
+  'What do you get back when a bond matures?': {
+    hi: { question: 'बॉन्ड मैच्योर होने पर आपको क्या वापस मिलता है?', options: ['कुछ नहीं - कूपन ही रिटर्न था', 'जारीकर्ता के शेयर', 'अंकित मूल्य का आधा', 'बॉन्ड का अंकित मूल्य'], hint: 'कर्ज़ पूरा चुकाया जाता है!' },
+    mr: { question: 'बाँडची मुदत पूर्ण झाल्यावर तुम्हाला काय परत मिळते?', options: ['काहीच नाही - कूपन हाच परतावा', 'जारीकर्त्याचे शेअर्स', 'दर्शनी मूल्याच्या निम्मे', 'बाँडचे दर्शनी मूल्य'], hint: 'कर्जाची पूर्ण परतफेड होते!' },
+    ta: { question: 'பத்திரம் முதிர்வடையும் போது உங்களுக்கு என்ன திரும்பக் கிடைக்கும்?', options: ['எதுவும் இல்லை - கூப்பனே வருமானம்', 'வெளியீட்டாளரின் பங்குகள்', 'முக மதிப்பில் பாதி', 'பத்திரத்தின் முக மதிப்பு'], hint: 'கடன் முழுமையாகத் திருப்பிச் செலுத்தப்படுகிறது!' },
+  },
+  'Why does a corporate bond usually pay a higher coupon than a G-Sec?': {
+    hi: { question: 'कॉर्पोरेट बॉन्ड पर आमतौर पर G-Sec से ज़्यादा कूपन क्यों मिलता है?', options: ['कंपनियाँ ज़्यादा उदार होती हैं', 'इसके न चुकाए जाने का जोखिम ज़्यादा है', 'यह हमेशा छोटी अवधि का होता है', 'यह टैक्स-फ्री होता है'], hint: 'ज़्यादा जोखिम पर ज़्यादा इनाम चाहिए!' },
+    mr: { question: 'कॉर्पोरेट बाँडवर सहसा G-Sec पेक्षा जास्त कूपन का मिळते?', options: ['कंपन्या जास्त उदार असतात', 'परतफेड न होण्याची जोखीम जास्त असते', 'तो नेहमी कमी मुदतीचा असतो', 'तो करमुक्त असतो'], hint: 'जास्त जोखमीसाठी जास्त बक्षीस हवे!' },
+    ta: { question: 'நிறுவனப் பத்திரம் ஏன் பொதுவாக G-Sec-ஐ விட அதிக கூப்பன் தருகிறது?', options: ['நிறுவனங்கள் அதிக தாராளமானவை', 'திருப்பிச் செலுத்தப்படாத அபாயம் அதிகம்', 'அது எப்போதும் குறுகிய காலம்', 'அது வரியில்லாதது'], hint: 'அதிக அபாயத்துக்கு அதிக வெகுமதி தேவை!' },
+  },
+  'How often do most Indian government bonds pay coupons?': {
+    hi: { question: 'ज़्यादातर भारतीय सरकारी बॉन्ड कितनी बार कूपन देते हैं?', options: ['हर दिन', 'हर महीने', 'हर 6 महीने', 'सिर्फ़ मैच्योरिटी पर'], hint: 'साल में दो बार!' },
+    mr: { question: 'बहुतेक भारतीय सरकारी बाँड किती वेळा कूपन देतात?', options: ['दररोज', 'दरमहा', 'दर 6 महिन्यांनी', 'फक्त मुदतपूर्तीला'], hint: 'वर्षातून दोनदा!' },
+    ta: { question: 'பெரும்பாலான இந்திய அரசுப் பத்திரங்கள் எத்தனை முறை கூப்பன் தருகின்றன?', options: ['ஒவ்வொரு நாளும்', 'ஒவ்வொரு மாதமும்', 'ஒவ்வொரு 6 மாதமும்', 'முதிர்வில் மட்டும்'], hint: 'ஆண்டுக்கு இருமுறை!' },
+  },
+  'What is special about RBI savings bonds in this game?': {
+    hi: { question: 'इस खेल में RBI सेविंग्स बॉन्ड की क्या खासियत है?', options: ['इन्हें मैच्योरिटी तक रखना ज़रूरी है', 'इन पर कोई ब्याज नहीं मिलता', 'इनकी कीमत रोज़ बदलती है', 'इन्हें कभी भी बेचा जा सकता है'], hint: 'जल्दी बेचना मना है!' },
+    mr: { question: 'या खेळात RBI बचत रोख्यांचे वैशिष्ट्य काय?', options: ['ते मुदतपूर्तीपर्यंत ठेवावेच लागतात', 'त्यावर व्याज मिळत नाही', 'त्यांची किंमत रोज बदलते', 'ते कधीही विकता येतात'], hint: 'लवकर विकता येत नाहीत!' },
+    ta: { question: 'இந்த விளையாட்டில் RBI சேமிப்புப் பத்திரங்களின் சிறப்பு என்ன?', options: ['முதிர்வு வரை வைத்திருக்க வேண்டும்', 'அவற்றுக்கு வட்டி இல்லை', 'அவற்றின் விலை தினமும் மாறும்', 'எப்போது வேண்டுமானாலும் விற்கலாம்'], hint: 'முன்கூட்டியே விற்க முடியாது!' },
+  },
+  'Which investment is generally the safest in India?': {
+    hi: { question: 'भारत में आमतौर पर सबसे सुरक्षित निवेश कौन सा है?', options: ['किसी छोटी कंपनी का शेयर', 'क्रिप्टोकरेंसी', 'कमोडिटी फ्यूचर', 'भारत सरकार का बॉन्ड'], hint: 'सरकार रुपयों में हमेशा चुका सकती है!' },
+    mr: { question: 'भारतात सहसा सर्वात सुरक्षित गुंतवणूक कोणती?', options: ['छोट्या कंपनीचा शेअर', 'क्रिप्टोकरन्सी', 'कमोडिटी फ्युचर', 'भारत सरकारचा बाँड'], hint: 'सरकार रुपयांत नेहमी परतफेड करू शकते!' },
+    ta: { question: 'இந்தியாவில் பொதுவாக மிகவும் பாதுகாப்பான முதலீடு எது?', options: ['சிறிய நிறுவனத்தின் பங்கு', 'கிரிப்டோகரன்சி', 'பொருள் ஃப்யூச்சர்', 'இந்திய அரசுப் பத்திரம்'], hint: 'அரசு ரூபாயில் எப்போதும் திருப்பிச் செலுத்த முடியும்!' },
+  },
+  'You buy a bond at ₹1,000 with a 7% coupon. What is the yearly coupon?': {
+    hi: { question: 'आप 7% कूपन वाला बॉन्ड ₹1,000 में खरीदते हैं। सालाना कूपन कितना है?', options: ['₹7', '₹70', '₹700', '₹1,070'], hint: '₹1,000 का 7%!' },
+    mr: { question: 'तुम्ही 7% कूपनचा बाँड ₹1,000 ला घेता. वार्षिक कूपन किती?', options: ['₹7', '₹70', '₹700', '₹1,070'], hint: '₹1,000 चे 7%!' },
+    ta: { question: '7% கூப்பன் கொண்ட பத்திரத்தை ₹1,000-க்கு வாங்குகிறீர்கள். ஆண்டுக் கூப்பன் எவ்வளவு?', options: ['₹7', '₹70', '₹700', '₹1,070'], hint: '₹1,000-இல் 7%!' },
+  },
+  'Why do investors add bonds to a portfolio?': {
+    hi: { question: 'निवेशक पोर्टफ़ोलियो में बॉन्ड क्यों जोड़ते हैं?', options: ['स्थिर आय और कम कुल जोखिम के लिए', 'पैसा जल्दी दोगुना करने के लिए', 'सारे टैक्स से बचने के लिए', 'क्योंकि बॉन्ड की कीमत कभी नहीं बदलती'], hint: 'स्थिरता सोचिए, रफ़्तार नहीं!' },
+    mr: { question: 'गुंतवणूकदार पोर्टफोलिओमध्ये बाँड का घेतात?', options: ['स्थिर उत्पन्न आणि कमी एकूण जोखमीसाठी', 'पैसे पटकन दुप्पट करण्यासाठी', 'सगळे कर टाळण्यासाठी', 'कारण बाँडची किंमत कधीच बदलत नाही'], hint: 'स्थैर्याचा विचार करा, वेगाचा नाही!' },
+    ta: { question: 'முதலீட்டாளர்கள் ஏன் தங்கள் போர்ட்ஃபோலியோவில் பத்திரங்களைச் சேர்க்கிறார்கள்?', options: ['நிலையான வருமானமும் குறைந்த மொத்த அபாயமும் பெற', 'பணத்தை விரைவாக இரட்டிப்பாக்க', 'எல்லா வரிகளையும் தவிர்க்க', 'பத்திர விலை ஒருபோதும் மாறாததால்'], hint: 'வேகம் அல்ல, நிலைத்தன்மையை நினையுங்கள்!' },
+  },
+  // Commodities
+  'What are commodities?': {
+    hi: { question: 'कमोडिटी क्या होती हैं?', options: ['कंपनियों के शेयर', 'डिजिटल मुद्राएँ', 'धातु जैसे कच्चे माल', 'बैंक जमा'], hint: 'भौतिक संसाधनों के बारे में सोचिए!' },
+    mr: { question: 'कमोडिटी म्हणजे काय?', options: ['कंपन्यांचे शेअर्स', 'डिजिटल चलने', 'धातूंसारखा कच्चा माल', 'बँक ठेवी'], hint: 'प्रत्यक्ष संसाधनांचा विचार करा!' },
+    ta: { question: 'பண்டங்கள் (கமாடிட்டி) என்றால் என்ன?', options: ['நிறுவனப் பங்குகள்', 'டிஜிட்டல் நாணயங்கள்', 'உலோகங்கள் போன்ற மூலப்பொருட்கள்', 'வங்கி வைப்புகள்'], hint: 'பௌதிக வளங்களை நினைத்துப் பாருங்கள்!' },
+  },
+  'What factors affect commodity prices?': {
+    hi: { question: 'कमोडिटी की कीमतों पर किन बातों का असर पड़ता है?', options: ['सिर्फ़ दिन का समय', 'निवेशकों की संख्या', 'सिर्फ़ सरकारी आदेश', 'माँग, मौसम, अर्थव्यवस्था'], hint: 'असली दुनिया के कई कारण!' },
+    mr: { question: 'कमोडिटीच्या किमतींवर कोणत्या गोष्टींचा परिणाम होतो?', options: ['फक्त दिवसाची वेळ', 'गुंतवणूकदारांची संख्या', 'फक्त सरकारी आदेश', 'मागणी, हवामान, अर्थव्यवस्था'], hint: 'प्रत्यक्ष जगातील अनेक कारणे!' },
+    ta: { question: 'பண்டங்களின் விலையை எந்தக் காரணிகள் பாதிக்கின்றன?', options: ['நாளின் நேரம் மட்டும்', 'முதலீட்டாளர்களின் எண்ணிக்கை', 'அரசு உத்தரவுகள் மட்டும்', 'தேவை, வானிலை, பொருளாதாரம்'], hint: 'நிஜ உலகின் பல காரணிகள்!' },
+  },
+  'Which is an example of an agricultural commodity?': {
+    hi: { question: 'कृषि कमोडिटी का उदाहरण कौन सा है?', options: ['गेहूँ और कपास', 'बिटकॉइन टोकन', 'सोने के गहने', 'रियल एस्टेट'], hint: 'खेतों में उगाई जाती है!' },
+    mr: { question: 'कृषी कमोडिटीचे उदाहरण कोणते?', options: ['गहू आणि कापूस', 'बिटकॉइन टोकन', 'सोन्याचे दागिने', 'स्थावर मालमत्ता'], hint: 'शेतात पिकते!' },
+    ta: { question: 'விவசாயப் பண்டத்துக்கு உதாரணம் எது?', options: ['கோதுமையும் பருத்தியும்', 'பிட்காயின் டோக்கன்', 'தங்க நகைகள்', 'ரியல் எஸ்டேட்'], hint: 'வயல்களில் விளைவது!' },
+  },
+  'Which is an example of an energy commodity?': {
+    hi: { question: 'ऊर्जा कमोडिटी का उदाहरण कौन सा है?', options: ['चाँदी धातु', 'कंपनियों के शेयर', 'कच्चा तेल और गैस', 'गेहूँ की फ़सल'], hint: 'गाड़ियों और घरों को ऊर्जा देता है!' },
+    mr: { question: 'ऊर्जा कमोडिटीचे उदाहरण कोणते?', options: ['चांदी धातू', 'कंपन्यांचे शेअर्स', 'कच्चे तेल आणि वायू', 'गव्हाचे पीक'], hint: 'वाहने आणि घरांना ऊर्जा देते!' },
+    ta: { question: 'எரிசக்திப் பண்டத்துக்கு உதாரணம் எது?', options: ['வெள்ளி உலோகம்', 'நிறுவனப் பங்குகள்', 'கச்சா எண்ணெயும் எரிவாயுவும்', 'கோதுமைப் பயிர்'], hint: 'வாகனங்களுக்கும் வீடுகளுக்கும் ஆற்றல் தருவது!' },
+  },
+  'How do investors typically trade commodities?': {
+    hi: { question: 'निवेशक आमतौर पर कमोडिटी में कारोबार कैसे करते हैं?', options: ['सिर्फ़ किराने की दुकानों पर', 'कारोबार नहीं हो सकता', 'उन्हें भौतिक रूप से रखकर', 'फ्यूचर्स कॉन्ट्रैक्ट के ज़रिए'], hint: 'एक्सचेंज पर मानक कॉन्ट्रैक्ट!' },
+    mr: { question: 'गुंतवणूकदार सहसा कमोडिटीमध्ये व्यवहार कसा करतात?', options: ['फक्त किराणा दुकानात', 'व्यवहार करता येत नाही', 'प्रत्यक्ष साठवून', 'फ्युचर्स करारांद्वारे'], hint: 'एक्सचेंजवरील प्रमाणित करार!' },
+    ta: { question: 'முதலீட்டாளர்கள் பொதுவாகப் பண்டங்களில் எப்படி வர்த்தகம் செய்கிறார்கள்?', options: ['மளிகைக் கடைகளில் மட்டும்', 'வர்த்தகம் செய்ய முடியாது', 'பௌதிகமாகச் சேமித்து', 'ஃப்யூச்சர்ஸ் ஒப்பந்தங்கள் மூலம்'], hint: 'சந்தைகளில் தரப்படுத்தப்பட்ட ஒப்பந்தங்கள்!' },
+  },
+  'What is a metal commodity example?': {
+    hi: { question: 'धातु कमोडिटी का उदाहरण क्या है?', options: ['सूती कपड़ा', 'डिजिटल बिटकॉइन', 'तांबा और एल्युमिनियम', 'कच्चा तेल'], hint: 'औद्योगिक धातुएँ!' },
+    mr: { question: 'धातू कमोडिटीचे उदाहरण कोणते?', options: ['सुती कापड', 'डिजिटल बिटकॉइन', 'तांबे आणि ॲल्युमिनियम', 'कच्चे तेल'], hint: 'औद्योगिक धातू!' },
+    ta: { question: 'உலோகப் பண்டத்துக்கு ஓர் உதாரணம் எது?', options: ['பருத்தித் துணி', 'டிஜிட்டல் பிட்காயின்', 'தாமிரமும் அலுமினியமும்', 'கச்சா எண்ணெய்'], hint: 'தொழில்துறை உலோகங்கள்!' },
+  },
+  'Why invest in commodities?': {
+    hi: { question: 'कमोडिटी में निवेश क्यों करें?', options: ['गारंटीड रोज़ की आय', 'विविधता और महंगाई से बचाव', 'कोई जोखिम नहीं', 'हमेशा टैक्स-फ्री रिटर्न'], hint: 'महंगाई के समय सुरक्षा!' },
+    mr: { question: 'कमोडिटीमध्ये गुंतवणूक का करावी?', options: ['हमखास रोजचे उत्पन्न', 'वैविध्य आणि महागाईपासून बचाव', 'कोणतीही जोखीम नाही', 'नेहमी करमुक्त परतावा'], hint: 'महागाईच्या काळात संरक्षण!' },
+    ta: { question: 'பண்டங்களில் ஏன் முதலீடு செய்ய வேண்டும்?', options: ['உத்தரவாதமான தினசரி வருமானம்', 'பரவலாக்கமும் பணவீக்கப் பாதுகாப்பும்', 'அபாயமே இல்லை', 'எப்போதும் வரியில்லா வருமானம்'], hint: 'பணவீக்கக் காலத்தில் பாதுகாப்பு!' },
+  },
+  'What can affect agricultural commodity prices?': {
+    hi: { question: 'कृषि कमोडिटी की कीमतों पर किसका असर पड़ सकता है?', options: ['सिर्फ़ सरकारी नीति', 'मौसम और फ़सल की पैदावार', 'सिर्फ़ शेयर बाज़ार', 'सिर्फ़ ब्याज दरें'], hint: 'प्रकृति की बड़ी भूमिका है!' },
+    mr: { question: 'कृषी कमोडिटीच्या किमतींवर कशाचा परिणाम होऊ शकतो?', options: ['फक्त सरकारी धोरण', 'हवामान आणि पिकांचे उत्पादन', 'फक्त शेअर बाजार', 'फक्त व्याजदर'], hint: 'निसर्गाची मोठी भूमिका असते!' },
+    ta: { question: 'விவசாயப் பண்டங்களின் விலையை எது பாதிக்கலாம்?', options: ['அரசுக் கொள்கை மட்டும்', 'வானிலையும் பயிர் விளைச்சலும்', 'பங்குச் சந்தை மட்டும்', 'வட்டி விகிதங்கள் மட்டும்'], hint: 'இயற்கைக்குப் பெரிய பங்கு உண்டு!' },
+  },
+  'Are commodity prices stable?': {
+    hi: { question: 'क्या कमोडिटी की कीमतें स्थिर रहती हैं?', options: ['हाँ, कभी नहीं बदलतीं', 'सरकार सारी कीमतें तय करती है', 'सिर्फ़ साल में एक बार बदलती हैं', 'नहीं, इनमें उतार-चढ़ाव हो सकता है'], hint: 'माँग और आपूर्ति बदलती रहती हैं!' },
+    mr: { question: 'कमोडिटीच्या किमती स्थिर असतात का?', options: ['हो, कधीच बदलत नाहीत', 'सरकार सगळ्या किमती ठरवते', 'फक्त वर्षातून एकदा बदलतात', 'नाही, त्यात चढ-उतार होऊ शकतात'], hint: 'मागणी आणि पुरवठा बदलत असतात!' },
+    ta: { question: 'பண்டங்களின் விலை நிலையானதா?', options: ['ஆம், ஒருபோதும் மாறாது', 'அரசு எல்லா விலைகளையும் நிர்ணயிக்கிறது', 'ஆண்டுக்கு ஒருமுறை மட்டும் மாறும்', 'இல்லை, ஏற்ற இறக்கம் இருக்கலாம்'], hint: 'தேவையும் விநியோகமும் மாறிக்கொண்டே இருக்கும்!' },
+  },
+  'What is crude oil used for?': {
+    hi: { question: 'कच्चे तेल का इस्तेमाल किसमें होता है?', options: ['सिर्फ़ सजावट में', 'ईंधन, प्लास्टिक और दूसरे उत्पाद', 'घर बनाने में', 'गहने बनाने में'], hint: 'आधुनिक अर्थव्यवस्था के लिए ज़रूरी!' },
+    mr: { question: 'कच्चे तेल कशासाठी वापरले जाते?', options: ['फक्त सजावटीसाठी', 'इंधन, प्लास्टिक आणि इतर उत्पादने', 'घरे बांधण्यासाठी', 'दागिने बनवण्यासाठी'], hint: 'आधुनिक अर्थव्यवस्थेसाठी आवश्यक!' },
+    ta: { question: 'கச்சா எண்ணெய் எதற்குப் பயன்படுகிறது?', options: ['அலங்காரத்துக்கு மட்டும்', 'எரிபொருள், பிளாஸ்டிக், பிற பொருட்கள்', 'வீடு கட்ட', 'நகை செய்ய'], hint: 'நவீனப் பொருளாதாரத்துக்கு இன்றியமையாதது!' },
+  },
+  // Index funds
+  'What is the main advantage of index funds?': {
+    hi: { question: 'इंडेक्स फंड का मुख्य फ़ायदा क्या है?', options: ['गारंटीड ऊँचा रिटर्न', 'रोज़ की तय आय', 'बाज़ार का कोई जोखिम नहीं', 'कई कंपनियों में विविधता'], hint: 'सारे अंडे एक टोकरी में मत रखिए!' },
+    mr: { question: 'इंडेक्स फंडचा मुख्य फायदा कोणता?', options: ['हमखास जास्त परतावा', 'रोजचे निश्चित उत्पन्न', 'बाजाराची जोखीम नाही', 'अनेक कंपन्यांमध्ये वैविध्य'], hint: 'सगळी अंडी एकाच टोपलीत ठेवू नका!' },
+    ta: { question: 'குறியீட்டு நிதிகளின் முக்கிய நன்மை என்ன?', options: ['உத்தரவாதமான அதிக வருமானம்', 'தினசரி நிலையான வருமானம்', 'சந்தை அபாயம் இல்லை', 'பல நிறுவனங்களில் பரவலாக்கம்'], hint: 'எல்லா முட்டைகளையும் ஒரே கூடையில் வைக்காதீர்கள்!' },
+  },
+  'What does an index fund track?': {
+    hi: { question: 'इंडेक्स फंड किसे ट्रैक करता है?', options: ['एक अकेली कंपनी', 'सिर्फ़ सोने की कीमत', 'निफ्टी जैसे बाज़ार सूचकांक', 'FD की ब्याज दरें'], hint: 'पूरे बाज़ार सूचकांक के पीछे चलता है!' },
+    mr: { question: 'इंडेक्स फंड कशाचा मागोवा घेतो?', options: ['एकच कंपनी', 'फक्त सोन्याची किंमत', 'निफ्टीसारखे बाजार निर्देशांक', 'FD चे व्याजदर'], hint: 'संपूर्ण बाजार निर्देशांकाचा मागोवा घेतो!' },
+    ta: { question: 'குறியீட்டு நிதி எதைப் பின்பற்றுகிறது?', options: ['ஒரே ஒரு நிறுவனம்', 'தங்க விலை மட்டும்', 'நிஃப்டி போன்ற சந்தைக் குறியீடுகள்', 'FD வட்டி விகிதங்கள்'], hint: 'முழுச் சந்தைக் குறியீட்டையும் பின்பற்றுகிறது!' },
+  },
+  'What is the Nifty 50?': {
+    hi: { question: 'निफ्टी 50 क्या है?', options: ['एक बचत खाता', 'शीर्ष 50 कंपनियों का सूचकांक', 'एक अकेला शेयर', 'एक सरकारी बॉन्ड'], hint: 'शीर्ष कंपनियाँ एक साथ ट्रैक होती हैं!' },
+    mr: { question: 'निफ्टी 50 म्हणजे काय?', options: ['एक बचत खाते', 'आघाडीच्या 50 कंपन्यांचा निर्देशांक', 'एकच शेअर', 'एक सरकारी बाँड'], hint: 'आघाडीच्या कंपन्यांचा एकत्र मागोवा!' },
+    ta: { question: 'நிஃப்டி 50 என்றால் என்ன?', options: ['ஒரு சேமிப்புக் கணக்கு', 'முன்னணி 50 நிறுவனங்களின் குறியீடு', 'ஒரே ஒரு பங்கு', 'ஓர் அரசுப் பத்திரம்'], hint: 'முன்னணி நிறுவனங்கள் ஒன்றாகப் பின்பற்றப்படுகின்றன!' },
+  },
+  'Are index funds actively or passively managed?': {
+    hi: { question: 'इंडेक्स फंड का प्रबंधन सक्रिय होता है या निष्क्रिय?', options: ['निष्क्रिय, सूचकांक के पीछे चलने के लिए', 'फंड मैनेजर द्वारा सक्रिय', 'बिल्कुल प्रबंधन नहीं', 'सिर्फ़ सरकार करती है'], hint: 'अपने आप सूचकांक के पीछे चलता है!' },
+    mr: { question: 'इंडेक्स फंडचे व्यवस्थापन सक्रिय असते की निष्क्रिय?', options: ['निष्क्रिय, निर्देशांकाच्या मागोव्यासाठी', 'फंड मॅनेजरकडून सक्रिय', 'अजिबात व्यवस्थापन नाही', 'फक्त सरकार करते'], hint: 'आपोआप निर्देशांकाचा मागोवा घेतो!' },
+    ta: { question: 'குறியீட்டு நிதிகள் செயல்பாட்டு முறையில் நிர்வகிக்கப்படுகின்றனவா, செயலற்ற முறையிலா?', options: ['செயலற்ற முறையில், குறியீட்டைப் பின்பற்ற', 'நிதி மேலாளர்களால் செயல்பாட்டு முறையில்', 'நிர்வாகமே இல்லை', 'அரசு மட்டுமே நிர்வகிக்கிறது'], hint: 'தானாகவே குறியீட்டைப் பின்பற்றுகிறது!' },
+  },
+  'What are the fees like for index funds?': {
+    hi: { question: 'इंडेक्स फंड की फीस कैसी होती है?', options: ['बहुत ज़्यादा फीस', 'फीस रोज़ बदलती है', 'सक्रिय फंड से कम', 'कोई फीस नहीं'], hint: 'निष्क्रिय प्रबंधन यानी कम लागत!' },
+    mr: { question: 'इंडेक्स फंडची फी कशी असते?', options: ['खूप जास्त फी', 'फी रोज बदलते', 'सक्रिय फंडांपेक्षा कमी', 'कोणतीही फी नाही'], hint: 'निष्क्रिय व्यवस्थापन म्हणजे कमी खर्च!' },
+    ta: { question: 'குறியீட்டு நிதிகளின் கட்டணம் எப்படி இருக்கும்?', options: ['மிக அதிகக் கட்டணம்', 'கட்டணம் தினமும் மாறும்', 'செயல்பாட்டு நிதிகளை விடக் குறைவு', 'கட்டணமே இல்லை'], hint: 'செயலற்ற நிர்வாகம் என்றால் குறைந்த செலவு!' },
+  },
+  'Can you lose money in index funds?': {
+    hi: { question: 'क्या इंडेक्स फंड में पैसा डूब सकता है?', options: ['नहीं, ये जोखिम-मुक्त हैं', 'सरकार सारे नुकसान की भरपाई करती है', 'सिर्फ़ सप्ताहांत में', 'हाँ, अगर बाज़ार गिरे'], hint: 'बाज़ार का जोखिम बना रहता है!' },
+    mr: { question: 'इंडेक्स फंडमध्ये पैसे बुडू शकतात का?', options: ['नाही, ते जोखीममुक्त आहेत', 'सरकार सगळे नुकसान भरून देते', 'फक्त आठवड्याच्या शेवटी', 'हो, बाजार घसरल्यास'], hint: 'बाजाराची जोखीम कायम असते!' },
+    ta: { question: 'குறியீட்டு நிதிகளில் பணத்தை இழக்க முடியுமா?', options: ['இல்லை, அவை அபாயமற்றவை', 'அரசு எல்லா இழப்பையும் ஈடுகட்டும்', 'வார இறுதிகளில் மட்டும்', 'ஆம், சந்தை விழுந்தால்'], hint: 'சந்தை அபாயம் இன்னும் உண்டு!' },
+  },
+  'What is an ETF?': {
+    hi: { question: 'ETF क्या है?', options: ['एक्सचेंज ट्रेडेड फंड', 'एक बचत खाता', 'एक सरकारी योजना', 'एक क्रिप्टोकरेंसी'], hint: 'शेयरों की तरह एक्सचेंज पर खरीदा-बेचा जाता है!' },
+    mr: { question: 'ETF म्हणजे काय?', options: ['एक्सचेंज ट्रेडेड फंड', 'एक बचत खाते', 'एक सरकारी योजना', 'एक क्रिप्टोकरन्सी'], hint: 'शेअर्सप्रमाणे एक्सचेंजवर खरेदी-विक्री होते!' },
+    ta: { question: 'ETF என்றால் என்ன?', options: ['எக்ஸ்சேஞ்ச் டிரேடட் ஃபண்ட்', 'ஒரு சேமிப்புக் கணக்கு', 'ஓர் அரசுத் திட்டம்', 'ஒரு கிரிப்டோகரன்சி'], hint: 'பங்குகள் போல் சந்தையில் வர்த்தகமாகும்!' },
+  },
+  'Who should invest in index funds?': {
+    hi: { question: 'इंडेक्स फंड में किसे निवेश करना चाहिए?', options: ['सिर्फ़ विशेषज्ञ ट्रेडर', 'सिर्फ़ अमीर लोग', 'सिर्फ़ वरिष्ठ नागरिक', 'नए और लंबी अवधि के निवेशक'], hint: 'निष्क्रिय निवेशकों के लिए बढ़िया!' },
+    mr: { question: 'इंडेक्स फंडमध्ये कोणी गुंतवणूक करावी?', options: ['फक्त तज्ज्ञ ट्रेडर', 'फक्त श्रीमंत लोक', 'फक्त ज्येष्ठ नागरिक', 'नवखे आणि दीर्घकालीन गुंतवणूकदार'], hint: 'निष्क्रिय गुंतवणूकदारांसाठी उत्तम!' },
+    ta: { question: 'குறியீட்டு நிதிகளில் யார் முதலீடு செய்ய வேண்டும்?', options: ['நிபுணத்துவ வர்த்தகர்கள் மட்டும்', 'பணக்காரர்கள் மட்டும்', 'மூத்த குடிமக்கள் மட்டும்', 'தொடக்க மற்றும் நீண்டகால முதலீட்டாளர்கள்'], hint: 'செயலற்ற முதலீட்டாளர்களுக்குச் சிறந்தது!' },
+  },
+  'How many companies do you own in a Nifty 50 index fund?': {
+    hi: { question: 'निफ्टी 50 इंडेक्स फंड में आप कितनी कंपनियों के मालिक होते हैं?', options: ['सिर्फ़ 1 कंपनी', 'सभी 50 कंपनियाँ', '5 कंपनियाँ', '100 कंपनियाँ'], hint: 'सभी 50 का एक हिस्सा आपका!' },
+    mr: { question: 'निफ्टी 50 इंडेक्स फंडमध्ये तुम्ही किती कंपन्यांचे मालक असता?', options: ['फक्त 1 कंपनी', 'सर्व 50 कंपन्या', '5 कंपन्या', '100 कंपन्या'], hint: 'सर्व 50 चा एक भाग तुमचा!' },
+    ta: { question: 'நிஃப்டி 50 குறியீட்டு நிதியில் எத்தனை நிறுவனங்களுக்கு நீங்கள் உரிமையாளர்?', options: ['1 நிறுவனம் மட்டும்', 'அனைத்து 50 நிறுவனங்களும்', '5 நிறுவனங்கள்', '100 நிறுவனங்கள்'], hint: 'அனைத்து 50-இலும் உங்களுக்கு ஒரு பங்கு!' },
+  },
+  'Can index funds outperform the market?': {
+    hi: { question: 'क्या इंडेक्स फंड बाज़ार से बेहतर प्रदर्शन कर सकते हैं?', options: ['हाँ, हमेशा बाज़ार को पछाड़ते हैं', 'नहीं, बाज़ार के बराबर रिटर्न का लक्ष्य', 'सिर्फ़ तेज़ी के बाज़ार में', 'मौसम पर निर्भर'], hint: 'लक्ष्य बराबरी है, आगे निकलना नहीं!' },
+    mr: { question: 'इंडेक्स फंड बाजारापेक्षा सरस कामगिरी करू शकतात का?', options: ['हो, नेहमी बाजाराला मागे टाकतात', 'नाही, बाजाराइतक्या परताव्याचे ध्येय', 'फक्त तेजीच्या बाजारात', 'हवामानावर अवलंबून'], hint: 'ध्येय बरोबरीचे आहे, पुढे जाण्याचे नाही!' },
+    ta: { question: 'குறியீட்டு நிதிகள் சந்தையை விடச் சிறப்பாகச் செயல்பட முடியுமா?', options: ['ஆம், எப்போதும் சந்தையை முந்தும்', 'இல்லை, சந்தைக்குச் சமமான வருமானமே இலக்கு', 'ஏற்றச் சந்தையில் மட்டும்', 'வானிலையைப் பொறுத்தது'], hint: 'இலக்கு சமன் செய்வது, முந்துவது அல்ல!' },
+  },
+  // Mutual funds
+  'Who manages mutual funds?': {
+    hi: { question: 'म्यूचुअल फंड का प्रबंधन कौन करता है?', options: ['निवेशक खुद', 'बैंक मैनेजर', 'सरकारी अधिकारी', 'पेशेवर फंड मैनेजर'], hint: 'विशेषज्ञ आपके निवेश संभालते हैं!' },
+    mr: { question: 'म्युच्युअल फंडचे व्यवस्थापन कोण करते?', options: ['गुंतवणूकदार स्वतः', 'बँक व्यवस्थापक', 'सरकारी अधिकारी', 'व्यावसायिक फंड मॅनेजर'], hint: 'तज्ज्ञ तुमची गुंतवणूक सांभाळतात!' },
+    ta: { question: 'பரஸ்பர நிதிகளை யார் நிர்வகிக்கிறார்கள்?', options: ['முதலீட்டாளர்களே', 'வங்கி மேலாளர்கள்', 'அரசு அதிகாரிகள்', 'தொழில்முறை நிதி மேலாளர்கள்'], hint: 'நிபுணர்கள் உங்கள் முதலீடுகளைக் கையாள்கிறார்கள்!' },
+  },
+  'What is a mutual fund?': {
+    hi: { question: 'म्यूचुअल फंड क्या है?', options: ['पेशेवरों द्वारा संभाला गया साझा पैसा', 'एक अकेला शेयर', 'एक बचत खाता', 'एक क्रिप्टोकरेंसी'], hint: 'कई निवेशक मिलकर पैसा लगाते हैं!' },
+    mr: { question: 'म्युच्युअल फंड म्हणजे काय?', options: ['व्यावसायिकांनी सांभाळलेला एकत्रित पैसा', 'एकच शेअर', 'एक बचत खाते', 'एक क्रिप्टोकरन्सी'], hint: 'अनेक गुंतवणूकदार एकत्र पैसे घालतात!' },
+    ta: { question: 'பரஸ்பர நிதி என்றால் என்ன?', options: ['நிபுணர்கள் நிர்வகிக்கும் திரட்டப்பட்ட பணம்', 'ஒரே ஒரு பங்கு', 'ஒரு சேமிப்புக் கணக்கு', 'ஒரு கிரிப்டோகரன்சி'], hint: 'பல முதலீட்டாளர்கள் சேர்ந்து முதலீடு செய்கிறார்கள்!' },
+  },
+  'What do mutual funds invest in?': {
+    hi: { question: 'म्यूचुअल फंड किसमें निवेश करते हैं?', options: ['सिर्फ़ सोने में', 'सिर्फ़ रियल एस्टेट में', 'सिर्फ़ सरकारी योजनाओं में', 'शेयर, बॉन्ड और दूसरी संपत्तियाँ'], hint: 'संपत्तियों का विविध पोर्टफ़ोलियो!' },
+    mr: { question: 'म्युच्युअल फंड कशात गुंतवणूक करतात?', options: ['फक्त सोन्यात', 'फक्त स्थावर मालमत्तेत', 'फक्त सरकारी योजनांमध्ये', 'शेअर्स, बाँड आणि इतर मालमत्ता'], hint: 'मालमत्तांचा वैविध्यपूर्ण पोर्टफोलिओ!' },
+    ta: { question: 'பரஸ்பர நிதிகள் எதில் முதலீடு செய்கின்றன?', options: ['தங்கத்தில் மட்டும்', 'ரியல் எஸ்டேட்டில் மட்டும்', 'அரசுத் திட்டங்களில் மட்டும்', 'பங்குகள், பத்திரங்கள், பிற சொத்துகள்'], hint: 'பல்வகைச் சொத்துகளின் போர்ட்ஃபோலியோ!' },
+  },
+  'What is NAV in mutual funds?': {
+    hi: { question: 'म्यूचुअल फंड में NAV क्या है?', options: ['मैनेजर का नाम', 'निवेशकों की संख्या', 'नेट एसेट वैल्यू (शुद्ध संपत्ति मूल्य)', 'नए खाते का मूल्य'], hint: 'फंड की एक यूनिट की कीमत!' },
+    mr: { question: 'म्युच्युअल फंडमध्ये NAV म्हणजे काय?', options: ['व्यवस्थापकाचे नाव', 'गुंतवणूकदारांची संख्या', 'नेट ॲसेट व्हॅल्यू (निव्वळ मालमत्ता मूल्य)', 'नव्या खात्याचे मूल्य'], hint: 'फंडच्या एका युनिटची किंमत!' },
+    ta: { question: 'பரஸ்பர நிதியில் NAV என்றால் என்ன?', options: ['மேலாளரின் பெயர்', 'முதலீட்டாளர்களின் எண்ணிக்கை', 'நிகரச் சொத்து மதிப்பு (நெட் அசெட் வேல்யூ)', 'புதிய கணக்கு மதிப்பு'], hint: 'நிதியின் ஒரு யூனிட்டின் விலை!' },
+  },
+  'What is an equity mutual fund?': {
+    hi: { question: 'इक्विटी म्यूचुअल फंड क्या है?', options: ['मुख्य रूप से शेयरों में निवेश', 'सिर्फ़ सोने में निवेश', 'सिर्फ़ FD में निवेश', 'रियल एस्टेट में निवेश'], hint: 'शेयर बाज़ार पर केंद्रित फंड!' },
+    mr: { question: 'इक्विटी म्युच्युअल फंड म्हणजे काय?', options: ['मुख्यतः शेअर्समध्ये गुंतवणूक', 'फक्त सोन्यात गुंतवणूक', 'फक्त FD मध्ये गुंतवणूक', 'स्थावर मालमत्तेत गुंतवणूक'], hint: 'शेअर बाजारावर भर असलेला फंड!' },
+    ta: { question: 'ஈக்விட்டி பரஸ்பர நிதி என்றால் என்ன?', options: ['முக்கியமாகப் பங்குகளில் முதலீடு', 'தங்கத்தில் மட்டும் முதலீடு', 'FD-களில் மட்டும் முதலீடு', 'ரியல் எஸ்டேட்டில் முதலீடு'], hint: 'பங்குச் சந்தையை மையமாகக் கொண்ட நிதி!' },
+  },
+  'What is a debt mutual fund?': {
+    hi: { question: 'डेट म्यूचुअल फंड क्या है?', options: ['शेयरों में निवेश', 'दोस्तों को उधार देना', 'क्रिप्टोकरेंसी में निवेश', 'बॉन्ड में निवेश'], hint: 'कम जोखिम वाली तय आय!' },
+    mr: { question: 'डेट म्युच्युअल फंड म्हणजे काय?', options: ['शेअर्समध्ये गुंतवणूक', 'मित्रांना उधार देणे', 'क्रिप्टोकरन्सीत गुंतवणूक', 'बाँडमध्ये गुंतवणूक'], hint: 'कमी जोखमीचे निश्चित उत्पन्न!' },
+    ta: { question: 'கடன் பரஸ்பர நிதி என்றால் என்ன?', options: ['பங்குகளில் முதலீடு', 'நண்பர்களுக்குக் கடன் கொடுத்தல்', 'கிரிப்டோகரன்சியில் முதலீடு', 'பத்திரங்களில் முதலீடு'], hint: 'குறைந்த அபாய நிலையான வருமானம்!' },
+  },
+  'Can you start a mutual fund SIP with small amounts?': {
+    hi: { question: 'क्या म्यूचुअल फंड SIP छोटी रकम से शुरू की जा सकती है?', options: ['नहीं, कम से कम ₹1 लाख', 'कम से कम ₹10 लाख', 'सिर्फ़ एकमुश्त निवेश', 'हाँ, ₹500-₹1000 से शुरू'], hint: 'छोटे निवेशकों के लिए भी आसान!' },
+    mr: { question: 'म्युच्युअल फंड SIP लहान रकमेने सुरू करता येते का?', options: ['नाही, किमान ₹1 लाख', 'किमान ₹10 लाख', 'फक्त एकरकमी गुंतवणूक', 'हो, ₹500-₹1000 पासून'], hint: 'लहान गुंतवणूकदारांसाठीही सोपे!' },
+    ta: { question: 'சிறிய தொகையுடன் பரஸ்பர நிதி SIP தொடங்கலாமா?', options: ['இல்லை, குறைந்தது ₹1 லட்சம்', 'குறைந்தது ₹10 லட்சம்', 'மொத்தத் தொகை மட்டும்', 'ஆம், ₹500-₹1000 முதல்'], hint: 'சிறு முதலீட்டாளர்களுக்கும் எளிது!' },
+  },
+  'What is SIP in mutual funds?': {
+    hi: { question: 'म्यूचुअल फंड में SIP क्या है?', options: ['सेविंग्स इंटरेस्ट प्लान', 'स्टॉक इन्वेस्टमेंट पोर्टफ़ोलियो', 'सिस्टमैटिक इन्वेस्टमेंट प्लान (व्यवस्थित निवेश योजना)', 'स्पेशल इंश्योरेंस पॉलिसी'], hint: 'हर महीने नियमित निवेश!' },
+    mr: { question: 'म्युच्युअल फंडमध्ये SIP म्हणजे काय?', options: ['सेव्हिंग्ज इंटरेस्ट प्लॅन', 'स्टॉक इन्व्हेस्टमेंट पोर्टफोलिओ', 'सिस्टिमॅटिक इन्व्हेस्टमेंट प्लॅन (पद्धतशीर गुंतवणूक योजना)', 'स्पेशल इन्शुरन्स पॉलिसी'], hint: 'दरमहा नियमित गुंतवणूक!' },
+    ta: { question: 'பரஸ்பர நிதியில் SIP என்றால் என்ன?', options: ['சேவிங்ஸ் இன்ட்ரஸ்ட் பிளான்', 'ஸ்டாக் இன்வெஸ்ட்மென்ட் போர்ட்ஃபோலியோ', 'சிஸ்டமேட்டிக் இன்வெஸ்ட்மென்ட் பிளான் (முறையான முதலீட்டுத் திட்டம்)', 'ஸ்பெஷல் இன்சூரன்ஸ் பாலிசி'], hint: 'மாதந்தோறும் வழக்கமான முதலீடு!' },
+  },
+  'Are mutual fund returns guaranteed?': {
+    hi: { question: 'क्या म्यूचुअल फंड का रिटर्न गारंटीड होता है?', options: ['हाँ, हमेशा गारंटीड', 'सिर्फ़ डेट फंड गारंटीड', 'सरकार सबकी गारंटी देती है', 'नहीं, बाज़ार से जुड़ा'], hint: 'बाज़ार से जुड़ा, गारंटीड नहीं!' },
+    mr: { question: 'म्युच्युअल फंडचा परतावा हमखास असतो का?', options: ['हो, नेहमी हमखास', 'फक्त डेट फंड हमखास', 'सरकार सर्वांची हमी देते', 'नाही, बाजाराशी निगडित'], hint: 'बाजाराशी निगडित, हमखास नाही!' },
+    ta: { question: 'பரஸ்பர நிதி வருமானம் உத்தரவாதமானதா?', options: ['ஆம், எப்போதும் உத்தரவாதம்', 'கடன் நிதிகள் மட்டும் உத்தரவாதம்', 'அரசு அனைத்துக்கும் உத்தரவாதம் தருகிறது', 'இல்லை, சந்தையுடன் இணைந்தது'], hint: 'சந்தையுடன் இணைந்தது, உத்தரவாதம் இல்லை!' },
+  },
+  'What is an expense ratio?': {
+    hi: { question: 'एक्सपेंस रेशियो क्या है?', options: ['आपकी निवेश राशि', 'आपके मुनाफ़े का प्रतिशत', 'सरकारी टैक्स दर', 'फंड की सालाना फीस'], hint: 'फंड चलाने की लागत!' },
+    mr: { question: 'एक्सपेन्स रेशो म्हणजे काय?', options: ['तुमची गुंतवणूक रक्कम', 'तुमच्या नफ्याची टक्केवारी', 'सरकारी कर दर', 'फंडची वार्षिक फी'], hint: 'फंड चालवण्याचा खर्च!' },
+    ta: { question: 'செலவு விகிதம் (எக்ஸ்பென்ஸ் ரேஷியோ) என்றால் என்ன?', options: ['உங்கள் முதலீட்டுத் தொகை', 'உங்கள் லாப சதவீதம்', 'அரசு வரி விகிதம்', 'நிதியின் ஆண்டுக் கட்டணம்'], hint: 'நிதியை நிர்வகிக்கும் செலவு!' },
+  },
+  // Real estate investment trusts
+  'What does a REIT invest in?': {
+    hi: { question: 'REIT किसमें निवेश करता है?', options: ['सोना और चाँदी', 'शेयर बाज़ार', 'व्यावसायिक रियल एस्टेट', 'क्रिप्टोकरेंसी'], hint: 'इमारतों और संपत्ति के बारे में सोचिए!' },
+    mr: { question: 'REIT कशात गुंतवणूक करतो?', options: ['सोने आणि चांदी', 'शेअर बाजार', 'व्यावसायिक स्थावर मालमत्ता', 'क्रिप्टोकरन्सी'], hint: 'इमारती आणि मालमत्तेचा विचार करा!' },
+    ta: { question: 'REIT எதில் முதலீடு செய்கிறது?', options: ['தங்கமும் வெள்ளியும்', 'பங்குச் சந்தை', 'வணிக ரியல் எஸ்டேட்', 'கிரிப்டோகரன்சி'], hint: 'கட்டடங்களையும் சொத்துகளையும் நினையுங்கள்!' },
+  },
+  'What is a REIT?': {
+    hi: { question: 'REIT क्या है?', options: ['एक तरह का शेयर', 'रिटायरमेंट इनकम टैक्स', 'एक म्यूचुअल फंड', 'रियल एस्टेट इन्वेस्टमेंट ट्रस्ट'], hint: 'मिलकर रियल एस्टेट में निवेश!' },
+    mr: { question: 'REIT म्हणजे काय?', options: ['एक प्रकारचा शेअर', 'रिटायरमेंट इन्कम टॅक्स', 'एक म्युच्युअल फंड', 'रिअल इस्टेट इन्व्हेस्टमेंट ट्रस्ट'], hint: 'एकत्रितपणे स्थावर मालमत्तेत गुंतवणूक!' },
+    ta: { question: 'REIT என்றால் என்ன?', options: ['ஒரு வகைப் பங்கு', 'ரிட்டயர்மென்ட் இன்கம் டேக்ஸ்', 'ஒரு பரஸ்பர நிதி', 'ரியல் எஸ்டேட் இன்வெஸ்ட்மென்ட் டிரஸ்ட்'], hint: 'கூட்டாக ரியல் எஸ்டேட்டில் முதலீடு!' },
+  },
+  'Can you invest in real estate without buying property?': {
+    hi: { question: 'क्या संपत्ति खरीदे बिना रियल एस्टेट में निवेश किया जा सकता है?', options: ['नहीं, संपत्ति खरीदनी पड़ेगी', 'सिर्फ़ सोने के ज़रिए', 'हाँ, REIT के ज़रिए', 'सिर्फ़ अमीरों के लिए'], hint: 'REIT रियल एस्टेट को सुलभ बनाते हैं!' },
+    mr: { question: 'मालमत्ता विकत न घेता स्थावर मालमत्तेत गुंतवणूक करता येते का?', options: ['नाही, मालमत्ता घ्यावीच लागते', 'फक्त सोन्याद्वारे', 'हो, REIT द्वारे', 'फक्त श्रीमंतांसाठी'], hint: 'REIT मुळे स्थावर मालमत्ता सहज उपलब्ध होते!' },
+    ta: { question: 'சொத்து வாங்காமல் ரியல் எஸ்டேட்டில் முதலீடு செய்ய முடியுமா?', options: ['இல்லை, சொத்து வாங்க வேண்டும்', 'தங்கம் மூலம் மட்டும்', 'ஆம், REIT மூலம்', 'பணக்காரர்களுக்கு மட்டும்'], hint: 'REIT-கள் ரியல் எஸ்டேட்டை எளிதாக்குகின்றன!' },
+  },
+  'What type of properties do REITs typically own?': {
+    hi: { question: 'REIT आमतौर पर किस तरह की संपत्तियों के मालिक होते हैं?', options: ['सिर्फ़ रिहायशी घर', 'सिर्फ़ खेती की ज़मीन', 'सिर्फ़ पार्किंग', 'व्यावसायिक संपत्तियाँ'], hint: 'कारोबारी और व्यावसायिक जगहें!' },
+    mr: { question: 'REIT सहसा कोणत्या प्रकारच्या मालमत्तांचे मालक असतात?', options: ['फक्त निवासी घरे', 'फक्त शेतजमीन', 'फक्त पार्किंग', 'व्यावसायिक मालमत्ता'], hint: 'व्यवसाय आणि व्यापारी जागा!' },
+    ta: { question: 'REIT-கள் பொதுவாக எந்த வகைச் சொத்துகளை வைத்திருக்கின்றன?', options: ['குடியிருப்பு வீடுகள் மட்டும்', 'விவசாய நிலம் மட்டும்', 'வாகன நிறுத்தங்கள் மட்டும்', 'வணிகச் சொத்துகள்'], hint: 'தொழில் மற்றும் வணிக இடங்கள்!' },
+  },
+  'How do REIT investors make money?': {
+    hi: { question: 'REIT निवेशक पैसा कैसे कमाते हैं?', options: ['सिर्फ़ बेचकर', 'सरकारी अनुदान से', 'किराये की आय और मूल्य वृद्धि से', 'सिर्फ़ तय ब्याज से'], hint: 'किराया और मूल्य में बढ़त!' },
+    mr: { question: 'REIT गुंतवणूकदार पैसे कसे कमावतात?', options: ['फक्त विक्रीतून', 'सरकारी अनुदानातून', 'भाड्याचे उत्पन्न आणि मूल्यवाढ', 'फक्त निश्चित व्याजातून'], hint: 'भाडे आणि मूल्यवाढ!' },
+    ta: { question: 'REIT முதலீட்டாளர்கள் எப்படிப் பணம் சம்பாதிக்கிறார்கள்?', options: ['விற்பனை மூலம் மட்டும்', 'அரசு மானியம் மூலம்', 'வாடகை வருமானமும் மதிப்பு உயர்வும்', 'நிலையான வட்டி மட்டும்'], hint: 'வாடகையும் மதிப்பு வளர்ச்சியும்!' },
+  },
+  'Are REITs traded on stock exchanges?': {
+    hi: { question: 'क्या REIT स्टॉक एक्सचेंज पर खरीदे-बेचे जाते हैं?', options: ['नहीं, सिर्फ़ निजी तौर पर', 'सिर्फ़ सप्ताहांत में', 'हाँ, सार्वजनिक रूप से', 'सिर्फ़ सरकार को'], hint: 'शेयरों की तरह खरीद-बेच सकते हैं!' },
+    mr: { question: 'REIT ची शेअर बाजारात खरेदी-विक्री होते का?', options: ['नाही, फक्त खासगीरीत्या', 'फक्त आठवड्याच्या शेवटी', 'हो, सार्वजनिकरीत्या', 'फक्त सरकारला'], hint: 'शेअर्सप्रमाणे खरेदी-विक्री करता येते!' },
+    ta: { question: 'REIT-கள் பங்குச் சந்தைகளில் வர்த்தகமாகின்றனவா?', options: ['இல்லை, தனிப்பட்ட முறையில் மட்டும்', 'வார இறுதிகளில் மட்டும்', 'ஆம், பொதுவில் வர்த்தகமாகும்', 'அரசுக்கு மட்டும்'], hint: 'பங்குகள் போல் வாங்கி விற்கலாம்!' },
+  },
+  'What is the minimum investment for REITs?': {
+    hi: { question: 'REIT में न्यूनतम निवेश कितना है?', options: ['पूरी इमारत खरीदनी होगी', 'छोटी रकम से शुरू कर सकते हैं', 'कम से कम ₹1 करोड़', 'सिर्फ़ कंपनियों के लिए'], hint: 'आम निवेशकों की पहुँच में!' },
+    mr: { question: 'REIT मध्ये किमान गुंतवणूक किती?', options: ['संपूर्ण इमारत घ्यावी लागते', 'लहान रकमेने सुरुवात करता येते', 'किमान ₹1 कोटी', 'फक्त कंपन्यांसाठी'], hint: 'सामान्य गुंतवणूकदारांना परवडणारे!' },
+    ta: { question: 'REIT-இல் குறைந்தபட்ச முதலீடு என்ன?', options: ['முழுக் கட்டடத்தையும் வாங்க வேண்டும்', 'சிறிய தொகையில் தொடங்கலாம்', 'குறைந்தது ₹1 கோடி', 'நிறுவனங்களுக்கு மட்டும்'], hint: 'சிறு முதலீட்டாளர்களுக்கும் கட்டுப்படியாகும்!' },
+  },
+  'Do REITs provide regular income?': {
+    hi: { question: 'क्या REIT नियमित आय देते हैं?', options: ['कोई आय नहीं, सिर्फ़ मुनाफ़ा', 'हाँ, किराये की आय बाँटते हैं', 'सिर्फ़ सालाना आय', 'बिल्कुल आय नहीं'], hint: 'किराये की आय निवेशकों तक पहुँचती है!' },
+    mr: { question: 'REIT नियमित उत्पन्न देतात का?', options: ['उत्पन्न नाही, फक्त नफा', 'हो, भाड्याचे उत्पन्न वाटतात', 'फक्त वार्षिक उत्पन्न', 'अजिबात उत्पन्न नाही'], hint: 'भाड्याचे उत्पन्न गुंतवणूकदारांना मिळते!' },
+    ta: { question: 'REIT-கள் வழக்கமான வருமானம் தருகின்றனவா?', options: ['வருமானம் இல்லை, லாபம் மட்டும்', 'ஆம், வாடகை வருமானத்தைப் பகிர்கின்றன', 'ஆண்டு வருமானம் மட்டும்', 'வருமானமே இல்லை'], hint: 'வாடகை வருமானம் முதலீட்டாளர்களுக்குச் செல்கிறது!' },
+  },
+  'What percentage of income must REITs distribute?': {
+    hi: { question: 'REIT को अपनी आय का कितना प्रतिशत बाँटना ज़रूरी है?', options: ['कोई शर्त नहीं', 'आमतौर पर 90% या ज़्यादा', 'सिर्फ़ 10%', 'ज़्यादा से ज़्यादा 50%'], hint: 'ज़्यादातर आय निवेशकों को जाती है!' },
+    mr: { question: 'REIT ला उत्पन्नाच्या किती टक्के वाटप करावे लागते?', options: ['कोणतीही अट नाही', 'सहसा 90% किंवा अधिक', 'फक्त 10%', 'जास्तीत जास्त 50%'], hint: 'बहुतेक उत्पन्न गुंतवणूकदारांना मिळते!' },
+    ta: { question: 'REIT-கள் வருமானத்தில் எத்தனை சதவீதம் பகிர்ந்தளிக்க வேண்டும்?', options: ['எந்த நிபந்தனையும் இல்லை', 'பொதுவாக 90% அல்லது அதற்கு மேல்', '10% மட்டும்', 'அதிகபட்சம் 50%'], hint: 'பெரும்பாலான வருமானம் முதலீட்டாளர்களுக்குச் செல்கிறது!' },
+  },
+  'Are REITs more liquid than physical property?': {
+    hi: { question: 'क्या REIT भौतिक संपत्ति से ज़्यादा आसानी से बिकते हैं?', options: ['हाँ, खरीद-बेच आसान है', 'नहीं, बराबर', 'संपत्ति से भी कम', 'बेचे नहीं जा सकते'], hint: 'एक्सचेंज पर आसानी से बिकते हैं!' },
+    mr: { question: 'REIT प्रत्यक्ष मालमत्तेपेक्षा सहज विकले जातात का?', options: ['हो, खरेदी-विक्री सोपी', 'नाही, सारखेच', 'मालमत्तेपेक्षाही कमी', 'विकता येत नाहीत'], hint: 'एक्सचेंजवर सहज विकले जातात!' },
+    ta: { question: 'பௌதிகச் சொத்தை விட REIT-களை எளிதாக விற்க முடியுமா?', options: ['ஆம், வர்த்தகம் எளிது', 'இல்லை, சமம்தான்', 'சொத்தை விடக் கடினம்', 'விற்கவே முடியாது'], hint: 'சந்தையில் எளிதாக வர்த்தகமாகும்!' },
+  },
+};
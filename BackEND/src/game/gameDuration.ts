@@ -0,0 +1,19 @@
+import { AdminSettings } from '../types';
+
+// Game length in years, set by the host/admin through AdminSettings.gameDurationYears
+export const DEFAULT_GAME_DURATION_YEARS = 20;
+export const MIN_GAME_DURATION_YEARS = 5;
+export const MAX_GAME_DURATION_YEARS = 20;
+
+export function isValidGameDuration(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) &&
+    value >= MIN_GAME_DURATION_YEARS && value <= MAX_GAME_DURATION_YEARS;
+}
+
+/**
+ * Number of game years for a room; settings saved before the option existed run the full 20 years
+ */
+export function getGameDurationYears(settings?: Pick<AdminSettings, 'gameDurationYears'> | null): number {
+  const years = settings?.gameDurationYears;
+  return isValidGameDuration(years) ? years : DEFAULT_GAME_DURATION_YEARS;
+}
@@ -1,10 +1,24 @@
 import { Server, Socket } from 'socket.io';
 import { RoomManager } from '../rooms/roomManager';
-import { ServerToClientEvents, ClientToServerEvents, PortfolioBreakdown } from '../types';
+import {
+  ServerToClientEvents,
+  ClientToServerEvents,
+  PortfolioBreakdown,
+  PlayerLedger,
+  LedgerResponse,
+  LifeEvent,
+  QuizAnswerResponse,
+  QuizResult,
+  Room,
+  RoomSnapshot,
+  StandingOrderFill,
+} from '../types';
 import {
   getPricesForDate,
   getGameSymbols,
   preloadPricesForGame,
+  preloadCorporateActions,
+  getCachedCorporateActions,
   PriceSnapshot,
 } from '../services/marketDataService';
 import {
@@ -14,17 +28,53 @@ import {
   getSessionKeyForExchange,
   getAssetIndexMapping,
   hasRoomKeys,
+  exportRoomKeys,
+  restoreRoomKeys,
 } from '../services/roomKeyManager';
 import { isPostgresPoolInitialized } from '../database/postgresDb';
+import {
+  LedgerResult,
+  applyMonthlyLedgerUpdate,
+  applyResolvedLifeEventToLedger,
+  applyCorporateActionsToLedger,
+  applyQuizBonusToLedger,
+  valueLedger,
+} from './playerLedger';
+import { getGameDurationYears } from './gameDuration';
+import { getLoanSettings } from './loans';
+import { getTaxSettings, toMonthIndex } from './taxes';
+import { getNewsForMonth, getNewsInRange } from './marketNews';
+import { getGameEnd, getGameStartMonth, isPastGameEnd } from './scenarios';
+import { LIFE_EVENT_CHOICE_MONTHS, resolveLifeEvent } from './lifeEvents';
+import { getQuizBonusCash, scoreQuizAnswers } from './quizScoring';
+import { settleStandingOrders } from './orderBook';
+import { resolveTradeSymbol } from './tradableAssets';
+import { findQuizQuestion } from './quizBank';
+import { getQuizBank } from '../database/quizBank';
+import { deleteRoomSnapshot, loadRoomSnapshots, writeRoomSnapshots } from '../database/roomSnapshots';
+import { attachQuizAttemptsToLog, logQuizAttempt } from '../database/quizAttempts';
+import { getPlayerLogs, setSuspiciousSubmissions } from '../database/playerLogs';
 
 export class GameSyncManager {
   // Throttle leaderboard updates to reduce CPU usage (update every 2 seconds max)
   private leaderboardThrottleMap: Map<string, NodeJS.Timeout> = new Map();
   private readonly LEADERBOARD_UPDATE_INTERVAL = 2000; // 2 seconds
 
+  // Bounds for host speed changes
+  private readonly MIN_MONTH_DURATION_MS = 500;
+  private readonly MAX_MONTH_DURATION_MS = 60000;
+
   // Store current prices per room for networth validation
   private roomPrices: Map<string, PriceSnapshot> = new Map();
 
+  // Rooms whose snapshot is out of date; written together so month ticks don't export the database each time
+  private dirtyRooms: Set<string> = new Set();
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private readonly SNAPSHOT_WRITE_DELAY_MS = 5000;
+
+  // Rooms part-way through a jump; the month timer and single steps wait until it finishes
+  private jumpingRooms: Set<string> = new Set();
+
   constructor(
     private io: Server<ClientToServerEvents, ServerToClientEvents>,
     private roomManager: RoomManager
@@ -37,7 +87,8 @@ export class GameSyncManager {
   async initializeMarketData(
     roomId: string,
     selectedAssets: any,
-    startYear: number
+    startYear: number,
+    totalYears: number
   ): Promise<boolean> {
     if (!isPostgresPoolInitialized()) {
       return false;
@@ -46,8 +97,9 @@ export class GameSyncManager {
     try {
       const symbols = getGameSymbols(selectedAssets);
 
-      // Preload prices for the entire game duration
-      await preloadPricesForGame(symbols, startYear, 20);
+      // Preload prices and corporate actions for the entire game duration
+      await preloadPricesForGame(symbols, startYear, totalYears);
+      await preloadCorporateActions(startYear, totalYears);
 
       // Initialize encryption keys
       initializeRoomKeys(roomId, symbols);
@@ -59,15 +111,38 @@ export class GameSyncManager {
     }
   }
 
+  /**
+   * Load and store the room's prices for a calendar month (only valid, positive prices are kept)
+   */
+  private async loadRoomPrices(room: Room, gameMonth: number, calendarYear: number): Promise<PriceSnapshot> {
+    const symbols = getGameSymbols(room.gameState.selectedAssets);
+
+    const prices = await getPricesForDate(symbols, calendarYear, gameMonth);
+
+    // Validate prices before broadcasting
+    const validPrices: { [symbol: string]: number } = {};
+
+    for (const [symbol, price] of Object.entries(prices)) {
+      if (typeof price === 'number' && isFinite(price) && price > 0) {
+        validPrices[symbol] = price;
+      }
+    }
+
+    // Store prices for validation
+    this.roomPrices.set(room.id, validPrices);
+    return validPrices;
+  }
+
   /**
    * Broadcast encrypted prices for current tick
-   * Called during time progression
+   * Called during time progression; a new month (settleOrders) also fills the players' standing orders
    */
   async broadcastPriceTick(
     roomId: string,
     gameYear: number,
     gameMonth: number,
-    calendarYear: number
+    calendarYear: number,
+    settleOrders: boolean = false
   ): Promise<void> {
     if (!isPostgresPoolInitialized() || !hasRoomKeys(roomId)) {
       return; // Skip if not set up
@@ -77,24 +152,17 @@ export class GameSyncManager {
     if (!room) return;
 
     try {
-      const symbols = getGameSymbols(room.gameState.selectedAssets);
+      const validPrices = await this.loadRoomPrices(room, gameMonth, calendarYear);
 
-      const prices = await getPricesForDate(symbols, calendarYear, gameMonth);
-
-      // Validate prices before broadcasting
-      const validPrices: { [symbol: string]: number } = {};
-      let invalidCount = 0;
-
-      for (const [symbol, price] of Object.entries(prices)) {
-        if (typeof price === 'number' && isFinite(price) && price > 0) {
-          validPrices[symbol] = price;
-        } else {
-          invalidCount++;
-        }
+      if (settleOrders) {
+        this.emitStandingOrderFills(room, this.settleStandingOrders(room));
       }
 
-      // Store prices for validation
-      this.roomPrices.set(roomId, validPrices);
+      // Mark every ledger to the new prices
+      if (room.ledgers.size > 0) {
+        room.ledgers.forEach((_, playerId) => this.revaluePlayer(room, playerId));
+        this.broadcastLeaderboard(roomId);
+      }
 
       // Encrypt and broadcast
       const encrypted = encryptPriceData(roomId, validPrices);
@@ -112,6 +180,51 @@ export class GameSyncManager {
     }
   }
 
+  /**
+   * Fill every player's standing orders at the room's current prices - once per game month,
+   * whether or not the player is connected. Returns the fills per player
+   */
+  private settleStandingOrders(room: Room): Map<string, StandingOrderFill[]> {
+    const prices = this.roomPrices.get(room.id) || {};
+    const { selectedAssets, assetUnlockSchedule, currentYear, currentMonth } = room.gameState;
+    const taxSettings = getTaxSettings(room.adminSettings);
+    const tax = taxSettings ? { settings: taxSettings, monthIndex: toMonthIndex(currentYear, currentMonth) } : null;
+    const filled: Map<string, StandingOrderFill[]> = new Map();
+
+    room.ledgers.forEach((ledger, playerId) => {
+      if (!ledger.openOrders?.length) return;
+
+      const fills = settleStandingOrders(
+        ledger,
+        prices,
+        order => resolveTradeSymbol(order.assetType, order.assetName, selectedAssets, assetUnlockSchedule, currentYear),
+        tax,
+        currentYear,
+        currentMonth
+      );
+      if (fills.length > 0) {
+        filled.set(playerId, fills);
+      }
+    });
+
+    return filled;
+  }
+
+  // Tell each player which of their orders filled, then send the ledger holding the new balances and book
+  private emitStandingOrderFills(room: Room, filled: Map<string, StandingOrderFill[]>): void {
+    if (filled.size === 0) return;
+
+    filled.forEach((fills, playerId) => {
+      const ledger = room.ledgers.get(playerId);
+      if (!ledger) return;
+
+      this.io.to(playerId).emit('standingOrdersExecuted', { fills });
+      this.io.to(playerId).emit('ledgerUpdate', { ledger });
+    });
+
+    this.persistRoom(room.id);
+  }
+
   /**
    * Handle key exchange request from client
    */
@@ -125,6 +238,12 @@ export class GameSyncManager {
       return;
     }
 
+    // Prices are for the players; spectators only see the leaderboard
+    if (socket.data.isSpectator) {
+      callback({ success: false, error: 'Spectators cannot receive prices' });
+      return;
+    }
+
     const sessionKey = getSessionKeyForExchange(roomId);
     const assetMapping = getAssetIndexMapping(roomId);
 
@@ -167,6 +286,209 @@ export class GameSyncManager {
     }
   }
 
+  /**
+   * Bring a resumed player's new socket back in sync
+   * Re-sends game state, redoes the key exchange and replays missed life events
+   */
+  resyncPlayer(socket: Socket, roomId: string, playerId: string): void {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    socket.emit('gameStateUpdate', { gameState: room.gameState });
+
+    // Redo key exchange so the new socket can decrypt price ticks
+    const sessionKey = getSessionKeyForExchange(roomId);
+    const assetMapping = getAssetIndexMapping(roomId);
+    if (sessionKey && assetMapping) {
+      socket.emit('keyExchangeResponse', { sessionKey, assetIndexMap: assetMapping });
+
+      // Send the latest cached prices to this socket only
+      const prices = this.roomPrices.get(roomId);
+      const encrypted = prices ? encryptPriceData(roomId, prices) : null;
+      if (encrypted) {
+        socket.emit('priceTick', {
+          year: room.gameState.currentYear,
+          month: room.gameState.currentMonth,
+          encrypted,
+        });
+      }
+    }
+
+    // Replay the headlines so far so the ticker isn't empty after a reconnect
+    if (room.adminSettings && !room.adminSettings.hideCurrentYear) {
+      const { currentYear, currentMonth } = room.gameState;
+      const { gameStartYear } = room.adminSettings;
+      getNewsInRange(gameStartYear, getGameStartMonth(room.adminSettings), gameStartYear + currentYear - 1, currentMonth)
+        .forEach(item => {
+          socket.emit('newsItem', {
+            item,
+            gameYear: item.year - gameStartYear + 1,
+            gameMonth: item.month,
+          });
+        });
+    }
+
+    // Replay life events that triggered while the player was disconnected, and any still waiting for a decision
+    const ledger = room.ledgers.get(playerId);
+    const events = room.gameState.lifeEvents?.[playerId] || [];
+    events.forEach(ev => {
+      if (ev.triggered && (ev.delivered === false || ev.awaitingChoice)) {
+        ev.delivered = true;
+        // Without a ledger the client applies the amount on top of its own (more recent) cash
+        socket.emit('lifeEventTriggered', { event: ev, postPocketCash: ledger?.pocketCash });
+      }
+    });
+
+    // Ledger goes last so it overrides anything the replayed events did locally
+    if (ledger) {
+      socket.emit('ledgerUpdate', { ledger });
+    }
+  }
+
+  /**
+   * Run a ledger command (trade, savings, FD) for the socket's player
+   * The command mutates the ledger in place; on success the player is revalued
+   */
+  handleLedgerCommand(
+    socket: Socket,
+    callback: (response: LedgerResponse) => void,
+    command: (ledger: PlayerLedger, room: Room, prices: PriceSnapshot) => LedgerResult
+  ): void {
+    const playerId = socket.data.playerId;
+    const room = playerId ? this.roomManager.getRoomByPlayerId(playerId) : undefined;
+    if (!playerId || !room) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (!room.gameState.isStarted) {
+      callback({ success: false, error: 'Game is not running' });
+      return;
+    }
+
+    const ledger = room.ledgers.get(playerId);
+    if (!ledger) {
+      callback({ success: false, error: 'Only players can trade' });
+      return;
+    }
+
+    const result = command(ledger, room, this.roomPrices.get(room.id) || {});
+    if (!result.success) {
+      callback({ success: false, error: result.error });
+      return;
+    }
+
+    this.revaluePlayer(room, playerId);
+    this.broadcastLeaderboard(room.id);
+
+    callback({ success: true, ledger, trade: result.trade });
+  }
+
+  /**
+   * Settle a life event the player is deciding on with the option they picked
+   * Runs inside handleLedgerCommand, which revalues the player afterwards
+   */
+  resolveLifeEventChoice(room: Room, playerId: string, eventId: string, choiceId: string): LedgerResult {
+    const ev = (room.gameState.lifeEvents?.[playerId] || []).find(e => e.id === eventId);
+    if (!ev || !ev.awaitingChoice) {
+      return { success: false, error: 'No life event is waiting for a decision' };
+    }
+    if (!ev.choices?.some(c => c.id === choiceId)) {
+      return { success: false, error: 'Unknown choice' };
+    }
+
+    this.settleLifeEvent(room, playerId, ev, choiceId);
+    this.io.to(playerId).emit('lifeEventResolved', { event: ev, postPocketCash: room.ledgers.get(playerId)?.pocketCash });
+    return { success: true };
+  }
+
+  /**
+   * Apply a life event's net cost (after the choice and any insurance cover) and tell the player
+   * Players without a server ledger get the legacy cash adjustment on their reported portfolio
+   */
+  private settleLifeEvent(room: Room, playerId: string, ev: LifeEvent, choiceId: string | undefined): void {
+    const ledger = room.ledgers.get(playerId);
+    Object.assign(ev, resolveLifeEvent(ev, choiceId, ledger?.insurancePolicies));
+
+    if (ledger) {
+      const fdBroken = applyResolvedLifeEventToLedger(ledger, ev);
+      if (fdBroken > 0) ev.fdBroken = fdBroken;
+      this.revaluePlayer(room, playerId);
+      return;
+    }
+
+    const player = room.players.get(playerId);
+    if (player) {
+      player.portfolioBreakdown.cash = (player.portfolioBreakdown.cash || 0) + ev.amount;
+      player.networth = (player.networth || 0) + ev.amount;
+    }
+  }
+
+  // Recompute a player's networth and breakdown from their ledger at the room's latest prices
+  private revaluePlayer(room: Room, playerId: string): void {
+    const ledger = room.ledgers.get(playerId);
+    const player = room.players.get(playerId);
+    if (!ledger || !player) return;
+
+    const { networth, portfolioBreakdown } = valueLedger(
+      ledger,
+      this.roomPrices.get(room.id) || {},
+      room.gameState.selectedAssets,
+      room.gameState.currentYear,
+      room.gameState.currentMonth
+    );
+
+    player.networth = networth;
+    player.portfolioBreakdown = portfolioBreakdown;
+  }
+
+  // Write each flagged player's suspicious-submission count onto their player log
+  private persistSuspiciousSubmissions(roomId: string): void {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    try {
+      room.players.forEach(player => {
+        if (player.suspiciousSubmissions) {
+          setSuspiciousSubmissions(roomId, player.name, player.suspiciousSubmissions);
+        }
+      });
+    } catch (err) {
+      console.error('Error persisting suspicious submissions:', err);
+    }
+  }
+
+  // Attach the quizzes each player answered during the game to their player log
+  private persistQuizAttempts(roomId: string): void {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room) return;
+
+    try {
+      room.players.forEach(player => {
+        if (player.quizStatus.results?.length) {
+          attachQuizAttemptsToLog(roomId, player.name);
+        }
+      });
+    } catch (err) {
+      console.error('Error persisting quiz attempts:', err);
+    }
+  }
+
+  // Final standings straight from the server ledgers (null if the room has none)
+  private getLedgerLeaderboard(roomId: string): Array<{ playerId: string; playerName: string; networth: number; portfolioBreakdown: PortfolioBreakdown }> | null {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || room.ledgers.size === 0) return null;
+
+    return this.roomManager.getLeaderboard(roomId)
+      .filter(player => room.ledgers.has(player.id))
+      .map(player => ({
+        playerId: player.id,
+        playerName: player.name,
+        networth: player.networth,
+        portfolioBreakdown: player.portfolioBreakdown,
+      }));
+  }
+
   /**
    * Get current prices for a room (for server-side validation)
    */
@@ -180,16 +502,149 @@ export class GameSyncManager {
   cleanupRoom(roomId: string): void {
     this.roomPrices.delete(roomId);
     cleanupRoomKeys(roomId);
+    this.dirtyRooms.delete(roomId);
+
+    try {
+      deleteRoomSnapshot(roomId);
+    } catch (err) {
+      console.error('Error deleting room snapshot:', err);
+    }
+  }
+
+  /**
+   * Mark a room's snapshot as stale; it is written to SQLite within SNAPSHOT_WRITE_DELAY_MS
+   * so a restarted server can resume it
+   */
+  persistRoom(roomId: string): void {
+    this.dirtyRooms.add(roomId);
+    if (!this.snapshotTimer) {
+      this.snapshotTimer = setTimeout(() => this.flushRoomSnapshots(), this.SNAPSHOT_WRITE_DELAY_MS);
+    }
+  }
+
+  /**
+   * Write every stale room snapshot now (also called on shutdown)
+   * Rooms that no longer exist (or whose game has finished) lose their snapshot
+   */
+  flushRoomSnapshots(): void {
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+
+    const roomIds = Array.from(this.dirtyRooms);
+    this.dirtyRooms.clear();
+
+    try {
+      const snapshots: RoomSnapshot[] = [];
+      const removed: string[] = [];
+
+      roomIds.forEach(roomId => {
+        const room = this.roomManager.getRoom(roomId);
+        const snapshot = this.roomManager.getRoomSnapshot(roomId);
+
+        // Ledgers outliving isStarted means the game ran to completion
+        if (!room || !snapshot || (!room.gameState.isStarted && room.ledgers.size > 0)) {
+          removed.push(roomId);
+        } else {
+          snapshots.push({ ...snapshot, roomKeys: exportRoomKeys(roomId) });
+        }
+      });
+
+      writeRoomSnapshots(snapshots, removed);
+    } catch (err) {
+      console.error('Error persisting room snapshots:', err);
+    }
   }
 
-  // Broadcast game state update to all players in room
+  /**
+   * Rehydrate persisted rooms on boot
+   * Running games come back paused with their clock restarted, so the host can resume once players rejoin.
+   * Every seat gets the normal reconnect grace period; onSeatExpired removes the ones nobody comes back for
+   * (which hands the room to a new host if the host never returns)
+   */
+  async restorePersistedRooms(onSeatExpired: (playerId: string) => void): Promise<number> {
+    const snapshots = loadRoomSnapshots();
+    let restored = 0;
+
+    for (const snapshot of snapshots) {
+      const room = this.roomManager.restoreRoom(snapshot);
+      if (!room) {
+        deleteRoomSnapshot(snapshot.id);
+        continue;
+      }
+
+      if (room.gameState.isStarted && room.adminSettings) {
+        if (!room.gameState.isPaused) {
+          room.gameState.isPaused = true;
+          room.gameState.pauseReason = 'manual';
+        }
+
+        try {
+          if (snapshot.roomKeys && isPostgresPoolInitialized()) {
+            await preloadPricesForGame(snapshot.roomKeys.symbols, room.adminSettings.gameStartYear, getGameDurationYears(room.adminSettings));
+            await preloadCorporateActions(room.adminSettings.gameStartYear, getGameDurationYears(room.adminSettings));
+            restoreRoomKeys(room.id, snapshot.roomKeys);
+          } else {
+            await this.initializeMarketData(
+              room.id,
+              room.gameState.selectedAssets,
+              room.adminSettings.gameStartYear,
+              getGameDurationYears(room.adminSettings)
+            );
+          }
+
+          // Load the current month's prices so validation works before the next tick
+          await this.broadcastPriceTick(
+            room.id,
+            room.gameState.currentYear,
+            room.gameState.currentMonth,
+            room.adminSettings.gameStartYear + room.gameState.currentYear - 1
+          );
+        } catch (err) {
+          console.error(`❌ Room ${room.id}: Failed to restore market data:`, err);
+        }
+
+        const interval = this.startTimeProgression(room.id, room.adminSettings.monthDuration || 5000);
+        if (interval) {
+          room.timeProgressionInterval = interval;
+        }
+      }
+
+      Array.from(room.players.keys()).forEach(playerId => {
+        this.roomManager.markPlayerDisconnected(playerId, () => onSeatExpired(playerId));
+      });
+
+      restored++;
+    }
+
+    return restored;
+  }
+
+  // Broadcast game state update to all players in room (spectators get it without private player state)
   broadcastGameState(roomId: string): void {
     const room = this.roomManager.getRoom(roomId);
     if (!room) return;
 
-    this.io.to(roomId).emit('gameStateUpdate', {
+    const spectatorChannel = this.roomManager.getSpectatorChannel(roomId);
+    this.io.to(roomId).except(spectatorChannel).emit('gameStateUpdate', {
       gameState: room.gameState,
     });
+    this.io.to(spectatorChannel).emit('gameStateUpdate', {
+      gameState: this.roomManager.getSpectatorGameState(room.gameState),
+    });
+  }
+
+  // Push this month's market headlines to the room (none when the host hides the year - news would give it away)
+  broadcastNews(roomId: string): void {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !room.adminSettings || room.adminSettings.hideCurrentYear) return;
+
+    const { currentYear, currentMonth } = room.gameState;
+    const calendarYear = room.adminSettings.gameStartYear + currentYear - 1;
+    getNewsForMonth(calendarYear, currentMonth).forEach(item => {
+      this.io.to(roomId).emit('newsItem', { item, gameYear: currentYear, gameMonth: currentMonth });
+    });
   }
 
   // Broadcast leaderboard update to all in room (throttled)
@@ -230,17 +685,20 @@ export class GameSyncManager {
     // This prevents state corruption where players can't sync their final state
     // The game ends at line 348 (isStarted = false), but players need time to calculate
     // and send their final networth with the correct prices
+    const gameEnd = getGameEnd(room.adminSettings);
     const gameJustEnded = !room.gameState.isStarted &&
-      room.gameState.currentYear >= 20 &&
-      room.gameState.currentMonth === 12;
+      room.gameState.currentYear === gameEnd.year &&
+      room.gameState.currentMonth === gameEnd.month;
 
     if (!room.gameState.isStarted && !gameJustEnded) {
       // Game ended more than 5 seconds ago, reject updates
       return;
     }
 
-    // Update player state
-    this.roomManager.updatePlayerState(playerId, networth, portfolioBreakdown);
+    // Update player state (ignored for ledger-backed players)
+    if (!this.roomManager.updatePlayerState(playerId, networth, portfolioBreakdown)) {
+      return;
+    }
 
     // Broadcast updated leaderboard to everyone
     this.broadcastLeaderboard(room.id);
@@ -251,8 +709,8 @@ export class GameSyncManager {
     const room = this.roomManager.getRoomByPlayerId(playerId);
     if (!room) return;
 
-    // Mark quiz as started and pause game for all
-    this.roomManager.markQuizStarted(playerId, quizCategory);
+    // Mark quiz as started and pause game for all (repeated or locked quizzes change nothing)
+    if (!this.roomManager.markQuizStarted(playerId, quizCategory)) return;
 
     // Notify all players that someone started a quiz (game is now paused)
     this.io.to(room.id).emit('quizTriggered', {
@@ -296,6 +754,99 @@ export class GameSyncManager {
     }
   }
 
+  /**
+   * Check an answer to the player's open quiz against the server's question bank
+   * Wrong answers are counted; the first correct one is scored, pays any bonus cash and is saved to quiz_attempts
+   */
+  handleQuizAnswer(socket: Socket, answerIndex: number, callback: (response: QuizAnswerResponse) => void): void {
+    const playerId = socket.data.playerId;
+    const room = playerId ? this.roomManager.getRoomByPlayerId(playerId) : undefined;
+    const player = room?.players.get(playerId);
+    if (!room || !player) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    if (!room.gameState.isStarted) {
+      callback({ success: false, error: 'Game is not running' });
+      return;
+    }
+
+    const status = player.quizStatus;
+    const category = status.currentQuiz;
+    if (!category) {
+      callback({ success: false, error: 'No quiz is open' });
+      return;
+    }
+    if (status.results?.some(result => result.category === category)) {
+      callback({ success: false, error: 'Quiz already answered' });
+      return;
+    }
+
+    // Score against the question picked at game start, found by id so admin edits since then can't swap it.
+    // The built-in bank has no ids but never changes, so its index is enough. Answers are the same in every language.
+    const bank = getQuizBank();
+    const questionId = room.gameState.quizQuestionIds?.[category];
+    const question = questionId !== undefined
+      ? findQuizQuestion(bank, category, questionId)
+      : bank[category]?.questions[room.gameState.quizQuestionIndices?.[category] ?? -1];
+    if (!question) {
+      callback({ success: false, error: 'Quiz question not found' });
+      return;
+    }
+
+    if (!Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= question.options.length) {
+      callback({ success: false, error: 'Invalid answer' });
+      return;
+    }
+
+    const progress = status.openedQuizzes?.[category];
+    if (!progress) {
+      callback({ success: false, error: 'No quiz is open' });
+      return;
+    }
+
+    progress.answers = [...progress.answers, answerIndex];
+    const score = scoreQuizAnswers(question, progress.answers);
+    if (!score) {
+      callback({ success: true, correct: false, attempts: progress.answers.length });
+      return;
+    }
+
+    const result: QuizResult = {
+      category,
+      questionId: question.id ?? null,
+      answers: score.answers,
+      attempts: score.attempts,
+      points: score.points,
+      bonusCash: getQuizBonusCash(room.adminSettings, score.points),
+      timeTakenMs: Date.now() - progress.startedAt,
+      gameYear: room.gameState.currentYear,
+      gameMonth: room.gameState.currentMonth,
+    };
+    status.results = [...(status.results || []), result];
+
+    const ledger = room.ledgers.get(playerId);
+    if (result.bonusCash > 0) {
+      if (ledger) {
+        applyQuizBonusToLedger(ledger, result.bonusCash);
+        this.revaluePlayer(room, playerId);
+      } else {
+        player.portfolioBreakdown.cash = (player.portfolioBreakdown.cash || 0) + result.bonusCash;
+        player.networth = (player.networth || 0) + result.bonusCash;
+      }
+    }
+    this.broadcastLeaderboard(room.id);
+
+    try {
+      logQuizAttempt({ gameMode: 'multiplayer', roomId: room.id, playerName: player.name, result });
+    } catch (err) {
+      console.error('Error logging quiz attempt:', err);
+    }
+
+    callback({ success: true, correct: true, attempts: result.attempts, result, ledger });
+  }
+
   // Handle intro completed by a player
   handleIntroCompleted(socket: Socket, playerId: string): void {
     const room = this.roomManager.getRoomByPlayerId(playerId);
@@ -372,45 +923,76 @@ export class GameSyncManager {
         return;
       }
 
-      // Don't progress time if game is paused
-      if (room.gameState.isPaused) {
+      // Don't progress time if game is paused or the host is jumping ahead
+      if (room.gameState.isPaused || this.jumpingRooms.has(roomId)) {
         return;
       }
 
-      let newMonth = room.gameState.currentMonth + 1;
-      let newYear = room.gameState.currentYear;
+      this.advanceMonth(roomId);
+    }, monthDurationMs);
 
-      if (newMonth > 12) {
-        newMonth = 1;
-        newYear += 1;
-      }
+    return interval;
+  }
 
-      // End game after 20 years
-      if (newYear > 20) {
-        clearInterval(interval);
+  // Clear a room's month timer (game end, or before re-arming at a new speed)
+  stopTimeProgression(room: Room): void {
+    if (room.timeProgressionInterval) {
+      clearInterval(room.timeProgressionInterval);
+      room.timeProgressionInterval = undefined;
+    }
+  }
 
-        // Mark game as ended (stops all further updates)
-        room.gameState.isStarted = false;
+  /**
+   * Move a room forward by one month: ledgers, life events and broadcasts
+   * Returns false once the game has ended
+   */
+  private advanceMonth(roomId: string, broadcast: boolean = true): boolean {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !room.gameState.isStarted) return false;
 
-        // IMPORTANT: Do NOT cleanup room yet - players need encrypted prices for final calculations!
-        // Cleanup will happen after players have logged to database (see setTimeout below)
+    let newMonth = room.gameState.currentMonth + 1;
+    let newYear = room.gameState.currentYear;
+
+    if (newMonth > 12) {
+      newMonth = 1;
+      newYear += 1;
+    }
 
-        // Emit game ended event FIRST so players can log to database
-        this.io.to(roomId).emit('gameEnded', {
-          finalYear: newYear - 1,
-          finalMonth: 12,
+    // End game after the configured number of years, counted from the opening month
+    if (isPastGameEnd(room.adminSettings, newYear, newMonth)) {
+      this.stopTimeProgression(room);
+
+      // Mark game as ended (stops all further updates)
+      room.gameState.isStarted = false;
+
+      // IMPORTANT: Do NOT cleanup room yet - players need encrypted prices for final calculations!
+      // Cleanup will happen after players have logged to database (see setTimeout below)
+
+      // Emit game ended event FIRST so players can log to database
+      this.io.to(roomId).emit('gameEnded', {
+        finalYear: room.gameState.currentYear,
+        finalMonth: room.gameState.currentMonth,
+      });
+
+      // Wait 3 seconds for all players to log their final networth to database
+      setTimeout(() => {
+        // Emit special event telling host to fetch final leaderboard from DB
+        this.io.to(roomId).emit('fetchFinalLeaderboardFromDB', {
+          roomId: roomId,
         });
 
-        // Wait 3 seconds for all players to log their final networth to database
-        setTimeout(() => {
-          // Emit special event telling host to fetch final leaderboard from DB
-          this.io.to(roomId).emit('fetchFinalLeaderboardFromDB', {
-            roomId: roomId,
-          });
+        // Players have logged by now - attach the server's suspicious-submission counters
+        this.persistSuspiciousSubmissions(roomId);
+        this.persistQuizAttempts(roomId);
 
+        // Rooms with server ledgers are ranked from server state; otherwise fall back to the DB logs
+        const ledgerLeaderboard = this.getLedgerLeaderboard(roomId);
+        if (ledgerLeaderboard) {
+          console.log(`🏆 Final leaderboard for room ${roomId} (server ledgers):`, JSON.stringify(ledgerLeaderboard, null, 2));
+          this.io.to(roomId).emit('finalLeaderboard', { leaderboard: ledgerLeaderboard });
+        } else {
           // Additionally, fetch the final leaderboard from DB on the server and broadcast
           try {
-            const { getPlayerLogs } = require('../database/playerLogs');
             const logs = getPlayerLogs({ roomId, gameMode: 'multiplayer' });
 
             console.log(`📊 Fetched ${logs.length} logs for room ${roomId}`);
@@ -438,28 +1020,30 @@ export class GameSyncManager {
           } catch (err) {
             console.error('Error fetching/broadcasting final leaderboard from DB:', err);
           }
+        }
 
-          // CRITICAL FIX: Cleanup room AFTER players have logged to database
-          // This ensures encrypted prices are still available for final networth calculations
-          console.log(`🧹 Cleaning up room ${roomId} after final leaderboard broadcast`);
-          this.cleanupRoom(roomId);
-        }, 3000);
+        // CRITICAL FIX: Cleanup room AFTER players have logged to database
+        // This ensures encrypted prices are still available for final networth calculations
+        console.log(`🧹 Cleaning up room ${roomId} after final leaderboard broadcast`);
+        this.cleanupRoom(roomId);
+      }, 3000);
 
-        return;
-      }
+      return false;
+    }
 
-      // Update room state
-      room.gameState.currentYear = newYear;
-      room.gameState.currentMonth = newMonth;
+    // Update room state
+    room.gameState.currentYear = newYear;
+    room.gameState.currentMonth = newMonth;
 
-      // Calculate calendar year for price lookup
-      const calendarYear = room.adminSettings
-        ? room.adminSettings.gameStartYear + newYear - 1
-        : 2000 + newYear - 1;
+    // Calculate calendar year for price and corporate action lookups
+    const calendarYear = room.adminSettings
+      ? room.adminSettings.gameStartYear + newYear - 1
+      : 2000 + newYear - 1;
 
+    if (broadcast) {
       // Broadcast encrypted prices BEFORE time progression
       // This ensures clients have prices ready when they receive the time update
-      this.broadcastPriceTick(roomId, newYear, newMonth, calendarYear).catch((err) => {
+      this.broadcastPriceTick(roomId, newYear, newMonth, calendarYear, true).catch((err) => {
         console.error(`Error broadcasting price tick for room ${roomId}:`, err);
       });
 
@@ -468,52 +1052,210 @@ export class GameSyncManager {
         year: newYear,
         month: newMonth,
       });
+    }
 
-      // Check per-player life events and emit targeted events
-      try {
-        const lifeMap = room.gameState.lifeEvents || {};
-        Object.keys(lifeMap).forEach(playerId => {
-          const events = lifeMap[playerId] || [];
-          events.forEach(ev => {
-            if (!ev.triggered && ev.gameYear === newYear && ev.gameMonth === newMonth) {
-              // Mark as triggered server-side to avoid duplicate triggers
-              ev.triggered = true;
-
-              // Apply event to the player's cash & networth on the server so broadcasts remain consistent
-              try {
-                const player = room.players.get(playerId);
-                if (player) {
-                  const available = player.portfolioBreakdown?.cash || 0;
-                  const required = ev.amount < 0 ? Math.abs(ev.amount) : 0;
-                  const status = available >= required ? 'ENOUGH' : 'INSUFFICIENT';
-
-
-                  // Apply amount
-                  player.portfolioBreakdown.cash = (player.portfolioBreakdown.cash || 0) + ev.amount;
-                  player.networth = (player.networth || 0) + ev.amount;
-                }
-              } catch (err) {
-                console.error('Error applying life event to player state:', err);
-              }
+    // Headlines go out every month, including the skipped months of a jump
+    this.broadcastNews(roomId);
+
+    // Month rollover on the server ledgers (savings interest, FD maturity, bond coupons, recurring income, loan EMIs)
+    const recurringIncome = room.adminSettings?.recurringIncome || 0;
+    const loanSettings = getLoanSettings(room.adminSettings);
+    const taxSettings = getTaxSettings(room.adminSettings);
+    room.ledgers.forEach(ledger =>
+      applyMonthlyLedgerUpdate(ledger, newYear, newMonth, recurringIncome, loanSettings, taxSettings)
+    );
+
+    // Dividends, splits and bonus issues going ex in this calendar month
+    const corporateActions = getCachedCorporateActions(getGameSymbols(room.gameState.selectedAssets), calendarYear, newMonth);
+    if (corporateActions.length > 0) {
+      room.ledgers.forEach((ledger, playerId) => {
+        const payouts = applyCorporateActionsToLedger(ledger, corporateActions);
+        if (payouts.length > 0) {
+          this.io.to(playerId).emit('corporateActionsApplied', { payouts, gameYear: newYear, gameMonth: newMonth });
+        }
+      });
+    }
 
-              // Emit only to the target player (socket id == playerId) and include post-event cash for client sync
-              try {
-                const postPocketCash = room.players.get(playerId)?.portfolioBreakdown?.cash ?? undefined;
-                this.io.to(playerId).emit('lifeEventTriggered', { event: ev, postPocketCash });
-              } catch (err) {
+    // Check per-player life events and emit targeted events
+    try {
+      const lifeMap = room.gameState.lifeEvents || {};
+      Object.keys(lifeMap).forEach(playerId => {
+        const events = lifeMap[playerId] || [];
+        events.forEach(ev => {
+          // Decisions left unanswered fall back to the first choice
+          const monthsWaiting = (newYear - ev.gameYear) * 12 + newMonth - ev.gameMonth;
+          if (ev.awaitingChoice && monthsWaiting >= LIFE_EVENT_CHOICE_MONTHS) {
+            this.settleLifeEvent(room, playerId, ev, undefined);
+            this.io.to(playerId).emit('lifeEventResolved', { event: ev, postPocketCash: room.ledgers.get(playerId)?.pocketCash });
+            return;
+          }
+
+          if (!ev.triggered && ev.gameYear === newYear && ev.gameMonth === newMonth) {
+            // Mark as triggered server-side to avoid duplicate triggers
+            ev.triggered = true;
+
+            // Apply event to the player's cash & networth on the server so broadcasts remain consistent.
+            // Events with choices wait for the player's decision (ledger games only)
+            try {
+              if (room.ledgers.has(playerId) && ev.choices && ev.choices.length > 0) {
+                ev.awaitingChoice = true;
+              } else {
+                this.settleLifeEvent(room, playerId, ev, undefined);
               }
+            } catch (err) {
+              console.error('Error applying life event to player state:', err);
             }
-          });
+
+            // Emit only to the target player (socket id == playerId) and include post-event cash for client sync
+            try {
+              const targetPlayer = room.players.get(playerId);
+              const postPocketCash = room.ledgers.get(playerId)?.pocketCash ?? targetPlayer?.portfolioBreakdown?.cash ?? undefined;
+              // Players inside the reconnect grace period get this event replayed on resumeSession
+              ev.delivered = targetPlayer?.isConnected !== false;
+              this.io.to(playerId).emit('lifeEventTriggered', { event: ev, postPocketCash });
+            } catch (err) {
+            }
+          }
         });
-      } catch (err) {
-        console.error('Error while processing life events:', err);
-      }
+      });
+    } catch (err) {
+      console.error('Error while processing life events:', err);
+    }
 
-      // Also broadcast full game state so clients can react to any state changes (asset unlocks, quotes, etc.)
-      this.broadcastGameState(roomId);
+    // Intermediate months of a jump skip the broadcasts; the final month sends everything
+    if (!broadcast) return true;
 
-    }, monthDurationMs);
+    // Push each player's ledger after this month's changes
+    room.ledgers.forEach((ledger, playerId) => {
+      this.revaluePlayer(room, playerId);
+      this.io.to(playerId).emit('ledgerUpdate', { ledger });
+    });
 
-    return interval;
+    // Also broadcast full game state so clients can react to any state changes (asset unlocks, quotes, etc.)
+    this.broadcastGameState(roomId);
+
+    this.persistRoom(roomId);
+    return true;
+  }
+
+  /**
+   * Change the month duration mid-game and re-arm the timer (host only)
+   */
+  setMonthDuration(roomId: string, monthDurationMs: number): { success: boolean; error?: string } {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !room.gameState.isStarted || !room.adminSettings) {
+      return { success: false, error: 'Game is not running' };
+    }
+
+    if (typeof monthDurationMs !== 'number' || !isFinite(monthDurationMs) ||
+      monthDurationMs < this.MIN_MONTH_DURATION_MS || monthDurationMs > this.MAX_MONTH_DURATION_MS) {
+      return {
+        success: false,
+        error: `Month duration must be between ${this.MIN_MONTH_DURATION_MS / 1000}s and ${this.MAX_MONTH_DURATION_MS / 1000}s`,
+      };
+    }
+
+    const monthDuration = Math.round(monthDurationMs);
+    room.adminSettings.monthDuration = monthDuration;
+
+    this.stopTimeProgression(room);
+    const interval = this.startTimeProgression(roomId, monthDuration);
+    if (interval) {
+      room.timeProgressionInterval = interval;
+    }
+
+    this.io.to(roomId).emit('speedChanged', { monthDuration });
+    this.persistRoom(roomId);
+
+    return { success: true };
+  }
+
+  /**
+   * Advance exactly one month while the host has the game paused
+   */
+  stepMonth(roomId: string): { success: boolean; error?: string } {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !room.gameState.isStarted) {
+      return { success: false, error: 'Game is not running' };
+    }
+    if (!room.gameState.isPaused || room.gameState.pauseReason !== 'manual') {
+      return { success: false, error: 'Pause the game before stepping a month' };
+    }
+    if (this.jumpingRooms.has(roomId)) {
+      return { success: false, error: 'Wait for the jump to finish' };
+    }
+
+    this.advanceMonth(roomId);
+    return { success: true };
+  }
+
+  /**
+   * Price a skipped month of a jump and fill the players' standing orders at those prices,
+   * adding the fills to the ones collected so far
+   */
+  private async settleSkippedMonth(room: Room, filled: Map<string, StandingOrderFill[]>): Promise<void> {
+    if (!isPostgresPoolInitialized() || !hasRoomKeys(room.id)) return;
+
+    const { currentYear, currentMonth } = room.gameState;
+    const calendarYear = room.adminSettings
+      ? room.adminSettings.gameStartYear + currentYear - 1
+      : 2000 + currentYear - 1;
+
+    try {
+      await this.loadRoomPrices(room, currentMonth, calendarYear);
+    } catch (error) {
+      console.error(`❌ Room ${room.id}: Failed to load prices for ${currentYear}/${currentMonth} of a jump:`, error);
+      return;
+    }
+
+    this.settleStandingOrders(room).forEach((fills, playerId) => {
+      filled.set(playerId, [...(filled.get(playerId) || []), ...fills]);
+    });
+    room.ledgers.forEach((_, playerId) => this.revaluePlayer(room, playerId));
+  }
+
+  /**
+   * Fast-forward to a later year/month, applying every month in between
+   * Each skipped month is priced and fills standing orders like a normal month; only the destination
+   * month is broadcast (with the combined fills) so clients aren't flooded with price ticks
+   */
+  async jumpToMonth(roomId: string, year: number, month: number): Promise<{ success: boolean; error?: string }> {
+    const room = this.roomManager.getRoom(roomId);
+    if (!room || !room.gameState.isStarted) {
+      return { success: false, error: 'Game is not running' };
+    }
+    if (room.gameState.pauseReason === 'quiz' || room.gameState.pauseReason === 'intro') {
+      return { success: false, error: 'Wait for players to finish before jumping ahead' };
+    }
+    if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12 || isPastGameEnd(room.adminSettings, year, month)) {
+      return { success: false, error: 'Invalid year or month' };
+    }
+
+    const { currentYear, currentMonth } = room.gameState;
+    const monthsAhead = (year - currentYear) * 12 + (month - currentMonth);
+    if (monthsAhead <= 0) {
+      return { success: false, error: 'Can only jump forward in time' };
+    }
+    if (this.jumpingRooms.has(roomId)) {
+      return { success: false, error: 'Already jumping ahead' };
+    }
+
+    this.jumpingRooms.add(roomId);
+    try {
+      const filled: Map<string, StandingOrderFill[]> = new Map();
+      for (let i = 1; i < monthsAhead; i++) {
+        if (!this.advanceMonth(roomId, false)) {
+          return { success: true };
+        }
+        await this.settleSkippedMonth(room, filled);
+      }
+
+      this.emitStandingOrderFills(room, filled);
+      this.advanceMonth(roomId);
+    } finally {
+      this.jumpingRooms.delete(roomId);
+    }
+
+    return { success: true };
   }
 }
@@ -0,0 +1,75 @@
+import { InsurancePolicy, InsuranceType } from '../types';
+import { getIncomeScale } from './lifeEvents';
+
+export interface InsuranceProduct {
+  label: string;
+  annualPremium: number; // At the default income in game year 1
+  coverRatio: number; // Fraction of a matching loss the policy pays
+}
+
+export const INSURANCE_PRODUCTS: Record<InsuranceType, InsuranceProduct> = {
+  HEALTH: { label: 'Health Insurance', annualPremium: 8000, coverRatio: 0.8 },
+  VEHICLE: { label: 'Vehicle Insurance', annualPremium: 4000, coverRatio: 0.7 },
+};
+
+// Premiums go up every year at renewal, roughly in line with medical and repair costs
+const PREMIUM_ESCALATION = 0.07;
+const INSURANCE_TYPES = Object.keys(INSURANCE_PRODUCTS) as InsuranceType[];
+
+export function isInsuranceType(value: unknown): value is InsuranceType {
+  return INSURANCE_TYPES.includes(value as InsuranceType);
+}
+
+/**
+ * Annual premium for a policy bought or renewed in this game year
+ */
+export function getInsurancePremium(type: InsuranceType, recurringIncome: number, gameYear: number): number {
+  const { annualPremium } = INSURANCE_PRODUCTS[type];
+  return Math.round(annualPremium * getIncomeScale(recurringIncome) * Math.pow(1 + PREMIUM_ESCALATION, gameYear - 1));
+}
+
+export function createInsurancePolicy(
+  type: InsuranceType,
+  recurringIncome: number,
+  currentYear: number,
+  currentMonth: number
+): InsurancePolicy {
+  return {
+    id: `${Date.now()}-${Math.random()}`,
+    type,
+    premium: getInsurancePremium(type, recurringIncome, currentYear),
+    coverRatio: INSURANCE_PRODUCTS[type].coverRatio,
+    startYear: currentYear,
+    startMonth: currentMonth,
+  };
+}
+
+/**
+ * Renew policies on their anniversary at this year's premium.
+ * A policy lapses when pocket cash can't pay the renewal.
+ */
+export function applyMonthlyInsuranceUpdate(
+  pocketCash: number,
+  policies: InsurancePolicy[],
+  recurringIncome: number,
+  year: number,
+  month: number
+): { pocketCash: number; policies: InsurancePolicy[] } {
+  let cash = pocketCash;
+  const renewed: InsurancePolicy[] = [];
+
+  policies.forEach(policy => {
+    if (month !== policy.startMonth || year <= policy.startYear) {
+      renewed.push(policy);
+      return;
+    }
+
+    const premium = getInsurancePremium(policy.type, recurringIncome, year);
+    if (cash >= premium) {
+      cash -= premium;
+      renewed.push({ ...policy, premium });
+    }
+  });
+
+  return { pocketCash: cash, policies: renewed };
+}
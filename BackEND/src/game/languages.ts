@@ -0,0 +1,33 @@
+import { AdminSettings, Language } from '../types';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// English names are used in the AI report prompt
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  mr: 'Marathi',
+  ta: 'Tamil',
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_NAMES) as Language[];
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+/**
+ * Languages that translations can be stored for - English is the base text itself
+ */
+export function isTranslationLanguage(value: unknown): value is Language {
+  return isLanguage(value) && value !== DEFAULT_LANGUAGE;
+}
+
+/**
+ * The player's own pick, else the room's default, else English
+ */
+export function resolveLanguage(playerLanguage: Language | undefined, settings?: Pick<AdminSettings, 'defaultLanguage'> | null): Language {
+  if (isLanguage(playerLanguage)) return playerLanguage;
+  if (isLanguage(settings?.defaultLanguage)) return settings!.defaultLanguage!;
+  return DEFAULT_LANGUAGE;
+}
@@ -1,55 +1,75 @@
-import { LifeEvent } from '../types';
-
-// Event pool for random selection (losses & gains)
-export const EVENT_POOL = {
-  losses: [
-    { message: 'House robbery during Diwali', amount: -30000 },
-    { message: 'Family medical emergency', amount: -75000 },
-    { message: 'Vehicle repair after monsoon', amount: -20000 },
-    { message: 'Wedding shopping expenses', amount: -50000 },
-    { message: 'Health insurance deductible', amount: -25000 },
-    { message: 'Home repairs after flooding', amount: -45000 },
-    { message: 'Laptop suddenly stopped working', amount: -50000 },
-    { message: 'Legal fees for property dispute', amount: -40000 },
-    { message: 'AC breakdown in peak summer', amount: -10000 },
-    { message: 'Parent hospitalization costs', amount: -80000 },
-    { message: 'Car accident - insurance excess', amount: -22000 },
-    { message: 'Stolen mobile phone', amount: -12000 },
-    { message: 'Urgent home appliance replacement', amount: -28000 },
-    { message: 'Child school fees increase', amount: -50000 },
-    { message: 'Unexpected tax liability', amount: -30000 },
-    { message: 'Emergency dental treatment', amount: -18000 },
-    { message: 'Bike accident repair', amount: -14000 },
-    { message: 'Flooding damaged furniture', amount: -40000 },
-    { message: 'Friend wedding gift expected', amount: -10000 },
-    { message: 'Pet medical emergency', amount: -10000 }
-  ],
-  gains: [
-    { message: 'Diwali bonus from company', amount: 50000 },
-    { message: 'Freelance project bonus', amount: 40000 },
-    { message: 'Side business profit', amount: 35000 },
-    { message: 'Performance bonus at work', amount: 45000 },
-    { message: 'Tax refund received', amount: 25000 },
-    { message: 'Sold old items online', amount: 15000 },
-    { message: 'Investment dividend received', amount: 30000 }
-  ]
-};
-
-const TOTAL_GAME_YEARS = 20;
-
-// Helper: pick a random integer in [min, max]
-function randInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+import { InsurancePolicy, LifeEvent, LifeEventTemplate, LedgerFixedDeposit } from '../types';
+import { CPIPoint, getCPIForMonth } from '../services/marketDataService';
+import { DEFAULT_GAME_DURATION_YEARS } from './gameDuration';
+import { DEFAULT_LIFE_EVENT_POOL } from '../database/lifeEventSeed';
+
+// Pool amounts are set for the default half-yearly income
+export const DEFAULT_RECURRING_INCOME = 50000;
+// Yearly price rise assumed when there is no CPI data
+const ASSUMED_INFLATION = 0.06;
+// Loss events with choices wait this many months for the player before the first choice is applied
+export const LIFE_EVENT_CHOICE_MONTHS = 2;
+
+export interface LifeEventContext {
+  pool?: LifeEventTemplate[];
+  recurringIncome?: number;
+  gameStartYear?: number;
+  gameStartMonth?: number;
+  cpiSeries?: CPIPoint[];
+}
+
+/**
+ * How much bigger amounts are for this game's income than for the default income
+ */
+export function getIncomeScale(recurringIncome?: number): number {
+  return recurringIncome && recurringIncome > 0 ? recurringIncome / DEFAULT_RECURRING_INCOME : 1;
+}
+
+// Price level of an event month relative to the game's first month
+function getPriceScale(context: LifeEventContext, gameYear: number, gameMonth: number): number {
+  const startYear = context.gameStartYear;
+  const startMonth = context.gameStartMonth || 1;
+  if (!startYear) return 1;
+
+  const from = getCPIForMonth(context.cpiSeries || [], startYear, startMonth);
+  const to = getCPIForMonth(context.cpiSeries || [], startYear + gameYear - 1, gameMonth);
+  if (from && to) return to / from;
+
+  const monthsElapsed = (gameYear - 1) * 12 + gameMonth - startMonth;
+  return Math.pow(1 + ASSUMED_INFLATION, monthsElapsed / 12);
+}
+
+// Weighted random pick, preferring templates this player hasn't had yet
+function pickTemplate(candidates: LifeEventTemplate[], used: Set<string>): LifeEventTemplate | null {
+  const fresh = candidates.filter(t => !used.has(t.message));
+  const options = fresh.length > 0 ? fresh : candidates;
+  const totalWeight = options.reduce((sum, t) => sum + Math.max(0, t.weight), 0);
+  if (totalWeight <= 0) return null;
+
+  let roll = Math.random() * totalWeight;
+  for (const template of options) {
+    roll -= Math.max(0, template.weight);
+    if (roll < 0) return template;
+  }
+  return options[options.length - 1];
 }
 
 // Generate a set of LifeEvents for a single player.
 // Rules enforced:
-// - Select `count` events randomly (gains/losses)
-// - Assign random year (1..TOTAL_GAME_YEARS) and random month (1..12)
+// - Every eligible month gets an event with the same probability, so `count` events are expected on average
+// - Life events only appear from Year 4 up to the second-last year (not in first 3 years, not in last year)
 // - Avoid scheduling in game years that have asset unlocks (we treat those as month 1 collisions)
-// - No two events for the same player can be in the same year/month
-export function generateLifeEvents(count: number, assetUnlockSchedule?: any): LifeEvent[] {
+// - Templates are picked by weight among those allowed in that calendar month
+// - Amounts scale with the game's income and with inflation up to the event month
+export function generateLifeEvents(
+  count: number,
+  assetUnlockSchedule?: any,
+  totalYears: number = DEFAULT_GAME_DURATION_YEARS,
+  context: LifeEventContext = {}
+): LifeEvent[] {
   const events: LifeEvent[] = [];
+  const pool = (context.pool || DEFAULT_LIFE_EVENT_POOL).filter(t => t.enabled !== false);
+  if (count <= 0 || pool.length === 0) return events;
 
   // Compute disallowed months set as strings "year-month"
   const disallowed = new Set<string>();
@@ -63,57 +83,90 @@ export function generateLifeEvents(count: number, assetUnlockSchedule?: any): Li
     }
   }
 
-  const pool = [...EVENT_POOL.gains, ...EVENT_POOL.losses];
-  const usedMessages = new Set<string>();
+  const slots: Array<{ year: number; month: number }> = [];
+  for (let year = 4; year <= totalYears - 1; year++) {
+    for (let month = 1; month <= 12; month++) {
+      if (!disallowed.has(`${year}-${month}`)) slots.push({ year, month });
+    }
+  }
+  if (slots.length === 0) return events;
 
-  let attempts = 0;
-  while (events.length < count && attempts < count * 20) {
-    attempts++;
+  const probability = Math.min(1, count / slots.length);
+  const maxEvents = count * 2; // Keeps an unlucky player from drowning in events
+  const incomeScale = getIncomeScale(context.recurringIncome);
+  const usedMessages = new Set<string>();
 
-    // Pick a random event from pool (allow duplicates only if exhausted)
-    const candidate = pool[Math.floor(Math.random() * pool.length)];
-    if (usedMessages.has(candidate.message) && usedMessages.size < pool.length) {
-      continue; // prefer unique events until pool exhausted
-    }
+  for (const { year, month } of slots) {
+    if (events.length >= maxEvents) break;
+    if (Math.random() >= probability) continue;
 
-    // Pick a random year/month avoiding disallowed months and existing events
-    // Life events only appear in Years 4-19 (not in first 3 years, not in last year)
-    let year = randInt(4, TOTAL_GAME_YEARS - 1);
-    let month = randInt(1, 12);
-
-    // Re-roll if in disallowed or collides with existing event
-    let innerAttempts = 0;
-    while ((disallowed.has(`${year}-${month}`) || events.some(e => e.gameYear === year && e.gameMonth === month)) && innerAttempts < 50) {
-      year = randInt(4, TOTAL_GAME_YEARS - 1);
-      month = randInt(1, 12);
-      innerAttempts++;
-    }
+    const calendarMonthCandidates = pool.filter(t => !t.months || t.months.length === 0 || t.months.includes(month));
+    const template = pickTemplate(calendarMonthCandidates, usedMessages);
+    if (!template) continue;
 
-    if (innerAttempts >= 50) {
-      // Give up on strictly avoiding collisions (rare), just pick next slot
-      year = randInt(4, TOTAL_GAME_YEARS - 1);
-      month = randInt(1, 12);
-      // Ensure uniqueness by shifting month until free
-      let shiftAttempts = 0;
-      while (events.some(e => e.gameYear === year && e.gameMonth === month) && shiftAttempts < 24) {
-        month = (month % 12) + 1;
-        shiftAttempts++;
-      }
-    }
+    const amount = Math.round((template.amount * incomeScale * getPriceScale(context, year, month)) / 100) * 100;
 
-    const event: LifeEvent = {
+    events.push({
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      type: candidate.amount >= 0 ? 'gain' : 'loss',
-      message: candidate.message,
-      amount: candidate.amount,
+      type: amount >= 0 ? 'gain' : 'loss',
+      message: template.message,
+      amount,
       gameYear: year,
       gameMonth: month,
-      triggered: false
-    };
+      triggered: false,
+      ...(template.insuranceType && amount < 0 ? { insuranceType: template.insuranceType } : {}),
+      ...(template.choices && template.choices.length > 0 && amount < 0 ? { choices: template.choices } : {}),
+    });
+    usedMessages.add(template.message);
+  }
+
+  return events;
+}
+
+/**
+ * Settle a triggered event: scale the cost by the chosen option, then take off what a
+ * matching insurance policy pays. `amount` on the result is the net cash effect.
+ * Unknown or missing choices fall back to the first one.
+ */
+export function resolveLifeEvent(event: LifeEvent, choiceId: string | undefined, policies: InsurancePolicy[] = []): LifeEvent {
+  if (event.grossAmount !== undefined) return event; // Already settled
+
+  const choice = event.choices?.find(c => c.id === choiceId) ?? event.choices?.[0];
+  const grossAmount = Math.round(event.amount * (choice?.amountFactor ?? 1));
+  const policy = grossAmount < 0 && event.insuranceType
+    ? policies.find(p => p.type === event.insuranceType)
+    : undefined;
+  const insuranceCover = policy ? Math.round(Math.abs(grossAmount) * policy.coverRatio) : 0;
+
+  return {
+    ...event,
+    awaitingChoice: false,
+    choiceId: choice?.id,
+    grossAmount,
+    insuranceCover,
+    amount: grossAmount + insuranceCover,
+  };
+}
+
+/**
+ * Running fixed deposits to break, oldest first, until their proceeds after the
+ * break penalty cover `cost`. Pledged FDs are skipped.
+ */
+export function selectFDsToBreak(
+  fixedDeposits: LedgerFixedDeposit[],
+  cost: number,
+  breakPenalty: number,
+  isPledged: (fdId: string) => boolean
+): LedgerFixedDeposit[] {
+  const selected: LedgerFixedDeposit[] = [];
+  let proceeds = 0;
 
-    events.push(event);
-    usedMessages.add(candidate.message);
+  for (const fd of fixedDeposits) {
+    if (proceeds >= cost) break;
+    if (fd.isMatured || isPledged(fd.id)) continue;
+    selected.push(fd);
+    proceeds += fd.amount * (1 - breakPenalty);
   }
 
-  return events.sort((a, b) => (a.gameYear - b.gameYear) || (a.gameMonth - b.gameMonth));
+  return selected;
 }
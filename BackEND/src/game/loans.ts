@@ -0,0 +1,107 @@
+import { AdminSettings, LedgerLoan, LoanSettings, LoanType } from '../types';
+
+// Indian retail defaults; hosts tune (or switch off) borrowing via AdminSettings.loanSettings
+export const DEFAULT_LOAN_SETTINGS: LoanSettings = {
+  enabled: true,
+  personalLoanRate: 0.14,
+  securedLoanRate: 0.09, // Against an FD or physical gold
+  overdraftRate: 0.18,
+  maxPersonalLoan: 200000,
+  loanToValue: 0.75,
+};
+
+export type LoanTenure = 12 | 24 | 36;
+
+export const MAX_ACTIVE_LOANS = 3;
+const LOAN_TENURES: LoanTenure[] = [12, 24, 36];
+const LOAN_TYPES: LoanType[] = ['personal', 'fdBacked', 'goldBacked'];
+
+const RATE_KEYS: (keyof LoanSettings)[] = ['personalLoanRate', 'securedLoanRate', 'overdraftRate', 'loanToValue'];
+
+const isRate = (value: unknown): boolean =>
+  typeof value === 'number' && isFinite(value) && value >= 0 && value <= 1;
+
+export function isValidLoanSettings(value: unknown): value is LoanSettings {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as LoanSettings;
+  return typeof settings.enabled === 'boolean' &&
+    RATE_KEYS.every(key => isRate(settings[key])) &&
+    typeof settings.maxPersonalLoan === 'number' && isFinite(settings.maxPersonalLoan) && settings.maxPersonalLoan >= 0;
+}
+
+/**
+ * Active loan settings for a room, or null when the host switched borrowing off.
+ * Settings saved before loans existed get the defaults.
+ */
+export function getLoanSettings(settings?: Pick<AdminSettings, 'loanSettings'> | null): LoanSettings | null {
+  const loanSettings = settings?.loanSettings;
+  if (!loanSettings) return DEFAULT_LOAN_SETTINGS;
+  if (!loanSettings.enabled) return null;
+  return isValidLoanSettings(loanSettings) ? loanSettings : DEFAULT_LOAN_SETTINGS;
+}
+
+export function isLoanTenure(value: unknown): value is LoanTenure {
+  return LOAN_TENURES.includes(value as LoanTenure);
+}
+
+export function isLoanType(value: unknown): value is LoanType {
+  return LOAN_TYPES.includes(value as LoanType);
+}
+
+// Annual rate (fraction) for a new loan of the given type
+export function getLoanRate(type: LoanType, settings: LoanSettings): number {
+  return type === 'personal' ? settings.personalLoanRate : settings.securedLoanRate;
+}
+
+/**
+ * Equated monthly instalment for a reducing-balance loan
+ */
+export function calculateEMI(principal: number, annualRate: number, tenureMonths: number): number {
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate === 0) return principal / tenureMonths;
+  const growth = Math.pow(1 + monthlyRate, tenureMonths);
+  return (principal * monthlyRate * growth) / (growth - 1);
+}
+
+export function getOutstandingLoans(loans?: LedgerLoan[]): number {
+  return (loans || []).reduce((sum, loan) => sum + loan.outstanding, 0);
+}
+
+export function getPledgedGoldQuantity(loans?: LedgerLoan[]): number {
+  return (loans || []).reduce((sum, loan) => sum + (loan.pledgedGoldQuantity || 0), 0);
+}
+
+export function isFDPledged(loans: LedgerLoan[] | undefined, fdId: string): boolean {
+  return (loans || []).some(loan => loan.collateralFdId === fdId);
+}
+
+/**
+ * One month of borrowing costs: overdraft interest on negative pocket cash, then every EMI.
+ * EMIs are taken even if they push pocket cash below zero. Repaid loans drop off,
+ * which releases any FD or gold pledged against them.
+ */
+export function applyMonthlyLoanUpdate(
+  pocketCash: number,
+  loans: LedgerLoan[],
+  settings: LoanSettings | null
+): { pocketCash: number; loans: LedgerLoan[] } {
+  let cash = pocketCash;
+
+  if (settings && cash < 0) {
+    cash -= Math.abs(cash) * (settings.overdraftRate / 12);
+  }
+
+  const openLoans: LedgerLoan[] = [];
+  loans.forEach(loan => {
+    const interest = loan.outstanding * (loan.interestRate / 100 / 12);
+    const principalPaid = Math.min(Math.max(loan.emi - interest, 0), loan.outstanding);
+    cash -= interest + principalPaid;
+
+    const outstanding = loan.outstanding - principalPaid;
+    if (outstanding > 0.01) {
+      openLoans.push({ ...loan, outstanding });
+    }
+  });
+
+  return { pocketCash: cash, loans: openLoans };
+}
@@ -0,0 +1,83 @@
+import { MarketNewsItem, MarketNewsCategory } from '../types';
+
+// Real market and macro headlines by calendar month (1996-2025)
+// Kept in sync with FrontEND/src/utils/marketNews.ts, which solo games read directly
+const NEWS: Array<[number, number, MarketNewsCategory, string]> = [
+  [1996, 11, 'MARKETS', 'NSDL starts operations - shares can now be held in demat form'],
+  [1997, 7, 'GLOBAL', 'Thailand floats the baht; the Asian financial crisis spreads across the region'],
+  [1998, 5, 'POLICY', 'India conducts Pokhran-II nuclear tests; the US imposes sanctions'],
+  [1998, 9, 'GLOBAL', 'Wall Street banks rescue hedge fund LTCM as Russia defaults'],
+  [1999, 12, 'POLICY', 'IRDA Act passed - insurance opens up to private companies'],
+  [2000, 3, 'GLOBAL', 'Dot-com bubble peaks: Nasdaq tops 5,000 before a long slide'],
+  [2001, 3, 'MARKETS', 'Ketan Parekh scam unravels; brokers default and the Sensex tumbles'],
+  [2001, 7, 'MARKETS', 'UTI freezes US-64 redemptions, shaking mutual fund investors'],
+  [2001, 9, 'GLOBAL', 'September 11 attacks: US stock markets shut for four days'],
+  [2002, 7, 'GLOBAL', 'WorldCom files for bankruptcy after an accounting fraud'],
+  [2003, 3, 'GLOBAL', 'US-led invasion of Iraq begins'],
+  [2004, 5, 'MARKETS', 'Surprise election result: Sensex crashes 15% intraday, trading halted twice'],
+  [2005, 8, 'COMMODITIES', 'Hurricane Katrina pushes crude oil above $70 a barrel'],
+  [2006, 5, 'MARKETS', 'Sensex drops 826 points in a day as foreign investors pull out'],
+  [2007, 10, 'MARKETS', 'Sensex crosses 20,000 for the first time'],
+  [2008, 1, 'MARKETS', 'Sensex plunges 1,400 points in a day as global markets sell off'],
+  [2008, 7, 'COMMODITIES', 'Crude oil hits a record $147 a barrel'],
+  [2008, 9, 'GLOBAL', 'Lehman Brothers collapses - the global financial crisis deepens'],
+  [2008, 10, 'RBI', 'RBI cuts the repo rate and CRR in emergency moves to ease liquidity'],
+  [2008, 11, 'POLICY', 'Mumbai terror attacks; stock markets stay shut for a day'],
+  [2009, 1, 'MARKETS', 'Satyam founder confesses to a ₹7,000 crore accounting fraud'],
+  [2009, 5, 'MARKETS', 'Sensex jumps 17% and hits the upper circuit after a decisive election result'],
+  [2010, 3, 'RBI', 'RBI starts raising rates as inflation climbs'],
+  [2010, 5, 'GLOBAL', 'Greece gets an EU-IMF bailout as the euro debt crisis erupts'],
+  [2011, 8, 'GLOBAL', 'S&P strips the US of its AAA credit rating'],
+  [2011, 9, 'COMMODITIES', 'Gold hits a record near $1,900 an ounce'],
+  [2012, 9, 'POLICY', 'Big-bang reforms: FDI allowed in multi-brand retail and aviation'],
+  [2013, 5, 'GLOBAL', 'Fed hints at tapering bond purchases - the "taper tantrum" begins'],
+  [2013, 8, 'CURRENCY', 'Rupee crashes to a record low of 68.8 against the dollar'],
+  [2013, 9, 'RBI', 'Raghuram Rajan takes over as RBI governor'],
+  [2014, 5, 'MARKETS', 'Single-party majority in the general election; Sensex crosses 25,000'],
+  [2014, 11, 'COMMODITIES', 'OPEC refuses to cut output and crude oil slumps'],
+  [2015, 1, 'RBI', 'RBI surprises with a rate cut between policy meetings'],
+  [2015, 8, 'GLOBAL', 'China devalues the yuan; global markets slide'],
+  [2016, 6, 'GLOBAL', 'UK votes to leave the EU - Brexit shock hits global markets'],
+  [2016, 11, 'POLICY', 'Demonetisation: ₹500 and ₹1,000 notes withdrawn overnight'],
+  [2017, 7, 'POLICY', 'GST rolls out nationwide, replacing a web of indirect taxes'],
+  [2017, 12, 'MARKETS', 'Bitcoin nears $20,000 at the peak of a crypto frenzy'],
+  [2018, 9, 'MARKETS', 'IL&FS defaults on its debt; NBFC and housing finance stocks crash'],
+  [2019, 9, 'POLICY', 'Corporate tax rate cut to 22%; Sensex jumps over 1,900 points'],
+  [2020, 3, 'MARKETS', 'COVID-19 lockdown announced; Sensex falls 13% in a single day'],
+  [2020, 5, 'RBI', 'RBI cuts the repo rate to a record low of 4%'],
+  [2021, 1, 'MARKETS', 'Sensex crosses 50,000 as markets rebound from the pandemic'],
+  [2022, 2, 'GLOBAL', 'Russia invades Ukraine; crude oil jumps above $100'],
+  [2022, 5, 'RBI', 'RBI raises the repo rate in an unscheduled meeting to fight inflation'],
+  [2023, 1, 'MARKETS', 'Hindenburg report triggers a sell-off in Adani group stocks'],
+  [2023, 3, 'GLOBAL', 'Silicon Valley Bank collapses, sparking fears of a banking crisis'],
+  [2024, 6, 'MARKETS', 'Election results day: Sensex falls 4,000 points before recovering'],
+  [2024, 9, 'MARKETS', 'Sensex hits a record above 85,000'],
+  [2025, 2, 'RBI', 'RBI cuts the repo rate for the first time in nearly five years'],
+];
+
+export const MARKET_NEWS: MarketNewsItem[] = NEWS.map(([year, month, category, headline]) => ({
+  id: `${year}-${month}-${category}`,
+  year,
+  month,
+  category,
+  headline,
+}));
+
+/**
+ * Headlines dated exactly to this calendar month
+ */
+export function getNewsForMonth(calendarYear: number, month: number): MarketNewsItem[] {
+  return MARKET_NEWS.filter(item => item.year === calendarYear && item.month === month);
+}
+
+/**
+ * Headlines between two calendar months (inclusive), oldest first
+ */
+export function getNewsInRange(fromYear: number, fromMonth: number, toYear: number, toMonth: number): MarketNewsItem[] {
+  const from = fromYear * 12 + fromMonth;
+  const to = toYear * 12 + toMonth;
+  return MARKET_NEWS.filter(item => {
+    const at = item.year * 12 + item.month;
+    return at >= from && at <= to;
+  });
+}
@@ -0,0 +1,155 @@
+import { NewStandingOrder, OrderExecution, PlayerLedger, StandingOrder, StandingOrderFill, StandingOrderType } from '../types';
+import { PriceSnapshot } from '../services/marketDataService';
+import { LedgerResult, executeTrade, getHoldingQuantity, isLedgerAssetType } from './playerLedger';
+import { TradeTaxContext, calculateTradeCharges } from './taxes';
+import { getPledgedGoldQuantity } from './loans';
+
+export const MAX_OPEN_ORDERS = 20;
+const MAX_ORDER_EXECUTIONS = 20; // Keep the open orders panel history short
+const STANDING_ORDER_TYPES: StandingOrderType[] = ['limitBuy', 'limitSell', 'stopLoss', 'sip'];
+
+const isPositiveAmount = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+
+export function isStandingOrderType(value: unknown): value is StandingOrderType {
+  return STANDING_ORDER_TYPES.includes(value as StandingOrderType);
+}
+
+/**
+ * Add a limit, stop-loss or SIP order to the player's book. Nothing is reserved -
+ * the order fills on a later month if the cash or holdings are there by then.
+ */
+export function placeStandingOrder(ledger: PlayerLedger, order: NewStandingOrder, currentYear: number, currentMonth: number): LedgerResult {
+  if (!isStandingOrderType(order?.type) || !isLedgerAssetType(order.assetType) || typeof order.assetName !== 'string') {
+    return { success: false, error: 'Invalid order' };
+  }
+
+  if (order.type === 'sip' ? !isPositiveAmount(order.amount) : !isPositiveAmount(order.quantity) || !isPositiveAmount(order.triggerPrice)) {
+    return { success: false, error: order.type === 'sip' ? 'Invalid SIP amount' : 'Invalid quantity or trigger price' };
+  }
+
+  if ((ledger.openOrders?.length || 0) >= MAX_OPEN_ORDERS) {
+    return { success: false, error: `You can have at most ${MAX_OPEN_ORDERS} open orders` };
+  }
+
+  const newOrder: StandingOrder = {
+    id: `${Date.now()}-${Math.random()}`,
+    type: order.type,
+    assetType: order.assetType,
+    assetName: order.assetName,
+    ...(order.type === 'sip' ? { amount: order.amount } : { quantity: order.quantity, triggerPrice: order.triggerPrice }),
+    createdYear: currentYear,
+    createdMonth: currentMonth,
+  };
+  ledger.openOrders = [...(ledger.openOrders || []), newOrder];
+
+  return { success: true };
+}
+
+export function cancelStandingOrder(ledger: PlayerLedger, orderId: string): LedgerResult {
+  const orders = ledger.openOrders || [];
+  if (!orders.some(order => order.id === orderId)) {
+    return { success: false, error: 'Order not found' };
+  }
+
+  ledger.openOrders = orders.filter(order => order.id !== orderId);
+  return { success: true };
+}
+
+// Side and size of an order's fill at this price, or null when it doesn't fire this month
+function getOrderFill(
+  ledger: PlayerLedger,
+  order: StandingOrder,
+  symbol: string,
+  price: number,
+  tax: TradeTaxContext | null,
+  year: number,
+  month: number
+): { side: 'buy' | 'sell'; quantity: number } | null {
+  const canAfford = (quantity: number) =>
+    quantity * price + calculateTradeCharges('buy', order.assetType, quantity * price, tax?.settings ?? null).total <= ledger.pocketCash;
+
+  if (order.type === 'sip') {
+    if (order.lastExecutedYear === year && order.lastExecutedMonth === month) return null;
+    const quantity = Math.floor((order.amount || 0) / price);
+    return quantity > 0 && canAfford(quantity) ? { side: 'buy', quantity } : null;
+  }
+
+  if (order.type === 'limitBuy') {
+    const quantity = order.quantity || 0;
+    return price <= (order.triggerPrice || 0) && quantity > 0 && canAfford(quantity) ? { side: 'buy', quantity } : null;
+  }
+
+  // Limit sells fire at or above their price, stop-losses at or below
+  const trigger = order.triggerPrice || 0;
+  if (order.type === 'limitSell' ? price < trigger : price > trigger) return null;
+
+  // Sells never exceed what is held; gold pledged against a loan can't be sold
+  const pledged = order.assetType === 'physicalGold' ? getPledgedGoldQuantity(ledger.loans) : 0;
+  const quantity = Math.min(order.quantity || 0, getHoldingQuantity(ledger, order.assetType, symbol) - pledged);
+  return quantity > 0 ? { side: 'sell', quantity } : null;
+}
+
+/**
+ * Fill the player's standing orders at this month's prices, in book order.
+ * Buys are funded from pocket cash as it stands after the fills before them. Filled limit and
+ * stop-loss orders leave the book; SIPs stay and remember the month. resolveSymbol returns null
+ * for assets that are not tradable yet, which are skipped.
+ */
+export function settleStandingOrders(
+  ledger: PlayerLedger,
+  prices: PriceSnapshot,
+  resolveSymbol: (order: StandingOrder) => string | null,
+  tax: TradeTaxContext | null,
+  year: number,
+  month: number
+): StandingOrderFill[] {
+  const orders = ledger.openOrders || [];
+  const fills: StandingOrderFill[] = [];
+  const filledIds = new Set<string>();
+
+  for (const order of orders) {
+    const symbol = resolveSymbol(order);
+    const price = symbol ? prices[symbol] : undefined;
+    if (!symbol || !isPositiveAmount(price)) continue;
+
+    const fill = getOrderFill(ledger, order, symbol, price, tax, year, month);
+    if (!fill) continue;
+
+    const result = executeTrade(ledger, fill.side, order.assetType, symbol, fill.quantity, price, tax);
+    if (!result.success || !result.trade) {
+      order.lastRejection = { reason: result.error || 'Order could not be filled', gameYear: year, gameMonth: month };
+      continue;
+    }
+
+    const execution: OrderExecution = {
+      orderId: order.id,
+      type: order.type,
+      assetName: order.assetName,
+      side: fill.side,
+      quantity: fill.quantity,
+      price,
+      gameYear: year,
+      gameMonth: month,
+    };
+    fills.push({ execution, trade: result.trade });
+
+    if (order.type === 'sip') {
+      order.lastExecutedYear = year;
+      order.lastExecutedMonth = month;
+      order.lastRejection = undefined;
+    } else {
+      filledIds.add(order.id);
+    }
+  }
+
+  if (fills.length > 0) {
+    ledger.openOrders = orders.filter(order => !filledIds.has(order.id));
+    ledger.orderExecutions = [
+      ...fills.map(fill => fill.execution).reverse(),
+      ...(ledger.orderExecutions || []),
+    ].slice(0, MAX_ORDER_EXECUTIONS);
+  }
+
+  return fills;
+}
@@ -0,0 +1,654 @@
+import {
+  BondType,
+  CorporateActionPayout,
+  InsuranceType,
+  LifeEvent,
+  PlayerLedger,
+  LedgerHolding,
+  LedgerAssetType,
+  LedgerFixedDeposit,
+  LedgerLoan,
+  LoanSettings,
+  LoanType,
+  PortfolioBreakdown,
+  TaxSettings,
+  TradeExecution,
+} from '../types';
+import { CorporateAction, PriceSnapshot } from '../services/marketDataService';
+import { calculateServerNetworth } from '../services/networthValidator';
+import { FDDuration, MIN_FD_TENURE_MONTHS, MAX_FD_TENURE_MONTHS } from '../services/fdRates';
+import {
+  TradeTaxContext,
+  calculateTradeCharges,
+  calculateCapitalGainsTax,
+  calculateFDInterestTax,
+} from './taxes';
+import {
+  LoanTenure,
+  MAX_ACTIVE_LOANS,
+  applyMonthlyLoanUpdate,
+  calculateEMI,
+  getLoanRate,
+  getPledgedGoldQuantity,
+  isFDPledged,
+} from './loans';
+import {
+  BOND_TERMS,
+  MAX_BONDS,
+  MIN_BOND_INVESTMENT,
+  applyMonthlyBondUpdate,
+  createBond,
+  valueBond,
+} from './bonds';
+import { applyMonthlyInsuranceUpdate, createInsurancePolicy, INSURANCE_PRODUCTS } from './insurance';
+import { selectFDsToBreak } from './lifeEvents';
+
+// Same banking rules as the client (useGameState)
+export const SAVINGS_INTEREST_RATE = 0.025; // 2.5% per annum, credited monthly
+const MAX_FIXED_DEPOSITS = 3;
+const FD_BREAK_PENALTY = 0.01; // 1% of principal
+
+type SingleHoldingType = 'physicalGold' | 'digitalGold' | 'commodity';
+type GroupHoldingType = Exclude<LedgerAssetType, SingleHoldingType>;
+
+const SINGLE_HOLDING_TYPES: LedgerAssetType[] = ['physicalGold', 'digitalGold', 'commodity'];
+// Gold, commodities, crypto and currencies have no dividends or splits
+const CORPORATE_ACTION_TYPES: GroupHoldingType[] = ['stocks', 'reits', 'indexFund', 'mutualFund'];
+
+export interface LedgerResult {
+  success: boolean;
+  error?: string;
+  trade?: TradeExecution;
+}
+
+const emptyHolding = (): LedgerHolding => ({ quantity: 0, avgPrice: 0, totalInvested: 0 });
+
+const isPositiveAmount = (value: unknown): value is number =>
+  typeof value === 'number' && isFinite(value) && value > 0;
+
+export function isLedgerAssetType(value: unknown): value is LedgerAssetType {
+  return typeof value === 'string' && (
+    SINGLE_HOLDING_TYPES.includes(value as LedgerAssetType) ||
+    ['indexFund', 'mutualFund', 'stocks', 'crypto', 'reits', 'forex'].includes(value)
+  );
+}
+
+export function isFDDuration(value: unknown): value is FDDuration {
+  return Number.isInteger(value) && (value as number) >= MIN_FD_TENURE_MONTHS && (value as number) <= MAX_FD_TENURE_MONTHS;
+}
+
+// Fresh ledger for a player at game start
+export function createLedger(initialPocketCash: number): PlayerLedger {
+  return {
+    pocketCash: initialPocketCash,
+    pocketCashReceivedTotal: initialPocketCash,
+    savingsBalance: 0,
+    savingsTotalDeposited: 0,
+    fixedDeposits: [],
+    holdings: {
+      physicalGold: emptyHolding(),
+      digitalGold: emptyHolding(),
+      indexFund: {},
+      mutualFund: {},
+      stocks: {},
+      crypto: {},
+      commodity: emptyHolding(),
+      reits: {},
+      forex: {},
+    },
+    loans: [],
+    insurancePolicies: [],
+  };
+}
+
+function getHolding(ledger: PlayerLedger, assetType: LedgerAssetType, assetName: string): LedgerHolding {
+  if (SINGLE_HOLDING_TYPES.includes(assetType)) {
+    return ledger.holdings[assetType as SingleHoldingType];
+  }
+  return ledger.holdings[assetType as GroupHoldingType]?.[assetName] || emptyHolding();
+}
+
+function setHolding(ledger: PlayerLedger, assetType: LedgerAssetType, assetName: string, holding: LedgerHolding): void {
+  if (SINGLE_HOLDING_TYPES.includes(assetType)) {
+    ledger.holdings[assetType as SingleHoldingType] = holding;
+    return;
+  }
+
+  // Ledgers saved before a holding group existed (e.g. forex) start it empty
+  const group = ledger.holdings[assetType as GroupHoldingType] ??= {};
+  if (holding.quantity === 0) {
+    delete group[assetName];
+  } else {
+    group[assetName] = holding;
+  }
+}
+
+export function getHoldingQuantity(ledger: PlayerLedger, assetType: LedgerAssetType, assetName: string): number {
+  return getHolding(ledger, assetType, assetName).quantity;
+}
+
+/**
+ * Buy or sell an asset at the room's current server price. With a tax context,
+ * buys pay brokerage + stamp duty and sells pay brokerage, STT and capital gains tax.
+ */
+export function executeTrade(
+  ledger: PlayerLedger,
+  side: 'buy' | 'sell',
+  assetType: LedgerAssetType,
+  assetName: string,
+  quantity: number,
+  price: number | undefined,
+  tax: TradeTaxContext | null = null
+): LedgerResult {
+  if (!isPositiveAmount(quantity)) {
+    return { success: false, error: 'Invalid quantity' };
+  }
+
+  if (!isPositiveAmount(price)) {
+    return { success: false, error: 'Price data not available for this period' };
+  }
+
+  const holding = getHolding(ledger, assetType, assetName);
+  const totalValue = quantity * price;
+  const pocketCashBefore = ledger.pocketCash;
+  const charges = calculateTradeCharges(side, assetType, totalValue, tax?.settings ?? null).total;
+  let capitalGainsTax = 0;
+
+  if (side === 'buy') {
+    if (ledger.pocketCash < 0) {
+      return { success: false, error: 'Cannot buy while you are in debt' };
+    }
+    if (totalValue + charges > ledger.pocketCash) {
+      return { success: false, error: 'Not enough pocket cash' };
+    }
+
+    // Charges are part of the cost basis
+    const newQuantity = holding.quantity + quantity;
+    const newTotalInvested = holding.totalInvested + totalValue + charges;
+    const monthIndex = tax?.monthIndex ?? 0;
+    setHolding(ledger, assetType, assetName, {
+      quantity: newQuantity,
+      avgPrice: newTotalInvested / newQuantity,
+      totalInvested: newTotalInvested,
+      acquiredMonthIndex: ((holding.acquiredMonthIndex ?? monthIndex) * holding.quantity + monthIndex * quantity) / newQuantity,
+    });
+    ledger.pocketCash -= totalValue + charges;
+  } else {
+    if (holding.quantity < quantity) {
+      return { success: false, error: 'Not enough holdings to sell' };
+    }
+    if (assetType === 'physicalGold' && holding.quantity - getPledgedGoldQuantity(ledger.loans) < quantity) {
+      return { success: false, error: 'Gold pledged against a loan cannot be sold until the loan is repaid' };
+    }
+
+    const newQuantity = holding.quantity - quantity;
+    const reducedInvestment = (holding.totalInvested / holding.quantity) * quantity;
+    const newTotalInvested = holding.totalInvested - reducedInvestment;
+    if (tax) {
+      const holdingMonths = tax.monthIndex - (holding.acquiredMonthIndex ?? tax.monthIndex);
+      capitalGainsTax = calculateCapitalGainsTax(totalValue - charges - reducedInvestment, holdingMonths, tax.settings);
+    }
+    setHolding(ledger, assetType, assetName, {
+      quantity: newQuantity,
+      avgPrice: newQuantity > 0 ? newTotalInvested / newQuantity : 0,
+      totalInvested: newQuantity > 0 ? newTotalInvested : 0,
+      acquiredMonthIndex: newQuantity > 0 ? holding.acquiredMonthIndex : undefined,
+    });
+    ledger.pocketCash += totalValue - charges - capitalGainsTax;
+  }
+
+  return {
+    success: true,
+    trade: {
+      side,
+      assetType,
+      assetName,
+      quantity,
+      price,
+      totalValue,
+      pocketCashBefore,
+      pocketCashAfter: ledger.pocketCash,
+      holdingQuantityBefore: holding.quantity,
+      holdingQuantityAfter: side === 'buy' ? holding.quantity + quantity : holding.quantity - quantity,
+      charges,
+      capitalGainsTax,
+    },
+  };
+}
+
+export function depositToSavings(ledger: PlayerLedger, amount: number): LedgerResult {
+  if (!isPositiveAmount(amount)) {
+    return { success: false, error: 'Invalid amount' };
+  }
+  if (amount > ledger.pocketCash) {
+    return { success: false, error: 'Not enough pocket cash' };
+  }
+
+  ledger.pocketCash -= amount;
+  ledger.savingsBalance += amount;
+  ledger.savingsTotalDeposited += amount;
+
+  return { success: true };
+}
+
+export function withdrawFromSavings(ledger: PlayerLedger, amount: number): LedgerResult {
+  if (!isPositiveAmount(amount)) {
+    return { success: false, error: 'Invalid amount' };
+  }
+  if (amount > ledger.savingsBalance) {
+    return { success: false, error: 'Not enough savings balance' };
+  }
+
+  // Reduce totalDeposited proportionally when withdrawing
+  const currentBalance = ledger.savingsBalance;
+  const currentDeposited = ledger.savingsTotalDeposited || currentBalance;
+  const withdrawalRatio = amount / currentBalance;
+
+  ledger.savingsTotalDeposited = Math.max(0, currentDeposited - currentDeposited * withdrawalRatio);
+  ledger.savingsBalance = currentBalance - amount;
+  ledger.pocketCash += amount;
+
+  return { success: true };
+}
+
+export function openFixedDeposit(
+  ledger: PlayerLedger,
+  amount: number,
+  duration: FDDuration,
+  interestRate: number,
+  currentYear: number,
+  currentMonth: number
+): LedgerResult {
+  if (!isPositiveAmount(amount)) {
+    return { success: false, error: 'Invalid amount' };
+  }
+  if (amount > ledger.pocketCash) {
+    return { success: false, error: 'Not enough pocket cash' };
+  }
+  if (ledger.fixedDeposits.length >= MAX_FIXED_DEPOSITS) {
+    return { success: false, error: `You can hold at most ${MAX_FIXED_DEPOSITS} fixed deposits` };
+  }
+
+  const fd: LedgerFixedDeposit = {
+    id: `${Date.now()}-${Math.random()}`,
+    amount,
+    duration,
+    interestRate,
+    startMonth: currentMonth,
+    startYear: currentYear,
+    maturityMonth: (currentMonth + duration) % 12 || 12,
+    maturityYear: currentYear + Math.floor((currentMonth + duration - 1) / 12),
+    isMatured: false,
+  };
+
+  ledger.pocketCash -= amount;
+  ledger.fixedDeposits.push(fd);
+
+  return { success: true };
+}
+
+export function collectFixedDeposit(ledger: PlayerLedger, fdId: string, taxSettings: TaxSettings | null = null): LedgerResult {
+  const fd = ledger.fixedDeposits.find(f => f.id === fdId);
+  if (!fd) {
+    return { success: false, error: 'Fixed deposit not found' };
+  }
+  if (!fd.isMatured) {
+    return { success: false, error: 'Fixed deposit has not matured yet' };
+  }
+  if (isFDPledged(ledger.loans, fdId)) {
+    return { success: false, error: 'Fixed deposit is pledged against a loan; repay the loan first' };
+  }
+
+  // FD rates are annual, so scale by tenure in years
+  const interest = fd.amount * (fd.interestRate / 100) * (fd.duration / 12);
+  ledger.pocketCash += fd.amount + interest - calculateFDInterestTax(interest, taxSettings);
+  ledger.fixedDeposits = ledger.fixedDeposits.filter(f => f.id !== fdId);
+
+  return { success: true };
+}
+
+export function breakFixedDeposit(ledger: PlayerLedger, fdId: string): LedgerResult {
+  const fd = ledger.fixedDeposits.find(f => f.id === fdId);
+  if (!fd) {
+    return { success: false, error: 'Fixed deposit not found' };
+  }
+  if (isFDPledged(ledger.loans, fdId)) {
+    return { success: false, error: 'Fixed deposit is pledged against a loan; repay the loan first' };
+  }
+
+  ledger.pocketCash += fd.amount * (1 - FD_BREAK_PENALTY);
+  ledger.fixedDeposits = ledger.fixedDeposits.filter(f => f.id !== fdId);
+
+  return { success: true };
+}
+
+/**
+ * Borrow into pocket cash. Personal loans are capped by maxPersonalLoan; secured loans
+ * lend up to loanToValue of an unpledged FD or of physical gold at the current price.
+ */
+export function takeLoan(
+  ledger: PlayerLedger,
+  type: LoanType,
+  amount: number,
+  tenureMonths: LoanTenure,
+  settings: LoanSettings | null,
+  currentYear: number,
+  currentMonth: number,
+  collateral: { fdId?: string; goldPrice?: number } = {}
+): LedgerResult {
+  if (!settings) {
+    return { success: false, error: 'Loans are disabled for this game' };
+  }
+  if (!isPositiveAmount(amount)) {
+    return { success: false, error: 'Invalid amount' };
+  }
+
+  const loans = ledger.loans || [];
+  if (loans.length >= MAX_ACTIVE_LOANS) {
+    return { success: false, error: `You can have at most ${MAX_ACTIVE_LOANS} loans` };
+  }
+
+  const loan: LedgerLoan = {
+    id: `${Date.now()}-${Math.random()}`,
+    type,
+    principal: amount,
+    interestRate: getLoanRate(type, settings) * 100,
+    tenureMonths,
+    emi: calculateEMI(amount, getLoanRate(type, settings), tenureMonths),
+    outstanding: amount,
+    startYear: currentYear,
+    startMonth: currentMonth,
+  };
+
+  if (type === 'personal') {
+    const borrowed = loans.filter(l => l.type === 'personal').reduce((sum, l) => sum + l.outstanding, 0);
+    if (borrowed + amount > settings.maxPersonalLoan) {
+      return { success: false, error: 'Amount is above your personal loan limit' };
+    }
+  } else if (type === 'fdBacked') {
+    const fd = ledger.fixedDeposits.find(f => f.id === collateral.fdId);
+    if (!fd || fd.isMatured) {
+      return { success: false, error: 'Choose a running fixed deposit to borrow against' };
+    }
+    if (isFDPledged(loans, fd.id)) {
+      return { success: false, error: 'This fixed deposit is already pledged' };
+    }
+    if (amount > fd.amount * settings.loanToValue) {
+      return { success: false, error: 'Amount is above the loan limit for this fixed deposit' };
+    }
+    loan.collateralFdId = fd.id;
+  } else {
+    const goldPrice = collateral.goldPrice;
+    if (!isPositiveAmount(goldPrice)) {
+      return { success: false, error: 'Gold price not available for this period' };
+    }
+    const freeGold = ledger.holdings.physicalGold.quantity - getPledgedGoldQuantity(loans);
+    if (amount > freeGold * goldPrice * settings.loanToValue) {
+      return { success: false, error: 'Not enough unpledged physical gold for this amount' };
+    }
+    // Pledge only as much gold as the amount needs
+    loan.pledgedGoldQuantity = Math.min(freeGold, amount / (goldPrice * settings.loanToValue));
+  }
+
+  ledger.loans = [...loans, loan];
+  ledger.pocketCash += amount;
+
+  return { success: true };
+}
+
+// Close a loan early by paying the outstanding principal from pocket cash
+export function repayLoan(ledger: PlayerLedger, loanId: string): LedgerResult {
+  const loan = (ledger.loans || []).find(l => l.id === loanId);
+  if (!loan) {
+    return { success: false, error: 'Loan not found' };
+  }
+  if (loan.outstanding > ledger.pocketCash) {
+    return { success: false, error: 'Not enough pocket cash to repay this loan' };
+  }
+
+  ledger.pocketCash -= loan.outstanding;
+  ledger.loans = (ledger.loans || []).filter(l => l.id !== loanId);
+
+  return { success: true };
+}
+
+// Buy a bond at par; the coupon is fixed at the current market yield
+export function buyBond(
+  ledger: PlayerLedger,
+  type: BondType,
+  amount: number,
+  calendarYear: number,
+  currentYear: number,
+  currentMonth: number
+): LedgerResult {
+  if (!isPositiveAmount(amount) || amount < MIN_BOND_INVESTMENT) {
+    return { success: false, error: `Minimum bond investment is ₹${MIN_BOND_INVESTMENT}` };
+  }
+  if (amount > ledger.pocketCash) {
+    return { success: false, error: 'Insufficient funds' };
+  }
+
+  const bonds = ledger.bonds || [];
+  if (bonds.length >= MAX_BONDS) {
+    return { success: false, error: `You can hold at most ${MAX_BONDS} bonds` };
+  }
+
+  ledger.pocketCash -= amount;
+  ledger.bonds = [...bonds, createBond(type, amount, calendarYear, currentYear, currentMonth)];
+
+  return { success: true };
+}
+
+// Sell a tradeable bond before maturity at its current market value
+export function sellBond(
+  ledger: PlayerLedger,
+  bondId: string,
+  currentYear: number,
+  currentMonth: number,
+  taxSettings: TaxSettings | null = null
+): LedgerResult {
+  const bond = (ledger.bonds || []).find(b => b.id === bondId);
+  if (!bond) {
+    return { success: false, error: 'Bond not found' };
+  }
+  if (!BOND_TERMS[bond.type].tradeable) {
+    return { success: false, error: `${BOND_TERMS[bond.type].label} can only be held to maturity` };
+  }
+
+  const value = valueBond(bond, currentYear, currentMonth);
+  const holdingMonths = (currentYear - bond.startYear) * 12 + (currentMonth - bond.startMonth);
+  const tax = calculateCapitalGainsTax(value - bond.faceValue, holdingMonths, taxSettings);
+
+  ledger.pocketCash += value - tax;
+  ledger.bonds = (ledger.bonds || []).filter(b => b.id !== bondId);
+
+  return { success: true };
+}
+
+// Buy a one-year policy; the premium is paid now and again on every anniversary
+export function buyInsurance(
+  ledger: PlayerLedger,
+  type: InsuranceType,
+  recurringIncome: number,
+  currentYear: number,
+  currentMonth: number
+): LedgerResult {
+  const policies = ledger.insurancePolicies || [];
+  if (policies.some(p => p.type === type)) {
+    return { success: false, error: `You already have ${INSURANCE_PRODUCTS[type].label}` };
+  }
+
+  const policy = createInsurancePolicy(type, recurringIncome, currentYear, currentMonth);
+  if (policy.premium > ledger.pocketCash) {
+    return { success: false, error: 'Insufficient funds' };
+  }
+
+  ledger.pocketCash -= policy.premium;
+  ledger.insurancePolicies = [...policies, policy];
+
+  return { success: true };
+}
+
+// Stop a policy from renewing - premiums already paid are not refunded
+export function cancelInsurance(ledger: PlayerLedger, policyId: string): LedgerResult {
+  const policies = ledger.insurancePolicies || [];
+  if (!policies.some(p => p.id === policyId)) {
+    return { success: false, error: 'Policy not found' };
+  }
+
+  ledger.insurancePolicies = policies.filter(p => p.id !== policyId);
+  return { success: true };
+}
+
+/**
+ * Month rollover: savings interest, FD maturity, bond coupons and redemptions,
+ * recurring income (months 6 and 12), insurance renewals, then overdraft interest and loan EMIs
+ */
+export function applyMonthlyLedgerUpdate(
+  ledger: PlayerLedger,
+  year: number,
+  month: number,
+  recurringIncome: number,
+  loanSettings: LoanSettings | null = null,
+  taxSettings: TaxSettings | null = null
+): void {
+  ledger.savingsBalance += ledger.savingsBalance * (SAVINGS_INTEREST_RATE / 12);
+
+  ledger.fixedDeposits.forEach(fd => {
+    if (!fd.isMatured && fd.maturityYear === year && fd.maturityMonth === month) {
+      fd.isMatured = true;
+    }
+  });
+
+  const bondUpdate = applyMonthlyBondUpdate(ledger.pocketCash, ledger.bonds || [], year, month, taxSettings);
+  ledger.pocketCash = bondUpdate.pocketCash;
+  ledger.bonds = bondUpdate.bonds;
+
+  if ((month === 6 || month === 12) && recurringIncome > 0) {
+    ledger.pocketCash += recurringIncome;
+    ledger.pocketCashReceivedTotal += recurringIncome;
+  }
+
+  const insuranceUpdate = applyMonthlyInsuranceUpdate(ledger.pocketCash, ledger.insurancePolicies || [], recurringIncome, year, month);
+  ledger.pocketCash = insuranceUpdate.pocketCash;
+  ledger.insurancePolicies = insuranceUpdate.policies;
+
+  const { pocketCash, loans } = applyMonthlyLoanUpdate(ledger.pocketCash, ledger.loans || [], loanSettings);
+  ledger.pocketCash = pocketCash;
+  ledger.loans = loans;
+}
+
+// Life event gains count towards money received; losses only hit pocket cash
+export function applyLifeEventToLedger(ledger: PlayerLedger, amount: number): void {
+  ledger.pocketCash += amount;
+  if (amount > 0) {
+    ledger.pocketCashReceivedTotal += amount;
+  }
+}
+
+// Quiz bonus cash is paid into pocket cash and counts towards money received
+export function applyQuizBonusToLedger(ledger: PlayerLedger, amount: number): void {
+  ledger.pocketCash += amount;
+  ledger.pocketCashReceivedTotal += amount;
+}
+
+/**
+ * Apply a settled life event (see resolveLifeEvent). A choice that breaks FDs cashes them in,
+ * oldest first, before the cost is taken. Returns the principal of the FDs broken.
+ */
+export function applyResolvedLifeEventToLedger(ledger: PlayerLedger, event: LifeEvent): number {
+  const choice = event.choices?.find(c => c.id === event.choiceId);
+  let fdBroken = 0;
+
+  if (choice?.breakFD && event.amount < 0) {
+    const fixedDeposits = selectFDsToBreak(ledger.fixedDeposits, Math.abs(event.amount), FD_BREAK_PENALTY, fdId => isFDPledged(ledger.loans, fdId));
+    fixedDeposits.forEach(fd => {
+      if (breakFixedDeposit(ledger, fd.id).success) fdBroken += fd.amount;
+    });
+  }
+
+  applyLifeEventToLedger(ledger, event.amount);
+  return fdBroken;
+}
+
+/**
+ * Apply a month's corporate actions to a ledger
+ * Dividends go to pocket cash (they are returns, not money received); splits and bonuses
+ * scale the quantity and average price so the amount invested is unchanged
+ */
+export function applyCorporateActionsToLedger(
+  ledger: PlayerLedger,
+  actions: CorporateAction[]
+): CorporateActionPayout[] {
+  const payouts: CorporateActionPayout[] = [];
+
+  actions.forEach(action => {
+    CORPORATE_ACTION_TYPES.forEach(assetType => {
+      const holding = ledger.holdings[assetType][action.assetName];
+      if (!holding || holding.quantity <= 0) return;
+
+      const quantityBefore = holding.quantity;
+
+      if (action.actionType === 'dividend') {
+        const amount = quantityBefore * action.amount;
+        if (!isPositiveAmount(amount)) return;
+
+        ledger.pocketCash += amount;
+        payouts.push({ assetType, assetName: action.assetName, actionType: 'dividend', amount, quantityBefore, quantityAfter: quantityBefore });
+        return;
+      }
+
+      if (!isPositiveAmount(action.factor) || action.factor === 1) return;
+
+      holding.quantity = quantityBefore * action.factor;
+      holding.avgPrice = holding.avgPrice / action.factor;
+      payouts.push({ assetType, assetName: action.assetName, actionType: action.actionType, amount: 0, quantityBefore, quantityAfter: holding.quantity });
+    });
+  });
+
+  return payouts;
+}
+
+/**
+ * Value a ledger at the given prices, in the shape used for leaderboard broadcasts
+ */
+export function valueLedger(
+  ledger: PlayerLedger,
+  prices: PriceSnapshot,
+  selectedAssets: any,
+  currentYear: number,
+  currentMonth: number
+): { networth: number; portfolioBreakdown: PortfolioBreakdown } {
+  const { networth, breakdown } = calculateServerNetworth(
+    ledger.pocketCash,
+    ledger.savingsBalance,
+    ledger.fixedDeposits,
+    ledger.holdings,
+    prices,
+    selectedAssets,
+    currentYear,
+    currentMonth,
+    ledger.loans,
+    ledger.bonds
+  );
+
+  return {
+    networth,
+    portfolioBreakdown: {
+      cash: breakdown.cash || 0,
+      savings: breakdown.savings || 0,
+      gold: breakdown.gold || 0,
+      funds: breakdown.funds || 0,
+      stocks: breakdown.stocks || 0,
+      crypto: breakdown.crypto || 0,
+      commodities: breakdown.commodities || 0,
+      reits: breakdown.reits || 0,
+      forex: breakdown.forex || 0,
+      fixedDeposits: breakdown.fixedDeposits || 0,
+      indexFunds: breakdown.indexFunds || 0,
+      mutualFunds: breakdown.mutualFunds || 0,
+      loans: breakdown.loans || 0,
+      bonds: breakdown.bonds || 0,
+    },
+  };
+}
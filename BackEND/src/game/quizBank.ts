@@ -0,0 +1,53 @@
+import { AssetEducationContent, QuizQuestion } from '../types';
+
+type QuizBank = { [category: string]: AssetEducationContent };
+
+// One random question per category, shared by every player in the room
+export function generateQuestionIndices(bank: QuizBank): { [category: string]: number } {
+  const indices: { [category: string]: number } = {};
+
+  Object.keys(bank).forEach(category => {
+    const count = bank[category].questions.length;
+    if (count > 0) {
+      indices[category] = Math.floor(Math.random() * count);
+    }
+  });
+
+  return indices;
+}
+
+/**
+ * Check the host's question indices against the bank this server serves.
+ * The host may have picked from a stale copy, so missing or out-of-range entries get a fresh random index.
+ */
+export function resolveQuestionIndices(indices: { [category: string]: number } | undefined, bank: QuizBank): { [category: string]: number } {
+  const resolved = generateQuestionIndices(bank);
+
+  Object.keys(resolved).forEach(category => {
+    const index = indices?.[category];
+    if (Number.isInteger(index) && index! >= 0 && index! < bank[category].questions.length) {
+      resolved[category] = index!;
+    }
+  });
+
+  return resolved;
+}
+
+// The quiz_questions id behind each chosen index (the built-in bank has no ids, so it yields none)
+export function getQuestionIds(indices: { [category: string]: number }, bank: QuizBank): { [category: string]: number } {
+  const ids: { [category: string]: number } = {};
+
+  Object.keys(indices).forEach(category => {
+    const id = bank[category]?.questions[indices[category]]?.id;
+    if (id !== undefined) {
+      ids[category] = id;
+    }
+  });
+
+  return ids;
+}
+
+// A question by its quiz_questions id (null for unknown ids and the built-in bank, which has none)
+export function findQuizQuestion(bank: QuizBank, category: string, questionId: number): QuizQuestion | null {
+  return bank[category]?.questions.find(question => question.id === questionId) || null;
+}
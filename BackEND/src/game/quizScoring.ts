@@ -0,0 +1,38 @@
+import { AdminSettings, QuizQuestion } from '../types';
+
+// Points for a correct answer on the first, second and third try. The hint shows after
+// the third miss, so anything later only earns the floor
+const POINTS_BY_ATTEMPT = [100, 60, 30];
+const MIN_QUIZ_POINTS = 10;
+
+export const MAX_QUIZ_POINTS = POINTS_BY_ATTEMPT[0];
+export const MAX_QUIZ_BONUS_CASH = 1000000;
+
+export function getQuizPoints(attempts: number): number {
+  return POINTS_BY_ATTEMPT[attempts - 1] ?? MIN_QUIZ_POINTS;
+}
+
+export function isValidQuizBonusCash(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_QUIZ_BONUS_CASH;
+}
+
+/**
+ * Bonus cash for a scored quiz - the full amount for a first-try answer, scaled by the points on retries
+ */
+export function getQuizBonusCash(settings: Pick<AdminSettings, 'quizBonusCash'> | null | undefined, points: number): number {
+  const bonus = settings?.quizBonusCash;
+  if (!isValidQuizBonusCash(bonus)) return 0;
+  return Math.round((bonus * points) / MAX_QUIZ_POINTS);
+}
+
+/**
+ * Score the options submitted for a question, up to and including the first correct one.
+ * Returns null when none of them is correct.
+ */
+export function scoreQuizAnswers(question: QuizQuestion, answers: number[]): { answers: number[]; attempts: number; points: number } | null {
+  const correctAt = answers.indexOf(question.correctAnswer);
+  if (correctAt < 0) return null;
+
+  const counted = answers.slice(0, correctAt + 1);
+  return { answers: counted, attempts: counted.length, points: getQuizPoints(counted.length) };
+}
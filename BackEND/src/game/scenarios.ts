@@ -0,0 +1,57 @@
+import { AdminSettings } from '../types';
+import { getGameDurationYears } from './gameDuration';
+
+// Historical scenarios - mirrors FrontEND/src/utils/scenarios.ts (the client also holds each scenario's asset pool and headlines)
+export type ScenarioId = 'crash2008' | 'rupeeCrisis2013' | 'demonetisation2016' | 'covid2020';
+
+export interface Scenario {
+  id: ScenarioId;
+  name: string;
+  startYear: number;
+  startMonth: number; // Game year 1 begins in this calendar month
+  durationYears: number;
+}
+
+export const SCENARIOS: Scenario[] = [
+  { id: 'crash2008', name: '2008 Global Financial Crisis', startYear: 2008, startMonth: 1, durationYears: 5 },
+  { id: 'rupeeCrisis2013', name: '2013 Taper Tantrum & Rupee Crisis', startYear: 2013, startMonth: 5, durationYears: 5 },
+  { id: 'demonetisation2016', name: '2016 Demonetisation', startYear: 2016, startMonth: 11, durationYears: 5 },
+  { id: 'covid2020', name: '2020 COVID Crash', startYear: 2020, startMonth: 1, durationYears: 5 },
+];
+
+export function getScenario(id?: string | null): Scenario | undefined {
+  return id ? SCENARIOS.find(scenario => scenario.id === id) : undefined;
+}
+
+/**
+ * Calendar month the game opens in - January unless a scenario starts mid-year
+ */
+export function getGameStartMonth(settings?: Pick<AdminSettings, 'scenarioId'> | null): number {
+  return getScenario(settings?.scenarioId)?.startMonth ?? 1;
+}
+
+/**
+ * Last game year and calendar month. A game always lasts gameDurationYears x 12 months
+ * from its opening month, so a scenario opening in November finishes in October
+ */
+export function getGameEnd(settings?: Pick<AdminSettings, 'scenarioId' | 'gameDurationYears'> | null): { year: number; month: number } {
+  const lastIndex = getGameStartMonth(settings) - 1 + getGameDurationYears(settings) * 12 - 1;
+  return { year: Math.floor(lastIndex / 12) + 1, month: (lastIndex % 12) + 1 };
+}
+
+/**
+ * True once (year, month) lies beyond the room's final game month
+ */
+export function isPastGameEnd(settings: Pick<AdminSettings, 'scenarioId' | 'gameDurationYears'> | null | undefined, year: number, month: number): boolean {
+  const end = getGameEnd(settings);
+  return year * 12 + month > end.year * 12 + end.month;
+}
+
+/**
+ * Pin the start year and length to the room's scenario so a client can't stretch it
+ */
+export function applyScenario(settings: AdminSettings): AdminSettings {
+  const scenario = getScenario(settings.scenarioId);
+  if (!scenario) return settings;
+  return { ...settings, gameStartYear: scenario.startYear, gameDurationYears: scenario.durationYears };
+}
@@ -0,0 +1,95 @@
+import { AdminSettings, TaxSettings } from '../types';
+
+// Indian retail defaults; hosts turn the model on (and tune it) via AdminSettings.taxSettings
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  enabled: false,
+  brokerageRate: 0.0003, // 0.03%
+  maxBrokeragePerTrade: 20,
+  sttRate: 0.001, // 0.1% on equity sells
+  stampDutyRate: 0.00015, // 0.015% on buys
+  shortTermGainsRate: 0.15,
+  longTermGainsRate: 0.10,
+  longTermHoldingMonths: 12,
+  fdInterestTaxRate: 0.10,
+};
+
+// STT is only charged on listed equity and equity funds
+const STT_ASSET_TYPES = ['stocks', 'indexFund', 'mutualFund', 'reits'];
+
+const RATE_KEYS: (keyof TaxSettings)[] = [
+  'brokerageRate',
+  'sttRate',
+  'stampDutyRate',
+  'shortTermGainsRate',
+  'longTermGainsRate',
+  'fdInterestTaxRate',
+];
+
+export interface TradeCharges {
+  brokerage: number;
+  stt: number;
+  stampDuty: number;
+  total: number;
+}
+
+export interface TradeTaxContext {
+  settings: TaxSettings;
+  monthIndex: number; // Game month the trade happens in (see toMonthIndex)
+}
+
+const isRate = (value: unknown): boolean =>
+  typeof value === 'number' && isFinite(value) && value >= 0 && value <= 1;
+
+export function isValidTaxSettings(value: unknown): value is TaxSettings {
+  if (!value || typeof value !== 'object') return false;
+  const settings = value as TaxSettings;
+  return typeof settings.enabled === 'boolean' &&
+    RATE_KEYS.every(key => isRate(settings[key])) &&
+    typeof settings.maxBrokeragePerTrade === 'number' && isFinite(settings.maxBrokeragePerTrade) && settings.maxBrokeragePerTrade >= 0 &&
+    Number.isInteger(settings.longTermHoldingMonths) && settings.longTermHoldingMonths >= 1 && settings.longTermHoldingMonths <= 120;
+}
+
+/**
+ * Active tax settings for a room, or null when the host has not enabled taxes
+ */
+export function getTaxSettings(settings?: Pick<AdminSettings, 'taxSettings'> | null): TaxSettings | null {
+  const taxSettings = settings?.taxSettings;
+  if (!taxSettings?.enabled) return null;
+  return isValidTaxSettings(taxSettings) ? taxSettings : { ...DEFAULT_TAX_SETTINGS, enabled: true };
+}
+
+// Months since game start, used to measure holding periods
+export function toMonthIndex(year: number, month: number): number {
+  return (year - 1) * 12 + month;
+}
+
+export function calculateTradeCharges(
+  side: 'buy' | 'sell',
+  assetType: string,
+  tradeValue: number,
+  settings: TaxSettings | null
+): TradeCharges {
+  if (!settings || tradeValue <= 0) {
+    return { brokerage: 0, stt: 0, stampDuty: 0, total: 0 };
+  }
+
+  const brokerage = Math.min(tradeValue * settings.brokerageRate, settings.maxBrokeragePerTrade);
+  const stt = side === 'sell' && STT_ASSET_TYPES.includes(assetType) ? tradeValue * settings.sttRate : 0;
+  const stampDuty = side === 'buy' ? tradeValue * settings.stampDutyRate : 0;
+
+  return { brokerage, stt, stampDuty, total: brokerage + stt + stampDuty };
+}
+
+/**
+ * Tax on a realised gain; losses are not taxed (and not carried forward)
+ */
+export function calculateCapitalGainsTax(gain: number, holdingMonths: number, settings: TaxSettings | null): number {
+  if (!settings || gain <= 0) return 0;
+  const rate = holdingMonths >= settings.longTermHoldingMonths ? settings.longTermGainsRate : settings.shortTermGainsRate;
+  return gain * rate;
+}
+
+export function calculateFDInterestTax(interest: number, settings: TaxSettings | null): number {
+  if (!settings || interest <= 0) return 0;
+  return interest * settings.fdInterestTaxRate;
+}
@@ -0,0 +1,96 @@
+import { LedgerAssetType } from '../types';
+
+// Unlock schedule entry as the host's client generates it (FrontEND/src/utils/assetUnlockCalculator.ts)
+interface UnlockEntry {
+  category: string;
+  assetType: string;
+  assetNames?: string[];
+}
+
+// Gold and the commodity are single holdings, always priced by the room's own symbol
+function getSingleHoldingSymbol(assetType: LedgerAssetType, selectedAssets: any): string | undefined {
+  if (assetType === 'physicalGold') return 'Physical_Gold';
+  if (assetType === 'digitalGold') return 'Digital_Gold';
+  if (assetType === 'commodity') return typeof selectedAssets?.commodity === 'string' ? selectedAssets.commodity : undefined;
+  return undefined;
+}
+
+// Assets of a group holding the room picked at game start
+function getSelectedNames(assetType: LedgerAssetType, selectedAssets: any): string[] {
+  const names = (() => {
+    switch (assetType) {
+      case 'stocks': return selectedAssets?.stocks;
+      case 'indexFund': return selectedAssets?.indexFunds;
+      case 'mutualFund': return selectedAssets?.mutualFunds;
+      case 'crypto': return selectedAssets?.crypto;
+      case 'forex': return selectedAssets?.forex;
+      case 'reits': return selectedAssets?.reit ? [selectedAssets.reit] : [];
+      default: return [];
+    }
+  })();
+  return Array.isArray(names) ? names : [];
+}
+
+// Schedule entry type that unlocks a group holding (REITs unlock under their own symbol)
+const GROUP_UNLOCK_TYPES: Partial<Record<LedgerAssetType, string>> = {
+  stocks: 'STOCKS',
+  indexFund: 'INDEX_FUND',
+  mutualFund: 'MUTUAL_FUND',
+  crypto: 'CRYPTO',
+  forex: 'FOREX',
+};
+
+function isUnlocked(schedule: any, currentYear: number, assetType: LedgerAssetType, symbol: string): boolean {
+  // Rooms started without a schedule only check the selected assets
+  if (!schedule || typeof schedule !== 'object') return true;
+
+  const unlockType = GROUP_UNLOCK_TYPES[assetType];
+  for (let year = 1; year <= currentYear; year++) {
+    const entries: UnlockEntry[] = Array.isArray(schedule[year]) ? schedule[year] : [];
+    const found = entries.some(entry => unlockType
+      ? entry.assetType === unlockType && !!entry.assetNames?.includes(symbol)
+      : entry.assetType === symbol);
+    if (found) return true;
+  }
+  return false;
+}
+
+// Quiz category a schedule entry opens (index and mutual funds share the FUNDS entry category)
+function getQuizCategory(entry: UnlockEntry): string {
+  switch (entry.category) {
+    case 'COMMODITIES': return 'COMMODITY';
+    case 'FUNDS': return entry.assetType;
+    default: return entry.category;
+  }
+}
+
+/**
+ * Whether a quiz category's assets have unlocked by the current game year, so its quiz may open.
+ */
+export function isQuizCategoryUnlocked(assetUnlockSchedule: any, currentYear: number, category: string): boolean {
+  if (!assetUnlockSchedule || typeof assetUnlockSchedule !== 'object') return true;
+
+  for (let year = 1; year <= currentYear; year++) {
+    const entries: UnlockEntry[] = Array.isArray(assetUnlockSchedule[year]) ? assetUnlockSchedule[year] : [];
+    if (entries.some(entry => getQuizCategory(entry) === category)) return true;
+  }
+  return false;
+}
+
+/**
+ * Price symbol for a trade, or null when the asset isn't part of the room or isn't unlocked yet.
+ * The client's assetName is only trusted for group holdings, and only when it names one of the room's assets.
+ */
+export function resolveTradeSymbol(
+  assetType: LedgerAssetType,
+  assetName: string,
+  selectedAssets: any,
+  assetUnlockSchedule: any,
+  currentYear: number
+): string | null {
+  const symbol = getSingleHoldingSymbol(assetType, selectedAssets)
+    ?? (getSelectedNames(assetType, selectedAssets).includes(assetName) ? assetName : undefined);
+  if (!symbol) return null;
+
+  return isUnlocked(assetUnlockSchedule, currentYear, assetType, symbol) ? symbol : null;
+}
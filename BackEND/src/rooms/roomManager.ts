@@ -1,8 +1,33 @@
-import { Room, PlayerInfo, AdminSettings, GameState } from '../types';
+import { randomBytes } from 'crypto';
+import { Room, PlayerInfo, AdminSettings, GameState, RoomSnapshot, SpectatorInfo, RoomOptions, Language, LifeEventTemplate } from '../types';
+import { createLedger } from '../game/playerLedger';
+import { getGameDurationYears } from '../game/gameDuration';
+import { applyScenario, getGameStartMonth, getScenario } from '../game/scenarios';
+import { isLanguage, resolveLanguage } from '../game/languages';
+import { isValidQuizBonusCash } from '../game/quizScoring';
+import { isQuizCategoryUnlocked } from '../game/tradableAssets';
+import { generateLifeEvents } from '../game/lifeEvents';
+import { getLifeEventPool } from '../database/lifeEventPool';
+import { CPIPoint } from '../services/marketDataService';
 
 export class RoomManager {
   private rooms: Map<string, Room> = new Map();
   private playerToRoom: Map<string, string> = new Map(); // playerId -> roomId
+  private spectatorToRoom: Map<string, string> = new Map(); // spectatorId -> roomId
+  private sessionTokens: Map<string, string> = new Map(); // sessionToken -> playerId
+  private disconnectTimers: Map<string, NodeJS.Timeout> = new Map(); // playerId -> grace period timer
+  private unclaimedRestoredSeats: Set<string> = new Set(); // playerIds restored from a snapshot that no client has resumed yet
+  private startCountdowns: Map<string, { timer: NodeJS.Timeout; finish: (reason: string | null) => void }> = new Map(); // roomId -> pending start
+
+  // How long a dropped player keeps their seat before being removed from the room
+  private readonly RECONNECT_GRACE_PERIOD_MS = 60 * 1000; // 60 seconds
+
+  // Bounds for the host's max players option (non-host players)
+  private readonly MIN_ROOM_CAPACITY = 2;
+  private readonly MAX_ROOM_CAPACITY = 50;
+
+  // Countdown between the host pressing start and the game launching
+  readonly START_COUNTDOWN_MS = 5 * 1000; // 5 seconds
 
   // Generate 6-digit alphanumeric room code
   generateRoomCode(): string {
@@ -20,7 +45,11 @@ export class RoomManager {
     return code;
   }
 
-  createRoom(hostId: string, hostName: string): string {
+  createRoom(hostId: string, hostName: string, options: RoomOptions = {}): string {
+    if (this.spectatorToRoom.has(hostId)) {
+      throw new Error('Stop spectating before creating a room');
+    }
+
     const roomId = this.generateRoomCode();
 
     const hostPlayer: PlayerInfo = {
@@ -42,7 +71,10 @@ export class RoomManager {
       quizStatus: {
         currentQuiz: null,
         isCompleted: false,
+        results: [],
       },
+      isConnected: true,
+      suspiciousSubmissions: 0,
     };
 
     const gameState: GameState = {
@@ -62,6 +94,13 @@ export class RoomManager {
       adminSettings: null,
       gameState,
       createdAt: Date.now(),
+      ledgers: new Map(),
+      spectators: new Map(),
+      maxPlayers: this.normalizeCapacity(options.maxPlayers),
+      passcode: options.passcode?.trim() || null,
+      bannedNames: new Set(),
+      bannedIds: new Set(),
+      requireAllReady: false,
     };
 
     this.rooms.set(roomId, room);
@@ -70,13 +109,43 @@ export class RoomManager {
     return roomId;
   }
 
-  joinRoom(roomId: string, playerId: string, playerName: string): { success: boolean; error?: string; room?: Room } {
+  // Clamp the requested max players; anything missing or invalid means no cap
+  private normalizeCapacity(maxPlayers: number | undefined): number | null {
+    if (typeof maxPlayers !== 'number' || !isFinite(maxPlayers) || maxPlayers <= 0) {
+      return null;
+    }
+    return Math.min(this.MAX_ROOM_CAPACITY, Math.max(this.MIN_ROOM_CAPACITY, Math.floor(maxPlayers)));
+  }
+
+  private normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  // Check ban list and passcode before anyone (player or spectator) gets into a room
+  private checkAdmission(room: Room, id: string, name: string, passcode?: string): string | null {
+    if (room.bannedIds.has(id) || room.bannedNames.has(this.normalizeName(name))) {
+      return 'You have been removed from this room';
+    }
+
+    if (room.passcode && (passcode || '').trim() !== room.passcode) {
+      return 'Incorrect room passcode';
+    }
+
+    return null;
+  }
+
+  joinRoom(roomId: string, playerId: string, playerName: string, passcode?: string): { success: boolean; error?: string; room?: Room } {
     const room = this.rooms.get(roomId);
 
     if (!room) {
       return { success: false, error: 'Room not found' };
     }
 
+    const admissionError = this.checkAdmission(room, playerId, playerName, passcode);
+    if (admissionError) {
+      return { success: false, error: admissionError };
+    }
+
     if (room.gameState.isStarted) {
       return { success: false, error: 'Game already in progress' };
     }
@@ -85,6 +154,16 @@ export class RoomManager {
       return { success: false, error: 'Player already in room' };
     }
 
+    // A socket is either a player or a spectator - never both
+    if (this.spectatorToRoom.has(playerId)) {
+      return { success: false, error: 'Stop spectating before joining as a player' };
+    }
+
+    const nonHostPlayerCount = Array.from(room.players.values()).filter(p => !p.isHost).length;
+    if (room.maxPlayers !== null && nonHostPlayerCount >= room.maxPlayers) {
+      return { success: false, error: 'Room is full' };
+    }
+
     const newPlayer: PlayerInfo = {
       id: playerId,
       name: playerName,
@@ -104,16 +183,76 @@ export class RoomManager {
       quizStatus: {
         currentQuiz: null,
         isCompleted: false,
+        results: [],
       },
+      isConnected: true,
+      suspiciousSubmissions: 0,
     };
 
     room.players.set(playerId, newPlayer);
     this.playerToRoom.set(playerId, roomId);
+    this.revalidateStartCountdown(roomId);
 
     return { success: true, room };
   }
 
-  leaveRoom(playerId: string): { roomId?: string; wasHost: boolean } {
+  // Spectators can join at any time - they only receive room broadcasts
+  joinAsSpectator(roomId: string, spectatorId: string, spectatorName: string, passcode?: string): { success: boolean; error?: string; room?: Room } {
+    const room = this.rooms.get(roomId);
+
+    if (!room) {
+      return { success: false, error: 'Room not found' };
+    }
+
+    const admissionError = this.checkAdmission(room, spectatorId, spectatorName, passcode);
+    if (admissionError) {
+      return { success: false, error: admissionError };
+    }
+
+    if (room.players.has(spectatorId) || room.spectators.has(spectatorId)) {
+      return { success: false, error: 'Already in room' };
+    }
+
+    // A seated player (in any room) would lose their seat handling if they also spectated
+    if (this.playerToRoom.has(spectatorId) || this.spectatorToRoom.has(spectatorId)) {
+      return { success: false, error: 'Leave your game before spectating' };
+    }
+
+    room.spectators.set(spectatorId, { id: spectatorId, name: spectatorName });
+    this.spectatorToRoom.set(spectatorId, roomId);
+
+    return { success: true, room };
+  }
+
+  // Returns the room the spectator was watching, if any
+  leaveAsSpectator(spectatorId: string): string | undefined {
+    const roomId = this.spectatorToRoom.get(spectatorId);
+    if (!roomId) return undefined;
+
+    this.rooms.get(roomId)?.spectators.delete(spectatorId);
+    this.spectatorToRoom.delete(spectatorId);
+
+    return roomId;
+  }
+
+  getSpectators(roomId: string): SpectatorInfo[] {
+    const room = this.rooms.get(roomId);
+    return room ? Array.from(room.spectators.values()) : [];
+  }
+
+  // Socket.io room holding only a room's spectators, so broadcasts can send them a different game state
+  getSpectatorChannel(roomId: string): string {
+    return `${roomId}:spectators`;
+  }
+
+  // Game state without per-player fields - spectators must not see anyone's upcoming life events
+  getSpectatorGameState(gameState: GameState): GameState {
+    const spectatorState = { ...gameState };
+    delete spectatorState.lifeEvents;
+    return spectatorState;
+  }
+
+  leaveRoom(playerId: string): { roomId?: string; wasHost: boolean; newHostId?: string; resumed?: boolean } {
     const roomId = this.playerToRoom.get(playerId);
 
     if (!roomId) {
@@ -129,14 +268,229 @@ export class RoomManager {
     const wasHost = player?.isHost || false;
 
     room.players.delete(playerId);
+    room.ledgers.delete(playerId);
     this.playerToRoom.delete(playerId);
+    this.revokeSession(playerId);
+
+    if (room.successorId === playerId) {
+      room.successorId = undefined;
+    }
 
-    // If host left or room is empty, delete room
-    if (wasHost || room.players.size === 0) {
+    if (wasHost) {
+      this.cancelStartCountdown(roomId, 'Host left the room');
+    }
+
+    // If room is empty, delete room
+    if (room.players.size === 0) {
       this.deleteRoom(roomId);
+      return { roomId, wasHost };
     }
 
-    return { roomId, wasHost };
+    // Don't leave the game paused waiting on someone who is gone
+    let resumed = this.removeFromWaitingLists(room, playerId);
+
+    // If host left, hand the room to the next host instead of closing it
+    let newHostId: string | undefined;
+    if (wasHost) {
+      newHostId = this.promoteNewHost(room);
+      resumed = this.removeFromWaitingLists(room, newHostId) || resumed;
+    }
+
+    this.revalidateStartCountdown(roomId);
+
+    return { roomId, wasHost, newHostId, resumed };
+  }
+
+  // Pick the next host: the host's chosen successor if still here, otherwise the longest-connected player.
+  // The host only watches, so a player promoted mid-game stops playing: their ledger is retired and they leave the standings.
+  private promoteNewHost(room: Room): string {
+    const candidates = Array.from(room.players.values());
+    const successor = room.successorId ? room.players.get(room.successorId) : undefined;
+    const newHost =
+      (successor && successor.isConnected !== false ? successor : undefined) ||
+      candidates.find(p => p.isConnected !== false) ||
+      candidates[0];
+
+    newHost.isHost = true;
+    room.hostId = newHost.id;
+    room.successorId = undefined;
+    room.ledgers.delete(newHost.id);
+    newHost.quizStatus = { ...newHost.quizStatus, currentQuiz: null };
+
+    return newHost.id;
+  }
+
+  // Remove a player from the intro/quiz waiting lists; returns true if that un-paused the game
+  private removeFromWaitingLists(room: Room, playerId: string): boolean {
+    const { gameState } = room;
+    gameState.playersWaitingForQuiz = gameState.playersWaitingForQuiz.filter(id => id !== playerId);
+    if (gameState.playersWaitingForIntro) {
+      gameState.playersWaitingForIntro = gameState.playersWaitingForIntro.filter(id => id !== playerId);
+    }
+
+    const waitingList = gameState.pauseReason === 'quiz'
+      ? gameState.playersWaitingForQuiz
+      : gameState.pauseReason === 'intro'
+        ? gameState.playersWaitingForIntro || []
+        : null;
+
+    if (gameState.isPaused && waitingList && waitingList.length === 0) {
+      gameState.isPaused = false;
+      gameState.pauseReason = null;
+      return true;
+    }
+
+    return false;
+  }
+
+  // Host bans a player from the room; the caller removes them with leaveRoom
+  kickPlayer(roomId: string, hostId: string, playerId: string): { success: boolean; error?: string } {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return { success: false, error: 'Room not found' };
+    }
+
+    if (room.hostId !== hostId) {
+      return { success: false, error: 'Only host can remove players' };
+    }
+
+    const player = room.players.get(playerId);
+    if (!player || playerId === hostId) {
+      return { success: false, error: 'Player not found' };
+    }
+
+    room.bannedIds.add(playerId);
+    room.bannedNames.add(this.normalizeName(player.name));
+    return { success: true };
+  }
+
+  // Player picked a UI language; life events generated at game start use it
+  setPlayerLanguage(playerId: string, language: Language): boolean {
+    const player = this.getRoomByPlayerId(playerId)?.players.get(playerId);
+    if (!player) return false;
+
+    player.language = language;
+    return true;
+  }
+
+  // Player toggles their lobby ready state
+  setPlayerReady(playerId: string, isReady: boolean): { success: boolean; error?: string; roomId?: string } {
+    const room = this.getRoomByPlayerId(playerId);
+    const player = room?.players.get(playerId);
+    if (!room || !player) {
+      return { success: false, error: 'Not in a room' };
+    }
+
+    if (room.gameState.isStarted) {
+      return { success: false, error: 'Game already started' };
+    }
+
+    if (player.isHost) {
+      return { success: false, error: 'Host does not need to ready up' };
+    }
+
+    player.isReady = isReady;
+    this.revalidateStartCountdown(room.id);
+
+    return { success: true, roomId: room.id };
+  }
+
+  // Host toggles the "start only when everyone is ready" rule
+  setRequireAllReady(roomId: string, hostId: string, requireAllReady: boolean): { success: boolean; error?: string } {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return { success: false, error: 'Room not found' };
+    }
+
+    if (room.hostId !== hostId) {
+      return { success: false, error: 'Only host can change the ready rule' };
+    }
+
+    room.requireAllReady = requireAllReady;
+    this.revalidateStartCountdown(roomId);
+
+    return { success: true };
+  }
+
+  // Why the room can't start right now (null if it can)
+  private getStartBlocker(room: Room): string | null {
+    if (room.gameState.isStarted) {
+      return 'Game already started';
+    }
+
+    if (room.players.size < 2) {
+      return 'Need at least 2 players to start';
+    }
+
+    if (room.requireAllReady && Array.from(room.players.values()).some(p => !p.isHost && !p.isReady)) {
+      return 'Not every player is ready';
+    }
+
+    return null;
+  }
+
+  checkStartReadiness(roomId: string): string | null {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return 'Room not found';
+    }
+
+    if (this.startCountdowns.has(roomId)) {
+      return 'Game is already starting';
+    }
+
+    return this.getStartBlocker(room);
+  }
+
+  // Run the pre-start countdown; resolves null once it elapses, or the reason it was cancelled
+  runStartCountdown(roomId: string): Promise<string | null> {
+    return new Promise(resolve => {
+      const finish = (reason: string | null) => {
+        const countdown = this.startCountdowns.get(roomId);
+        if (countdown) {
+          clearTimeout(countdown.timer);
+          this.startCountdowns.delete(roomId);
+        }
+        resolve(reason);
+      };
+
+      const timer = setTimeout(() => finish(null), this.START_COUNTDOWN_MS);
+      this.startCountdowns.set(roomId, { timer, finish });
+    });
+  }
+
+  private cancelStartCountdown(roomId: string, reason: string): void {
+    this.startCountdowns.get(roomId)?.finish(reason);
+  }
+
+  // Cancel a running countdown if the room stopped meeting the start rules
+  private revalidateStartCountdown(roomId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room || !this.startCountdowns.has(roomId)) return;
+
+    const blocker = this.getStartBlocker(room);
+    if (blocker) {
+      this.cancelStartCountdown(roomId, blocker);
+    }
+  }
+
+  // Host designates who should take over if they leave
+  designateSuccessor(roomId: string, hostId: string, successorId: string | null): { success: boolean; error?: string } {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return { success: false, error: 'Room not found' };
+    }
+
+    if (room.hostId !== hostId) {
+      return { success: false, error: 'Only host can pick a successor' };
+    }
+
+    if (successorId !== null && (!room.players.has(successorId) || successorId === hostId)) {
+      return { success: false, error: 'Player not found' };
+    }
+
+    room.successorId = successorId ?? undefined;
+    return { success: true };
   }
 
   deleteRoom(roomId: string): void {
@@ -146,14 +500,239 @@ export class RoomManager {
       if (room.timeProgressionInterval) {
         clearInterval(room.timeProgressionInterval);
       }
+      this.cancelStartCountdown(roomId, 'Room closed');
       // Remove all player mappings
       room.players.forEach((_, playerId) => {
         this.playerToRoom.delete(playerId);
+        this.revokeSession(playerId);
+      });
+      room.spectators.forEach((_, spectatorId) => {
+        this.spectatorToRoom.delete(spectatorId);
       });
       this.rooms.delete(roomId);
     }
   }
 
+  // Issue a resumable session token for a player (returned on createRoom/joinRoom)
+  issueSessionToken(playerId: string): string {
+    this.revokeSession(playerId);
+
+    const token = randomBytes(24).toString('hex');
+    this.sessionTokens.set(token, playerId);
+    return token;
+  }
+
+  // Keep a dropped player's seat for the grace period; onExpire runs if they never come back
+  markPlayerDisconnected(playerId: string, onExpire: () => void): boolean {
+    const room = this.getRoomByPlayerId(playerId);
+    const player = room?.players.get(playerId);
+    if (!room || !player) return false;
+
+    player.isConnected = false;
+
+    const existingTimer = this.disconnectTimers.get(playerId);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
+    }
+
+    const timer = setTimeout(() => {
+      this.disconnectTimers.delete(playerId);
+      onExpire();
+    }, this.RECONNECT_GRACE_PERIOD_MS);
+
+    this.disconnectTimers.set(playerId, timer);
+    return true;
+  }
+
+  // Rebind an existing player (found by session token) to a new socket id
+  resumeSession(
+    sessionToken: string,
+    newPlayerId: string
+  ): { success: boolean; error?: string; room?: Room; oldPlayerId?: string } {
+    const oldPlayerId = this.sessionTokens.get(sessionToken);
+    if (!oldPlayerId) {
+      return { success: false, error: 'Session expired' };
+    }
+
+    if (this.spectatorToRoom.has(newPlayerId)) {
+      return { success: false, error: 'Stop spectating before resuming a game' };
+    }
+
+    const room = this.getRoomByPlayerId(oldPlayerId);
+    const player = room?.players.get(oldPlayerId);
+    if (!room || !player) {
+      this.sessionTokens.delete(sessionToken);
+      return { success: false, error: 'Room no longer exists' };
+    }
+
+    this.rebindPlayer(room, player, newPlayerId);
+
+    return { success: true, room, oldPlayerId };
+  }
+
+  // Rejoin by room code after a server restart: hand a restored seat with the same name to the new socket.
+  // Seats that dropped during normal play can only be resumed with their session token.
+  reclaimSeat(
+    roomId: string,
+    playerName: string,
+    newPlayerId: string,
+    passcode?: string
+  ): { success: boolean; room?: Room; oldPlayerId?: string } {
+    const room = this.rooms.get(roomId);
+    if (!room || this.spectatorToRoom.has(newPlayerId) || this.checkAdmission(room, newPlayerId, playerName, passcode)) {
+      return { success: false };
+    }
+
+    const name = this.normalizeName(playerName);
+    const seat = Array.from(room.players.values()).find(
+      p => p.isConnected === false && this.unclaimedRestoredSeats.has(p.id) && p.name.trim().toLowerCase() === name
+    );
+    if (!seat) {
+      return { success: false };
+    }
+
+    const oldPlayerId = seat.id;
+    this.rebindPlayer(room, seat, newPlayerId);
+
+    return { success: true, room, oldPlayerId };
+  }
+
+  // Move a seat (and everything keyed by its socket id) over to a new socket id
+  private rebindPlayer(room: Room, player: PlayerInfo, newPlayerId: string): void {
+    const oldPlayerId = player.id;
+    this.unclaimedRestoredSeats.delete(oldPlayerId);
+
+    const timer = this.disconnectTimers.get(oldPlayerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.disconnectTimers.delete(oldPlayerId);
+    }
+
+    if (oldPlayerId !== newPlayerId) {
+      const swapId = (id: string) => (id === oldPlayerId ? newPlayerId : id);
+
+      // Rebuild the players map so join order is preserved
+      room.players = new Map(
+        Array.from(room.players.entries()).map(([id, p]) => [swapId(id), p] as [string, PlayerInfo])
+      );
+      player.id = newPlayerId;
+
+      this.playerToRoom.delete(oldPlayerId);
+      this.playerToRoom.set(newPlayerId, room.id);
+      this.sessionTokens.forEach((id, token) => {
+        if (id === oldPlayerId) {
+          this.sessionTokens.set(token, newPlayerId);
+        }
+      });
+
+      room.hostId = swapId(room.hostId);
+      if (room.successorId) {
+        room.successorId = swapId(room.successorId);
+      }
+
+      const { gameState } = room;
+      gameState.playersWaitingForQuiz = gameState.playersWaitingForQuiz.map(swapId);
+      if (gameState.playersWaitingForIntro) {
+        gameState.playersWaitingForIntro = gameState.playersWaitingForIntro.map(swapId);
+      }
+      if (gameState.lifeEvents && gameState.lifeEvents[oldPlayerId]) {
+        gameState.lifeEvents[newPlayerId] = gameState.lifeEvents[oldPlayerId];
+        delete gameState.lifeEvents[oldPlayerId];
+      }
+
+      const ledger = room.ledgers.get(oldPlayerId);
+      if (ledger) {
+        room.ledgers.delete(oldPlayerId);
+        room.ledgers.set(newPlayerId, ledger);
+      }
+    }
+
+    player.isConnected = true;
+  }
+
+  // Drop a player's session token and any pending grace period timer
+  private revokeSession(playerId: string): void {
+    this.unclaimedRestoredSeats.delete(playerId);
+
+    const timer = this.disconnectTimers.get(playerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.disconnectTimers.delete(playerId);
+    }
+
+    this.sessionTokens.forEach((id, token) => {
+      if (id === playerId) {
+        this.sessionTokens.delete(token);
+      }
+    });
+  }
+
+  // Serializable copy of a room for the room_snapshots table (key material is added by the caller)
+  getRoomSnapshot(roomId: string): Omit<RoomSnapshot, 'roomKeys'> | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const sessionTokens: { [sessionToken: string]: string } = {};
+    this.sessionTokens.forEach((playerId, token) => {
+      if (room.players.has(playerId)) {
+        sessionTokens[token] = playerId;
+      }
+    });
+
+    return {
+      id: room.id,
+      hostId: room.hostId,
+      successorId: room.successorId,
+      players: Array.from(room.players.values()),
+      adminSettings: room.adminSettings,
+      gameState: room.gameState,
+      createdAt: room.createdAt,
+      ledgers: Object.fromEntries(room.ledgers),
+      sessionTokens,
+      maxPlayers: room.maxPlayers,
+      passcode: room.passcode,
+      bannedNames: Array.from(room.bannedNames),
+      requireAllReady: room.requireAllReady,
+    };
+  }
+
+  // Rebuild a room from its snapshot after a restart; every seat waits for its player to come back
+  restoreRoom(snapshot: RoomSnapshot): Room | undefined {
+    if (this.rooms.has(snapshot.id)) return undefined;
+
+    const room: Room = {
+      id: snapshot.id,
+      hostId: snapshot.hostId,
+      successorId: snapshot.successorId,
+      players: new Map(snapshot.players.map(p => [p.id, { ...p, isConnected: false }] as [string, PlayerInfo])),
+      adminSettings: snapshot.adminSettings,
+      gameState: snapshot.gameState,
+      createdAt: snapshot.createdAt,
+      ledgers: new Map(Object.entries(snapshot.ledgers || {})),
+      spectators: new Map(),
+      maxPlayers: snapshot.maxPlayers ?? null,
+      passcode: snapshot.passcode ?? null,
+      bannedNames: new Set(snapshot.bannedNames || []),
+      bannedIds: new Set(),
+      requireAllReady: snapshot.requireAllReady ?? false,
+    };
+
+    this.rooms.set(room.id, room);
+    room.players.forEach((_, playerId) => {
+      this.playerToRoom.set(playerId, room.id);
+      this.unclaimedRestoredSeats.add(playerId);
+    });
+
+    // Old session tokens stay valid so clients that kept theirs resume automatically
+    Object.entries(snapshot.sessionTokens || {}).forEach(([token, playerId]) => {
+      if (room.players.has(playerId)) {
+        this.sessionTokens.set(token, playerId);
+      }
+    });
+
+    return room;
+  }
+
   getRoom(roomId: string): Room | undefined {
     return this.rooms.get(roomId);
   }
@@ -176,6 +755,27 @@ export class RoomManager {
     return true;
   }
 
+  // Why the host's settings can't start a game, or null when they are usable
+  validateAdminSettings(adminSettings: AdminSettings | undefined): string | null {
+    if (!adminSettings || typeof adminSettings !== 'object') {
+      return 'Missing game settings';
+    }
+
+    if (adminSettings.scenarioId && !getScenario(adminSettings.scenarioId)) {
+      return 'Unknown scenario';
+    }
+
+    if (adminSettings.defaultLanguage !== undefined && !isLanguage(adminSettings.defaultLanguage)) {
+      return 'Unknown language';
+    }
+
+    if (adminSettings.quizBonusCash !== undefined && !isValidQuizBonusCash(adminSettings.quizBonusCash)) {
+      return 'Invalid quiz bonus';
+    }
+
+    return null;
+  }
+
   startGame(roomId: string, adminSettings: AdminSettings): { success: boolean; error?: string } {
     const room = this.rooms.get(roomId);
 
@@ -191,10 +791,29 @@ export class RoomManager {
       return { success: false, error: 'Need at least 2 players to start' };
     }
 
-    room.adminSettings = adminSettings;
+    const settingsError = this.validateAdminSettings(adminSettings);
+    if (settingsError) {
+      return { success: false, error: settingsError };
+    }
+
+    const settings = applyScenario(adminSettings);
+    room.adminSettings = { ...settings, gameDurationYears: getGameDurationYears(settings) };
     room.gameState.isStarted = true;
     room.gameState.currentYear = 1;
-    room.gameState.currentMonth = 1;
+    room.gameState.currentMonth = getGameStartMonth(settings);
+
+    // Every non-host player starts with a server-held ledger seeded with the starting cash
+    room.ledgers.clear();
+    room.players.forEach(player => {
+      if (player.isHost) return;
+      room.ledgers.set(player.id, createLedger(adminSettings.initialPocketCash));
+      player.quizStatus = { currentQuiz: null, isCompleted: false, results: [] };
+      player.networth = adminSettings.initialPocketCash;
+      player.portfolioBreakdown = {
+        ...player.portfolioBreakdown,
+        cash: adminSettings.initialPocketCash,
+      };
+    });
 
     // Only initialize intro tracking and pause game if quiz is enabled
     if (adminSettings.enableQuiz !== false) {
@@ -222,17 +841,30 @@ export class RoomManager {
   }
 
   // Generate per-player life events and store in room.gameState.lifeEvents
-  generateLifeEventsForRoom(roomId: string, eventsCount: number): boolean {
+  // Amounts scale with the room's income and the CPI series (assumed inflation when it is empty)
+  // Each player's events are worded in their own language
+  generateLifeEventsForRoom(roomId: string, eventsCount: number, cpiSeries: CPIPoint[] = []): boolean {
     const room = this.rooms.get(roomId);
     if (!room) return false;
 
     const { gameState } = room;
-    const mapping: { [playerId: string]: any[] } = {};
-    const { generateLifeEvents } = require('../game/lifeEvents');
+    const mapping: GameState['lifeEvents'] = {};
+    const pools = new Map<Language, LifeEventTemplate[]>();
 
-    room.players.forEach((_, playerId) => {
+    room.players.forEach((player, playerId) => {
       try {
-        const events = generateLifeEvents(eventsCount, gameState.assetUnlockSchedule);
+        const language = resolveLanguage(player.language, room.adminSettings);
+        if (!pools.has(language)) {
+          pools.set(language, getLifeEventPool(language));
+        }
+        const context = {
+          pool: pools.get(language),
+          recurringIncome: room.adminSettings?.recurringIncome,
+          gameStartYear: room.adminSettings?.gameStartYear,
+          gameStartMonth: getGameStartMonth(room.adminSettings),
+          cpiSeries,
+        };
+        const events = generateLifeEvents(eventsCount, gameState.assetUnlockSchedule, getGameDurationYears(room.adminSettings), context);
         mapping[playerId] = events;
       } catch (err) {
         console.error('Failed to generate life events for player', playerId, err);
@@ -240,7 +872,7 @@ export class RoomManager {
       }
     });
 
-    room.gameState.lifeEvents = mapping as any;
+    room.gameState.lifeEvents = mapping;
     return true;
   }
 
@@ -248,6 +880,9 @@ export class RoomManager {
     const room = this.getRoomByPlayerId(playerId);
     if (!room) return false;
 
+    // Ledger-backed players are valued by the server, never by what the client reports
+    if (room.ledgers.has(playerId)) return false;
+
     const player = room.players.get(playerId);
     if (!player) return false;
 
@@ -257,6 +892,15 @@ export class RoomManager {
     return true;
   }
 
+  // Count a networth submission that failed server validation; returns the new total
+  recordSuspiciousSubmission(playerId: string): number {
+    const player = this.getRoomByPlayerId(playerId)?.players.get(playerId);
+    if (!player) return 0;
+
+    player.suspiciousSubmissions = (player.suspiciousSubmissions || 0) + 1;
+    return player.suspiciousSubmissions;
+  }
+
   getLeaderboard(roomId: string): PlayerInfo[] {
     const room = this.rooms.get(roomId);
     if (!room) return [];
@@ -275,15 +919,30 @@ export class RoomManager {
   }
 
   // Quiz management
+  // Returns false (and leaves the room running) for a quiz that is already open, finished or not unlocked yet
   markQuizStarted(playerId: string, quizCategory: string): boolean {
     const room = this.getRoomByPlayerId(playerId);
     if (!room) return false;
 
     const player = room.players.get(playerId);
-    if (!player) return false;
+    if (!player || player.isHost) return false;
 
-    player.quizStatus.currentQuiz = quizCategory;
-    player.quizStatus.isCompleted = false;
+    const status = player.quizStatus;
+    if (status.currentQuiz === quizCategory) return false;
+    if (status.completedQuizzes?.includes(quizCategory) || status.results?.some(result => result.category === quizCategory)) {
+      return false;
+    }
+    if (!isQuizCategoryUnlocked(room.gameState.assetUnlockSchedule, room.gameState.currentYear, quizCategory)) {
+      return false;
+    }
+
+    status.currentQuiz = quizCategory;
+    status.isCompleted = false;
+    // Reopening a quiz keeps its first start time and the answers already given
+    status.openedQuizzes = {
+      ...status.openedQuizzes,
+      [quizCategory]: status.openedQuizzes?.[quizCategory] ?? { startedAt: Date.now(), answers: [] },
+    };
 
     // Pause game for all players
     room.gameState.isPaused = true;
@@ -304,8 +963,12 @@ export class RoomManager {
     const player = room.players.get(playerId);
     if (!player) return false;
 
-    player.quizStatus.currentQuiz = null;
-    player.quizStatus.isCompleted = true;
+    const status = player.quizStatus;
+    if (status.openedQuizzes?.[quizCategory] && !status.completedQuizzes?.includes(quizCategory)) {
+      status.completedQuizzes = [...(status.completedQuizzes || []), quizCategory];
+    }
+    if (status.currentQuiz === quizCategory) status.currentQuiz = null;
+    status.isCompleted = true;
 
     // Remove player from waiting list
     room.gameState.playersWaitingForQuiz = room.gameState.playersWaitingForQuiz.filter(
@@ -378,13 +1041,15 @@ export class RoomManager {
     return true;
   }
 
-  // Clean up old rooms (optional - run periodically)
-  cleanupOldRooms(maxAgeMs: number = 24 * 60 * 60 * 1000): void {
+  // Clean up old rooms (optional - run periodically); returns the deleted room ids
+  cleanupOldRooms(maxAgeMs: number = 24 * 60 * 60 * 1000): string[] {
     const now = Date.now();
     const roomsToDelete: string[] = [];
 
     this.rooms.forEach((room, roomId) => {
-      if (now - room.createdAt > maxAgeMs && !room.gameState.isStarted) {
+      // Restored rooms nobody came back to are abandoned even if their game had started
+      const abandoned = Array.from(room.players.values()).every(p => p.isConnected === false);
+      if (now - room.createdAt > maxAgeMs && (!room.gameState.isStarted || abandoned)) {
         roomsToDelete.push(roomId);
       }
     });
@@ -392,5 +1057,7 @@ export class RoomManager {
     roomsToDelete.forEach(roomId => {
       this.deleteRoom(roomId);
     });
+
+    return roomsToDelete;
   }
 }
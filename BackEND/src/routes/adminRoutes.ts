@@ -2,6 +2,51 @@ import { Router, Request, Response } from 'express';
 import { authenticateAdmin, createAdminAccount, changeAdminPassword } from '../database/adminAuth';
 import { getAdminSettings, updateAdminSettings, resetAdminSettings } from '../database/adminSettings';
 import { getPlayerLogs, getPlayerStats, deletePlayerLogs } from '../database/playerLogs';
+import { getQuizStats, getQuizLeaderboard } from '../database/quizAttempts';
+import { isValidGameDuration, MIN_GAME_DURATION_YEARS, MAX_GAME_DURATION_YEARS } from '../game/gameDuration';
+import { isValidTaxSettings } from '../game/taxes';
+import { isValidLoanSettings } from '../game/loans';
+import { getScenario } from '../game/scenarios';
+import { isLanguage, isTranslationLanguage, LANGUAGES } from '../game/languages';
+import { isValidQuizBonusCash, MAX_QUIZ_BONUS_CASH } from '../game/quizScoring';
+import { getFDRateRows, upsertFDRate, deleteFDRate } from '../database/fdRates';
+import { MIN_FD_TENURE_MONTHS, MAX_FD_TENURE_MONTHS } from '../services/fdRates';
+import {
+  getAllLifeEventTemplates,
+  parseLifeEventTemplate,
+  createLifeEventTemplate,
+  updateLifeEventTemplate,
+  deleteLifeEventTemplate,
+  importLifeEventTemplates,
+  parseLifeEventTranslation,
+  getLifeEventTranslations,
+  saveLifeEventTranslation,
+  deleteLifeEventTranslation,
+} from '../database/lifeEventPool';
+import {
+  getFullQuizBank,
+  isQuizCategory,
+  parseQuizQuestion,
+  updateQuizCategory,
+  createQuizQuestion,
+  updateQuizQuestion,
+  deleteQuizQuestion,
+  importQuizBank,
+  parseQuizQuestionTranslation,
+  getQuizBankTranslations,
+  getQuizQuestionOptionCount,
+  saveQuizCategoryTranslation,
+  saveQuizQuestionTranslation,
+  deleteQuizQuestionTranslation,
+} from '../database/quizBank';
+import {
+  isTransferFormat,
+  lifeEventsToCSV,
+  lifeEventsFromCSV,
+  quizBankToCSV,
+  quizBankFromCSV,
+} from '../services/contentTransfer';
+import { AssetEducationContent, LifeEventTemplate, QuizQuestion } from '../types';
 
 const router = Router();
 
@@ -140,6 +185,39 @@ router.put('/settings', (req: Request, res: Response) => {
       return res.status(400).json({ success: false, message: 'Invalid eventsCount (must be a number between 1 and 20)' });
     }
 
+    if (settings.gameDurationYears !== undefined && !isValidGameDuration(settings.gameDurationYears)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid gameDurationYears (must be a whole number between ${MIN_GAME_DURATION_YEARS} and ${MAX_GAME_DURATION_YEARS})`,
+      });
+    }
+
+    if (settings.taxSettings !== undefined && !isValidTaxSettings(settings.taxSettings)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid taxSettings (rates must be fractions between 0 and 1, holding period 1-120 months)',
+      });
+    }
+
+    if (settings.loanSettings !== undefined && !isValidLoanSettings(settings.loanSettings)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid loanSettings (rates and loan-to-value must be fractions between 0 and 1)',
+      });
+    }
+
+    if (settings.scenarioId && !getScenario(settings.scenarioId)) {
+      return res.status(400).json({ success: false, message: 'Unknown scenarioId' });
+    }
+
+    if (settings.defaultLanguage !== undefined && !isLanguage(settings.defaultLanguage)) {
+      return res.status(400).json({ success: false, message: `Invalid defaultLanguage (must be one of ${LANGUAGES.join(', ')})` });
+    }
+
+    if (settings.quizBonusCash !== undefined && !isValidQuizBonusCash(settings.quizBonusCash)) {
+      return res.status(400).json({ success: false, message: `Invalid quizBonusCash (must be between 0 and ${MAX_QUIZ_BONUS_CASH})` });
+    }
+
     const result = updateAdminSettings(settings);
 
     if (result.success) {
@@ -214,15 +292,17 @@ router.get('/logs', (req: Request, res: Response) => {
 
 /**
  * GET /api/admin/stats
- * Get player statistics
+ * Get player statistics, quiz scores and the quiz leaderboard
  */
 router.get('/stats', (req: Request, res: Response) => {
   try {
     const { playerName } = req.query;
 
     const stats = getPlayerStats(playerName as string | undefined);
+    const quizStats = getQuizStats(playerName as string | undefined);
+    const quizLeaderboard = getQuizLeaderboard();
 
-    return res.status(200).json({ success: true, stats });
+    return res.status(200).json({ success: true, stats, quizStats, quizLeaderboard });
   } catch (error) {
     console.error('Get stats error:', error);
     return res.status(500).json({ success: false, message: 'Internal server error' });
@@ -254,6 +334,666 @@ router.delete('/logs', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/admin/fd-rates
+ * Get every FD rate row (year, tenure in months, annual %)
+ */
+router.get('/fd-rates', (req: Request, res: Response) => {
+  try {
+    const rates = getFDRateRows();
+
+    return res.status(200).json({ success: true, rates });
+  } catch (error) {
+    console.error('Get FD rates error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/fd-rates
+ * Add or update the FD rate for a year and tenure
+ */
+router.put('/fd-rates', (req: Request, res: Response) => {
+  try {
+    const { year, tenureMonths, rate } = req.body;
+
+    if (!Number.isInteger(year) || year < 1900 || year > 2100) {
+      return res.status(400).json({ success: false, message: 'Invalid year (must be between 1900-2100)' });
+    }
+
+    if (!Number.isInteger(tenureMonths) || tenureMonths < MIN_FD_TENURE_MONTHS || tenureMonths > MAX_FD_TENURE_MONTHS) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid tenureMonths (must be between ${MIN_FD_TENURE_MONTHS}-${MAX_FD_TENURE_MONTHS})`,
+      });
+    }
+
+    if (typeof rate !== 'number' || !isFinite(rate) || rate <= 0 || rate > 30) {
+      return res.status(400).json({ success: false, message: 'Invalid rate (must be between 0-30%)' });
+    }
+
+    const result = upsertFDRate(year, tenureMonths, rate);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Update FD rate error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/fd-rates
+ * Delete the FD rate for a year and tenure
+ */
+router.delete('/fd-rates', (req: Request, res: Response) => {
+  try {
+    const { year, tenureMonths } = req.body;
+
+    if (!Number.isInteger(year) || !Number.isInteger(tenureMonths)) {
+      return res.status(400).json({ success: false, message: 'year and tenureMonths are required' });
+    }
+
+    const result = deleteFDRate(year, tenureMonths);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Delete FD rate error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/life-events
+ * Get every life event template, including disabled ones
+ */
+router.get('/life-events', (req: Request, res: Response) => {
+  try {
+    const templates = getAllLifeEventTemplates();
+
+    return res.status(200).json({ success: true, templates });
+  } catch (error) {
+    console.error('Get life events error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/life-events
+ * Add a life event template
+ */
+router.post('/life-events', (req: Request, res: Response) => {
+  try {
+    const template = parseLifeEventTemplate(req.body);
+
+    if (!template) {
+      return res.status(400).json({ success: false, message: 'Invalid life event' });
+    }
+
+    const result = createLifeEventTemplate(template);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Create life event error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/life-events/export?format=json|csv
+ * Download the life event pool
+ */
+router.get('/life-events/export', (req: Request, res: Response) => {
+  try {
+    const format = req.query.format || 'json';
+
+    if (!isTransferFormat(format)) {
+      return res.status(400).json({ success: false, message: 'Invalid format (must be json or csv)' });
+    }
+
+    const templates = getAllLifeEventTemplates().map(({ id, ...template }) => template);
+    const content = format === 'csv' ? lifeEventsToCSV(templates) : JSON.stringify(templates, null, 2);
+
+    res.setHeader('Content-Disposition', `attachment; filename="life-events.${format}"`);
+    return res.status(200).type(format === 'csv' ? 'text/csv' : 'application/json').send(content);
+  } catch (error) {
+    console.error('Export life events error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/life-events/import
+ * Import life events from a JSON or CSV file; replace drops the current pool first
+ */
+router.post('/life-events/import', (req: Request, res: Response) => {
+  try {
+    const { format, content, replace } = req.body;
+
+    if (!isTransferFormat(format) || typeof content !== 'string') {
+      return res.status(400).json({ success: false, message: 'format (json or csv) and content are required' });
+    }
+
+    let rows: any[];
+    try {
+      rows = format === 'csv' ? lifeEventsFromCSV(content) : JSON.parse(content);
+    } catch {
+      return res.status(400).json({ success: false, message: 'Could not read the file' });
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ success: false, message: 'The file has no life events' });
+    }
+
+    const templates: LifeEventTemplate[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const template = parseLifeEventTemplate(rows[i]);
+      if (!template) {
+        return res.status(400).json({ success: false, message: `Invalid life event at entry ${i + 1}` });
+      }
+      templates.push(template);
+    }
+
+    const result = importLifeEventTemplates(templates, replace === true);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Import life events error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/life-events/:id
+ * Update a life event template
+ */
+router.put('/life-events/:id', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const template = parseLifeEventTemplate(req.body);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    if (!template) {
+      return res.status(400).json({ success: false, message: 'Invalid life event' });
+    }
+
+    const result = updateLifeEventTemplate(id, template);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Update life event error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/life-events/:id
+ * Delete a life event template
+ */
+router.delete('/life-events/:id', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    const result = deleteLifeEventTemplate(id);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Delete life event error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/life-events/translations/:language
+ * Get the stored translations for a language, keyed by life event id
+ */
+router.get('/life-events/translations/:language', (req: Request, res: Response) => {
+  try {
+    const { language } = req.params;
+
+    if (!isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid language' });
+    }
+
+    const translations = getLifeEventTranslations(language);
+
+    return res.status(200).json({ success: true, translations });
+  } catch (error) {
+    console.error('Get life event translations error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/life-events/:id/translations/:language
+ * Save the translated message and choice labels of a life event
+ */
+router.put('/life-events/:id/translations/:language', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { language } = req.params;
+    const translation = parseLifeEventTranslation(req.body);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    if (!isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid language' });
+    }
+
+    if (!translation) {
+      return res.status(400).json({ success: false, message: 'Invalid translation' });
+    }
+
+    const result = saveLifeEventTranslation(id, language, translation);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Save life event translation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/life-events/:id/translations/:language
+ * Delete a life event translation so the English text is shown again
+ */
+router.delete('/life-events/:id/translations/:language', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { language } = req.params;
+
+    if (isNaN(id) || !isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid id or language' });
+    }
+
+    const result = deleteLifeEventTranslation(id, language);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Delete life event translation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/quiz-bank
+ * Get every quiz category with all its questions, including disabled ones
+ */
+router.get('/quiz-bank', (req: Request, res: Response) => {
+  try {
+    const categories = getFullQuizBank();
+
+    return res.status(200).json({ success: true, categories });
+  } catch (error) {
+    console.error('Get quiz bank error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/quiz-bank/categories/:category
+ * Update the intro title and description of a quiz category
+ */
+router.put('/quiz-bank/categories/:category', (req: Request, res: Response) => {
+  try {
+    const { title, description } = req.body;
+
+    if (typeof title !== 'string' || !title.trim() || typeof description !== 'string' || !description.trim()) {
+      return res.status(400).json({ success: false, message: 'title and description are required' });
+    }
+
+    const result = updateQuizCategory(req.params.category, title.trim(), description.trim());
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Update quiz category error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/quiz-bank/questions
+ * Add a question to a quiz category
+ */
+router.post('/quiz-bank/questions', (req: Request, res: Response) => {
+  try {
+    const { category } = req.body;
+    const question = parseQuizQuestion(req.body);
+
+    if (typeof category !== 'string' || !isQuizCategory(category)) {
+      return res.status(400).json({ success: false, message: 'Unknown quiz category' });
+    }
+
+    if (!question) {
+      return res.status(400).json({ success: false, message: 'Invalid question' });
+    }
+
+    const result = createQuizQuestion(category, question);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Create quiz question error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/quiz-bank/questions/:id
+ * Update a quiz question (it can also be moved to another category)
+ */
+router.put('/quiz-bank/questions/:id', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { category } = req.body;
+    const question = parseQuizQuestion(req.body);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    if (typeof category !== 'string' || !isQuizCategory(category)) {
+      return res.status(400).json({ success: false, message: 'Unknown quiz category' });
+    }
+
+    if (!question) {
+      return res.status(400).json({ success: false, message: 'Invalid question' });
+    }
+
+    const result = updateQuizQuestion(id, category, question);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Update quiz question error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/quiz-bank/questions/:id
+ * Delete a quiz question
+ */
+router.delete('/quiz-bank/questions/:id', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    const result = deleteQuizQuestion(id);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Delete quiz question error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/quiz-bank/translations/:language
+ * Get the stored category intros and questions for a language
+ */
+router.get('/quiz-bank/translations/:language', (req: Request, res: Response) => {
+  try {
+    const { language } = req.params;
+
+    if (!isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid language' });
+    }
+
+    const translations = getQuizBankTranslations(language);
+
+    return res.status(200).json({ success: true, translations });
+  } catch (error) {
+    console.error('Get quiz bank translations error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/quiz-bank/categories/:category/translations/:language
+ * Save the translated intro of a quiz category
+ */
+router.put('/quiz-bank/categories/:category/translations/:language', (req: Request, res: Response) => {
+  try {
+    const { category, language } = req.params;
+    const { title, description } = req.body;
+
+    if (!isQuizCategory(category)) {
+      return res.status(404).json({ success: false, message: 'Quiz category not found' });
+    }
+
+    if (!isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid language' });
+    }
+
+    if (typeof title !== 'string' || !title.trim() || typeof description !== 'string' || !description.trim()) {
+      return res.status(400).json({ success: false, message: 'title and description are required' });
+    }
+
+    const result = saveQuizCategoryTranslation(category, language, title.trim(), description.trim());
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Save quiz category translation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/admin/quiz-bank/questions/:id/translations/:language
+ * Save a translated question; the options must match the English ones in number and order
+ */
+router.put('/quiz-bank/questions/:id/translations/:language', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { language } = req.params;
+
+    if (isNaN(id)) {
+      return res.status(400).json({ success: false, message: 'Invalid id' });
+    }
+
+    if (!isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid language' });
+    }
+
+    const optionCount = getQuizQuestionOptionCount(id);
+    if (optionCount === null) {
+      return res.status(404).json({ success: false, message: 'Question not found' });
+    }
+
+    const translation = parseQuizQuestionTranslation(req.body, optionCount);
+    if (!translation) {
+      return res.status(400).json({ success: false, message: `Invalid translation (question and ${optionCount} options are required)` });
+    }
+
+    const result = saveQuizQuestionTranslation(id, language, translation);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Save quiz question translation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/admin/quiz-bank/questions/:id/translations/:language
+ * Delete a question translation so the English text is shown again
+ */
+router.delete('/quiz-bank/questions/:id/translations/:language', (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    const { language } = req.params;
+
+    if (isNaN(id) || !isTranslationLanguage(language)) {
+      return res.status(400).json({ success: false, message: 'Invalid id or language' });
+    }
+
+    const result = deleteQuizQuestionTranslation(id, language);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(404).json(result);
+    }
+  } catch (error) {
+    console.error('Delete quiz question translation error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/admin/quiz-bank/export?format=json|csv
+ * Download the quiz bank
+ */
+router.get('/quiz-bank/export', (req: Request, res: Response) => {
+  try {
+    const format = req.query.format || 'json';
+
+    if (!isTransferFormat(format)) {
+      return res.status(400).json({ success: false, message: 'Invalid format (must be json or csv)' });
+    }
+
+    const categories = getFullQuizBank().map(content => ({
+      ...content,
+      questions: content.questions.map(({ id, ...question }) => question),
+    }));
+    const content = format === 'csv' ? quizBankToCSV(categories) : JSON.stringify(categories, null, 2);
+
+    res.setHeader('Content-Disposition', `attachment; filename="quiz-bank.${format}"`);
+    return res.status(200).type(format === 'csv' ? 'text/csv' : 'application/json').send(content);
+  } catch (error) {
+    console.error('Export quiz bank error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/admin/quiz-bank/import
+ * Import questions from a JSON or CSV file; replace drops the existing questions of each imported category
+ */
+router.post('/quiz-bank/import', (req: Request, res: Response) => {
+  try {
+    const { format, content, replace } = req.body;
+
+    if (!isTransferFormat(format) || typeof content !== 'string') {
+      return res.status(400).json({ success: false, message: 'format (json or csv) and content are required' });
+    }
+
+    let rows: any[];
+    try {
+      rows = format === 'csv' ? quizBankFromCSV(content) : JSON.parse(content);
+    } catch {
+      return res.status(400).json({ success: false, message: 'Could not read the file' });
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ success: false, message: 'The file has no quiz categories' });
+    }
+
+    const contents: AssetEducationContent[] = [];
+    for (const row of rows) {
+      if (!row || typeof row.category !== 'string' || !isQuizCategory(row.category)) {
+        return res.status(400).json({ success: false, message: `Unknown quiz category: ${row?.category}` });
+      }
+      if (!Array.isArray(row.questions)) {
+        return res.status(400).json({ success: false, message: `No questions for ${row.category}` });
+      }
+
+      const questions: QuizQuestion[] = [];
+      for (let i = 0; i < row.questions.length; i++) {
+        const question = parseQuizQuestion(row.questions[i]);
+        if (!question) {
+          return res.status(400).json({ success: false, message: `Invalid question ${i + 1} in ${row.category}` });
+        }
+        questions.push(question);
+      }
+
+      contents.push({
+        category: row.category,
+        title: typeof row.title === 'string' ? row.title.trim() : '',
+        description: typeof row.description === 'string' ? row.description.trim() : '',
+        questions,
+      });
+    }
+
+    const result = importQuizBank(contents, replace === true);
+
+    if (result.success) {
+      return res.status(200).json(result);
+    } else {
+      return res.status(500).json(result);
+    }
+  } catch (error) {
+    console.error('Import quiz bank error:', error);
+    return res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
 /**
  * GET /api/admin/asset-metadata
  * Get asset metadata from PostgreSQL database
@@ -1,12 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { generateTradingReport } from '../services/aiReport';
 import { getPlayerLogs } from '../database/playerLogs';
+import { getInflationFactor } from '../services/marketDataService';
+import { isPostgresPoolInitialized } from '../database/postgresDb';
+import { getGameDurationYears } from '../game/gameDuration';
+import { getGameEnd, getGameStartMonth, getScenario } from '../game/scenarios';
+import { getCashTransactionsByLogId } from '../database/cashTransactions';
+import { calculateBenchmarks, getBenchmarkParams, BenchmarkResult } from '../services/benchmarks';
+import { isLanguage } from '../game/languages';
 
 const router = Router();
 
 router.post('/generate', async (req: Request, res: Response) => {
   try {
-    const { logId, uniqueId, reportId, summary, trades } = req.body;
+    const { logId, uniqueId, reportId, summary, trades, language } = req.body;
 
     // Accept either numeric logId (may be 0) OR uniqueId (preferred)
     let playerLog: any | null = null;
@@ -25,6 +32,26 @@ router.post('/generate', async (req: Request, res: Response) => {
       });
     }
 
+    // Deflate the final result back to game-start rupees with the CPI series
+    let realNetworth: number | undefined;
+    let realCAGR: number | undefined;
+    let benchmarks: BenchmarkResult[] | undefined;
+    if (isPostgresPoolInitialized()) {
+      const startMonth = getGameStartMonth(playerLog.adminSettings);
+      const years = getGameDurationYears(playerLog.adminSettings);
+      const startYear = playerLog.adminSettings?.gameStartYear || 2005;
+      const gameEnd = getGameEnd(playerLog.adminSettings);
+      const inflation = await getInflationFactor(startYear, startMonth, startYear + gameEnd.year - 1, gameEnd.month);
+      realNetworth = playerLog.finalNetworth / inflation;
+      realCAGR = ((1 + (playerLog.finalCAGR || 0) / 100) / Math.pow(inflation, 1 / years) - 1) * 100;
+
+      // Passive strategies fed the same cash flows, life events included
+      const lifeEvents = getCashTransactionsByLogId(playerLog.id)
+        .filter(tx => tx.txType === 'life_event_gain' || tx.txType === 'life_event_loss')
+        .map(tx => ({ gameYear: tx.gameYear || 0, gameMonth: tx.gameMonth || 0, amount: tx.amount }));
+      benchmarks = await calculateBenchmarks(getBenchmarkParams(playerLog.adminSettings, lifeEvents));
+    }
+
     // If caller provided precomputed summary/trades and a reportId, prefer those to save tokens
     const result = await generateTradingReport({
       logId: playerLog.id,
@@ -34,6 +61,11 @@ router.post('/generate', async (req: Request, res: Response) => {
       finalNetworth: playerLog.finalNetworth,
       finalCAGR: playerLog.finalCAGR || 0,
       profitLoss: playerLog.profitLoss || 0,
+      realNetworth,
+      realCAGR,
+      benchmarks,
+      scenarioName: getScenario(playerLog.adminSettings?.scenarioId)?.name,
+      language: isLanguage(language) ? language : undefined,
       reportId: reportId || null,
       precomputedSummary: summary || null,
       precomputedTrades: Array.isArray(trades) ? trades : null,
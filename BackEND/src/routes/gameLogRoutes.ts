@@ -1,11 +1,55 @@
 import { Router, Request, Response } from 'express';
 import { logPlayerGame, LogPlayerGameParams, getPlayerLogs } from '../database/playerLogs';
+import { isPostgresPoolInitialized } from '../database/postgresDb';
+import { calculateBenchmarks, getBenchmarkParams, BenchmarkCashFlow } from '../services/benchmarks';
+import { getLifeEventPool } from '../database/lifeEventPool';
+import { getQuizBank } from '../database/quizBank';
+import { isLanguage, DEFAULT_LANGUAGE } from '../game/languages';
+import { logQuizAttempt } from '../database/quizAttempts';
+import { findQuizQuestion } from '../game/quizBank';
+import { getQuizBonusCash, scoreQuizAnswers } from '../game/quizScoring';
+import { AdminSettings, QuizResult } from '../types';
 
 const router = Router();
 
+/**
+ * Score the quizzes a solo client reports against the question bank
+ * Only the question and the options submitted are taken from the client - points and bonus are recomputed
+ */
+function scoreSoloQuizzes(submitted: unknown, adminSettings: AdminSettings): QuizResult[] {
+  if (!Array.isArray(submitted)) return [];
+
+  const bank = getQuizBank();
+  const results: QuizResult[] = [];
+
+  submitted.forEach(entry => {
+    if (!entry || typeof entry.category !== 'string' || !Number.isInteger(entry.questionId) || !Array.isArray(entry.answers)) return;
+    if (results.some(result => result.category === entry.category)) return;
+
+    const question = findQuizQuestion(bank, entry.category, entry.questionId);
+    const score = question ? scoreQuizAnswers(question, entry.answers.filter((answer: unknown) => Number.isInteger(answer))) : null;
+    if (!score) return;
+
+    results.push({
+      category: entry.category,
+      questionId: entry.questionId,
+      answers: score.answers,
+      attempts: score.attempts,
+      points: score.points,
+      bonusCash: getQuizBonusCash(adminSettings, score.points),
+      timeTakenMs: typeof entry.timeTakenMs === 'number' && entry.timeTakenMs >= 0 ? Math.round(entry.timeTakenMs) : null,
+      gameYear: Number(entry.gameYear) || 0,
+      gameMonth: Number(entry.gameMonth) || 0,
+    });
+  });
+
+  return results;
+}
+
 /**
  * POST /api/game/log
  * Log a completed game
+ * Solo games send their quizResults along; multiplayer quizzes were scored live and are attached by the server
  */
 router.post('/log', (req: Request, res: Response) => {
   try {
@@ -20,6 +64,7 @@ router.post('/log', (req: Request, res: Response) => {
       portfolioBreakdown,
       adminSettings,
       gameDurationMinutes,
+      quizResults,
     } = req.body;
 
     // Validate required fields
@@ -52,6 +97,12 @@ router.post('/log', (req: Request, res: Response) => {
 
     const result = logPlayerGame(params);
 
+    if (result.success && gameMode === 'solo' && result.logId !== undefined) {
+      scoreSoloQuizzes(quizResults, adminSettings).forEach(quiz => {
+        logQuizAttempt({ logId: result.logId, gameMode, playerName, result: quiz });
+      });
+    }
+
     if (result.success) {
       return res.status(201).json(result);
     } else {
@@ -124,4 +175,70 @@ router.get('/final-leaderboard/:roomId', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/game/benchmarks
+ * Replay the game's cash flows against passive benchmarks (Nifty, gold, FD ladder, 60/40)
+ * Body: { adminSettings, lifeEvents: [{ gameYear, gameMonth, amount }] }
+ */
+router.post('/benchmarks', async (req: Request, res: Response) => {
+  try {
+    const { adminSettings, lifeEvents = [] } = req.body;
+
+    if (!adminSettings || !Array.isArray(lifeEvents)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: adminSettings, lifeEvents',
+      });
+    }
+
+    if (!isPostgresPoolInitialized()) {
+      return res.status(503).json({
+        success: false,
+        message: 'Database not available',
+      });
+    }
+
+    const flows: BenchmarkCashFlow[] = lifeEvents
+      .filter((event: any) => typeof event?.amount === 'number' && isFinite(event.amount))
+      .map((event: any) => ({ gameYear: Number(event.gameYear), gameMonth: Number(event.gameMonth), amount: event.amount }));
+
+    const benchmarks = await calculateBenchmarks(getBenchmarkParams(adminSettings, flows));
+
+    return res.status(200).json({
+      success: true,
+      benchmarks,
+    });
+  } catch (error) {
+    console.error('Calculate benchmarks error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to calculate benchmarks',
+    });
+  }
+});
+
+/**
+ * GET /api/game/life-events/pool?language=
+ * Enabled life event templates - solo games schedule their own events from these
+ */
+router.get('/life-events/pool', (req: Request, res: Response) => {
+  const language = isLanguage(req.query.language) ? req.query.language : DEFAULT_LANGUAGE;
+  res.json({
+    success: true,
+    data: getLifeEventPool(language),
+  });
+});
+
+/**
+ * GET /api/game/quiz-bank?language=
+ * Asset education intros and enabled quiz questions, keyed by category
+ */
+router.get('/quiz-bank', (req: Request, res: Response) => {
+  const language = isLanguage(req.query.language) ? req.query.language : DEFAULT_LANGUAGE;
+  res.json({
+    success: true,
+    data: getQuizBank(language),
+  });
+});
+
 export default router;
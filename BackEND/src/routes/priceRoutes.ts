@@ -8,10 +8,14 @@ import { Router, Request, Response } from 'express';
 import { isPostgresPoolInitialized } from '../database/postgresDb';
 import {
   getPricesForDate,
+  getCorporateActionsForMonth,
   getAssetMetadata,
   preloadPricesForGame,
   getGameSymbols,
+  getCPISeries,
+  CorporateAction,
 } from '../services/marketDataService';
+import { getFDRates } from '../services/fdRates';
 
 const router = Router();
 
@@ -81,6 +85,104 @@ router.get('/current', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/prices/corporate-actions
+ * Get dividends, splits and bonus issues for a run of months (solo mode applies them itself)
+ * Query params:
+ *   - symbols: comma-separated list of asset symbols
+ *   - year: calendar year of the first month
+ *   - month: first month (1-12)
+ *   - months: number of months to include (default 1, max 240)
+ */
+router.get('/corporate-actions', async (req: Request, res: Response) => {
+  try {
+    if (req.headers['x-multiplayer-mode'] === 'true') {
+      return res.status(403).json({
+        success: false,
+        error: 'Corporate actions are applied by the server in multiplayer mode.',
+      });
+    }
+
+    if (!isPostgresPoolInitialized()) {
+      return res.status(503).json({
+        success: false,
+        error: 'Database not available',
+      });
+    }
+
+    const { symbols, year, month, months = '1' } = req.query;
+
+    if (!symbols || !year || !month) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required parameters: symbols, year, month',
+      });
+    }
+
+    const symbolList = (symbols as string).split(',').map((s) => s.trim());
+    let currentYear = parseInt(year as string, 10);
+    let currentMonth = parseInt(month as string, 10);
+    const monthCount = parseInt(months as string, 10);
+
+    if (isNaN(currentYear) || isNaN(currentMonth) || currentMonth < 1 || currentMonth > 12 ||
+        isNaN(monthCount) || monthCount < 1 || monthCount > 240) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid year, month or months',
+      });
+    }
+
+    const actions: CorporateAction[] = [];
+    for (let i = 0; i < monthCount; i++) {
+      actions.push(...await getCorporateActionsForMonth(symbolList, currentYear, currentMonth));
+
+      currentMonth++;
+      if (currentMonth > 12) {
+        currentMonth = 1;
+        currentYear++;
+      }
+    }
+
+    res.json({
+      success: true,
+      data: { actions },
+    });
+  } catch (error) {
+    console.error('Error fetching corporate actions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch corporate actions',
+    });
+  }
+});
+
+/**
+ * GET /api/prices/cpi
+ * Get the consumer price index series used for inflation-adjusted ("real") networth
+ * Returns: [{ date: 'YYYY-MM-DD', value }] oldest first
+ */
+router.get('/cpi', async (req: Request, res: Response) => {
+  try {
+    if (!isPostgresPoolInitialized()) {
+      return res.status(503).json({
+        success: false,
+        error: 'Database not available',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await getCPISeries(),
+    });
+  } catch (error) {
+    console.error('Error fetching CPI series:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch CPI series',
+    });
+  }
+});
+
 /**
  * POST /api/prices/batch
  * Get prices for multiple months at once (for chart history)
@@ -257,65 +359,14 @@ router.get('/health', (req: Request, res: Response) => {
 
 /**
  * GET /api/prices/fd-rates
- * Get Fixed Deposit rates for all years based on National Savings Time Deposit Account Scheme
- * Returns: { year: { 12: rate, 24: rate, 36: rate } }
- * Keys: 12 = 1 year, 24 = 2 years, 36 = 3 years
+ * Get Fixed Deposit rates for all years from the fd_rates table
+ * Returns: { year: { tenureMonths: rate } }
+ * Keys are tenures in months (12 = 1 year); admins may add custom tenures
  */
 router.get('/fd-rates', (req: Request, res: Response) => {
-  // Historical FD rates from National Savings Time Deposit Account Scheme
-  // Rates are annual percentages for 1 year, 2 years, and 3 years tenure
-  const fdRates: { [year: number]: { 12: number; 24: number; 36: number } } = {
-    1981: { 12: 8.50, 24: 9.50, 36: 10.50 },
-    1982: { 12: 9.00, 24: 9.75, 36: 10.50 },
-    1983: { 12: 9.00, 24: 9.75, 36: 10.50 },
-    1984: { 12: 9.00, 24: 9.75, 36: 10.50 },
-    1985: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1986: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1987: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1988: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1989: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1990: { 12: 9.50, 24: 10.00, 36: 10.50 },
-    1991: { 12: 12.00, 24: 12.00, 36: 13.00 },
-    1992: { 12: 12.00, 24: 12.00, 36: 13.00 },
-    1993: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1994: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1995: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1996: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1997: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1998: { 12: 10.50, 24: 11.00, 36: 12.00 },
-    1999: { 12: 9.00, 24: 10.00, 36: 11.00 },
-    2000: { 12: 8.00, 24: 9.00, 36: 10.00 },
-    2001: { 12: 7.50, 24: 8.00, 36: 9.00 },
-    2002: { 12: 7.25, 24: 7.50, 36: 8.25 },
-    2003: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2004: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2005: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2006: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2007: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2008: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2009: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2010: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2011: { 12: 6.25, 24: 6.50, 36: 7.25 },
-    2012: { 12: 8.20, 24: 8.30, 36: 8.40 },
-    2013: { 12: 8.20, 24: 8.20, 36: 8.30 },
-    2014: { 12: 8.40, 24: 8.40, 36: 8.40 },
-    2015: { 12: 8.40, 24: 8.40, 36: 8.40 },
-    2016: { 12: 7.10, 24: 7.20, 36: 7.40 },
-    2017: { 12: 6.90, 24: 7.00, 36: 7.20 },
-    2018: { 12: 6.60, 24: 6.70, 36: 6.90 },
-    2019: { 12: 7.00, 24: 7.00, 36: 7.00 },
-    2020: { 12: 5.50, 24: 5.50, 36: 5.50 },
-    2021: { 12: 5.50, 24: 5.50, 36: 5.50 },
-    2022: { 12: 5.50, 24: 5.70, 36: 5.80 },
-    2023: { 12: 6.80, 24: 6.90, 36: 7.00 },
-    2024: { 12: 6.90, 24: 7.00, 36: 7.10 },
-    2025: { 12: 6.90, 24: 7.00, 36: 7.10 },
-    2026: { 12: 6.90, 24: 7.00, 36: 7.10 },
-  };
-
   res.json({
     success: true,
-    data: fdRates,
+    data: getFDRates(),
   });
 });
 
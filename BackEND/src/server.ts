@@ -12,11 +12,43 @@ import {
   ClientToServerEvents,
   InterServerEvents,
   SocketData,
+  Room,
+  PlayerInfo,
 } from './types';
 import * as os from 'os';
 import { initializeDatabase, closeDatabase } from './database/db';
+import { getQuizBank } from './database/quizBank';
 import { initPostgresPool, closePostgresPool, isPostgresPoolInitialized } from './database/postgresDb';
 import { cleanupAllRoomKeys } from './services/roomKeyManager';
+import { fullValidation } from './services/networthValidator';
+import { getFDRate } from './services/fdRates';
+import { getCPISeries } from './services/marketDataService';
+import {
+  executeTrade,
+  depositToSavings,
+  withdrawFromSavings,
+  openFixedDeposit,
+  collectFixedDeposit,
+  breakFixedDeposit,
+  takeLoan,
+  repayLoan,
+  buyBond,
+  sellBond,
+  buyInsurance,
+  cancelInsurance,
+  isLedgerAssetType,
+  isFDDuration,
+} from './game/playerLedger';
+import { getGameDurationYears } from './game/gameDuration';
+import { getGameEnd } from './game/scenarios';
+import { getTaxSettings, toMonthIndex } from './game/taxes';
+import { getLoanSettings, isLoanTenure, isLoanType } from './game/loans';
+import { isBondType } from './game/bonds';
+import { isInsuranceType } from './game/insurance';
+import { cancelStandingOrder, placeStandingOrder } from './game/orderBook';
+import { getQuestionIds, resolveQuestionIndices } from './game/quizBank';
+import { isLanguage } from './game/languages';
+import { resolveTradeSymbol } from './game/tradableAssets';
 import adminRoutes from './routes/adminRoutes';
 import gameLogRoutes from './routes/gameLogRoutes';
 import aiReportRoutes from './routes/aiReportRoutes';
@@ -129,12 +161,13 @@ if (process.env.NODE_ENV !== 'production') {
     try {
       const rooms = roomManager.getAllRooms();
       rooms.forEach(room => {
-        // Set final state (20 years, month 12)
-        room.gameState.currentYear = 20;
-        room.gameState.currentMonth = 12;
+        // Set final state (last game year, month 12)
+        const { year: finalYear, month: finalMonth } = getGameEnd(room.adminSettings);
+        room.gameState.currentYear = finalYear;
+        room.gameState.currentMonth = finalMonth;
         room.gameState.isStarted = false;
         // Emit gameEnded to all sockets in the room
-        io.to(room.id).emit('gameEnded', { finalYear: 20, finalMonth: 12 });
+        io.to(room.id).emit('gameEnded', { finalYear, finalMonth });
       });
       res.json({ success: true, roomsAffected: rooms.length });
     } catch (err) {
@@ -149,11 +182,12 @@ if (process.env.NODE_ENV !== 'production') {
       const room = roomManager.getRoom(roomId);
       if (!room) return res.status(404).json({ success: false, error: 'room not found' });
 
-      room.gameState.currentYear = 20;
-      room.gameState.currentMonth = 12;
+      const { year: finalYear, month: finalMonth } = getGameEnd(room.adminSettings);
+      room.gameState.currentYear = finalYear;
+      room.gameState.currentMonth = finalMonth;
       room.gameState.isStarted = false;
 
-      io.to(roomId).emit('gameEnded', { finalYear: 20, finalMonth: 12 });
+      io.to(roomId).emit('gameEnded', { finalYear, finalMonth });
 
       res.json({ success: true, roomId });
     } catch (err) {
@@ -169,7 +203,15 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
   // Create room
   socket.on('createRoom', (data, callback) => {
     try {
-      const roomId = roomManager.createRoom(socket.id, data.playerName);
+      if (socket.data.isSpectator) {
+        callback({ success: false, error: 'Stop spectating before creating a room' });
+        return;
+      }
+
+      const roomId = roomManager.createRoom(socket.id, data.playerName, {
+        maxPlayers: data.maxPlayers,
+        passcode: data.passcode,
+      });
 
       // Store socket data
       socket.data.roomId = roomId;
@@ -179,7 +221,11 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
       // Join socket room
       socket.join(roomId);
 
-      callback({ success: true, roomId });
+      const sessionToken = roomManager.issueSessionToken(socket.id);
+
+      callback({ success: true, roomId, sessionToken, maxPlayers: roomManager.getRoom(roomId)?.maxPlayers ?? null });
+
+      gameSyncManager.persistRoom(roomId);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to create room';
@@ -190,7 +236,31 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
   // Join room
   socket.on('joinRoom', (data, callback) => {
     try {
-      const result = roomManager.joinRoom(data.roomId, socket.id, data.playerName);
+      if (socket.data.isSpectator) {
+        callback({ success: false, error: 'Stop spectating before joining as a player' });
+        return;
+      }
+
+      // After a server restart, a restored seat with this name that nobody has resumed is handed back instead of rejected
+      const reclaimed = roomManager.reclaimSeat(data.roomId, data.playerName, socket.id, data.passcode);
+      if (reclaimed.success && reclaimed.room) {
+        const room = reclaimed.room;
+        rejoinSeat(socket, room, reclaimed.oldPlayerId!, (player) => {
+          callback({
+            success: true,
+            players: Array.from(room.players.values()),
+            adminSettings: room.adminSettings,
+            sessionToken: roomManager.issueSessionToken(socket.id),
+            isHost: player.isHost,
+            gameState: room.gameState,
+            maxPlayers: room.maxPlayers,
+            requireAllReady: room.requireAllReady,
+          });
+        });
+        return;
+      }
+
+      const result = roomManager.joinRoom(data.roomId, socket.id, data.playerName, data.passcode);
 
       if (!result.success) {
         callback({ success: false, error: result.error });
@@ -213,6 +283,9 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
         success: true,
         players,
         adminSettings: room.adminSettings,
+        sessionToken: roomManager.issueSessionToken(socket.id),
+        maxPlayers: room.maxPlayers,
+        requireAllReady: room.requireAllReady,
       });
 
       // Notify others in the room
@@ -228,6 +301,53 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
         socket.emit('gameStateUpdate', { gameState: room.gameState });
       }
 
+      gameSyncManager.persistRoom(data.roomId);
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to join room';
+      callback({ success: false, error: errorMessage });
+    }
+  });
+
+  // Watch a room without playing
+  socket.on('joinAsSpectator', (data, callback) => {
+    try {
+      // A seated player would lose their grace timer and host hand-off if this socket became a spectator
+      if (socket.data.playerId) {
+        callback({ success: false, error: 'Leave your game before spectating' });
+        return;
+      }
+
+      const result = roomManager.joinAsSpectator(data.roomId, socket.id, data.spectatorName, data.passcode);
+
+      if (!result.success || !result.room) {
+        callback({ success: false, error: result.error });
+        return;
+      }
+
+      const room = result.room;
+
+      // Store socket data (no playerId - spectators can't trade, take quizzes or submit networth)
+      socket.data.roomId = room.id;
+      socket.data.playerName = data.spectatorName;
+      socket.data.isSpectator = true;
+
+      // Join socket room so room-wide broadcasts reach them, plus the channel that gets the spectator game state
+      socket.join(room.id);
+      socket.join(roomManager.getSpectatorChannel(room.id));
+
+      callback({
+        success: true,
+        roomId: room.id,
+        players: Array.from(room.players.values()),
+        spectators: roomManager.getSpectators(room.id),
+        adminSettings: room.adminSettings,
+        gameState: roomManager.getSpectatorGameState(room.gameState),
+        leaderboard: roomManager.getLeaderboard(room.id),
+      });
+
+      io.to(room.id).emit('spectatorsUpdate', { spectators: roomManager.getSpectators(room.id) });
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to join room';
       callback({ success: false, error: errorMessage });
@@ -236,11 +356,133 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
 
   // Leave room
   socket.on('leaveRoom', () => {
+    if (socket.data.isSpectator) {
+      handleSpectatorLeave(socket);
+      return;
+    }
     handlePlayerLeave(socket);
   });
 
+  // Pick who takes over as host (host only)
+  socket.on('designateSuccessor', (data, callback) => {
+    const roomId = socket.data.roomId;
+    if (!roomId) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const result = roomManager.designateSuccessor(roomId, socket.id, data.playerId);
+    callback(result);
+
+    if (result.success) {
+      io.to(roomId).emit('successorChanged', { successorId: data.playerId });
+      gameSyncManager.persistRoom(roomId);
+    }
+  });
+
+  // Lobby ready-check
+  socket.on('setReady', (data, callback) => {
+    const playerId = socket.data.playerId;
+    if (!playerId) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const result = roomManager.setPlayerReady(playerId, data.isReady === true);
+    callback({ success: result.success, error: result.error });
+
+    if (result.success && result.roomId) {
+      io.to(result.roomId).emit('playerReadyChanged', { playerId, isReady: data.isReady === true });
+      gameSyncManager.persistRoom(result.roomId);
+    }
+  });
+
+  // Host toggles "start only when everyone is ready"
+  socket.on('setReadyRule', (data, callback) => {
+    const roomId = socket.data.roomId;
+    if (!roomId) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const result = roomManager.setRequireAllReady(roomId, socket.id, data.requireAllReady === true);
+    callback(result);
+
+    if (result.success) {
+      io.to(roomId).emit('readyRuleChanged', { requireAllReady: data.requireAllReady === true });
+      gameSyncManager.persistRoom(roomId);
+    }
+  });
+
+  // Remove a player and bar them from rejoining (host only)
+  socket.on('kickPlayer', (data, callback) => {
+    const roomId = socket.data.roomId;
+    if (!roomId) {
+      callback({ success: false, error: 'Not in a room' });
+      return;
+    }
+
+    const result = roomManager.kickPlayer(roomId, socket.id, data.playerId);
+    callback(result);
+    if (!result.success) return;
+
+    // Tell the kicked socket, then stop it receiving room broadcasts
+    io.to(data.playerId).emit('kickedFromRoom', { roomId });
+    const kickedSocket = io.sockets.sockets.get(data.playerId);
+    if (kickedSocket) {
+      kickedSocket.leave(roomId);
+      kickedSocket.data.roomId = undefined;
+      kickedSocket.data.playerId = undefined;
+    }
+
+    removePlayer(data.playerId);
+  });
+
+  // Resume a dropped session on a new socket
+  socket.on('resumeSession', (data, callback) => {
+    try {
+      if (socket.data.isSpectator) {
+        callback({ success: false, error: 'Stop spectating before resuming a game' });
+        return;
+      }
+
+      const result = roomManager.resumeSession(data.sessionToken, socket.id);
+
+      if (!result.success || !result.room) {
+        callback({ success: false, error: result.error });
+        return;
+      }
+
+      const room = result.room;
+      rejoinSeat(socket, room, result.oldPlayerId!, (player) => {
+        callback({
+          success: true,
+          roomId: room.id,
+          playerId: socket.id,
+          isHost: player.isHost,
+          players: Array.from(room.players.values()),
+          adminSettings: room.adminSettings,
+          gameState: room.gameState,
+        });
+      });
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Failed to resume session';
+      callback({ success: false, error: errorMessage });
+    }
+  });
+
   // Start game (host only)
   socket.on('startGame', async (data, callback) => {
+    // Set once the countdown has gone out; any failure after that cancels it for the whole room
+    let countdownRoomId: string | null = null;
+    const failStart = (error: string) => {
+      if (countdownRoomId) {
+        io.to(countdownRoomId).emit('startCountdownCancelled', { reason: error });
+      }
+      callback({ success: false, error });
+    };
+
     try {
       const roomId = socket.data.roomId;
       if (!roomId) {
@@ -259,10 +501,31 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
         return;
       }
 
+      const readinessError = roomManager.checkStartReadiness(roomId) ?? roomManager.validateAdminSettings(data.adminSettings);
+      if (readinessError) {
+        callback({ success: false, error: readinessError });
+        return;
+      }
+
+      // Everyone gets a countdown; it is cancelled if the room stops meeting the start rules
+      io.to(roomId).emit('startCountdown', { durationMs: roomManager.START_COUNTDOWN_MS });
+      countdownRoomId = roomId;
+      const cancelReason = await roomManager.runStartCountdown(roomId);
+      if (cancelReason) {
+        io.to(roomId).emit('startCountdownCancelled', { reason: cancelReason });
+        callback({ success: false, error: `Start cancelled: ${cancelReason}` });
+        return;
+      }
+
+      if (room.hostId !== socket.id) {
+        failStart('Only host can start the game');
+        return;
+      }
+
       const result = roomManager.startGame(roomId, data.adminSettings);
 
       if (!result.success) {
-        callback({ success: false, error: result.error });
+        failStart(result.error || 'Failed to start game');
         return;
       }
 
@@ -277,64 +540,67 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
         if (data.initialGameState.yearlyQuotes) {
           room.gameState.yearlyQuotes = data.initialGameState.yearlyQuotes;
         }
-        if (data.initialGameState.quizQuestionIndices) {
-          room.gameState.quizQuestionIndices = data.initialGameState.quizQuestionIndices;
-        }
+        const quizBank = getQuizBank();
+        room.gameState.quizQuestionIndices = resolveQuestionIndices(data.initialGameState.quizQuestionIndices, quizBank);
+        room.gameState.quizQuestionIds = getQuestionIds(room.gameState.quizQuestionIndices, quizBank);
 
         // After applying initial game state (asset unlock schedule etc.), generate life events for each player
         try {
           const count = (data.adminSettings && typeof data.adminSettings.eventsCount === 'number') ? data.adminSettings.eventsCount : 3;
-          roomManager.generateLifeEventsForRoom(roomId, count);
+          // Event amounts follow CPI; without PostgreSQL they use an assumed inflation rate
+          const cpiSeries = isPostgresPoolInitialized() ? await getCPISeries().catch(() => []) : [];
+          roomManager.generateLifeEventsForRoom(roomId, count, cpiSeries);
         } catch (err) {
         }
       }
 
       // Initialize market data from PostgreSQL (MANDATORY for multiplayer)
-      if (room.gameState.selectedAssets && data.adminSettings.gameStartYear) {
+      if (room.gameState.selectedAssets && room.adminSettings?.gameStartYear) {
         try {
           const success = await gameSyncManager.initializeMarketData(
             roomId,
             room.gameState.selectedAssets,
-            data.adminSettings.gameStartYear
+            room.adminSettings.gameStartYear,
+            getGameDurationYears(room.adminSettings)
           );
 
           if (!success) {
             console.error(`❌ Room ${roomId}: Market data initialization failed - PostgreSQL unavailable`);
-            callback({
-              success: false,
-              error: 'Database connection error. Please check the database or contact your administrator for assistance.'
-            });
+            failStart('Database connection error. Please check the database or contact your administrator for assistance.');
             return;
           }
 
         } catch (err) {
           console.error(`❌ Room ${roomId}: Market data init error:`, err);
-          callback({
-            success: false,
-            error: 'Database error occurred. Please contact your administrator for more information.'
-          });
+          failStart('Database error occurred. Please contact your administrator for more information.');
           return;
         }
       } else {
         console.error(`❌ Room ${roomId}: Missing selectedAssets or gameStartYear`);
-        callback({
-          success: false,
-          error: 'Invalid game configuration - missing asset selection or start year'
-        });
+        failStart('Invalid game configuration - missing asset selection or start year');
         return;
       }
 
+      countdownRoomId = null;
       callback({ success: true });
 
-      // Broadcast game started to all players
-      io.to(roomId).emit('gameStarted', {
+      // Broadcast game started to all players (spectators get it without private player state)
+      const spectatorChannel = roomManager.getSpectatorChannel(roomId);
+      io.to(roomId).except(spectatorChannel).emit('gameStarted', {
         gameState: room.gameState,
-        adminSettings: data.adminSettings,
+        adminSettings: room.adminSettings ?? data.adminSettings,
+      });
+      io.to(spectatorChannel).emit('gameStarted', {
+        gameState: roomManager.getSpectatorGameState(room.gameState),
+        adminSettings: room.adminSettings ?? data.adminSettings,
       });
 
       // Broadcast initial leaderboard so UI shows up immediately
       gameSyncManager.broadcastLeaderboard(roomId);
 
+      // Headlines dated to the opening month
+      gameSyncManager.broadcastNews(roomId);
+
       // Start server-side time progression - use admin setting or default 5000ms (5 seconds)
       const MONTH_DURATION_MS = data.adminSettings.monthDuration || 5000;
       const interval = gameSyncManager.startTimeProgression(roomId, MONTH_DURATION_MS);
@@ -342,9 +608,11 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
         room.timeProgressionInterval = interval;
       }
 
+      gameSyncManager.persistRoom(roomId);
+
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to start game';
-      callback({ success: false, error: errorMessage });
+      failStart(errorMessage);
     }
   });
 
@@ -357,6 +625,39 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
     if (!room || room.hostId !== socket.id) return;
 
     gameSyncManager.handleTogglePause(socket, roomId);
+    gameSyncManager.persistRoom(roomId);
+  });
+
+  // === Time controls (host only) ===
+
+  socket.on('setGameSpeed', (data, callback) => {
+    const room = socket.data.roomId ? roomManager.getRoom(socket.data.roomId) : undefined;
+    if (!room || room.hostId !== socket.id) {
+      callback({ success: false, error: 'Only the host can change the game speed' });
+      return;
+    }
+
+    callback(gameSyncManager.setMonthDuration(room.id, data.monthDuration));
+  });
+
+  socket.on('stepMonth', (callback) => {
+    const room = socket.data.roomId ? roomManager.getRoom(socket.data.roomId) : undefined;
+    if (!room || room.hostId !== socket.id) {
+      callback({ success: false, error: 'Only the host can step the game' });
+      return;
+    }
+
+    callback(gameSyncManager.stepMonth(room.id));
+  });
+
+  socket.on('jumpToMonth', async (data, callback) => {
+    const room = socket.data.roomId ? roomManager.getRoom(socket.data.roomId) : undefined;
+    if (!room || room.hostId !== socket.id) {
+      callback({ success: false, error: 'Only the host can jump ahead' });
+      return;
+    }
+
+    callback(await gameSyncManager.jumpToMonth(room.id, data.year, data.month));
   });
 
   // Player state update (networth, portfolio)
@@ -372,6 +673,148 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
     );
   });
 
+  // Language picked on the client (lobby or mid-game)
+  socket.on('setLanguage', (data) => {
+    const playerId = socket.data.playerId;
+    if (!playerId || !isLanguage(data?.language)) return;
+
+    roomManager.setPlayerLanguage(playerId, data.language);
+  });
+
+  // === Ledger commands (server executes, client only renders the result) ===
+
+  socket.on('placeTrade', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room, prices) => {
+      if (data.side !== 'buy' && data.side !== 'sell') {
+        return { success: false, error: 'Invalid trade side' };
+      }
+      if (!isLedgerAssetType(data.assetType) || typeof data.assetName !== 'string') {
+        return { success: false, error: 'Unknown asset' };
+      }
+      const { selectedAssets, assetUnlockSchedule, currentYear } = room.gameState;
+      const symbol = resolveTradeSymbol(data.assetType, data.assetName, selectedAssets, assetUnlockSchedule, currentYear);
+      if (!symbol) {
+        return { success: false, error: 'This asset is not available in your game yet' };
+      }
+      const taxSettings = getTaxSettings(room.adminSettings);
+      const tax = taxSettings
+        ? { settings: taxSettings, monthIndex: toMonthIndex(room.gameState.currentYear, room.gameState.currentMonth) }
+        : null;
+      return executeTrade(ledger, data.side, data.assetType, symbol, data.quantity, prices[symbol], tax);
+    });
+  });
+
+  socket.on('depositSavings', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => depositToSavings(ledger, data.amount));
+  });
+
+  socket.on('withdrawSavings', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => withdrawFromSavings(ledger, data.amount));
+  });
+
+  socket.on('openFD', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) => {
+      if (!isFDDuration(data.duration)) {
+        return { success: false, error: 'Invalid FD duration' };
+      }
+      const { currentYear, currentMonth } = room.gameState;
+      const calendarYear = (room.adminSettings?.gameStartYear || 2005) + currentYear - 1;
+      const rate = getFDRate(calendarYear, data.duration);
+      if (rate === null) {
+        return { success: false, error: `No FD rate is set for a ${data.duration}-month tenure in ${calendarYear}` };
+      }
+      return openFixedDeposit(ledger, data.amount, data.duration, rate, currentYear, currentMonth);
+    });
+  });
+
+  socket.on('collectFD', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) =>
+      collectFixedDeposit(ledger, data.fdId, getTaxSettings(room.adminSettings))
+    );
+  });
+
+  socket.on('breakFD', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => breakFixedDeposit(ledger, data.fdId));
+  });
+
+  socket.on('takeLoan', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room, prices) => {
+      if (!isLoanType(data.type) || !isLoanTenure(data.tenureMonths)) {
+        return { success: false, error: 'Invalid loan type or tenure' };
+      }
+      const { currentYear, currentMonth } = room.gameState;
+      return takeLoan(ledger, data.type, data.amount, data.tenureMonths, getLoanSettings(room.adminSettings), currentYear, currentMonth, {
+        fdId: data.fdId,
+        goldPrice: prices['Physical_Gold'],
+      });
+    });
+  });
+
+  socket.on('repayLoan', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => repayLoan(ledger, data.loanId));
+  });
+
+  socket.on('buyBond', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) => {
+      if (!isBondType(data.type)) {
+        return { success: false, error: 'Unknown bond type' };
+      }
+      const { currentYear, currentMonth } = room.gameState;
+      const calendarYear = (room.adminSettings?.gameStartYear || 2005) + currentYear - 1;
+      return buyBond(ledger, data.type, data.amount, calendarYear, currentYear, currentMonth);
+    });
+  });
+
+  socket.on('sellBond', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) => {
+      const { currentYear, currentMonth } = room.gameState;
+      return sellBond(ledger, data.bondId, currentYear, currentMonth, getTaxSettings(room.adminSettings));
+    });
+  });
+
+  socket.on('buyInsurance', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) => {
+      if (!isInsuranceType(data.type)) {
+        return { success: false, error: 'Unknown insurance type' };
+      }
+      const { currentYear, currentMonth } = room.gameState;
+      return buyInsurance(ledger, data.type, room.adminSettings?.recurringIncome || 0, currentYear, currentMonth);
+    });
+  });
+
+  socket.on('cancelInsurance', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => cancelInsurance(ledger, data.policyId));
+  });
+
+  socket.on('resolveLifeEvent', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (_ledger, room) =>
+      gameSyncManager.resolveLifeEventChoice(room, socket.data.playerId, data.eventId, data.choiceId)
+    );
+  });
+
+  // Standing orders live on the ledger and are filled by the server every month
+  socket.on('placeOrder', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger, room) => {
+      if (!isLedgerAssetType(data?.assetType) || typeof data.assetName !== 'string') {
+        return { success: false, error: 'Unknown asset' };
+      }
+      const { selectedAssets, assetUnlockSchedule, currentYear, currentMonth } = room.gameState;
+      if (!resolveTradeSymbol(data.assetType, data.assetName, selectedAssets, assetUnlockSchedule, currentYear)) {
+        return { success: false, error: 'This asset is not available in your game yet' };
+      }
+      return placeStandingOrder(ledger, data, currentYear, currentMonth);
+    });
+  });
+
+  socket.on('cancelOrder', (data, callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, (ledger) => cancelStandingOrder(ledger, data?.orderId));
+  });
+
+  // Fetch the current ledger without changing it (e.g. after rejoining a running game)
+  socket.on('requestLedger', (callback) => {
+    gameSyncManager.handleLedgerCommand(socket, callback, () => ({ success: true }));
+  });
+
   // Quiz started
   socket.on('quizStarted', (data) => {
     const playerId = socket.data.playerId;
@@ -388,6 +831,11 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
     gameSyncManager.handleQuizCompleted(socket, playerId, data.quizCategory);
   });
 
+  // Quiz answer - scored on the server, answers the callback with the result
+  socket.on('submitQuizAnswer', (data, callback) => {
+    gameSyncManager.handleQuizAnswer(socket, data?.answerIndex, callback);
+  });
+
   // Intro completed
   socket.on('introCompleted', () => {
     const playerId = socket.data.playerId;
@@ -417,58 +865,178 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents>)
       return;
     }
 
-    // Get server prices for validation
+    if (!data || typeof data.networth !== 'number' || !Number.isFinite(data.networth)) {
+      callback({ valid: false, error: 'Invalid networth' });
+      return;
+    }
+
+    // Only the server ledger valued at server prices counts - without both, the player keeps
+    // the last figure the server computed and the client's is never written
     const prices = gameSyncManager.getRoomPrices(roomId);
-    if (!prices) {
-      // If no server prices, accept client value (fallback for solo mode or early game)
-      roomManager.updatePlayerState(playerId, data.networth, data.portfolioBreakdown);
-      gameSyncManager.broadcastLeaderboard(roomId);
-      callback({ valid: true, serverNetworth: data.networth });
+    const room = roomManager.getRoom(roomId);
+    const ledger = room?.ledgers.get(playerId);
+    if (!prices || !room || !ledger) {
+      callback({ valid: false, serverNetworth: room?.players.get(playerId)?.networth, error: 'No server ledger to validate against' });
       return;
     }
 
-    // For now, accept client networth but log for monitoring
-    // Full server-side validation will be implemented in Phase 5
-    roomManager.updatePlayerState(playerId, data.networth, data.portfolioBreakdown);
-    gameSyncManager.broadcastLeaderboard(roomId);
-    callback({ valid: true, serverNetworth: data.networth });
+    const validation = fullValidation(
+      data.networth,
+      data.portfolioBreakdown,
+      ledger.pocketCash,
+      ledger.savingsBalance,
+      ledger.fixedDeposits,
+      ledger.holdings,
+      prices,
+      room.gameState.selectedAssets,
+      room.gameState.currentYear,
+      room.gameState.currentMonth,
+      ledger.loans,
+      ledger.bonds
+    );
+
+    // The leaderboard keeps the figure the server values from the ledger each month - a submission never replaces it
+    if (!validation.valid) {
+      const count = roomManager.recordSuspiciousSubmission(playerId);
+      console.warn(
+        `⚠️ Room ${roomId}: networth mismatch from ${playerId} ` +
+        `(client ${data.networth.toFixed(2)}, server ${validation.serverNetworth.toFixed(2)}, ` +
+        `${validation.deviation.toFixed(2)}% off) - ${count} suspicious submission(s)`
+      );
+
+      socket.emit('networthValidation', {
+        valid: false,
+        serverNetworth: validation.serverNetworth,
+        clientNetworth: validation.clientNetworth,
+        deviation: validation.deviation,
+      });
+    }
+
+    callback({ valid: validation.valid, serverNetworth: validation.serverNetworth });
   });
 
-  // Handle disconnect
+  // Handle disconnect - keep the seat for the reconnect grace period
   socket.on('disconnect', () => {
-    handlePlayerLeave(socket);
+    if (socket.data.isSpectator) {
+      handleSpectatorLeave(socket);
+      return;
+    }
+    handlePlayerDisconnect(socket);
   });
 });
 
+// Attach a socket to the seat it was just rebound to, then bring it and the rest of the room up to date
+function rejoinSeat(socket: Socket, room: Room, oldPlayerId: string, respond: (player: PlayerInfo) => void) {
+  const player = room.players.get(socket.id)!;
+
+  // Store socket data
+  socket.data.roomId = room.id;
+  socket.data.playerId = socket.id;
+  socket.data.playerName = player.name;
+
+  // Join socket room
+  socket.join(room.id);
+
+  respond(player);
+
+  // Let everyone else swap the old socket id for the new one
+  socket.to(room.id).emit('playerReconnected', {
+    oldPlayerId,
+    player,
+  });
+
+  // Waiting lists and life event keys were rebound, so refresh everyone's copy
+  gameSyncManager.broadcastGameState(room.id);
+  gameSyncManager.broadcastLeaderboard(room.id);
+
+  if (room.gameState.isStarted) {
+    gameSyncManager.resyncPlayer(socket, room.id, socket.id);
+  }
+
+  gameSyncManager.persistRoom(room.id);
+}
+
+// Helper function to handle a dropped connection
+function handlePlayerDisconnect(socket: Socket) {
+  const playerId = socket.data.playerId;
+  const roomId = socket.data.roomId;
+  if (!playerId || !roomId) return;
+
+  const held = roomManager.markPlayerDisconnected(playerId, () => {
+    removePlayer(playerId);
+  });
+
+  if (held) {
+    io.to(roomId).emit('playerDisconnected', { playerId });
+  }
+}
+
+// Spectators hold no seat, so leaving or dropping just removes them
+function handleSpectatorLeave(socket: Socket) {
+  const roomId = roomManager.leaveAsSpectator(socket.id);
+  socket.data.roomId = undefined;
+  socket.data.isSpectator = undefined;
+
+  if (roomId) {
+    socket.leave(roomId);
+    socket.leave(roomManager.getSpectatorChannel(roomId));
+    io.to(roomId).emit('spectatorsUpdate', { spectators: roomManager.getSpectators(roomId) });
+  }
+}
+
 // Helper function to handle player leaving
 function handlePlayerLeave(socket: Socket) {
   const playerId = socket.data.playerId;
   if (!playerId) return;
 
+  // Free the socket so it can join or spectate another room
+  if (socket.data.roomId) socket.leave(socket.data.roomId);
+  socket.data.roomId = undefined;
+  socket.data.playerId = undefined;
+
+  removePlayer(playerId);
+}
+
+// Remove a player from their room and notify whoever is left
+function removePlayer(playerId: string) {
   const result = roomManager.leaveRoom(playerId);
 
   if (result.roomId) {
     // Notify other players
-    socket.to(result.roomId).emit('playerLeft', {
+    io.to(result.roomId).emit('playerLeft', {
       playerId,
     });
 
     // Broadcast updated leaderboard
     gameSyncManager.broadcastLeaderboard(result.roomId);
 
-    // If host left, notify and close room
-    if (result.wasHost) {
-      io.to(result.roomId).emit('error', {
-        message: 'Host left the game. Room closed.',
+    // If host left, tell everyone who took over - the room and its timer keep running
+    if (result.wasHost && result.newHostId) {
+      const newHost = roomManager.getRoom(result.roomId)?.players.get(result.newHostId);
+      io.to(result.roomId).emit('hostChanged', {
+        previousHostId: playerId,
+        newHostId: result.newHostId,
+        newHostName: newHost?.name || 'Player',
       });
     }
 
+    // Leaving may have released an intro/quiz pause
+    if (result.resumed) {
+      io.to(result.roomId).emit('gameResumed');
+    }
+
+    if (result.newHostId || result.resumed) {
+      gameSyncManager.broadcastGameState(result.roomId);
+    }
+
+    gameSyncManager.persistRoom(result.roomId);
+
   }
 }
 
 // Cleanup old rooms every hour
 setInterval(() => {
-  roomManager.cleanupOldRooms();
+  roomManager.cleanupOldRooms().forEach(roomId => gameSyncManager.persistRoom(roomId));
 }, 60 * 60 * 1000);
 
 // Initialize database and start server
@@ -497,6 +1065,12 @@ async function startServer() {
       process.exit(1);
     }
 
+    // Bring back rooms that were live when the server last stopped
+    const restoredRooms = await gameSyncManager.restorePersistedRooms(playerId => removePlayer(playerId));
+    if (restoredRooms > 0) {
+      console.log(`✓ Restored ${restoredRooms} room(s) from snapshots`);
+    }
+
     const PORT = process.env.PORT || 3001;
     const localIP = getLocalNetworkIP();
 
@@ -514,7 +1088,9 @@ async function startServer() {
 
 // Handle graceful shutdown
 async function gracefulShutdown() {
-
+  // Snapshot every live room so the next boot can resume it
+  roomManager.getAllRooms().forEach(room => gameSyncManager.persistRoom(room.id));
+  gameSyncManager.flushRoomSnapshots();
 
   // Cleanup room encryption keys
   cleanupAllRoomKeys();
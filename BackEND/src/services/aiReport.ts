@@ -3,6 +3,9 @@ import { getTradesByLogId } from '../database/tradingTransactions';
 import { getBankingTransactionSummary } from '../database/bankingTransactions';
 import { getCashTransactionsByLogId, getCashSummaryByLogId } from '../database/cashTransactions';
 import { getHoldingsByLogId, getTotalUnrealizedPL, getHoldingsSummaryByCategory } from '../database/playerHoldings';
+import { BenchmarkResult } from './benchmarks';
+import { Language } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES } from '../game/languages';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -26,6 +29,15 @@ interface AIReportParams {
   finalNetworth: number;
   finalCAGR: number;
   profitLoss: number;
+  // Inflation-adjusted results, in game-start rupees
+  realNetworth?: number;
+  realCAGR?: number;
+  // Same cash flows replayed into passive strategies
+  benchmarks?: BenchmarkResult[];
+  // Historical scenario the game was played in, e.g. "2008 Global Financial Crisis"
+  scenarioName?: string;
+  // Language the player was playing in; the report is written in it
+  language?: Language;
   // Optional precomputed inputs to save tokens
   reportId?: string | null;
   precomputedSummary?: any | null;
@@ -129,6 +141,7 @@ export async function generateTradingReport(params: AIReportParams): Promise<{ s
         lines.push(`💸 **Money You Received**: ₹${(cashSummary.totalIncoming || 0).toLocaleString('en-IN')}`);
         lines.push(`- Regular income (salary/allowance): ₹${(cashSummary.recurringIncomeTotal || 0).toLocaleString('en-IN')}`);
         lines.push(`- Bonuses and happy surprises: ₹${(cashSummary.lifeEventGains || 0).toLocaleString('en-IN')}`);
+        lines.push(`- Dividends from your investments: ₹${(cashSummary.dividendsTotal || 0).toLocaleString('en-IN')}`);
         lines.push(``);
         lines.push(`💰 **Money You Spent**: ₹${(cashSummary.totalOutgoing || 0).toLocaleString('en-IN')}`);
         lines.push(`- Life expenses and challenges: ₹${(cashSummary.lifeEventLosses || 0).toLocaleString('en-IN')}`);
@@ -264,8 +277,12 @@ PARENT SAFETY ELEMENTS TO HIGHLIGHT:
     const prompt = `Generate a CHILD & PARENT FRIENDLY Learning Journey Report for:
   Player: ${params.playerName}, Age: ${params.playerAge}
   Report ID: ${params.reportId || params.uniqueId}
+  ${params.scenarioName ? `Historical Scenario Played: ${params.scenarioName}` : ''}
   Final Money Managed: ₹${params.finalNetworth.toLocaleString('en-IN')}
   Growth Rate: ${params.finalCAGR.toFixed(2)}%
+  ${params.realNetworth !== undefined ? `Final Money After Inflation (in starting-year rupees): ₹${Math.round(params.realNetworth).toLocaleString('en-IN')}` : ''}
+  ${params.realCAGR !== undefined ? `Growth Rate After Inflation: ${params.realCAGR.toFixed(2)}%` : ''}
+  ${params.benchmarks && params.benchmarks.length > 0 ? `Passive Benchmarks (same income and life events, no trading):\n${params.benchmarks.map(b => `  - ${b.label}: ₹${Math.round(b.finalValue).toLocaleString('en-IN')} (${b.cagr.toFixed(2)}% growth rate)`).join('\n')}` : ''}
   Money Change: ${params.profitLoss >= 0 ? '+' : ''}₹${params.profitLoss.toLocaleString('en-IN')}
   ${totalUnrealizedPL !== 0 ? `Money in Active Choices: ₹${totalUnrealizedPL.toLocaleString('en-IN')}` : ''}
   ${totalUnrealizedPL !== 0 ? `Money from Completed Choices: ₹${(params.profitLoss - totalUnrealizedPL).toLocaleString('en-IN')}` : ''}
@@ -286,6 +303,7 @@ PARENT SAFETY ELEMENTS TO HIGHLIGHT:
   - Call out mistakes clearly - use words like "worst", "poor", "risky", "impulsive"
   - Give REALITY CHECKS - don't sugarcoat losses or bad decisions
   - Be STRAIGHTFORWARD and ANALYTICAL
+  ${params.language && params.language !== DEFAULT_LANGUAGE ? `- Write the ENTIRE report, section headings included, in ${LANGUAGE_NAMES[params.language]}. Keep rupee amounts, percentages and asset names as given` : ''}
 
   REQUIRED REPORT STRUCTURE:
 
@@ -320,6 +338,9 @@ PARENT SAFETY ELEMENTS TO HIGHLIGHT:
   - Unrealized P&L from active positions (are they winning or losing?)
   - Overall performance (did they grow wealth or destroy it?)
   - Point out if they're underwater or crushing it
+  - If fees or capital gains tax were paid, compare pre-tax and after-tax returns and say whether frequent trading cost them
+  - If after-inflation figures are given, say whether their money actually beat inflation or just looked bigger
+  - Compare their result with the passive benchmarks - did all their activity beat simply buying the index, gold or FDs?
 
   ## 6. Your Best Trade
   Highlight their BEST decision with specific numbers. Explain why it worked and what they did right.
@@ -430,7 +451,16 @@ function formatTradesForAI(
 
   let text = `Total Trades: ${analysis.totalTrades || 0}\n`;
   text += `Win Rate: ${(Number(analysis.winRate) || 0).toFixed(1)}%\n`;
-  text += `Total P/L: ₹${fmtNum(analysis.totalProfitLoss)}\n\n`;
+  text += `Total P/L: ₹${fmtNum(analysis.totalProfitLoss)}\n`;
+
+  // Fees and taxes (only present when the host enabled the tax model)
+  const totalCharges = trades.reduce((sum, t) => sum + Number(t.charges || 0), 0);
+  const totalTaxPaid = trades.reduce((sum, t) => sum + Number(t.taxPaid || 0), 0);
+  if (totalCharges > 0 || totalTaxPaid > 0) {
+    text += `Brokerage/STT/Stamp Duty Paid: ₹${fmtNum(Math.round(totalCharges))}\n`;
+    text += `Capital Gains Tax Paid: ₹${fmtNum(Math.round(totalTaxPaid))}\n`;
+  }
+  text += `\n`;
 
   // BEHAVIORAL METRICS - Critical for trader classification
   const behavioralMetrics = calculateBehavioralMetrics(trades);
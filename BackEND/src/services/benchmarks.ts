@@ -0,0 +1,245 @@
+/**
+ * Benchmark Replay
+ * Replays a player's cash-flow schedule (initial pocket cash, recurring income every
+ * 6 months, life events) against passive strategies over the game's calendar window,
+ * so results can be compared with "what if I had just bought the index?"
+ */
+
+import { AdminSettings } from '../types';
+import { getMonthlyCloses } from './marketDataService';
+import { FDRateTable, getFDRates, getFDRatesForYear } from './fdRates';
+import { getGameDurationYears } from '../game/gameDuration';
+import { getGameStartMonth } from '../game/scenarios';
+
+export type BenchmarkId = 'nifty' | 'gold' | 'fdLadder' | 'balanced';
+
+type SleeveKey = 'nifty' | 'gold' | 'fd';
+
+export interface BenchmarkCashFlow {
+  gameYear: number;
+  gameMonth: number;
+  amount: number; // positive for gains, negative for losses
+}
+
+export interface BenchmarkParams {
+  gameStartYear: number;
+  gameStartMonth: number; // Scenarios can open mid-year
+  gameDurationYears: number;
+  initialPocketCash: number;
+  recurringIncome: number;
+  lifeEvents: BenchmarkCashFlow[];
+}
+
+// Monthly closes keyed by "YYYY-MM"
+export type BenchmarkCloses = Record<'nifty' | 'gold', Map<string, number>>;
+
+export interface BenchmarkResult {
+  id: BenchmarkId;
+  label: string;
+  finalValue: number;
+  cagr: number;
+  yearEndValues: number[]; // Value at the end of each game year
+}
+
+const BENCHMARKS: Array<{ id: BenchmarkId; label: string; weights: Partial<Record<SleeveKey, number>> }> = [
+  { id: 'nifty', label: '100% Nifty 50 (NIFTYBEES)', weights: { nifty: 1 } },
+  { id: 'gold', label: '100% Gold', weights: { gold: 1 } },
+  { id: 'fdLadder', label: '100% FD ladder (1-year, rolled over)', weights: { fd: 1 } },
+  { id: 'balanced', label: '60% Nifty / 40% FD', weights: { nifty: 0.6, fd: 0.4 } },
+];
+
+const MARKET_SYMBOLS: Record<'nifty' | 'gold', string> = {
+  nifty: 'NIFTYBEES',
+  gold: 'Physical_Gold',
+};
+
+const FD_TENURE_MONTHS = 12;
+
+interface FDDeposit {
+  principal: number;
+  rate: number; // annual %
+  startIndex: number; // month index the deposit was (re)opened
+}
+
+// Cash is money waiting to be invested (e.g. before the ETF listed) or, when negative,
+// a life-event loss the sleeve could not cover - repaid first out of the next inflow
+interface Sleeve {
+  units: number;
+  cash: number;
+  deposits: FDDeposit[];
+}
+
+const emptySleeve = (): Sleeve => ({ units: 0, cash: 0, deposits: [] });
+
+// FD interest is simple and accrues pro rata, like the in-game FD card
+const depositValue = (deposit: FDDeposit, monthIndex: number): number =>
+  deposit.principal * (1 + (deposit.rate / 100) * Math.min(monthIndex - deposit.startIndex, FD_TENURE_MONTHS) / 12);
+
+function sleeveValue(sleeve: Sleeve, price: number, monthIndex: number): number {
+  const depositsValue = sleeve.deposits.reduce((sum, deposit) => sum + depositValue(deposit, monthIndex), 0);
+  return sleeve.units * price + depositsValue + sleeve.cash;
+}
+
+function investCash(key: SleeveKey, sleeve: Sleeve, price: number, fdRate: number, monthIndex: number): void {
+  if (sleeve.cash <= 0) return;
+
+  if (key === 'fd') {
+    sleeve.deposits.push({ principal: sleeve.cash, rate: fdRate, startIndex: monthIndex });
+    sleeve.cash = 0;
+  } else if (price > 0) {
+    sleeve.units += sleeve.cash / price;
+    sleeve.cash = 0;
+  }
+}
+
+// Losses sell units, or break the newest FDs first; anything left over becomes negative cash
+function withdraw(key: SleeveKey, sleeve: Sleeve, amount: number, price: number, monthIndex: number): void {
+  let remaining = amount;
+
+  if (sleeve.cash > 0) {
+    const fromCash = Math.min(sleeve.cash, remaining);
+    sleeve.cash -= fromCash;
+    remaining -= fromCash;
+  }
+
+  if (key === 'fd') {
+    while (remaining > 0 && sleeve.deposits.length > 0) {
+      const deposit = sleeve.deposits[sleeve.deposits.length - 1];
+      const value = depositValue(deposit, monthIndex);
+      if (value <= remaining) {
+        sleeve.deposits.pop();
+        remaining -= value;
+      } else {
+        deposit.principal *= (value - remaining) / value;
+        remaining = 0;
+      }
+    }
+  } else if (price > 0 && sleeve.units > 0) {
+    const sold = Math.min(remaining, sleeve.units * price);
+    sleeve.units -= sold / price;
+    remaining -= sold;
+  }
+
+  sleeve.cash -= remaining;
+}
+
+// Month prices with the last known close carried forward (0 until the asset has any data)
+function toPriceSeries(closes: Map<string, number>, startYear: number, totalMonths: number): number[] {
+  const prices: number[] = [];
+  let lastPrice = 0;
+  for (let index = 0; index < totalMonths; index++) {
+    const year = startYear + Math.floor(index / 12);
+    const month = (index % 12) + 1;
+    lastPrice = closes.get(`${year}-${String(month).padStart(2, '0')}`) ?? lastPrice;
+    prices.push(lastPrice);
+  }
+  return prices;
+}
+
+/**
+ * Build the replay inputs from a game's admin settings and the player's life events
+ */
+export function getBenchmarkParams(settings: Partial<AdminSettings> | null | undefined, lifeEvents: BenchmarkCashFlow[]): BenchmarkParams {
+  return {
+    gameStartYear: settings?.gameStartYear || 2005,
+    gameStartMonth: getGameStartMonth(settings),
+    gameDurationYears: getGameDurationYears(settings),
+    initialPocketCash: settings?.initialPocketCash ?? 100000,
+    recurringIncome: settings?.recurringIncome ?? 0,
+    lifeEvents,
+  };
+}
+
+// The game runs gameDurationYears x 12 months from its opening month (month indexes count from January of gameStartYear)
+function getReplayWindow({ gameStartYear, gameStartMonth, gameDurationYears }: BenchmarkParams) {
+  const firstIndex = gameStartMonth - 1;
+  const endIndex = firstIndex + gameDurationYears * 12;
+  return { firstIndex, endIndex, endYear: gameStartYear + Math.floor((endIndex - 1) / 12) };
+}
+
+/**
+ * Replay the cash-flow schedule against every benchmark, with prices from PostgreSQL and the fd_rates table
+ */
+export async function calculateBenchmarks(params: BenchmarkParams): Promise<BenchmarkResult[]> {
+  const { endYear } = getReplayWindow(params);
+  const closes: BenchmarkCloses = {
+    nifty: await getMonthlyCloses(MARKET_SYMBOLS.nifty, params.gameStartYear, endYear),
+    gold: await getMonthlyCloses(MARKET_SYMBOLS.gold, params.gameStartYear, endYear),
+  };
+
+  return replayBenchmarks(params, closes, getFDRates());
+}
+
+/**
+ * Replay the cash-flow schedule against every benchmark at the given closes and FD rates
+ */
+export function replayBenchmarks(params: BenchmarkParams, closes: BenchmarkCloses, fdRates: FDRateTable): BenchmarkResult[] {
+  const { gameStartYear, gameDurationYears, initialPocketCash, recurringIncome, lifeEvents } = params;
+  const { firstIndex, endIndex } = getReplayWindow(params);
+
+  const prices: Record<'nifty' | 'gold', number[]> = {
+    nifty: toPriceSeries(closes.nifty, gameStartYear, endIndex),
+    gold: toPriceSeries(closes.gold, gameStartYear, endIndex),
+  };
+  const priceAt = (key: SleeveKey, index: number) => (key === 'fd' ? 0 : prices[key][index]);
+
+  const portfolios = BENCHMARKS.map(() => ({ nifty: emptySleeve(), gold: emptySleeve(), fd: emptySleeve() }));
+  const yearEndValues: number[][] = BENCHMARKS.map(() => []);
+
+  for (let index = firstIndex; index < endIndex; index++) {
+    const gameYear = Math.floor(index / 12) + 1;
+    const gameMonth = (index % 12) + 1;
+    const fdRate = getFDRatesForYear(gameStartYear + gameYear - 1, fdRates)[FD_TENURE_MONTHS] ?? 0;
+
+    // Same schedule the ledger follows: starting cash, then income in months 6 and 12
+    let flow = lifeEvents
+      .filter(event => event.gameYear === gameYear && event.gameMonth === gameMonth)
+      .reduce((sum, event) => sum + event.amount, 0);
+    if (index === firstIndex) flow += initialPocketCash;
+    if (gameMonth === 6 || gameMonth === 12) flow += recurringIncome;
+
+    BENCHMARKS.forEach((benchmark, b) => {
+      const portfolio = portfolios[b];
+
+      // Matured FDs roll into a fresh 1-year FD at this year's rate
+      for (const deposit of portfolio.fd.deposits) {
+        if (index - deposit.startIndex >= FD_TENURE_MONTHS) {
+          deposit.principal = depositValue(deposit, index);
+          deposit.rate = fdRate;
+          deposit.startIndex = index;
+        }
+      }
+
+      for (const [key, weight] of Object.entries(benchmark.weights) as Array<[SleeveKey, number]>) {
+        const sleeve = portfolio[key];
+        const share = flow * weight;
+        if (share >= 0) {
+          sleeve.cash += share;
+        } else {
+          withdraw(key, sleeve, -share, priceAt(key, index), index);
+        }
+        investCash(key, sleeve, priceAt(key, index), fdRate, index);
+      }
+
+      // Year-end values, plus the final month when the game closes mid-year
+      if (gameMonth === 12 || index === endIndex - 1) {
+        const value = (Object.keys(benchmark.weights) as SleeveKey[])
+          .reduce((sum, key) => sum + sleeveValue(portfolio[key], priceAt(key, index), index), 0);
+        yearEndValues[b].push(value);
+      }
+    });
+  }
+
+  // CAGR on total capital received, the same measure the end screen uses for the player
+  const recurringPayments = Math.floor(endIndex / 6) - Math.floor(firstIndex / 6);
+  const totalCapital = initialPocketCash + recurringIncome * recurringPayments;
+  const yearsPlayed = gameDurationYears;
+
+  return BENCHMARKS.map((benchmark, b) => {
+    const finalValue = yearEndValues[b][yearEndValues[b].length - 1] ?? 0;
+    const cagr = totalCapital > 0 && finalValue > 0
+      ? (Math.pow(finalValue / totalCapital, 1 / yearsPlayed) - 1) * 100
+      : 0;
+    return { id: benchmark.id, label: benchmark.label, finalValue, cagr, yearEndValues: yearEndValues[b] };
+  });
+}
@@ -0,0 +1,165 @@
+import { AssetEducationContent, LifeEventTemplate } from '../types';
+
+// JSON/CSV conversion for the admin-authored life event pool and quiz bank.
+// CSV rows come back as plain objects; the database modules validate them like any other admin input.
+
+export type TransferFormat = 'json' | 'csv';
+
+export function isTransferFormat(value: unknown): value is TransferFormat {
+  return value === 'json' || value === 'csv';
+}
+
+const LIFE_EVENT_COLUMNS = ['message', 'amount', 'weight', 'months', 'insuranceType', 'choices', 'enabled'];
+const QUIZ_OPTION_COLUMNS = ['option1', 'option2', 'option3', 'option4', 'option5', 'option6'];
+const QUIZ_COLUMNS = ['category', 'categoryTitle', 'categoryDescription', 'question', ...QUIZ_OPTION_COLUMNS, 'correctAnswer', 'hint', 'enabled'];
+
+function escapeCSVField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCSV(header: string[], rows: string[][]): string {
+  return [header, ...rows].map(row => row.map(escapeCSVField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Parse RFC 4180 style CSV (quoted fields, doubled quotes, CRLF or LF line endings)
+ * Returns one object per data row keyed by the header row; blank lines are skipped
+ */
+export function parseCSV(text: string): { [column: string]: string }[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(value => value.trim() !== ''));
+  if (nonEmpty.length === 0) return [];
+
+  const header = nonEmpty[0].map(column => column.trim());
+  return nonEmpty.slice(1).map(values => {
+    const record: { [column: string]: string } = {};
+    header.forEach((column, index) => {
+      record[column] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+function parseCSVBoolean(value: string): boolean {
+  return !['false', '0', 'no'].includes(value.toLowerCase());
+}
+
+function parseCSVNumber(value: string): number {
+  return value === '' ? NaN : Number(value);
+}
+
+export function lifeEventsToCSV(templates: LifeEventTemplate[]): string {
+  return toCSV(LIFE_EVENT_COLUMNS, templates.map(template => [
+    template.message,
+    String(template.amount),
+    String(template.weight),
+    (template.months || []).join(';'),
+    template.insuranceType || '',
+    template.choices && template.choices.length > 0 ? JSON.stringify(template.choices) : '',
+    template.enabled === false ? 'false' : 'true',
+  ]));
+}
+
+// Choices are a JSON array in their own column; an unreadable cell is passed through so validation rejects the row
+export function lifeEventsFromCSV(text: string): any[] {
+  return parseCSV(text).map(record => {
+    let choices: unknown;
+    try {
+      choices = record.choices ? JSON.parse(record.choices) : undefined;
+    } catch {
+      choices = record.choices;
+    }
+
+    return {
+      message: record.message,
+      amount: parseCSVNumber(record.amount),
+      weight: parseCSVNumber(record.weight),
+      months: record.months ? record.months.split(';').map(month => parseCSVNumber(month.trim())) : undefined,
+      insuranceType: record.insuranceType || undefined,
+      choices,
+      enabled: record.enabled ? parseCSVBoolean(record.enabled) : true,
+    };
+  });
+}
+
+export function quizBankToCSV(contents: AssetEducationContent[]): string {
+  const rows: string[][] = [];
+
+  contents.forEach(content => {
+    content.questions.forEach(question => {
+      rows.push([
+        content.category,
+        content.title,
+        content.description,
+        question.question,
+        ...QUIZ_OPTION_COLUMNS.map((_, index) => question.options[index] ?? ''),
+        String(question.correctAnswer),
+        question.hint,
+        question.enabled === false ? 'false' : 'true',
+      ]);
+    });
+  });
+
+  return toCSV(QUIZ_COLUMNS, rows);
+}
+
+// One question per row; rows are grouped back into categories, taking the first non-empty title/description seen
+export function quizBankFromCSV(text: string): any[] {
+  const byCategory = new Map<string, { category: string; title: string; description: string; questions: any[] }>();
+
+  parseCSV(text).forEach(record => {
+    const category = record.category;
+    let content = byCategory.get(category);
+    if (!content) {
+      content = { category, title: '', description: '', questions: [] };
+      byCategory.set(category, content);
+    }
+    content.title = content.title || record.categoryTitle || '';
+    content.description = content.description || record.categoryDescription || '';
+
+    content.questions.push({
+      question: record.question,
+      options: QUIZ_OPTION_COLUMNS.map(column => record[column] || '').filter(option => option !== ''),
+      correctAnswer: parseCSVNumber(record.correctAnswer),
+      hint: record.hint || '',
+      enabled: record.enabled ? parseCSVBoolean(record.enabled) : true,
+    });
+  });
+
+  return Array.from(byCategory.values());
+}
@@ -0,0 +1,56 @@
+/**
+ * Fixed Deposit Rates
+ * Reads the fd_rates table (seeded from the National Savings Time Deposit Account Scheme)
+ * Shared by the /api/prices/fd-rates route and the server-side ledger
+ */
+
+import { getFDRateRows } from '../database/fdRates';
+
+// Tenure in months - 12/24/36 are always offered, admins can add custom tenures per year
+export type FDDuration = number;
+
+export const MIN_FD_TENURE_MONTHS = 1;
+export const MAX_FD_TENURE_MONTHS = 120;
+
+// Rates are annual percentages keyed by tenure in months
+export type FDRateTable = { [year: number]: { [tenureMonths: number]: number } };
+
+// Same fallbacks the client uses when no year up to the current one has a rate for a standard tenure
+const DEFAULT_FD_RATES: { [tenureMonths: number]: number } = { 12: 5.0, 24: 6.0, 36: 7.0 };
+
+/**
+ * Get every configured rate grouped by calendar year
+ */
+export function getFDRates(): FDRateTable {
+  const table: FDRateTable = {};
+  for (const row of getFDRateRows()) {
+    if (!table[row.year]) {
+      table[row.year] = {};
+    }
+    table[row.year][row.tenureMonths] = row.rate;
+  }
+  return table;
+}
+
+/**
+ * Get the rates (tenure -> annual %) on offer in a calendar year.
+ * A tenure keeps the rate of the latest year at or before calendarYear that set it,
+ * so a custom tenure added for one year stays available in later years.
+ */
+export function getFDRatesForYear(calendarYear: number, table: FDRateTable = getFDRates()): { [tenureMonths: number]: number } {
+  const rates: { [tenureMonths: number]: number } = { ...DEFAULT_FD_RATES };
+  const years = Object.keys(table).map(Number).filter(year => year <= calendarYear).sort((a, b) => a - b);
+
+  for (const year of years) {
+    Object.assign(rates, table[year]);
+  }
+  return rates;
+}
+
+/**
+ * Get the FD interest rate (annual %) for a calendar year and tenure,
+ * or null when that tenure is not offered
+ */
+export function getFDRate(calendarYear: number, duration: FDDuration): number | null {
+  return getFDRatesForYear(calendarYear)[duration] ?? null;
+}
@@ -19,10 +19,31 @@ export interface AssetMetadata {
   totalRecords: number;
 }
 
+export type CorporateActionType = 'dividend' | 'split' | 'bonus';
+
+export interface CorporateAction {
+  assetName: string;
+  actionType: CorporateActionType;
+  exDate: string; // YYYY-MM-DD
+  amount: number; // Dividend per unit held (dividends only)
+  factor: number; // Quantity multiplier for splits/bonuses: a 1:5 split is 5, a 1:1 bonus is 2
+}
+
+export interface CPIPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
 // In-memory price cache for performance (keyed by "YYYY-MM")
 const priceCache: Map<string, PriceSnapshot> = new Map();
 const CACHE_MAX_SIZE = 300; // ~25 years * 12 months
 
+// Corporate actions for every asset, keyed by "YYYY-MM" (an empty list means none that month)
+const corporateActionCache: Map<string, CorporateAction[]> = new Map();
+
+// The whole CPI series is small, so it is loaded once
+let cpiSeriesCache: CPIPoint[] | null = null;
+
 /**
  * Get prices for a list of symbols at a specific year/month
  * Uses caching to avoid repeated database queries
@@ -185,6 +206,172 @@ export async function preloadPricesForGame(
 
 }
 
+/**
+ * Get dividends, splits and bonus issues with an ex-date in the given calendar month
+ */
+export async function getCorporateActionsForMonth(
+  symbols: string[],
+  year: number,
+  month: number
+): Promise<CorporateAction[]> {
+  const cacheKey = `${year}-${String(month).padStart(2, '0')}`;
+
+  if (!corporateActionCache.has(cacheKey)) {
+    const pool = getPostgresPool();
+    const startDate = `${cacheKey}-01`;
+
+    const query = `
+      SELECT asset_name, action_type, ex_date, amount, factor
+      FROM corporate_actions
+      WHERE ex_date >= $1::date
+        AND ex_date < ($1::date + INTERVAL '1 month')
+      ORDER BY ex_date, id
+    `;
+
+    const result = await pool.query(query, [startDate]);
+    corporateActionCache.set(cacheKey, result.rows.map(toCorporateAction));
+  }
+
+  return getCachedCorporateActions(symbols, year, month);
+}
+
+/**
+ * Corporate actions for a month from the cache only
+ * Used on the game clock, which can't wait on the database; fill the cache with preloadCorporateActions
+ */
+export function getCachedCorporateActions(
+  symbols: string[],
+  year: number,
+  month: number
+): CorporateAction[] {
+  const cacheKey = `${year}-${String(month).padStart(2, '0')}`;
+  const actions = corporateActionCache.get(cacheKey) || [];
+  return actions.filter((action) => symbols.includes(action.assetName));
+}
+
+/**
+ * Preload corporate actions for an entire game session
+ * Every month in range gets a cache entry, even when nothing happened in it
+ */
+export async function preloadCorporateActions(
+  startYear: number,
+  totalYears: number = 20
+): Promise<void> {
+  const pool = getPostgresPool();
+
+  const query = `
+    SELECT asset_name, action_type, ex_date, amount, factor
+    FROM corporate_actions
+    WHERE ex_date >= $1::date
+      AND ex_date <= $2::date
+    ORDER BY ex_date, id
+  `;
+
+  const result = await pool.query(query, [`${startYear}-01-01`, `${startYear + totalYears}-12-31`]);
+
+  for (let year = startYear; year <= startYear + totalYears; year++) {
+    for (let month = 1; month <= 12; month++) {
+      corporateActionCache.set(`${year}-${String(month).padStart(2, '0')}`, []);
+    }
+  }
+
+  for (const row of result.rows) {
+    const action = toCorporateAction(row);
+    const cacheKey = action.exDate.slice(0, 7);
+    corporateActionCache.get(cacheKey)?.push(action);
+  }
+}
+
+/**
+ * Last close of each calendar month for one symbol, keyed by "YYYY-MM"
+ * Reads straight from the database so a one-off replay does not disturb the game price cache
+ */
+export async function getMonthlyCloses(
+  symbol: string,
+  startYear: number,
+  endYear: number
+): Promise<Map<string, number>> {
+  const pool = getPostgresPool();
+
+  // Physical gold is priced in INR per 10g from its own table
+  const query = symbol === 'Physical_Gold'
+    ? `
+      SELECT DISTINCT ON (DATE_TRUNC('month', date)) TO_CHAR(date, 'YYYY-MM') AS month, close_inr_per_10g AS price
+      FROM physical_gold_inr
+      WHERE date >= $1::date AND date <= $2::date AND close_inr_per_10g IS NOT NULL
+      ORDER BY DATE_TRUNC('month', date), date DESC
+    `
+    : `
+      SELECT DISTINCT ON (DATE_TRUNC('month', date)) TO_CHAR(date, 'YYYY-MM') AS month, close_price AS price
+      FROM asset_prices
+      WHERE asset_name = $3 AND date >= $1::date AND date <= $2::date AND close_price IS NOT NULL
+      ORDER BY DATE_TRUNC('month', date), date DESC
+    `;
+  const values = symbol === 'Physical_Gold'
+    ? [`${startYear}-01-01`, `${endYear}-12-31`]
+    : [`${startYear}-01-01`, `${endYear}-12-31`, symbol];
+
+  const result = await pool.query(query, values);
+
+  const closes = new Map<string, number>();
+  for (const row of result.rows) {
+    closes.set(row.month, parseFloat(row.price));
+  }
+  return closes;
+}
+
+/**
+ * Get the consumer price index series, oldest first
+ */
+export async function getCPISeries(): Promise<CPIPoint[]> {
+  if (!cpiSeriesCache) {
+    const pool = getPostgresPool();
+    const result = await pool.query(`SELECT TO_CHAR(period, 'YYYY-MM-DD') AS period, value FROM cpi_index ORDER BY period`);
+    cpiSeriesCache = result.rows.map((row) => ({ date: row.period, value: parseFloat(row.value) }));
+  }
+  return cpiSeriesCache;
+}
+
+/**
+ * CPI for a calendar month, interpolated linearly between the surrounding points
+ * and held flat before the first / after the last one. Null when the series is empty.
+ */
+export function getCPIForMonth(series: CPIPoint[], year: number, month: number): number | null {
+  if (series.length === 0) return null;
+
+  const toMonthIndex = (date: string) => parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1;
+  const target = year * 12 + month - 1;
+
+  if (target <= toMonthIndex(series[0].date)) return series[0].value;
+
+  for (let i = 1; i < series.length; i++) {
+    const end = toMonthIndex(series[i].date);
+    if (target <= end) {
+      const start = toMonthIndex(series[i - 1].date);
+      const progress = (target - start) / (end - start);
+      return series[i - 1].value + (series[i].value - series[i - 1].value) * progress;
+    }
+  }
+
+  return series[series.length - 1].value;
+}
+
+/**
+ * How much prices rose between two calendar months (1.5 means ₹1.50 buys what ₹1 did)
+ * Falls back to 1 (no adjustment) when there is no CPI data
+ */
+export async function getInflationFactor(
+  fromYear: number,
+  fromMonth: number,
+  toYear: number,
+  toMonth: number
+): Promise<number> {
+  const series = await getCPISeries();
+  const from = getCPIForMonth(series, fromYear, fromMonth);
+  const to = getCPIForMonth(series, toYear, toMonth);
+  return from && to ? to / from : 1;
+}
+
 /**
  * Get all symbols that will be used in a game session
  * Based on the selectedAssets from game initialization
@@ -226,8 +413,15 @@ export function getGameSymbols(selectedAssets: any): string[] {
     symbols.push(selectedAssets.reit);
   }
 
-  // REMOVED: Crypto (BTC, ETH) - disabled in current game version
-  // REMOVED: Forex (USDINR, EURINR, GBPINR) - disabled in current game version
+  // Crypto (BTC from Calendar 2014, ETH from 2017 - only when the host enabled CRYPTO)
+  if (selectedAssets?.crypto && Array.isArray(selectedAssets.crypto)) {
+    symbols.push(...selectedAssets.crypto);
+  }
+
+  // Forex pairs (unlock at Calendar 2008 - only when the host enabled FOREX)
+  if (selectedAssets?.forex && Array.isArray(selectedAssets.forex)) {
+    symbols.push(...selectedAssets.forex);
+  }
 
   return [...new Set(symbols)]; // Remove duplicates
 }
@@ -238,6 +432,8 @@ export function getGameSymbols(selectedAssets: any): string[] {
  */
 export function clearPriceCache(): void {
   priceCache.clear();
+  corporateActionCache.clear();
+  cpiSeriesCache = null;
 }
 
 /**
@@ -264,6 +460,20 @@ function filterSnapshot(
   return filtered;
 }
 
+// Helper: Map a corporate_actions row (ex_date comes back as a local-midnight Date)
+function toCorporateAction(row: any): CorporateAction {
+  const date = new Date(row.ex_date);
+  const exDate = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+  return {
+    assetName: row.asset_name,
+    actionType: row.action_type,
+    exDate,
+    amount: parseFloat(row.amount) || 0,
+    factor: parseFloat(row.factor) || 1,
+  };
+}
+
 // Helper: Update cache with LRU eviction
 function updateCache(key: string, snapshot: PriceSnapshot): void {
   if (priceCache.size >= CACHE_MAX_SIZE) {
@@ -5,6 +5,8 @@
  */
 
 import { PriceSnapshot } from './marketDataService';
+import { LedgerBond } from '../types';
+import { getBondsValue } from '../game/bonds';
 
 // Tolerance for floating-point differences (0.5%)
 const TOLERANCE_PERCENT = 0.5;
@@ -18,12 +20,13 @@ interface AssetHolding {
 interface Holdings {
   physicalGold: AssetHolding;
   digitalGold: AssetHolding;
-  indexFund: AssetHolding;
-  mutualFund: AssetHolding;
+  indexFund: { [key: string]: AssetHolding };
+  mutualFund: { [key: string]: AssetHolding };
   stocks: { [key: string]: AssetHolding };
   crypto: { [key: string]: AssetHolding };
   commodity: AssetHolding;
   reits: { [key: string]: AssetHolding };
+  forex?: { [key: string]: AssetHolding };
 }
 
 interface FixedDeposit {
@@ -36,6 +39,10 @@ interface FixedDeposit {
   isMatured: boolean;
 }
 
+interface Loan {
+  outstanding: number;
+}
+
 interface PortfolioBreakdown {
   cash: number;
   savings: number;
@@ -66,7 +73,9 @@ export function calculateServerNetworth(
   prices: PriceSnapshot,
   selectedAssets: any,
   currentYear: number,
-  currentMonth: number
+  currentMonth: number,
+  loans: Loan[] = [],
+  bonds: LedgerBond[] = []
 ): { networth: number; breakdown: { [category: string]: number } } {
   let total = 0;
   const breakdown: { [category: string]: number } = {};
@@ -108,13 +117,22 @@ export function calculateServerNetworth(
   breakdown.gold = goldValue;
   total += goldValue;
 
-  // Funds
-  const fundPrice = selectedAssets?.fundName ? prices[selectedAssets.fundName] || 0 : 0;
-  const fundsValue =
-    (holdings?.indexFund?.quantity || 0) * fundPrice +
-    (holdings?.mutualFund?.quantity || 0) * fundPrice;
-  breakdown.funds = fundsValue;
-  total += fundsValue;
+  // Funds (index and mutual funds are keyed by fund name, like stocks; forex pairs reuse this)
+  const valueFundGroup = (group?: { [key: string]: AssetHolding }): number => {
+    let value = 0;
+    if (group) {
+      for (const [fundName, holding] of Object.entries(group)) {
+        if (holding && holding.quantity > 0) {
+          value += holding.quantity * (prices[fundName] || 0);
+        }
+      }
+    }
+    return value;
+  };
+  breakdown.indexFunds = valueFundGroup(holdings?.indexFund);
+  breakdown.mutualFunds = valueFundGroup(holdings?.mutualFund);
+  breakdown.funds = breakdown.indexFunds + breakdown.mutualFunds;
+  total += breakdown.funds;
 
   // Stocks
   let stocksValue = 0;
@@ -135,6 +153,10 @@ export function calculateServerNetworth(
   breakdown.crypto = cryptoValue;
   total += cryptoValue;
 
+  // Forex (keyed by currency pair, priced in rupees)
+  breakdown.forex = valueFundGroup(holdings?.forex);
+  total += breakdown.forex;
+
   // Commodities
   const commodityPrice = selectedAssets?.commodity
     ? prices[selectedAssets.commodity] || 0
@@ -150,6 +172,15 @@ export function calculateServerNetworth(
   breakdown.reits = reitsValue;
   total += reitsValue;
 
+  // Bonds at their yield-based market value
+  breakdown.bonds = getBondsValue(bonds, currentYear, currentMonth);
+  total += breakdown.bonds;
+
+  // Outstanding loans are a liability
+  const loansOutstanding = loans.reduce((sum, loan) => sum + (loan.outstanding || 0), 0);
+  breakdown.loans = loansOutstanding > 0 ? -loansOutstanding : 0;
+  total += breakdown.loans;
+
   return { networth: total, breakdown };
 }
 
@@ -201,7 +232,9 @@ export function fullValidation(
   prices: PriceSnapshot,
   selectedAssets: any,
   currentYear: number,
-  currentMonth: number
+  currentMonth: number,
+  loans: Loan[] = [],
+  bonds: LedgerBond[] = []
 ): ValidationResult {
   const { networth: serverNetworth, breakdown } = calculateServerNetworth(
     pocketCash,
@@ -211,7 +244,9 @@ export function fullValidation(
     prices,
     selectedAssets,
     currentYear,
-    currentMonth
+    currentMonth,
+    loans,
+    bonds
   );
 
   const result = validateNetworth(clientNetworth, serverNetworth);
@@ -1,9 +1,11 @@
 /**
  * Room Key Manager
  * Manages per-room encryption keys and asset index mappings
- * Keys are stored in memory only and destroyed when room closes
+ * Keys live in memory and are destroyed when room closes; they are only
+ * written out as part of a room snapshot so a restarted server can resume the game
  */
 
+import { RoomKeysSnapshot } from '../types';
 import {
   SessionKey,
   EncryptedPayload,
@@ -29,6 +31,13 @@ export function initializeRoomKeys(roomId: string, symbols: string[]): RoomKeys
   // Generate session key
   const sessionKey = generateSessionKey(roomId);
 
+  const keys = buildRoomKeys(sessionKey, symbols);
+  roomKeys.set(roomId, keys);
+
+  return keys;
+}
+
+function buildRoomKeys(sessionKey: SessionKey, symbols: string[]): RoomKeys {
   // Create bidirectional index mapping
   // This allows us to send price arrays without symbol names
   const assetIndexMap = new Map<string, number>();
@@ -42,13 +51,40 @@ export function initializeRoomKeys(roomId: string, symbols: string[]): RoomKeys
     indexAssetMap.set(index, symbol);
   });
 
-  const keys: RoomKeys = {
+  return {
     sessionKey,
     assetIndexMap,
     indexAssetMap,
     symbols: sortedSymbols,
   };
+}
+
+/**
+ * Export a room's key material for its persisted snapshot
+ */
+export function exportRoomKeys(roomId: string): RoomKeysSnapshot | null {
+  const keys = roomKeys.get(roomId);
+  if (!keys) return null;
+
+  return {
+    sessionKey: keys.sessionKey.key.toString('base64'),
+    createdAt: keys.sessionKey.createdAt,
+    symbols: [...keys.symbols],
+  };
+}
+
+/**
+ * Restore a room's keys from a snapshot after a server restart
+ * Clients that already hold the session key keep decrypting without a new exchange
+ */
+export function restoreRoomKeys(roomId: string, snapshot: RoomKeysSnapshot): RoomKeys {
+  const sessionKey: SessionKey = {
+    key: Buffer.from(snapshot.sessionKey, 'base64'),
+    createdAt: snapshot.createdAt,
+    roomId,
+  };
 
+  const keys = buildRoomKeys(sessionKey, snapshot.symbols);
   roomKeys.set(roomId, keys);
 
   return keys;
@@ -22,6 +22,42 @@ export interface NetworthValidationResult {
   deviation: number; // percentage difference
 }
 
+// Host-chosen limits when creating a room
+export interface RoomOptions {
+  maxPlayers?: number; // Cap on non-host players (unlimited when omitted)
+  passcode?: string; // Required to join when set
+}
+
+// Someone watching a room without playing (never on the leaderboard)
+export interface SpectatorInfo {
+  id: string; // socket.id
+  name: string;
+}
+
+// Sent back when a spectator joins, so they can render the room straight away
+export interface SpectatorJoinResponse {
+  success: boolean;
+  roomId?: string;
+  players?: PlayerInfo[];
+  spectators?: SpectatorInfo[];
+  adminSettings?: AdminSettings | null;
+  gameState?: GameState;
+  leaderboard?: PlayerInfo[];
+  error?: string;
+}
+
+// Session resume response (sent back when a dropped player reconnects)
+export interface ResumeSessionResponse {
+  success: boolean;
+  roomId?: string;
+  playerId?: string;
+  isHost?: boolean;
+  players?: PlayerInfo[];
+  adminSettings?: AdminSettings | null;
+  gameState?: GameState;
+  error?: string;
+}
+
 export interface AdminSettings {
   selectedCategories: string[];
   gameStartYear: number;
@@ -31,6 +67,38 @@ export interface AdminSettings {
   enableQuiz: boolean; // Enable/disable quiz on asset unlock
   eventsCount?: number; // Number of random life events per player (min 1, max 20). Default: 3
   monthDuration?: number; // Duration of each game month in milliseconds. Default: 5000 (5 seconds)
+  gameDurationYears?: number; // Length of the game in years (min 5, max 20). Default: 20
+  taxSettings?: TaxSettings; // Trading fees and taxes. Off unless taxSettings.enabled
+  loanSettings?: LoanSettings; // Personal/secured loans and overdraft interest. Defaults apply when missing
+  scenarioId?: string; // Historical scenario (see game/scenarios.ts). Fixes the start date and length when set
+  defaultLanguage?: Language; // Language for players who haven't picked one. Default: 'en'
+  quizBonusCash?: number; // Pocket cash for a first-try quiz answer, scaled down by the score on retries. 0/missing = no bonus
+}
+
+// UI, quiz and life event language (see game/languages.ts)
+export type Language = 'en' | 'hi' | 'mr' | 'ta';
+
+// Rates are fractions (0.001 = 0.1%)
+export interface TaxSettings {
+  enabled: boolean;
+  brokerageRate: number; // Per trade, on trade value
+  maxBrokeragePerTrade: number; // Flat cap in rupees (discount-broker style)
+  sttRate: number; // Securities transaction tax, on equity sells
+  stampDutyRate: number; // On buys
+  shortTermGainsRate: number; // Capital gains held less than longTermHoldingMonths
+  longTermGainsRate: number;
+  longTermHoldingMonths: number;
+  fdInterestTaxRate: number; // Deducted from FD interest at maturity
+}
+
+// Annual rates are fractions (0.14 = 14% PA)
+export interface LoanSettings {
+  enabled: boolean;
+  personalLoanRate: number;
+  securedLoanRate: number; // Loans against an FD or physical gold
+  overdraftRate: number; // Charged monthly on negative pocket cash
+  maxPersonalLoan: number; // Total personal borrowing cap in rupees
+  loanToValue: number; // Share of the collateral's value that can be borrowed
 }
 
 export interface PlayerInfo {
@@ -41,6 +109,9 @@ export interface PlayerInfo {
   networth: number;
   portfolioBreakdown: PortfolioBreakdown;
   quizStatus: QuizStatus;
+  isConnected?: boolean; // false while the player is inside the reconnect grace period
+  suspiciousSubmissions?: number; // networth submissions the server rejected as out of tolerance
+  language?: Language; // Picked on the client; life events are generated in it
 }
 
 export interface PortfolioBreakdown {
@@ -52,11 +123,48 @@ export interface PortfolioBreakdown {
   crypto: number;
   commodities: number;
   reits: number;
+  forex?: number;
+  fixedDeposits?: number;
+  indexFunds?: number;
+  mutualFunds?: number;
+  loans?: number; // Outstanding loans, as a negative amount
+  bonds?: number;
 }
 
 export interface QuizStatus {
   currentQuiz: string | null; // Quiz category name
   isCompleted: boolean;
+  openedQuizzes?: { [category: string]: QuizProgress }; // Kept after the quiz closes so a restart can't reset the answers
+  completedQuizzes?: string[]; // Categories the player has closed
+  results?: QuizResult[]; // Scored quizzes, one per category
+}
+
+export interface QuizProgress {
+  startedAt: number; // Server time the quiz first opened (for time taken)
+  answers: number[]; // Options submitted so far
+}
+
+// A quiz answered correctly, scored by game/quizScoring.ts
+export interface QuizResult {
+  category: string;
+  questionId: number | null;
+  answers: number[]; // Every option submitted, the correct one last
+  attempts: number;
+  points: number;
+  bonusCash: number;
+  timeTakenMs: number | null;
+  gameYear: number;
+  gameMonth: number;
+}
+
+// Reply to submitQuizAnswer; a correct answer carries the scored result (and the ledger when bonus cash was paid)
+export interface QuizAnswerResponse {
+  success: boolean;
+  correct?: boolean;
+  attempts?: number;
+  result?: QuizResult;
+  ledger?: PlayerLedger;
+  error?: string;
 }
 
 export interface Room {
@@ -67,16 +175,297 @@ export interface Room {
   gameState: GameState;
   createdAt: number;
   timeProgressionInterval?: NodeJS.Timeout; // Server-side timer
+  successorId?: string; // Player the host picked to take over if they leave
+  ledgers: Map<string, PlayerLedger>; // Server-authoritative balances per player (created on game start)
+  spectators: Map<string, SpectatorInfo>; // Watchers - receive room broadcasts but hold no seat
+  maxPlayers: number | null; // Cap on non-host players (null = unlimited)
+  passcode: string | null; // Required to join when set
+  bannedNames: Set<string>; // Normalized names the host kicked
+  bannedIds: Set<string>; // Socket ids the host kicked
+  requireAllReady: boolean; // Host rule: every player must be ready before the game can start
+}
+
+export type InsuranceType = 'HEALTH' | 'VEHICLE';
+
+// A way of dealing with a loss event - scales the cost, and may break FDs to pay it
+export interface LifeEventChoice {
+  id: string;
+  label: string;
+  amountFactor: number; // 1 = the full amount, 0.5 = half
+  breakFD?: boolean; // Break fixed deposits (oldest first) to cover the cost instead of using pocket cash
+}
+
+// An entry in the life event pool (life_event_pool table)
+export interface LifeEventTemplate {
+  id?: number;
+  message: string;
+  amount: number; // Rupees at the default income in the game's first month; negative for losses
+  weight: number; // Relative likelihood of being picked
+  months?: number[]; // Calendar months the event can happen in (all when missing)
+  insuranceType?: InsuranceType; // Losses a policy of this type partly covers
+  choices?: LifeEventChoice[];
+  enabled?: boolean;
+}
+
+// A life event reworded in another language (life_event_translations table)
+export interface LifeEventTranslation {
+  message: string;
+  choiceLabels?: { [choiceId: string]: string };
+}
+
+// Quiz question shown when an asset category unlocks (quiz_questions table)
+export interface QuizQuestion {
+  id?: number;
+  question: string;
+  options: string[];
+  correctAnswer: number; // index into options
+  hint: string;
+  enabled?: boolean;
+}
+
+// A quiz category with its intro text and questions (quiz_categories + quiz_questions)
+export interface AssetEducationContent {
+  category: string;
+  title: string;
+  description: string;
+  questions: QuizQuestion[];
+}
+
+// Quiz text in another language, laid over the English rows so question order stays the same
+export interface QuizCategoryTranslation {
+  title: string;
+  description: string;
+}
+
+export interface QuizQuestionTranslation {
+  question: string;
+  options: string[]; // same count and order as the English options
+  hint: string;
+}
+
+export interface QuizBankTranslations {
+  categories: { [category: string]: QuizCategoryTranslation };
+  questions: { [questionId: number]: QuizQuestionTranslation };
 }
 
 export interface LifeEvent {
   id: string;
   type: 'gain' | 'loss';
   message: string;
-  amount: number; // positive for gain, negative for loss
-  gameYear: number; // 1..20
+  amount: number; // positive for gain, negative for loss - the net cash effect once resolved
+  gameYear: number; // 1..gameDurationYears
   gameMonth: number; // 1..12
   triggered?: boolean; // whether this event has been triggered
+  delivered?: boolean; // whether the triggered event reached a connected socket (replayed on resume otherwise)
+  insuranceType?: InsuranceType;
+  choices?: LifeEventChoice[];
+  awaitingChoice?: boolean; // Triggered, waiting for the player to pick a choice
+  choiceId?: string; // Choice applied
+  grossAmount?: number; // Cost after the choice, before insurance
+  insuranceCover?: number; // Paid by the player's policy
+  fdBroken?: number; // Principal of fixed deposits broken to pay
+}
+
+export interface InsurancePolicy {
+  id: string;
+  type: InsuranceType;
+  premium: number; // Current annual premium, charged at purchase and on each anniversary
+  coverRatio: number; // Fraction of a matching loss the policy pays
+  startYear: number;
+  startMonth: number;
+}
+
+export type MarketNewsCategory = 'MARKETS' | 'RBI' | 'POLICY' | 'GLOBAL' | 'COMMODITIES' | 'CURRENCY';
+
+// Dated real-world headline shown in the news ticker when the game calendar reaches it
+export interface MarketNewsItem {
+  id: string;
+  year: number; // Calendar year
+  month: number; // 1..12
+  category: MarketNewsCategory;
+  headline: string;
+}
+
+// === Server-side ledger (multiplayer) ===
+
+export interface LedgerHolding {
+  quantity: number;
+  avgPrice: number;
+  totalInvested: number;
+  acquiredMonthIndex?: number; // Quantity-weighted game month of purchase, for the capital gains holding period
+}
+
+export interface LedgerFixedDeposit {
+  id: string;
+  amount: number;
+  duration: number; // months
+  interestRate: number; // annual %
+  startMonth: number;
+  startYear: number;
+  maturityMonth: number;
+  maturityYear: number;
+  isMatured: boolean;
+}
+
+export type LoanType = 'personal' | 'fdBacked' | 'goldBacked';
+
+export interface LedgerLoan {
+  id: string;
+  type: LoanType;
+  principal: number;
+  interestRate: number; // annual %
+  tenureMonths: 12 | 24 | 36;
+  emi: number;
+  outstanding: number;
+  startYear: number;
+  startMonth: number;
+  collateralFdId?: string; // fdBacked: the FD can't be collected or broken until repaid
+  pledgedGoldQuantity?: number; // goldBacked: physical gold that can't be sold until repaid
+}
+
+export type BondType = 'gsec' | 'rbi' | 'corporate';
+
+export interface LedgerBond {
+  id: string;
+  type: BondType;
+  faceValue: number;
+  couponRate: number; // annual %, fixed at purchase and paid half-yearly
+  issueYear: number; // Calendar year of purchase, to look up market yields later
+  startYear: number;
+  startMonth: number;
+  maturityYear: number;
+  maturityMonth: number;
+}
+
+export interface LedgerHoldings {
+  physicalGold: LedgerHolding;
+  digitalGold: LedgerHolding;
+  indexFund: { [fundName: string]: LedgerHolding };
+  mutualFund: { [fundName: string]: LedgerHolding };
+  stocks: { [symbol: string]: LedgerHolding };
+  crypto: { [symbol: string]: LedgerHolding };
+  commodity: LedgerHolding;
+  reits: { [symbol: string]: LedgerHolding };
+  forex: { [pair: string]: LedgerHolding }; // Currency pairs quoted in rupees (USDINR, EURINR, GBPINR)
+}
+
+export type LedgerAssetType = keyof LedgerHoldings;
+
+export interface PlayerLedger {
+  pocketCash: number;
+  pocketCashReceivedTotal: number; // Initial cash + recurring income + life event gains
+  savingsBalance: number;
+  savingsTotalDeposited: number;
+  fixedDeposits: LedgerFixedDeposit[];
+  holdings: LedgerHoldings;
+  loans?: LedgerLoan[]; // Missing in snapshots saved before loans existed
+  bonds?: LedgerBond[]; // Missing in snapshots saved before bonds existed
+  insurancePolicies?: InsurancePolicy[]; // Missing in snapshots saved before insurance existed
+  openOrders?: StandingOrder[]; // Missing in snapshots saved before standing orders moved to the server
+  orderExecutions?: OrderExecution[]; // Most recent standing-order fills (newest first)
+}
+
+export type StandingOrderType = 'limitBuy' | 'limitSell' | 'stopLoss' | 'sip';
+
+// Limit, stop-loss or SIP order, settled by the server every month against its own prices
+export interface StandingOrder {
+  id: string;
+  type: StandingOrderType;
+  assetType: LedgerAssetType;
+  assetName: string; // As the client names it; resolved to a price symbol at settlement
+  quantity?: number; // Units for limit and stop-loss orders
+  triggerPrice?: number; // Limit price, or the stop price for stop-loss
+  amount?: number; // Rupees invested every month by a SIP
+  createdYear: number;
+  createdMonth: number;
+  lastExecutedYear?: number; // SIP only: game month of the last instalment
+  lastExecutedMonth?: number;
+  lastRejection?: StandingOrderRejection; // Why the last fill was refused
+}
+
+export interface StandingOrderRejection {
+  reason: string;
+  gameYear: number;
+  gameMonth: number;
+}
+
+export type NewStandingOrder = Pick<StandingOrder, 'type' | 'assetType' | 'assetName' | 'quantity' | 'triggerPrice' | 'amount'>;
+
+export interface OrderExecution {
+  orderId: string;
+  type: StandingOrderType;
+  assetName: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  gameYear: number;
+  gameMonth: number;
+}
+
+// A filled standing order and the trade the ledger executed for it
+export interface StandingOrderFill {
+  execution: OrderExecution;
+  trade: TradeExecution;
+}
+
+// A dividend credited to pocket cash or a split/bonus applied to a holding
+export interface CorporateActionPayout {
+  assetType: LedgerAssetType;
+  assetName: string;
+  actionType: 'dividend' | 'split' | 'bonus';
+  amount: number; // Cash credited (0 for splits/bonuses)
+  quantityBefore: number;
+  quantityAfter: number;
+}
+
+// Details of an executed trade, so the client can log it without guessing prices
+export interface TradeExecution {
+  side: 'buy' | 'sell';
+  assetType: LedgerAssetType;
+  assetName: string;
+  quantity: number;
+  price: number;
+  totalValue: number;
+  pocketCashBefore: number;
+  pocketCashAfter: number;
+  holdingQuantityBefore: number;
+  holdingQuantityAfter: number;
+  charges?: number; // Brokerage + STT + stamp duty
+  capitalGainsTax?: number; // Sells only
+}
+
+// Callback payload for every ledger command
+export interface LedgerResponse {
+  success: boolean;
+  ledger?: PlayerLedger;
+  trade?: TradeExecution;
+  error?: string;
+}
+
+// === Room snapshots (persisted so a server restart can resume live rooms) ===
+
+// Encryption key material for a room; the asset index maps are rebuilt from the symbols
+export interface RoomKeysSnapshot {
+  sessionKey: string; // base64 encoded
+  createdAt: number;
+  symbols: string[];
+}
+
+export interface RoomSnapshot {
+  id: string;
+  hostId: string;
+  successorId?: string;
+  players: PlayerInfo[];
+  adminSettings: AdminSettings | null;
+  gameState: GameState;
+  createdAt: number;
+  ledgers: { [playerId: string]: PlayerLedger };
+  sessionTokens: { [sessionToken: string]: string }; // sessionToken -> playerId
+  maxPlayers: number | null;
+  passcode: string | null;
+  bannedNames: string[];
+  requireAllReady: boolean;
+  roomKeys: RoomKeysSnapshot | null;
 }
 
 export interface GameState {
@@ -93,6 +482,7 @@ export interface GameState {
   assetUnlockSchedule?: any;
   yearlyQuotes?: string[];
   quizQuestionIndices?: { [category: string]: number }; // Random question index per category
+  quizQuestionIds?: { [category: string]: number }; // quiz_questions id behind each index, fixed at game start so admin edits can't swap the question
 
   // Optional per-player life events schedule (used in multiplayer)
   lifeEvents?: { [playerId: string]: LifeEvent[] };
@@ -105,6 +495,16 @@ export interface ServerToClientEvents {
   roomJoined: (data: { roomId: string; players: PlayerInfo[]; adminSettings: AdminSettings | null }) => void;
   playerJoined: (data: { player: PlayerInfo }) => void;
   playerLeft: (data: { playerId: string }) => void;
+  playerDisconnected: (data: { playerId: string }) => void;
+  playerReconnected: (data: { oldPlayerId: string; player: PlayerInfo }) => void;
+  hostChanged: (data: { previousHostId: string; newHostId: string; newHostName: string }) => void;
+  successorChanged: (data: { successorId: string | null }) => void;
+  kickedFromRoom: (data: { roomId: string }) => void;
+  playerReadyChanged: (data: { playerId: string; isReady: boolean }) => void;
+  readyRuleChanged: (data: { requireAllReady: boolean }) => void;
+  startCountdown: (data: { durationMs: number }) => void;
+  startCountdownCancelled: (data: { reason: string }) => void;
+  spectatorsUpdate: (data: { spectators: SpectatorInfo[] }) => void;
 
   // Game events
   gameStarted: (data: { gameState: GameState; adminSettings: AdminSettings }) => void;
@@ -113,6 +513,7 @@ export interface ServerToClientEvents {
   gameResumed: () => void;
   gameEnded: (data: { finalYear: number; finalMonth: number }) => void;
   timeProgression: (data: { year: number; month: number }) => void;
+  speedChanged: (data: { monthDuration: number }) => void;
 
   // Leaderboard events
   leaderboardUpdate: (data: { players: PlayerInfo[] }) => void;
@@ -126,6 +527,10 @@ export interface ServerToClientEvents {
 
   // Life events
   lifeEventTriggered: (data: { event: LifeEvent; postPocketCash?: number }) => void;
+  lifeEventResolved: (data: { event: LifeEvent; postPocketCash?: number }) => void; // A choice event settled (picked or defaulted)
+
+  // Market news reached by the game calendar (same for every player in the room)
+  newsItem: (data: { item: MarketNewsItem; gameYear: number; gameMonth: number }) => void;
 
   // Admin settings
   adminSettingsUpdated: (data: { adminSettings: AdminSettings }) => void;
@@ -151,26 +556,92 @@ export interface ServerToClientEvents {
   // Key exchange response (sent once when client requests)
   keyExchangeResponse: (data: KeyExchangeData) => void;
 
+  // Server ledger pushed after monthly interest, income, FD maturity and life events
+  ledgerUpdate: (data: { ledger: PlayerLedger }) => void;
+
+  // Dividends and splits applied to this player's ledger (balances follow in ledgerUpdate)
+  corporateActionsApplied: (data: { payouts: CorporateActionPayout[]; gameYear: number; gameMonth: number }) => void;
+
+  // Standing orders filled for this player this month (the book and balances follow in ledgerUpdate)
+  standingOrdersExecuted: (data: { fills: StandingOrderFill[] }) => void;
+
   // Networth validation result (sent when server detects mismatch)
   networthValidation: (data: NetworthValidationResult) => void;
 }
 
 export interface ClientToServerEvents {
   // Room events
-  createRoom: (data: { playerName: string }, callback: (response: { success: boolean; roomId?: string; error?: string }) => void) => void;
-  joinRoom: (data: { roomId: string; playerName: string }, callback: (response: { success: boolean; players?: PlayerInfo[]; adminSettings?: AdminSettings | null; error?: string }) => void) => void;
+  createRoom: (data: { playerName: string } & RoomOptions, callback: (response: { success: boolean; roomId?: string; sessionToken?: string; maxPlayers?: number | null; error?: string }) => void) => void;
+  joinRoom: (data: { roomId: string; playerName: string; passcode?: string }, callback: (response: { success: boolean; players?: PlayerInfo[]; adminSettings?: AdminSettings | null; sessionToken?: string; isHost?: boolean; gameState?: GameState; maxPlayers?: number | null; requireAllReady?: boolean; error?: string }) => void) => void;
   leaveRoom: () => void;
 
+  // Lobby ready-check
+  setReady: (data: { isReady: boolean }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  setReadyRule: (data: { requireAllReady: boolean }, callback: (response: { success: boolean; error?: string }) => void) => void;
+
+  // Host removes a player and bars them from rejoining the room
+  kickPlayer: (
+    data: { playerId: string },
+    callback: (response: { success: boolean; error?: string }) => void
+  ) => void;
+
+  // Watch a room before or during a game without taking a seat
+  joinAsSpectator: (
+    data: { roomId: string; spectatorName: string; passcode?: string },
+    callback: (response: SpectatorJoinResponse) => void
+  ) => void;
+
+  // Host picks who takes over the room if they leave (null clears the pick)
+  designateSuccessor: (
+    data: { playerId: string | null },
+    callback: (response: { success: boolean; error?: string }) => void
+  ) => void;
+
+  // Rebind a new socket to an existing player after a dropped connection
+  resumeSession: (
+    data: { sessionToken: string },
+    callback: (response: ResumeSessionResponse) => void
+  ) => void;
+
   // Game events
   startGame: (data: { adminSettings: AdminSettings; initialGameState?: Partial<GameState> }, callback: (response: { success: boolean; error?: string }) => void) => void;
   togglePause: () => void;
+  setGameSpeed: (data: { monthDuration: number }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  stepMonth: (callback: (response: { success: boolean; error?: string }) => void) => void;
+  jumpToMonth: (data: { year: number; month: number }, callback: (response: { success: boolean; error?: string }) => void) => void;
 
   // Player state updates
   updatePlayerState: (data: { networth: number; portfolioBreakdown: PortfolioBreakdown }) => void;
+  setLanguage: (data: { language: Language }) => void;
+
+  // Ledger commands (executed by the server against the player's ledger)
+  placeTrade: (
+    data: { side: 'buy' | 'sell'; assetType: LedgerAssetType; assetName: string; quantity: number },
+    callback: (response: LedgerResponse) => void
+  ) => void;
+  depositSavings: (data: { amount: number }, callback: (response: LedgerResponse) => void) => void;
+  withdrawSavings: (data: { amount: number }, callback: (response: LedgerResponse) => void) => void;
+  openFD: (data: { amount: number; duration: number }, callback: (response: LedgerResponse) => void) => void;
+  collectFD: (data: { fdId: string }, callback: (response: LedgerResponse) => void) => void;
+  breakFD: (data: { fdId: string }, callback: (response: LedgerResponse) => void) => void;
+  takeLoan: (
+    data: { type: LoanType; amount: number; tenureMonths: 12 | 24 | 36; fdId?: string },
+    callback: (response: LedgerResponse) => void
+  ) => void;
+  repayLoan: (data: { loanId: string }, callback: (response: LedgerResponse) => void) => void;
+  buyBond: (data: { type: BondType; amount: number }, callback: (response: LedgerResponse) => void) => void;
+  sellBond: (data: { bondId: string }, callback: (response: LedgerResponse) => void) => void;
+  buyInsurance: (data: { type: InsuranceType }, callback: (response: LedgerResponse) => void) => void;
+  cancelInsurance: (data: { policyId: string }, callback: (response: LedgerResponse) => void) => void;
+  resolveLifeEvent: (data: { eventId: string; choiceId: string }, callback: (response: LedgerResponse) => void) => void;
+  placeOrder: (data: NewStandingOrder, callback: (response: LedgerResponse) => void) => void;
+  cancelOrder: (data: { orderId: string }, callback: (response: LedgerResponse) => void) => void;
+  requestLedger: (callback: (response: LedgerResponse) => void) => void;
 
   // Quiz events
   quizStarted: (data: { quizCategory: string }) => void;
   quizFinished: (data: { quizCategory: string }) => void;
+  submitQuizAnswer: (data: { answerIndex: number }, callback: (response: QuizAnswerResponse) => void) => void;
 
   // Intro events
   introCompleted: () => void;
@@ -188,6 +659,11 @@ export interface ClientToServerEvents {
       networth: number;
       portfolioBreakdown: PortfolioBreakdown;
       holdings: any; // Serialized holdings for validation
+      // Client-side balances - ignored, the server values its own ledger
+      pocketCash?: number;
+      savingsBalance?: number;
+      fixedDeposits?: LedgerFixedDeposit[];
+      bonds?: LedgerBond[];
     },
     callback: (response: { valid: boolean; serverNetworth?: number; error?: string }) => void
   ) => void;
@@ -201,4 +677,5 @@ export interface SocketData {
   roomId?: string;
   playerId?: string;
   playerName?: string;
+  isSpectator?: boolean;
 }
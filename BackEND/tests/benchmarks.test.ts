@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BenchmarkCloses, BenchmarkParams, replayBenchmarks } from '../src/services/benchmarks';
+
+// Two game years from January 2010; gold only lists in January 2011
+const closes: BenchmarkCloses = {
+  nifty: new Map([['2010-01', 100], ['2010-12', 150], ['2011-12', 200]]),
+  gold: new Map([['2011-01', 50], ['2011-12', 100]]),
+};
+const fdRates = { 2010: { 12: 10 }, 2011: { 12: 5 } };
+
+const params = (overrides: Partial<BenchmarkParams> = {}): BenchmarkParams => ({
+  gameStartYear: 2010,
+  gameStartMonth: 1,
+  gameDurationYears: 2,
+  initialPocketCash: 10000,
+  recurringIncome: 0,
+  lifeEvents: [],
+  ...overrides,
+});
+
+const byId = (results: ReturnType<typeof replayBenchmarks>) =>
+  Object.fromEntries(results.map(result => [result.id, result.yearEndValues.map(value => Math.round(value * 100) / 100)]));
+
+describe('replayBenchmarks', () => {
+  it('values each strategy at the end of every game year', () => {
+    assert.deepEqual(byId(replayBenchmarks(params(), closes, fdRates)), {
+      nifty: [15000, 20000],
+      // Cash waits until gold has a price
+      gold: [10000, 20000],
+      // 10% for the first year, then rolled over at the 5% of 2011
+      fdLadder: [10916.67, 11504.17],
+      balanced: [13366.67, 16601.67],
+    });
+  });
+
+  it('works out the CAGR on the capital received', () => {
+    const nifty = replayBenchmarks(params(), closes, fdRates).find(result => result.id === 'nifty')!;
+    assert.equal(nifty.finalValue, 20000);
+    assert.ok(Math.abs(nifty.cagr - (Math.SQRT2 - 1) * 100) < 1e-9);
+  });
+
+  it('sells holdings to pay for life event losses', () => {
+    const results = replayBenchmarks(params({ lifeEvents: [{ gameYear: 2, gameMonth: 1, amount: -5000 }] }), closes, fdRates);
+    assert.equal(byId(results).nifty[1], 13333.33);
+  });
+});
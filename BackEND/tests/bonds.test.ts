@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyMonthlyBondUpdate, createBond, getBondYield, valueBond } from '../src/game/bonds';
+import { buyBond, createLedger, sellBond } from '../src/game/playerLedger';
+
+describe('createBond', () => {
+  it('locks the coupon at the market yield and sets the maturity from the tenure', () => {
+    const gsec = createBond('gsec', 10000, 2003, 4, 1);
+    assert.equal(gsec.couponRate, 5.9);
+    assert.deepEqual([gsec.maturityYear, gsec.maturityMonth], [14, 1]);
+
+    const corporate = createBond('corporate', 10000, 2003, 4, 7);
+    assert.equal(corporate.couponRate, Math.round(getBondYield('corporate', 2003, 7) * 100) / 100);
+    assert.deepEqual([corporate.maturityYear, corporate.maturityMonth], [9, 7]);
+  });
+});
+
+describe('valueBond', () => {
+  it('prices tradeable bonds below par once yields rise and RBI bonds at par', () => {
+    const gsec = createBond('gsec', 10000, 2003, 4, 1);
+    const rbi = createBond('rbi', 10000, 2003, 4, 1);
+
+    assert.ok(Math.abs(valueBond(gsec, 4, 1) - 10000) < 1);
+    assert.ok(valueBond(gsec, 9, 1) < 10000);
+    assert.equal(valueBond(rbi, 9, 1), 10000);
+    assert.equal(valueBond(gsec, 14, 1), 10000);
+  });
+});
+
+describe('applyMonthlyBondUpdate', () => {
+  it('pays a coupon every six months and the face value at maturity', () => {
+    let state = { pocketCash: 0, bonds: [createBond('corporate', 10000, 2003, 1, 1)] };
+    const coupon = 10000 * state.bonds[0].couponRate / 100 / 2;
+    const couponMonths: number[] = [];
+
+    for (let month = 2; month <= 12 * 5 + 1; month++) {
+      const year = 1 + Math.floor((month - 1) / 12);
+      const before = state.pocketCash;
+      state = applyMonthlyBondUpdate(state.pocketCash, state.bonds, year, (month - 1) % 12 + 1, null);
+      if (state.pocketCash > before) couponMonths.push(month);
+    }
+
+    assert.equal(couponMonths.length, 10);
+    assert.deepEqual(state.bonds, []);
+    assert.ok(Math.abs(state.pocketCash - (10 * coupon + 10000)) < 0.01);
+  });
+});
+
+describe('bond trading', () => {
+  it('needs the minimum investment and the cash, and sells only tradeable bonds', () => {
+    const ledger = createLedger(20000);
+    assert.equal(buyBond(ledger, 'gsec', 999, 2003, 1, 1).success, false);
+    assert.equal(buyBond(ledger, 'gsec', 25000, 2003, 1, 1).error, 'Insufficient funds');
+    assert.equal(buyBond(ledger, 'gsec', 10000, 2003, 1, 1).success, true);
+    assert.equal(buyBond(ledger, 'rbi', 10000, 2003, 1, 1).success, true);
+
+    const [gsec, rbi] = ledger.bonds!;
+    assert.equal(sellBond(ledger, rbi.id, 2, 1).success, false);
+    assert.equal(sellBond(ledger, gsec.id, 1, 1).success, true);
+    assert.ok(Math.abs(ledger.pocketCash - 10000) < 1);
+    assert.deepEqual(ledger.bonds!.map(bond => bond.type), ['rbi']);
+  });
+});
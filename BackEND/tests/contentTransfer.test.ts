@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssetEducationContent, LifeEventTemplate } from '../src/types';
+import { lifeEventsFromCSV, lifeEventsToCSV, parseCSV, quizBankFromCSV, quizBankToCSV } from '../src/services/contentTransfer';
+import { parseLifeEventTemplate } from '../src/database/lifeEventPool';
+import { parseQuizQuestion } from '../src/database/quizBank';
+
+const template: LifeEventTemplate = {
+  message: 'Wedding in the family, "big" celebration',
+  amount: -150000,
+  weight: 2,
+  months: [11, 12],
+  choices: [
+    { id: 'grand', label: 'Grand wedding', amountFactor: 1.5 },
+    { id: 'simple', label: 'Simple, registered', amountFactor: 0.5, breakFD: true },
+  ],
+  enabled: true,
+};
+
+describe('parseLifeEventTemplate', () => {
+  it('normalises months and trims text', () => {
+    const parsed = parseLifeEventTemplate({ message: '  Bonus  ', amount: 20000, months: [12, 3, 3] });
+    assert.deepEqual(parsed, { message: 'Bonus', amount: 20000, weight: 1, months: [3, 12], insuranceType: undefined, choices: undefined, enabled: true });
+  });
+
+  it('rejects bad amounts, months, insurance and choices', () => {
+    assert.equal(parseLifeEventTemplate({ ...template, amount: 0 }), null);
+    assert.equal(parseLifeEventTemplate({ ...template, amount: 10.5 }), null);
+    assert.equal(parseLifeEventTemplate({ ...template, months: [13] }), null);
+    assert.equal(parseLifeEventTemplate({ ...template, insuranceType: 'pet' }), null);
+    assert.equal(parseLifeEventTemplate({ ...template, choices: [template.choices![0], template.choices![0]] }), null);
+    assert.equal(parseLifeEventTemplate({ ...template, choices: [{ id: 'x', label: 'X', amountFactor: 3 }] }), null);
+  });
+});
+
+describe('parseQuizQuestion', () => {
+  it('needs two to six options and a correct answer among them', () => {
+    const question = { question: 'Pick one', options: ['A', 'B'], correctAnswer: 1 };
+    assert.deepEqual(parseQuizQuestion(question), { ...question, hint: '', enabled: true });
+    assert.equal(parseQuizQuestion({ ...question, correctAnswer: 2 }), null);
+    assert.equal(parseQuizQuestion({ ...question, options: ['A'] }), null);
+    assert.equal(parseQuizQuestion({ ...question, options: ['A', ' '] }), null);
+  });
+});
+
+describe('CSV transfer', () => {
+  it('reads quoted fields, doubled quotes and CRLF line endings', () => {
+    assert.deepEqual(parseCSV('a,b\r\n"x, ""y""",2\r\n\r\n'), [{ a: 'x, "y"', b: '2' }]);
+  });
+
+  it('round-trips the life event pool', () => {
+    const [row] = lifeEventsFromCSV(lifeEventsToCSV([template]));
+    assert.deepEqual(parseLifeEventTemplate(row), { ...template, insuranceType: undefined });
+  });
+
+  it('round-trips the quiz bank, grouping questions by category', () => {
+    const contents: AssetEducationContent[] = [{
+      category: 'GOLD',
+      title: 'Gold',
+      description: 'Why people, in India, buy gold',
+      questions: [
+        { question: 'Is gold a hedge?', options: ['Yes', 'No', 'Sometimes'], correctAnswer: 2, hint: '' },
+        { question: 'Digital gold is held', options: ['In a vault', 'At home'], correctAnswer: 0, hint: 'Not at home', enabled: false },
+      ],
+    }];
+
+    const [gold] = quizBankFromCSV(quizBankToCSV(contents));
+    assert.equal(gold.description, contents[0].description);
+    assert.deepEqual(gold.questions.map(parseQuizQuestion), contents[0].questions.map(q => ({ enabled: true, ...q })));
+  });
+});
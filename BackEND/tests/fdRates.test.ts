@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FDRateTable, getFDRatesForYear } from '../src/services/fdRates';
+import { createLedger, openFixedDeposit } from '../src/game/playerLedger';
+
+const table: FDRateTable = {
+  2005: { 12: 6.25, 24: 6.5, 36: 7.25 },
+  2008: { 12: 8.25, 18: 8.5 },
+  2012: { 36: 8.4 },
+};
+
+describe('getFDRatesForYear', () => {
+  it('keeps each tenure at the latest rate set at or before the year', () => {
+    assert.deepEqual(getFDRatesForYear(2007, table), { 12: 6.25, 24: 6.5, 36: 7.25 });
+    assert.deepEqual(getFDRatesForYear(2013, table), { 12: 8.25, 18: 8.5, 24: 6.5, 36: 8.4 });
+  });
+
+  it('falls back to the default standard tenures before the first year', () => {
+    assert.deepEqual(getFDRatesForYear(2000, table), { 12: 5.0, 24: 6.0, 36: 7.0 });
+    assert.deepEqual(getFDRatesForYear(2005, {}), { 12: 5.0, 24: 6.0, 36: 7.0 });
+  });
+});
+
+describe('custom FD tenures', () => {
+  it('matures an 18 month deposit a year and a half later', () => {
+    const ledger = createLedger(50000);
+    assert.equal(openFixedDeposit(ledger, 10000, 18, 8.5, 3, 9).success, true);
+
+    const [fd] = ledger.fixedDeposits;
+    assert.deepEqual([fd.maturityYear, fd.maturityMonth], [5, 3]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdminSettings } from '../src/types';
+import { getGameDurationYears, isValidGameDuration } from '../src/game/gameDuration';
+import { getGameEnd } from '../src/game/scenarios';
+
+describe('getGameDurationYears', () => {
+  it('uses the host\'s length when it is a whole number of years in range', () => {
+    assert.equal(getGameDurationYears({ gameDurationYears: 5 }), 5);
+    assert.equal(getGameDurationYears({ gameDurationYears: 12 }), 12);
+    assert.equal(getGameDurationYears({ gameDurationYears: 20 }), 20);
+  });
+
+  it('runs the full 20 years for missing or out-of-range lengths', () => {
+    for (const years of [undefined, 4, 21, 7.5, '10' as any]) {
+      assert.equal(isValidGameDuration(years), false);
+      assert.equal(getGameDurationYears({ gameDurationYears: years }), 20);
+    }
+    assert.equal(getGameDurationYears(null), 20);
+  });
+
+  it('moves the final month with the length', () => {
+    assert.deepEqual(getGameEnd({ gameDurationYears: 8 } as AdminSettings), { year: 8, month: 12 });
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Server } from 'socket.io';
+import { GameSyncManager } from '../src/game/gameSync';
+import { RoomManager } from '../src/rooms/roomManager';
+import { AdminSettings } from '../src/types';
+
+const settings = {
+  selectedCategories: ['BANKING', 'GOLD', 'STOCKS'],
+  gameStartYear: 2005,
+  hideCurrentYear: false,
+  initialPocketCash: 100000,
+  recurringIncome: 50000,
+  enableQuiz: false,
+  eventsCount: 3,
+  monthDuration: 5000,
+} as AdminSettings;
+
+// A running game with no sockets attached; nothing here arms the month timer
+function runningGame() {
+  const manager = new RoomManager();
+  const sync = new GameSyncManager(new Server(), manager);
+  const roomId = manager.createRoom('host', 'Host');
+  manager.joinRoom(roomId, 'p1', 'Asha');
+  manager.joinRoom(roomId, 'p2', 'Ravi');
+  assert.equal(manager.startGame(roomId, settings).success, true);
+  return { manager, sync, roomId, room: manager.getRoom(roomId)! };
+}
+
+describe('time controls', () => {
+  it('only accepts month durations between half a second and a minute', () => {
+    const { sync, roomId, room } = runningGame();
+
+    for (const duration of [499, 60001, NaN, Infinity, '5000' as any]) {
+      assert.deepEqual(sync.setMonthDuration(roomId, duration), {
+        success: false,
+        error: 'Month duration must be between 0.5s and 60s',
+      });
+    }
+    assert.equal(room.adminSettings!.monthDuration, 5000);
+    assert.equal(room.timeProgressionInterval, undefined);
+  });
+
+  it('refuses speed changes before the game starts', () => {
+    const manager = new RoomManager();
+    const sync = new GameSyncManager(new Server(), manager);
+    const roomId = manager.createRoom('host', 'Host');
+
+    assert.equal(sync.setMonthDuration(roomId, 2000).error, 'Game is not running');
+  });
+
+  it('only steps a month while the host has paused the game', () => {
+    const { sync, roomId, room } = runningGame();
+
+    assert.equal(sync.stepMonth(roomId).error, 'Pause the game before stepping a month');
+
+    room.gameState.isPaused = true;
+    room.gameState.pauseReason = 'quiz';
+    assert.equal(sync.stepMonth(roomId).error, 'Pause the game before stepping a month');
+    assert.equal(room.gameState.currentMonth, 1);
+  });
+
+  it('only jumps forward, inside the game and when nobody is mid-quiz', async () => {
+    const { sync, roomId, room } = runningGame();
+
+    assert.equal((await sync.jumpToMonth(roomId, 1, 1)).error, 'Can only jump forward in time');
+    assert.equal((await sync.jumpToMonth(roomId, 1, 13)).error, 'Invalid year or month');
+    assert.equal((await sync.jumpToMonth(roomId, 21, 1)).error, 'Invalid year or month');
+
+    room.gameState.isPaused = true;
+    room.gameState.pauseReason = 'quiz';
+    assert.equal((await sync.jumpToMonth(roomId, 2, 1)).error, 'Wait for players to finish before jumping ahead');
+    assert.equal(room.gameState.currentYear, 1);
+  });
+});
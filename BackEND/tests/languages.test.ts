@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isTranslationLanguage, resolveLanguage } from '../src/game/languages';
+import { parseLifeEventTranslation } from '../src/database/lifeEventPool';
+import { parseQuizQuestionTranslation } from '../src/database/quizBank';
+
+describe('resolveLanguage', () => {
+  it('prefers the player\'s pick, then the room default, then English', () => {
+    assert.equal(resolveLanguage('ta', { defaultLanguage: 'hi' }), 'ta');
+    assert.equal(resolveLanguage(undefined, { defaultLanguage: 'hi' }), 'hi');
+    assert.equal(resolveLanguage('fr' as any, { defaultLanguage: 'xx' as any }), 'en');
+    assert.equal(resolveLanguage(undefined, null), 'en');
+  });
+
+  it('stores translations only for languages other than English', () => {
+    assert.equal(isTranslationLanguage('mr'), true);
+    assert.equal(isTranslationLanguage('en'), false);
+  });
+});
+
+describe('translations', () => {
+  it('lines quiz options up one-to-one with the English question', () => {
+    const translation = { question: ' प्रश्न ', options: ['अ', 'ब', 'क'] };
+    assert.deepEqual(parseQuizQuestionTranslation(translation, 3), { question: 'प्रश्न', options: ['अ', 'ब', 'क'], hint: '' });
+    assert.equal(parseQuizQuestionTranslation(translation, 4), null);
+    assert.equal(parseQuizQuestionTranslation({ ...translation, options: ['अ', '', 'क'] }, 3), null);
+  });
+
+  it('keeps only the choice labels that were translated', () => {
+    assert.deepEqual(
+      parseLifeEventTranslation({ message: 'शादी', choiceLabels: { grand: ' भव्य ', simple: ' ' } }),
+      { message: 'शादी', choiceLabels: { grand: 'भव्य' } }
+    );
+    assert.equal(parseLifeEventTranslation({ message: 'शादी', choiceLabels: ['x'] }), null);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { breakFixedDeposit, createLedger, executeTrade, openFixedDeposit, repayLoan, takeLoan } from '../src/game/playerLedger';
+import { DEFAULT_LOAN_SETTINGS, applyMonthlyLoanUpdate, calculateEMI, getLoanSettings } from '../src/game/loans';
+
+const settings = DEFAULT_LOAN_SETTINGS;
+
+describe('takeLoan', () => {
+  it('pays a personal loan into pocket cash up to the limit', () => {
+    const ledger = createLedger(1000);
+
+    assert.equal(takeLoan(ledger, 'personal', 150000, 12, settings, 1, 1).success, true);
+    assert.equal(takeLoan(ledger, 'personal', 60000, 12, settings, 1, 1).error, 'Amount is above your personal loan limit');
+
+    assert.equal(ledger.pocketCash, 151000);
+    assert.equal(Math.round(ledger.loans![0].interestRate), 14);
+    assert.equal(ledger.loans![0].emi, calculateEMI(150000, 0.14, 12));
+  });
+
+  it('lends against an unpledged FD up to the loan-to-value', () => {
+    const ledger = createLedger(100000);
+    openFixedDeposit(ledger, 40000, 12, 7, 1, 1);
+    const fdId = ledger.fixedDeposits[0].id;
+
+    assert.equal(takeLoan(ledger, 'fdBacked', 30001, 24, settings, 1, 1, { fdId }).success, false);
+    assert.equal(takeLoan(ledger, 'fdBacked', 30000, 24, settings, 1, 1, { fdId }).success, true);
+    assert.equal(takeLoan(ledger, 'fdBacked', 1000, 24, settings, 1, 1, { fdId }).error, 'This fixed deposit is already pledged');
+    assert.equal(ledger.loans![0].interestRate, 9);
+    assert.equal(breakFixedDeposit(ledger, fdId).success, false);
+  });
+
+  it('pledges only the gold the amount needs', () => {
+    const ledger = createLedger(50000);
+    executeTrade(ledger, 'buy', 'physicalGold', 'Physical_Gold', 10, 5000);
+
+    assert.equal(takeLoan(ledger, 'goldBacked', 10000, 12, settings, 1, 1).error, 'Gold price not available for this period');
+    assert.equal(takeLoan(ledger, 'goldBacked', 15000, 12, settings, 1, 1, { goldPrice: 4000 }).success, true);
+    assert.equal(ledger.loans![0].pledgedGoldQuantity, 5);
+    assert.equal(takeLoan(ledger, 'goldBacked', 15001, 12, settings, 1, 1, { goldPrice: 4000 }).success, false);
+    assert.equal(executeTrade(ledger, 'sell', 'physicalGold', 'Physical_Gold', 6, 4000).success, false);
+  });
+
+  it('refuses loans when the host turned borrowing off, and past the loan count', () => {
+    const ledger = createLedger(1000);
+    assert.equal(getLoanSettings({ loanSettings: { ...settings, enabled: false } }), null);
+    assert.equal(takeLoan(ledger, 'personal', 1000, 12, null, 1, 1).error, 'Loans are disabled for this game');
+
+    for (let i = 0; i < 3; i++) {
+      assert.equal(takeLoan(ledger, 'personal', 1000, 12, settings, 1, 1).success, true);
+    }
+    assert.equal(takeLoan(ledger, 'personal', 1000, 12, settings, 1, 1).error, 'You can have at most 3 loans');
+  });
+});
+
+describe('loan repayment', () => {
+  it('repays early from pocket cash and releases the collateral', () => {
+    const ledger = createLedger(100000);
+    openFixedDeposit(ledger, 40000, 12, 7, 1, 1);
+    const fdId = ledger.fixedDeposits[0].id;
+    takeLoan(ledger, 'fdBacked', 20000, 12, settings, 1, 1, { fdId });
+
+    assert.equal(repayLoan(ledger, ledger.loans![0].id).success, true);
+    assert.equal(ledger.pocketCash, 60000);
+    assert.equal(breakFixedDeposit(ledger, fdId).success, true);
+  });
+
+  it('takes each EMI and closes the loan once it is paid off', () => {
+    const ledger = createLedger(0);
+    takeLoan(ledger, 'personal', 12000, 12, { ...settings, personalLoanRate: 0 }, 1, 1);
+
+    let state = { pocketCash: ledger.pocketCash, loans: ledger.loans! };
+    for (let month = 0; month < 12; month++) {
+      state = applyMonthlyLoanUpdate(state.pocketCash, state.loans, settings);
+    }
+
+    assert.deepEqual(state.loans, []);
+    assert.ok(Math.abs(state.pocketCash) < 0.01);
+  });
+
+  it('charges overdraft interest on negative pocket cash', () => {
+    assert.equal(applyMonthlyLoanUpdate(-1200, [], settings).pocketCash, -1200 - 18);
+    assert.equal(applyMonthlyLoanUpdate(-1200, [], null).pocketCash, -1200);
+  });
+});
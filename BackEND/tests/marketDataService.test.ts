@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CPIPoint, getCPIForMonth } from '../src/services/marketDataService';
+
+const series: CPIPoint[] = [
+  { date: '2010-01-01', value: 100 },
+  { date: '2011-01-01', value: 112 },
+];
+
+describe('getCPIForMonth', () => {
+  it('interpolates between points and holds flat outside the series', () => {
+    assert.equal(getCPIForMonth(series, 2010, 4), 103);
+    assert.equal(getCPIForMonth(series, 2009, 12), 100);
+    assert.equal(getCPIForMonth(series, 2015, 6), 112);
+  });
+
+  it('has nothing to say without a series', () => {
+    assert.equal(getCPIForMonth([], 2010, 1), null);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MARKET_NEWS, getNewsForMonth, getNewsInRange } from '../src/game/marketNews';
+
+describe('getNewsForMonth', () => {
+  it('returns only the headlines dated to that month', () => {
+    assert.deepEqual(getNewsForMonth(2008, 9).map(item => item.id), ['2008-9-GLOBAL']);
+    assert.deepEqual(getNewsForMonth(2008, 12), []);
+  });
+});
+
+describe('getNewsInRange', () => {
+  it('includes both ends of the range, oldest first', () => {
+    assert.deepEqual(getNewsInRange(2008, 9, 2008, 11).map(item => item.id), ['2008-9-GLOBAL', '2008-10-RBI', '2008-11-POLICY']);
+  });
+
+  it('crosses calendar years', () => {
+    assert.deepEqual(getNewsInRange(2008, 11, 2009, 1).map(item => item.id), ['2008-11-POLICY', '2009-1-MARKETS']);
+  });
+});
+
+describe('MARKET_NEWS', () => {
+  it('gives every headline a unique id', () => {
+    assert.equal(new Set(MARKET_NEWS.map(item => item.id)).size, MARKET_NEWS.length);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLedger } from '../src/game/playerLedger';
+import { calculateServerNetworth, fullValidation, validateNetworth } from '../src/services/networthValidator';
+
+const prices = { TCS: 3000, SILVER: 70000, Physical_Gold: 5000 };
+const selectedAssets = { stocks: ['TCS'], commodity: 'SILVER' };
+
+// 10k cash, 5k savings, a half-run 1 year FD at 6%, 10 TCS, 2 silver and a 20k loan
+function playerAt(year: number, month: number) {
+  const ledger = createLedger(10000);
+  ledger.savingsBalance = 5000;
+  ledger.fixedDeposits = [{ id: 'fd1', amount: 100000, duration: 12, interestRate: 6, startYear: 1, startMonth: 1, maturityYear: 2, maturityMonth: 1, isMatured: false }];
+  ledger.holdings.stocks.TCS = { quantity: 10, avgPrice: 2500, totalInvested: 25000 };
+  ledger.holdings.commodity = { quantity: 2, avgPrice: 60000, totalInvested: 120000 };
+  ledger.loans = [{ id: 'loan1', type: 'personal', principal: 20000, interestRate: 10, tenureMonths: 12, emi: 1758, outstanding: 20000, startYear: 1, startMonth: 1 }];
+  return calculateServerNetworth(
+    ledger.pocketCash, ledger.savingsBalance, ledger.fixedDeposits, ledger.holdings,
+    prices, selectedAssets, year, month, ledger.loans
+  );
+}
+
+describe('calculateServerNetworth', () => {
+  it('values every holding at server prices and subtracts loans', () => {
+    const { networth, breakdown } = playerAt(1, 7);
+    assert.equal(breakdown.fixedDeposits, 103000);
+    assert.equal(breakdown.stocks, 30000);
+    assert.equal(breakdown.commodities, 140000);
+    assert.equal(breakdown.loans, -20000);
+    assert.equal(networth, 268000);
+  });
+
+  it('values crypto and forex holdings in their own buckets', () => {
+    const ledger = createLedger(0);
+    ledger.holdings.crypto.BTC = { quantity: 0.5, avgPrice: 2000000, totalInvested: 1000000 };
+    ledger.holdings.forex!.USDINR = { quantity: 1000, avgPrice: 70, totalInvested: 70000 };
+
+    const { networth, breakdown } = calculateServerNetworth(
+      ledger.pocketCash, ledger.savingsBalance, ledger.fixedDeposits, ledger.holdings,
+      { BTC: 3000000, USDINR: 83 }, { crypto: ['BTC'], forex: ['USDINR'] }, 10, 1
+    );
+    assert.equal(breakdown.crypto, 1500000);
+    assert.equal(breakdown.forex, 83000);
+    assert.equal(networth, 1583000);
+  });
+
+  it('stops accruing FD interest at maturity', () => {
+    assert.equal(playerAt(1, 1).breakdown.fixedDeposits, 100000);
+    assert.equal(playerAt(2, 1).breakdown.fixedDeposits, 106000);
+    assert.equal(playerAt(2, 6).breakdown.fixedDeposits, 106000);
+  });
+});
+
+describe('validateNetworth', () => {
+  it('accepts rounding within the tolerance', () => {
+    assert.equal(validateNetworth(269000, 268000).valid, true);
+    assert.equal(validateNetworth(0, 0).valid, true);
+  });
+
+  it('flags inflated or invented networth', () => {
+    assert.equal(validateNetworth(275000, 268000).valid, false);
+    assert.equal(validateNetworth(1000, 0).deviation, 100);
+  });
+});
+
+describe('fullValidation', () => {
+  it('ignores the client breakdown and reports the server one', () => {
+    const ledger = createLedger(50000);
+    ledger.holdings.physicalGold = { quantity: 2, avgPrice: 4000, totalInvested: 8000 };
+    const inflated = { cash: 50000, savings: 0, gold: 100000, funds: 0, stocks: 0, crypto: 0, commodities: 0, reits: 0 };
+
+    const result = fullValidation(
+      150000, inflated, ledger.pocketCash, ledger.savingsBalance, ledger.fixedDeposits, ledger.holdings,
+      prices, selectedAssets, 2, 1, ledger.loans
+    );
+
+    assert.equal(result.valid, false);
+    assert.equal(result.serverNetworth, 60000);
+    assert.equal(result.breakdown.gold, 10000);
+  });
+});
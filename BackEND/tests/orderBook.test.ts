@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NewStandingOrder, PlayerLedger } from '../src/types';
+import { createLedger, executeTrade } from '../src/game/playerLedger';
+import { cancelStandingOrder, placeStandingOrder, settleStandingOrders } from '../src/game/orderBook';
+
+const prices = { INFY: 1000, TCS: 1100, WIPRO: 400, Physical_Gold: 5000 };
+const bySymbol = (order: { assetName: string }) => order.assetName;
+
+// 10k cash after buying 5 TCS; no taxes
+function ledgerWithTcs(): PlayerLedger {
+  const ledger = createLedger(10000 + 5 * 900);
+  executeTrade(ledger, 'buy', 'stocks', 'TCS', 5, 900);
+  return ledger;
+}
+
+function place(ledger: PlayerLedger, order: Partial<NewStandingOrder>) {
+  placeStandingOrder(ledger, { type: 'limitBuy', assetType: 'stocks', assetName: 'TCS', ...order } as NewStandingOrder, 3, 1);
+  return ledger.openOrders![ledger.openOrders!.length - 1].id;
+}
+
+const summary = (fills: ReturnType<typeof settleStandingOrders>) =>
+  fills.map(fill => [fill.execution.assetName, fill.execution.side, fill.execution.quantity]);
+
+describe('placeStandingOrder', () => {
+  it('rejects orders without a size or trigger', () => {
+    const ledger = createLedger(10000);
+    assert.equal(placeStandingOrder(ledger, { type: 'sip', assetType: 'stocks', assetName: 'INFY' }, 1, 1).success, false);
+    assert.equal(placeStandingOrder(ledger, { type: 'limitBuy', assetType: 'stocks', assetName: 'INFY', quantity: 2 }, 1, 1).success, false);
+    assert.equal(placeStandingOrder(ledger, { type: 'market', assetType: 'stocks', assetName: 'INFY', quantity: 2 } as any, 1, 1).success, false);
+    assert.equal(ledger.openOrders, undefined);
+  });
+
+  it('cancels an order by id', () => {
+    const ledger = createLedger(10000);
+    const id = place(ledger, { quantity: 1, triggerPrice: 1000 });
+    assert.equal(cancelStandingOrder(ledger, 'missing').success, false);
+    assert.equal(cancelStandingOrder(ledger, id).success, true);
+    assert.deepEqual(ledger.openOrders, []);
+  });
+});
+
+describe('settleStandingOrders', () => {
+  it('funds buys in book order from pocket cash', () => {
+    const ledger = ledgerWithTcs();
+    place(ledger, { type: 'sip', assetName: 'INFY', amount: 3000 });
+    place(ledger, { quantity: 5, triggerPrice: 1200 });
+    place(ledger, { assetName: 'WIPRO', quantity: 5, triggerPrice: 500 });
+    place(ledger, { quantity: 1, triggerPrice: 1000 });
+
+    const fills = settleStandingOrders(ledger, prices, bySymbol, null, 3, 4);
+
+    assert.deepEqual(summary(fills), [['INFY', 'buy', 3], ['TCS', 'buy', 5]]);
+    assert.equal(ledger.pocketCash, 10000 - 3000 - 5500);
+    assert.deepEqual(ledger.openOrders!.map(order => order.type), ['sip', 'limitBuy', 'limitBuy']);
+    assert.equal(ledger.orderExecutions![0].assetName, 'TCS');
+  });
+
+  it('never sells more than is held or pledged gold', () => {
+    const ledger = ledgerWithTcs();
+    executeTrade(ledger, 'buy', 'physicalGold', 'Physical_Gold', 1, 4000);
+    ledger.loans = [{ pledgedGoldQuantity: 1 } as any];
+    place(ledger, { type: 'limitSell', quantity: 3, triggerPrice: 1000 });
+    place(ledger, { type: 'stopLoss', quantity: 5, triggerPrice: 1200 });
+    place(ledger, { type: 'stopLoss', assetType: 'physicalGold', assetName: 'Physical_Gold', quantity: 1, triggerPrice: 6000 });
+
+    const fills = settleStandingOrders(ledger, prices, bySymbol, null, 3, 4);
+
+    assert.deepEqual(summary(fills), [['TCS', 'sell', 3], ['TCS', 'sell', 2]]);
+    assert.equal(ledger.holdings.stocks.TCS, undefined);
+    assert.equal(ledger.openOrders!.length, 1);
+  });
+
+  it('pays a SIP once a month and skips assets that are not tradable', () => {
+    const ledger = ledgerWithTcs();
+    place(ledger, { type: 'sip', assetName: 'INFY', amount: 3000 });
+    place(ledger, { type: 'sip', assetName: 'WIPRO', amount: 800 });
+    const tradable = (order: { assetName: string }) => order.assetName === 'INFY' ? 'INFY' : null;
+
+    assert.equal(settleStandingOrders(ledger, prices, tradable, null, 3, 4).length, 1);
+    assert.equal(settleStandingOrders(ledger, prices, tradable, null, 3, 4).length, 0);
+    assert.equal(settleStandingOrders(ledger, prices, tradable, null, 3, 5).length, 1);
+    assert.equal(ledger.holdings.stocks.INFY.quantity, 6);
+    assert.equal(ledger.holdings.stocks.WIPRO, undefined);
+  });
+
+  it('leaves an unaffordable order on the book until the cash is there', () => {
+    const ledger = ledgerWithTcs();
+    ledger.pocketCash = 500;
+    place(ledger, { assetName: 'INFY', quantity: 1, triggerPrice: 1000 });
+
+    assert.equal(settleStandingOrders(ledger, prices, bySymbol, null, 3, 4).length, 0);
+    assert.equal(ledger.openOrders!.length, 1);
+
+    ledger.pocketCash = 2000;
+    assert.deepEqual(summary(settleStandingOrders(ledger, prices, bySymbol, null, 3, 5)), [['INFY', 'buy', 1]]);
+    assert.deepEqual(ledger.openOrders, []);
+    assert.equal(ledger.orderExecutions![0].gameMonth, 5);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyCorporateActionsToLedger,
+  applyQuizBonusToLedger,
+  breakFixedDeposit,
+  createLedger,
+  depositToSavings,
+  executeTrade,
+  openFixedDeposit,
+  withdrawFromSavings,
+} from '../src/game/playerLedger';
+import { CorporateAction } from '../src/services/marketDataService';
+import { DEFAULT_TAX_SETTINGS, calculateCapitalGainsTax, calculateTradeCharges, getTaxSettings, toMonthIndex } from '../src/game/taxes';
+
+const taxSettings = { ...DEFAULT_TAX_SETTINGS, enabled: true };
+
+describe('executeTrade', () => {
+  it('buys into a holding and moves cash', () => {
+    const ledger = createLedger(10000);
+    const result = executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 100);
+
+    assert.equal(result.success, true);
+    assert.equal(ledger.pocketCash, 9000);
+    assert.deepEqual(ledger.holdings.stocks.TCS, { quantity: 10, avgPrice: 100, totalInvested: 1000, acquiredMonthIndex: 0 });
+  });
+
+  it('rejects buys it cannot afford and sells of more than is held', () => {
+    const ledger = createLedger(500);
+    assert.equal(executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 100).success, false);
+    assert.equal(executeTrade(ledger, 'sell', 'stocks', 'TCS', 1, 100).success, false);
+    assert.equal(ledger.pocketCash, 500);
+  });
+
+  it('rejects missing prices and bad quantities', () => {
+    const ledger = createLedger(10000);
+    assert.equal(executeTrade(ledger, 'buy', 'stocks', 'TCS', 1, undefined).success, false);
+    assert.equal(executeTrade(ledger, 'buy', 'stocks', 'TCS', -1, 100).success, false);
+    assert.equal(executeTrade(ledger, 'buy', 'stocks', 'TCS', NaN, 100).success, false);
+  });
+
+  it('keeps one holding for single-holding types', () => {
+    const ledger = createLedger(10000);
+    executeTrade(ledger, 'buy', 'physicalGold', 'Physical_Gold', 2, 1000);
+    executeTrade(ledger, 'sell', 'physicalGold', 'Physical_Gold', 1, 1500);
+
+    assert.equal(ledger.holdings.physicalGold.quantity, 1);
+    assert.equal(ledger.pocketCash, 9500);
+  });
+
+  it('trades forex on ledgers saved before the forex group existed', () => {
+    const ledger = createLedger(10000);
+    delete (ledger.holdings as any).forex;
+
+    assert.equal(executeTrade(ledger, 'buy', 'forex', 'USDINR', 100, 80).success, true);
+    assert.equal(ledger.holdings.forex!.USDINR.quantity, 100);
+    assert.equal(ledger.pocketCash, 2000);
+  });
+
+  it('removes a group holding once it is sold out', () => {
+    const ledger = createLedger(10000);
+    executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 100);
+    executeTrade(ledger, 'sell', 'stocks', 'TCS', 10, 120);
+
+    assert.equal(ledger.holdings.stocks.TCS, undefined);
+    assert.equal(ledger.pocketCash, 10200);
+  });
+
+  it('charges fees on buys and capital gains tax on profitable sells', () => {
+    const ledger = createLedger(100000);
+    const buy = executeTrade(ledger, 'buy', 'stocks', 'TCS', 100, 100, { settings: taxSettings, monthIndex: toMonthIndex(1, 1) });
+    const buyCharges = calculateTradeCharges('buy', 'stocks', 10000, taxSettings).total;
+
+    assert.equal(buy.trade?.charges, buyCharges);
+    assert.equal(ledger.holdings.stocks.TCS.totalInvested, 10000 + buyCharges);
+
+    const sell = executeTrade(ledger, 'sell', 'stocks', 'TCS', 100, 200, { settings: taxSettings, monthIndex: toMonthIndex(1, 6) });
+    const sellCharges = calculateTradeCharges('sell', 'stocks', 20000, taxSettings).total;
+    const gain = 20000 - sellCharges - (10000 + buyCharges);
+
+    assert.equal(sell.trade?.capitalGainsTax, gain * taxSettings.shortTermGainsRate);
+    assert.equal(ledger.pocketCash, 100000 - 10000 - buyCharges + 20000 - sellCharges - gain * taxSettings.shortTermGainsRate);
+  });
+});
+
+describe('taxes', () => {
+  it('is off unless the host enables it', () => {
+    assert.equal(getTaxSettings(null), null);
+    assert.equal(getTaxSettings({ taxSettings: DEFAULT_TAX_SETTINGS }), null);
+    assert.deepEqual(getTaxSettings({ taxSettings }), taxSettings);
+  });
+
+  it('caps brokerage and only charges STT on equity sells', () => {
+    const charges = calculateTradeCharges('sell', 'crypto', 1000000, taxSettings);
+    assert.equal(charges.brokerage, taxSettings.maxBrokeragePerTrade);
+    assert.equal(charges.stt, 0);
+    assert.equal(calculateTradeCharges('sell', 'stocks', 1000, taxSettings).stt, 1000 * taxSettings.sttRate);
+  });
+
+  it('taxes long-term gains at the lower rate and never taxes losses', () => {
+    assert.equal(calculateCapitalGainsTax(1000, 12, taxSettings), 1000 * taxSettings.longTermGainsRate);
+    assert.equal(calculateCapitalGainsTax(1000, 11, taxSettings), 1000 * taxSettings.shortTermGainsRate);
+    assert.equal(calculateCapitalGainsTax(-1000, 1, taxSettings), 0);
+  });
+});
+
+describe('banking', () => {
+  it('moves cash in and out of savings', () => {
+    const ledger = createLedger(10000);
+    assert.equal(depositToSavings(ledger, 20000).success, false);
+    assert.equal(depositToSavings(ledger, 4000).success, true);
+    assert.equal(withdrawFromSavings(ledger, 1000).success, true);
+
+    assert.equal(ledger.pocketCash, 7000);
+    assert.equal(ledger.savingsBalance, 3000);
+    assert.equal(ledger.savingsTotalDeposited, 3000);
+  });
+
+  it('limits fixed deposits and charges a penalty to break one', () => {
+    const ledger = createLedger(100000);
+    for (let i = 0; i < 3; i++) {
+      assert.equal(openFixedDeposit(ledger, 10000, 12, 7, 1, 1).success, true);
+    }
+    assert.equal(openFixedDeposit(ledger, 10000, 12, 7, 1, 1).success, false);
+
+    assert.equal(breakFixedDeposit(ledger, ledger.fixedDeposits[0].id).success, true);
+    assert.equal(ledger.fixedDeposits.length, 2);
+    assert.equal(ledger.pocketCash, 70000 + 9900);
+  });
+
+  it('pays quiz bonus cash into pocket cash and capital received', () => {
+    const ledger = createLedger(1000);
+    applyQuizBonusToLedger(ledger, 500);
+    assert.equal(ledger.pocketCash, 1500);
+    assert.equal(ledger.pocketCashReceivedTotal, 1500);
+  });
+});
+
+describe('corporate actions', () => {
+  const action = (overrides: Partial<CorporateAction>): CorporateAction =>
+    ({ assetName: 'TCS', actionType: 'dividend', exDate: '2010-06-15', amount: 0, factor: 1, ...overrides });
+
+  it('pays dividends per unit held into pocket cash', () => {
+    const ledger = createLedger(10000);
+    executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 500);
+
+    const payouts = applyCorporateActionsToLedger(ledger, [action({ amount: 12 }), action({ assetName: 'INFY', amount: 30 })]);
+
+    assert.equal(payouts.length, 1);
+    assert.equal(payouts[0].amount, 120);
+    assert.equal(ledger.pocketCash, 5000 + 120);
+    assert.equal(ledger.pocketCashReceivedTotal, 10000);
+  });
+
+  it('scales quantity and average price on splits and bonus issues', () => {
+    const ledger = createLedger(10000);
+    executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 500);
+
+    applyCorporateActionsToLedger(ledger, [action({ actionType: 'split', factor: 5 })]);
+    const payouts = applyCorporateActionsToLedger(ledger, [action({ actionType: 'bonus', factor: 2 })]);
+
+    assert.deepEqual(payouts.map(p => [p.quantityBefore, p.quantityAfter]), [[50, 100]]);
+    assert.equal(ledger.holdings.stocks.TCS.quantity, 100);
+    assert.equal(ledger.holdings.stocks.TCS.avgPrice, 50);
+    assert.equal(ledger.pocketCash, 5000);
+  });
+
+  it('ignores assets the player does not hold and bad factors', () => {
+    const ledger = createLedger(10000);
+    executeTrade(ledger, 'buy', 'stocks', 'TCS', 10, 500);
+
+    assert.deepEqual(applyCorporateActionsToLedger(ledger, [action({ actionType: 'split', factor: 0 }), action({ actionType: 'split', factor: 1 })]), []);
+    assert.equal(ledger.holdings.stocks.TCS.quantity, 10);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssetEducationContent, QuizQuestion } from '../src/types';
+import { findQuizQuestion, getQuestionIds } from '../src/game/quizBank';
+
+function question(id: number | undefined, correctAnswer: number): QuizQuestion {
+  return { id, question: `Question ${id}`, options: ['A', 'B', 'C', 'D'], correctAnswer, hint: '' } as QuizQuestion;
+}
+
+function bank(questions: QuizQuestion[]): { [category: string]: AssetEducationContent } {
+  return { GOLD: { category: 'GOLD', title: 'Gold', description: '', questions } };
+}
+
+describe('getQuestionIds', () => {
+  it('keeps scoring the picked question after the bank changes', () => {
+    const ids = getQuestionIds({ GOLD: 1 }, bank([question(4, 0), question(7, 2)]));
+    assert.deepEqual(ids, { GOLD: 7 });
+
+    // An admin disables question 4 and adds two more, so index 1 now holds a different question
+    const edited = bank([question(7, 2), question(9, 3), question(12, 1)]);
+    assert.equal(edited.GOLD.questions[1].id, 9);
+    assert.equal(findQuizQuestion(edited, 'GOLD', ids.GOLD)?.correctAnswer, 2);
+  });
+
+  it('finds nothing once the picked question is deleted', () => {
+    assert.equal(findQuizQuestion(bank([question(4, 0)]), 'GOLD', 7), null);
+  });
+
+  it('yields no ids for the built-in bank', () => {
+    assert.deepEqual(getQuestionIds({ GOLD: 0 }, bank([question(undefined, 0)])), {});
+  });
+});
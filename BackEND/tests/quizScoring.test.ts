@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuizQuestion } from '../src/types';
+import { getQuizBonusCash, getQuizPoints, scoreQuizAnswers } from '../src/game/quizScoring';
+
+const question = {
+  question: 'What is SIP in mutual funds?',
+  options: ['Savings Interest Plan', 'Stock Investment Portfolio', 'Systematic Investment Plan', 'Special Insurance Policy'],
+  correctAnswer: 2,
+  hint: 'Regular monthly investments!',
+} as QuizQuestion;
+
+describe('scoreQuizAnswers', () => {
+  it('scores a first-try answer in full', () => {
+    assert.deepEqual(scoreQuizAnswers(question, [2]), { answers: [2], attempts: 1, points: 100 });
+  });
+
+  it('stops counting at the first correct answer', () => {
+    assert.deepEqual(scoreQuizAnswers(question, [0, 2, 1, 2]), { answers: [0, 2], attempts: 2, points: 60 });
+  });
+
+  it('scores nothing until an answer is correct', () => {
+    assert.equal(scoreQuizAnswers(question, [0, 1, 3]), null);
+    assert.equal(scoreQuizAnswers(question, []), null);
+  });
+});
+
+describe('getQuizPoints', () => {
+  it('drops to the floor after the hint shows', () => {
+    assert.deepEqual([1, 2, 3, 4, 9].map(getQuizPoints), [100, 60, 30, 10, 10]);
+  });
+});
+
+describe('getQuizBonusCash', () => {
+  it('scales the bonus by the points earned', () => {
+    assert.equal(getQuizBonusCash({ quizBonusCash: 5000 }, 100), 5000);
+    assert.equal(getQuizBonusCash({ quizBonusCash: 5000 }, 30), 1500);
+  });
+
+  it('pays nothing for a missing or invalid bonus', () => {
+    assert.equal(getQuizBonusCash(null, 100), 0);
+    assert.equal(getQuizBonusCash({ quizBonusCash: -1 }, 100), 0);
+    assert.equal(getQuizBonusCash({ quizBonusCash: Number.POSITIVE_INFINITY }, 100), 0);
+  });
+
+  it('pays nothing for an over-limit bonus instead of capping it', () => {
+    assert.equal(getQuizBonusCash({ quizBonusCash: 1000000 }, 100), 1000000);
+    assert.equal(getQuizBonusCash({ quizBonusCash: 1000001 }, 100), 0);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RoomManager } from '../src/rooms/roomManager';
+import { AdminSettings } from '../src/types';
+
+const settings = {
+  selectedCategories: ['BANKING', 'GOLD', 'STOCKS'],
+  gameStartYear: 2005,
+  hideCurrentYear: false,
+  initialPocketCash: 100000,
+  recurringIncome: 50000,
+  enableQuiz: true,
+  eventsCount: 3,
+} as AdminSettings;
+
+// Host plus two players, game running
+function startedRoom(manager: RoomManager): string {
+  const roomId = manager.createRoom('host', 'Host');
+  manager.joinRoom(roomId, 'p1', 'Asha');
+  manager.joinRoom(roomId, 'p2', 'Ravi');
+  assert.equal(manager.startGame(roomId, settings).success, true);
+  return roomId;
+}
+
+describe('host migration', () => {
+  it('stops a player promoted mid-game from playing', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const room = manager.getRoom(roomId)!;
+    assert.equal(room.ledgers.size, 2);
+
+    const result = manager.leaveRoom('host');
+
+    assert.equal(result.newHostId, 'p1');
+    assert.equal(room.hostId, 'p1');
+    assert.equal(room.ledgers.has('p1'), false);
+    assert.deepEqual(manager.getLeaderboard(roomId).map(p => p.id), ['p2']);
+  });
+});
+
+describe('seat reclaim', () => {
+  it('needs the session token for a seat that dropped during play', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const token = manager.issueSessionToken('p1');
+    manager.markPlayerDisconnected('p1', () => undefined);
+
+    assert.equal(manager.reclaimSeat(roomId, 'Asha', 'intruder').success, false);
+
+    const resumed = manager.resumeSession(token, 'p1-new');
+    assert.equal(resumed.success, true);
+    assert.equal(manager.getRoom(roomId)!.ledgers.has('p1-new'), true);
+    manager.deleteRoom(roomId);
+  });
+
+  it('hands a restored seat back by name once, then only by token', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const restarted = new RoomManager();
+    restarted.restoreRoom({ ...manager.getRoomSnapshot(roomId)!, roomKeys: null });
+
+    const reclaimed = restarted.reclaimSeat(roomId, ' asha ', 'p1-new');
+    assert.equal(reclaimed.success, true);
+    assert.equal(reclaimed.oldPlayerId, 'p1');
+    assert.equal(restarted.getRoom(roomId)!.ledgers.has('p1-new'), true);
+
+    restarted.markPlayerDisconnected('p1-new', () => undefined);
+    assert.equal(restarted.reclaimSeat(roomId, 'Asha', 'intruder').success, false);
+    restarted.deleteRoom(roomId);
+  });
+});
+
+describe('quiz start', () => {
+  it('keeps the answers when a player restarts a quiz', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const player = manager.getRoom(roomId)!.players.get('p1')!;
+
+    assert.equal(manager.markQuizStarted('p1', 'BANKING'), true);
+    player.quizStatus.openedQuizzes!.BANKING.answers.push(2);
+    const startedAt = player.quizStatus.openedQuizzes!.BANKING.startedAt;
+
+    assert.equal(manager.markQuizStarted('p1', 'BANKING'), false);
+    assert.deepEqual(player.quizStatus.openedQuizzes!.BANKING, { startedAt, answers: [2] });
+    manager.deleteRoom(roomId);
+  });
+
+  it('refuses finished, locked and host quizzes without pausing the room', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const room = manager.getRoom(roomId)!;
+    room.gameState.assetUnlockSchedule = { 1: [{ category: 'BANKING', assetType: 'SAVINGS_AC' }] };
+
+    manager.markQuizStarted('p1', 'BANKING');
+    manager.markQuizCompleted('p1', 'BANKING');
+    assert.equal(room.gameState.isPaused, false);
+
+    assert.equal(manager.markQuizStarted('p1', 'BANKING'), false);
+    assert.equal(manager.markQuizStarted('p2', 'STOCKS'), false);
+    assert.equal(manager.markQuizStarted('host', 'BANKING'), false);
+    assert.equal(room.gameState.isPaused, false);
+    assert.deepEqual(room.gameState.playersWaitingForQuiz, []);
+    manager.deleteRoom(roomId);
+  });
+});
+
+describe('spectators', () => {
+  it('will not let a seated player spectate', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host');
+    manager.joinRoom(roomId, 'p1', 'Asha');
+    const otherRoomId = manager.createRoom('host2', 'Meera');
+
+    assert.equal(manager.joinAsSpectator(roomId, 'p1', 'Asha').success, false);
+    assert.equal(manager.joinAsSpectator(otherRoomId, 'p1', 'Asha').success, false);
+    assert.deepEqual(manager.getSpectators(otherRoomId), []);
+  });
+
+  it('will not seat a spectator', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host');
+    assert.equal(manager.joinAsSpectator(roomId, 'viewer', 'Kiran').success, true);
+
+    assert.equal(manager.joinRoom(roomId, 'viewer', 'Kiran').success, false);
+    assert.throws(() => manager.createRoom('viewer', 'Kiran'));
+    assert.equal(manager.getRoomByPlayerId('viewer'), undefined);
+
+    manager.leaveAsSpectator('viewer');
+    assert.equal(manager.joinRoom(roomId, 'viewer', 'Kiran').success, true);
+  });
+
+  it('will not hand a seat to a spectator', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const token = manager.issueSessionToken('p1');
+    manager.markPlayerDisconnected('p1', () => undefined);
+    manager.joinAsSpectator(roomId, 'viewer', 'Kiran');
+
+    assert.equal(manager.resumeSession(token, 'viewer').success, false);
+    assert.equal(manager.getRoom(roomId)!.players.has('p1'), true);
+    manager.deleteRoom(roomId);
+  });
+});
+
+describe('spectator game state', () => {
+  it('leaves out every player\'s life events', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const room = manager.getRoom(roomId)!;
+    room.gameState.lifeEvents = { p1: [] };
+
+    const spectatorState = manager.getSpectatorGameState(room.gameState);
+
+    assert.equal('lifeEvents' in spectatorState, false);
+    assert.equal(spectatorState.currentYear, room.gameState.currentYear);
+    assert.deepEqual(room.gameState.lifeEvents, { p1: [] });
+    manager.deleteRoom(roomId);
+  });
+});
+
+describe('start settings', () => {
+  it('rejects unusable settings before anything starts', () => {
+    const manager = new RoomManager();
+    assert.equal(manager.validateAdminSettings(settings), null);
+    assert.equal(manager.validateAdminSettings(undefined), 'Missing game settings');
+    assert.equal(manager.validateAdminSettings({ ...settings, scenarioId: 'nope' }), 'Unknown scenario');
+    assert.equal(manager.validateAdminSettings({ ...settings, quizBonusCash: -1 }), 'Invalid quiz bonus');
+
+    const roomId = manager.createRoom('host', 'Host');
+    manager.joinRoom(roomId, 'p1', 'Asha');
+    manager.joinRoom(roomId, 'p2', 'Ravi');
+    assert.equal(manager.startGame(roomId, { ...settings, scenarioId: 'nope' }).success, false);
+    assert.equal(manager.getRoom(roomId)!.gameState.isStarted, false);
+    manager.deleteRoom(roomId);
+  });
+});
+
+describe('session resume', () => {
+  it('moves the seat and everything keyed by it to the new socket', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const room = manager.getRoom(roomId)!;
+    room.gameState.lifeEvents = { p1: [] };
+    room.gameState.playersWaitingForQuiz = ['p1', 'p2'];
+    const token = manager.issueSessionToken('p1');
+    manager.markPlayerDisconnected('p1', () => assert.fail('grace period should have been cancelled'));
+
+    const resumed = manager.resumeSession(token, 'p1-new');
+
+    assert.equal(resumed.success, true);
+    assert.equal(resumed.oldPlayerId, 'p1');
+    assert.deepEqual(Array.from(room.players.keys()), ['host', 'p1-new', 'p2']);
+    assert.equal(room.players.get('p1-new')!.isConnected, true);
+    assert.equal(room.ledgers.has('p1'), false);
+    assert.equal(room.ledgers.has('p1-new'), true);
+    assert.deepEqual(room.gameState.lifeEvents, { 'p1-new': [] });
+    assert.deepEqual(room.gameState.playersWaitingForQuiz, ['p1-new', 'p2']);
+    assert.equal(manager.getRoomByPlayerId('p1'), undefined);
+    manager.deleteRoom(roomId);
+  });
+
+  it('keeps the token working across several reconnects', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host');
+    const token = manager.issueSessionToken('host');
+
+    assert.equal(manager.resumeSession(token, 'host-2').success, true);
+    assert.equal(manager.resumeSession(token, 'host-3').success, true);
+    assert.equal(manager.getRoom(roomId)!.hostId, 'host-3');
+    manager.deleteRoom(roomId);
+  });
+
+  it('refuses unknown tokens and tokens of players who left', () => {
+    const manager = new RoomManager();
+    const roomId = startedRoom(manager);
+    const token = manager.issueSessionToken('p1');
+    manager.leaveRoom('p1');
+
+    assert.deepEqual(manager.resumeSession('made-up', 'x'), { success: false, error: 'Session expired' });
+    assert.deepEqual(manager.resumeSession(token, 'p1-new'), { success: false, error: 'Session expired' });
+    manager.deleteRoom(roomId);
+  });
+});
+
+describe('room admission', () => {
+  it('caps non-host players at the room size', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host', { maxPlayers: 1 });
+
+    assert.equal(manager.getRoom(roomId)!.maxPlayers, 2);
+    assert.equal(manager.joinRoom(roomId, 'p1', 'Asha').success, true);
+    assert.equal(manager.joinRoom(roomId, 'p2', 'Ravi').success, true);
+    assert.deepEqual(manager.joinRoom(roomId, 'p3', 'Meera'), { success: false, error: 'Room is full' });
+    manager.deleteRoom(roomId);
+  });
+
+  it('asks players and spectators for the passcode', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host', { passcode: ' 1234 ' });
+
+    assert.equal(manager.joinRoom(roomId, 'p1', 'Asha').error, 'Incorrect room passcode');
+    assert.equal(manager.joinAsSpectator(roomId, 's1', 'Parent', '999').error, 'Incorrect room passcode');
+    assert.equal(manager.joinRoom(roomId, 'p1', 'Asha', '1234').success, true);
+    manager.deleteRoom(roomId);
+  });
+
+  it('keeps a kicked player out under a new socket or the same name', () => {
+    const manager = new RoomManager();
+    const roomId = manager.createRoom('host', 'Host');
+    manager.joinRoom(roomId, 'p1', 'Asha');
+
+    assert.equal(manager.kickPlayer(roomId, 'p1', 'host').success, false);
+    assert.equal(manager.kickPlayer(roomId, 'host', 'p1').success, true);
+    manager.leaveRoom('p1');
+
+    assert.equal(manager.joinRoom(roomId, 'p1', 'Someone').error, 'You have been removed from this room');
+    assert.equal(manager.joinRoom(roomId, 'p9', ' ASHA ').error, 'You have been removed from this room');
+    assert.equal(manager.joinAsSpectator(roomId, 'p9', 'asha').success, false);
+    manager.deleteRoom(roomId);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdminSettings } from '../src/types';
+import { applyScenario, getGameEnd, isPastGameEnd } from '../src/game/scenarios';
+
+const settings = (overrides: Partial<AdminSettings>) => overrides as AdminSettings;
+
+describe('getGameEnd', () => {
+  it('ends a January start in December of the last year', () => {
+    assert.deepEqual(getGameEnd(settings({ gameDurationYears: 10 })), { year: 10, month: 12 });
+  });
+
+  it('runs a mid-year scenario for the full length', () => {
+    const demonetisation = applyScenario(settings({ scenarioId: 'demonetisation2016', gameStartYear: 2005 }));
+    assert.equal(demonetisation.gameStartYear, 2016);
+    // November 2016 + 60 months -> October 2021, game year 6
+    assert.deepEqual(getGameEnd(demonetisation), { year: 6, month: 10 });
+  });
+
+  it('falls back to the default length for missing settings', () => {
+    assert.deepEqual(getGameEnd(null), { year: 20, month: 12 });
+  });
+});
+
+describe('isPastGameEnd', () => {
+  const taperTantrum = settings({ scenarioId: 'rupeeCrisis2013', gameDurationYears: 5 });
+
+  it('keeps the game running through the final month', () => {
+    assert.equal(isPastGameEnd(taperTantrum, 5, 12), false);
+    assert.equal(isPastGameEnd(taperTantrum, 6, 4), false);
+  });
+
+  it('stops it the month after', () => {
+    assert.equal(isPastGameEnd(taperTantrum, 6, 5), true);
+    assert.equal(isPastGameEnd(taperTantrum, 7, 1), true);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isQuizCategoryUnlocked, resolveTradeSymbol } from '../src/game/tradableAssets';
+
+const selectedAssets = {
+  stocks: ['TCS', 'INFY'],
+  indexFunds: ['NIFTYBEES'],
+  mutualFunds: [],
+  commodity: 'SILVER',
+  reit: 'EMBASSY',
+  crypto: ['BTC'],
+};
+
+const schedule = {
+  1: [{ category: 'BANKING', assetType: 'SAVINGS_AC' }],
+  2: [{ category: 'GOLD', assetType: 'Physical_Gold' }],
+  3: [{ category: 'COMMODITIES', assetType: 'SILVER' }],
+  4: [{ category: 'STOCKS', assetType: 'STOCKS', assetNames: ['TCS'] }],
+  5: [{ category: 'FUNDS', assetType: 'INDEX_FUND', assetNames: ['NIFTYBEES'] }],
+  6: [{ category: 'STOCKS', assetType: 'STOCKS', assetNames: ['INFY'] }],
+};
+
+describe('resolveTradeSymbol', () => {
+  it('prices single holdings by their own symbol, whatever name the client sends', () => {
+    assert.equal(resolveTradeSymbol('physicalGold', 'PENNY_STOCK', selectedAssets, schedule, 5), 'Physical_Gold');
+    assert.equal(resolveTradeSymbol('commodity', 'TCS', selectedAssets, schedule, 5), 'SILVER');
+  });
+
+  it('rejects assets before they unlock', () => {
+    assert.equal(resolveTradeSymbol('physicalGold', 'Physical_Gold', selectedAssets, schedule, 1), null);
+    assert.equal(resolveTradeSymbol('digitalGold', 'Digital_Gold', selectedAssets, schedule, 20), null);
+    assert.equal(resolveTradeSymbol('stocks', 'INFY', selectedAssets, schedule, 5), null);
+    assert.equal(resolveTradeSymbol('stocks', 'INFY', selectedAssets, schedule, 6), 'INFY');
+  });
+
+  it('rejects group assets the room did not pick', () => {
+    assert.equal(resolveTradeSymbol('stocks', 'WIPRO', selectedAssets, schedule, 10), null);
+    assert.equal(resolveTradeSymbol('stocks', 'SILVER', selectedAssets, schedule, 10), null);
+    assert.equal(resolveTradeSymbol('forex', 'USDINR', selectedAssets, null, 10), null);
+  });
+
+  it('opens the optional crypto and forex assets with their own unlock', () => {
+    const optional = { ...selectedAssets, forex: ['USDINR', 'EURINR'] };
+    const optionalSchedule = { ...schedule, 7: [{ category: 'FOREX', assetType: 'FOREX', assetNames: ['USDINR'] }] };
+
+    assert.equal(resolveTradeSymbol('forex', 'USDINR', optional, optionalSchedule, 6), null);
+    assert.equal(resolveTradeSymbol('forex', 'USDINR', optional, optionalSchedule, 7), 'USDINR');
+    assert.equal(resolveTradeSymbol('forex', 'EURINR', optional, optionalSchedule, 20), null);
+    assert.equal(resolveTradeSymbol('crypto', 'BTC', optional, optionalSchedule, 20), null);
+  });
+
+  it('falls back to the selected assets when the room has no schedule', () => {
+    assert.equal(resolveTradeSymbol('crypto', 'BTC', selectedAssets, undefined, 1), 'BTC');
+    assert.equal(resolveTradeSymbol('reits', 'EMBASSY', selectedAssets, undefined, 1), 'EMBASSY');
+    assert.equal(resolveTradeSymbol('commodity', 'SILVER', {}, undefined, 1), null);
+  });
+});
+
+describe('isQuizCategoryUnlocked', () => {
+  it('opens a quiz once its category has unlocked', () => {
+    assert.equal(isQuizCategoryUnlocked(schedule, 2, 'COMMODITY'), false);
+    assert.equal(isQuizCategoryUnlocked(schedule, 3, 'COMMODITY'), true);
+    assert.equal(isQuizCategoryUnlocked(schedule, 5, 'INDEX_FUND'), true);
+  });
+
+  it('keeps fund and optional quizzes closed until their own unlock', () => {
+    assert.equal(isQuizCategoryUnlocked(schedule, 10, 'MUTUAL_FUND'), false);
+    assert.equal(isQuizCategoryUnlocked(schedule, 10, 'CRYPTO'), false);
+  });
+});
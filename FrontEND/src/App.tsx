@@ -7,6 +7,7 @@ import { MultiplayerProvider } from './contexts/MultiplayerContext';
 import { MultiplayerLobby } from './components/MultiplayerLobby';
 import { MultiplayerGameCoordinator } from './components/MultiplayerGameCoordinator';
 import { useMultiplayer } from './contexts/MultiplayerContext';
+import { LanguageProvider, useLanguage } from './contexts/LanguageContext';
 import { adminSettingsApi } from './services/adminApi';
 import { AdminSettings } from './types';
 import './App.css';
@@ -22,15 +23,29 @@ function AppContent() {
     createFixedDeposit,
     collectFD,
     breakFD,
+    takeLoan,
+    repayLoan,
+    buyBond,
+    sellBond,
+    buyInsurance,
+    cancelInsurance,
     buyAsset,
     sellAsset,
+    placeOrder,
+    cancelOrder,
+    evaluateOrders,
     togglePause,
+    setMonthDuration,
+    stepMonth,
+    jumpToMonth,
     markQuizCompleted,
     lifeEventPopup,
-    clearLifeEventPopup
+    clearLifeEventPopup,
+    resolveLifeEventChoice
   } = useGameState();
 
-  const { multiplayerMode } = useMultiplayer();
+  const { multiplayerMode, roomInfo } = useMultiplayer();
+  const { setDefaultLanguage } = useLanguage();
   const [isMultiplayerMode, setIsMultiplayerMode] = useState(false);
   const [showPlayerNameModal, setShowPlayerNameModal] = useState(false);
   const [currentPlayerName, setCurrentPlayerName] = useState('');
@@ -38,7 +53,7 @@ function AppContent() {
   const [adminSettings, setAdminSettings] = useState<AdminSettings | null>(null);
   const [loadingSettings, setLoadingSettings] = useState(false);
 
-  // Load admin settings on mount
+  // Load admin settings on mount (the quiz bank is loaded by LanguageProvider)
   useEffect(() => {
     loadAdminSettings();
     // Listen for settings changes made via AdminPanelModal and update local state
@@ -58,6 +73,11 @@ function AppContent() {
     return () => window.removeEventListener('adminSettingsUpdated', handler as any);
   }, []);
 
+  // A room's language applies while in it; otherwise the admin default
+  useEffect(() => {
+    setDefaultLanguage(roomInfo?.adminSettings?.defaultLanguage ?? adminSettings?.defaultLanguage);
+  }, [roomInfo?.adminSettings?.defaultLanguage, adminSettings?.defaultLanguage]);
+
   const loadAdminSettings = async () => {
     setLoadingSettings(true);
     const response = await adminSettingsApi.getSettings();
@@ -66,7 +86,7 @@ function AppContent() {
     } else {
       // Use default settings if server is unavailable
       setAdminSettings({
-        selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'CRYPTO', 'REIT', 'COMMODITIES'],
+        selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'REIT', 'COMMODITIES', 'BONDS'],
         gameStartYear: 2005,
         hideCurrentYear: false,
         initialPocketCash: 100000,
@@ -111,7 +131,7 @@ function AppContent() {
     if (multiplayerMode === 'lobby') {
       return <MultiplayerLobby onBack={handleBackFromMulti} />;
     }
-    if (multiplayerMode === 'host-spectator' || multiplayerMode === 'player-game') {
+    if (multiplayerMode === 'host-spectator' || multiplayerMode === 'player-game' || multiplayerMode === 'spectator') {
       return <MultiplayerGameCoordinator />;
     }
     // Still in lobby selection
@@ -143,15 +163,28 @@ function AppContent() {
           onCreateFD={createFixedDeposit}
           onCollectFD={collectFD}
           onBreakFD={breakFD}
+          onTakeLoan={takeLoan}
+          onRepayLoan={repayLoan}
+          onBuyBond={buyBond}
+          onSellBond={sellBond}
+          onBuyInsurance={buyInsurance}
+          onCancelInsurance={cancelInsurance}
           onBuyAsset={buyAsset}
           onSellAsset={sellAsset}
+          onPlaceOrder={placeOrder}
+          onCancelOrder={cancelOrder}
+          onEvaluateOrders={evaluateOrders}
           onTogglePause={togglePause}
+          onSetMonthDuration={setMonthDuration}
+          onStepMonth={stepMonth}
+          onJumpToMonth={jumpToMonth}
           onMarkQuizCompleted={markQuizCompleted}
           onReturnToMenu={backToMenu}
           playerName={currentPlayerName}
           playerAge={currentPlayerAge}
           lifeEventPopup={lifeEventPopup}
           clearLifeEventPopup={clearLifeEventPopup}
+          onResolveLifeEvent={resolveLifeEventChoice}
         />
       )}
 
@@ -179,9 +212,11 @@ function AppContent() {
 
 function App() {
   return (
-    <MultiplayerProvider>
-      <AppContent />
-    </MultiplayerProvider>
+    <LanguageProvider>
+      <MultiplayerProvider>
+        <AppContent />
+      </MultiplayerProvider>
+    </LanguageProvider>
   );
 }
 
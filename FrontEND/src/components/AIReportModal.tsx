@@ -3,6 +3,10 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { aiReportApi } from '../services/aiReportApi';
 import { generateReportPDF } from '../utils/pdfGenerator';
+import { generateHTMLReportPDF } from '../utils/htmlToPdfGenerator';
+import { getLanguage, DEFAULT_LANGUAGE } from '../utils/i18n';
+import { BenchmarkComparison } from './BenchmarkComparison';
+import { BenchmarkResult } from '../types';
 
 interface AIReportModalProps {
   isOpen: boolean;
@@ -14,6 +18,9 @@ interface AIReportModalProps {
   finalNetworth?: number;
   cagr?: number;
   profitLoss?: number;
+  realNetworth?: number;
+  realCagr?: number;
+  benchmarks?: BenchmarkResult[];
 }
 
 const markdownComponentStyles = {
@@ -144,7 +151,10 @@ export const AIReportModal: React.FC<AIReportModalProps> = ({
   playerAge = 0,
   finalNetworth = 0,
   cagr = 0,
-  profitLoss = 0
+  profitLoss = 0,
+  realNetworth,
+  realCagr,
+  benchmarks
 }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [report, setReport] = useState<string | null>(null);
@@ -162,7 +172,7 @@ export const AIReportModal: React.FC<AIReportModalProps> = ({
     setReport(null);
 
     try {
-      const response = await aiReportApi.generateReport({ logId, uniqueId: logUniqueId ?? undefined });
+      const response = await aiReportApi.generateReport({ logId, uniqueId: logUniqueId ?? undefined, language: getLanguage() });
       if (response.success && response.report) {
         setReport(response.report);
       } else {
@@ -179,6 +189,27 @@ export const AIReportModal: React.FC<AIReportModalProps> = ({
     if (!report) return;
 
     try {
+      const generatedDate = new Date().toLocaleDateString('en-IN', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      });
+
+      // The embedded PDF fonts only cover Latin text, so translated reports are captured as shown on screen
+      if (getLanguage() !== DEFAULT_LANGUAGE && reportContentRef.current) {
+        await generateHTMLReportPDF(reportContentRef.current, {
+          playerName,
+          playerAge,
+          finalNetworth,
+          cagr,
+          profitLoss,
+          reportContent: report,
+          reportId: logUniqueId || undefined,
+          generatedDate,
+        });
+        return;
+      }
+
       // Use text-based PDF generation for selectable/copyable text
       generateReportPDF({
         playerName,
@@ -186,13 +217,11 @@ export const AIReportModal: React.FC<AIReportModalProps> = ({
         finalNetworth,
         cagr,
         profitLoss,
+        realNetworth,
+        realCagr,
         reportContent: report,
         reportId: logUniqueId || undefined,
-        generatedDate: new Date().toLocaleDateString('en-IN', {
-          year: 'numeric',
-          month: 'long',
-          day: 'numeric',
-        }),
+        generatedDate,
       });
     } catch (error) {
       console.error('❌ PDF generation failed:', error);
@@ -520,6 +549,9 @@ export const AIReportModal: React.FC<AIReportModalProps> = ({
                     {report}
                   </ReactMarkdown>
                 </div>
+                {benchmarks && benchmarks.length > 0 && (
+                  <BenchmarkComparison benchmarks={benchmarks} playerNetworth={finalNetworth} playerCagr={cagr} />
+                )}
               </div>
             )}
           </div>
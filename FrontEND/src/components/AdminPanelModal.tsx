@@ -1,26 +1,46 @@
 import React, { useState, useEffect } from 'react';
 import { adminAuthApi, adminSettingsApi } from '../services/adminApi';
-import { AdminSettings, AssetCategory } from '../types';
+import { AdminSettings, AssetCategory, Language } from '../types';
+import { TOTAL_GAME_YEARS, MIN_GAME_DURATION_YEARS, MAX_GAME_DURATION_YEARS, OPTIONAL_CATEGORIES, getTotalGameYears } from '../utils/constants';
+import { DEFAULT_TAX_SETTINGS } from '../utils/taxes';
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from '../utils/i18n';
+import { TaxSettingsFields } from './TaxSettingsFields';
+import { DEFAULT_LOAN_SETTINGS } from '../utils/loans';
+import { LoanSettingsFields } from './LoanSettingsFields';
+import { FDRatesEditor } from './FDRatesEditor';
+import { LifeEventPoolEditor } from './LifeEventPoolEditor';
+import { QuizBankEditor } from './QuizBankEditor';
+import { LifeEventTranslationEditor } from './LifeEventTranslationEditor';
+import { QuizTranslationEditor } from './QuizTranslationEditor';
+import { withScenario } from '../utils/scenarios';
+import { ScenarioSettingsFields } from './ScenarioSettingsFields';
 
 interface AdminPanelModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-// HARD-CODED Asset Categories (Single Source of Truth - Admin CANNOT change this)
-const ASSET_CATEGORIES: Array<{ id: AssetCategory; label: string; enabled: boolean; description?: string }> = [
-  { id: 'BANKING', label: 'Banking', enabled: true, description: 'Savings & FD' },
-  { id: 'GOLD', label: 'Gold', enabled: true, description: 'Physical & ETF' },
-  { id: 'STOCKS', label: 'Stocks', enabled: true, description: '3 cards at Year 4' },
-  { id: 'FUNDS', label: 'Index & Mutual Funds', enabled: true, description: '2+2 cards' },
-  { id: 'COMMODITIES', label: 'Commodities', enabled: true, description: '1 random card' },
-  { id: 'REIT', label: 'REITs', enabled: true, description: '1 card at 2020' },
-  { id: 'CRYPTO', label: 'Cryptocurrency', enabled: false, description: 'Disabled' },
-  { id: 'FOREX', label: 'Forex', enabled: false, description: 'Disabled' },
+// HARD-CODED Asset Categories (Single Source of Truth - Admin can only toggle the optional ones)
+const ASSET_CATEGORIES: Array<{ id: AssetCategory; label: string; optional?: boolean; description?: string }> = [
+  { id: 'BANKING', label: 'Banking', description: 'Savings & FD' },
+  { id: 'GOLD', label: 'Gold', description: 'Physical & ETF' },
+  { id: 'STOCKS', label: 'Stocks', description: '3 cards at Year 4' },
+  { id: 'FUNDS', label: 'Index & Mutual Funds', description: '2+2 cards' },
+  { id: 'COMMODITIES', label: 'Commodities', description: '1 random card' },
+  { id: 'REIT', label: 'REITs', description: '1 card at 2020' },
+  { id: 'BONDS', label: 'Bonds', description: '1 card at Year 5' },
+  { id: 'CRYPTO', label: 'Cryptocurrency', optional: true, description: 'Optional - BTC 2014, ETH 2017' },
+  { id: 'FOREX', label: 'Forex', optional: true, description: 'Optional - 2 pairs at 2008' },
 ];
 
 // Hard-coded enabled categories (cannot be changed)
-const HARDCODED_ENABLED_CATEGORIES: AssetCategory[] = ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'COMMODITIES', 'REIT'];
+const HARDCODED_ENABLED_CATEGORIES: AssetCategory[] = ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'COMMODITIES', 'REIT', 'BONDS'];
+
+// Core categories always stay on; keep whichever optional ones are selected
+const withHardcodedCategories = (selected: AssetCategory[] = []): AssetCategory[] => [
+  ...HARDCODED_ENABLED_CATEGORIES,
+  ...selected.filter(category => (OPTIONAL_CATEGORIES as readonly AssetCategory[]).includes(category))
+];
 
 export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClose }) => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
@@ -42,8 +62,12 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
     initialPocketCash: 100000,
     recurringIncome: 50000,
     enableQuiz: true,
+    quizBonusCash: 0,
     eventsCount: 3,
     monthDuration: 5000, // Default: 5 seconds per month
+    gameDurationYears: TOTAL_GAME_YEARS,
+    taxSettings: DEFAULT_TAX_SETTINGS,
+    loanSettings: DEFAULT_LOAN_SETTINGS,
   });
 
   // Load current settings when authenticated
@@ -61,10 +85,10 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
     setLoading(true);
     const response = await adminSettingsApi.getSettings();
     if (response.success && response.settings) {
-      // Always override selectedCategories with hard-coded values
+      // Always override the core categories with hard-coded values
       setSettings({
         ...response.settings,
-        selectedCategories: HARDCODED_ENABLED_CATEGORIES
+        selectedCategories: withHardcodedCategories(response.settings.selectedCategories)
       });
     }
     setLoading(false);
@@ -91,10 +115,10 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
     setLoading(true);
     setSaveMessage('');
 
-    // Always use hard-coded categories when saving
+    // Always use hard-coded core categories when saving
     const settingsToSave = {
       ...settings,
-      selectedCategories: HARDCODED_ENABLED_CATEGORIES
+      selectedCategories: withHardcodedCategories(settings.selectedCategories)
     };
 
     const response = await adminSettingsApi.updateSettings(settingsToSave);
@@ -316,29 +340,36 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
             {/* Asset Categories (Read-Only) */}
             <div style={{ marginBottom: '20px' }}>
               <h3 style={{ color: '#fff', marginBottom: '10px', fontSize: '16px' }}>
-                Asset Categories (Hard-Coded - Read Only)
+                Asset Categories
               </h3>
               <p style={{ color: '#888', fontSize: '12px', marginBottom: '10px' }}>
-                These categories are fixed and cannot be changed by admin settings.
+                Core categories are fixed. Crypto and Forex are optional.
               </p>
               <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
-                {ASSET_CATEGORIES.map((cat) => (
+                {ASSET_CATEGORIES.map((cat) => {
+                  const enabled = !cat.optional || settings.selectedCategories.includes(cat.id);
+                  return (
                   <label
                     key={cat.id}
                     style={{
                       display: 'flex',
                       alignItems: 'center',
-                      color: cat.enabled ? '#fff' : '#666',
-                      cursor: 'default',
-                      opacity: cat.enabled ? 1 : 0.5,
+                      color: enabled ? '#fff' : '#666',
+                      cursor: cat.optional ? 'pointer' : 'default',
+                      opacity: enabled ? 1 : 0.5,
                     }}
                   >
                     <input
                       type="checkbox"
-                      checked={cat.enabled}
-                      disabled={true}
-                      readOnly
-                      style={{ marginRight: '8px', cursor: 'default' }}
+                      checked={enabled}
+                      disabled={!cat.optional}
+                      onChange={() => setSettings({
+                        ...settings,
+                        selectedCategories: enabled
+                          ? settings.selectedCategories.filter(c => c !== cat.id)
+                          : [...settings.selectedCategories, cat.id]
+                      })}
+                      style={{ marginRight: '8px', cursor: cat.optional ? 'pointer' : 'default' }}
                     />
                     <span>
                       {cat.label}
@@ -349,10 +380,22 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
                       )}
                     </span>
                   </label>
-                ))}
+                  );
+                })}
               </div>
             </div>
 
+            {/* Historical Scenario - pins the start year and length below */}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Historical Scenario
+              </label>
+              <ScenarioSettingsFields
+                value={settings.scenarioId}
+                onChange={(scenarioId) => setSettings(withScenario(settings, scenarioId))}
+              />
+            </div>
+
             {/* Game Start Year - Fixed to ensure all assets can unlock */}
             <div style={{ marginBottom: '15px' }}>
               <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
@@ -361,6 +404,7 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
               <select
                 value={settings.gameStartYear}
                 onChange={(e) => setSettings({ ...settings, gameStartYear: Number(e.target.value) })}
+                disabled={!!settings.scenarioId}
                 style={{
                   width: '100%',
                   padding: '10px',
@@ -371,7 +415,7 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
                   fontSize: '14px',
                 }}
               >
-                {[2000, 2001, 2002, 2003, 2004, 2005].map((year) => (
+                {(settings.scenarioId ? [settings.gameStartYear] : [2000, 2001, 2002, 2003, 2004, 2005]).map((year) => (
                   <option key={year} value={year} style={{ color: '#000' }}>
                     {year} {year < REQUIRED_START_YEAR ? '(REITs may not unlock in time)' : ''}
                   </option>
@@ -381,7 +425,66 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
                 Minimum recommended: {REQUIRED_START_YEAR} (to ensure REITs unlock before Year 17)
               </p>
               <p style={{ color: '#888', fontSize: '12px' }}>
-                Game will run from {settings.gameStartYear} to {settings.gameStartYear + 19}
+                Game will run from {settings.gameStartYear} to {settings.gameStartYear + getTotalGameYears(settings) - 1}
+              </p>
+            </div>
+
+            {/* Game Length */}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Game Length (years)
+              </label>
+              <select
+                value={getTotalGameYears(settings)}
+                onChange={(e) => setSettings({ ...settings, gameDurationYears: Number(e.target.value) })}
+                disabled={!!settings.scenarioId}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  borderRadius: '5px',
+                  border: '1px solid #4ecca3',
+                  backgroundColor: '#16213e',
+                  color: '#fff',
+                  fontSize: '14px',
+                }}
+              >
+                {Array.from({ length: MAX_GAME_DURATION_YEARS - MIN_GAME_DURATION_YEARS + 1 }, (_, i) => MIN_GAME_DURATION_YEARS + i).map((n) => (
+                  <option key={n} value={n} style={{ color: '#000' }}>
+                    {n} years
+                  </option>
+                ))}
+              </select>
+              <p style={{ color: '#888', fontSize: '12px', marginTop: '5px' }}>
+                Shorter games suit shorter sessions. No new assets unlock in the last 3 years, so later asset classes may not appear.
+              </p>
+            </div>
+
+            {/* Default Language */}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Default Language
+              </label>
+              <select
+                value={settings.defaultLanguage || DEFAULT_LANGUAGE}
+                onChange={(e) => setSettings({ ...settings, defaultLanguage: e.target.value as Language })}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  borderRadius: '5px',
+                  border: '1px solid #4ecca3',
+                  backgroundColor: '#16213e',
+                  color: '#fff',
+                  fontSize: '14px',
+                }}
+              >
+                {LANGUAGE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value} style={{ color: '#000' }}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p style={{ color: '#888', fontSize: '12px', marginTop: '5px' }}>
+                Used for menus, quizzes and life events unless a player picks another language.
               </p>
             </div>
 
@@ -513,6 +616,95 @@ export const AdminPanelModal: React.FC<AdminPanelModalProps> = ({ isOpen, onClos
               </label>
             </div>
 
+            {/* Quiz Bonus Cash */}
+            <div style={{ marginBottom: '15px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Quiz Bonus Cash (₹, first-try answer)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="1000000"
+                step="1000"
+                value={settings.quizBonusCash || 0}
+                onChange={(e) => setSettings({ ...settings, quizBonusCash: Number(e.target.value) })}
+                disabled={!settings.enableQuiz}
+                style={{
+                  width: '100%',
+                  padding: '10px',
+                  borderRadius: '5px',
+                  border: '1px solid #4ecca3',
+                  backgroundColor: '#16213e',
+                  color: '#fff',
+                  fontSize: '14px',
+                }}
+              />
+              <p style={{ color: '#888', fontSize: '12px', marginTop: '5px' }}>
+                Paid into pocket cash for each correct quiz answer, scaled down on retries (100% / 60% / 30% / 10%). 0 = no bonus.
+              </p>
+            </div>
+
+            {/* Taxes & Fees */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Taxes & Fees
+              </label>
+              <TaxSettingsFields
+                value={settings.taxSettings}
+                onChange={(taxSettings) => setSettings({ ...settings, taxSettings })}
+              />
+            </div>
+
+            {/* Loans & Credit */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Loans & Credit
+              </label>
+              <LoanSettingsFields
+                value={settings.loanSettings}
+                onChange={(loanSettings) => setSettings({ ...settings, loanSettings })}
+              />
+            </div>
+
+            {/* Fixed Deposit Rates */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Fixed Deposit Rates
+              </label>
+              <FDRatesEditor />
+            </div>
+
+            {/* Life Event Pool */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Life Event Pool
+              </label>
+              <LifeEventPoolEditor />
+            </div>
+
+            {/* Quiz Bank */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Quiz Bank
+              </label>
+              <QuizBankEditor />
+            </div>
+
+            {/* Translations of the pool and quiz bank */}
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Life Event Translations
+              </label>
+              <LifeEventTranslationEditor />
+            </div>
+
+            <div style={{ marginBottom: '20px' }}>
+              <label style={{ color: '#fff', display: 'block', marginBottom: '5px' }}>
+                Quiz Translations
+              </label>
+              <QuizTranslationEditor />
+            </div>
+
             {/* Messages */}
             {saveMessage && (
               <p style={{ color: '#4ecca3', marginBottom: '15px', textAlign: 'center' }}>
@@ -1,6 +1,13 @@
 import React, { useState } from 'react';
-import { AssetCategory, AdminSettings } from '../types';
-import { VALID_START_YEAR_MIN, VALID_START_YEAR_MAX } from '../utils/constants';
+import { AssetCategory, AdminSettings, TaxSettings, LoanSettings, Language } from '../types';
+import { VALID_START_YEAR_MIN, VALID_START_YEAR_MAX, MIN_GAME_DURATION_YEARS, MAX_GAME_DURATION_YEARS, OPTIONAL_CATEGORIES, getTotalGameYears } from '../utils/constants';
+import { DEFAULT_TAX_SETTINGS } from '../utils/taxes';
+import { TaxSettingsFields } from './TaxSettingsFields';
+import { DEFAULT_LOAN_SETTINGS } from '../utils/loans';
+import { LoanSettingsFields } from './LoanSettingsFields';
+import { getScenario } from '../utils/scenarios';
+import { ScenarioSettingsFields } from './ScenarioSettingsFields';
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from '../utils/i18n';
 import './AdminSettingsPanel.css';
 
 interface AdminSettingsPanelProps {
@@ -12,18 +19,22 @@ interface AdminSettingsPanelProps {
 }
 
 // HARD-CODED Asset Categories (Single Source of Truth - Admin CANNOT change this)
-// These reflect the assets that will be unlocked during the game
-const ASSET_CATEGORIES: { value: AssetCategory; label: string; description: string; enabled: boolean; disabledReason?: string }[] = [
-  { value: 'BANKING', label: 'Banking', description: 'Savings Account & Fixed Deposits', enabled: true },
-  { value: 'GOLD', label: 'Gold', description: 'Physical Gold & Gold ETF', enabled: true },
-  { value: 'STOCKS', label: 'Stocks', description: 'Indian Stock Market (3 cards)', enabled: true },
-  { value: 'FUNDS', label: 'Index / Mutual Funds', description: 'Index (2) & Mutual Funds (2)', enabled: true },
-  { value: 'COMMODITIES', label: 'Commodities', description: 'Silver, Oil, Cotton, etc. (1 random)', enabled: true },
-  { value: 'REIT', label: 'REITs', description: 'Real Estate Investment Trusts (1 card)', enabled: true },
-  { value: 'CRYPTO', label: 'Crypto', description: 'Bitcoin & Ethereum', enabled: false, disabledReason: 'Disabled' },
-  { value: 'FOREX', label: 'Forex', description: 'Currency Exchange', enabled: false, disabledReason: 'Disabled' },
+// These reflect the assets that will be unlocked during the game; only the optional ones can be toggled
+const ASSET_CATEGORIES: { value: AssetCategory; label: string; description: string; optional?: boolean }[] = [
+  { value: 'BANKING', label: 'Banking', description: 'Savings Account & Fixed Deposits' },
+  { value: 'GOLD', label: 'Gold', description: 'Physical Gold & Gold ETF' },
+  { value: 'STOCKS', label: 'Stocks', description: 'Indian Stock Market (3 cards)' },
+  { value: 'FUNDS', label: 'Index / Mutual Funds', description: 'Index (2) & Mutual Funds (2)' },
+  { value: 'COMMODITIES', label: 'Commodities', description: 'Silver, Oil, Cotton, etc. (1 random)' },
+  { value: 'REIT', label: 'REITs', description: 'Real Estate Investment Trusts (1 card)' },
+  { value: 'BONDS', label: 'Bonds', description: 'G-Secs, RBI & corporate bonds (Year 5)' },
+  { value: 'CRYPTO', label: 'Crypto', description: 'Bitcoin (2014) & Ethereum (2017)', optional: true },
+  { value: 'FOREX', label: 'Forex', description: 'USDINR, EURINR, GBPINR (2 pairs, 2008)', optional: true },
 ];
 
+const isOptionalCategory = (category: AssetCategory) =>
+  (OPTIONAL_CATEGORIES as readonly AssetCategory[]).includes(category);
+
 export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
   onStartGame,
   onBack,
@@ -31,16 +42,24 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
   onClose,
   initialSettings
 }) => {
-  // HARD-CODED: Asset categories are fixed and cannot be changed by admin
-  // This is a read-only display of what assets are enabled
-  const HARDCODED_ENABLED_CATEGORIES: AssetCategory[] = ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'COMMODITIES', 'REIT'];
+  // HARD-CODED: Core asset categories are fixed and cannot be changed by admin
+  // Only CRYPTO and FOREX are host opt-in
+  const HARDCODED_ENABLED_CATEGORIES: AssetCategory[] = ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'COMMODITIES', 'REIT', 'BONDS'];
+  const [optionalCategories, setOptionalCategories] = useState<AssetCategory[]>(
+    (initialSettings?.selectedCategories || []).filter(isOptionalCategory)
+  );
 
   const [hideCurrentYear, setHideCurrentYear] = useState(initialSettings?.hideCurrentYear || false);
   const [enableQuiz, setEnableQuiz] = useState(initialSettings?.enableQuiz !== undefined ? initialSettings.enableQuiz : true);
+  const [quizBonusCash, setQuizBonusCash] = useState(initialSettings?.quizBonusCash || 0);
   const [initialPocketCash, setInitialPocketCash] = useState(initialSettings?.initialPocketCash || 100000);
   const [recurringIncome, setRecurringIncome] = useState(initialSettings?.recurringIncome || 50000);
   const [eventsCount, setEventsCount] = useState(initialSettings?.eventsCount || 3);
   const [monthDuration, setMonthDuration] = useState(initialSettings?.monthDuration || 5000);
+  const [gameDurationYears, setGameDurationYears] = useState(getTotalGameYears(initialSettings));
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(initialSettings?.taxSettings || DEFAULT_TAX_SETTINGS);
+  const [loanSettings, setLoanSettings] = useState<LoanSettings>(initialSettings?.loanSettings || DEFAULT_LOAN_SETTINGS);
+  const [defaultLanguage, setDefaultLanguage] = useState<Language>(initialSettings?.defaultLanguage || DEFAULT_LANGUAGE);
 
   // Game start year is now user-selectable (2000-2005)
   // Note: Must be at least 2004 to allow REITs to unlock before year 17
@@ -48,22 +67,42 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
     initialSettings?.gameStartYear || VALID_START_YEAR_MIN
   );
 
+  // A historical scenario fixes its own start year and length
+  const [scenarioId, setScenarioId] = useState<string | undefined>(initialSettings?.scenarioId);
+  const handleScenarioChange = (id?: string) => {
+    const scenario = getScenario(id);
+    setScenarioId(scenario?.id);
+    if (scenario) {
+      setGameStartYear(scenario.startYear);
+      setGameDurationYears(scenario.durationYears);
+    } else {
+      setGameStartYear(VALID_START_YEAR_MIN);
+      setGameDurationYears(getTotalGameYears());
+    }
+  };
+
   // Refs for easier debugging / focusing
   const eventsSelectRef = React.useRef<HTMLSelectElement | null>(null);
 
   const isMultiplayerMode = !!onApply;
 
   const handleStartGame = () => {
-    // Use hard-coded categories (admin selection is ignored)
+    // Core categories are hard-coded; only the optional ones come from the admin
     const settings: AdminSettings = {
-      selectedCategories: HARDCODED_ENABLED_CATEGORIES,
+      selectedCategories: [...HARDCODED_ENABLED_CATEGORIES, ...optionalCategories],
       gameStartYear, // User-selected year (2000-2005)
       hideCurrentYear,
       initialPocketCash,
       recurringIncome,
       enableQuiz,
+      quizBonusCash,
       eventsCount,
-      monthDuration
+      monthDuration,
+      gameDurationYears,
+      taxSettings,
+      loanSettings,
+      scenarioId,
+      defaultLanguage
     };
 
     if (isMultiplayerMode && onApply) {
@@ -73,6 +112,12 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
     }
   };
 
+  const toggleOptionalCategory = (category: AssetCategory) => {
+    setOptionalCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
+  };
+
   const handleBack = () => {
     if (isMultiplayerMode && onClose) {
       onClose();
@@ -88,22 +133,25 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
         <p className="settings-subtitle">Customize Your Investment Journey</p>
 
         <div className="settings-section">
-          <h3>Asset Categories (Read-Only)</h3>
+          <h3>Asset Categories</h3>
           <p className="section-description">
-            The following asset categories are hard-coded and will unlock during the game.
-            This cannot be changed by admin settings.
+            The core asset categories are hard-coded and will unlock during the game.
+            Crypto and Forex are optional - click to include them.
           </p>
 
           <div className="category-grid">
-            {ASSET_CATEGORIES.map(category => (
+            {ASSET_CATEGORIES.map(category => {
+              const enabled = !category.optional || optionalCategories.includes(category.value);
+              return (
               <div
                 key={category.value}
-                className={`category-card ${category.enabled ? 'selected' : 'disabled'}`}
-                style={{ cursor: 'default', pointerEvents: 'none' }}
+                className={`category-card ${enabled ? 'selected' : 'disabled'}`}
+                style={category.optional ? { cursor: 'pointer' } : { cursor: 'default', pointerEvents: 'none' }}
+                onClick={category.optional ? () => toggleOptionalCategory(category.value) : undefined}
               >
                 <div className="category-header">
                   <h4>{category.label}</h4>
-                  {category.enabled && (
+                  {enabled && (
                     <span className="mandatory-badge" style={{
                       backgroundColor: '#2e7d32',
                       color: '#fff',
@@ -113,7 +161,7 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
                       marginLeft: '8px'
                     }}>Enabled</span>
                   )}
-                  {!category.enabled && category.disabledReason && (
+                  {!enabled && (
                     <span className="disabled-badge" style={{
                       backgroundColor: '#666',
                       color: '#fff',
@@ -121,22 +169,31 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
                       borderRadius: '4px',
                       fontSize: '0.7rem',
                       marginLeft: '8px'
-                    }}>{category.disabledReason}</span>
+                    }}>Optional</span>
                   )}
                 </div>
                 <p className="category-description">{category.description}</p>
                 <div className="category-checkbox">
-                  {category.enabled ? '✓' : '✗'}
+                  {enabled ? '✓' : '✗'}
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
         </div>
 
+        <div className="settings-section">
+          <h3>Historical Scenario</h3>
+          <p className="section-description">
+            Replay a famous market event with a fixed start date, a curated asset pool and period headlines.
+          </p>
+          <ScenarioSettingsFields value={scenarioId} onChange={handleScenarioChange} />
+        </div>
+
         <div className="settings-section">
           <h3>Game Timeline</h3>
           <p className="section-description">
-            Choose when your investment journey begins. The game spans 20 years.
+            Choose when your investment journey begins and how many years it spans.
           </p>
 
           <div className="financial-inputs">
@@ -146,16 +203,57 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
                 id="gameStartYear"
                 value={gameStartYear}
                 onChange={(e) => setGameStartYear(Number(e.target.value))}
+                disabled={!!scenarioId}
+                style={{ width: '100%', padding: '10px', fontSize: '1rem' }}
+              >
+                {scenarioId ? (
+                  <option value={gameStartYear}>{gameStartYear}</option>
+                ) : (
+                  Array.from(
+                    { length: VALID_START_YEAR_MAX - VALID_START_YEAR_MIN + 1 },
+                    (_, i) => VALID_START_YEAR_MIN + i
+                  ).map(year => (
+                    <option key={year} value={year}>{year}</option>
+                  ))
+                )}
+              </select>
+              <small>
+                {scenarioId ? 'Fixed by the selected scenario' : 'Select the calendar year when the game begins (2000-2005)'}
+              </small>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="gameDurationYears">Game Length (years)</label>
+              <select
+                id="gameDurationYears"
+                value={gameDurationYears}
+                onChange={(e) => setGameDurationYears(Number(e.target.value))}
+                disabled={!!scenarioId}
                 style={{ width: '100%', padding: '10px', fontSize: '1rem' }}
               >
                 {Array.from(
-                  { length: VALID_START_YEAR_MAX - VALID_START_YEAR_MIN + 1 },
-                  (_, i) => VALID_START_YEAR_MIN + i
-                ).map(year => (
-                  <option key={year} value={year}>{year}</option>
+                  { length: MAX_GAME_DURATION_YEARS - MIN_GAME_DURATION_YEARS + 1 },
+                  (_, i) => MIN_GAME_DURATION_YEARS + i
+                ).map(years => (
+                  <option key={years} value={years}>{years} years</option>
+                ))}
+              </select>
+              <small>Shorter games suit shorter sessions; later asset classes may not unlock</small>
+            </div>
+
+            <div className="input-group">
+              <label htmlFor="defaultLanguage">Room Language</label>
+              <select
+                id="defaultLanguage"
+                value={defaultLanguage}
+                onChange={(e) => setDefaultLanguage(e.target.value as Language)}
+                style={{ width: '100%', padding: '10px', fontSize: '1rem' }}
+              >
+                {LANGUAGE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
                 ))}
               </select>
-              <small>Select the calendar year when the game begins (2000-2005)</small>
+              <small>Players who haven't picked a language get quizzes and life events in this one</small>
             </div>
           </div>
         </div>
@@ -207,6 +305,24 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
               <small>Amount added to pocket cash every 6 months</small>
             </div>
 
+            <div className="input-group">
+              <label htmlFor="quizBonusCash">Quiz Bonus</label>
+              <div className="input-with-prefix">
+                <span className="currency-prefix">₹</span>
+                <input
+                  id="quizBonusCash"
+                  type="number"
+                  min="0"
+                  max="1000000"
+                  step="1000"
+                  value={quizBonusCash}
+                  disabled={!enableQuiz}
+                  onChange={(e) => setQuizBonusCash(Number(e.target.value))}
+                />
+              </div>
+              <small>Paid for a first-try quiz answer, less on retries (0 = no bonus)</small>
+            </div>
+
             <div className="input-group">
               <label htmlFor="eventsCount">Random Life Events</label>
               <select
@@ -238,6 +354,16 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
           </div>
         </div>
 
+        <div className="settings-section">
+          <h3>Taxes & Fees</h3>
+          <TaxSettingsFields value={taxSettings} onChange={setTaxSettings} />
+        </div>
+
+        <div className="settings-section">
+          <h3>Loans & Credit</h3>
+          <LoanSettingsFields value={loanSettings} onChange={setLoanSettings} />
+        </div>
+
         <div className="settings-section">
           <h3>Display Options</h3>
           <div className="option-row">
@@ -278,11 +404,11 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
             </div>
             <div className="info-item">
               <span className="info-label">Game End Year:</span>
-              <span className="info-value">{gameStartYear + 19}</span>
+              <span className="info-value">{gameStartYear + gameDurationYears - 1}</span>
             </div>
             <div className="info-item">
               <span className="info-label">Duration:</span>
-              <span className="info-value">20 Years</span>
+              <span className="info-value">{gameDurationYears} Years</span>
             </div>
           </div>
           <div className="info-note">
@@ -292,13 +418,16 @@ export const AdminSettingsPanel: React.FC<AdminSettingsPanelProps> = ({
               <li><strong>Year 2:</strong> Physical Gold (1 card)</li>
               <li><strong>Year 3:</strong> Commodities (1 random card)</li>
               <li><strong>Year 4:</strong> Stocks (3 cards - 2 random + 1 additional)</li>
+              <li><strong>Year 5:</strong> Bonds (1 card - G-Sec, RBI bond, AAA corporate)</li>
               <li><strong>Calendar 2009+:</strong> Index Funds (2 cards)</li>
               <li><strong>Calendar 2012+:</strong> Gold ETF (1 card)</li>
               <li><strong>Calendar 2017+:</strong> Mutual Funds (2 cards)</li>
               <li><strong>Calendar 2020+:</strong> REITs (1 card)</li>
+              {optionalCategories.includes('FOREX') && <li><strong>Calendar 2008+:</strong> Forex (2 currency pairs)</li>}
+              {optionalCategories.includes('CRYPTO') && <li><strong>Calendar 2014+:</strong> Crypto (BTC, then ETH at 2017)</li>}
             </ul>
             <p style={{ fontSize: '0.85rem', color: 'rgba(255, 255, 255, 0.7)', marginTop: '8px' }}>
-              Note: No new assets unlock in the last 3 game years (Years 18-20). CRYPTO and FOREX are disabled.
+              Note: No new assets unlock in the last 3 game years (Years {gameDurationYears - 2}-{gameDurationYears}). CRYPTO and FOREX are optional.
             </p>
           </div>
         </div>
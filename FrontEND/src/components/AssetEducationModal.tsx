@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { AssetEducationContent, QuizQuestion } from '../utils/assetEducation';
+import { QuizAttempt } from '../utils/quizScoring';
+import { useLanguage } from '../contexts/LanguageContext';
 import './AssetEducationModal.css';
 
 interface AssetEducationModalProps {
   isOpen: boolean;
   content: AssetEducationContent | null;
   questionIndex?: number; // Optional: specific question to show
-  onComplete: () => void;
+  onComplete: (attempt?: QuizAttempt) => void; // attempt is set once a quiz question is answered correctly
   showQuiz?: boolean; // If false, just show education content without quiz
+  checkAnswer?: (answerIndex: number) => Promise<boolean | null>; // Multiplayer: the server checks the answer (null = check locally)
 }
 
 export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
@@ -15,7 +18,8 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
   content,
   questionIndex,
   onComplete,
-  showQuiz = true // Default to showing quiz
+  showQuiz = true, // Default to showing quiz
+  checkAnswer
 }) => {
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
   const [attempts, setAttempts] = useState(0);
@@ -23,6 +27,10 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
   const [showHint, setShowHint] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
   const [selectedQuestionIndex, setSelectedQuestionIndex] = useState<number | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const answersRef = React.useRef<number[]>([]);
+  const openedAtRef = React.useRef(0);
+  const { t } = useLanguage();
 
   // Reset state when modal opens with new content
   useEffect(() => {
@@ -33,6 +41,9 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
     setIsShaking(false);
     setShowHint(false);
     setIsCorrect(false);
+    setIsChecking(false);
+    answersRef.current = [];
+    openedAtRef.current = Date.now();
 
     // Select question index only if quiz is enabled
     if (showQuiz) {
@@ -94,14 +105,24 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
     setSelectedOption(index);
   };
 
-  const handleSubmit = () => {
-    if (selectedOption === null || !currentQuestion) return;
+  const handleSubmit = async () => {
+    if (selectedOption === null || !currentQuestion || isChecking || isCorrect) return;
 
-    if (selectedOption === currentQuestion.correctAnswer) {
+    answersRef.current = [...answersRef.current, selectedOption];
+    setIsChecking(true);
+    const serverVerdict = checkAnswer ? await checkAnswer(selectedOption) : null;
+    setIsChecking(false);
+
+    if (serverVerdict ?? selectedOption === currentQuestion.correctAnswer) {
       // Correct answer!
       setIsCorrect(true);
+      const attempt: QuizAttempt = {
+        question: currentQuestion,
+        answers: answersRef.current,
+        timeTakenMs: Date.now() - openedAtRef.current
+      };
       setTimeout(() => {
-        onComplete();
+        onComplete(attempt);
       }, 1500);
     } else {
       // Wrong answer
@@ -121,14 +142,14 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
     }
   };
 
-  const optionLabels = ['A', 'B', 'C', 'D'];
+  const optionLabels = ['A', 'B', 'C', 'D', 'E', 'F'];
 
   return (
     <div className="education-modal-overlay">
       <div className={`education-modal ${isShaking ? 'shake' : ''} ${isCorrect ? 'correct' : ''}`}>
         <div className="education-header">
           <h2 className="education-title">{content.title}</h2>
-          <div className="unlock-badge">UNLOCKED</div>
+          <div className="unlock-badge">{t('education.unlocked')}</div>
         </div>
 
         <div className="education-content">
@@ -163,14 +184,14 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
             <button
               className="submit-btn"
               onClick={handleSubmit}
-              disabled={selectedOption === null}
+              disabled={selectedOption === null || isChecking}
             >
-              {isCorrect ? '✓ CORRECT!' : 'SUBMIT ANSWER'}
+              {isCorrect ? t('education.correct') : t('education.submit')}
             </button>
 
             {attempts > 0 && !isCorrect && (
               <div className="attempts-counter">
-                Attempts: {attempts}/3
+                {t('education.attempts', { count: attempts })}
               </div>
             )}
           </div>
@@ -179,13 +200,13 @@ export const AssetEducationModal: React.FC<AssetEducationModalProps> = ({
           <div className="notification-section">
             <div className="notification-icon">🎉</div>
             <p className="notification-text">
-              Check your new asset in the game!
+              {t('education.checkNewAsset')}
             </p>
             <p className="auto-close-text">
-              (Auto-closing in 5 seconds)
+              {t('education.autoClosing')}
             </p>
-            <button className="close-btn" onClick={onComplete}>
-              Close Now
+            <button className="close-btn" onClick={() => onComplete()}>
+              {t('education.closeNow')}
             </button>
           </div>
         )}
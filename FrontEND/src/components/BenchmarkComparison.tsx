@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { BenchmarkResult } from '../types';
+import './BenchmarkComparison.css';
+
+interface BenchmarkComparisonProps {
+  benchmarks: BenchmarkResult[];
+  playerNetworth: number;
+  playerCagr: number;
+}
+
+const BENCHMARK_COLORS: Record<BenchmarkResult['id'], string> = {
+  nifty: '#FF5722',
+  gold: '#FFB300',
+  fdLadder: '#2196F3',
+  balanced: '#9C27B0',
+};
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`;
+
+const formatCompact = (amount: number) => {
+  if (Math.abs(amount) >= 10000000) return `₹${(amount / 10000000).toFixed(1)}Cr`;
+  if (Math.abs(amount) >= 100000) return `₹${(amount / 100000).toFixed(1)}L`;
+  return `₹${(amount / 1000).toFixed(0)}K`;
+};
+
+export const BenchmarkComparison: React.FC<BenchmarkComparisonProps> = ({ benchmarks, playerNetworth, playerCagr }) => {
+  // One row per game year, one key per benchmark
+  const chartData = useMemo(() => {
+    const years = Math.max(0, ...benchmarks.map(b => b.yearEndValues.length));
+    return Array.from({ length: years }, (_, index) => {
+      const row: Record<string, number> = { year: index + 1 };
+      benchmarks.forEach(b => {
+        if (b.yearEndValues[index] !== undefined) row[b.id] = b.yearEndValues[index];
+      });
+      return row;
+    });
+  }, [benchmarks]);
+
+  if (benchmarks.length === 0) return null;
+
+  const beaten = benchmarks.filter(b => playerNetworth > b.finalValue).length;
+
+  return (
+    <div className="benchmark-comparison">
+      <h3>📏 You vs Passive Strategies</h3>
+      <p className="benchmark-summary">
+        Same money, same timing, no decisions. You beat {beaten} of {benchmarks.length} strategies.
+      </p>
+
+      <div className="benchmark-chart">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={chartData} margin={{ top: 10, right: 20, left: 10, bottom: 0 }}>
+            <XAxis dataKey="year" tickFormatter={(y) => `Y${y}`} fontSize={11} />
+            <YAxis tickFormatter={formatCompact} fontSize={11} width={60} />
+            <Tooltip
+              formatter={(value: number) => formatCurrency(value)}
+              labelFormatter={(y) => `End of Year ${y}`}
+            />
+            <Legend wrapperStyle={{ fontSize: '11px' }} />
+            {benchmarks.map(b => (
+              <Line
+                key={b.id}
+                type="monotone"
+                dataKey={b.id}
+                name={b.label}
+                stroke={BENCHMARK_COLORS[b.id]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+            <ReferenceLine
+              y={playerNetworth}
+              stroke="#138808"
+              strokeDasharray="6 3"
+              label={{ value: 'You', position: 'insideTopLeft', fill: '#138808', fontSize: 11 }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <table className="benchmark-table">
+        <thead>
+          <tr>
+            <th>Strategy</th>
+            <th>Final Value</th>
+            <th>CAGR</th>
+            <th>You vs It</th>
+          </tr>
+        </thead>
+        <tbody>
+          <tr className="benchmark-you">
+            <td>You</td>
+            <td>{formatCurrency(playerNetworth)}</td>
+            <td>{playerCagr.toFixed(2)}%</td>
+            <td>-</td>
+          </tr>
+          {benchmarks.map(b => {
+            const difference = playerNetworth - b.finalValue;
+            return (
+              <tr key={b.id}>
+                <td>
+                  <span className="benchmark-swatch" style={{ backgroundColor: BENCHMARK_COLORS[b.id] }} />
+                  {b.label}
+                </td>
+                <td>{formatCurrency(b.finalValue)}</td>
+                <td>{b.cagr.toFixed(2)}%</td>
+                <td className={difference >= 0 ? 'profit' : 'loss'}>
+                  {difference >= 0 ? '+' : '-'}{formatCurrency(Math.abs(difference))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
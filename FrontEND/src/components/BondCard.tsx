@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Bond, BondType } from '../types';
+import { formatIndianNumber } from '../utils/constants';
+import { BOND_TERMS, BOND_TYPES, MAX_BONDS, MIN_BOND_INVESTMENT, getBondYield, valueBond } from '../utils/bonds';
+import './AssetCard.css';
+import './StockTooltip.css';
+import './BondCard.css';
+import { ConfirmModal } from './ConfirmModal';
+
+interface BondCardProps {
+  bonds: Bond[];
+  pocketCash: number;
+  calendarYear: number;
+  currentYear: number;
+  currentMonth: number;
+  onBuy: (type: BondType, amount: number) => void;
+  onSell: (bondId: string) => void;
+}
+
+export const BondCard: React.FC<BondCardProps> = ({
+  bonds,
+  pocketCash,
+  calendarYear,
+  currentYear,
+  currentMonth,
+  onBuy,
+  onSell
+}) => {
+  const [showInput, setShowInput] = useState(false);
+  const [inputAmount, setInputAmount] = useState('');
+  const [bondType, setBondType] = useState<BondType>('gsec');
+  const [isShaking, setIsShaking] = useState(false);
+  const [bondToSell, setBondToSell] = useState<Bond | null>(null);
+
+  // Trigger shake animation
+  const triggerShake = () => {
+    setIsShaking(true);
+    setTimeout(() => setIsShaking(false), 500);
+  };
+
+  const handleBuy = () => {
+    const amount = parseFloat(inputAmount);
+    if (isNaN(amount) || amount < MIN_BOND_INVESTMENT || amount > pocketCash) {
+      triggerShake();
+      return;
+    }
+
+    onBuy(bondType, amount);
+    setShowInput(false);
+    setInputAmount('');
+  };
+
+  const handleConfirmSell = () => {
+    if (bondToSell) {
+      onSell(bondToSell.id);
+    }
+    setBondToSell(null);
+  };
+
+  return (
+    <div className={`asset-card fd-card bond-card ${isShaking ? 'shake' : ''}`}>
+      <div className="asset-tooltip-wrapper">
+        <h3 className="card-title">BONDS</h3>
+        <div className="asset-tooltip">
+          <div className="tooltip-full-name">Bonds & Government Securities</div>
+          <div className="tooltip-sector">Fixed Income</div>
+          <div className="tooltip-description">Lend to the government or a top-rated company and earn a fixed coupon every 6 months, with your money back at maturity. Bond prices fall when yields rise and rise when yields fall</div>
+        </div>
+      </div>
+
+      <div className="fd-rates">
+        {BOND_TYPES.map(type => (
+          <div key={type} className="rate-item">
+            <span className="rate-label">{BOND_TERMS[type].label}</span>
+            <span className="rate-value">{getBondYield(type, calendarYear, currentMonth).toFixed(2)}%</span>
+          </div>
+        ))}
+      </div>
+
+      {bonds.length < MAX_BONDS && !showInput && (
+        <button className="action-button create-fd-btn" onClick={() => setShowInput(true)}>
+          Buy Bond
+        </button>
+      )}
+
+      {showInput && (
+        <div className="input-section">
+          <div className="duration-selector">
+            {BOND_TYPES.map(type => (
+              <button
+                key={type}
+                className={`duration-btn ${bondType === type ? 'active' : ''}`}
+                onClick={() => setBondType(type)}
+              >
+                {BOND_TERMS[type].label}
+              </button>
+            ))}
+          </div>
+
+          <div className="bond-note">
+            {BOND_TERMS[bondType].description} · Min ₹{formatIndianNumber(MIN_BOND_INVESTMENT)}
+          </div>
+
+          <div className="input-container">
+            <input
+              type="number"
+              className="amount-input"
+              value={inputAmount}
+              onChange={(e) => setInputAmount(e.target.value)}
+              placeholder="Enter amount"
+            />
+            <button className="max-button" onClick={() => setInputAmount(Math.max(0, Math.floor(pocketCash)).toString())}>
+              MAX
+            </button>
+          </div>
+
+          <div className="button-group">
+            <button className="action-button confirm-btn" onClick={handleBuy}>
+              Buy
+            </button>
+            <button className="action-button cancel-btn" onClick={() => setShowInput(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="fd-list">
+        {bonds.map(bond => {
+          const { tenureMonths, tradeable, label } = BOND_TERMS[bond.type];
+          const monthsHeld = (currentYear - bond.startYear) * 12 + (currentMonth - bond.startMonth);
+          const progressPercentage = Math.min((monthsHeld / tenureMonths) * 100, 100);
+          const value = valueBond(bond, currentYear, currentMonth);
+          const pnl = value - bond.faceValue;
+
+          return (
+            <div key={bond.id} className="fd-item bond-item">
+              <div className="fd-progress-bar">
+                <div
+                  className="fd-progress-fill"
+                  style={{ width: `${progressPercentage}%` }}
+                />
+              </div>
+              <div className="fd-info">
+                <span>₹{formatIndianNumber(value)}</span>
+                <span className="fd-duration-responsive">{label}</span>
+                <span className="fd-rate-responsive">{bond.couponRate.toFixed(2)}%</span>
+                {tradeable && (
+                  <div className={`fd-pnl ${pnl >= 0 ? 'positive' : 'negative'}`}>
+                    {pnl >= 0 ? '+' : ''}₹{formatIndianNumber(pnl)}
+                  </div>
+                )}
+                {tradeable ? (
+                  <button className="collect-btn" onClick={() => setBondToSell(bond)}>
+                    Sell
+                  </button>
+                ) : (
+                  <span className="bond-maturity">Y{bond.maturityYear} M{bond.maturityMonth}</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {bonds.length >= MAX_BONDS && (
+        <div className="max-fd-notice">Maximum {MAX_BONDS} bonds reached</div>
+      )}
+
+      <ConfirmModal
+        isOpen={bondToSell !== null}
+        title="Sell Bond?"
+        message={bondToSell ? `Sell this bond at its market value of ₹${formatIndianNumber(valueBond(bondToSell, currentYear, currentMonth))}? You will stop receiving its coupons.` : ''}
+        onConfirm={handleConfirmSell}
+        onCancel={() => setBondToSell(null)}
+      />
+    </div>
+  );
+};
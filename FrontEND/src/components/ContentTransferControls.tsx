@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ApiResponse, TransferFormat } from '../services/adminApi';
+import './ContentTransferControls.css';
+
+interface ContentTransferControlsProps {
+  fileName: string; // Download name without the extension
+  replaceLabel: string;
+  onExport: (format: TransferFormat) => Promise<{ success: boolean; content?: string; message?: string }>;
+  onImport: (format: TransferFormat, content: string, replace: boolean) => Promise<ApiResponse>;
+  onImported: () => void;
+}
+
+// JSON/CSV import and export shared by the admin content editors
+export const ContentTransferControls: React.FC<ContentTransferControlsProps> = ({
+  fileName,
+  replaceLabel,
+  onExport,
+  onImport,
+  onImported,
+}) => {
+  const [format, setFormat] = useState<TransferFormat>('json');
+  const [replace, setReplace] = useState(false);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async () => {
+    setBusy(true);
+    const response = await onExport(format);
+    setBusy(false);
+    if (!response.success || response.content === undefined) {
+      setMessage(response.message || 'Export failed');
+      return;
+    }
+
+    const blob = new Blob([response.content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    setMessage('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const fileFormat: TransferFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    if (replace && !confirm(`${replaceLabel} before importing ${file.name}?`)) {
+      return;
+    }
+
+    setBusy(true);
+    const response = await onImport(fileFormat, await file.text(), replace);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      onImported();
+    }
+  };
+
+  return (
+    <div className="content-transfer">
+      <div className="content-transfer-row">
+        <select value={format} onChange={(e) => setFormat(e.target.value as TransferFormat)}>
+          <option value="json" style={{ color: '#000' }}>JSON</option>
+          <option value="csv" style={{ color: '#000' }}>CSV</option>
+        </select>
+        <button type="button" onClick={handleExport} disabled={busy}>Export</button>
+        <label className="content-transfer-import">
+          Import file
+          <input type="file" accept=".json,.csv" onChange={handleFile} disabled={busy} />
+        </label>
+      </div>
+      <label className="tax-settings-toggle">
+        <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+        <span>{replaceLabel} on import</span>
+      </label>
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { fdRatesApi, FDRateRow } from '../services/adminApi';
+import { formatFDTenure } from '../utils/fdRates';
+import './TaxSettingsFields.css';
+import './FDRatesEditor.css';
+
+// Rates are saved straight to the fd_rates table, independent of the Save Settings button
+export const FDRatesEditor: React.FC = () => {
+  const [rows, setRows] = useState<FDRateRow[]>([]);
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [form, setForm] = useState<FDRateRow>({ year: new Date().getFullYear(), tenureMonths: 12, rate: 7 });
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadRates = async () => {
+    const response = await fdRatesApi.getRates();
+    if (response.success && response.rates) {
+      setRows(response.rates);
+    } else {
+      setMessage(response.message || 'Failed to load FD rates');
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const years = Array.from(new Set(rows.map(row => row.year))).sort((a, b) => b - a);
+  const year = selectedYear ?? years[0];
+  const yearRows = rows.filter(row => row.year === year);
+
+  const handleSave = async () => {
+    setBusy(true);
+    const response = await fdRatesApi.saveRate(form);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      setSelectedYear(form.year);
+      await loadRates();
+    }
+  };
+
+  const handleDelete = async (row: FDRateRow) => {
+    if (!confirm(`Delete the ${formatFDTenure(row.tenureMonths)} rate for ${row.year}?`)) {
+      return;
+    }
+    setBusy(true);
+    const response = await fdRatesApi.deleteRate(row.year, row.tenureMonths);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      await loadRates();
+    }
+  };
+
+  return (
+    <div className="tax-settings-fields">
+      {years.length > 0 && (
+        <label className="tax-settings-field">
+          <span>Year</span>
+          <select value={year} onChange={(e) => setSelectedYear(Number(e.target.value))}>
+            {years.map(y => (
+              <option key={y} value={y} style={{ color: '#000' }}>{y}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="fd-rates-editor-list">
+        {yearRows.map(row => (
+          <div key={row.tenureMonths} className="fd-rates-editor-row">
+            <span>{formatFDTenure(row.tenureMonths)}</span>
+            <span>{row.rate.toFixed(2)}% PA</span>
+            <button type="button" onClick={() => setForm(row)} disabled={busy}>Edit</button>
+            <button type="button" onClick={() => handleDelete(row)} disabled={busy}>Delete</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="tax-settings-grid">
+        <label className="tax-settings-field">
+          <span>Year</span>
+          <input
+            type="number"
+            min={1900}
+            max={2100}
+            value={form.year}
+            onChange={(e) => setForm({ ...form, year: Math.round(Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label className="tax-settings-field">
+          <span>Tenure (months)</span>
+          <input
+            type="number"
+            min={1}
+            max={120}
+            value={form.tenureMonths}
+            onChange={(e) => setForm({ ...form, tenureMonths: Math.round(Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label className="tax-settings-field">
+          <span>Rate % PA</span>
+          <input
+            type="number"
+            min={0}
+            max={30}
+            step={0.05}
+            value={form.rate}
+            onChange={(e) => setForm({ ...form, rate: Number(e.target.value) || 0 })}
+          />
+        </label>
+      </div>
+
+      <button type="button" className="fd-rates-editor-save" onClick={handleSave} disabled={busy}>
+        {busy ? 'Saving...' : 'Save FD Rate'}
+      </button>
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+      <p className="fd-rates-editor-message">
+        A tenure keeps its rate in later years until another year overrides it.
+      </p>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { FixedDeposit } from '../types';
 import { formatIndianNumber } from '../utils/constants';
+import { formatFDTenure } from '../utils/fdRates';
 import './AssetCard.css';
 import './StockTooltip.css';
 import { ConfirmModal } from './ConfirmModal';
@@ -8,10 +9,10 @@ import { ConfirmModal } from './ConfirmModal';
 interface FixedDepositCardProps {
   fixedDeposits: FixedDeposit[];
   pocketCash: number;
-  currentRates: { oneYear: number; twoYear: number; threeYear: number };
+  currentRates: { [tenureMonths: number]: number };
   currentYear: number;
   currentMonth: number;
-  onCreate: (amount: number, duration: 12 | 24 | 36, rate: number) => void;
+  onCreate: (amount: number, duration: number, rate: number) => void;
   onCollect: (fdId: string) => void;
   onBreak: (fdId: string) => void;
 }
@@ -49,12 +50,15 @@ export const FixedDepositCard: React.FC<FixedDepositCardProps> = ({
   };
   const [showInput, setShowInput] = useState(false);
   const [inputAmount, setInputAmount] = useState('');
-  const [selectedDuration, setSelectedDuration] = useState<12 | 24 | 36>(12);
+  const [selectedDuration, setSelectedDuration] = useState<number>(12);
   const [isShaking, setIsShaking] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [fdToBreak, setFdToBreak] = useState<string | null>(null);
   const [isMaxClicked, setIsMaxClicked] = useState(false);
 
+  // Standard 12/24/36 tenures plus any custom ones the admin has added, shortest first
+  const tenures = Object.keys(currentRates).map(Number).sort((a, b) => a - b);
+
   // Trigger shake animation
   const triggerShake = () => {
     setIsShaking(true);
@@ -79,10 +83,8 @@ export const FixedDepositCard: React.FC<FixedDepositCardProps> = ({
       return;
     }
 
-    const rate =
-      selectedDuration === 12 ? currentRates.oneYear :
-        selectedDuration === 24 ? currentRates.twoYear :
-          currentRates.threeYear;
+    const rate = currentRates[selectedDuration];
+    if (rate === undefined) return;
 
     onCreate(Math.min(actualAmount, pocketCash), selectedDuration, rate);
     setShowInput(false);
@@ -126,18 +128,12 @@ export const FixedDepositCard: React.FC<FixedDepositCardProps> = ({
       </div>
 
       <div className="fd-rates">
-        <div className="rate-item">
-          <span className="rate-label">1Yr</span>
-          <span className="rate-value">{currentRates.oneYear.toFixed(1)}% PA</span>
-        </div>
-        <div className="rate-item">
-          <span className="rate-label">2Yr</span>
-          <span className="rate-value">{currentRates.twoYear.toFixed(1)}% PA</span>
-        </div>
-        <div className="rate-item">
-          <span className="rate-label">3Yr</span>
-          <span className="rate-value">{currentRates.threeYear.toFixed(1)}% PA</span>
-        </div>
+        {tenures.map(tenure => (
+          <div key={tenure} className="rate-item">
+            <span className="rate-label">{formatFDTenure(tenure)}</span>
+            <span className="rate-value">{currentRates[tenure].toFixed(1)}% PA</span>
+          </div>
+        ))}
       </div>
 
       {fixedDeposits.length < 3 && !showInput && (
@@ -160,24 +156,15 @@ export const FixedDepositCard: React.FC<FixedDepositCardProps> = ({
       {showInput && (
         <div className="input-section">
           <div className="duration-selector">
-            <button
-              className={`duration-btn ${selectedDuration === 12 ? 'active' : ''}`}
-              onClick={() => setSelectedDuration(12)}
-            >
-              1 Yr
-            </button>
-            <button
-              className={`duration-btn ${selectedDuration === 24 ? 'active' : ''}`}
-              onClick={() => setSelectedDuration(24)}
-            >
-              2 Yr
-            </button>
-            <button
-              className={`duration-btn ${selectedDuration === 36 ? 'active' : ''}`}
-              onClick={() => setSelectedDuration(36)}
-            >
-              3 Yr
-            </button>
+            {tenures.map(tenure => (
+              <button
+                key={tenure}
+                className={`duration-btn ${selectedDuration === tenure ? 'active' : ''}`}
+                onClick={() => setSelectedDuration(tenure)}
+              >
+                {formatFDTenure(tenure)}
+              </button>
+            ))}
           </div>
 
           <div className="input-container">
@@ -233,7 +220,7 @@ export const FixedDepositCard: React.FC<FixedDepositCardProps> = ({
               </div>
               <div className="fd-info">
                 <span>₹{formatIndianNumber(fd.amount)}</span>
-                <span className="fd-duration-responsive">{fd.duration === 12 ? '1Yr' : fd.duration === 24 ? '2Yr' : '3Yr'}</span>
+                <span className="fd-duration-responsive">{formatFDTenure(fd.duration)}</span>
                 <span className="fd-rate-responsive">{fd.interestRate}%PA</span>
                 <div className="fd-pnl" style={{ color: pnl >= 0 ? '#288d00ff' : 'rgba(175, 1, 1, 1)' }}>
                   {pnl >= 0 ? '+' : ''}₹{formatIndianNumber(pnl)} ({pnl >= 0 ? '+' : ''}{pnlPercentage.toFixed(1)}%)
@@ -1,12 +1,19 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import './GameEndScreen.css';
-import { GameState } from '../types';
+import { GameState, BenchmarkResult, QuizResult } from '../types';
 import { calculateTotalCapital, calculateCAGR, calculateNetworthWithPrices, calculatePortfolioBreakdownWithPrices } from '../utils/networthCalculator';
 import { playerLogsApi } from '../services/adminApi';
 import { AIReportModal } from './AIReportModal';
 import { tradeTracker } from '../utils/tradeTracker';
 import { extractHoldingsDataWithPrices } from '../utils/holdingsExtractor';
 import { usePrices } from '../hooks/usePrices';
+import { getTotalGameYears } from '../utils/constants';
+import { getBondsInvested } from '../utils/bonds';
+import { getInflationFactor } from '../utils/inflation';
+import { useCPISeries } from '../hooks/useCPISeries';
+import { BenchmarkComparison } from './BenchmarkComparison';
+import { getGameStartMonth, hasReachedGameEnd } from '../utils/scenarios';
+import { summarizeQuizResults } from '../utils/quizScoring';
 
 interface GameEndScreenProps {
   gameState: GameState;
@@ -30,6 +37,11 @@ interface GameEndScreenProps {
   playerAge?: number;
   roomId?: string;
   onFinalNetworthSync?: (networth: number, portfolioBreakdown: any) => void;
+  quizStandings?: Array<{
+    playerId: string;
+    playerName: string;
+    results: QuizResult[];
+  }>;
 }
 
 const GameEndScreen: React.FC<GameEndScreenProps> = ({
@@ -42,6 +54,7 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
   playerAge,
   roomId,
   onFinalNetworthSync,
+  quizStandings,
 }) => {
   // Use prices for final calculations
   // CRITICAL: Use the same price source as in-game calculations
@@ -58,6 +71,7 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
   const [loggedGameId, setLoggedGameId] = useState<number | null>(null);
   const [loggedGameUniqueId, setLoggedGameUniqueId] = useState<string | null>(null);
   const hasLoggedRef = useRef(false); // Prevent double logging
+  const [benchmarks, setBenchmarks] = useState<BenchmarkResult[]>([]);
 
   const getAssetCategoryColor = (category: string): string => {
     const colors: { [key: string]: string } = {
@@ -72,6 +86,8 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
       indexFund: '#00BCD4',
       mutualFund: '#3F51B5',
       reits: '#FF9800',
+      forex: '#009688',
+      bonds: '#607D8B',
       savings: '#4CAF50',
     };
     return colors[category] || '#138808';
@@ -94,6 +110,8 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
       crypto: Object.values(holdings.crypto).reduce((sum, h) => sum + h.totalInvested, 0),
       commodities: holdings.commodity.totalInvested,
       reits: Object.values(holdings.reits).reduce((sum, h) => sum + h.totalInvested, 0),
+      forex: Object.values(holdings.forex || {}).reduce((sum, h) => sum + h.totalInvested, 0),
+      bonds: getBondsInvested(gameState.bonds),
     };
   };
 
@@ -104,8 +122,17 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
   );
   const profit = finalNetworth - totalCapital;
   const profitPercentage = ((profit / totalCapital) * 100).toFixed(2);
-  const years = gameState.currentYear; // Total years in game
-  const cagr = calculateCAGR(totalCapital, finalNetworth, years).toFixed(2);
+  const years = getTotalGameYears(gameState.adminSettings); // Total years in game
+  const gameStartMonth = getGameStartMonth(gameState.adminSettings);
+  const yearsPlayed = years; // Scenarios opening mid-year still run the full length
+  const cagr = calculateCAGR(totalCapital, finalNetworth, yearsPlayed).toFixed(2);
+
+  // Real (inflation-adjusted) results, in rupees of the game's first month
+  const cpiSeries = useCPISeries();
+  const gameStartYear = gameState.adminSettings?.gameStartYear || 2005;
+  const inflationFactor = getInflationFactor(cpiSeries, gameStartYear, gameStartMonth, calendarYear, gameState.currentMonth);
+  const realNetworth = finalNetworth / inflationFactor;
+  const realCagr = calculateCAGR(totalCapital, realNetworth, yearsPlayed).toFixed(2);
   const breakdown = useMemo(
     () => {
       const result = calculatePortfolioBreakdownWithPrices(gameState, getPrice);
@@ -113,10 +140,10 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
       // Debug: Check if breakdown appears corrupted
       const totalAssets = Object.values(result).reduce((sum, val) => sum + val, 0);
       const nonCashAssets = Object.entries(result)
-        .filter(([key]) => key !== 'cash' && key !== 'savings')
+        .filter(([key]) => key !== 'cash' && key !== 'savings' && key !== 'loans')
         .reduce((sum, [, val]) => sum + val, 0);
 
-      if (isMultiplayer && gameState.currentYear >= 20 && nonCashAssets === 0 && totalAssets > 0) {
+      if (isMultiplayer && gameState.currentYear >= years && nonCashAssets === 0 && totalAssets > 0) {
         console.warn('⚠️ Potential state corruption detected in breakdown calculation:', {
           breakdown: result,
           gameYear: gameState.currentYear,
@@ -135,6 +162,34 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
   );
   const investedBreakdown = getInvestedBreakdown();
 
+  const quizSummary = summarizeQuizResults(gameState.quizResults);
+  const quizLeaderboard = useMemo(
+    () => (quizStandings || [])
+      .map(player => ({ ...player, summary: summarizeQuizResults(player.results) }))
+      .filter(player => player.summary.quizzes > 0)
+      .sort((a, b) => b.summary.points - a.summary.points || b.summary.firstTry - a.summary.firstTry),
+    [quizStandings]
+  );
+
+  // Replay the same cash flows through passive strategies (only once)
+  const hasFetchedBenchmarksRef = useRef(false);
+  useEffect(() => {
+    if (hasFetchedBenchmarksRef.current || !gameState.adminSettings) return;
+    hasFetchedBenchmarksRef.current = true;
+
+    const lifeEvents = (gameState.cashTransactions || [])
+      .filter(tx => tx.type === 'life_event_gain' || tx.type === 'life_event_loss')
+      .map(tx => ({ gameYear: tx.gameYear, gameMonth: tx.gameMonth, amount: tx.amount }));
+
+    playerLogsApi.getBenchmarks({ adminSettings: gameState.adminSettings, lifeEvents }).then(response => {
+      if (response.success && response.benchmarks) {
+        setBenchmarks(response.benchmarks);
+      } else {
+        console.warn('⚠️ Benchmarks unavailable:', response.message);
+      }
+    });
+  }, [gameState.adminSettings, gameState.cashTransactions]);
+
   // Sync final networth to server for multiplayer (only once)
   const hasSyncedRef = useRef(false);
   useEffect(() => {
@@ -180,12 +235,14 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
         Object.values(gameState.holdings.indexFund).some((h: any) => h.quantity > 0) ||
         Object.values(gameState.holdings.mutualFund).some((h: any) => h.quantity > 0) ||
         Object.values(gameState.holdings.stocks).some((h: any) => h.quantity > 0) ||
+        Object.values(gameState.holdings.crypto).some((h: any) => h.quantity > 0) ||
         gameState.holdings.commodity.quantity > 0 ||
-        Object.values(gameState.holdings.reits).some((h: any) => h.quantity > 0);
+        Object.values(gameState.holdings.reits).some((h: any) => h.quantity > 0) ||
+        Object.values(gameState.holdings.forex || {}).some((h: any) => h.quantity > 0);
 
       // Validate portfolio breakdown before logging
       const totalAssetsExcludingCash = Object.entries(breakdown)
-        .filter(([key]) => key !== 'cash' && key !== 'savings')
+        .filter(([key]) => key !== 'cash' && key !== 'savings' && key !== 'loans')
         .reduce((sum, [, value]) => sum + value, 0);
 
       const totalNetworth = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
@@ -205,7 +262,7 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
           const retryBreakdown = calculatePortfolioBreakdownWithPrices(gameState, getPrice);
           const retryNetworth = calculateNetworthWithPrices(gameState, getPrice);
           const retryAssetsExcludingCash = Object.entries(retryBreakdown)
-            .filter(([key]) => key !== 'cash' && key !== 'savings')
+            .filter(([key]) => key !== 'cash' && key !== 'savings' && key !== 'loans')
             .reduce((sum, [, value]) => sum + value, 0);
 
           if (retryAssetsExcludingCash === 0) {
@@ -220,9 +277,9 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
         return;
       }
 
-      // STRICTER VALIDATION: If we're in multiplayer and game is ending after 20 years,
+      // STRICTER VALIDATION: If we're in multiplayer and game is ending after the final year,
       // but player has NO holdings at all (not just 0 values), the state is corrupted
-      const isEndGame = gameState.currentYear >= 20 && gameState.currentMonth >= 12;
+      const isEndGame = hasReachedGameEnd(gameState.adminSettings, gameState.currentYear, gameState.currentMonth);
       if (isMultiplayer && isEndGame && !hasActualHoldings && totalNetworth < 100000) {
         console.error('❌ Skipping database log: Invalid end-game state - player has no holdings', {
           finalNetworth,
@@ -279,6 +336,8 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
         portfolioBreakdown: breakdown,
         adminSettings: gameState.adminSettings,
         gameDurationMinutes: gameDuration,
+        // Multiplayer quizzes are scored and stored by the server as they are answered
+        quizResults: isMultiplayer ? undefined : gameState.quizResults,
       }).then(async response => {
         if (response.success) {
           setLoggedGameId(response.logId !== undefined ? response.logId : null);
@@ -314,7 +373,7 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
       <div className="end-screen-content">
         <div className="game-complete-header">
           <h1>🎉 GAME COMPLETE! 🎉</h1>
-          <p className="completion-text">20 Years Journey Completed</p>
+          <p className="completion-text">{years} Years Journey Completed</p>
         </div>
 
         {!isMultiplayer ? (
@@ -336,6 +395,15 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
                 <span className="cagr-label">CAGR:</span>
                 <span className="cagr-value">{cagr}%</span>
               </div>
+              {cpiSeries.length > 0 && (
+                <div
+                  className="cagr-display real-display"
+                  title={`Prices rose ${((inflationFactor - 1) * 100).toFixed(0)}% during the game - shown in ${gameStartYear} rupees`}
+                >
+                  <span className="cagr-label">After Inflation:</span>
+                  <span className="cagr-value">{formatCurrency(realNetworth)} ({realCagr}% CAGR)</span>
+                </div>
+              )}
 
 
               <div className="total-received" title="Host-controlled: initial pocket cash + recurring income">
@@ -343,6 +411,18 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
               </div>
             </div>
 
+            {quizSummary.quizzes > 0 && (
+              <div className="quiz-score-card">
+                <h3>🧠 Quiz Score</h3>
+                <div className="quiz-score-points">{quizSummary.points} / {quizSummary.maxPoints} pts</div>
+                <div className="quiz-score-details">
+                  <span>{quizSummary.firstTry} of {quizSummary.quizzes} right on the first try</span>
+                  {quizSummary.bonusCash > 0 && <span>Bonus earned: {formatCurrency(quizSummary.bonusCash)}</span>}
+                  {quizSummary.averageTimeSeconds !== null && <span>Avg. time: {quizSummary.averageTimeSeconds.toFixed(1)}s</span>}
+                </div>
+              </div>
+            )}
+
             <div className="portfolio-breakdown-card">
               <div
                 className="portfolio-header-clickable"
@@ -405,6 +485,8 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
                 })}
               </div>
             </div>
+
+            <BenchmarkComparison benchmarks={benchmarks} playerNetworth={finalNetworth} playerCagr={parseFloat(cagr)} />
           </div>
         ) : (
           /* MULTIPLAYER MODE - Show leaderboard with personal stats */
@@ -426,11 +508,34 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
                 <span className="cagr-label">CAGR:</span>
                 <span className="cagr-value">{cagr}%</span>
               </div>
+              {cpiSeries.length > 0 && (
+                <div
+                  className="cagr-display real-display"
+                  title={`Prices rose ${((inflationFactor - 1) * 100).toFixed(0)}% during the game - shown in ${gameStartYear} rupees`}
+                >
+                  <span className="cagr-label">After Inflation:</span>
+                  <span className="cagr-value">{formatCurrency(realNetworth)} ({realCagr}% CAGR)</span>
+                </div>
+              )}
               <div className="total-received" title="Host-controlled: initial pocket cash + recurring income">
                 Total Capital Received: {formatCurrency(gameState.pocketCashReceivedTotal || 0)}
               </div>
             </div>
 
+            {quizSummary.quizzes > 0 && (
+              <div className="quiz-score-card">
+                <h3>🧠 Quiz Score</h3>
+                <div className="quiz-score-points">{quizSummary.points} / {quizSummary.maxPoints} pts</div>
+                <div className="quiz-score-details">
+                  <span>{quizSummary.firstTry} of {quizSummary.quizzes} right on the first try</span>
+                  {quizSummary.bonusCash > 0 && <span>Bonus earned: {formatCurrency(quizSummary.bonusCash)}</span>}
+                  {quizSummary.averageTimeSeconds !== null && <span>Avg. time: {quizSummary.averageTimeSeconds.toFixed(1)}s</span>}
+                </div>
+              </div>
+            )}
+
+            <BenchmarkComparison benchmarks={benchmarks} playerNetworth={finalNetworth} playerCagr={parseFloat(cagr)} />
+
             <h2>🏆 Final Leaderboard</h2>
             <div className="leaderboard-table">
               {leaderboardData && leaderboardData.length > 0 ? (
@@ -448,6 +553,9 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
                           {player.playerName}
                         </div>
                         <div className="player-networth">{formatCurrency(player.networth)}</div>
+                        {cpiSeries.length > 0 && (
+                          <div className="player-networth-real">{formatCurrency(player.networth / inflationFactor)} real</div>
+                        )}
                       </div>
                       {player.portfolioBreakdown && Object.keys(player.portfolioBreakdown).length > 0 ? (
                         <div className="player-breakdown-mini">
@@ -481,6 +589,25 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
                 </div>
               )}
             </div>
+
+            {quizLeaderboard.length > 0 && (
+              <>
+                <h2>🧠 Quiz Leaderboard</h2>
+                <div className="quiz-leaderboard">
+                  {quizLeaderboard.map((player, index) => (
+                    <div key={player.playerId} className="quiz-leaderboard-row">
+                      <span className="quiz-rank">#{index + 1}</span>
+                      <span className="quiz-player-name">{player.playerName}</span>
+                      <span className="quiz-player-points">{player.summary.points} pts</span>
+                      <span className="quiz-player-detail">
+                        {player.summary.firstTry}/{player.summary.quizzes} first try
+                        {player.summary.averageTimeSeconds !== null && ` · ${player.summary.averageTimeSeconds.toFixed(1)}s avg`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         )}
 
@@ -518,6 +645,9 @@ const GameEndScreen: React.FC<GameEndScreenProps> = ({
         finalNetworth={finalNetworth}
         cagr={parseFloat(cagr)}
         profitLoss={profit}
+        realNetworth={cpiSeries.length > 0 ? realNetworth : undefined}
+        realCagr={cpiSeries.length > 0 ? parseFloat(realCagr) : undefined}
+        benchmarks={benchmarks}
       />
     </div>
   );
@@ -1,4 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { MessageKey } from '../utils/i18n';
 import './GameIntroPopup.css';
 
 interface GameIntroPopupProps {
@@ -14,15 +16,15 @@ interface GameIntroPopupProps {
 
 interface IntroSlide {
   id: number;
-  title: string;
-  description: string;
+  titleKey: MessageKey;
+  descriptionKey: MessageKey;
   image?: string;
   imageAlt?: string;
   // Support for multiple images displayed side by side
   images?: Array<{
     src: string;
     alt: string;
-    label?: string;
+    labelKey?: MessageKey;
     orientation?: 'horizontal' | 'vertical'; // horizontal = landscape, vertical = portrait
   }>;
 }
@@ -30,8 +32,8 @@ interface IntroSlide {
 const introSlides: IntroSlide[] = [
   {
     id: 1,
-    title: 'Welcome to Bull Run!',
-    description: 'Your journey to financial mastery begins. Invest wisely across multiple asset classes and build the highest net worth in 20 game years.',
+    titleKey: 'intro.welcome.title',
+    descriptionKey: 'intro.welcome.description',
     images: [
       {
         src: '/intro/Main_Game_Screen.png',
@@ -42,8 +44,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 2,
-    title: 'Track Your Income',
-    description: 'Monitor your cash flow with detailed breakdowns. You receive recurring income every 6 months - watch your wealth grow over time!',
+    titleKey: 'intro.income.title',
+    descriptionKey: 'intro.income.description',
     images: [
       {
         src: '/intro/Income_Track.png',
@@ -54,8 +56,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 3,
-    title: 'Learn About Assets',
-    description: 'Hover over any asset to learn about the company, its sector, and what it does. Knowledge is power in investing!',
+    titleKey: 'intro.assets.title',
+    descriptionKey: 'intro.assets.description',
     images: [
       {
         src: '/intro/AssetInformation.png',
@@ -66,8 +68,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 4,
-    title: 'Track Your Investments',
-    description: 'See your invested amount, average purchase price, and profit/loss for each asset. Make informed decisions!',
+    titleKey: 'intro.investments.title',
+    descriptionKey: 'intro.investments.description',
     images: [
       {
         src: '/intro/AVGandP&L.png',
@@ -78,8 +80,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 5,
-    title: 'Portfolio Breakdown',
-    description: 'View your complete portfolio composition and CAGR (Compound Annual Growth Rate). Diversification is key to success!',
+    titleKey: 'intro.portfolio.title',
+    descriptionKey: 'intro.portfolio.description',
     images: [
       {
         src: '/intro/PortfolioBreakdown.png',
@@ -90,8 +92,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 6,
-    title: 'Test Your Knowledge',
-    description: 'When new asset classes unlock, a quiz will appear. Answer correctly to continue in game! Learning pays off in Bull Run.',
+    titleKey: 'intro.quiz.title',
+    descriptionKey: 'intro.quiz.description',
     images: [
       {
         src: '/intro/Quiz.png',
@@ -102,27 +104,27 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 7,
-    title: 'Life Events',
-    description: 'Life events are randomly generated for all players. Each player, in every session, will experience unique life events at different in-game years. Life is not linear—you will face both ups and downs, just like in real life!',
+    titleKey: 'intro.lifeEvents.title',
+    descriptionKey: 'intro.lifeEvents.description',
     images: [
       {
         src: '/intro/Positive_Event.png',
         alt: 'Positive Life Event',
-        label: 'Positive Life Event',
+        labelKey: 'intro.lifeEvents.positive',
         orientation: 'vertical'
       },
       {
         src: '/intro/NegetiveEvent.png',
         alt: 'Negative Life Event',
-        label: 'Negative Life Event',
+        labelKey: 'intro.lifeEvents.negative',
         orientation: 'vertical'
       }
     ]
   },
   {
     id: 8,
-    title: 'Debt & Purchase Restrictions',
-    description: 'If you don\'t have enough pocket cash to handle a life event, you fall into debt. While in debt, buying and investing actions are locked. Your top priority becomes clearing the debt before any further purchases are allowed!',
+    titleKey: 'intro.debt.title',
+    descriptionKey: 'intro.debt.description',
     images: [
       {
         src: '/intro/Debt.png',
@@ -138,8 +140,8 @@ const introSlides: IntroSlide[] = [
   },
   {
     id: 9,
-    title: 'Compete & Win!',
-    description: 'Track your ranking on the leaderboard. Compete with other players and prove you are the best investor!',
+    titleKey: 'intro.compete.title',
+    descriptionKey: 'intro.compete.description',
     images: [
       {
         src: '/intro/LeaderBoard.png',
@@ -160,6 +162,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
   isMultiplayer = false
 }) => {
   const [currentSlide, setCurrentSlide] = useState(0);
+  const { t } = useLanguage();
 
   // CRITICAL FIX: Use refs to persist state across re-renders
   // This prevents the issue where multiplayer state updates cause the component
@@ -236,12 +239,12 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
         <div className="game-intro-modal waiting-mode">
           <div className="intro-waiting-content">
             <div className="waiting-spinner"></div>
-            <h2>You're Ready!</h2>
-            <p className="waiting-message">Waiting for other players to finish the tutorial...</p>
+            <h2>{t('intro.ready')}</h2>
+            <p className="waiting-message">{t('intro.waitingMessage')}</p>
 
             {waitingForPlayers.length > 0 && (
               <div className="players-status-section">
-                <h4>Still Reading:</h4>
+                <h4>{t('intro.stillReading')}</h4>
                 <ul className="players-waiting-list">
                   {waitingForPlayers.map(player => (
                     <li key={player.id} className="player-waiting">
@@ -253,7 +256,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
               </div>
             )}
 
-            <p className="auto-start-hint">Game will start automatically when everyone is ready</p>
+            <p className="auto-start-hint">{t('intro.autoStart')}</p>
           </div>
         </div>
       </div>
@@ -268,7 +271,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
           <div className="intro-image-container">
             <img
               src={slide.image}
-              alt={slide.imageAlt || slide.title}
+              alt={slide.imageAlt || t(slide.titleKey)}
               className="intro-slide-image"
             />
           </div>
@@ -286,8 +289,8 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
                     className="intro-slide-image"
                   />
                 </div>
-                {img.label && (
-                  <p className="image-label">{img.label}</p>
+                {img.labelKey && (
+                  <p className="image-label">{t(img.labelKey)}</p>
                 )}
               </div>
             ))}
@@ -296,7 +299,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
 
         {/* Text Content */}
         <div className="intro-text-content">
-          <p className="slide-description">{slide.description}</p>
+          <p className="slide-description">{t(slide.descriptionKey)}</p>
         </div>
 
         {/* Progress dots */}
@@ -306,7 +309,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
               key={index}
               className={`progress-dot ${index === currentSlide ? 'active' : ''} ${index < currentSlide ? 'completed' : ''}`}
               onClick={() => handleDotClick(index)}
-              aria-label={`Go to slide ${index + 1}`}
+              aria-label={t('intro.goToSlide', { number: index + 1 })}
             />
           ))}
         </div>
@@ -317,7 +320,7 @@ export const GameIntroPopup: React.FC<GameIntroPopupProps> = ({
             className="intro-nav-btn next-btn"
             onClick={handleNext}
           >
-            {isLastSlide ? "Let's Play!" : 'next'}
+            {isLastSlide ? t('intro.letsPlay') : t('intro.next')}
           </button>
         </div>
       </div>
@@ -1,35 +1,63 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { GameState } from '../types';
+import { GameState, NewStandingOrder, LoanType, BondType, InsuranceType, FDRateTable, MarketNewsItem } from '../types';
 import { SavingsAccountCard } from './SavingsAccountCard';
 import { FixedDepositCard } from './FixedDepositCard';
+import { LoanCard } from './LoanCard';
+import { BondCard } from './BondCard';
+import { InsuranceCard } from './InsuranceCard';
 import { TradeableAssetCard } from './TradeableAssetCard';
 import { AssetEducationModal } from './AssetEducationModal';
 import { GameIntroPopup } from './GameIntroPopup';
 import { MultiplayerLeaderboardSidebar } from './MultiplayerLeaderboardSidebar';
 import GameEndScreen from './GameEndScreen';
 import { LifeEventPopup } from './LifeEventPopup';
+import { TimeControls } from './TimeControls';
+import { OpenOrdersPanel } from './OpenOrdersPanel';
 import { usePrices } from '../hooks/usePrices';
 import { fetchFDRates } from '../services/priceApi';
 import { socketService } from '../services/socketService';
-import { TOTAL_GAME_YEARS, CALENDAR_YEAR_TRIGGERS, formatIndianNumber, COMMODITY_UNITS } from '../utils/constants';
+import { CALENDAR_YEAR_TRIGGERS, formatIndianNumber, COMMODITY_UNITS, MONTH_DURATION_MS } from '../utils/constants';
 import { ASSET_TIMELINE_DATA } from '../utils/assetUnlockCalculator';
 import { getEducationContent } from '../utils/assetEducation';
 import { calculateTotalCapital, calculateCAGR } from '../utils/networthCalculator';
+import { getLoanSettings, getOutstandingLoans, LoanTenure } from '../utils/loans';
+import { getBondsInvested, getBondsValue } from '../utils/bonds';
+import { getFDRatesForYear } from '../utils/fdRates';
+import { getPurchasingPowerHistory } from '../utils/inflation';
+import { useCPISeries } from '../hooks/useCPISeries';
+import { getScenario, getGameEnd, getGameStartMonth, getLatestScenarioNews } from '../utils/scenarios';
 import { TotalReceivedBreakdown } from './TotalReceivedBreakdown';
+import { NewsTicker } from './NewsTicker';
+import { getNewsInRange } from '../utils/marketNews';
+import { localizeQuote } from '../utils/i18n';
+import { QuizAttempt } from '../utils/quizScoring';
 import './GameScreen.css';
 
 interface GameScreenProps {
   gameState: GameState;
   onDeposit: (amount: number) => void;
   onWithdraw: (amount: number) => void;
-  onCreateFD: (amount: number, duration: 12 | 24 | 36, rate: number) => void;
+  onCreateFD: (amount: number, duration: number, rate: number) => void;
   onCollectFD: (fdId: string) => void;
   onBreakFD: (fdId: string) => void;
+  onTakeLoan?: (type: LoanType, amount: number, tenureMonths: LoanTenure, options: { fdId?: string; goldPrice?: number }) => void;
+  onRepayLoan?: (loanId: string) => void;
+  onBuyBond?: (type: BondType, amount: number) => void;
+  onSellBond?: (bondId: string) => void;
+  onBuyInsurance?: (type: InsuranceType) => void;
+  onCancelInsurance?: (policyId: string) => void;
   onBuyAsset: (assetType: string, assetName: string, quantity: number, price: number) => void;
   onSellAsset: (assetType: string, assetName: string, quantity: number, price: number) => void;
   onTogglePause: () => void;
-  onMarkQuizCompleted: (category: string) => void;
+  onSetMonthDuration?: (monthDuration: number) => void; // Solo time controls
+  onStepMonth?: () => void;
+  onJumpToMonth?: (year: number, month: number) => void;
+  onPlaceOrder?: (order: NewStandingOrder) => void; // Standing orders (limit/stop-loss/SIP)
+  onCancelOrder?: (orderId: string) => void;
+  onEvaluateOrders?: (getPrice: (assetName: string) => number) => void; // Runs the order book on each price tick
+  onMarkQuizCompleted: (category: string, attempt?: QuizAttempt) => void;
   onQuizStarted?: (category: string) => void; // Optional for multiplayer
+  onSubmitQuizAnswer?: (answerIndex: number) => Promise<boolean | null>; // Multiplayer: answers are checked and scored by the server
   onNetworthCalculated?: (networth: number, breakdown: any) => void; // Callback when networth is calculated
   showLeaderboard?: boolean; // Show leaderboard in multiplayer mode
   showPauseButton?: boolean; // Control visibility of pause button (host/admin only)
@@ -42,7 +70,9 @@ interface GameScreenProps {
   roomId?: string; // Room ID for multiplayer logging
   lifeEventPopup?: any; // Active life event to display
   clearLifeEventPopup?: () => void;
+  onResolveLifeEvent?: (eventId: string, choiceId: string) => void; // Pick how to pay for a life event with choices
   onFinalNetworthSync?: (networth: number, portfolioBreakdown: any) => void; // Final networth sync for multiplayer
+  newsFeed?: MarketNewsItem[]; // Headlines pushed by the server (multiplayer); solo reads the dataset itself
 }
 
 export const GameScreen: React.FC<GameScreenProps> = ({
@@ -52,11 +82,24 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   onCreateFD,
   onCollectFD,
   onBreakFD,
+  onTakeLoan,
+  onRepayLoan,
+  onBuyBond,
+  onSellBond,
+  onBuyInsurance,
+  onCancelInsurance,
   onBuyAsset,
   onSellAsset,
   onTogglePause,
+  onSetMonthDuration,
+  onStepMonth,
+  onJumpToMonth,
+  onPlaceOrder,
+  onCancelOrder,
+  onEvaluateOrders,
   onMarkQuizCompleted,
   onQuizStarted,
+  onSubmitQuizAnswer,
   onNetworthCalculated,
   showLeaderboard = false,
   showPauseButton = true,
@@ -69,7 +112,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   roomId,
   lifeEventPopup,
   clearLifeEventPopup,
-  onFinalNetworthSync
+  onResolveLifeEvent,
+  onFinalNetworthSync,
+  newsFeed
 }) => {
   // Helper function to format numbers with commas (Indian numbering system)
   // Always returns whole numbers (no decimals) for kid-friendly UI
@@ -78,7 +123,8 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   };
 
   // FD rates storage
-  const [fdRates, setFdRates] = useState<{ [year: number]: { 12: number; 24: number; 36: number } }>({});
+  const [fdRates, setFdRates] = useState<FDRateTable>({});
+  const cpiSeries = useCPISeries();
 
   // Education modal state
   const [showEducationModal, setShowEducationModal] = useState(false);
@@ -99,20 +145,53 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   const currentYear = gameState.currentYear;
   const selectedAssets = gameState.selectedAssets;
   const adminSettings = gameState.adminSettings;
+  const loanSettings = getLoanSettings(adminSettings);
+  // Final game year - one past the configured length when a scenario opens mid-year
+  const gameEnd = getGameEnd(adminSettings);
+  const totalGameYears = gameEnd.year;
 
   // Calculate calendar year if admin settings are present
   const calendarYear = adminSettings
     ? adminSettings.gameStartYear + currentYear - 1
     : 2005 + currentYear - 1;
 
+  // Scenarios can open mid-year; assets whose data predates the start unlock in the first month
+  const scenario = getScenario(adminSettings?.scenarioId);
+  const gameStartMonth = getGameStartMonth(adminSettings);
+  const isUnlockMoment = (year: number, month: number): boolean => {
+    const firstMonthIndex = (calendarYear - currentYear + 1) * 12 + gameStartMonth;
+    return calendarYear * 12 + gameState.currentMonth === Math.max(year * 12 + month, firstMonthIndex);
+  };
+  const scenarioNews = scenario ? getLatestScenarioNews(scenario, calendarYear, gameState.currentMonth) : null;
+
+  // Market headlines up to the current month - left out when the year is hidden, since they would reveal it
+  const soloNewsFeed = useMemo(
+    () => adminSettings && !adminSettings.hideCurrentYear
+      ? getNewsInRange(adminSettings.gameStartYear, gameStartMonth, calendarYear, gameState.currentMonth)
+      : [],
+    [adminSettings, gameStartMonth, calendarYear, gameState.currentMonth]
+  );
+  const tickerItems = newsFeed ?? soloNewsFeed;
+
   // Use server prices in multiplayer mode when available
-  const { getPrice, getPriceHistory } = usePrices({
+  const { getPrice, getPriceHistory, lastUpdate } = usePrices({
     selectedAssets,
     calendarYear,
     currentMonth: gameState.currentMonth,
     isMultiplayer: showLeaderboard,
   });
 
+  // Evaluate standing orders whenever a fresh set of prices arrives
+  const hasOpenOrders = (gameState.openOrders?.length || 0) > 0;
+  useEffect(() => {
+    if (!onEvaluateOrders || !hasOpenOrders || lastUpdate === 0) return;
+    onEvaluateOrders(getPrice);
+  }, [lastUpdate, hasOpenOrders]);
+
+  // Bind the order ticket on an asset card to that asset
+  const orderHandler = (assetType: string, assetName: string) =>
+    onPlaceOrder ? (order: Omit<NewStandingOrder, 'assetType' | 'assetName'>) => onPlaceOrder({ ...order, assetType, assetName }) : undefined;
+
   // Request key exchange when joining a multiplayer game (REQUIRED for encrypted prices)
   useEffect(() => {
     if (showLeaderboard && !socketService.isUsingServerPrices()) {
@@ -294,6 +373,11 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       return currentYear >= 4;
     }
 
+    // Bonds - Unlocks at Year 5 (yields are hard-coded, so no data check)
+    if (checkName === 'BONDS') {
+      return currentYear >= 5;
+    }
+
     // Index Fund - Unlocks when calendar year >= 2009
     if (checkName === 'INDEX_FUND') {
       const triggerYear = CALENDAR_YEAR_TRIGGERS.INDEX_FUND || 2009;
@@ -322,7 +406,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       return false;
     }
 
-    // DISABLED CATEGORIES (CRYPTO, FOREX)
+    // Optional categories (CRYPTO, FOREX) are host opt-in, so they only unlock through the schedule
     if (checkName === 'BTC' || checkName === 'ETH' || checkName === 'CRYPTO') {
       return false;
     }
@@ -374,7 +458,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
           }
           // Quiz triggers at the EXACT moment the first fund becomes available
           if (earliestYear !== 9999) {
-            return calendarYear === earliestYear && gameState.currentMonth === earliestMonth;
+            return isUnlockMoment(earliestYear, earliestMonth);
           }
         }
         return false;
@@ -412,7 +496,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
           }
           // Quiz triggers at the EXACT moment the first fund becomes available
           if (earliestYear !== 9999) {
-            return calendarYear === earliestYear && gameState.currentMonth === earliestMonth;
+            return isUnlockMoment(earliestYear, earliestMonth);
           }
         }
         return false;
@@ -442,14 +526,46 @@ export const GameScreen: React.FC<GameScreenProps> = ({
 
         if (isScheduledForThisReit) {
           // Quiz triggers at the EXACT moment the REIT data becomes available
-          return calendarYear === reitData.firstYear && gameState.currentMonth === reitData.firstMonth;
+          return isUnlockMoment(reitData.firstYear, reitData.firstMonth);
+        }
+        return false;
+      }
+
+      // For Crypto: BTC is scheduled for 2014 but its data only starts in September
+      if (checkName === 'CRYPTO') {
+        let isCryptoScheduled = false;
+        for (let year = 1; year <= currentYear; year++) {
+          const unlocks = gameState.assetUnlockSchedule[year];
+          if (unlocks && unlocks.some(unlock => unlock.category === 'CRYPTO')) {
+            isCryptoScheduled = true;
+            break;
+          }
+        }
+
+        if (isCryptoScheduled && selectedAssets?.crypto && selectedAssets.crypto.length > 0) {
+          // Quiz triggers when the first coin becomes tradeable
+          let earliestYear = 9999;
+          let earliestMonth = 12;
+          for (const coin of selectedAssets.crypto) {
+            const coinData = ASSET_TIMELINE_DATA[coin];
+            if (coinData) {
+              if (coinData.firstYear < earliestYear ||
+                (coinData.firstYear === earliestYear && coinData.firstMonth < earliestMonth)) {
+                earliestYear = coinData.firstYear;
+                earliestMonth = coinData.firstMonth;
+              }
+            }
+          }
+          if (earliestYear !== 9999) {
+            return isUnlockMoment(earliestYear, earliestMonth);
+          }
         }
         return false;
       }
 
       // For other assets: Check if unlocking at Month 1 of the scheduled year
       const currentUnlocks = gameState.assetUnlockSchedule[currentYear];
-      if (currentUnlocks && gameState.currentMonth === 1) { // Assets unlock at month 1 of their year
+      if (currentUnlocks && gameState.currentMonth === (currentYear === 1 ? gameStartMonth : 1)) { // Assets unlock at the first month of their year
         for (const unlock of currentUnlocks) {
           // Check direct match
           if (unlock.assetType === checkName) {
@@ -509,6 +625,11 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       return currentYear === 3 && gameState.currentMonth === 1;
     }
 
+    // Bonds - Unlocks at start of Year 5
+    if (checkName === 'BONDS') {
+      return currentYear === 5 && gameState.currentMonth === 1;
+    }
+
     // Stocks - Check when the FIRST selected stock has data (progressive unlock)
     if (checkName === 'INDIAN_STOCKS') {
       if (!selectedAssets?.stocks || selectedAssets.stocks.length === 0) return false;
@@ -595,7 +716,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       return calendarYear === reitData.firstYear && gameState.currentMonth === reitData.firstMonth;
     }
 
-    // Disabled categories never unlock
+    // Optional categories need a schedule built with the host's selection
     if (checkName === 'BTC' || checkName === 'ETH' || checkName === 'CRYPTO' ||
       checkName === 'FOREX' || checkName === 'USDINR' || checkName === 'EURINR' || checkName === 'GBPINR') {
       return false;
@@ -623,6 +744,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       'INDIAN_STOCKS': 'STOCKS',
       'BTC': 'CRYPTO',
       'ETH': 'CRYPTO',
+      'CRYPTO': 'CRYPTO',
+      'FOREX': 'FOREX',
+      'BONDS': 'BONDS',
       'COMMODITY': 'COMMODITY',
       'INDEX_FUND': 'INDEX_FUND',   // Separate quiz (unlocks at calendar 2009)
       'MUTUAL_FUND': 'MUTUAL_FUND', // Separate quiz (unlocks at calendar 2017)
@@ -651,11 +775,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       'PHYSICAL_GOLD',  // Year 2
       'COMMODITY',      // Year 3
       'INDIAN_STOCKS',  // Year 4
+      'BONDS',          // Year 5
       'INDEX_FUND',     // Calendar 2009
       'MUTUAL_FUND',    // Calendar 2017
-      selectedAssets?.reit || 'EMBASSY'  // Use selected REIT (EMBASSY or MINDSPACE)
+      selectedAssets?.reit || 'EMBASSY', // Use selected REIT (EMBASSY or MINDSPACE)
+      'FOREX',          // Calendar 2008 (optional)
+      'CRYPTO'          // Calendar 2014 (optional)
     ];
-    // Note: CRYPTO (BTC) is disabled in current game version
 
     for (const category of categoriesToCheck) {
       const quizCategory = categoryMap[category];
@@ -695,9 +821,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   }, [currentYear, gameState.currentMonth, gameState.completedQuizzes, isAssetUnlockingNow, gameState.isPaused, onTogglePause, onQuizStarted, selectedAssets, showEducationModal, adminSettings, introCompleted]);
 
   // Handle quiz completion
-  const handleQuizComplete = () => {
+  const handleQuizComplete = (attempt?: QuizAttempt) => {
     if (currentQuizCategory) {
-      onMarkQuizCompleted(currentQuizCategory);
+      onMarkQuizCompleted(currentQuizCategory, attempt);
       setShowEducationModal(false);
       setCurrentQuizCategory(null);
       // Unpause the game when quiz is completed (only in solo mode)
@@ -710,11 +836,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     }
   };
 
-  const currentFDRates = {
-    oneYear: fdRates[calendarYear]?.['12'] ?? 5.0,
-    twoYear: fdRates[calendarYear]?.['24'] ?? 6.0,
-    threeYear: fdRates[calendarYear]?.['36'] ?? 7.0
-  };
+  const currentFDRates = getFDRatesForYear(fdRates, calendarYear);
+
+  // Value of ₹1 of cash across the chart window - drawn as the inflation line on every price chart
+  const purchasingPowerHistory = useMemo(
+    () => (cpiSeries.length > 0 ? getPurchasingPowerHistory(cpiSeries, calendarYear, gameState.currentMonth, 13) : undefined),
+    [cpiSeries, calendarYear, gameState.currentMonth]
+  );
 
   // Get asset prices from API/server
   const physicalGoldPrice = getPrice('Physical_Gold');
@@ -813,7 +941,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     });
     currentValue += stocksValue;
 
-    // Crypto (disabled - not part of unlock schedule, but kept for backward compatibility)
+    // Crypto (BTC/ETH - only tradeable when the host enabled CRYPTO)
     const cryptoValue =
       ((gameState.holdings.crypto['BTC']?.quantity || 0) * getPrice('BTC')) +
       ((gameState.holdings.crypto['ETH']?.quantity || 0) * getPrice('ETH'));
@@ -828,6 +956,23 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     const reitsValue = (gameState.holdings.reits[selectedReit]?.quantity || 0) * reitPrice;
     currentValue += reitsValue;
 
+    // Forex (currency pairs held in rupees)
+    let forexValue = 0;
+    Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+      if (holding.quantity > 0) {
+        forexValue += holding.quantity * getPrice(pair);
+      }
+    });
+    currentValue += forexValue;
+
+    // Bonds at their yield-based market value
+    const bondsValue = getBondsValue(gameState.bonds, gameState.currentYear, gameState.currentMonth);
+    currentValue += bondsValue;
+
+    // Loans still being repaid count against networth
+    const loansValue = -getOutstandingLoans(gameState.loans);
+    currentValue += loansValue;
+
     return {
       networth: currentValue,
       breakdown: {
@@ -841,12 +986,17 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         crypto: cryptoValue,
         commodities: commoditiesValue,
         reits: reitsValue,
+        forex: forexValue,
+        bonds: bondsValue,
+        loans: loansValue,
       }
     };
   }, [
     gameState.pocketCash,
     gameState.savingsAccount.balance,
     gameState.fixedDeposits,
+    gameState.loans,
+    gameState.bonds,
     gameState.holdings,
     gameState.currentMonth,
     gameState.currentYear,
@@ -866,8 +1016,8 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   }, [networthData, onNetworthCalculated]);
 
   // Check if game has ended
-  // Use TOTAL_GAME_YEARS so detection remains correct even if constants change
-  const isGameEnded = !gameState.isStarted && gameState.currentYear >= TOTAL_GAME_YEARS;
+  // Use the configured game length so detection follows the host's settings
+  const isGameEnded = !gameState.isStarted && gameState.currentYear >= totalGameYears;
 
   // IMPORTANT: This hook must be before the early return to avoid hooks order violation
   useEffect(() => {
@@ -886,13 +1036,24 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         playerAge={playerAge}
         roomId={roomId}
         onFinalNetworthSync={onFinalNetworthSync}
+        quizStandings={roomPlayers?.filter(player => !player.isHost).map(player => ({
+          playerId: player.id,
+          playerName: player.name,
+          results: player.quizStatus?.results || []
+        }))}
       />
     );
   }
 
   return (
     <div className="game-screen">
-      {lifeEventPopup && <LifeEventPopup event={lifeEventPopup} onClose={() => { if (clearLifeEventPopup) clearLifeEventPopup(); }} />}
+      {lifeEventPopup && (
+        <LifeEventPopup
+          event={lifeEventPopup}
+          onClose={() => { if (clearLifeEventPopup) clearLifeEventPopup(); }}
+          onChoose={onResolveLifeEvent ? (choiceId) => onResolveLifeEvent(lifeEventPopup.id, choiceId) : undefined}
+        />
+      )}
       {/* Left Sidebar */}
       <div className="sidebar">
         <div className="sidebar-fixed">
@@ -904,11 +1065,20 @@ export const GameScreen: React.FC<GameScreenProps> = ({
 
         <div className="sidebar-scrollable">
           <div className="game-info">
-            <p className="quote">
-              {gameState.yearlyQuotes && gameState.yearlyQuotes[gameState.currentYear - 1]
-                ? gameState.yearlyQuotes[gameState.currentYear - 1]
-                : "Rule No. 1 is never lose money. Rule No. 2 is never forget Rule No. 1."}
-            </p>
+            {scenario ? (
+              <div className="scenario-news">
+                <div className="scenario-name">{scenario.name}</div>
+                <p className="scenario-headline">
+                  {scenarioNews ? scenarioNews.headline : scenario.description}
+                </p>
+              </div>
+            ) : (
+              <p className="quote">
+                {localizeQuote(gameState.yearlyQuotes && gameState.yearlyQuotes[gameState.currentYear - 1]
+                  ? gameState.yearlyQuotes[gameState.currentYear - 1]
+                  : "Rule No. 1 is never lose money. Rule No. 2 is never forget Rule No. 1.")}
+              </p>
+            )}
           </div>
 
           <TotalReceivedBreakdown
@@ -997,6 +1167,20 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                   percentage: (networthData.breakdown.reits / netWorth) * 100
                 });
               }
+              if (networthData.breakdown.forex > 0) {
+                breakdown.push({
+                  name: 'Forex',
+                  value: networthData.breakdown.forex,
+                  percentage: (networthData.breakdown.forex / netWorth) * 100
+                });
+              }
+              if (networthData.breakdown.bonds > 0) {
+                breakdown.push({
+                  name: 'Bonds',
+                  value: networthData.breakdown.bonds,
+                  percentage: (networthData.breakdown.bonds / netWorth) * 100
+                });
+              }
             }
 
             // Calculate percentage gain/loss based on total capital (initial + recurring income)
@@ -1028,7 +1212,9 @@ export const GameScreen: React.FC<GameScreenProps> = ({
               'Stocks': Object.values(gameState.holdings.stocks || {}).reduce((s: number, h: any) => s + (h.totalInvested || 0), 0),
               'Crypto': Object.values(gameState.holdings.crypto || {}).reduce((s: number, h: any) => s + (h.totalInvested || 0), 0),
               'Commodity': gameState.holdings.commodity.totalInvested || 0,
-              'REITs': Object.values(gameState.holdings.reits || {}).reduce((s: number, h: any) => s + (h.totalInvested || 0), 0)
+              'REITs': Object.values(gameState.holdings.reits || {}).reduce((s: number, h: any) => s + (h.totalInvested || 0), 0),
+              'Forex': Object.values(gameState.holdings.forex || {}).reduce((s: number, h: any) => s + (h.totalInvested || 0), 0),
+              'Bonds': getBondsInvested(gameState.bonds)
             };
 
             // Build items enriched with invested & pnl (only for tradeable assets with totalInvested)
@@ -1040,7 +1226,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
             });
 
             // Determine highlight: prefer tradeable assets (not Savings/FD) with highest positive P&L %; else largest holding
-            const tradeableAssets = ['Gold', 'Funds', 'Stocks', 'Crypto', 'Commodity', 'REITs'];
+            const tradeableAssets = ['Gold', 'Funds', 'Stocks', 'Crypto', 'Commodity', 'REITs', 'Forex', 'Bonds'];
             const tradeableItems = items.filter((it: any) => tradeableAssets.includes(it.name) && it.invested > 0 && it.pnl > 0);
             let highlightName: string | null = null;
             let isTopPerformer = false;
@@ -1054,7 +1240,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
             }
 
             // Compute CAGR display using total capital and years elapsed
-            const totalMonths = (gameState.currentYear - 1) * 12 + gameState.currentMonth;
+            const totalMonths = (gameState.currentYear - 1) * 12 + gameState.currentMonth - (gameStartMonth - 1);
             const yearsElapsed = Math.max(0.0001, totalMonths / 12); // avoid divide-by-zero
             const cagr = calculateCAGR(totalCapital, netWorth, yearsElapsed);
 
@@ -1116,7 +1302,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
           <div className="game-timer">
             <div>
               <span>Year</span>
-              <span>{currentYear}/20</span>
+              <span>{currentYear}/{totalGameYears}</span>
             </div>
             {adminSettings && !adminSettings.hideCurrentYear && (
               <div>
@@ -1136,6 +1322,28 @@ export const GameScreen: React.FC<GameScreenProps> = ({
             </button>
           )}
 
+          {showPauseButton && onSetMonthDuration && onStepMonth && onJumpToMonth && (
+            <TimeControls
+              monthDuration={adminSettings?.monthDuration || MONTH_DURATION_MS}
+              isPaused={gameState.isPaused}
+              currentYear={currentYear}
+              currentMonth={gameState.currentMonth}
+              totalYears={totalGameYears}
+              finalMonth={gameEnd.month}
+              onSpeedChange={onSetMonthDuration}
+              onStepMonth={onStepMonth}
+              onJumpTo={onJumpToMonth}
+            />
+          )}
+
+          {onCancelOrder && (
+            <OpenOrdersPanel
+              orders={gameState.openOrders || []}
+              executions={gameState.orderExecutions || []}
+              onCancel={onCancelOrder}
+            />
+          )}
+
           {/* Multiplayer Leaderboard */}
           {showLeaderboard && <MultiplayerLeaderboardSidebar />}
         </div>
@@ -1143,6 +1351,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
 
       {/* Main Content - Grouped Sections with Headers */}
       <div className={`main-content year-${currentYear}`}>
+        <NewsTicker items={tickerItems} />
         <div className="dynamic-assets-layout">
           {/* ===== FIRST ROW: BANKING AND GOLD ONLY ===== */}
           <div className="first-row-container">
@@ -1167,6 +1376,31 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                   onCollect={onCollectFD}
                   onBreak={onBreakFD}
                 />
+
+                {loanSettings && onTakeLoan && onRepayLoan && (
+                  <LoanCard
+                    loans={gameState.loans || []}
+                    pocketCash={gameState.pocketCash}
+                    settings={loanSettings}
+                    fixedDeposits={gameState.fixedDeposits}
+                    physicalGoldQuantity={gameState.holdings.physicalGold.quantity}
+                    goldPrice={physicalGoldPrice}
+                    onTakeLoan={onTakeLoan}
+                    onRepay={onRepayLoan}
+                  />
+                )}
+
+                {onBuyInsurance && onCancelInsurance && (
+                  <InsuranceCard
+                    policies={gameState.insurancePolicies || []}
+                    pocketCash={gameState.pocketCash}
+                    recurringIncome={gameState.adminSettings?.recurringIncome || 0}
+                    currentYear={currentYear}
+                    currentMonth={gameState.currentMonth}
+                    onBuy={onBuyInsurance}
+                    onCancel={onCancelInsurance}
+                  />
+                )}
               </div>
             </section>
 
@@ -1181,11 +1415,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                       currentPrice={physicalGoldPrice}
                       previousPrice={previousPhysicalGoldPrice}
                       priceHistory={physicalGoldHistory}
+                      purchasingPower={purchasingPowerHistory}
                       holding={gameState.holdings.physicalGold}
                       pocketCash={gameState.pocketCash}
                       unit="/10g"
                       onBuy={(qty) => onBuyAsset('physicalGold', 'Physical_Gold', qty, physicalGoldPrice)}
                       onSell={(qty) => onSellAsset('physicalGold', 'Physical_Gold', qty, physicalGoldPrice)}
+                      onPlaceOrder={orderHandler('physicalGold', 'Physical_Gold')}
                       isTransacting={isTransacting}
                     />
                   )}
@@ -1196,11 +1432,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                       currentPrice={digitalGoldPrice}
                       previousPrice={previousDigitalGoldPrice}
                       priceHistory={digitalGoldHistory}
+                      purchasingPower={purchasingPowerHistory}
                       holding={gameState.holdings.digitalGold}
                       pocketCash={gameState.pocketCash}
                       unit="/share"
                       onBuy={(qty) => onBuyAsset('digitalGold', 'Digital_Gold', qty, digitalGoldPrice)}
                       onSell={(qty) => onSellAsset('digitalGold', 'Digital_Gold', qty, digitalGoldPrice)}
+                      onPlaceOrder={orderHandler('digitalGold', 'Digital_Gold')}
                       isTransacting={isTransacting}
                     />
                   )}
@@ -1237,11 +1475,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                         currentPrice={stockData.price}
                         previousPrice={stockData.previousPrice}
                         priceHistory={stockData.history}
+                        purchasingPower={purchasingPowerHistory}
                         holding={gameState.holdings.stocks[stockName] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
                         pocketCash={gameState.pocketCash}
                         unit="/share"
                         onBuy={(qty) => onBuyAsset('stocks', stockName, qty, stockData.price)}
                         onSell={(qty) => onSellAsset('stocks', stockName, qty, stockData.price)}
+                        onPlaceOrder={orderHandler('stocks', stockName)}
                         isStock={true}
                         isTransacting={isTransacting}
                       />
@@ -1282,11 +1522,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                         currentPrice={fundPrice}
                         previousPrice={previousFundPrice}
                         priceHistory={fundHistory}
+                        purchasingPower={purchasingPowerHistory}
                         holding={gameState.holdings.indexFund[fundName] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
                         pocketCash={gameState.pocketCash}
                         unit="/unit"
                         onBuy={(qty) => onBuyAsset('indexFund', fundName, qty, fundPrice)}
                         onSell={(qty) => onSellAsset('indexFund', fundName, qty, fundPrice)}
+                        onPlaceOrder={orderHandler('indexFund', fundName)}
                         isTransacting={isTransacting}
                       />
                     );
@@ -1326,11 +1568,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                         currentPrice={fundPrice}
                         previousPrice={previousFundPrice}
                         priceHistory={fundHistory}
+                        purchasingPower={purchasingPowerHistory}
                         holding={gameState.holdings.mutualFund[fundName] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
                         pocketCash={gameState.pocketCash}
                         unit="/unit"
                         onBuy={(qty) => onBuyAsset('mutualFund', fundName, qty, fundPrice)}
                         onSell={(qty) => onSellAsset('mutualFund', fundName, qty, fundPrice)}
+                        onPlaceOrder={orderHandler('mutualFund', fundName)}
                         isTransacting={isTransacting}
                       />
                     );
@@ -1350,11 +1594,13 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                   currentPrice={commodityPrice}
                   previousPrice={previousCommodityPrice}
                   priceHistory={commodityHistory}
+                  purchasingPower={purchasingPowerHistory}
                   holding={gameState.holdings.commodity}
                   pocketCash={gameState.pocketCash}
                   unit={COMMODITY_UNITS[selectedAssets.commodity] || '/oz'}
                   onBuy={(qty) => onBuyAsset('commodity', selectedAssets.commodity, qty, commodityPrice)}
                   onSell={(qty) => onSellAsset('commodity', selectedAssets.commodity, qty, commodityPrice)}
+                  onPlaceOrder={orderHandler('commodity', selectedAssets.commodity)}
                   isTransacting={isTransacting}
                 />
               </div>
@@ -1371,16 +1617,124 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                   currentPrice={reitPrice}
                   previousPrice={previousReitPrice}
                   priceHistory={reitHistory}
+                  purchasingPower={purchasingPowerHistory}
                   holding={gameState.holdings.reits[selectedAssets.reit] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
                   pocketCash={gameState.pocketCash}
                   unit="/unit"
                   onBuy={(qty) => onBuyAsset('reits', selectedAssets.reit, qty, reitPrice)}
                   onSell={(qty) => onSellAsset('reits', selectedAssets.reit, qty, reitPrice)}
+                  onPlaceOrder={orderHandler('reits', selectedAssets.reit)}
                   isTransacting={isTransacting}
                 />
               </div>
             </section>
           )}
+
+          {/* ===== BONDS SECTION ===== */}
+          {isAssetUnlocked('BONDS') && onBuyBond && onSellBond && (
+            <section className="bond-section">
+              <h3 className="section-header">BONDS</h3>
+              <div className="section-cards">
+                <BondCard
+                  bonds={gameState.bonds || []}
+                  pocketCash={gameState.pocketCash}
+                  calendarYear={calendarYear}
+                  currentYear={currentYear}
+                  currentMonth={gameState.currentMonth}
+                  onBuy={onBuyBond}
+                  onSell={onSellBond}
+                />
+              </div>
+            </section>
+          )}
+
+          {/* ===== FOREX SECTION (optional) ===== */}
+          {(() => {
+            if (!isAssetUnlocked('FOREX') || !selectedAssets?.forex || selectedAssets.forex.length === 0) return null;
+
+            const availablePairs = selectedAssets.forex.filter((pair) => {
+              const pairTimeline = ASSET_TIMELINE_DATA[pair];
+              if (!pairTimeline) return false;
+              if (calendarYear > pairTimeline.firstYear) return true;
+              if (calendarYear === pairTimeline.firstYear && gameState.currentMonth >= pairTimeline.firstMonth) return true;
+              return false;
+            });
+
+            if (availablePairs.length === 0) return null;
+
+            return (
+              <section className="forex-section">
+                <h3 className="section-header">FOREX</h3>
+                <div className="section-cards">
+                  {availablePairs.map((pair) => {
+                    const pairData = getStockPriceData(pair);
+                    return (
+                      <TradeableAssetCard
+                        key={pair}
+                        name={pair}
+                        currentPrice={pairData.price}
+                        previousPrice={pairData.previousPrice}
+                        priceHistory={pairData.history}
+                        purchasingPower={purchasingPowerHistory}
+                        holding={gameState.holdings.forex?.[pair] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
+                        pocketCash={gameState.pocketCash}
+                        unit="/unit"
+                        onBuy={(qty) => onBuyAsset('forex', pair, qty, pairData.price)}
+                        onSell={(qty) => onSellAsset('forex', pair, qty, pairData.price)}
+                        onPlaceOrder={orderHandler('forex', pair)}
+                        isStock={true}
+                        isTransacting={isTransacting}
+                      />
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })()}
+
+          {/* ===== CRYPTO SECTION (optional) ===== */}
+          {(() => {
+            if (!isAssetUnlocked('CRYPTO') || !selectedAssets?.crypto || selectedAssets.crypto.length === 0) return null;
+
+            const availableCoins = selectedAssets.crypto.filter((coin) => {
+              const coinTimeline = ASSET_TIMELINE_DATA[coin];
+              if (!coinTimeline) return false;
+              if (calendarYear > coinTimeline.firstYear) return true;
+              if (calendarYear === coinTimeline.firstYear && gameState.currentMonth >= coinTimeline.firstMonth) return true;
+              return false;
+            });
+
+            if (availableCoins.length === 0) return null;
+
+            return (
+              <section className="crypto-section">
+                <h3 className="section-header">CRYPTO</h3>
+                <div className="section-cards">
+                  {availableCoins.map((coin) => {
+                    const coinData = getStockPriceData(coin);
+                    return (
+                      <TradeableAssetCard
+                        key={coin}
+                        name={coin}
+                        currentPrice={coinData.price}
+                        previousPrice={coinData.previousPrice}
+                        priceHistory={coinData.history}
+                        purchasingPower={purchasingPowerHistory}
+                        holding={gameState.holdings.crypto[coin] || { quantity: 0, avgPrice: 0, totalInvested: 0 }}
+                        pocketCash={gameState.pocketCash}
+                        unit="/coin"
+                        onBuy={(qty) => onBuyAsset('crypto', coin, qty, coinData.price)}
+                        onSell={(qty) => onSellAsset('crypto', coin, qty, coinData.price)}
+                        onPlaceOrder={orderHandler('crypto', coin)}
+                        quantityDecimals={4}
+                        isTransacting={isTransacting}
+                      />
+                    );
+                  })}
+                </div>
+              </section>
+            );
+          })()}
         </div>
       </div>
       {/* Game Intro Popup - Shows at game start */}
@@ -1424,6 +1778,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         questionIndex={currentQuizCategory && gameState.quizQuestionIndices ? gameState.quizQuestionIndices[currentQuizCategory] : undefined}
         onComplete={handleQuizComplete}
         showQuiz={quizEnabled}
+        checkAnswer={onSubmitQuizAnswer}
       />
     </div>
   );
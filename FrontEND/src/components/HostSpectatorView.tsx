@@ -1,11 +1,39 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useMultiplayer } from '../contexts/MultiplayerContext';
 import { PlayerInfo } from '../types/multiplayer';
+import { MarketNewsItem } from '../types';
+import { socketService } from '../services/socketService';
+import { getInflationFactor } from '../utils/inflation';
+import { getGameEnd, getGameStartMonth, hasReachedGameEnd } from '../utils/scenarios';
+import { summarizeQuizResults } from '../utils/quizScoring';
+import { useCPISeries } from '../hooks/useCPISeries';
+import { TimeControls } from './TimeControls';
+import { NewsTicker } from './NewsTicker';
 import './HostSpectatorView.css';
 
-export const HostSpectatorView: React.FC = () => {
-  const { roomInfo, leaderboard, gameState } = useMultiplayer();
+interface HostSpectatorViewProps {
+  readOnly?: boolean; // Spectators watch without host controls
+}
+
+export const HostSpectatorView: React.FC<HostSpectatorViewProps> = ({ readOnly = false }) => {
+  const { roomInfo, leaderboard, gameState, leaveRoom, setGameSpeed, stepMonth, jumpToMonth } = useMultiplayer();
   const [expandedPlayers, setExpandedPlayers] = useState<Set<string>>(new Set());
+  const cpiSeries = useCPISeries();
+
+  // Same headlines the players see
+  const [newsFeed, setNewsFeed] = useState<MarketNewsItem[]>([]);
+  useEffect(() => {
+    const handler = (data: { item: MarketNewsItem }) => {
+      if (data?.item) {
+        setNewsFeed(prev => prev.some(item => item.id === data.item.id) ? prev : [...prev, data.item]);
+      }
+    };
+
+    socketService.on('newsItem', handler);
+    return () => {
+      socketService.off('newsItem', handler);
+    };
+  }, []);
 
   if (!roomInfo || !gameState) return null;
 
@@ -24,7 +52,7 @@ export const HostSpectatorView: React.FC = () => {
 
   const getPortfolioPercentage = (player: PlayerInfo, category: keyof PlayerInfo['portfolioBreakdown']): number => {
     if (player.networth === 0) return 0;
-    return (player.portfolioBreakdown[category] / player.networth) * 100;
+    return ((player.portfolioBreakdown[category] || 0) / player.networth) * 100;
   };
 
   const togglePortfolio = (playerId: string) => {
@@ -40,27 +68,54 @@ export const HostSpectatorView: React.FC = () => {
   };
 
   const calendarYear = (roomInfo.adminSettings?.gameStartYear || 2005) + gameState.currentYear - 1;
+  const gameEnd = getGameEnd(roomInfo.adminSettings);
+  const totalYears = gameEnd.year;
+  const isFinalMonth = hasReachedGameEnd(roomInfo.adminSettings, gameState.currentYear, gameState.currentMonth);
+  // Networth in rupees of the game's first month
+  const inflationFactor = getInflationFactor(cpiSeries, roomInfo.adminSettings?.gameStartYear || 2005, getGameStartMonth(roomInfo.adminSettings), calendarYear, gameState.currentMonth);
 
   return (
     <div className="host-spectator-view">
       <div className="spectator-header">
         <div className="header-left">
-          <h1>BULL RUN HOST VIEW</h1>
-          {roomInfo.isHost && (
+          <h1>{readOnly ? 'BULL RUN SPECTATOR VIEW' : 'BULL RUN HOST VIEW'}</h1>
+          {readOnly && (
+            <button className="leave-watch-button" onClick={leaveRoom}>
+              ← STOP WATCHING
+            </button>
+          )}
+          {!readOnly && roomInfo.isHost && (
             <button
-              className={`pause-button ${(gameState.currentYear === 20 && gameState.currentMonth === 12) || gameState.currentYear > 20 ? 'game-ended' : ''}`}
+              className={`pause-button ${isFinalMonth ? 'game-ended' : ''}`}
               onClick={() => {
-                if (gameState.currentYear < 20 || (gameState.currentYear === 20 && gameState.currentMonth < 12)) {
+                if (!isFinalMonth) {
                   import('../services/socketService').then(({ socketService }) => socketService.togglePause());
                 }
               }}
-              disabled={gameState.pauseReason === 'quiz' || (gameState.currentYear === 20 && gameState.currentMonth === 12) || gameState.currentYear > 20}
+              disabled={gameState.pauseReason === 'quiz' || isFinalMonth}
             >
-              {(gameState.currentYear === 20 && gameState.currentMonth === 12) || gameState.currentYear > 20
+              {isFinalMonth
                 ? '🏁 GAME ENDED'
                 : gameState.isPaused ? '▶ RESUME' : '⏸ PAUSE'}
             </button>
           )}
+          {!readOnly && roomInfo.isHost && gameState.isStarted && (
+            <TimeControls
+              monthDuration={roomInfo.adminSettings?.monthDuration || 5000}
+              isPaused={gameState.isPaused && gameState.pauseReason === 'manual'}
+              currentYear={gameState.currentYear}
+              currentMonth={gameState.currentMonth}
+              totalYears={totalYears}
+              finalMonth={gameEnd.month}
+              disabled={gameState.pauseReason === 'quiz' || gameState.pauseReason === 'intro'}
+              onSpeedChange={setGameSpeed}
+              onStepMonth={stepMonth}
+              onJumpTo={jumpToMonth}
+            />
+          )}
+          {(roomInfo.spectators?.length ?? 0) > 0 && (
+            <span className="spectator-count">👁 {roomInfo.spectators!.length} watching</span>
+          )}
         </div>
 
         <div className="header-center">
@@ -74,7 +129,7 @@ export const HostSpectatorView: React.FC = () => {
         <div className="game-timer">
           <div className="timer-item">
             <span className="timer-label">Game Year</span>
-            <span className="timer-value">{gameState.currentYear} / 20</span>
+            <span className="timer-value">{gameState.currentYear} / {totalYears}</span>
           </div>
           <div className="timer-item">
             <span className="timer-label">Calendar Year</span>
@@ -87,7 +142,7 @@ export const HostSpectatorView: React.FC = () => {
 
           <div className="progress-timeline-inline">
             <div className="timeline-inline-header">
-              <span className="timeline-inline-label">YEAR {gameState.currentYear} OF 20</span>
+              <span className="timeline-inline-label">YEAR {gameState.currentYear} OF {totalYears}</span>
             </div>
             <div className="timeline-inline-bar">
               <div
@@ -105,19 +160,31 @@ export const HostSpectatorView: React.FC = () => {
         </div>
       </div>
 
+      <NewsTicker items={newsFeed} />
+
       <div className="leaderboard-main">
         <div className="leaderboard-grid">
           {leaderboard.map((player, index) => {
             const isExpanded = expandedPlayers.has(player.id);
+            const quizSummary = summarizeQuizResults(player.quizStatus?.results);
 
             return (
               <div key={player.id} className={`leaderboard-card rank-${index + 1}`}>
                 <div className="player-row">
                   <div className="player-name">{player.name}</div>
-                  <div className="player-networth">{formatCurrency(player.networth)}</div>
+                  <div className="player-networth">
+                    {formatCurrency(player.networth)}
+                    {cpiSeries.length > 0 && (
+                      <span className="player-networth-real" title="After inflation, in starting-year rupees">
+                        {formatCurrency(player.networth / inflationFactor)} real
+                      </span>
+                    )}
+                  </div>
                   <div className="player-status">
-                    {/* Check intro status first */}
-                    {gameState.playersWaitingForIntro?.includes(player.id) ? (
+                    {/* Dropped connections take priority - the seat is held for the grace period */}
+                    {player.isConnected === false ? (
+                      <span className="status-badge reconnecting">📡 Reconnecting</span>
+                    ) : gameState.playersWaitingForIntro?.includes(player.id) ? (
                       <span className="status-badge intro-pending">📖 In Intro</span>
                     ) : gameState.pauseReason === 'intro' ? (
                       <span className="status-badge intro-done">✅ Ready</span>
@@ -130,6 +197,22 @@ export const HostSpectatorView: React.FC = () => {
                     ) : (
                       <span className="status-badge playing">🎮 Playing</span>
                     )}
+                    {(player.suspiciousSubmissions ?? 0) > 0 && (
+                      <span
+                        className="status-badge suspicious"
+                        title="Networth submissions that did not match the server's valuation"
+                      >
+                        ⚠️ {player.suspiciousSubmissions}
+                      </span>
+                    )}
+                    {quizSummary.quizzes > 0 && (
+                      <span
+                        className="status-badge quiz-score"
+                        title={`${quizSummary.quizzes} quizzes, ${quizSummary.firstTry} right on the first try`}
+                      >
+                        🧠 {quizSummary.points} pts
+                      </span>
+                    )}
                   </div>
                   <div
                     className="player-expand"
@@ -212,6 +295,20 @@ export const HostSpectatorView: React.FC = () => {
                         <span className="amount">{formatCurrency(player.portfolioBreakdown.reits)}</span>
                       </div>
                     )}
+                    {(player.portfolioBreakdown.forex || 0) > 0 && (
+                      <div className="breakdown-item">
+                        <span className="category">Forex</span>
+                        <span className="percentage">{getPortfolioPercentage(player, 'forex').toFixed(1)}%</span>
+                        <span className="amount">{formatCurrency(player.portfolioBreakdown.forex || 0)}</span>
+                      </div>
+                    )}
+                    {(player.portfolioBreakdown.bonds || 0) > 0 && (
+                      <div className="breakdown-item">
+                        <span className="category">Bonds</span>
+                        <span className="percentage">{getPortfolioPercentage(player, 'bonds').toFixed(1)}%</span>
+                        <span className="amount">{formatCurrency(player.portfolioBreakdown.bonds || 0)}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
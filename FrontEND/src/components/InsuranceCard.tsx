@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { InsurancePolicy, InsuranceType } from '../types';
+import { formatIndianNumber } from '../utils/constants';
+import { INSURANCE_PRODUCTS, INSURANCE_TYPES, getInsurancePremium } from '../utils/insurance';
+import './AssetCard.css';
+import './StockTooltip.css';
+import './InsuranceCard.css';
+import { ConfirmModal } from './ConfirmModal';
+
+interface InsuranceCardProps {
+  policies: InsurancePolicy[];
+  pocketCash: number;
+  recurringIncome: number;
+  currentYear: number;
+  currentMonth: number;
+  onBuy: (type: InsuranceType) => void;
+  onCancel: (policyId: string) => void;
+}
+
+export const InsuranceCard: React.FC<InsuranceCardProps> = ({
+  policies,
+  pocketCash,
+  recurringIncome,
+  currentYear,
+  currentMonth,
+  onBuy,
+  onCancel
+}) => {
+  const [typeToBuy, setTypeToBuy] = useState<InsuranceType | null>(null);
+  const [policyToCancel, setPolicyToCancel] = useState<InsurancePolicy | null>(null);
+  const [isShaking, setIsShaking] = useState(false);
+
+  const availableTypes = INSURANCE_TYPES.filter(type => !policies.some(p => p.type === type));
+
+  const handleBuyClick = (type: InsuranceType) => {
+    if (getInsurancePremium(type, recurringIncome, currentYear) > pocketCash) {
+      setIsShaking(true);
+      setTimeout(() => setIsShaking(false), 500);
+      return;
+    }
+    setTypeToBuy(type);
+  };
+
+  const handleConfirmBuy = () => {
+    if (typeToBuy) {
+      onBuy(typeToBuy);
+    }
+    setTypeToBuy(null);
+  };
+
+  const handleConfirmCancel = () => {
+    if (policyToCancel) {
+      onCancel(policyToCancel.id);
+    }
+    setPolicyToCancel(null);
+  };
+
+  return (
+    <div className={`asset-card fd-card insurance-card ${isShaking ? 'shake' : ''}`}>
+      <div className="asset-tooltip-wrapper">
+        <h3 className="card-title">INSURANCE</h3>
+        <div className="asset-tooltip">
+          <div className="tooltip-full-name">Health & Vehicle Insurance</div>
+          <div className="tooltip-sector">Protection</div>
+          <div className="tooltip-description">Pay a yearly premium and the policy pays most of the bill when a matching emergency happens. Premiums rise a little every year and are paid again on each renewal</div>
+        </div>
+      </div>
+
+      <div className="fd-rates">
+        {INSURANCE_TYPES.map(type => (
+          <div key={type} className="rate-item">
+            <span className="rate-label">{INSURANCE_PRODUCTS[type].label}</span>
+            <span className="rate-value">₹{formatIndianNumber(getInsurancePremium(type, recurringIncome, currentYear))}/yr</span>
+          </div>
+        ))}
+      </div>
+
+      {availableTypes.map(type => (
+        <button key={type} className="action-button create-fd-btn" onClick={() => handleBuyClick(type)}>
+          Buy {INSURANCE_PRODUCTS[type].label}
+        </button>
+      ))}
+
+      <div className="fd-list">
+        {policies.map(policy => {
+          const monthsHeld = ((currentYear - policy.startYear) * 12 + (currentMonth - policy.startMonth)) % 12;
+          const progressPercentage = Math.min((monthsHeld / 12) * 100, 100);
+
+          return (
+            <div key={policy.id} className="fd-item insurance-item">
+              <div className="fd-progress-bar">
+                <div
+                  className="fd-progress-fill"
+                  style={{ width: `${progressPercentage}%` }}
+                />
+              </div>
+              <div className="fd-info">
+                <span>{INSURANCE_PRODUCTS[policy.type].label}</span>
+                <span className="fd-rate-responsive">{Math.round(policy.coverRatio * 100)}% cover</span>
+                <span className="insurance-renewal">Renews M{policy.startMonth}</span>
+                <button className="collect-btn" onClick={() => setPolicyToCancel(policy)}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ConfirmModal
+        isOpen={typeToBuy !== null}
+        title="Buy Insurance?"
+        message={typeToBuy ? `${INSURANCE_PRODUCTS[typeToBuy].description}. Pay ₹${formatIndianNumber(getInsurancePremium(typeToBuy, recurringIncome, currentYear))} now; the policy renews every year at that year's premium.` : ''}
+        onConfirm={handleConfirmBuy}
+        onCancel={() => setTypeToBuy(null)}
+      />
+
+      <ConfirmModal
+        isOpen={policyToCancel !== null}
+        title="Cancel Policy?"
+        message={policyToCancel ? `Cancel your ${INSURANCE_PRODUCTS[policyToCancel.type].label}? The premium already paid is not refunded and emergencies will no longer be covered.` : ''}
+        onConfirm={handleConfirmCancel}
+        onCancel={() => setPolicyToCancel(null)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import React from 'react';
+import { Language } from '../types';
+import { LANGUAGE_OPTIONS } from '../utils/i18n';
+import { useLanguage } from '../contexts/LanguageContext';
+import './LanguagePicker.css';
+
+// Picking a language remembers it on this device and overrides the room default
+export const LanguagePicker: React.FC = () => {
+  const { language, setLanguage, t } = useLanguage();
+
+  return (
+    <label className="language-picker">
+      <span>{t('language.label')}</span>
+      <select value={language} onChange={(e) => setLanguage(e.target.value as Language)}>
+        {LANGUAGE_OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { lifeEventPoolApi } from '../services/adminApi';
+import { InsuranceType, LifeEventChoice, LifeEventTemplate } from '../types';
+import { INSURANCE_PRODUCTS, INSURANCE_TYPES } from '../utils/insurance';
+import { formatIndianNumber } from '../utils/constants';
+import { ContentTransferControls } from './ContentTransferControls';
+import './TaxSettingsFields.css';
+import './FDRatesEditor.css';
+import './AdminContentEditor.css';
+
+const EMPTY_TEMPLATE: LifeEventTemplate = { message: '', amount: -10000, weight: 1, enabled: true };
+
+// Templates are saved straight to the life_event_pool table; rooms started afterwards draw from the new pool
+export const LifeEventPoolEditor: React.FC = () => {
+  const [templates, setTemplates] = useState<LifeEventTemplate[]>([]);
+  const [form, setForm] = useState<LifeEventTemplate>(EMPTY_TEMPLATE);
+  const [monthsText, setMonthsText] = useState('');
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadTemplates = async () => {
+    const response = await lifeEventPoolApi.getTemplates();
+    if (response.success && response.templates) {
+      setTemplates(response.templates);
+    } else {
+      setMessage(response.message || 'Failed to load life events');
+    }
+  };
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const editTemplate = (template: LifeEventTemplate) => {
+    setForm(template);
+    setMonthsText((template.months || []).join(', '));
+  };
+
+  const choices = form.choices || [];
+  const setChoices = (next: LifeEventChoice[]) => setForm({ ...form, choices: next });
+  const updateChoice = (index: number, changes: Partial<LifeEventChoice>) => {
+    setChoices(choices.map((choice, i) => (i === index ? { ...choice, ...changes } : choice)));
+  };
+  const addChoice = () => {
+    let n = choices.length + 1;
+    while (choices.some(choice => choice.id === `option-${n}`)) n++;
+    setChoices([...choices, { id: `option-${n}`, label: '', amountFactor: 1 }]);
+  };
+
+  const handleSave = async () => {
+    const months = monthsText.split(',').map(m => m.trim()).filter(Boolean).map(Number);
+    setBusy(true);
+    const response = await lifeEventPoolApi.saveTemplate({ ...form, months });
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      editTemplate(EMPTY_TEMPLATE);
+      await loadTemplates();
+    }
+  };
+
+  const handleDelete = async (template: LifeEventTemplate) => {
+    if (!template.id || !confirm(`Delete "${template.message}"?`)) {
+      return;
+    }
+    setBusy(true);
+    const response = await lifeEventPoolApi.deleteTemplate(template.id);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      await loadTemplates();
+    }
+  };
+
+  return (
+    <div className="tax-settings-fields">
+      <div className="fd-rates-editor-list admin-content-editor-list">
+        {templates.map(template => (
+          <div key={template.id} className={`admin-content-editor-row ${template.enabled === false ? 'disabled' : ''}`}>
+            <span>{template.message}</span>
+            <span className={template.amount < 0 ? 'loss' : 'gain'}>
+              {template.amount < 0 ? '-' : '+'}₹{formatIndianNumber(Math.abs(template.amount))}
+            </span>
+            <button type="button" onClick={() => editTemplate(template)} disabled={busy}>Edit</button>
+            <button type="button" onClick={() => handleDelete(template)} disabled={busy}>Delete</button>
+          </div>
+        ))}
+      </div>
+
+      <label className="tax-settings-field">
+        <span>Message</span>
+        <input
+          type="text"
+          value={form.message}
+          onChange={(e) => setForm({ ...form, message: e.target.value })}
+        />
+      </label>
+      <div className="tax-settings-grid">
+        <label className="tax-settings-field">
+          <span>Amount (₹, negative for a loss)</span>
+          <input
+            type="number"
+            step={1000}
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: Math.round(Number(e.target.value) || 0) })}
+          />
+        </label>
+        <label className="tax-settings-field">
+          <span>Weight</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={0.5}
+            value={form.weight}
+            onChange={(e) => setForm({ ...form, weight: Number(e.target.value) || 0 })}
+          />
+        </label>
+        <label className="tax-settings-field">
+          <span>Months (1-12, blank for any)</span>
+          <input
+            type="text"
+            placeholder="e.g. 6, 7, 8"
+            value={monthsText}
+            onChange={(e) => setMonthsText(e.target.value)}
+          />
+        </label>
+        <label className="tax-settings-field">
+          <span>Covered by</span>
+          <select
+            value={form.insuranceType || ''}
+            onChange={(e) => setForm({ ...form, insuranceType: (e.target.value as InsuranceType) || undefined })}
+          >
+            <option value="" style={{ color: '#000' }}>No insurance</option>
+            {INSURANCE_TYPES.map(type => (
+              <option key={type} value={type} style={{ color: '#000' }}>{INSURANCE_PRODUCTS[type].label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="admin-content-editor-choices">
+        <span className="fd-rates-editor-message">Choices (leave empty to apply the event straight away)</span>
+        {choices.map((choice, index) => (
+          <div key={choice.id} className="admin-content-editor-choice">
+            <input
+              type="text"
+              placeholder="Label"
+              value={choice.label}
+              onChange={(e) => updateChoice(index, { label: e.target.value })}
+            />
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              title="Share of the amount this choice costs"
+              value={choice.amountFactor}
+              onChange={(e) => updateChoice(index, { amountFactor: Number(e.target.value) || 0 })}
+            />
+            <label className="tax-settings-toggle">
+              <input
+                type="checkbox"
+                checked={choice.breakFD === true}
+                onChange={(e) => updateChoice(index, { breakFD: e.target.checked || undefined })}
+              />
+              <span>Break FD</span>
+            </label>
+            <button type="button" onClick={() => setChoices(choices.filter((_, i) => i !== index))}>Remove</button>
+          </div>
+        ))}
+        <button type="button" className="fd-rates-editor-save" onClick={addChoice}>Add Choice</button>
+      </div>
+
+      <label className="tax-settings-toggle">
+        <input
+          type="checkbox"
+          checked={form.enabled !== false}
+          onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+        />
+        <span>Enabled</span>
+      </label>
+
+      <div className="admin-content-editor-actions">
+        <button type="button" className="fd-rates-editor-save" onClick={handleSave} disabled={busy}>
+          {busy ? 'Saving...' : form.id ? 'Update Life Event' : 'Add Life Event'}
+        </button>
+        {form.id && (
+          <button type="button" className="fd-rates-editor-save" onClick={() => editTemplate(EMPTY_TEMPLATE)} disabled={busy}>
+            Cancel
+          </button>
+        )}
+      </div>
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+      <p className="fd-rates-editor-message">
+        Amounts are for the default income in the first game month and scale with income and CPI.
+      </p>
+
+      <ContentTransferControls
+        fileName="life-events"
+        replaceLabel="Delete the current pool"
+        onExport={lifeEventPoolApi.exportTemplates}
+        onImport={lifeEventPoolApi.importTemplates}
+        onImported={loadTemplates}
+      />
+    </div>
+  );
+};
@@ -1,14 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import './LifeEventPopup.css';
 import { LifeEvent } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatIndianNumber } from '../utils/constants';
 
 interface Props {
   event: LifeEvent & { locked?: boolean; remainingDebt?: number; postPocketCash?: number };
   onClose?: () => void;
+  onChoose?: (choiceId: string) => void; // Present when the player can decide how to pay
 }
 
-export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
+export const LifeEventPopup: React.FC<Props> = ({ event, onClose, onChoose }) => {
   const [isClosing, setIsClosing] = useState(false);
+  const [isChoosing, setIsChoosing] = useState(false);
+  const { t } = useLanguage();
+
+  // A loss waiting for the player's decision stays open until a choice is picked
+  const awaitingChoice = !!event.awaitingChoice && !!event.choices?.length && !!onChoose;
 
   // Detect if this is a debt recovery scenario (must be before any hooks)
   const wasInDebt = event.type === 'gain' && event.postPocketCash !== undefined && (event.postPocketCash - event.amount) < 0;
@@ -19,6 +27,7 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
   const remainingDebt = isStillInDebt ? Math.abs(postPocketCashValue) : 0;
 
   const handleClose = () => {
+    if (awaitingChoice) return;
     setIsClosing(true);
     setTimeout(() => {
       if (onClose) onClose();
@@ -30,6 +39,7 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
 
   // Auto-dismiss timing based on scenario
   useEffect(() => {
+    if (awaitingChoice) return;
     let timeout: number;
 
     if (wasInDebt) {
@@ -46,18 +56,33 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
     }, timeout);
 
     return () => clearTimeout(timer);
-  }, [event.type, wasInDebt]);
+  }, [event.type, wasInDebt, awaitingChoice]);
+
+  // New event (or the settled version of this one) - allow another pick
+  useEffect(() => {
+    setIsChoosing(false);
+  }, [event.id, event.awaitingChoice]);
+
+  const handleChoose = (choiceId: string) => {
+    if (isChoosing || !onChoose) return;
+    setIsChoosing(true);
+    onChoose(choiceId);
+  };
 
-  const isInDebt = event.type === 'loss' && event.locked;
-  const hasEnoughFunds = event.type === 'loss' && !event.locked;
+  const isInDebt = event.type === 'loss' && event.locked && !awaitingChoice;
+  const hasEnoughFunds = event.type === 'loss' && !event.locked && !awaitingChoice;
+  const chosen = event.choices?.find(c => c.id === event.choiceId);
+  const showBreakdown = event.grossAmount !== undefined && (!!event.insuranceCover || !!event.fdBroken || !!chosen);
 
   return (
     <div className={`life-event-overlay ${isClosing ? 'closing' : ''}`} onClick={handleClose}>
       <div className={`life-event-card ${event.type === 'loss' ? 'loss' : 'gain'} ${isClosing ? 'closing' : ''}`} onClick={(e) => e.stopPropagation()}>
         {/* Close button */}
-        <button className="life-event-close" onClick={handleClose} title="Dismiss">
-          ×
-        </button>
+        {!awaitingChoice && (
+          <button className="life-event-close" onClick={handleClose} title={t('lifeEvent.dismiss')}>
+            ×
+          </button>
+        )}
 
         {/* Icon & Title */}
         <div className="life-event-header">
@@ -65,7 +90,7 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
             {event.type === 'loss' ? '⚠️' : '🎉'}
           </div>
           <h3 className="life-event-title">
-            {event.type === 'loss' ? 'Unexpected Expense' : 'Good News!'}
+            {event.type === 'loss' ? t('lifeEvent.lossTitle') : t('lifeEvent.gainTitle')}
           </h3>
         </div>
 
@@ -75,32 +100,83 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
         {/* Amount Display */}
         <div className={`life-event-amount-container ${event.type}`}>
           <span className="life-event-amount-label">
-            {event.type === 'loss' ? 'Amount Deducted' : 'Amount Received'}
+            {awaitingChoice ? t('lifeEvent.estimatedCost') : event.type === 'loss' ? t('lifeEvent.amountDeducted') : t('lifeEvent.amountReceived')}
           </span>
           <span className={`life-event-amount ${event.type}`}>
-            {event.type === 'loss' ? '-' : '+'}₹{Math.abs(event.amount).toLocaleString('en-IN')}
+            {event.type === 'loss' ? '-' : '+'}₹{formatIndianNumber(event.amount)}
           </span>
         </div>
 
+        {/* Choices - how to deal with the expense */}
+        {awaitingChoice && (
+          <div className="life-event-choices">
+            <div className="life-event-choices-title">{t('lifeEvent.choicesTitle')}</div>
+            {event.choices!.map(choice => (
+              <button
+                key={choice.id}
+                className="life-event-choice"
+                onClick={() => handleChoose(choice.id)}
+                disabled={isChoosing}
+              >
+                <span className="choice-label">{choice.label}</span>
+                <span className="choice-cost">-₹{formatIndianNumber(Math.abs(event.amount) * choice.amountFactor)}</span>
+              </button>
+            ))}
+            {event.insuranceType && (
+              <div className="life-event-choices-note">{t('lifeEvent.insuranceNote')}</div>
+            )}
+          </div>
+        )}
+
+        {/* Settlement breakdown - choice, insurance cover, FDs broken */}
+        {showBreakdown && (
+          <div className="life-event-breakdown">
+            {chosen && (
+              <div className="recovery-row">
+                <span className="recovery-label">{t('lifeEvent.choice')}</span>
+                <span className="recovery-value">{chosen.label}</span>
+              </div>
+            )}
+            {!!event.insuranceCover && (
+              <>
+                <div className="recovery-row">
+                  <span className="recovery-label">{t('lifeEvent.totalCost')}</span>
+                  <span className="recovery-value debt-amount">-₹{formatIndianNumber(event.grossAmount || 0)}</span>
+                </div>
+                <div className="recovery-row">
+                  <span className="recovery-label">{t('lifeEvent.insurancePaid')}</span>
+                  <span className="recovery-value gain-amount">+₹{formatIndianNumber(event.insuranceCover)}</span>
+                </div>
+              </>
+            )}
+            {!!event.fdBroken && (
+              <div className="recovery-row">
+                <span className="recovery-label">{t('lifeEvent.fdsBroken')}</span>
+                <span className="recovery-value">₹{formatIndianNumber(event.fdBroken)}</span>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Status Section */}
         {isInDebt && (
           <div className="life-event-status debt">
             <div className="status-icon">🔴</div>
             <div className="status-content">
-              <div className="status-title">You Are In Debt</div>
-              <div className="status-debt">Current Debt: ₹{(event.remainingDebt || 0).toLocaleString('en-IN')}</div>
+              <div className="status-title">{t('lifeEvent.inDebtTitle')}</div>
+              <div className="status-debt">{t('lifeEvent.currentDebt', { amount: formatIndianNumber(event.remainingDebt || 0) })}</div>
               <div className="status-actions">
                 <div className="status-action-item">
                   <span className="action-icon">💰</span>
-                  <span>Sell assets to clear debt</span>
+                  <span>{t('lifeEvent.sellAssets')}</span>
                 </div>
                 <div className="status-action-item">
                   <span className="action-icon">⏳</span>
-                  <span>Wait for monthly income</span>
+                  <span>{t('lifeEvent.waitIncome')}</span>
                 </div>
               </div>
               <div className="status-note">
-                All purchase actions are temporarily disabled
+                {t('lifeEvent.purchasesDisabled')}
               </div>
             </div>
           </div>
@@ -110,9 +186,9 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
           <div className="life-event-status success">
             <div className="status-icon">✅</div>
             <div className="status-content">
-              <div className="status-title">Payment Successful</div>
+              <div className="status-title">{t('lifeEvent.paymentSuccessful')}</div>
               <div className="status-message">
-                Funds were deducted from your pocket cash
+                {t('lifeEvent.paymentMessage')}
               </div>
             </div>
           </div>
@@ -122,9 +198,9 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
           <div className="life-event-status success">
             <div className="status-icon">💰</div>
             <div className="status-content">
-              <div className="status-title">Funds Added</div>
+              <div className="status-title">{t('lifeEvent.fundsAdded')}</div>
               <div className="status-message">
-                Money has been credited to your pocket cash
+                {t('lifeEvent.fundsAddedMessage')}
               </div>
             </div>
           </div>
@@ -135,24 +211,24 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
           <div className="life-event-status debt-recovery cleared">
             <div className="status-icon recovery-icon">🎉</div>
             <div className="status-content">
-              <div className="status-title recovery-title">Debt Cleared!</div>
+              <div className="status-title recovery-title">{t('lifeEvent.debtCleared')}</div>
               <div className="debt-recovery-details">
                 <div className="recovery-row">
-                  <span className="recovery-label">Previous Debt:</span>
-                  <span className="recovery-value debt-amount">-₹{previousDebt.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.previousDebt')}</span>
+                  <span className="recovery-value debt-amount">-₹{formatIndianNumber(previousDebt)}</span>
                 </div>
                 <div className="recovery-row">
-                  <span className="recovery-label">Payment Received:</span>
-                  <span className="recovery-value gain-amount">+₹{event.amount.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.paymentReceived')}</span>
+                  <span className="recovery-value gain-amount">+₹{formatIndianNumber(event.amount)}</span>
                 </div>
                 <div className="recovery-divider"></div>
                 <div className="recovery-row final">
-                  <span className="recovery-label">New Balance:</span>
-                  <span className="recovery-value success-amount">₹{event.postPocketCash?.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.newBalance')}</span>
+                  <span className="recovery-value success-amount">₹{formatIndianNumber(postPocketCashValue)}</span>
                 </div>
               </div>
               <div className="status-message recovery-message">
-                ✅ You are no longer in debt! All purchase actions are now available.
+                {t('lifeEvent.debtClearedMessage')}
               </div>
             </div>
           </div>
@@ -163,24 +239,24 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
           <div className="life-event-status debt-recovery partial">
             <div className="status-icon">💰</div>
             <div className="status-content">
-              <div className="status-title">Debt Reduced</div>
+              <div className="status-title">{t('lifeEvent.debtReduced')}</div>
               <div className="debt-recovery-details">
                 <div className="recovery-row">
-                  <span className="recovery-label">Previous Debt:</span>
-                  <span className="recovery-value debt-amount">-₹{previousDebt.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.previousDebt')}</span>
+                  <span className="recovery-value debt-amount">-₹{formatIndianNumber(previousDebt)}</span>
                 </div>
                 <div className="recovery-row">
-                  <span className="recovery-label">Payment Received:</span>
-                  <span className="recovery-value gain-amount">+₹{event.amount.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.paymentReceived')}</span>
+                  <span className="recovery-value gain-amount">+₹{formatIndianNumber(event.amount)}</span>
                 </div>
                 <div className="recovery-divider"></div>
                 <div className="recovery-row final">
-                  <span className="recovery-label">Remaining Debt:</span>
-                  <span className="recovery-value debt-amount">-₹{remainingDebt.toLocaleString('en-IN')}</span>
+                  <span className="recovery-label">{t('lifeEvent.remainingDebt')}</span>
+                  <span className="recovery-value debt-amount">-₹{formatIndianNumber(remainingDebt)}</span>
                 </div>
               </div>
               <div className="status-message recovery-message">
-                ⚡ You are still in debt. Continue selling assets or wait for more income.
+                {t('lifeEvent.stillInDebtMessage')}
               </div>
             </div>
           </div>
@@ -188,7 +264,7 @@ export const LifeEventPopup: React.FC<Props> = ({ event, onClose }) => {
 
         {/* Dismiss hint */}
         <div className="life-event-hint">
-          Click anywhere to dismiss
+          {awaitingChoice ? t('lifeEvent.pickOption') : t('lifeEvent.clickDismiss')}
         </div>
       </div>
     </div>
@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { lifeEventPoolApi } from '../services/adminApi';
+import { Language, LifeEventTemplate, LifeEventTranslation } from '../types';
+import { LANGUAGE_OPTIONS } from '../utils/i18n';
+import './TaxSettingsFields.css';
+import './FDRatesEditor.css';
+import './AdminContentEditor.css';
+
+const TRANSLATION_LANGUAGES = LANGUAGE_OPTIONS.filter(option => option.value !== 'en');
+const EMPTY_TRANSLATION: LifeEventTranslation = { message: '', choiceLabels: {} };
+
+// Players see the translation of an event in their language; events without one stay in English
+export const LifeEventTranslationEditor: React.FC = () => {
+  const [language, setLanguage] = useState<Language>(TRANSLATION_LANGUAGES[0].value);
+  const [templates, setTemplates] = useState<LifeEventTemplate[]>([]);
+  const [translations, setTranslations] = useState<{ [eventId: number]: LifeEventTranslation }>({});
+  const [editing, setEditing] = useState<LifeEventTemplate | null>(null);
+  const [form, setForm] = useState<LifeEventTranslation>(EMPTY_TRANSLATION);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadTranslations = async () => {
+    const response = await lifeEventPoolApi.getTranslations(language);
+    if (response.success && response.translations) {
+      setTranslations(response.translations);
+    } else {
+      setMessage(response.message || 'Failed to load translations');
+    }
+  };
+
+  useEffect(() => {
+    lifeEventPoolApi.getTemplates().then(response => {
+      if (response.success && response.templates) {
+        setTemplates(response.templates);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    setEditing(null);
+    loadTranslations();
+  }, [language]);
+
+  const editTranslation = (template: LifeEventTemplate) => {
+    setEditing(template);
+    setForm(translations[template.id!] || EMPTY_TRANSLATION);
+  };
+
+  const handleSave = async () => {
+    if (!editing?.id) return;
+    setBusy(true);
+    const response = await lifeEventPoolApi.saveTranslation(editing.id, language, form);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      setEditing(null);
+      await loadTranslations();
+    }
+  };
+
+  const handleDelete = async (template: LifeEventTemplate) => {
+    if (!template.id || !confirm(`Delete the translation of "${template.message}"?`)) {
+      return;
+    }
+    setBusy(true);
+    const response = await lifeEventPoolApi.deleteTranslation(template.id, language);
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      await loadTranslations();
+    }
+  };
+
+  return (
+    <div className="tax-settings-fields">
+      <label className="tax-settings-field">
+        <span>Language</span>
+        <select value={language} onChange={(e) => setLanguage(e.target.value as Language)}>
+          {TRANSLATION_LANGUAGES.map(option => (
+            <option key={option.value} value={option.value} style={{ color: '#000' }}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="fd-rates-editor-list admin-content-editor-list">
+        {templates.map(template => (
+          <div key={template.id} className={`admin-content-editor-row ${template.enabled === false ? 'disabled' : ''}`}>
+            <span>{translations[template.id!]?.message || template.message}</span>
+            <span>{translations[template.id!] ? 'Translated' : 'English only'}</span>
+            <button type="button" onClick={() => editTranslation(template)} disabled={busy}>Translate</button>
+            <button type="button" onClick={() => handleDelete(template)} disabled={busy || !translations[template.id!]}>Delete</button>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <>
+          <p className="fd-rates-editor-message">{editing.message}</p>
+          <label className="tax-settings-field">
+            <span>Translated message</span>
+            <input
+              type="text"
+              value={form.message}
+              onChange={(e) => setForm({ ...form, message: e.target.value })}
+            />
+          </label>
+          {(editing.choices || []).map(choice => (
+            <label key={choice.id} className="tax-settings-field">
+              <span>Choice: {choice.label}</span>
+              <input
+                type="text"
+                placeholder={choice.label}
+                value={form.choiceLabels?.[choice.id] || ''}
+                onChange={(e) => setForm({ ...form, choiceLabels: { ...form.choiceLabels, [choice.id]: e.target.value } })}
+              />
+            </label>
+          ))}
+          <div className="admin-content-editor-actions">
+            <button type="button" className="fd-rates-editor-save" onClick={handleSave} disabled={busy}>
+              {busy ? 'Saving...' : 'Save Translation'}
+            </button>
+            <button type="button" className="fd-rates-editor-save" onClick={() => setEditing(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+      <p className="fd-rates-editor-message">
+        Choices left blank keep their English label. Multiplayer rooms pick up changes when the next game starts.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { FixedDeposit, Loan, LoanSettings, LoanType } from '../types';
+import { formatIndianNumber } from '../utils/constants';
+import { calculateEMI, getLoanRate, getPledgedGoldQuantity, isFDPledged, LoanTenure, MAX_ACTIVE_LOANS } from '../utils/loans';
+import './AssetCard.css';
+import './StockTooltip.css';
+import './LoanCard.css';
+import { ConfirmModal } from './ConfirmModal';
+
+interface LoanCardProps {
+  loans: Loan[];
+  pocketCash: number;
+  settings: LoanSettings;
+  fixedDeposits: FixedDeposit[];
+  physicalGoldQuantity: number;
+  goldPrice: number;
+  onTakeLoan: (type: LoanType, amount: number, tenureMonths: LoanTenure, options: { fdId?: string; goldPrice?: number }) => void;
+  onRepay: (loanId: string) => void;
+}
+
+const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  personal: 'Personal',
+  fdBacked: 'Against FD',
+  goldBacked: 'Against Gold',
+};
+
+export const LoanCard: React.FC<LoanCardProps> = ({
+  loans,
+  pocketCash,
+  settings,
+  fixedDeposits,
+  physicalGoldQuantity,
+  goldPrice,
+  onTakeLoan,
+  onRepay
+}) => {
+  const [showInput, setShowInput] = useState(false);
+  const [inputAmount, setInputAmount] = useState('');
+  const [loanType, setLoanType] = useState<LoanType>('personal');
+  const [selectedTenure, setSelectedTenure] = useState<LoanTenure>(12);
+  const [selectedFdId, setSelectedFdId] = useState('');
+  const [isShaking, setIsShaking] = useState(false);
+  const [loanToRepay, setLoanToRepay] = useState<Loan | null>(null);
+
+  // Running FDs that are not already backing a loan
+  const pledgeableFDs = fixedDeposits.filter(fd => !fd.isMatured && !isFDPledged(loans, fd.id));
+  const selectedFD = pledgeableFDs.find(fd => fd.id === selectedFdId);
+  const freeGold = Math.max(0, physicalGoldQuantity - getPledgedGoldQuantity(loans));
+  const personalBorrowed = loans.filter(loan => loan.type === 'personal').reduce((sum, loan) => sum + loan.outstanding, 0);
+
+  const borrowingLimit =
+    loanType === 'personal' ? Math.max(0, settings.maxPersonalLoan - personalBorrowed) :
+      loanType === 'fdBacked' ? (selectedFD ? selectedFD.amount * settings.loanToValue : 0) :
+        freeGold * goldPrice * settings.loanToValue;
+
+  const amount = parseFloat(inputAmount);
+  const previewEMI = amount > 0 ? calculateEMI(amount, getLoanRate(loanType, settings), selectedTenure) : 0;
+
+  // Trigger shake animation
+  const triggerShake = () => {
+    setIsShaking(true);
+    setTimeout(() => setIsShaking(false), 500);
+  };
+
+  const handleTakeLoan = () => {
+    if (isNaN(amount) || amount <= 0 || amount > borrowingLimit) {
+      triggerShake();
+      return;
+    }
+
+    onTakeLoan(loanType, amount, selectedTenure, {
+      fdId: loanType === 'fdBacked' ? selectedFdId : undefined,
+      goldPrice: loanType === 'goldBacked' ? goldPrice : undefined
+    });
+    setShowInput(false);
+    setInputAmount('');
+  };
+
+  const handleConfirmRepay = () => {
+    if (loanToRepay) {
+      onRepay(loanToRepay.id);
+    }
+    setLoanToRepay(null);
+  };
+
+  return (
+    <div className={`asset-card fd-card ${isShaking ? 'shake' : ''}`}>
+      <div className="asset-tooltip-wrapper">
+        <h3 className="card-title">LOANS</h3>
+        <div className="asset-tooltip">
+          <div className="tooltip-full-name">Loans & Overdraft</div>
+          <div className="tooltip-sector">Banking - Borrowing</div>
+          <div className="tooltip-description">Borrow now and repay in monthly EMIs. Loans against an FD or physical gold are cheaper but lock the collateral until repaid. Negative pocket cash is charged overdraft interest</div>
+        </div>
+      </div>
+
+      <div className="fd-rates">
+        <div className="rate-item">
+          <span className="rate-label">Personal</span>
+          <span className="rate-value">{(settings.personalLoanRate * 100).toFixed(1)}% PA</span>
+        </div>
+        <div className="rate-item">
+          <span className="rate-label">Secured</span>
+          <span className="rate-value">{(settings.securedLoanRate * 100).toFixed(1)}% PA</span>
+        </div>
+        <div className="rate-item">
+          <span className="rate-label">Overdraft</span>
+          <span className="rate-value">{(settings.overdraftRate * 100).toFixed(1)}% PA</span>
+        </div>
+      </div>
+
+      {pocketCash < 0 && (
+        <div className="loan-overdraft-notice">
+          Overdraft: ₹{formatIndianNumber(Math.abs(pocketCash))} is being charged interest
+        </div>
+      )}
+
+      {loans.length < MAX_ACTIVE_LOANS && !showInput && (
+        <button className="action-button create-fd-btn" onClick={() => setShowInput(true)}>
+          Take Loan
+        </button>
+      )}
+
+      {showInput && (
+        <div className="input-section">
+          <div className="duration-selector">
+            {(Object.keys(LOAN_TYPE_LABELS) as LoanType[]).map(type => (
+              <button
+                key={type}
+                className={`duration-btn ${loanType === type ? 'active' : ''}`}
+                onClick={() => setLoanType(type)}
+              >
+                {LOAN_TYPE_LABELS[type]}
+              </button>
+            ))}
+          </div>
+
+          {loanType === 'fdBacked' && (
+            <select
+              className="loan-select"
+              value={selectedFdId}
+              onChange={(e) => setSelectedFdId(e.target.value)}
+            >
+              <option value="">{pledgeableFDs.length > 0 ? 'Choose an FD to pledge' : 'No running FDs to pledge'}</option>
+              {pledgeableFDs.map(fd => (
+                <option key={fd.id} value={fd.id}>
+                  ₹{formatIndianNumber(fd.amount)} - {fd.duration / 12}Yr @ {fd.interestRate}%
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="duration-selector">
+            {([12, 24, 36] as LoanTenure[]).map(tenure => (
+              <button
+                key={tenure}
+                className={`duration-btn ${selectedTenure === tenure ? 'active' : ''}`}
+                onClick={() => setSelectedTenure(tenure)}
+              >
+                {tenure / 12} Yr
+              </button>
+            ))}
+          </div>
+
+          <div className="loan-limit">
+            Limit: ₹{formatIndianNumber(borrowingLimit)}
+            {previewEMI > 0 && ` · EMI ₹${formatIndianNumber(previewEMI)}/mo`}
+          </div>
+
+          <div className="input-container">
+            <input
+              type="number"
+              className="amount-input"
+              value={inputAmount}
+              onChange={(e) => setInputAmount(e.target.value)}
+              placeholder="Enter amount"
+            />
+            <button className="max-button" onClick={() => setInputAmount(Math.floor(borrowingLimit).toString())}>
+              MAX
+            </button>
+          </div>
+
+          <div className="button-group">
+            <button className="action-button confirm-btn" onClick={handleTakeLoan}>
+              Borrow
+            </button>
+            <button className="action-button cancel-btn" onClick={() => setShowInput(false)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="fd-list">
+        {loans.map(loan => {
+          const repaidPercentage = ((loan.principal - loan.outstanding) / loan.principal) * 100;
+
+          return (
+            <div key={loan.id} className="fd-item loan-item">
+              <div className="fd-progress-bar">
+                <div
+                  className="fd-progress-fill"
+                  style={{ width: `${repaidPercentage}%` }}
+                />
+              </div>
+              <div className="fd-info">
+                <span>₹{formatIndianNumber(loan.outstanding)}</span>
+                <span className="fd-duration-responsive">{LOAN_TYPE_LABELS[loan.type]}</span>
+                <span className="fd-rate-responsive">{loan.interestRate.toFixed(1)}%PA</span>
+                <div className="fd-pnl">EMI ₹{formatIndianNumber(loan.emi)}</div>
+                <button className="collect-btn" onClick={() => setLoanToRepay(loan)}>
+                  Repay
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {loans.length >= MAX_ACTIVE_LOANS && (
+        <div className="max-fd-notice">Maximum {MAX_ACTIVE_LOANS} loans reached</div>
+      )}
+
+      <ConfirmModal
+        isOpen={loanToRepay !== null}
+        title="Repay Loan?"
+        message={loanToRepay ? `Pay ₹${formatIndianNumber(loanToRepay.outstanding)} from pocket cash to close this loan now?` : ''}
+        onConfirm={handleConfirmRepay}
+        onCancel={() => setLoanToRepay(null)}
+      />
+    </div>
+  );
+};
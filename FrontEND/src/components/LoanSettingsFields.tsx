@@ -0,0 +1,65 @@
+import React from 'react';
+import { LoanSettings } from '../types';
+import { DEFAULT_LOAN_SETTINGS } from '../utils/loans';
+import './TaxSettingsFields.css';
+
+interface LoanSettingsFieldsProps {
+  value?: LoanSettings;
+  onChange: (loanSettings: LoanSettings) => void;
+}
+
+// Annual rates and loan-to-value are edited as percentages and stored as fractions
+const RATE_FIELDS: Array<{ key: keyof LoanSettings; label: string }> = [
+  { key: 'personalLoanRate', label: 'Personal loan rate % PA' },
+  { key: 'securedLoanRate', label: 'Loan against FD/gold rate % PA' },
+  { key: 'overdraftRate', label: 'Overdraft rate % PA' },
+  { key: 'loanToValue', label: 'Loan-to-value %' },
+];
+
+const toPercent = (fraction: number) => Math.round(fraction * 100 * 100) / 100;
+
+export const LoanSettingsFields: React.FC<LoanSettingsFieldsProps> = ({ value, onChange }) => {
+  const loanSettings = value || DEFAULT_LOAN_SETTINGS;
+  const update = (changes: Partial<LoanSettings>) => onChange({ ...loanSettings, ...changes });
+
+  return (
+    <div className="tax-settings-fields">
+      <label className="tax-settings-toggle">
+        <input
+          type="checkbox"
+          checked={loanSettings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <span>Allow loans and charge overdraft interest on negative cash</span>
+      </label>
+
+      {loanSettings.enabled && (
+        <div className="tax-settings-grid">
+          {RATE_FIELDS.map(field => (
+            <label key={field.key} className="tax-settings-field">
+              <span>{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={0.5}
+                value={toPercent(loanSettings[field.key] as number)}
+                onChange={(e) => update({ [field.key]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+              />
+            </label>
+          ))}
+          <label className="tax-settings-field">
+            <span>Max personal loan (₹)</span>
+            <input
+              type="number"
+              min={0}
+              step={10000}
+              value={loanSettings.maxPersonalLoan}
+              onChange={(e) => update({ maxPersonalLoan: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React from 'react';
 import { AdminSettingsButton } from './AdminSettingsButton';
+import { LanguagePicker } from './LanguagePicker';
+import { useLanguage } from '../contexts/LanguageContext';
 import './MainMenu.css';
 
 interface MainMenuProps {
@@ -8,6 +10,8 @@ interface MainMenuProps {
 }
 
 export const MainMenu: React.FC<MainMenuProps> = ({ onStartSolo, onStartMulti }) => {
+  const { t } = useLanguage();
+
   return (
     <div className="main-menu">
       <AdminSettingsButton />
@@ -16,14 +20,15 @@ export const MainMenu: React.FC<MainMenuProps> = ({ onStartSolo, onStartMulti })
 
         <img src="/BullRunNewLogo.png" alt="BullRun Logo" className="game-logo-img" />
         <h1 className="game-title">BULL RUN</h1>
-        <p className="game-subtitle">A Financial Investment Journey</p>
+        <p className="game-subtitle">{t('menu.subtitle')}</p>
+        <LanguagePicker />
 
         <div className="menu-buttons">
           <button className="menu-button settings-button" onClick={onStartSolo}>
-            SOLO GAME
+            {t('menu.solo')}
           </button>
           <button className="menu-button multi-button" onClick={onStartMulti}>
-            MULTI MODE
+            {t('menu.multi')}
           </button>
         </div>
 
@@ -5,13 +5,22 @@ import './MiniChart.css';
 interface MiniChartProps {
   data: number[];
   isPositive: boolean;
+  purchasingPower?: number[]; // Value of ₹1 of cash per month, aligned to the end of data
 }
 
-export const MiniChart: React.FC<MiniChartProps> = ({ data, isPositive }) => {
+export const MiniChart: React.FC<MiniChartProps> = ({ data, isPositive, purchasingPower }) => {
   // Memoize chart data to prevent unnecessary re-renders
   const chartData = useMemo(() => {
-    return data.map((value, index) => ({ value, index }));
-  }, [data]);
+    // Cash worth the first price, shrinking with inflation - the line the asset has to beat
+    const power = purchasingPower && purchasingPower.length >= data.length
+      ? purchasingPower.slice(purchasingPower.length - data.length)
+      : null;
+    return data.map((value, index) => ({
+      value,
+      index,
+      cash: power ? data[0] * (power[index] / power[0]) : undefined,
+    }));
+  }, [data, purchasingPower]);
 
   // Check if we have valid data (not all zeros)
   const hasValidData = useMemo(() => {
@@ -44,6 +53,17 @@ export const MiniChart: React.FC<MiniChartProps> = ({ data, isPositive }) => {
             animationDuration={300}
             animationEasing="ease-in-out"
           />
+          {purchasingPower && (
+            <Line
+              type="monotone"
+              dataKey="cash"
+              stroke="#9E9E9E"
+              strokeWidth={1}
+              strokeDasharray="3 3"
+              dot={false}
+              isAnimationActive={false}
+            />
+          )}
         </LineChart>
       </ResponsiveContainer>
     </div>
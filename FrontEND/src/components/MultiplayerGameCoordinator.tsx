@@ -15,6 +15,11 @@ export const MultiplayerGameCoordinator: React.FC = () => {
     return <HostSpectatorView />;
   }
 
+  // Spectators watch the same leaderboard without any controls
+  if (multiplayerMode === 'spectator') {
+    return <HostSpectatorView readOnly />;
+  }
+
   // Players see the game
   if (multiplayerMode === 'player-game') {
     return <PlayerGameWrapper />;
@@ -2,6 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useMultiplayer } from '../contexts/MultiplayerContext';
 import { AdminSettings } from '../types';
 import { adminSettingsApi } from '../services/adminApi';
+import { PlayerInfo } from '../types/multiplayer';
+import { ConfirmModal } from './ConfirmModal';
+import { getTotalGameYears } from '../utils/constants';
+import { getScenario, withScenario } from '../utils/scenarios';
+import { ScenarioSettingsFields } from './ScenarioSettingsFields';
 import './MultiplayerLobby.css';
 
 interface MultiplayerLobbyProps {
@@ -11,11 +16,18 @@ interface MultiplayerLobbyProps {
 export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) => {
   const {
     roomInfo,
+    playerId,
     isConnected,
+    startCountdownEndsAt,
     createRoom,
     joinRoom,
+    joinAsSpectator,
     leaveRoom,
     startGame,
+    designateSuccessor,
+    kickPlayer,
+    setReady,
+    setReadyRule,
     error,
     clearError,
   } = useMultiplayer();
@@ -23,14 +35,26 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
   const [mode, setMode] = useState<'menu' | 'create' | 'join'>('menu');
   const [playerName, setPlayerName] = useState('');
   const [roomCode, setRoomCode] = useState('');
+  const [maxPlayers, setMaxPlayers] = useState('');
+  const [passcode, setPasscode] = useState('');
+  const [playerToKick, setPlayerToKick] = useState<PlayerInfo | null>(null);
   const [adminSettings, setAdminSettings] = useState<AdminSettings | null>(null);
   const [loadingSettings, setLoadingSettings] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   // Load global admin settings on mount
   useEffect(() => {
     loadAdminSettings();
   }, []);
 
+  // Tick while the start countdown is running so the seconds update
+  useEffect(() => {
+    if (startCountdownEndsAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [startCountdownEndsAt]);
+
   const loadAdminSettings = async () => {
     setLoadingSettings(true);
     const response = await adminSettingsApi.getSettings();
@@ -39,7 +63,7 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
     } else {
       // Use default settings if server is unavailable
       setAdminSettings({
-        selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'CRYPTO', 'REIT', 'COMMODITIES'],
+        selectedCategories: ['BANKING', 'GOLD', 'STOCKS', 'FUNDS', 'REIT', 'COMMODITIES', 'BONDS'],
         gameStartYear: 2005,
         hideCurrentYear: false,
         initialPocketCash: 100000,
@@ -52,12 +76,27 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
 
   const handleCreateRoom = async () => {
     if (!playerName.trim()) return;
-    await createRoom(playerName);
+    await createRoom(playerName, {
+      maxPlayers: maxPlayers ? parseInt(maxPlayers, 10) : undefined,
+      passcode: passcode.trim() || undefined,
+    });
   };
 
   const handleJoinRoom = async () => {
     if (!playerName.trim() || !roomCode.trim()) return;
-    await joinRoom(roomCode.toUpperCase(), playerName);
+    await joinRoom(roomCode.toUpperCase(), playerName, passcode.trim() || undefined);
+  };
+
+  const handleWatchRoom = async () => {
+    if (!playerName.trim() || !roomCode.trim()) return;
+    await joinAsSpectator(roomCode.toUpperCase(), playerName, passcode.trim() || undefined);
+  };
+
+  const handleConfirmKick = async () => {
+    if (!playerToKick) return;
+    const target = playerToKick;
+    setPlayerToKick(null);
+    await kickPlayer(target.id);
   };
 
   const handleStartGame = async () => {
@@ -73,6 +112,8 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
     setMode('menu');
     setPlayerName('');
     setRoomCode('');
+    setMaxPlayers('');
+    setPasscode('');
   };
 
   // Not in a room - show menu
@@ -130,6 +171,21 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
                 onChange={(e) => setPlayerName(e.target.value)}
                 maxLength={15}
               />
+              <input
+                type="number"
+                placeholder="Max players (optional)"
+                value={maxPlayers}
+                onChange={(e) => setMaxPlayers(e.target.value)}
+                min={2}
+                max={50}
+              />
+              <input
+                type="text"
+                placeholder="Room passcode (optional)"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                maxLength={20}
+              />
               <div className="form-buttons">
                 <button onClick={handleCreateRoom} disabled={!playerName.trim()}>
                   CREATE
@@ -156,6 +212,13 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
                 onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
                 maxLength={6}
               />
+              <input
+                type="text"
+                placeholder="Room passcode (if required)"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                maxLength={20}
+              />
               <div className="form-buttons">
                 <button
                   onClick={handleJoinRoom}
@@ -163,6 +226,13 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
                 >
                   JOIN
                 </button>
+                <button
+                  onClick={handleWatchRoom}
+                  disabled={!playerName.trim() || roomCode.length !== 6}
+                  title="Watch the leaderboard without playing"
+                >
+                  WATCH
+                </button>
                 <button onClick={() => setMode('menu')}>CANCEL</button>
               </div>
             </div>
@@ -174,9 +244,17 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
 
   // In a room - show lobby
   const isHost = roomInfo.isHost;
+  const spectatorCount = roomInfo.spectators?.length ?? 0;
   // Count non-host players (host doesn't count as a player)
-  const nonHostPlayerCount = roomInfo.players.filter(p => !p.isHost).length;
-  const canStart = nonHostPlayerCount >= 2 && isHost && adminSettings !== null;
+  const nonHostPlayers = roomInfo.players.filter(p => !p.isHost);
+  const nonHostPlayerCount = nonHostPlayers.length;
+  const allReady = nonHostPlayers.every(p => p.isReady);
+  const me = roomInfo.players.find(p => p.id === playerId);
+  const countdownSeconds = startCountdownEndsAt !== null
+    ? Math.max(0, Math.ceil((startCountdownEndsAt - now) / 1000))
+    : null;
+  const canStart = nonHostPlayerCount >= 2 && isHost && adminSettings !== null
+    && (!roomInfo.requireAllReady || allReady) && countdownSeconds === null;
 
   return (
     <div className="multiplayer-lobby">
@@ -189,6 +267,9 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
           <h2>Room Code</h2>
           <div className="room-code">{roomInfo.roomId}</div>
           <p className="room-hint">Share this code with other players</p>
+          {isHost && roomInfo.passcode && (
+            <p className="room-passcode">🔒 Passcode: <strong>{roomInfo.passcode}</strong></p>
+          )}
         </div>
 
         {error && (
@@ -202,7 +283,7 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
           {/* Players List */}
           <div className="players-section">
             <h2>
-              Players ({nonHostPlayerCount})
+              Players ({nonHostPlayerCount}{roomInfo.maxPlayers ? `/${roomInfo.maxPlayers}` : ''})
               {nonHostPlayerCount < 2 && <span className="min-players-warning"> - Need 2 minimum</span>}
             </h2>
             <div className="players-list">
@@ -211,17 +292,48 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
                   <span className="player-name">
                     {player.name}
                     {player.isHost && <span className="host-badge">HOST</span>}
+                    {!player.isHost && (
+                      <span className={player.isReady ? 'ready-badge' : 'not-ready-badge'}>
+                        {player.isReady ? 'READY' : 'NOT READY'}
+                      </span>
+                    )}
+                    {player.isConnected === false && <span className="reconnecting-badge">RECONNECTING</span>}
+                    {roomInfo.successorId === player.id && <span className="successor-badge">NEXT HOST</span>}
                   </span>
+                  {isHost && !player.isHost && (
+                    <button
+                      className="successor-button"
+                      onClick={() => designateSuccessor(roomInfo.successorId === player.id ? null : player.id)}
+                      title="Takes over as host if you leave"
+                    >
+                      {roomInfo.successorId === player.id ? 'UNSET' : 'MAKE NEXT HOST'}
+                    </button>
+                  )}
+                  {isHost && !player.isHost && (
+                    <button
+                      className="kick-button"
+                      onClick={() => setPlayerToKick(player)}
+                      title="Remove this player and stop them rejoining"
+                    >
+                      KICK
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
+            {spectatorCount > 0 && (
+              <p className="spectators-note">👁 {spectatorCount} watching</p>
+            )}
           </div>
 
           {/* Game Rules */}
           <div className="settings-info">
             <h2>How to Play Bull Run</h2>
             <div className="settings-summary">
-              <p className="settings-detail"> <strong>Goal:</strong> Build the highest net worth in 20 game years</p>
+              <p className="settings-detail"> <strong>Goal:</strong> Build the highest net worth in {getTotalGameYears(adminSettings)} game years</p>
+              {isHost && getScenario(adminSettings?.scenarioId) && (
+                <p className="settings-detail"> <strong>Scenario:</strong> {getScenario(adminSettings?.scenarioId)?.name}</p>
+              )}
               <p className="settings-detail"> <strong>Invest:</strong> Buy & sell stocks, gold, mutual funds & more</p>
               <p className="settings-detail"> <strong>Grow:</strong> New assets unlock as the game progresses</p>
               <p className="settings-detail"> <strong>Learn:</strong> Answer quizzes to earn bonus income</p>
@@ -232,14 +344,57 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
           </div>
 
           {/* Waiting message */}
+          {countdownSeconds !== null && (
+            <div className="start-countdown">
+              Game starting in {countdownSeconds}...
+            </div>
+          )}
+
+          {/* Ready toggle (players only) */}
+          {!isHost && !roomInfo.isSpectator && me && (
+            <button
+              className={`ready-button ${me.isReady ? 'is-ready' : ''}`}
+              onClick={() => setReady(!me.isReady)}
+            >
+              {me.isReady ? "✓ READY - CLICK TO UNREADY" : "I'M READY"}
+            </button>
+          )}
+
           {!isHost && (
             <div className="waiting-message">
+              {roomInfo.isSpectator && <p>You are watching this room - you won't be on the leaderboard.</p>}
               <p>Waiting for host to start the game...</p>
+              {roomInfo.requireAllReady && !allReady && <p className="warning">Host will start once everyone is ready</p>}
               {nonHostPlayerCount < 2 && <p className="warning">Need at least 2 players</p>}
             </div>
           )}
         </div>
 
+        {/* Ready rule (Host Only) */}
+        {isHost && (
+          <label className="ready-rule-toggle">
+            <input
+              type="checkbox"
+              checked={roomInfo.requireAllReady ?? false}
+              onChange={(e) => setReadyRule(e.target.checked)}
+              disabled={countdownSeconds !== null}
+            />
+            Start only when all players are ready
+          </label>
+        )}
+
+        {/* Historical scenario for this room (Host Only) - overrides the global default */}
+        {isHost && adminSettings && (
+          <div className="scenario-select">
+            <span>Historical scenario</span>
+            <ScenarioSettingsFields
+              value={adminSettings.scenarioId}
+              onChange={(scenarioId) => setAdminSettings(withScenario(adminSettings, scenarioId))}
+              disabled={countdownSeconds !== null}
+            />
+          </div>
+        )}
+
         {/* Start Game Button (Host Only) */}
         {isHost && (
           <button
@@ -251,11 +406,23 @@ export const MultiplayerLobby: React.FC<MultiplayerLobbyProps> = ({ onBack }) =>
               ? 'LOADING SETTINGS...'
               : !adminSettings
                 ? 'SETTINGS UNAVAILABLE'
-                : nonHostPlayerCount < 2
-                  ? 'WAITING FOR PLAYERS...'
-                  : 'START GAME'}
+                : countdownSeconds !== null
+                  ? `STARTING IN ${countdownSeconds}...`
+                  : nonHostPlayerCount < 2
+                    ? 'WAITING FOR PLAYERS...'
+                    : roomInfo.requireAllReady && !allReady
+                      ? 'WAITING FOR EVERYONE TO BE READY...'
+                      : 'START GAME'}
           </button>
         )}
+
+        <ConfirmModal
+          isOpen={playerToKick !== null}
+          title="Remove player?"
+          message={`${playerToKick?.name ?? 'This player'} will be removed and won't be able to rejoin this room.`}
+          onConfirm={handleConfirmKick}
+          onCancel={() => setPlayerToKick(null)}
+        />
       </div>
     </div>
   );
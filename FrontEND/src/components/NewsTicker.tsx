@@ -0,0 +1,34 @@
+import React from 'react';
+import { MarketNewsItem } from '../types';
+import './NewsTicker.css';
+
+interface NewsTickerProps {
+  items: MarketNewsItem[]; // Oldest first, as the calendar reached them
+  maxItems?: number;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const NewsTicker: React.FC<NewsTickerProps> = ({ items, maxItems = 6 }) => {
+  if (items.length === 0) return null;
+
+  // Newest headline leads the strip
+  const latest = items.slice(-maxItems).reverse();
+
+  return (
+    <div className="news-ticker">
+      <span className="news-ticker-label">NEWS</span>
+      <div className="news-ticker-window">
+        {/* Keyed on the newest item so the scroll restarts when a headline arrives */}
+        <div className="news-ticker-track" key={latest[0].id}>
+          {latest.map(item => (
+            <span key={item.id} className={`news-ticker-item news-${item.category.toLowerCase()}`}>
+              <span className="news-ticker-date">{MONTH_NAMES[item.month - 1]} {item.year}</span>
+              {item.headline}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
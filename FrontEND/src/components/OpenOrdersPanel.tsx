@@ -0,0 +1,78 @@
+import React from 'react';
+import { StandingOrder, OrderExecution, StandingOrderType } from '../types';
+import { formatIndianNumber } from '../utils/constants';
+import './OpenOrdersPanel.css';
+
+interface OpenOrdersPanelProps {
+  orders: StandingOrder[];
+  executions: OrderExecution[];
+  onCancel: (orderId: string) => void;
+}
+
+const ORDER_LABELS: Record<StandingOrderType, string> = {
+  limitBuy: 'LIMIT BUY',
+  limitSell: 'LIMIT SELL',
+  stopLoss: 'STOP-LOSS',
+  sip: 'SIP'
+};
+
+const describeOrder = (order: StandingOrder): string => {
+  if (order.type === 'sip') {
+    return `₹${formatIndianNumber(order.amount || 0)} every month`;
+  }
+  const comparison = order.type === 'limitBuy' || order.type === 'stopLoss' ? '≤' : '≥';
+  return `${order.quantity} @ ${comparison} ₹${formatIndianNumber(order.triggerPrice || 0)}`;
+};
+
+export const OpenOrdersPanel: React.FC<OpenOrdersPanelProps> = ({ orders, executions, onCancel }) => {
+  if (orders.length === 0 && executions.length === 0) return null;
+
+  return (
+    <div className="open-orders-panel">
+      <h4 className="open-orders-title">OPEN ORDERS</h4>
+      {orders.length === 0 ? (
+        <div className="open-orders-empty">No open orders</div>
+      ) : (
+        <ul className="open-orders-list">
+          {orders.map(order => (
+            <li key={order.id} className={`open-order open-order-${order.type}`}>
+              <div className="open-order-info">
+                <span className="open-order-type">{ORDER_LABELS[order.type]}</span>
+                <span className="open-order-asset">{order.assetName}</span>
+                <span className="open-order-detail">{describeOrder(order)}</span>
+                {order.lastRejection && (
+                  <span className="open-order-rejection">
+                    Not filled Y{order.lastRejection.gameYear} M{order.lastRejection.gameMonth}: {order.lastRejection.reason}
+                  </span>
+                )}
+              </div>
+              <button
+                type="button"
+                className="open-order-cancel"
+                onClick={() => onCancel(order.id)}
+                title="Cancel order"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {executions.length > 0 && (
+        <>
+          <h4 className="open-orders-title">RECENT FILLS</h4>
+          <ul className="order-executions-list">
+            {executions.slice(0, 5).map((execution, index) => (
+              <li key={`${execution.orderId}_${execution.gameYear}_${execution.gameMonth}_${index}`} className={`order-execution ${execution.side}`}>
+                <span>Y{execution.gameYear} M{execution.gameMonth}</span>
+                <span>{ORDER_LABELS[execution.type]}</span>
+                <span>{execution.side === 'buy' ? 'Bought' : 'Sold'} {execution.quantity} {execution.assetName} @ ₹{formatIndianNumber(execution.price)}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
@@ -4,7 +4,9 @@ import { useGameState } from '../hooks/useGameState';
 import { GameScreen } from './GameScreen';
 import { QuizWaitingOverlay } from './QuizWaitingOverlay';
 import { socketService } from '../services/socketService';
-import { GameState } from '../types';
+import { GameState, CorporateActionPayout, MarketNewsItem } from '../types';
+import { PlayerLedger, StandingOrderFill } from '../types/multiplayer';
+import { getGameEnd } from '../utils/scenarios';
 import './PlayerGameWrapper.css';
 
 export const PlayerGameWrapper: React.FC = () => {
@@ -13,6 +15,7 @@ export const PlayerGameWrapper: React.FC = () => {
     gameState: multiplayerGameState,
     leaderboard,
     updatePlayerState,
+    submitNetworth,
     notifyQuizStarted,
     notifyQuizCompleted
   } = useMultiplayer();
@@ -26,16 +29,30 @@ export const PlayerGameWrapper: React.FC = () => {
     createFixedDeposit,
     collectFD,
     breakFD,
+    takeLoan,
+    repayLoan,
+    buyBond,
+    sellBond,
+    buyInsurance,
+    cancelInsurance,
     buyAsset,
     sellAsset,
+    placeOrder,
+    cancelOrder,
+    evaluateOrders,
     togglePause,
     markQuizCompleted,
+    recordQuizResult,
     updateTime,
     updatePauseState,
     markGameAsEnded,
     isTransactionPending,
     lifeEventPopup,
     applyLifeEvent,
+    resolveLifeEventChoice,
+    applyServerLedger,
+    applyCorporateActionPayouts,
+    applyStandingOrderFills,
     clearLifeEventPopup,
     forceShowLifeEventPopup
   } = useGameState(true); // true = multiplayer mode, disables local timer, includes life event handler
@@ -60,8 +77,17 @@ export const PlayerGameWrapper: React.FC = () => {
       };
 
       startMultiplayerGame(adminToUse as any, initialData);
+
+      // Joining mid-game starts from fresh balances; pull the server's copy of ours
+      if (multiplayerGameState.currentYear > 1 || multiplayerGameState.currentMonth > 1) {
+        socketService.requestLedger().then(response => {
+          if (response.success && response.ledger) {
+            applyServerLedger(response.ledger);
+          }
+        });
+      }
     }
-  }, [roomInfo?.adminSettings, multiplayerGameState?.isStarted, multiplayerGameState?.selectedAssets, multiplayerGameState?.assetUnlockSchedule, multiplayerGameState?.yearlyQuotes, multiplayerGameState?.quizQuestionIndices, gameState.mode, startMultiplayerGame]);
+  }, [roomInfo?.adminSettings, multiplayerGameState?.isStarted, multiplayerGameState?.selectedAssets, multiplayerGameState?.assetUnlockSchedule, multiplayerGameState?.yearlyQuotes, multiplayerGameState?.quizQuestionIndices, gameState.mode, startMultiplayerGame, applyServerLedger]);
 
   // Sync local game time with multiplayer time from server
   useEffect(() => {
@@ -71,7 +97,7 @@ export const PlayerGameWrapper: React.FC = () => {
 
     // CRITICAL FIX: Stop processing time updates if game has ended
     // This prevents state corruption after game completion
-    if (!multiplayerGameState.isStarted && gameState.currentYear >= 20) {
+    if (!multiplayerGameState.isStarted && gameState.currentYear >= getGameEnd(gameState.adminSettings).year) {
       return;
     }
 
@@ -86,7 +112,7 @@ export const PlayerGameWrapper: React.FC = () => {
     updatePauseState(multiplayerGameState.isPaused);
   }, [multiplayerGameState?.isPaused, gameState.mode, updatePauseState]);
 
-  // Listen for life events emitted by server for this player
+  // Listen for life events emitted by server for this player (and for choice events once they settle)
   useEffect(() => {
     const handler = (data: any) => {
       try {
@@ -109,11 +135,70 @@ export const PlayerGameWrapper: React.FC = () => {
     };
 
     socketService.on('lifeEventTriggered', handler);
+    socketService.on('lifeEventResolved', handler);
     return () => {
       socketService.off('lifeEventTriggered', handler);
+      socketService.off('lifeEventResolved', handler);
     };
   }, [applyLifeEvent]);
 
+  // Server-authoritative balances (interest, income, FD maturity, life events)
+  useEffect(() => {
+    const handler = (data: { ledger: PlayerLedger }) => {
+      if (data?.ledger) {
+        applyServerLedger(data.ledger);
+      }
+    };
+
+    socketService.on('ledgerUpdate', handler);
+    return () => {
+      socketService.off('ledgerUpdate', handler);
+    };
+  }, [applyServerLedger]);
+
+  // Dividends and splits the server applied this month, for the cash-flow log
+  useEffect(() => {
+    const handler = (data: { payouts: CorporateActionPayout[]; gameYear: number; gameMonth: number }) => {
+      if (Array.isArray(data?.payouts)) {
+        applyCorporateActionPayouts(data.payouts, data.gameYear, data.gameMonth);
+      }
+    };
+
+    socketService.on('corporateActionsApplied', handler);
+    return () => {
+      socketService.off('corporateActionsApplied', handler);
+    };
+  }, [applyCorporateActionPayouts]);
+
+  // Standing orders the server filled this month (the ledger with the new book follows)
+  useEffect(() => {
+    const handler = (data: { fills: StandingOrderFill[] }) => {
+      if (Array.isArray(data?.fills)) {
+        applyStandingOrderFills(data.fills);
+      }
+    };
+
+    socketService.on('standingOrdersExecuted', handler);
+    return () => {
+      socketService.off('standingOrdersExecuted', handler);
+    };
+  }, [applyStandingOrderFills]);
+
+  // Market headlines the server pushes as the room's calendar reaches them (ids dedupe reconnect replays)
+  const [newsFeed, setNewsFeed] = useState<MarketNewsItem[]>([]);
+  useEffect(() => {
+    const handler = (data: { item: MarketNewsItem }) => {
+      if (data?.item) {
+        setNewsFeed(prev => prev.some(item => item.id === data.item.id) ? prev : [...prev, data.item]);
+      }
+    };
+
+    socketService.on('newsItem', handler);
+    return () => {
+      socketService.off('newsItem', handler);
+    };
+  }, []);
+
   // Track current gameState in a ref to avoid recreating event handlers on every state change
   const gameStateRef = useRef(gameState);
   useEffect(() => {
@@ -203,8 +288,16 @@ export const PlayerGameWrapper: React.FC = () => {
       return;
     }
 
-    updatePlayerState(networth, portfolioBreakdown);
-  }, [roomInfo?.isHost, multiplayerGameState, updatePlayerState]);
+    // Submit with our balances so the server can check the figure against its own prices
+    const current = gameStateRef.current;
+    submitNetworth(networth, portfolioBreakdown, {
+      pocketCash: current.pocketCash,
+      savingsBalance: current.savingsAccount.balance,
+      fixedDeposits: current.fixedDeposits,
+      holdings: current.holdings,
+      bonds: current.bonds,
+    });
+  }, [roomInfo?.isHost, multiplayerGameState, submitNetworth]);
 
   // Handle final networth sync from GameEndScreen
   const handleFinalNetworthSync = useCallback((networth: number, portfolioBreakdown: any) => {
@@ -222,6 +315,21 @@ export const PlayerGameWrapper: React.FC = () => {
     notifyQuizCompleted(category);
   };
 
+  // Quiz answers are checked and scored by the server; null lets the modal fall back to a local check
+  const handleSubmitQuizAnswer = async (answerIndex: number): Promise<boolean | null> => {
+    const response = await socketService.submitQuizAnswer(answerIndex);
+    if (!response.success) {
+      return null;
+    }
+    if (response.result) {
+      recordQuizResult(response.result);
+    }
+    if (response.ledger) {
+      applyServerLedger(response.ledger);
+    }
+    return !!response.correct;
+  };
+
   if (!roomInfo || !multiplayerGameState) {
     return <div>Loading multiplayer game...</div>;
   }
@@ -278,11 +386,21 @@ export const PlayerGameWrapper: React.FC = () => {
         onCreateFD={createFixedDeposit}
         onCollectFD={collectFD}
         onBreakFD={breakFD}
+        onTakeLoan={takeLoan}
+        onRepayLoan={repayLoan}
+        onBuyBond={buyBond}
+        onSellBond={sellBond}
+        onBuyInsurance={buyInsurance}
+        onCancelInsurance={cancelInsurance}
         onBuyAsset={buyAsset}
         onSellAsset={sellAsset}
+        onPlaceOrder={placeOrder}
+        onCancelOrder={cancelOrder}
+        onEvaluateOrders={evaluateOrders}
         onTogglePause={togglePause}
         onMarkQuizCompleted={handleMarkQuizCompleted}
         onQuizStarted={notifyQuizStarted}
+        onSubmitQuizAnswer={handleSubmitQuizAnswer}
         onNetworthCalculated={handleNetworthCalculated}
         showLeaderboard={true}
         showPauseButton={false}
@@ -296,8 +414,10 @@ export const PlayerGameWrapper: React.FC = () => {
         // Life event popup hooks
         lifeEventPopup={lifeEventPopup}
         clearLifeEventPopup={clearLifeEventPopup}
+        onResolveLifeEvent={resolveLifeEventChoice}
         // Final networth sync callback
         onFinalNetworthSync={handleFinalNetworthSync}
+        newsFeed={newsFeed}
       />
     </div>
   );
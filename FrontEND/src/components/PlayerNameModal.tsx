@@ -1,4 +1,6 @@
 import React, { useState } from 'react';
+import { LanguagePicker } from './LanguagePicker';
+import { useLanguage } from '../contexts/LanguageContext';
 
 interface PlayerNameModalProps {
   isOpen: boolean;
@@ -10,33 +12,34 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
   const [playerName, setPlayerName] = useState('');
   const [playerAge, setPlayerAge] = useState('');
   const [error, setError] = useState('');
+  const { t } = useLanguage();
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!playerName.trim()) {
-      setError('Please enter your name');
+      setError(t('playerName.errorNameRequired'));
       return;
     }
 
     if (playerName.trim().length < 2) {
-      setError('Name must be at least 2 characters');
+      setError(t('playerName.errorNameShort'));
       return;
     }
 
     if (playerName.trim().length > 20) {
-      setError('Name must be less than 20 characters');
+      setError(t('playerName.errorNameLong'));
       return;
     }
 
     if (!playerAge.trim()) {
-      setError('Please enter your age');
+      setError(t('playerName.errorAgeRequired'));
       return;
     }
 
     const age = parseInt(playerAge.trim());
     if (isNaN(age) || age < 10 || age > 100) {
-      setError('Age must be between 10 and 100');
+      setError(t('playerName.errorAgeRange'));
       return;
     }
 
@@ -83,16 +86,19 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
         onClick={(e) => e.stopPropagation()}
       >
         <h2 style={{ color: '#4ecca3', marginBottom: '10px', textAlign: 'center' }}>
-          Solo Mode
+          {t('playerName.title')}
         </h2>
         <p style={{ color: '#fff', marginBottom: '20px', textAlign: 'center', fontSize: '14px' }}>
-          Enter your name to start the game
+          {t('playerName.prompt')}
         </p>
+        <div style={{ color: '#fff', textAlign: 'center' }}>
+          <LanguagePicker />
+        </div>
 
         <form onSubmit={handleSubmit}>
           <div style={{ marginBottom: '20px' }}>
             <label style={{ color: '#fff', display: 'block', marginBottom: '8px', fontSize: '14px' }}>
-              Player Name
+              {t('playerName.nameLabel')}
             </label>
             <input
               type="text"
@@ -101,7 +107,7 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
                 setPlayerName(e.target.value);
                 setError('');
               }}
-              placeholder="Enter your name"
+              placeholder={t('playerName.namePlaceholder')}
               autoFocus
               style={{
                 width: '100%',
@@ -117,7 +123,7 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
 
           <div style={{ marginBottom: '20px' }}>
             <label style={{ color: '#fff', display: 'block', marginBottom: '8px', fontSize: '14px' }}>
-              Age
+              {t('playerName.ageLabel')}
             </label>
             <input
               type="number"
@@ -126,7 +132,7 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
                 setPlayerAge(e.target.value);
                 setError('');
               }}
-              placeholder="Enter your age"
+              placeholder={t('playerName.agePlaceholder')}
               style={{
                 width: '100%',
                 padding: '12px',
@@ -158,7 +164,7 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
                 cursor: 'pointer',
               }}
             >
-              Cancel
+              {t('common.cancel')}
             </button>
             <button
               type="submit"
@@ -173,7 +179,7 @@ export const PlayerNameModal: React.FC<PlayerNameModalProps> = ({ isOpen, onSubm
                 cursor: 'pointer',
               }}
             >
-              Start Game
+              {t('playerName.start')}
             </button>
           </div>
         </form>
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { quizBankApi } from '../services/adminApi';
+import { AssetEducationContent, QuizQuestion, loadQuizBank } from '../utils/assetEducation';
+import { ContentTransferControls } from './ContentTransferControls';
+import './TaxSettingsFields.css';
+import './FDRatesEditor.css';
+import './AdminContentEditor.css';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const EMPTY_QUESTION: QuizQuestion = { question: '', options: ['', '', '', ''], correctAnswer: 0, hint: '', enabled: true };
+
+// Questions are saved straight to the quiz_questions table; games started afterwards use the new bank
+export const QuizBankEditor: React.FC = () => {
+  const [categories, setCategories] = useState<AssetEducationContent[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [intro, setIntro] = useState({ title: '', description: '' });
+  const [form, setForm] = useState<QuizQuestion>(EMPTY_QUESTION);
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadCategories = async () => {
+    const response = await quizBankApi.getQuizBank();
+    if (response.success && response.categories) {
+      setCategories(response.categories);
+    } else {
+      setMessage(response.message || 'Failed to load quiz bank');
+    }
+  };
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const category = categories.find(c => c.category === selectedCategory) || categories[0];
+
+  useEffect(() => {
+    if (category) {
+      setIntro({ title: category.title, description: category.description });
+    }
+  }, [category?.category, category?.title, category?.description]);
+
+  // Refresh both this list and the bank the game reads from
+  const afterChange = async (response: { success: boolean; message: string }) => {
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      await Promise.all([loadCategories(), loadQuizBank()]);
+    }
+  };
+
+  const handleSaveIntro = async () => {
+    if (!category) return;
+    setBusy(true);
+    await afterChange(await quizBankApi.saveCategory(category.category, intro.title, intro.description));
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!category) return;
+    setBusy(true);
+    const response = await quizBankApi.saveQuestion(category.category, form);
+    if (response.success) {
+      setForm(EMPTY_QUESTION);
+    }
+    await afterChange(response);
+  };
+
+  const handleDelete = async (question: QuizQuestion) => {
+    if (!question.id || !confirm(`Delete "${question.question}"?`)) {
+      return;
+    }
+    setBusy(true);
+    await afterChange(await quizBankApi.deleteQuestion(question.id));
+  };
+
+  const updateOption = (index: number, value: string) => {
+    setForm({ ...form, options: form.options.map((option, i) => (i === index ? value : option)) });
+  };
+
+  const removeOption = (index: number) => {
+    const correctAnswer = form.correctAnswer > index ? form.correctAnswer - 1 : form.correctAnswer === index ? 0 : form.correctAnswer;
+    setForm({ ...form, options: form.options.filter((_, i) => i !== index), correctAnswer });
+  };
+
+  return (
+    <div className="tax-settings-fields">
+      {categories.length > 0 && category && (
+        <>
+          <label className="tax-settings-field">
+            <span>Asset category</span>
+            <select
+              value={category.category}
+              onChange={(e) => {
+                setSelectedCategory(e.target.value);
+                setForm(EMPTY_QUESTION);
+              }}
+            >
+              {categories.map(c => (
+                <option key={c.category} value={c.category} style={{ color: '#000' }}>
+                  {c.title} ({c.questions.length})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="tax-settings-field">
+            <span>Intro title</span>
+            <input
+              type="text"
+              value={intro.title}
+              onChange={(e) => setIntro({ ...intro, title: e.target.value })}
+            />
+          </label>
+          <label className="tax-settings-field">
+            <span>Intro description</span>
+            <textarea
+              rows={3}
+              value={intro.description}
+              onChange={(e) => setIntro({ ...intro, description: e.target.value })}
+            />
+          </label>
+          <button type="button" className="fd-rates-editor-save" onClick={handleSaveIntro} disabled={busy}>
+            Save Intro
+          </button>
+
+          <div className="fd-rates-editor-list admin-content-editor-list">
+            {category.questions.map(question => (
+              <div key={question.id} className={`admin-content-editor-row ${question.enabled === false ? 'disabled' : ''}`}>
+                <span>{question.question}</span>
+                <span>{question.options.length} options</span>
+                <button type="button" onClick={() => setForm(question)} disabled={busy}>Edit</button>
+                <button type="button" onClick={() => handleDelete(question)} disabled={busy}>Delete</button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <label className="tax-settings-field">
+        <span>Question</span>
+        <textarea
+          rows={2}
+          value={form.question}
+          onChange={(e) => setForm({ ...form, question: e.target.value })}
+        />
+      </label>
+      <div className="admin-content-editor-choices">
+        <span className="fd-rates-editor-message">Options (select the correct answer)</span>
+        {form.options.map((option, index) => (
+          <div key={index} className="admin-content-editor-choice">
+            <input
+              type="text"
+              placeholder={`Option ${index + 1}`}
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+            />
+            <span />
+            <label className="tax-settings-toggle">
+              <input
+                type="radio"
+                name="quiz-correct-answer"
+                checked={form.correctAnswer === index}
+                onChange={() => setForm({ ...form, correctAnswer: index })}
+              />
+              <span>Correct</span>
+            </label>
+            <button type="button" onClick={() => removeOption(index)} disabled={form.options.length <= MIN_OPTIONS}>
+              Remove
+            </button>
+          </div>
+        ))}
+        {form.options.length < MAX_OPTIONS && (
+          <button type="button" className="fd-rates-editor-save" onClick={() => setForm({ ...form, options: [...form.options, ''] })}>
+            Add Option
+          </button>
+        )}
+      </div>
+      <label className="tax-settings-field">
+        <span>Hint (shown after a wrong answer)</span>
+        <input
+          type="text"
+          value={form.hint}
+          onChange={(e) => setForm({ ...form, hint: e.target.value })}
+        />
+      </label>
+      <label className="tax-settings-toggle">
+        <input
+          type="checkbox"
+          checked={form.enabled !== false}
+          onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+        />
+        <span>Enabled</span>
+      </label>
+
+      <div className="admin-content-editor-actions">
+        <button type="button" className="fd-rates-editor-save" onClick={handleSaveQuestion} disabled={busy || !category}>
+          {busy ? 'Saving...' : form.id ? 'Update Question' : 'Add Question'}
+        </button>
+        {form.id && (
+          <button type="button" className="fd-rates-editor-save" onClick={() => setForm(EMPTY_QUESTION)} disabled={busy}>
+            Cancel
+          </button>
+        )}
+      </div>
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+
+      <ContentTransferControls
+        fileName="quiz-bank"
+        replaceLabel="Delete the existing questions of each imported category"
+        onExport={quizBankApi.exportQuizBank}
+        onImport={quizBankApi.importQuizBank}
+        onImported={() => Promise.all([loadCategories(), loadQuizBank()])}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { quizBankApi } from '../services/adminApi';
+import { Language } from '../types';
+import { AssetEducationContent, QuizQuestion, QuizQuestionTranslation, QuizBankTranslations, loadQuizBank } from '../utils/assetEducation';
+import { LANGUAGE_OPTIONS } from '../utils/i18n';
+import './TaxSettingsFields.css';
+import './FDRatesEditor.css';
+import './AdminContentEditor.css';
+
+const TRANSLATION_LANGUAGES = LANGUAGE_OPTIONS.filter(option => option.value !== 'en');
+const EMPTY_TRANSLATIONS: QuizBankTranslations = { categories: {}, questions: {} };
+
+// Translated questions keep the English correct answer, so the options must stay in the same order
+export const QuizTranslationEditor: React.FC = () => {
+  const [language, setLanguage] = useState<Language>(TRANSLATION_LANGUAGES[0].value);
+  const [categories, setCategories] = useState<AssetEducationContent[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [translations, setTranslations] = useState<QuizBankTranslations>(EMPTY_TRANSLATIONS);
+  const [intro, setIntro] = useState({ title: '', description: '' });
+  const [editing, setEditing] = useState<QuizQuestion | null>(null);
+  const [form, setForm] = useState<QuizQuestionTranslation>({ question: '', options: [], hint: '' });
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadTranslations = async () => {
+    const response = await quizBankApi.getTranslations(language);
+    if (response.success && response.translations) {
+      setTranslations(response.translations);
+    } else {
+      setMessage(response.message || 'Failed to load translations');
+    }
+  };
+
+  useEffect(() => {
+    quizBankApi.getQuizBank().then(response => {
+      if (response.success && response.categories) {
+        setCategories(response.categories);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    setEditing(null);
+    loadTranslations();
+  }, [language]);
+
+  const category = categories.find(c => c.category === selectedCategory) || categories[0];
+  const categoryTranslation = category ? translations.categories[category.category] : undefined;
+
+  useEffect(() => {
+    setIntro(categoryTranslation ? { ...categoryTranslation } : { title: '', description: '' });
+  }, [category?.category, categoryTranslation?.title, categoryTranslation?.description]);
+
+  const editTranslation = (question: QuizQuestion) => {
+    setEditing(question);
+    setForm(translations.questions[question.id!] || { question: '', options: question.options.map(() => ''), hint: '' });
+  };
+
+  // Refresh the list and the bank the game reads from
+  const afterChange = async (response: { success: boolean; message: string }) => {
+    setBusy(false);
+    setMessage(response.message);
+    if (response.success) {
+      await Promise.all([loadTranslations(), loadQuizBank()]);
+    }
+  };
+
+  const handleSaveIntro = async () => {
+    if (!category) return;
+    setBusy(true);
+    await afterChange(await quizBankApi.saveCategoryTranslation(category.category, language, intro.title, intro.description));
+  };
+
+  const handleSaveQuestion = async () => {
+    if (!editing?.id) return;
+    setBusy(true);
+    const response = await quizBankApi.saveQuestionTranslation(editing.id, language, form);
+    if (response.success) {
+      setEditing(null);
+    }
+    await afterChange(response);
+  };
+
+  const handleDelete = async (question: QuizQuestion) => {
+    if (!question.id || !confirm(`Delete the translation of "${question.question}"?`)) {
+      return;
+    }
+    setBusy(true);
+    await afterChange(await quizBankApi.deleteQuestionTranslation(question.id, language));
+  };
+
+  if (!category) return null;
+
+  return (
+    <div className="tax-settings-fields">
+      <div className="tax-settings-grid">
+        <label className="tax-settings-field">
+          <span>Language</span>
+          <select value={language} onChange={(e) => setLanguage(e.target.value as Language)}>
+            {TRANSLATION_LANGUAGES.map(option => (
+              <option key={option.value} value={option.value} style={{ color: '#000' }}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="tax-settings-field">
+          <span>Asset category</span>
+          <select
+            value={category.category}
+            onChange={(e) => {
+              setSelectedCategory(e.target.value);
+              setEditing(null);
+            }}
+          >
+            {categories.map(c => (
+              <option key={c.category} value={c.category} style={{ color: '#000' }}>{c.title}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="tax-settings-field">
+        <span>Intro title</span>
+        <input
+          type="text"
+          placeholder={category.title}
+          value={intro.title}
+          onChange={(e) => setIntro({ ...intro, title: e.target.value })}
+        />
+      </label>
+      <label className="tax-settings-field">
+        <span>Intro description</span>
+        <textarea
+          rows={3}
+          placeholder={category.description}
+          value={intro.description}
+          onChange={(e) => setIntro({ ...intro, description: e.target.value })}
+        />
+      </label>
+      <button type="button" className="fd-rates-editor-save" onClick={handleSaveIntro} disabled={busy}>
+        Save Intro Translation
+      </button>
+
+      <div className="fd-rates-editor-list admin-content-editor-list">
+        {category.questions.map(question => (
+          <div key={question.id} className={`admin-content-editor-row ${question.enabled === false ? 'disabled' : ''}`}>
+            <span>{translations.questions[question.id!]?.question || question.question}</span>
+            <span>{translations.questions[question.id!] ? 'Translated' : 'English only'}</span>
+            <button type="button" onClick={() => editTranslation(question)} disabled={busy}>Translate</button>
+            <button type="button" onClick={() => handleDelete(question)} disabled={busy || !translations.questions[question.id!]}>Delete</button>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <>
+          <label className="tax-settings-field">
+            <span>Question</span>
+            <textarea
+              rows={2}
+              placeholder={editing.question}
+              value={form.question}
+              onChange={(e) => setForm({ ...form, question: e.target.value })}
+            />
+          </label>
+          <div className="admin-content-editor-choices">
+            <span className="fd-rates-editor-message">Options (same order as English; the correct one is marked)</span>
+            {editing.options.map((option, index) => (
+              <input
+                key={index}
+                type="text"
+                placeholder={`${option}${index === editing.correctAnswer ? ' ✓' : ''}`}
+                value={form.options[index] || ''}
+                onChange={(e) => setForm({ ...form, options: editing.options.map((_, i) => (i === index ? e.target.value : form.options[i] || '')) })}
+              />
+            ))}
+          </div>
+          <label className="tax-settings-field">
+            <span>Hint</span>
+            <input
+              type="text"
+              placeholder={editing.hint}
+              value={form.hint}
+              onChange={(e) => setForm({ ...form, hint: e.target.value })}
+            />
+          </label>
+          <div className="admin-content-editor-actions">
+            <button type="button" className="fd-rates-editor-save" onClick={handleSaveQuestion} disabled={busy}>
+              {busy ? 'Saving...' : 'Save Translation'}
+            </button>
+            <button type="button" className="fd-rates-editor-save" onClick={() => setEditing(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+      {message && <p className="fd-rates-editor-message">{message}</p>}
+    </div>
+  );
+};
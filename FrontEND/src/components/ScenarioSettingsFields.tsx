@@ -0,0 +1,47 @@
+import React from 'react';
+import { SCENARIOS, getScenario, getScenarioCategories, validateScenario } from '../utils/scenarios';
+import './TaxSettingsFields.css';
+
+interface ScenarioSettingsFieldsProps {
+  value?: string;
+  onChange: (scenarioId?: string) => void;
+  disabled?: boolean;
+}
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const ScenarioSettingsFields: React.FC<ScenarioSettingsFieldsProps> = ({ value, onChange, disabled }) => {
+  const scenario = getScenario(value);
+
+  return (
+    <div className="tax-settings-fields">
+      <select
+        value={scenario?.id || ''}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={disabled}
+        style={{ width: '100%', padding: '10px', fontSize: '1rem' }}
+      >
+        <option value="">Classic (no scenario)</option>
+        {SCENARIOS.map(option => {
+          // Scenarios whose asset pool lacks price data for the whole window cannot be played
+          const problems = validateScenario(option);
+          return (
+            <option key={option.id} value={option.id} disabled={problems.length > 0} title={problems.join('\n')}>
+              {option.name}{problems.length > 0 ? ' (missing price data)' : ''}
+            </option>
+          );
+        })}
+      </select>
+
+      {scenario && (
+        <div className="tax-settings-field">
+          <span>{scenario.description}</span>
+          <span>
+            Starts {MONTH_NAMES[scenario.startMonth - 1]} {scenario.startYear} · {scenario.durationYears} years ·{' '}
+            {getScenarioCategories(scenario).join(', ')}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { TaxSettings } from '../types';
+import { DEFAULT_TAX_SETTINGS } from '../utils/taxes';
+import './TaxSettingsFields.css';
+
+interface TaxSettingsFieldsProps {
+  value?: TaxSettings;
+  onChange: (taxSettings: TaxSettings) => void;
+}
+
+// Rate fields are edited as percentages and stored as fractions
+const RATE_FIELDS: Array<{ key: keyof TaxSettings; label: string; step: number }> = [
+  { key: 'brokerageRate', label: 'Brokerage %', step: 0.01 },
+  { key: 'sttRate', label: 'STT % (equity sells)', step: 0.01 },
+  { key: 'stampDutyRate', label: 'Stamp duty % (buys)', step: 0.001 },
+  { key: 'shortTermGainsRate', label: 'Short-term gains tax %', step: 1 },
+  { key: 'longTermGainsRate', label: 'Long-term gains tax %', step: 1 },
+  { key: 'fdInterestTaxRate', label: 'Tax on FD interest %', step: 1 },
+];
+
+const toPercent = (fraction: number) => Math.round(fraction * 100 * 10000) / 10000;
+
+export const TaxSettingsFields: React.FC<TaxSettingsFieldsProps> = ({ value, onChange }) => {
+  const taxSettings = value || DEFAULT_TAX_SETTINGS;
+  const update = (changes: Partial<TaxSettings>) => onChange({ ...taxSettings, ...changes });
+
+  return (
+    <div className="tax-settings-fields">
+      <label className="tax-settings-toggle">
+        <input
+          type="checkbox"
+          checked={taxSettings.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+        />
+        <span>Charge brokerage, STT, stamp duty and capital gains tax</span>
+      </label>
+
+      {taxSettings.enabled && (
+        <div className="tax-settings-grid">
+          {RATE_FIELDS.map(field => (
+            <label key={field.key} className="tax-settings-field">
+              <span>{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step={field.step}
+                value={toPercent(taxSettings[field.key] as number)}
+                onChange={(e) => update({ [field.key]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 })}
+              />
+            </label>
+          ))}
+          <label className="tax-settings-field">
+            <span>Max brokerage per trade (₹)</span>
+            <input
+              type="number"
+              min={0}
+              value={taxSettings.maxBrokeragePerTrade}
+              onChange={(e) => update({ maxBrokeragePerTrade: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </label>
+          <label className="tax-settings-field">
+            <span>Long-term after (months)</span>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              value={taxSettings.longTermHoldingMonths}
+              onChange={(e) => update({ longTermHoldingMonths: Math.min(120, Math.max(1, Math.round(Number(e.target.value) || 1))) })}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
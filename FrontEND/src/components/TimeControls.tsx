@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import { GAME_SPEED_OPTIONS } from '../utils/constants';
+import './TimeControls.css';
+
+interface TimeControlsProps {
+  monthDuration: number;
+  isPaused: boolean;
+  currentYear: number;
+  currentMonth: number;
+  totalYears: number; // Final game year
+  finalMonth?: number; // Calendar month the final year closes in (scenarios can end mid-year)
+  disabled?: boolean; // e.g. while players are mid-quiz
+  onSpeedChange: (monthDuration: number) => void;
+  onStepMonth: () => void;
+  onJumpTo: (year: number, month: number) => void;
+}
+
+export const TimeControls: React.FC<TimeControlsProps> = ({
+  monthDuration,
+  isPaused,
+  currentYear,
+  currentMonth,
+  totalYears,
+  finalMonth = 12,
+  disabled = false,
+  onSpeedChange,
+  onStepMonth,
+  onJumpTo
+}) => {
+  const [jumpYear, setJumpYear] = useState(currentYear);
+  const [jumpMonth, setJumpMonth] = useState(currentMonth);
+
+  // Keep the jump target from falling behind the clock
+  useEffect(() => {
+    if (jumpYear * 12 + jumpMonth <= currentYear * 12 + currentMonth) {
+      const next = currentMonth === 12
+        ? { year: currentYear + 1, month: 1 }
+        : { year: currentYear, month: currentMonth + 1 };
+      const pastEnd = next.year * 12 + next.month > totalYears * 12 + finalMonth;
+      setJumpYear(pastEnd ? totalYears : next.year);
+      setJumpMonth(pastEnd ? finalMonth : next.month);
+    }
+  }, [currentYear, currentMonth, totalYears, finalMonth]);
+
+  const isPreset = GAME_SPEED_OPTIONS.some(o => o.monthDuration === monthDuration);
+  const years = Array.from({ length: Math.max(0, totalYears - currentYear + 1) }, (_, i) => currentYear + i);
+  const months = Array.from({ length: 12 }, (_, i) => i + 1)
+    .filter(m => (jumpYear > currentYear || m > currentMonth) && (jumpYear < totalYears || m <= finalMonth));
+  const canJump = !disabled && jumpYear * 12 + jumpMonth > currentYear * 12 + currentMonth;
+
+  return (
+    <div className="time-controls">
+      <label className="time-controls-row">
+        <span>Speed</span>
+        <select
+          value={monthDuration}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          disabled={disabled}
+        >
+          {!isPreset && <option value={monthDuration}>{monthDuration / 1000}s / month</option>}
+          {GAME_SPEED_OPTIONS.map(option => (
+            <option key={option.monthDuration} value={option.monthDuration}>
+              {option.label} ({option.monthDuration / 1000}s / month)
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <button
+        className="time-controls-button"
+        onClick={onStepMonth}
+        disabled={disabled || !isPaused}
+        title={isPaused ? 'Advance one month' : 'Pause the game to step month by month'}
+      >
+        ⏭ +1 MONTH
+      </button>
+
+      <div className="time-controls-row">
+        <span>Jump to</span>
+        <select
+          value={jumpYear}
+          onChange={(e) => {
+            const year = Number(e.target.value);
+            setJumpYear(year);
+            if (year === currentYear && jumpMonth <= currentMonth) setJumpMonth(currentMonth + 1);
+          }}
+          disabled={disabled}
+        >
+          {years.map(y => <option key={y} value={y}>Year {y}</option>)}
+        </select>
+        <select value={jumpMonth} onChange={(e) => setJumpMonth(Number(e.target.value))} disabled={disabled}>
+          {months.map(m => <option key={m} value={m}>Month {m}</option>)}
+        </select>
+        <button
+          className="time-controls-button"
+          onClick={() => onJumpTo(jumpYear, jumpMonth)}
+          disabled={!canJump}
+        >
+          GO
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -120,6 +120,7 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
     let totalRecurringIncome = 0;
     let totalLifeEventGains = 0;
     let totalLifeEventLosses = 0;
+    let totalDividends = 0;
 
     cashTransactions.forEach(tx => {
       if (tx.type === 'recurring_income') {
@@ -128,6 +129,8 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
         totalLifeEventGains += tx.amount;
       } else if (tx.type === 'life_event_loss') {
         totalLifeEventLosses += Math.abs(tx.amount);
+      } else if (tx.type === 'dividend') {
+        totalDividends += tx.amount;
       }
     });
 
@@ -137,7 +140,8 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
       totalRecurringIncome,
       totalLifeEventGains,
       totalLifeEventLosses,
-      netLifeEventImpact
+      netLifeEventImpact,
+      totalDividends
     };
   }, [cashTransactions]);
 
@@ -209,18 +213,22 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
           <div className="no-transactions">No transactions yet</div>
         ) : (
           recentTransactions.map((tx, idx) => {
-            const isGain = tx.type === 'recurring_income' || tx.type === 'life_event_gain';
+            const isGain = tx.type === 'recurring_income' || tx.type === 'life_event_gain' || tx.type === 'dividend' || tx.type === 'quiz_bonus';
+            const isNeutral = tx.type === 'corporate_action';
             const displayAmount = Math.abs(tx.amount);
 
             return (
               <div
                 key={tx.id}
-                className={`transaction-item ${isGain ? 'gain' : 'loss'}`}
+                className={`transaction-item ${isNeutral ? 'neutral' : isGain ? 'gain' : 'loss'}`}
                 style={{ animationDelay: `${idx * 0.05}s` }}
               >
                 <div className="transaction-icon">
                   {tx.type === 'recurring_income' ? '💼' :
-                   tx.type === 'life_event_gain' ? '🎉' : '⚠️'}
+                   tx.type === 'life_event_gain' ? '🎉' :
+                   tx.type === 'dividend' ? '💰' :
+                   tx.type === 'quiz_bonus' ? '🧠' :
+                   tx.type === 'corporate_action' ? '🔀' : '⚠️'}
                 </div>
                 <div className="transaction-details">
                   <div className="transaction-message">{tx.message}</div>
@@ -228,9 +236,13 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
                     Year {tx.gameYear}, Month {tx.gameMonth}
                   </div>
                 </div>
-                <div className={`transaction-amount ${isGain ? 'positive' : 'negative'}`}>
-                  {isGain ? '+' : '-'}₹{formatCurrency(displayAmount)}
-                </div>
+                {isNeutral ? (
+                  <div className="transaction-amount neutral">No cash</div>
+                ) : (
+                  <div className={`transaction-amount ${isGain ? 'positive' : 'negative'}`}>
+                    {isGain ? '+' : '-'}₹{formatCurrency(displayAmount)}
+                  </div>
+                )}
               </div>
             );
           })
@@ -264,6 +276,14 @@ export const TotalReceivedBreakdown: React.FC<TotalReceivedBreakdownProps> = ({
           </span>
         </div>
 
+        <div className="summary-row">
+          <span className="summary-label">
+            Dividends Received
+            <span className="summary-note">Paid into pocket cash; not counted in Net Income</span>
+          </span>
+          <span className="summary-value positive">+₹{formatCurrency(summary.totalDividends)}</span>
+        </div>
+
         <div className="summary-divider thick"></div>
 
             </div>
@@ -1,7 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { AssetHolding } from '../types';
+import { AssetHolding, NewStandingOrder, StandingOrderType } from '../types';
 import { MiniChart } from './MiniChart';
 import { getAssetInfo } from '../utils/stockInfo';
+import { localizeAssetInfo } from '../utils/i18n';
 import { formatIndianNumber, formatIndianNumberWithDecimal } from '../utils/constants';
 import './AssetCard.css';
 import './StockTooltip.css';
@@ -18,6 +19,9 @@ interface TradeableAssetCardProps {
   onSell: (quantity: number) => void;
   isStock?: boolean; // Add compact stock card styling
   isTransacting?: boolean; // When true, disable buy/sell UI to avoid duplicates
+  onPlaceOrder?: (order: Omit<NewStandingOrder, 'assetType' | 'assetName'>) => void; // Standing orders (limit/stop-loss/SIP)
+  quantityDecimals?: number; // Fractional units allowed (e.g. crypto); 0 means whole units only
+  purchasingPower?: number[]; // Inflation line for the chart (value of ₹1 of cash per month)
 }
 
 export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
@@ -31,11 +35,19 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
   onBuy,
   onSell,
   isStock = false,
-  isTransacting = false
+  isTransacting = false,
+  onPlaceOrder,
+  quantityDecimals = 0,
+  purchasingPower
 }) => {
   const [selectedQuantity, setSelectedQuantity] = useState(1);
   const [customQuantity, setCustomQuantity] = useState('');
-  const [mode, setMode] = useState<'none' | 'buy' | 'sell'>('none');
+  const [mode, setMode] = useState<'none' | 'buy' | 'sell' | 'order'>('none');
+  // Standing order ticket fields
+  const [orderType, setOrderType] = useState<StandingOrderType>('limitBuy');
+  const [orderQuantity, setOrderQuantity] = useState('');
+  const [orderTrigger, setOrderTrigger] = useState('');
+  const [orderAmount, setOrderAmount] = useState('');
   const [isShaking, setIsShaking] = useState(false);
   // Local click lock to prevent double clicks before parent state updates
   const [localLock, setLocalLock] = useState(false);
@@ -44,6 +56,10 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
   // Track if user is manually editing to prevent auto-update conflicts
   const isManualEditRef = useRef(false);
 
+  // Round quantities down to the smallest tradeable unit
+  const quantityStep = Math.pow(10, quantityDecimals);
+  const roundDownQuantity = (quantity: number) => Math.floor(quantity * quantityStep) / quantityStep;
+
   const priceChange = currentPrice - previousPrice;
   const priceChangePercent = previousPrice > 0 ? (priceChange / previousPrice) * 100 : 0;
   const isPositive = priceChange >= 0;
@@ -135,9 +151,46 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
     setTimeout(() => setLocalLock(false), 300);
   };
 
+  const handleOrder = () => {
+    if (!onPlaceOrder) return;
+
+    if (mode !== 'order') {
+      // First click: open the order ticket, pre-filled with the current price
+      setMode('order');
+      setOrderQuantity('1');
+      setOrderTrigger(Math.round(currentPrice).toString());
+      setOrderAmount('');
+      return;
+    }
+
+    if (orderType === 'sip') {
+      const amount = parseFloat(orderAmount);
+      if (!(amount > 0) || amount < currentPrice) {
+        triggerShake();
+        return;
+      }
+      onPlaceOrder({ type: 'sip', amount });
+    } else {
+      const quantity = roundDownQuantity(parseFloat(orderQuantity));
+      const triggerPrice = parseFloat(orderTrigger);
+      if (!(quantity > 0) || !(triggerPrice > 0)) {
+        triggerShake();
+        return;
+      }
+      // Sell-side orders need something to sell
+      if (orderType !== 'limitBuy' && holding.quantity <= 0) {
+        triggerShake();
+        return;
+      }
+      onPlaceOrder({ type: orderType, quantity, triggerPrice });
+    }
+
+    setMode('none');
+  };
+
   // MAX quantity based on mode
   const maxQuantity = mode === 'buy'
-    ? Math.floor(pocketCash / currentPrice)
+    ? roundDownQuantity(pocketCash / currentPrice)
     : holding.quantity;
 
   // Dynamic Max Mode: Auto-update quantity when price/cash changes while in Max mode
@@ -145,7 +198,7 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
     // Only update if in Max mode and not currently being manually edited
     if (isMaxMode && !isManualEditRef.current && mode !== 'none') {
       const newMaxQuantity = mode === 'buy'
-        ? Math.floor(pocketCash / currentPrice)
+        ? roundDownQuantity(pocketCash / currentPrice)
         : holding.quantity;
 
       // Only update if the max quantity is valid (> 0)
@@ -167,7 +220,7 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
   }, [mode]);
 
   // Get asset info for tooltip (works for all asset types)
-  const assetInfo = getAssetInfo(name);
+  const assetInfo = localizeAssetInfo(getAssetInfo(name));
 
   // Calculate P/L
   const totalPL = holding.avgPrice > 0 && holding.quantity > 0
@@ -217,7 +270,7 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
         </div>
             <div className="stat-item">
             <span className="stat-label">QTY</span>
-            <span className="stat-value">{holding.quantity > 0 ? Math.round(holding.quantity) : '--'}</span>
+            <span className="stat-value">{holding.quantity > 0 ? (quantityDecimals > 0 ? roundDownQuantity(holding.quantity) : Math.round(holding.quantity)) : '--'}</span>
           </div>
 
         {/* Hover: Show all three stats */}
@@ -240,10 +293,51 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
 
       {/* Row 4-7: Chart */}
       <div className="chart-container">
-        <MiniChart data={priceHistory} isPositive={isPositive} />
+        <MiniChart data={priceHistory} isPositive={isPositive} purchasingPower={purchasingPower} />
       </div>
 
-      {mode !== 'none' && (
+      {mode === 'order' && (
+        <div className="order-ticket">
+          <select
+            className="order-type-select"
+            value={orderType}
+            onChange={(e) => setOrderType(e.target.value as StandingOrderType)}
+          >
+            <option value="limitBuy">Limit buy</option>
+            <option value="limitSell">Limit sell</option>
+            <option value="stopLoss">Stop-loss</option>
+            <option value="sip">Monthly SIP</option>
+          </select>
+          {orderType === 'sip' ? (
+            <input
+              type="number"
+              className="qty-input"
+              value={orderAmount}
+              onChange={(e) => setOrderAmount(e.target.value)}
+              placeholder="₹ per month"
+            />
+          ) : (
+            <div className="order-ticket-fields">
+              <input
+                type="number"
+                className="qty-input"
+                value={orderQuantity}
+                onChange={(e) => setOrderQuantity(e.target.value)}
+                placeholder="Qty"
+              />
+              <input
+                type="number"
+                className="qty-input"
+                value={orderTrigger}
+                onChange={(e) => setOrderTrigger(e.target.value)}
+                placeholder={orderType === 'stopLoss' ? 'Stop ₹' : 'Limit ₹'}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {(mode === 'buy' || mode === 'sell') && (
         <>
           {/* Pocket Cash Preview */}
           <div className="pocket-cash-preview">
@@ -336,6 +430,15 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
               CANCEL
             </button>
           </>
+        ) : mode === 'order' ? (
+          <>
+            <button type="button" className="action-button cancel-btn" onClick={() => setMode('none')}>
+              CANCEL
+            </button>
+            <button type="button" className="action-button confirm-btn" onClick={handleOrder}>
+              PLACE
+            </button>
+          </>
         ) : mode === 'sell' ? (
           <>
             <button className="action-button cancel-btn" onClick={() => setMode('none')}>
@@ -353,6 +456,11 @@ export const TradeableAssetCard: React.FC<TradeableAssetCardProps> = ({
             <button type="button" className={`action-button sell-btn ${isTransacting ? 'disabled' : ''}`} onClick={handleSell} disabled={isTransacting}>
               SELL
             </button>
+            {onPlaceOrder && (
+              <button type="button" className="action-button order-btn" onClick={handleOrder} title="Limit, stop-loss or monthly SIP">
+                ⏱
+              </button>
+            )}
           </>
         )}
       </div>
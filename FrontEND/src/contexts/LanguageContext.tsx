@@ -0,0 +1,81 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Language } from '../types';
+import { DEFAULT_LANGUAGE, isLanguage, setLanguage as setModuleLanguage, translate, MessageKey } from '../utils/i18n';
+import { loadQuizBank } from '../utils/assetEducation';
+
+// The player's own pick is remembered on this device
+const STORAGE_KEY = 'bullrun.language';
+
+interface LanguageContextType {
+  // Language the UI is shown in: the player's pick, else the room/admin default
+  language: Language;
+  // Only set once the player picks a language themselves
+  playerLanguage: Language | null;
+  setLanguage: (language: Language) => void;
+  setDefaultLanguage: (language: Language | undefined) => void;
+  t: (key: MessageKey, params?: { [name: string]: string | number }) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useLanguage must be used within LanguageProvider');
+  }
+  return context;
+};
+
+const readStoredLanguage = (): Language | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+interface LanguageProviderProps {
+  children: ReactNode;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+  const [playerLanguage, setPlayerLanguage] = useState<Language | null>(readStoredLanguage);
+  const [defaultLanguage, setDefaultLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+  const language = playerLanguage ?? defaultLanguage;
+
+  // Module state is set during render so children rendered in this pass already use the new language
+  setModuleLanguage(language);
+
+  // Quiz text comes from the server in the chosen language
+  useEffect(() => {
+    loadQuizBank(language);
+  }, [language]);
+
+  const setLanguage = useCallback((next: Language) => {
+    setPlayerLanguage(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Private browsing - the pick lasts for this visit only
+    }
+  }, []);
+
+  const setDefaultLanguage = useCallback((next: Language | undefined) => {
+    setDefaultLanguageState(isLanguage(next) ? next : DEFAULT_LANGUAGE);
+  }, []);
+
+  return (
+    <LanguageContext.Provider
+      value={{
+        language,
+        playerLanguage,
+        setLanguage,
+        setDefaultLanguage,
+        t: translate,
+      }}
+    >
+      {children}
+    </LanguageContext.Provider>
+  );
+};
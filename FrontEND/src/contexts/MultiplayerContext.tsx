@@ -1,9 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { socketService } from '../services/socketService';
 import { fetchFinalLeaderboard } from '../services/adminApi';
-import { TOTAL_GAME_YEARS } from '../utils/constants';
-import { PlayerInfo, RoomInfo, MultiplayerGameState, MultiplayerMode } from '../types/multiplayer';
+import { PlayerInfo, RoomInfo, MultiplayerGameState, MultiplayerMode, SessionResumeData, NetworthBalances, SpectatorInfo, RoomOptions } from '../types/multiplayer';
 import { AdminSettings } from '../types';
+import { useLanguage } from './LanguageContext';
 
 interface MultiplayerContextType {
   // Connection state
@@ -18,13 +18,23 @@ interface MultiplayerContextType {
   // Game state
   gameState: MultiplayerGameState | null;
   leaderboard: PlayerInfo[];
+  startCountdownEndsAt: number | null; // When the host's start countdown runs out (ms timestamp)
 
   // Actions
-  createRoom: (playerName: string) => Promise<void>;
-  joinRoom: (roomId: string, playerName: string) => Promise<void>;
+  createRoom: (playerName: string, options?: RoomOptions) => Promise<void>;
+  joinRoom: (roomId: string, playerName: string, passcode?: string) => Promise<void>;
+  joinAsSpectator: (roomId: string, spectatorName: string, passcode?: string) => Promise<void>;
   leaveRoom: () => void;
   startGame: (adminSettings: AdminSettings) => Promise<void>;
+  designateSuccessor: (playerId: string | null) => Promise<void>;
+  kickPlayer: (playerId: string) => Promise<void>;
+  setReady: (isReady: boolean) => Promise<void>;
+  setReadyRule: (requireAllReady: boolean) => Promise<void>;
+  setGameSpeed: (monthDuration: number) => Promise<void>;
+  stepMonth: () => Promise<void>;
+  jumpToMonth: (year: number, month: number) => Promise<void>;
   updatePlayerState: (networth: number, portfolioBreakdown: any) => void;
+  submitNetworth: (networth: number, portfolioBreakdown: any, balances: NetworthBalances) => void;
   notifyQuizStarted: (quizCategory: string) => void;
   notifyQuizCompleted: (quizCategory: string) => void;
 
@@ -54,11 +64,20 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
   const [multiplayerMode, setMultiplayerMode] = useState<MultiplayerMode | null>(null);
   const [gameState, setGameState] = useState<MultiplayerGameState | null>(null);
   const [leaderboard, setLeaderboard] = useState<PlayerInfo[]>([]);
+  const [startCountdownEndsAt, setStartCountdownEndsAt] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // CRITICAL FIX: Track if we've received final leaderboard to prevent multiple updates
   const hasFinalLeaderboardRef = useRef(false);
 
+  // Tell the room about the player's own language pick; without one the room default applies
+  const { playerLanguage } = useLanguage();
+  useEffect(() => {
+    if (roomInfo?.roomId && playerLanguage) {
+      socketService.setLanguage(playerLanguage);
+    }
+  }, [roomInfo?.roomId, playerLanguage]);
+
   useEffect(() => {
     // Connect to server on mount
 
@@ -109,12 +128,139 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
       });
     };
 
+    // A player's connection dropped - they keep their seat during the server's grace period
+    const handlePlayerDisconnected = (data: { playerId: string }) => {
+      const markDisconnected = (p: PlayerInfo) => p.id === data.playerId ? { ...p, isConnected: false } : p;
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: prev.players.map(markDisconnected),
+        };
+      });
+      setLeaderboard(prev => prev.map(markDisconnected));
+    };
+
+    // A player came back on a new socket - swap their old id for the new one
+    const handlePlayerReconnected = (data: { oldPlayerId: string; player: PlayerInfo }) => {
+      const rebind = (p: PlayerInfo) => p.id === data.oldPlayerId ? { ...p, ...data.player, isConnected: true } : p;
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: prev.players.map(rebind),
+        };
+      });
+      setLeaderboard(prev => prev.map(rebind));
+    };
+
+    // Host left - the room promoted someone else instead of closing
+    const handleHostChanged = (data: { previousHostId: string; newHostId: string; newHostName: string }) => {
+      const isNowHost = data.newHostId === socketService.getSocketId();
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          isHost: isNowHost,
+          successorId: null,
+          players: prev.players.map(p => p.id === data.newHostId ? { ...p, isHost: true } : p),
+        };
+      });
+      // Only switch views once the game is running; the lobby handles hosts itself and spectators never play
+      setMultiplayerMode(prev => prev && prev !== 'lobby' && prev !== 'spectator' ? (isNowHost ? 'host-spectator' : 'player-game') : prev);
+      setLeaderboard(prev => prev.filter(p => p.id !== data.newHostId));
+    };
+
+    const handleSuccessorChanged = (data: { successorId: string | null }) => {
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          successorId: data.successorId,
+        };
+      });
+    };
+
+    const handleSpectatorsUpdate = (data: { spectators: SpectatorInfo[] }) => {
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          spectators: data.spectators,
+        };
+      });
+    };
+
+    // Our own session was resumed after a reconnect
+    const handleSessionResumed = (data: SessionResumeData) => {
+      setPlayerId(data.playerId ?? socketService.getSocketId() ?? null);
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: data.players ?? prev.players,
+          adminSettings: data.adminSettings ?? prev.adminSettings,
+          isHost: data.isHost ?? prev.isHost,
+        };
+      });
+    };
+
+    const handlePlayerReadyChanged = (data: { playerId: string; isReady: boolean }) => {
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: prev.players.map(p => p.id === data.playerId ? { ...p, isReady: data.isReady } : p),
+        };
+      });
+    };
+
+    const handleReadyRuleChanged = (data: { requireAllReady: boolean }) => {
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          requireAllReady: data.requireAllReady,
+        };
+      });
+    };
+
+    const handleStartCountdown = (data: { durationMs: number }) => {
+      setStartCountdownEndsAt(Date.now() + data.durationMs);
+    };
+
+    const handleStartCountdownCancelled = (data: { reason: string }) => {
+      setStartCountdownEndsAt(null);
+      setError(`Game start cancelled: ${data.reason}`);
+    };
+
+    // The host removed us from the room
+    const handleKickedFromRoom = () => {
+      setError('You were removed from the room by the host');
+      setRoomInfo(null);
+      setMultiplayerMode(null);
+      setGameState(null);
+      setLeaderboard([]);
+      hasFinalLeaderboardRef.current = false;
+    };
+
+    // The grace period ran out (or the room closed) while we were offline
+    const handleSessionResumeFailed = (message: string) => {
+      setError(`Lost connection to room: ${message}`);
+      setRoomInfo(null);
+      setMultiplayerMode(null);
+      setGameState(null);
+      setLeaderboard([]);
+      hasFinalLeaderboardRef.current = false;
+    };
+
     const handleGameStarted = (data: { gameState: MultiplayerGameState; adminSettings: AdminSettings }) => {
+      setStartCountdownEndsAt(null);
       setGameState(data.gameState);
       setRoomInfo(prev => {
         if (!prev) return prev;
-        // Determine mode based on if we're host
-        setMultiplayerMode(prev.isHost ? 'host-spectator' : 'player-game');
+        // Determine mode based on if we're host (or only watching)
+        setMultiplayerMode(prev.isSpectator ? 'spectator' : prev.isHost ? 'host-spectator' : 'player-game');
         return {
           ...prev,
           adminSettings: data.adminSettings,
@@ -198,13 +344,29 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
 
     const handleLeaderboardUpdate = (data: { players: PlayerInfo[] }) => {
       setLeaderboard(data.players);
+      // Keep scored quiz results on the room roster too - the end screen reads standings from it
+      setRoomInfo(prev => {
+        if (!prev) return prev;
+        const changed = prev.players.some(p => {
+          const update = data.players.find(u => u.id === p.id);
+          return update && (update.quizStatus?.results?.length ?? 0) !== (p.quizStatus?.results?.length ?? 0);
+        });
+        if (!changed) return prev;
+        return {
+          ...prev,
+          players: prev.players.map(p => {
+            const update = data.players.find(u => u.id === p.id);
+            return update?.quizStatus ? { ...p, quizStatus: update.quizStatus } : p;
+          }),
+        };
+      });
     };
 
     const handleTimeProgression = (data: { year: number; month: number }) => {
       setGameState(prev => {
         if (!prev) return prev;
         // Prevent time updates if the game is already marked ended
-        if (!prev.isStarted && prev.currentYear >= TOTAL_GAME_YEARS) return prev;
+        if (!prev.isStarted) return prev;
         return {
           ...prev,
           currentYear: data.year,
@@ -213,6 +375,17 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
       });
     };
 
+    // Host changed the month duration mid-game
+    const handleSpeedChanged = (data: { monthDuration: number }) => {
+      setRoomInfo(prev => {
+        if (!prev || !prev.adminSettings) return prev;
+        return {
+          ...prev,
+          adminSettings: { ...prev.adminSettings, monthDuration: data.monthDuration },
+        };
+      });
+    };
+
     const handleGameEnded = (data: { finalYear: number; finalMonth: number }) => {
       // Ensure clients set the final year/month and mark game as ended so UI can navigate to end screen
       setGameState(prev => {
@@ -332,11 +505,24 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
     socketService.on('error', handleError);
     socketService.on('playerJoined', handlePlayerJoined);
     socketService.on('playerLeft', handlePlayerLeft);
+    socketService.on('playerDisconnected', handlePlayerDisconnected);
+    socketService.on('playerReconnected', handlePlayerReconnected);
+    socketService.on('hostChanged', handleHostChanged);
+    socketService.on('successorChanged', handleSuccessorChanged);
+    socketService.on('spectatorsUpdate', handleSpectatorsUpdate);
+    socketService.on('sessionResumed', handleSessionResumed);
+    socketService.on('sessionResumeFailed', handleSessionResumeFailed);
+    socketService.on('kickedFromRoom', handleKickedFromRoom);
+    socketService.on('playerReadyChanged', handlePlayerReadyChanged);
+    socketService.on('readyRuleChanged', handleReadyRuleChanged);
+    socketService.on('startCountdown', handleStartCountdown);
+    socketService.on('startCountdownCancelled', handleStartCountdownCancelled);
     socketService.on('gameStarted', handleGameStarted);
     socketService.on('gameStateUpdate', handleGameStateUpdate);
     socketService.on('gamePaused', handleGamePaused);
     socketService.on('gameResumed', handleGameResumed);
     socketService.on('timeProgression', handleTimeProgression);
+    socketService.on('speedChanged', handleSpeedChanged);
     socketService.on('gameEnded', handleGameEnded);
     socketService.on('leaderboardUpdate', handleLeaderboardUpdate);
     socketService.on('fetchFinalLeaderboardFromDB', handleFetchFinalLeaderboardFromDB);
@@ -458,11 +644,24 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
       socketService.off('error', handleError);
       socketService.off('playerJoined', handlePlayerJoined);
       socketService.off('playerLeft', handlePlayerLeft);
+      socketService.off('playerDisconnected', handlePlayerDisconnected);
+      socketService.off('playerReconnected', handlePlayerReconnected);
+      socketService.off('hostChanged', handleHostChanged);
+      socketService.off('successorChanged', handleSuccessorChanged);
+      socketService.off('spectatorsUpdate', handleSpectatorsUpdate);
+      socketService.off('sessionResumed', handleSessionResumed);
+      socketService.off('sessionResumeFailed', handleSessionResumeFailed);
+      socketService.off('kickedFromRoom', handleKickedFromRoom);
+      socketService.off('playerReadyChanged', handlePlayerReadyChanged);
+      socketService.off('readyRuleChanged', handleReadyRuleChanged);
+      socketService.off('startCountdown', handleStartCountdown);
+      socketService.off('startCountdownCancelled', handleStartCountdownCancelled);
       socketService.off('gameStarted', handleGameStarted);
       socketService.off('gameStateUpdate', handleGameStateUpdate);
       socketService.off('gamePaused', handleGamePaused);
       socketService.off('gameResumed', handleGameResumed);
       socketService.off('timeProgression', handleTimeProgression);
+      socketService.off('speedChanged', handleSpeedChanged);
       socketService.off('gameEnded', handleGameEnded);
       socketService.off('leaderboardUpdate', handleLeaderboardUpdate);
       socketService.off('fetchFinalLeaderboardFromDB', handleFetchFinalLeaderboardFromDB);
@@ -474,9 +673,9 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Empty dependency array - only run on mount/unmount
 
-  const createRoom = async (playerName: string) => {
+  const createRoom = async (playerName: string, options: RoomOptions = {}) => {
     try {
-      const response = await socketService.createRoom(playerName);
+      const response = await socketService.createRoom(playerName, options);
 
       if (response.success && response.roomId) {
         setRoomInfo({
@@ -507,6 +706,8 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
           }],
           adminSettings: null,
           isHost: true,
+          maxPlayers: response.maxPlayers ?? null,
+          passcode: options.passcode?.trim() || null,
         });
         setMultiplayerMode('lobby');
       } else {
@@ -517,9 +718,40 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
     }
   };
 
-  const joinRoom = async (roomId: string, playerName: string) => {
+  const joinRoom = async (roomId: string, playerName: string, passcode?: string) => {
     try {
-      const response = await socketService.joinRoom(roomId, playerName);
+      const response = await socketService.joinRoom(roomId, playerName, passcode);
+
+      if (response.success && response.players) {
+        const isHost = response.isHost ?? false;
+        setRoomInfo({
+          roomId,
+          players: response.players,
+          adminSettings: response.adminSettings || null,
+          isHost,
+          maxPlayers: response.maxPlayers ?? null,
+          requireAllReady: response.requireAllReady ?? false,
+        });
+
+        // Reclaimed a seat in a game that is already running (e.g. after a server restart)
+        if (response.gameState?.isStarted) {
+          hasFinalLeaderboardRef.current = false;
+          setGameState(response.gameState);
+          setMultiplayerMode(isHost ? 'host-spectator' : 'player-game');
+        } else {
+          setMultiplayerMode('lobby');
+        }
+      } else {
+        setError(response.error || 'Failed to join room');
+      }
+    } catch (err) {
+      setError('Failed to join room');
+    }
+  };
+
+  const joinAsSpectator = async (roomId: string, spectatorName: string, passcode?: string) => {
+    try {
+      const response = await socketService.joinAsSpectator(roomId, spectatorName, passcode);
 
       if (response.success && response.players) {
         setRoomInfo({
@@ -527,8 +759,19 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
           players: response.players,
           adminSettings: response.adminSettings || null,
           isHost: false,
+          isSpectator: true,
+          spectators: response.spectators,
         });
-        setMultiplayerMode('lobby');
+
+        // Watching a game that is already running goes straight to the read-only leaderboard
+        if (response.gameState?.isStarted) {
+          hasFinalLeaderboardRef.current = false;
+          setGameState(response.gameState);
+          setLeaderboard(response.leaderboard || []);
+          setMultiplayerMode('spectator');
+        } else {
+          setMultiplayerMode('lobby');
+        }
       } else {
         setError(response.error || 'Failed to join room');
       }
@@ -543,6 +786,7 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
     setMultiplayerMode(null);
     setGameState(null);
     setLeaderboard([]);
+    setStartCountdownEndsAt(null);
     hasFinalLeaderboardRef.current = false; // Reset for next game
   };
 
@@ -568,10 +812,103 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
     }
   };
 
+  const designateSuccessor = async (successorId: string | null) => {
+    try {
+      const response = await socketService.designateSuccessor(successorId);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to pick successor');
+      }
+    } catch (err) {
+      setError('Failed to pick successor');
+    }
+  };
+
+  const kickPlayer = async (targetId: string) => {
+    try {
+      const response = await socketService.kickPlayer(targetId);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to remove player');
+      }
+    } catch (err) {
+      setError('Failed to remove player');
+    }
+  };
+
+  const setReady = async (isReady: boolean) => {
+    try {
+      const response = await socketService.setReady(isReady);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to update ready state');
+      }
+    } catch (err) {
+      setError('Failed to update ready state');
+    }
+  };
+
+  const setReadyRule = async (requireAllReady: boolean) => {
+    try {
+      const response = await socketService.setReadyRule(requireAllReady);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to update ready rule');
+      }
+    } catch (err) {
+      setError('Failed to update ready rule');
+    }
+  };
+
+  const setGameSpeed = async (monthDuration: number) => {
+    try {
+      const response = await socketService.setGameSpeed(monthDuration);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to change game speed');
+      }
+    } catch (err) {
+      setError('Failed to change game speed');
+    }
+  };
+
+  const stepMonth = async () => {
+    try {
+      const response = await socketService.stepMonth();
+
+      if (!response.success) {
+        setError(response.error || 'Failed to step month');
+      }
+    } catch (err) {
+      setError('Failed to step month');
+    }
+  };
+
+  const jumpToMonth = async (year: number, month: number) => {
+    try {
+      const response = await socketService.jumpToMonth(year, month);
+
+      if (!response.success) {
+        setError(response.error || 'Failed to jump ahead');
+      }
+    } catch (err) {
+      setError('Failed to jump ahead');
+    }
+  };
+
   const updatePlayerState = (networth: number, portfolioBreakdown: any) => {
     socketService.updatePlayerState(networth, portfolioBreakdown);
   };
 
+  // Validated alternative to updatePlayerState - the server re-values the balances at its own prices
+  const submitNetworth = (networth: number, portfolioBreakdown: any, balances: NetworthBalances) => {
+    socketService.submitNetworth(networth, portfolioBreakdown, balances).then(response => {
+      if (!response.valid && response.serverNetworth !== undefined) {
+        console.warn(`Networth ${networth} rejected by server; using ${response.serverNetworth}`);
+      }
+    });
+  };
+
   const notifyQuizStarted = (quizCategory: string) => {
     socketService.quizStarted(quizCategory);
   };
@@ -593,11 +930,21 @@ export const MultiplayerProvider: React.FC<MultiplayerProviderProps> = ({ childr
         multiplayerMode,
         gameState,
         leaderboard,
+        startCountdownEndsAt,
         createRoom,
         joinRoom,
+        joinAsSpectator,
         leaveRoom,
         startGame,
+        designateSuccessor,
+        kickPlayer,
+        setReady,
+        setReadyRule,
+        setGameSpeed,
+        stepMonth,
+        jumpToMonth,
         updatePlayerState,
+        submitNetworth,
         notifyQuizStarted,
         notifyQuizCompleted,
         error,
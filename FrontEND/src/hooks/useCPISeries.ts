@@ -0,0 +1,26 @@
+/**
+ * useCPISeries Hook
+ * Loads the consumer price index series once for inflation-adjusted ("real") values
+ */
+
+import { useState, useEffect } from 'react';
+import { CPIPoint } from '../types';
+import { fetchCPISeries } from '../services/priceApi';
+
+export function useCPISeries(): CPIPoint[] {
+  const [series, setSeries] = useState<CPIPoint[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCPISeries().then((data) => {
+      if (!cancelled) {
+        setSeries(data);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return series;
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GameState, FixedDeposit, AssetHolding, SelectedAssets, AdminSettings, CashTransaction } from '../types';
+import { GameState, FixedDeposit, AssetHolding, Holdings, SelectedAssets, AdminSettings, CashTransaction, StandingOrder, NewStandingOrder, OrderExecution, CorporateActionPayout, LoanType, BondType, InsuranceType, LifeEvent, LifeEventTemplate, CPIPoint, QuizResult } from '../types';
 import {
   MONTH_DURATION_MS,
+  MIN_MONTH_DURATION_MS,
+  MAX_MONTH_DURATION_MS,
   STARTING_CASH,
   SAVINGS_INTEREST_RATE,
-  TOTAL_GAME_YEARS,
+  getTotalGameYears,
   AVAILABLE_STOCKS,
   AVAILABLE_INDEX_FUNDS,
   AVAILABLE_MUTUAL_FUNDS,
@@ -13,11 +15,25 @@ import {
   getRandomItems,
   getRandomItem
 } from '../utils/constants';
-import { generateLifeEvents } from '../utils/lifeEvents';
-import { generateAssetUnlockSchedule, extractSelectedAssetsFromSchedule } from '../utils/assetUnlockCalculator';
+import { generateLifeEvents, resolveLifeEvent, selectFDsToBreak } from '../utils/lifeEvents';
+import { applyMonthlyInsuranceUpdate, createInsurancePolicy, INSURANCE_PRODUCTS } from '../utils/insurance';
+import { extractSelectedAssetsFromSchedule } from '../utils/assetUnlockCalculator';
+import { generateGameUnlockSchedule, getGameEnd, getGameStartMonth, hasReachedGameEnd } from '../utils/scenarios';
 import { generateQuestionIndices } from '../utils/assetEducation';
+import { getQuizBonusCash, scoreQuizAnswers, QuizAttempt } from '../utils/quizScoring';
 import { tradeTracker } from '../utils/tradeTracker';
+import { collectOrderFills, getHeldQuantity, isGroupedHolding, isSingleHolding, settleOrderBook } from '../utils/orderBook';
+import { getTaxSettings, toMonthIndex, calculateTradeCharges, calculateCapitalGainsTax, calculateFDInterestTax } from '../utils/taxes';
 import { bankingTracker } from '../utils/bankingTracker';
+import { getLoanSettings, createLoan, applyMonthlyLoanUpdate, getPledgedGoldQuantity, isFDPledged, LoanTenure } from '../utils/loans';
+import { createBond, applyMonthlyBondUpdate, getBondSaleProceeds, BOND_TERMS } from '../utils/bonds';
+import { applyCorporateActions, toCorporateActionTransactions } from '../utils/corporateActions';
+import { fetchCorporateActions, getGameSymbols } from '../services/priceApi';
+import { fetchLifeEventPool } from '../services/adminApi';
+import { useCPISeries } from './useCPISeries';
+import { useLanguage } from '../contexts/LanguageContext';
+import { socketService } from '../services/socketService';
+import { PlayerLedger, LedgerResponse, StandingOrderFill, TradeExecution } from '../types/multiplayer';
 
 // Performance optimization: Disable debug logging in production
 // const DEBUG_MODE = false; // Set to true only when debugging
@@ -30,15 +46,310 @@ const initialHoldings = {
   stocks: {},
   crypto: {},
   commodity: { quantity: 0, avgPrice: 0, totalInvested: 0 },
-  reits: {}
+  reits: {},
+  forex: {}
 };
 
 // Helper that returns true when the game is definitively over. When true,
 // we must avoid applying any further financial updates (interest, recurring
 // income, buys/sells, FD changes, etc.).
-const gameHasEnded = (s: GameState) => s.isStarted === false && s.currentYear >= TOTAL_GAME_YEARS;
+const gameHasEnded = (s: GameState) => s.isStarted === false && s.currentYear >= getGameEnd(s.adminSettings).year;
+
+const FD_BREAK_PENALTY = 0.01;
+// Life events with choices wait this many months before the first choice is applied (same as the server)
+const LIFE_EVENT_CHOICE_MONTHS = 2;
+
+// Settle a solo life event with the player's choice (first one by default): breaks FDs when the
+// choice says so, applies the net amount after insurance and records the cash transaction
+const settleSoloLifeEvent = (prev: GameState, eventId: string, choiceId: string | undefined): { state: GameState; event: LifeEvent | null } => {
+  const pending = prev.lifeEvents?.find(ev => ev.id === eventId);
+  if (!pending) return { state: prev, event: null };
+
+  const event: LifeEvent = { ...resolveLifeEvent(pending, choiceId, prev.insurancePolicies), triggered: true };
+  let pocketCash = prev.pocketCash;
+  let fixedDeposits = prev.fixedDeposits;
+
+  const choice = event.choices?.find(c => c.id === event.choiceId);
+  if (choice?.breakFD && event.amount < 0) {
+    const broken = selectFDsToBreak(fixedDeposits, Math.abs(event.amount), FD_BREAK_PENALTY, fdId => isFDPledged(prev.loans, fdId));
+    broken.forEach(fd => {
+      const penaltyAmount = fd.amount * FD_BREAK_PENALTY;
+      pocketCash += fd.amount - penaltyAmount;
+      bankingTracker.logFDBreak(fd.id, fd.amount, fd.amount - penaltyAmount, penaltyAmount, pocketCash, prev.currentYear, prev.currentMonth);
+    });
+    if (broken.length > 0) {
+      fixedDeposits = fixedDeposits.filter(fd => !broken.includes(fd));
+      event.fdBroken = broken.reduce((sum, fd) => sum + fd.amount, 0);
+    }
+  }
+
+  const transaction: CashTransaction = {
+    id: `life_event_${event.id}_${Date.now()}`,
+    type: event.type === 'gain' ? 'life_event_gain' : 'life_event_loss',
+    amount: event.amount,
+    message: event.message,
+    gameYear: prev.currentYear,
+    gameMonth: prev.currentMonth,
+    timestamp: Date.now()
+  };
+
+  return {
+    state: {
+      ...prev,
+      pocketCash: pocketCash + event.amount,
+      pocketCashReceivedTotal: (prev.pocketCashReceivedTotal || 0) + Math.max(0, event.amount),
+      cashTransactions: [...(prev.cashTransactions || []), transaction],
+      fixedDeposits,
+      lifeEvents: prev.lifeEvents?.map(ev => ev.id === eventId ? event : ev)
+    },
+    event
+  };
+};
+
+// Record a scored quiz (once per category) and a cash transaction for any bonus.
+// The balance is moved by the caller in solo games and by the server ledger in multiplayer
+const addQuizResult = (prev: GameState, result: QuizResult): GameState => {
+  if (prev.quizResults?.some(existing => existing.category === result.category)) return prev;
+
+  const bonusTransactions: CashTransaction[] = result.bonusCash > 0 ? [{
+    id: `quiz_bonus_${result.category}_${Date.now()}`,
+    type: 'quiz_bonus',
+    amount: result.bonusCash,
+    message: `Quiz bonus (${result.points} points)`,
+    gameYear: result.gameYear,
+    gameMonth: result.gameMonth,
+    timestamp: Date.now()
+  }] : [];
+
+  return {
+    ...prev,
+    quizResults: [...(prev.quizResults || []), result],
+    cashTransactions: [...(prev.cashTransactions || []), ...bonusTransactions]
+  };
+};
+
+// Advance a solo game by one month: savings interest, FD maturity, bond coupons,
+// recurring income, insurance renewals, loan EMIs and scheduled life events. Triggered life events
+// are pushed onto `triggeredEvents` so the caller can show a popup; one with choices pauses the game.
+const advanceSoloMonth = (prev: GameState, triggeredEvents: any[]): GameState => {
+  const gameEnd = getGameEnd(prev.adminSettings);
+
+  // Game has ended (final game month) - mark as ended so the timer stops
+  if (hasReachedGameEnd(prev.adminSettings, prev.currentYear, prev.currentMonth)) {
+    return {
+      ...prev,
+      isStarted: false // Mark game as ended to trigger transition to End Game screen
+    };
+  }
+
+
+  let newMonth = prev.currentMonth + 1;
+  let newYear = prev.currentYear;
+
+  if (newMonth > 12) {
+    newMonth = 1;
+    newYear += 1;
+  }
+
+  // Stop at the final game month - don't increment past it
+  if (newYear * 12 + newMonth > gameEnd.year * 12 + gameEnd.month) {
+    return {
+      ...prev,
+      currentYear: gameEnd.year,
+      currentMonth: gameEnd.month,
+      isStarted: false, // Mark game as ended
+    };
+  }
+
+  // Apply monthly savings account interest (annual rate / 12)
+  const monthlyInterest = prev.savingsAccount.balance * (SAVINGS_INTEREST_RATE / 12);
+  const newSavingsBalance = prev.savingsAccount.balance + monthlyInterest;
+
+  // Update FD maturity status
+  const updatedFDs = prev.fixedDeposits.map(fd => {
+    if (!fd.isMatured && fd.maturityYear === newYear && fd.maturityMonth === newMonth) {
+      return { ...fd, isMatured: true };
+    }
+    return fd;
+  });
+
+  // Half-yearly bond coupons and redemptions at maturity
+  const bondUpdate = applyMonthlyBondUpdate(prev.pocketCash, prev.bonds || [], newYear, newMonth, getTaxSettings(prev.adminSettings));
+
+  // Add recurring income every 6 months (months 6 and 12)
+  let newPocketCash = bondUpdate.pocketCash;
+  let newPocketCashReceivedTotal = prev.pocketCashReceivedTotal || 0;
+  let newCashTransactions = [...(prev.cashTransactions || [])];
+
+  if ((newMonth === 6 || newMonth === 12) && prev.adminSettings?.recurringIncome) {
+    newPocketCash += prev.adminSettings.recurringIncome;
+    newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+
+    // Track recurring income transaction
+    const transaction: CashTransaction = {
+      id: `recurring_${newYear}_${newMonth}_${Date.now()}`,
+      type: 'recurring_income',
+      amount: prev.adminSettings.recurringIncome,
+      message: 'Recurring Income Received',
+      gameYear: newYear,
+      gameMonth: newMonth,
+      timestamp: Date.now()
+    };
+    newCashTransactions.push(transaction);
+  }
+
+  // Renew insurance on its anniversary (policies lapse if the premium can't be paid)
+  const insuranceUpdate = applyMonthlyInsuranceUpdate(newPocketCash, prev.insurancePolicies || [], prev.adminSettings?.recurringIncome || 0, newYear, newMonth);
+  newPocketCash = insuranceUpdate.pocketCash;
+
+  // Overdraft interest on negative cash, then this month's EMIs
+  const loanUpdate = applyMonthlyLoanUpdate(newPocketCash, prev.loans || [], getLoanSettings(prev.adminSettings));
+  newPocketCash = loanUpdate.pocketCash;
+
+  let next: GameState = {
+    ...prev,
+    currentMonth: newMonth,
+    currentYear: newYear,
+    pocketCash: newPocketCash,
+    pocketCashReceivedTotal: newPocketCashReceivedTotal,
+    cashTransactions: newCashTransactions,
+    savingsAccount: { ...prev.savingsAccount, balance: newSavingsBalance },
+    fixedDeposits: updatedFDs,
+    loans: loanUpdate.loans,
+    bonds: bondUpdate.bonds,
+    insurancePolicies: insuranceUpdate.policies
+  };
+
+  // Process any scheduled life events (solo mode)
+  (prev.lifeEvents || []).forEach(ev => {
+    const monthsWaiting = (newYear - ev.gameYear) * 12 + newMonth - ev.gameMonth;
+    if (ev.awaitingChoice && monthsWaiting >= LIFE_EVENT_CHOICE_MONTHS) {
+      next = settleSoloLifeEvent(next, ev.id, undefined).state;
+    } else if (!ev.triggered && ev.gameYear === newYear && ev.gameMonth === newMonth) {
+      if (ev.choices && ev.choices.length > 0) {
+        const waiting: LifeEvent = { ...ev, triggered: true, awaitingChoice: true };
+        next = { ...next, isPaused: true, lifeEvents: next.lifeEvents?.map(e => e.id === ev.id ? waiting : e) };
+        triggeredEvents.push(waiting);
+      } else {
+        const settled = settleSoloLifeEvent(next, ev.id, undefined);
+        next = settled.state;
+        triggeredEvents.push(settled.event);
+      }
+    }
+  });
+
+  return next;
+};
+
+// Apply a solo buy/sell to the local state and log it for AI analysis. When the host
+// enabled taxes, buys pay charges on top and sells lose charges plus capital gains tax.
+// Callers check cash beforehand; a sell larger than the holding leaves state unchanged.
+const executeSoloTrade = (
+  prev: GameState,
+  side: 'buy' | 'sell',
+  assetType: string,
+  assetName: string,
+  quantity: number,
+  price: number
+): GameState => {
+  // Always clone the nested holdings objects immutably to avoid accidental in-place mutations
+  // which can cause duplicate-applied changes when multiple transactions are processed rapidly.
+  const newHoldings = { ...prev.holdings } as Holdings;
+  const holdingQuantityBefore = getHeldQuantity(prev.holdings, assetType, assetName);
+  const totalValue = quantity * price;
+  const taxSettings = getTaxSettings(prev.adminSettings);
+  const monthIndex = toMonthIndex(prev.currentYear, prev.currentMonth);
+  const charges = calculateTradeCharges(side, assetType, totalValue, taxSettings).total;
+  let capitalGainsTax = 0;
+
+  let holding: AssetHolding | undefined;
+  if (isSingleHolding(assetType)) {
+    holding = { ...newHoldings[assetType] };
+  } else if (isGroupedHolding(assetType)) {
+    holding = newHoldings[assetType][assetName] ? { ...newHoldings[assetType][assetName] } : undefined;
+  }
+
+  let updatedHolding: AssetHolding;
+  if (side === 'buy') {
+    // Charges are part of the cost basis
+    const current = holding || { quantity: 0, avgPrice: 0, totalInvested: 0 };
+    const newQuantity = current.quantity + quantity;
+    const newTotalInvested = current.totalInvested + totalValue + charges;
+    updatedHolding = {
+      quantity: newQuantity,
+      avgPrice: newTotalInvested / newQuantity,
+      totalInvested: newTotalInvested,
+      acquiredMonthIndex: ((current.acquiredMonthIndex ?? monthIndex) * current.quantity + monthIndex * quantity) / newQuantity
+    };
+  } else {
+    if (!holding || holding.quantity < quantity) {
+      return prev;
+    }
+    const newQuantity = holding.quantity - quantity;
+    const reducedInvestment = (holding.totalInvested / holding.quantity) * quantity;
+    const holdingMonths = monthIndex - (holding.acquiredMonthIndex ?? monthIndex);
+    capitalGainsTax = calculateCapitalGainsTax(totalValue - charges - reducedInvestment, holdingMonths, taxSettings);
+    updatedHolding = {
+      quantity: newQuantity,
+      avgPrice: newQuantity > 0 ? (holding.totalInvested - reducedInvestment) / newQuantity : 0,
+      totalInvested: holding.totalInvested - reducedInvestment,
+      acquiredMonthIndex: newQuantity > 0 ? holding.acquiredMonthIndex : undefined
+    };
+  }
+
+  if (isSingleHolding(assetType)) {
+    newHoldings[assetType] = updatedHolding;
+  } else if (isGroupedHolding(assetType)) {
+    // Clone the asset group before writing so the previous state is never touched
+    const assetGroup = { ...newHoldings[assetType] };
+    if (updatedHolding.quantity === 0) {
+      delete assetGroup[assetName];
+    } else {
+      assetGroup[assetName] = updatedHolding;
+    }
+    newHoldings[assetType] = assetGroup;
+  }
+
+  const updatedState = {
+    ...prev,
+    pocketCash: side === 'buy'
+      ? prev.pocketCash - totalValue - charges
+      : prev.pocketCash + totalValue - charges - capitalGainsTax,
+    holdings: newHoldings
+  };
+
+  // Log trade for AI analysis
+  tradeTracker.logTrade({
+    transactionType: side,
+    assetType,
+    assetName,
+    quantity,
+    price,
+    totalValue,
+    positionSize: updatedHolding.quantity * price,
+    gameYear: prev.currentYear,
+    gameMonth: prev.currentMonth,
+    timestamp: Date.now(),
+    pocketCashBefore: prev.pocketCash,
+    pocketCashAfter: updatedState.pocketCash,
+    holdingQuantityBefore,
+    holdingQuantityAfter: updatedHolding.quantity,
+    charges,
+    taxPaid: capitalGainsTax,
+  });
+
+  return updatedState;
+};
+
+// Keep the open orders panel history short
+const MAX_ORDER_EXECUTIONS = 20;
+
+const recordOrderExecutions = (prev: GameState, executions: OrderExecution[]): OrderExecution[] =>
+  [...[...executions].reverse(), ...(prev.orderExecutions || [])].slice(0, MAX_ORDER_EXECUTIONS);
 
 export const useGameState = (isMultiplayer: boolean = false) => {
+  const cpiSeries = useCPISeries();
+  const { language } = useLanguage();
   const [gameState, setGameState] = useState<GameState>({
     mode: 'menu',
     currentYear: 1,
@@ -101,7 +412,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
   const reservedAmountRef = useRef<number>(0);
   const pocketCashRef = useRef<number>(gameState.pocketCash);
   // Timer ref for auto-closing life event popups
-  const lifeEventAutoCloseTimerRef = useRef<number | null>(null);
+  const lifeEventAutoCloseTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Keep pocketCashRef in sync with state
   useEffect(() => {
@@ -110,161 +421,213 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
 
   const prevPocketCashRef = useRef<number>(gameState.pocketCash);
+  // Latest state for callbacks that must decide before calling setGameState (order evaluation)
+  const gameStateRef = useRef<GameState>(gameState);
+  useEffect(() => {
+    gameStateRef.current = gameState;
+  }, [gameState]);
+  // Solo life events are drawn from the admin-authored pool on the server and scaled by CPI
+  const lifeEventPoolRef = useRef<LifeEventTemplate[]>([]);
+  const cpiSeriesRef = useRef<CPIPoint[]>(cpiSeries);
+  useEffect(() => {
+    cpiSeriesRef.current = cpiSeries;
+  }, [cpiSeries]);
+  useEffect(() => {
+    if (isMultiplayer) return;
+    fetchLifeEventPool(language).then(pool => {
+      lifeEventPoolRef.current = pool;
+    });
+  }, [isMultiplayer, language]);
   useEffect(() => {
     prevPocketCashRef.current = gameState.pocketCash;
   }, [gameState.pocketCash]);
 
-  // Start game timer (disabled in multiplayer mode - server controls time)
-  useEffect(() => {
-    if (gameState.mode !== 'solo' || gameState.isPaused || isMultiplayer) return;
+  // Multiplayer: once the server has sent our ledger, it owns every balance.
+  // Local time updates then stop crediting interest/income so nothing is applied twice.
+  const serverLedgerActive = useRef(false);
 
-    // Use admin setting for month duration, or default to 5000ms (5 seconds)
-    const monthDuration = gameState.adminSettings?.monthDuration || MONTH_DURATION_MS;
+  // Replace local balances with the server ledger. beforeApply runs against the pre-update state (for logging)
+  const applyServerLedger = useCallback((ledger: PlayerLedger, beforeApply?: (prev: GameState) => void) => {
+    serverLedgerActive.current = true;
+    setGameState(prev => {
+      if (gameHasEnded(prev)) return prev;
+      beforeApply?.(prev);
 
-    const interval = setInterval(() => {
-      setGameState(prev => {
-        // CRITICAL FIX: Stop timer if game has ended (year 20, month 12) and mark as ended
-        if (prev.currentYear >= TOTAL_GAME_YEARS && prev.currentMonth === 12) {
-          clearInterval(interval);
-          return {
-            ...prev,
-            isStarted: false // Mark game as ended to trigger transition to End Game screen
-          };
-        }
+      return {
+        ...prev,
+        pocketCash: ledger.pocketCash,
+        pocketCashReceivedTotal: ledger.pocketCashReceivedTotal,
+        savingsAccount: {
+          ...prev.savingsAccount,
+          balance: ledger.savingsBalance,
+          totalDeposited: ledger.savingsTotalDeposited
+        },
+        fixedDeposits: ledger.fixedDeposits,
+        loans: ledger.loans || [],
+        bonds: ledger.bonds || [],
+        insurancePolicies: ledger.insurancePolicies || [],
+        openOrders: ledger.openOrders || [],
+        orderExecutions: ledger.orderExecutions || [],
+        holdings: { ...ledger.holdings, forex: ledger.holdings.forex || {} } // Ledgers from before forex have no group
+      };
+    });
+  }, []);
 
-        // Check if game has ended before processing
-        if (prev.currentYear > TOTAL_GAME_YEARS) {
-          return prev;
-        }
+  // Send a ledger command to the server and apply the returned ledger
+  const runLedgerCommand = (
+    request: Promise<LedgerResponse>,
+    failurePrefix: string,
+    beforeApply?: (prev: GameState, ledger: PlayerLedger, trade?: TradeExecution) => void
+  ) => {
+    transactionInProgress.current = true;
+    setIsTransactionPending(true);
 
-        let newMonth = prev.currentMonth + 1;
-        let newYear = prev.currentYear;
+    request.then(response => {
+      if (response.success && response.ledger) {
+        const { ledger, trade } = response;
+        applyServerLedger(ledger, prev => beforeApply?.(prev, ledger, trade));
+      } else {
+        alert(`${failurePrefix}: ${response.error || 'Request failed'}`);
+      }
+    }).catch(() => {
+      alert(`${failurePrefix}: Request failed`);
+    }).finally(() => {
+      finishTransaction();
+    });
+  };
 
-        if (newMonth > 12) {
-          newMonth = 1;
-          newYear += 1;
-        }
+  // Log a server-executed trade for AI analysis (same shape as local trades)
+  const logServerTrade = (prev: Pick<GameState, 'currentYear' | 'currentMonth'>, trade?: TradeExecution) => {
+    if (!trade) return;
+    tradeTracker.logTrade({
+      transactionType: trade.side,
+      assetType: trade.assetType,
+      assetName: trade.assetName,
+      quantity: trade.quantity,
+      price: trade.price,
+      totalValue: trade.totalValue,
+      positionSize: trade.holdingQuantityAfter * trade.price,
+      gameYear: prev.currentYear,
+      gameMonth: prev.currentMonth,
+      timestamp: Date.now(),
+      pocketCashBefore: trade.pocketCashBefore,
+      pocketCashAfter: trade.pocketCashAfter,
+      holdingQuantityBefore: trade.holdingQuantityBefore,
+      holdingQuantityAfter: trade.holdingQuantityAfter,
+      charges: trade.charges,
+      taxPaid: trade.capitalGainsTax,
+    });
+  };
 
-        // Stop at year 20, month 12 - don't increment to year 21
-        if (newYear > TOTAL_GAME_YEARS) {
-          clearInterval(interval);
-          return {
-            ...prev,
-            currentYear: TOTAL_GAME_YEARS,
-            currentMonth: 12,
-            isStarted: false, // Mark game as ended
-          };
-        }
+  // Show the popup for a life event that just fired in solo mode
+  const showTriggeredLifeEvent = useCallback((event: any, pocketCash: number) => {
+    setTimeout(() => {
+      try {
+        const isInDebt = pocketCash < 0;
+        const remainingDebt = isInDebt ? Math.abs(pocketCash) : 0;
 
-        // Apply monthly savings account interest (annual rate / 12)
-        const monthlyInterest = prev.savingsAccount.balance * (SAVINGS_INTEREST_RATE / 12);
-        const newSavingsBalance = prev.savingsAccount.balance + monthlyInterest;
+        // Cancel any previous auto-close timer
+        if (lifeEventAutoCloseTimerRef.current) {
+          clearTimeout(lifeEventAutoCloseTimerRef.current);
+          lifeEventAutoCloseTimerRef.current = null;
+        }
 
-        // Update FD maturity status
-        const updatedFDs = prev.fixedDeposits.map(fd => {
-          if (!fd.isMatured && fd.maturityYear === newYear && fd.maturityMonth === newMonth) {
-            return { ...fd, isMatured: true };
-          }
-          return fd;
-        });
+        setLifeEventPopup({ ...event, locked: isInDebt, remainingDebt });
 
-        // Add recurring income every 6 months (months 6 and 12)
-        let newPocketCash = prev.pocketCash;
-        let newPocketCashReceivedTotal = prev.pocketCashReceivedTotal || 0;
-        let newCashTransactions = [...(prev.cashTransactions || [])];
+        // Schedule auto-close only if sufficient funds and no decision is pending
+        if (!isInDebt && !event.awaitingChoice) {
+          lifeEventAutoCloseTimerRef.current = setTimeout(() => {
+            setLifeEventPopup(null);
+            lifeEventAutoCloseTimerRef.current = null;
+          }, 10000);
+        }
+      } catch (err) {
+        // noop
+      }
+    }, 0);
+  }, []);
 
-        if ((newMonth === 6 || newMonth === 12) && prev.adminSettings?.recurringIncome) {
-          newPocketCash += prev.adminSettings.recurringIncome;
-          newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+  // Start game timer (disabled in multiplayer mode - server controls time)
+  useEffect(() => {
+    if (gameState.mode !== 'solo' || gameState.isPaused || isMultiplayer) return;
 
-          // Track recurring income transaction
-          const transaction: CashTransaction = {
-            id: `recurring_${newYear}_${newMonth}_${Date.now()}`,
-            type: 'recurring_income',
-            amount: prev.adminSettings.recurringIncome,
-            message: 'Recurring Income Received',
-            gameYear: newYear,
-            gameMonth: newMonth,
-            timestamp: Date.now()
-          };
-          newCashTransactions.push(transaction);
-        }
+    // Use admin setting for month duration, or default to 5000ms (5 seconds)
+    const monthDuration = gameState.adminSettings?.monthDuration || MONTH_DURATION_MS;
 
-        // Process any scheduled life events (solo mode)
-        let updatedLifeEvents = prev.lifeEvents ? [...prev.lifeEvents] : undefined;
+    const interval = setInterval(() => {
+      setGameState(prev => {
         const triggeredEvents: any[] = [];
-        if (updatedLifeEvents) {
-          updatedLifeEvents = updatedLifeEvents.map(ev => {
-            if (!ev.triggered && ev.gameYear === newYear && ev.gameMonth === newMonth) {
-              // Apply effect immediately
-              newPocketCash += ev.amount;
-              if (ev.amount > 0) newPocketCashReceivedTotal += ev.amount;
-
-              // Track life event transaction
-              const transaction: CashTransaction = {
-                id: `life_event_${ev.id}_${Date.now()}`,
-                type: ev.type === 'gain' ? 'life_event_gain' : 'life_event_loss',
-                amount: ev.amount,
-                message: ev.message,
-                gameYear: newYear,
-                gameMonth: newMonth,
-                timestamp: Date.now()
-              };
-              newCashTransactions.push(transaction);
-
-              triggeredEvents.push(ev);
-              return { ...ev, triggered: true };
-            }
-            return ev;
-          });
+        const next = advanceSoloMonth(prev, triggeredEvents);
+
+        // CRITICAL FIX: Stop timer once the game has been marked as ended
+        if (next.isStarted === false) {
+          clearInterval(interval);
         }
 
         // After state is set, push a popup for the first triggered event (if any)
         if (triggeredEvents.length > 0) {
-          setTimeout(() => {
-            try {
-              const event = triggeredEvents[0];
-              const isInDebt = newPocketCash < 0;
-              const remainingDebt = isInDebt ? Math.abs(newPocketCash) : 0;
-
-              // Cancel any previous auto-close timer
-              if (lifeEventAutoCloseTimerRef.current) {
-                clearTimeout(lifeEventAutoCloseTimerRef.current as any);
-                lifeEventAutoCloseTimerRef.current = null;
-              }
-
-
-              setLifeEventPopup({ ...event, locked: isInDebt, remainingDebt });
-
-              // Schedule auto-close only if sufficient funds
-              if (!isInDebt) {
-                lifeEventAutoCloseTimerRef.current = window.setTimeout(() => {
-                  setLifeEventPopup(null);
-                  lifeEventAutoCloseTimerRef.current = null;
-                }, 10000);
-              }
-            } catch (err) {
-              // noop
-            }
-          }, 0);
+          showTriggeredLifeEvent(triggeredEvents[0], next.pocketCash);
         }
 
-        return {
-          ...prev,
-          currentMonth: newMonth,
-          currentYear: newYear,
-          pocketCash: newPocketCash,
-          pocketCashReceivedTotal: newPocketCashReceivedTotal,
-          cashTransactions: newCashTransactions,
-          savingsAccount: { ...prev.savingsAccount, balance: newSavingsBalance },
-          fixedDeposits: updatedFDs,
-          lifeEvents: updatedLifeEvents
-        };
+        return next;
       });
     }, monthDuration);
 
     return () => clearInterval(interval);
-  }, [gameState.mode, gameState.isPaused, isMultiplayer, gameState.adminSettings?.monthDuration]);
+  }, [gameState.mode, gameState.isPaused, isMultiplayer, gameState.adminSettings?.monthDuration, showTriggeredLifeEvent]);
+
+  // === Solo time controls ===
+
+  // Change how long a month lasts; the timer effect re-arms on the new duration
+  const setMonthDuration = useCallback((monthDuration: number) => {
+    if (!isFinite(monthDuration) || monthDuration < MIN_MONTH_DURATION_MS || monthDuration > MAX_MONTH_DURATION_MS) return;
+
+    setGameState(prev => {
+      if (prev.mode !== 'solo' || !prev.adminSettings) return prev;
+      return {
+        ...prev,
+        adminSettings: { ...prev.adminSettings, monthDuration: Math.round(monthDuration) }
+      };
+    });
+  }, []);
+
+  // Advance exactly one month while paused
+  const stepMonth = useCallback(() => {
+    setGameState(prev => {
+      if (prev.mode !== 'solo' || !prev.isPaused || gameHasEnded(prev)) return prev;
+
+      const triggeredEvents: any[] = [];
+      const next = advanceSoloMonth(prev, triggeredEvents);
+      if (triggeredEvents.length > 0) {
+        showTriggeredLifeEvent(triggeredEvents[0], next.pocketCash);
+      }
+      return next;
+    });
+  }, [showTriggeredLifeEvent]);
+
+  // Fast-forward to a later year/month, applying every month in between
+  const jumpToMonth = useCallback((year: number, month: number) => {
+    setGameState(prev => {
+      if (prev.mode !== 'solo' || gameHasEnded(prev)) return prev;
+      if (!Number.isInteger(year) || !Number.isInteger(month) || month < 1 || month > 12) return prev;
+      const gameEnd = getGameEnd(prev.adminSettings);
+      if (year * 12 + month > gameEnd.year * 12 + gameEnd.month) return prev;
+
+      const monthsAhead = (year - prev.currentYear) * 12 + (month - prev.currentMonth);
+      if (monthsAhead <= 0) return prev;
+
+      const triggeredEvents: any[] = [];
+      let next = prev;
+      for (let i = 0; i < monthsAhead && next.isStarted !== false; i++) {
+        next = advanceSoloMonth(next, triggeredEvents);
+      }
+
+      if (triggeredEvents.length > 0) {
+        showTriggeredLifeEvent(triggeredEvents[triggeredEvents.length - 1], next.pocketCash);
+      }
+      return next;
+    });
+  }, [showTriggeredLifeEvent]);
 
   const openSettings = useCallback(() => {
     setGameState(prev => ({
@@ -293,10 +656,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       quizQuestionIndices = initialData.quizQuestionIndices || generateQuestionIndices();
     } else {
       // Generate unlock schedule first
-      assetUnlockSchedule = generateAssetUnlockSchedule(
-        adminSettings.selectedCategories,
-        adminSettings.gameStartYear
-      );
+      assetUnlockSchedule = generateGameUnlockSchedule(adminSettings);
 
       // Extract selected assets from schedule (ensures 2 fixed + 0-3 random stocks)
       const extractedAssets = extractSelectedAssetsFromSchedule(assetUnlockSchedule);
@@ -312,7 +672,9 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         indexFunds: extractedAssets.indexFunds,
         mutualFunds: extractedAssets.mutualFunds,
         commodity: extractedAssets.commodity || getRandomItem(AVAILABLE_COMMODITIES),
-        reit: extractedAssets.reit || 'EMBASSY' // Fallback to EMBASSY if not in schedule
+        reit: extractedAssets.reit || 'EMBASSY', // Fallback to EMBASSY if not in schedule
+        crypto: extractedAssets.crypto,
+        forex: extractedAssets.forex
       };
 
       shuffledQuotes = [...FINANCIAL_QUOTES].sort(() => Math.random() - 0.5);
@@ -320,11 +682,12 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       quizQuestionIndices = generateQuestionIndices();
     }
 
+    serverLedgerActive.current = false;
     setGameState({
       mode: 'solo',
       isStarted: true,
       currentYear: 1,
-      currentMonth: 1,
+      currentMonth: getGameStartMonth(adminSettings),
       pocketCash: adminSettings.initialPocketCash || STARTING_CASH,
       pocketCashReceivedTotal: adminSettings.initialPocketCash || STARTING_CASH,
       savingsAccount: { balance: 0, interestRate: SAVINGS_INTEREST_RATE },
@@ -337,15 +700,14 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       assetUnlockSchedule,
       yearlyQuotes: shuffledQuotes,
       completedQuizzes: [],
+      quizResults: [],
       quizQuestionIndices
     });
   }, []);
 
   const startSoloGame = useCallback((adminSettings?: AdminSettings) => {
     // Generate asset unlock schedule if admin settings are provided
-    const assetUnlockSchedule = adminSettings
-      ? generateAssetUnlockSchedule(adminSettings.selectedCategories, adminSettings.gameStartYear)
-      : undefined;
+    const assetUnlockSchedule = adminSettings ? generateGameUnlockSchedule(adminSettings) : undefined;
 
     let selectedStocks: string[];
     let fundType: 'index' | 'mutual';
@@ -380,7 +742,9 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       indexFunds: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).indexFunds : [],
       mutualFunds: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).mutualFunds : [],
       commodity: selectedCommodity,
-      reit: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).reit : 'EMBASSY'
+      reit: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).reit : 'EMBASSY',
+      crypto: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).crypto : [],
+      forex: assetUnlockSchedule ? extractSelectedAssetsFromSchedule(assetUnlockSchedule).forex : []
     };
 
     // Shuffle quotes for this game - one unique quote per year
@@ -390,7 +754,13 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     const quizQuestionIndices = generateQuestionIndices();
 
     const eventsCountToUse = adminSettings?.eventsCount || 3;
-    const soloLifeEvents = generateLifeEvents(eventsCountToUse, assetUnlockSchedule);
+    const soloLifeEvents = generateLifeEvents(eventsCountToUse, assetUnlockSchedule, getTotalGameYears(adminSettings), {
+      pool: lifeEventPoolRef.current,
+      recurringIncome: adminSettings?.recurringIncome,
+      gameStartYear: adminSettings?.gameStartYear,
+      gameStartMonth: getGameStartMonth(adminSettings),
+      cpiSeries: cpiSeriesRef.current
+    });
 
     // Start game paused if intro/quiz is enabled (so intro can show before timer starts)
     const shouldStartPaused = adminSettings?.enableQuiz !== false;
@@ -399,7 +769,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       mode: 'solo',
       isStarted: true,
       currentYear: 1,
-      currentMonth: 1,
+      currentMonth: getGameStartMonth(adminSettings),
       pocketCash: adminSettings?.initialPocketCash || STARTING_CASH,
       pocketCashReceivedTotal: adminSettings?.initialPocketCash || STARTING_CASH,
       savingsAccount: { balance: 0, interestRate: SAVINGS_INTEREST_RATE },
@@ -412,12 +782,14 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       assetUnlockSchedule,
       yearlyQuotes: shuffledQuotes,
       completedQuizzes: [],
+      quizResults: [],
       quizQuestionIndices,
       lifeEvents: soloLifeEvents
     });
   }, []);
 
   const backToMenu = useCallback(() => {
+    serverLedgerActive.current = false;
     setGameState({
       mode: 'menu',
       currentYear: 1,
@@ -433,6 +805,13 @@ export const useGameState = (isMultiplayer: boolean = false) => {
   }, []);
 
   const depositToSavings = useCallback((amount: number) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.depositSavings(amount), 'Cannot deposit', (prev, ledger) => {
+        bankingTracker.logDeposit(amount, ledger.savingsBalance, prev.currentYear, prev.currentMonth, 'manual_deposit');
+      });
+      return;
+    }
+
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev; // no updates after game end
       if (amount > prev.pocketCash) return prev;
@@ -451,9 +830,16 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         }
       };
     });
-  }, []);
+  }, [isMultiplayer]);
 
   const withdrawFromSavings = useCallback((amount: number) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.withdrawSavings(amount), 'Cannot withdraw', (prev, ledger) => {
+        bankingTracker.logWithdrawal(amount, ledger.savingsBalance, prev.currentYear, prev.currentMonth, 'manual_withdrawal');
+      });
+      return;
+    }
+
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev;
       if (amount > prev.savingsAccount.balance) return prev;
@@ -478,9 +864,20 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         }
       };
     });
-  }, []);
+  }, [isMultiplayer]);
+
+  const createFixedDeposit = useCallback((amount: number, duration: number, interestRate: number) => {
+    // Multiplayer: the server picks the rate for the current calendar year
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.openFD(amount, duration), 'Cannot create fixed deposit', (prev, ledger) => {
+        const newFD = ledger.fixedDeposits.find(fd => !prev.fixedDeposits.some(existing => existing.id === fd.id));
+        if (newFD) {
+          bankingTracker.logFDInvestment(newFD.id, newFD.amount, newFD.duration, newFD.interestRate, ledger.savingsBalance, prev.currentYear, prev.currentMonth);
+        }
+      });
+      return;
+    }
 
-  const createFixedDeposit = useCallback((amount: number, duration: 12 | 24 | 36, interestRate: number) => {
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev;
       if (amount > prev.pocketCash || prev.fixedDeposits.length >= 3) return prev;
@@ -510,9 +907,26 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         fixedDeposits: [...prev.fixedDeposits, newFD]
       };
     });
-  }, []);
+  }, [isMultiplayer]);
 
   const collectFD = useCallback((fdId: string) => {
+    if (isFDPledged(gameStateRef.current.loans, fdId)) {
+      alert('Cannot collect this fixed deposit: it is pledged against a loan. Repay the loan first.');
+      return;
+    }
+
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.collectFD(fdId), 'Cannot collect fixed deposit', (prev, ledger) => {
+        const fd = prev.fixedDeposits.find(f => f.id === fdId);
+        if (fd) {
+          const maturityAmount = fd.amount * (1 + (fd.interestRate / 100) * (fd.duration / 12));
+          const interestTax = calculateFDInterestTax(maturityAmount - fd.amount, getTaxSettings(prev.adminSettings));
+          bankingTracker.logFDMaturity(fdId, fd.amount, maturityAmount, ledger.pocketCash, prev.currentYear, prev.currentMonth, interestTax);
+        }
+      });
+      return;
+    }
+
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev; const fd = prev.fixedDeposits.find(f => f.id === fdId);
       if (!fd || !fd.isMatured) return prev;
@@ -525,19 +939,38 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       const durationInYears = fd.duration / 12;
       const totalReturn = (fd.interestRate / 100) * durationInYears;
       const maturityAmount = fd.amount * (1 + totalReturn);
+      // Tax deducted at source on the interest when taxes are enabled
+      const interestTax = calculateFDInterestTax(maturityAmount - fd.amount, getTaxSettings(prev.adminSettings));
+      const amountReceived = maturityAmount - interestTax;
 
       // Log FD maturity transaction
-      bankingTracker.logFDMaturity(fdId, fd.amount, maturityAmount, prev.pocketCash + maturityAmount, prev.currentYear, prev.currentMonth);
+      bankingTracker.logFDMaturity(fdId, fd.amount, maturityAmount, prev.pocketCash + amountReceived, prev.currentYear, prev.currentMonth, interestTax);
 
       return {
         ...prev,
-        pocketCash: prev.pocketCash + maturityAmount,
+        pocketCash: prev.pocketCash + amountReceived,
         fixedDeposits: prev.fixedDeposits.filter(f => f.id !== fdId)
       };
     });
-  }, []);
+  }, [isMultiplayer]);
 
   const breakFD = useCallback((fdId: string) => {
+    if (isFDPledged(gameStateRef.current.loans, fdId)) {
+      alert('Cannot break this fixed deposit: it is pledged against a loan. Repay the loan first.');
+      return;
+    }
+
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.breakFD(fdId), 'Cannot break fixed deposit', (prev, ledger) => {
+        const fd = prev.fixedDeposits.find(f => f.id === fdId);
+        if (fd) {
+          const penaltyAmount = fd.amount * 0.01;
+          bankingTracker.logFDBreak(fdId, fd.amount, fd.amount - penaltyAmount, penaltyAmount, ledger.pocketCash, prev.currentYear, prev.currentMonth);
+        }
+      });
+      return;
+    }
+
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev;
       const fd = prev.fixedDeposits.find(f => f.id === fdId);
@@ -556,7 +989,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         fixedDeposits: prev.fixedDeposits.filter(f => f.id !== fdId)
       };
     });
-  }, []);
+  }, [isMultiplayer]);
 
   const buyAsset = useCallback((assetType: string, assetName: string, quantity: number, currentPrice: number) => {
     // CRITICAL FIX: Prevent buying at price 0 (invalid transaction!)
@@ -568,7 +1001,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
     // Prevent buying while player is in debt
     if (pocketCashRef.current < 0) {
-      alert('Cannot buy while you are in debt. Sell assets or wait for incoming payments to recover your balance.');
+      alert('Cannot buy while you are in debt. Sell assets, take a loan or wait for incoming payments to recover your balance.');
       return;
     }
 
@@ -587,14 +1020,28 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       return;
     }
 
-    // Check available funds accounting for reserved amounts from in-flight buys
-    const totalCost = quantity * currentPrice;
+    // Check available funds (including any brokerage/stamp duty) accounting for reserved amounts from in-flight buys
+    const tradeValue = quantity * currentPrice;
+    const totalCost = tradeValue + calculateTradeCharges('buy', assetType, tradeValue, getTaxSettings(gameStateRef.current.adminSettings)).total;
     const available = pocketCashRef.current - reservedAmountRef.current;
     if (totalCost > available) {
       alert(`Cannot buy ${assetName}: Not enough pocket cash`);
       return;
     }
 
+    // Multiplayer: the server executes the trade at its own price and returns our ledger
+    if (isMultiplayer) {
+      recentTransactions.current.set(txSignature, now);
+      setTimeout(() => {
+        recentTransactions.current.delete(txSignature);
+      }, 5000);
+
+      runLedgerCommand(socketService.placeTrade('buy', assetType, assetName, quantity), `Cannot buy ${assetName}`, (prev, _ledger, trade) => {
+        logServerTrade(prev, trade);
+      });
+      return;
+    }
+
     // Reserve funds immediately to block overlapping buys
     reservedAmountRef.current += totalCost;
 
@@ -610,7 +1057,6 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev; // Prevent transactions after game end
-      const totalCost = quantity * currentPrice;
       // Additional safety: if reserved funds were altered (race), re-check inside update
       if (totalCost > prev.pocketCash) {
         // rollback reservation since we failed to apply transaction
@@ -618,68 +1064,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         return prev;
       }
 
-      // Get holding quantity before buy
-      let holdingQuantityBefore = 0;
-      if (assetType === 'physicalGold' || assetType === 'digitalGold' || assetType === 'commodity') {
-        holdingQuantityBefore = (prev.holdings[assetType as keyof typeof prev.holdings] as AssetHolding).quantity;
-      } else if (assetType === 'stocks' || assetType === 'crypto' || assetType === 'reits' || assetType === 'indexFund' || assetType === 'mutualFund') {
-        const assetGroup = prev.holdings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund'];
-        holdingQuantityBefore = assetGroup[assetName]?.quantity || 0;
-      }
-
-      // Always clone the nested holdings objects immutably to avoid accidental in-place mutations
-      // which can cause duplicate-applied changes when multiple transactions are processed rapidly.
-      const newHoldings = { ...prev.holdings } as typeof prev.holdings;
-
-      if (assetType === 'physicalGold' || assetType === 'digitalGold' || assetType === 'commodity') {
-        // Clone the specific holding object
-        const holding = { ...(newHoldings[assetType as keyof typeof newHoldings] as AssetHolding) };
-        const newQuantity = holding.quantity + quantity;
-        const newTotalInvested = holding.totalInvested + totalCost;
-        (newHoldings[assetType as keyof typeof newHoldings] as AssetHolding) = {
-          quantity: newQuantity,
-          avgPrice: newTotalInvested / newQuantity,
-          totalInvested: newTotalInvested
-        };
-      } else if (assetType === 'stocks' || assetType === 'crypto' || assetType === 'reits' || assetType === 'indexFund' || assetType === 'mutualFund') {
-        // Clone the asset group (stocks/crypto/reits/indexFund/mutualFund) before mutating
-        const assetGroup = { ...(newHoldings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund']) };
-        const holding = assetGroup[assetName] ? { ...assetGroup[assetName] } : { quantity: 0, avgPrice: 0, totalInvested: 0 };
-        const newQuantity = holding.quantity + quantity;
-        const newTotalInvested = holding.totalInvested + totalCost;
-        assetGroup[assetName] = {
-          quantity: newQuantity,
-          avgPrice: newTotalInvested / newQuantity,
-          totalInvested: newTotalInvested
-        };
-        // Assign the cloned group back to newHoldings to keep immutability
-        (newHoldings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund']) = assetGroup;
-      }
-
-      const updatedState = {
-        ...prev,
-        pocketCash: prev.pocketCash - totalCost,
-        holdings: newHoldings
-      };
-
-      // Log trade for AI analysis
-      const holdingQuantityAfter = holdingQuantityBefore + quantity;
-      tradeTracker.logTrade({
-        transactionType: 'buy',
-        assetType,
-        assetName,
-        quantity,
-        price: currentPrice,
-        totalValue: totalCost,
-        positionSize: holdingQuantityAfter * currentPrice,
-        gameYear: prev.currentYear,
-        gameMonth: prev.currentMonth,
-        timestamp: Date.now(),
-        pocketCashBefore: prev.pocketCash,
-        pocketCashAfter: updatedState.pocketCash,
-        holdingQuantityBefore,
-        holdingQuantityAfter,
-      });
+      const updatedState = executeSoloTrade(prev, 'buy', assetType, assetName, quantity, currentPrice);
 
       // Release the reserved funds for this transaction after the state update settles
       setTimeout(() => {
@@ -691,7 +1076,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
       return updatedState;
     });
-  }, []);
+  }, [isMultiplayer]);
 
   const sellAsset = useCallback((assetType: string, assetName: string, quantity: number, currentPrice: number) => {
     const txSignature = `${assetType}|${assetName}|${quantity}|${currentPrice.toFixed(6)}`;
@@ -703,6 +1088,16 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       return;
     }
 
+    // Physical gold pledged against a loan stays in the vault until the loan is repaid
+    if (assetType === 'physicalGold') {
+      const state = gameStateRef.current;
+      const freeGold = state.holdings.physicalGold.quantity - getPledgedGoldQuantity(state.loans);
+      if (quantity > freeGold) {
+        alert(`Cannot sell ${assetName}: only ${Math.max(0, freeGold).toFixed(2)} units are not pledged against a loan`);
+        return;
+      }
+    }
+
     // Signature to detect duplicate rapid sell transactions
     const now = Date.now();
     const prevTs = recentTransactions.current.get(txSignature);
@@ -710,6 +1105,23 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       return;
     }
 
+    // Multiplayer: the server executes the trade at its own price and returns our ledger
+    if (isMultiplayer) {
+      if (transactionInProgress.current) {
+        return;
+      }
+
+      recentTransactions.current.set(txSignature, now);
+      setTimeout(() => {
+        recentTransactions.current.delete(txSignature);
+      }, 5000);
+
+      runLedgerCommand(socketService.placeTrade('sell', assetType, assetName, quantity), `Cannot sell ${assetName}`, (prev, _ledger, trade) => {
+        logServerTrade(prev, trade);
+      });
+      return;
+    }
+
     // Mark transaction as in progress
     transactionInProgress.current = true;
     setIsTransactionPending(true);
@@ -720,79 +1132,320 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
     setGameState(prev => {
       if (gameHasEnded(prev)) return prev; // Prevent transactions after game end
-      // Clone top-level holdings and nested groups to avoid in-place mutations that cause UI mismatch
-      const newHoldings = { ...prev.holdings } as typeof prev.holdings;
-      let holding: AssetHolding | undefined;
-
-      if (assetType === 'physicalGold' || assetType === 'digitalGold' || assetType === 'commodity') {
-        // Clone the specific holding object
-        holding = { ...((newHoldings[assetType as keyof typeof newHoldings] as AssetHolding)) };
-      } else if (assetType === 'stocks' || assetType === 'crypto' || assetType === 'reits' || assetType === 'indexFund' || assetType === 'mutualFund') {
-        // Clone the asset group before reading/modifying
-        const assetGroup = { ...(newHoldings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund']) };
-        holding = assetGroup[assetName];
-      }
+      return executeSoloTrade(prev, 'sell', assetType, assetName, quantity, currentPrice);
+    });
 
-      if (!holding || holding.quantity < quantity) {
-        return prev;
-      }
+    // Finish transaction (longer debounce) and apply any pending time update
+    finishTransaction();
+  }, [isMultiplayer]);
 
-      const saleAmount = quantity * currentPrice;
-      const newQuantity = holding.quantity - quantity;
-      const reducedInvestment = (holding.totalInvested / holding.quantity) * quantity;
+  // Borrow against future income (personal) or collateral (FD / physical gold)
+  const takeLoan = useCallback((type: LoanType, amount: number, tenureMonths: LoanTenure, options: { fdId?: string; goldPrice?: number } = {}) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.takeLoan(type, amount, tenureMonths, options.fdId), 'Cannot take loan');
+      return;
+    }
 
-      if (assetType === 'physicalGold' || assetType === 'digitalGold' || assetType === 'commodity') {
-        (newHoldings[assetType as keyof typeof newHoldings] as AssetHolding) = {
-          quantity: newQuantity,
-          avgPrice: newQuantity > 0 ? (holding.totalInvested - reducedInvestment) / newQuantity : 0,
-          totalInvested: holding.totalInvested - reducedInvestment
-        };
-      } else if (assetType === 'stocks' || assetType === 'crypto' || assetType === 'reits' || assetType === 'indexFund' || assetType === 'mutualFund') {
-        // Operate on cloned asset group and assign back immutably
-        const assetGroup = { ...(newHoldings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund']) };
-        if (newQuantity === 0) {
-          delete assetGroup[assetName];
-        } else {
-          assetGroup[assetName] = {
-            quantity: newQuantity,
-            avgPrice: (holding.totalInvested - reducedInvestment) / newQuantity,
-            totalInvested: holding.totalInvested - reducedInvestment
-          };
-        }
-        (newHoldings[assetType as 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund']) = assetGroup;
-      }
-      const updatedState = {
+    const state = gameStateRef.current;
+    if (gameHasEnded(state)) return;
+
+    const { loan, error } = createLoan({
+      type,
+      amount,
+      tenureMonths,
+      loans: state.loans || [],
+      fixedDeposits: state.fixedDeposits,
+      physicalGoldQuantity: state.holdings.physicalGold.quantity,
+      currentYear: state.currentYear,
+      currentMonth: state.currentMonth,
+      fdId: options.fdId,
+      goldPrice: options.goldPrice
+    }, getLoanSettings(state.adminSettings));
+
+    if (!loan) {
+      alert(`Cannot take loan: ${error}`);
+      return;
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      pocketCash: prev.pocketCash + loan.principal,
+      loans: [...(prev.loans || []), loan]
+    }));
+  }, [isMultiplayer]);
+
+  // Close a loan early from pocket cash, releasing any pledged collateral
+  const repayLoan = useCallback((loanId: string) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.repayLoan(loanId), 'Cannot repay loan');
+      return;
+    }
+
+    const loan = (gameStateRef.current.loans || []).find(l => l.id === loanId);
+    if (!loan) return;
+    if (loan.outstanding > gameStateRef.current.pocketCash) {
+      alert('Cannot repay loan: Not enough pocket cash');
+      return;
+    }
+
+    setGameState(prev => {
+      if (gameHasEnded(prev)) return prev;
+      return {
         ...prev,
-        pocketCash: prev.pocketCash + saleAmount,
-        holdings: newHoldings
+        pocketCash: prev.pocketCash - loan.outstanding,
+        loans: (prev.loans || []).filter(l => l.id !== loanId)
       };
+    });
+  }, [isMultiplayer]);
 
-      // Log trade for AI analysis
-      tradeTracker.logTrade({
-        transactionType: 'sell',
-        assetType,
-        assetName,
-        quantity,
-        price: currentPrice,
-        totalValue: saleAmount,
-        positionSize: newQuantity * currentPrice,
-        gameYear: prev.currentYear,
-        gameMonth: prev.currentMonth,
-        timestamp: Date.now(),
-        pocketCashBefore: prev.pocketCash,
-        pocketCashAfter: updatedState.pocketCash,
-        holdingQuantityBefore: holding.quantity,
-        holdingQuantityAfter: newQuantity,
-      });
+  // Buy a bond at par from pocket cash; the coupon is the market yield of the day
+  const buyBond = useCallback((type: BondType, amount: number) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.buyBond(type, amount), 'Cannot buy bond');
+      return;
+    }
 
-      return updatedState;
+    const state = gameStateRef.current;
+    if (gameHasEnded(state)) return;
+
+    const { bond, error } = createBond({
+      type,
+      amount,
+      pocketCash: state.pocketCash,
+      bonds: state.bonds || [],
+      calendarYear: (state.adminSettings?.gameStartYear || 2005) + state.currentYear - 1,
+      currentYear: state.currentYear,
+      currentMonth: state.currentMonth
     });
 
-    // Finish transaction (longer debounce) and apply any pending time update
-    finishTransaction();
+    if (!bond) {
+      alert(`Cannot buy bond: ${error}`);
+      return;
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      pocketCash: prev.pocketCash - bond.faceValue,
+      bonds: [...(prev.bonds || []), bond]
+    }));
+  }, [isMultiplayer]);
+
+  // Sell a G-sec or corporate bond early at its market value
+  const sellBond = useCallback((bondId: string) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.sellBond(bondId), 'Cannot sell bond');
+      return;
+    }
+
+    setGameState(prev => {
+      if (gameHasEnded(prev)) return prev;
+      const bond = (prev.bonds || []).find(b => b.id === bondId);
+      if (!bond || !BOND_TERMS[bond.type].tradeable) return prev;
+
+      const proceeds = getBondSaleProceeds(bond, prev.currentYear, prev.currentMonth, getTaxSettings(prev.adminSettings));
+      return {
+        ...prev,
+        pocketCash: prev.pocketCash + proceeds,
+        bonds: (prev.bonds || []).filter(b => b.id !== bondId)
+      };
+    });
+  }, [isMultiplayer]);
+
+  // Buy a yearly health or vehicle policy; the first premium is paid now
+  const buyInsurance = useCallback((type: InsuranceType) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.buyInsurance(type), 'Cannot buy insurance');
+      return;
+    }
+
+    const state = gameStateRef.current;
+    if (gameHasEnded(state)) return;
+
+    if ((state.insurancePolicies || []).some(p => p.type === type)) {
+      alert(`Cannot buy insurance: you already have ${INSURANCE_PRODUCTS[type].label}`);
+      return;
+    }
+
+    const policy = createInsurancePolicy(type, state.adminSettings?.recurringIncome || 0, state.currentYear, state.currentMonth);
+    if (policy.premium > state.pocketCash) {
+      alert('Cannot buy insurance: Insufficient funds');
+      return;
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      pocketCash: prev.pocketCash - policy.premium,
+      insurancePolicies: [...(prev.insurancePolicies || []), policy]
+    }));
+  }, [isMultiplayer]);
+
+  // Stop a policy renewing; the premium already paid is not refunded
+  const cancelInsurance = useCallback((policyId: string) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.cancelInsurance(policyId), 'Cannot cancel insurance');
+      return;
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      insurancePolicies: (prev.insurancePolicies || []).filter(p => p.id !== policyId)
+    }));
+  }, [isMultiplayer]);
+
+  // Pick how to deal with a life event that is waiting for a decision
+  const resolveLifeEventChoice = useCallback((eventId: string, choiceId: string) => {
+    if (isMultiplayer) {
+      // The server answers with lifeEventResolved, which updates the popup
+      runLedgerCommand(socketService.resolveLifeEvent(eventId, choiceId), 'Cannot settle life event');
+      return;
+    }
+
+    setGameState(prev => {
+      if (gameHasEnded(prev) || !prev.lifeEvents?.some(ev => ev.id === eventId && ev.awaitingChoice)) return prev;
+
+      const { state, event } = settleSoloLifeEvent(prev, eventId, choiceId);
+      if (event) showTriggeredLifeEvent(event, state.pocketCash);
+      return { ...state, isPaused: false };
+    });
+  }, [isMultiplayer, showTriggeredLifeEvent]);
+
+  // Standing orders: limit buy/sell, stop-loss and monthly SIPs
+  const placeOrder = useCallback((order: NewStandingOrder) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.placeOrder(order), 'Cannot place order');
+      return;
+    }
+
+    setGameState(prev => {
+      if (gameHasEnded(prev)) return prev;
+      const newOrder: StandingOrder = {
+        ...order,
+        id: `order_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        createdYear: prev.currentYear,
+        createdMonth: prev.currentMonth
+      };
+      return { ...prev, openOrders: [...(prev.openOrders || []), newOrder] };
+    });
+  }, [isMultiplayer]);
+
+  const cancelOrder = useCallback((orderId: string) => {
+    if (isMultiplayer) {
+      runLedgerCommand(socketService.cancelOrder(orderId), 'Cannot cancel order');
+      return;
+    }
+
+    setGameState(prev => ({
+      ...prev,
+      openOrders: (prev.openOrders || []).filter(order => order.id !== orderId)
+    }));
+  }, [isMultiplayer]);
+
+  // Run the order book against the latest prices. Called once per price tick.
+  // Multiplayer books are filled by the server every month and arrive with the ledger.
+  const evaluateOrders = useCallback((getPrice: (assetName: string) => number) => {
+    const state = gameStateRef.current;
+    if (isMultiplayer || gameHasEnded(state) || state.isPaused || !state.openOrders?.length) return;
+
+    setGameState(prev => {
+      if (gameHasEnded(prev) || !prev.openOrders?.length) return prev;
+      const fills = collectOrderFills(prev, getPrice);
+      if (fills.length === 0) return prev;
+
+      let next = prev;
+      for (const fill of fills) {
+        next = executeSoloTrade(next, fill.side, fill.order.assetType, fill.order.assetName, fill.quantity, fill.price);
+      }
+
+      return {
+        ...next,
+        openOrders: settleOrderBook(prev.openOrders, fills, prev.currentYear, prev.currentMonth),
+        orderExecutions: recordOrderExecutions(prev, fills.map(fill => ({
+          orderId: fill.order.id,
+          type: fill.order.type,
+          assetName: fill.order.assetName,
+          side: fill.side,
+          quantity: fill.quantity,
+          price: fill.price,
+          gameYear: prev.currentYear,
+          gameMonth: prev.currentMonth
+        })))
+      };
+    });
+  }, [isMultiplayer]);
+
+  // Multiplayer: the server ledger already holds the filled orders, so only log the trades
+  const applyStandingOrderFills = useCallback((fills: StandingOrderFill[]) => {
+    fills.forEach(({ execution, trade }) =>
+      logServerTrade({ currentYear: execution.gameYear, currentMonth: execution.gameMonth }, trade)
+    );
   }, []);
 
+  // Multiplayer: the server ledger already holds the dividends/splits, so only log them
+  const applyCorporateActionPayouts = useCallback((payouts: CorporateActionPayout[], gameYear: number, gameMonth: number) => {
+    if (payouts.length === 0) return;
+
+    setGameState(prev => {
+      if (gameHasEnded(prev)) return prev;
+
+      return {
+        ...prev,
+        cashTransactions: [...(prev.cashTransactions || []), ...toCorporateActionTransactions(payouts, gameYear, gameMonth)]
+      };
+    });
+  }, []);
+
+  // Solo: fetch corporate actions for every month since the last check (jumps cover several months)
+  const corporateActionMonthRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (gameState.mode !== 'solo' || isMultiplayer || !gameState.isStarted) return;
+
+    const monthIndex = toMonthIndex(gameState.currentYear, gameState.currentMonth);
+    const lastIndex = corporateActionMonthRef.current;
+    corporateActionMonthRef.current = monthIndex;
+
+    // First tick of a (new) game - nothing is held yet
+    if (lastIndex === null || monthIndex <= lastIndex) return;
+
+    const firstIndex = lastIndex + 1;
+    const firstYear = Math.floor((firstIndex - 1) / 12) + 1;
+    const firstMonth = ((firstIndex - 1) % 12) + 1;
+    const calendarYear = (gameState.adminSettings?.gameStartYear || 2005) + firstYear - 1;
+    const gameYear = gameState.currentYear;
+    const gameMonth = gameState.currentMonth;
+
+    fetchCorporateActions(getGameSymbols(gameState.selectedAssets), calendarYear, firstMonth, monthIndex - lastIndex)
+      .then(actions => {
+        if (actions.length === 0) return;
+
+        setGameState(prev => {
+          if (gameHasEnded(prev)) return prev;
+
+          const { holdings, payouts } = applyCorporateActions(prev.holdings, actions);
+          if (payouts.length === 0) return prev;
+
+          const dividends = payouts.reduce((sum, payout) => sum + payout.amount, 0);
+
+          return {
+            ...prev,
+            holdings,
+            pocketCash: prev.pocketCash + dividends,
+            cashTransactions: [...(prev.cashTransactions || []), ...toCorporateActionTransactions(payouts, gameYear, gameMonth)]
+          };
+        });
+      });
+  }, [gameState.mode, gameState.isStarted, gameState.currentYear, gameState.currentMonth, isMultiplayer]);
+
   const applyLifeEvent = useCallback((event: any) => {
+    // Nothing is paid until the player picks a choice - just show the options
+    if (event.awaitingChoice) {
+      if (lifeEventAutoCloseTimerRef.current) {
+        clearTimeout(lifeEventAutoCloseTimerRef.current);
+        lifeEventAutoCloseTimerRef.current = null;
+      }
+      setLifeEventPopup({ ...event, locked: false, remainingDebt: 0 });
+      return;
+    }
+
     // Use the current pocket cash as baseline (client side). If server provided a postPocketCash, prefer that for consistency in multiplayer.
     const prevPocket = pocketCashRef.current;
     const newPocket = typeof event.postPocketCash === 'number' ? event.postPocketCash : (prevPocket + event.amount);
@@ -834,7 +1487,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
     // Cancel any previous auto-close timer
     if (lifeEventAutoCloseTimerRef.current) {
-      clearTimeout(lifeEventAutoCloseTimerRef.current as any);
+      clearTimeout(lifeEventAutoCloseTimerRef.current);
       lifeEventAutoCloseTimerRef.current = null;
     }
 
@@ -842,7 +1495,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
     // Schedule auto-close only if sufficient funds (10 seconds for positive events or loss events with sufficient balance)
     if (newPocket >= 0) {
-      lifeEventAutoCloseTimerRef.current = window.setTimeout(() => {
+      lifeEventAutoCloseTimerRef.current = setTimeout(() => {
         setLifeEventPopup(null);
         lifeEventAutoCloseTimerRef.current = null;
       }, 10000);
@@ -879,11 +1532,43 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     }));
   }, []);
 
-  const markQuizCompleted = useCallback((category: string) => {
-    setGameState(prev => ({
-      ...prev,
-      completedQuizzes: [...(prev.completedQuizzes || []), category]
-    }));
+  // Solo quizzes are scored here and pay their bonus into pocket cash; multiplayer ones come from recordQuizResult
+  const markQuizCompleted = useCallback((category: string, attempt?: QuizAttempt) => {
+    setGameState(prev => {
+      const completed = {
+        ...prev,
+        completedQuizzes: [...(prev.completedQuizzes || []), category]
+      };
+
+      const score = attempt && !isMultiplayer ? scoreQuizAnswers(attempt.question, attempt.answers) : null;
+      if (!attempt || !score) return completed;
+
+      const result: QuizResult = {
+        category,
+        questionId: attempt.question.id ?? null,
+        answers: score.answers,
+        attempts: score.attempts,
+        points: score.points,
+        bonusCash: getQuizBonusCash(prev.adminSettings, score.points),
+        timeTakenMs: attempt.timeTakenMs,
+        gameYear: prev.currentYear,
+        gameMonth: prev.currentMonth
+      };
+
+      const recorded = addQuizResult(completed, result);
+      if (recorded === completed) return completed;
+
+      return {
+        ...recorded,
+        pocketCash: recorded.pocketCash + result.bonusCash,
+        pocketCashReceivedTotal: (recorded.pocketCashReceivedTotal || 0) + result.bonusCash
+      };
+    });
+  }, [isMultiplayer]);
+
+  // A quiz the server scored; its bonus cash arrives with the server ledger
+  const recordQuizResult = useCallback((result: QuizResult) => {
+    setGameState(prev => gameHasEnded(prev) ? prev : addQuizResult(prev, result));
   }, []);
 
   // Update time from external source (for multiplayer)
@@ -898,21 +1583,25 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       // Do not apply any time updates once the game has ended
       if (gameHasEnded(prev)) return prev;
 
-      // If server sent a year beyond the allowed game years, clamp to final and mark game ended
-      if (year > TOTAL_GAME_YEARS) {
+      // With a server ledger, interest and income arrive via ledgerUpdate - only log them here
+      const ledgerDriven = serverLedgerActive.current;
+      const gameEnd = getGameEnd(prev.adminSettings);
+
+      // If server sent a month beyond the end of the game, clamp to final and mark game ended
+      if (year * 12 + month > gameEnd.year * 12 + gameEnd.month) {
         return {
           ...prev,
-          currentYear: TOTAL_GAME_YEARS,
-          currentMonth: 12,
+          currentYear: gameEnd.year,
+          currentMonth: gameEnd.month,
           isStarted: false
         };
       }
 
-      // If server sent the final year and final month, mark game ended
-      if (year === TOTAL_GAME_YEARS && month >= 12) {
+      // If server sent the final game month, mark game ended
+      if (year === gameEnd.year && month === gameEnd.month) {
         // Apply any month change interest & FD maturity semantics first (so final state's pocket/savings are updated)
         let newSavingsBalance = prev.savingsAccount.balance;
-        if (month !== prev.currentMonth) {
+        if (month !== prev.currentMonth && !ledgerDriven) {
           const monthlyInterest = prev.savingsAccount.balance * (SAVINGS_INTEREST_RATE / 12);
           newSavingsBalance = prev.savingsAccount.balance + monthlyInterest;
         }
@@ -929,8 +1618,10 @@ export const useGameState = (isMultiplayer: boolean = false) => {
         let newCashTransactions = [...(prev.cashTransactions || [])];
 
         if ((month === 6 || month === 12) && month !== prev.currentMonth && prev.adminSettings?.recurringIncome) {
-          newPocketCash += prev.adminSettings.recurringIncome;
-          newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+          if (!ledgerDriven) {
+            newPocketCash += prev.adminSettings.recurringIncome;
+            newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+          }
 
           // Track recurring income transaction (multiplayer - final month)
           const transaction: CashTransaction = {
@@ -948,8 +1639,8 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
         return {
           ...prev,
-          currentYear: TOTAL_GAME_YEARS,
-          currentMonth: 12,
+          currentYear: gameEnd.year,
+          currentMonth: gameEnd.month,
           pocketCash: newPocketCash,
           pocketCashReceivedTotal: newPocketCashReceivedTotal,
           cashTransactions: newCashTransactions,
@@ -961,7 +1652,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
 
       // Apply monthly savings account interest if month changed
       let newSavingsBalance = prev.savingsAccount.balance;
-      if (month !== prev.currentMonth) {
+      if (month !== prev.currentMonth && !ledgerDriven) {
         const monthlyInterest = prev.savingsAccount.balance * (SAVINGS_INTEREST_RATE / 12);
         newSavingsBalance = prev.savingsAccount.balance + monthlyInterest;
       }
@@ -980,8 +1671,10 @@ export const useGameState = (isMultiplayer: boolean = false) => {
       let newCashTransactions = [...(prev.cashTransactions || [])];
 
       if ((month === 6 || month === 12) && month !== prev.currentMonth && prev.adminSettings?.recurringIncome) {
-        newPocketCash += prev.adminSettings.recurringIncome;
-        newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+        if (!ledgerDriven) {
+          newPocketCash += prev.adminSettings.recurringIncome;
+          newPocketCashReceivedTotal += prev.adminSettings.recurringIncome;
+        }
 
         // Track recurring income transaction (multiplayer)
         const transaction: CashTransaction = {
@@ -1016,7 +1709,7 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     if (lifeEventPopup.locked && pocketCashRef.current >= 0) {
       // Debt resolved — close popup and clear timers
       if (lifeEventAutoCloseTimerRef.current) {
-        clearTimeout(lifeEventAutoCloseTimerRef.current as any);
+        clearTimeout(lifeEventAutoCloseTimerRef.current);
         lifeEventAutoCloseTimerRef.current = null;
       }
       setLifeEventPopup(null);
@@ -1035,8 +1728,8 @@ export const useGameState = (isMultiplayer: boolean = false) => {
   // This ensures gameHasEnded() returns true and prevents further state updates
   const markGameAsEnded = useCallback(() => {
     setGameState(prev => {
-      // Only mark as ended if we're at or past the final year
-      if (prev.currentYear >= TOTAL_GAME_YEARS) {
+      // Only mark as ended if we're in the final game year
+      if (prev.currentYear >= getGameEnd(prev.adminSettings).year) {
         console.log('🔒 Marking game as ended - locking state updates');
         return {
           ...prev,
@@ -1059,10 +1752,23 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     createFixedDeposit,
     collectFD,
     breakFD,
+    takeLoan,
+    repayLoan,
+    buyBond,
+    sellBond,
+    buyInsurance,
+    cancelInsurance,
     buyAsset,
     sellAsset,
+    placeOrder,
+    cancelOrder,
+    evaluateOrders,
     togglePause,
+    setMonthDuration,
+    stepMonth,
+    jumpToMonth,
     markQuizCompleted,
+    recordQuizResult,
     updateTime,
     updatePauseState,
     markGameAsEnded,
@@ -1071,9 +1777,14 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     // Life event popup & handler
     lifeEventPopup,
     applyLifeEvent,
+    resolveLifeEventChoice,
+    // Server ledger sync (multiplayer)
+    applyServerLedger,
+    applyCorporateActionPayouts,
+    applyStandingOrderFills,
     clearLifeEventPopup: () => {
       if (lifeEventAutoCloseTimerRef.current) {
-        clearTimeout(lifeEventAutoCloseTimerRef.current as any);
+        clearTimeout(lifeEventAutoCloseTimerRef.current);
         lifeEventAutoCloseTimerRef.current = null;
       }
       setLifeEventPopup(null);
@@ -1083,20 +1794,20 @@ export const useGameState = (isMultiplayer: boolean = false) => {
     forceShowLifeEventPopup: (event: any) => {
       // Cancel any existing auto-close
       if (lifeEventAutoCloseTimerRef.current) {
-        clearTimeout(lifeEventAutoCloseTimerRef.current as any);
+        clearTimeout(lifeEventAutoCloseTimerRef.current);
         lifeEventAutoCloseTimerRef.current = null;
       }
 
       const prevPocket = pocketCashRef.current;
       const newPocket = typeof event.postPocketCash === 'number' ? event.postPocketCash : (prevPocket + event.amount);
-      const remainingDebt = newPocket < 0 ? Math.abs(newPocket) : 0;
-      const locked = newPocket < 0;
+      const locked = newPocket < 0 && !event.awaitingChoice;
+      const remainingDebt = locked ? Math.abs(newPocket) : 0;
 
       setLifeEventPopup({ ...event, locked, remainingDebt });
 
       // Schedule auto-close only if sufficient funds (10 seconds)
-      if (!locked) {
-        lifeEventAutoCloseTimerRef.current = window.setTimeout(() => {
+      if (!locked && !event.awaitingChoice) {
+        lifeEventAutoCloseTimerRef.current = setTimeout(() => {
           setLifeEventPopup(null);
           lifeEventAutoCloseTimerRef.current = null;
         }, 10000);
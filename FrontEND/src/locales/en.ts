@@ -0,0 +1,102 @@
+// English UI strings - the base bundle every other locale must cover key for key
+export const messages = {
+  'language.label': 'Language',
+
+  'menu.subtitle': 'A Financial Investment Journey',
+  'menu.solo': 'SOLO GAME',
+  'menu.multi': 'MULTI MODE',
+
+  'common.cancel': 'Cancel',
+
+  'playerName.title': 'Solo Mode',
+  'playerName.prompt': 'Enter your name to start the game',
+  'playerName.nameLabel': 'Player Name',
+  'playerName.namePlaceholder': 'Enter your name',
+  'playerName.ageLabel': 'Age',
+  'playerName.agePlaceholder': 'Enter your age',
+  'playerName.start': 'Start Game',
+  'playerName.errorNameRequired': 'Please enter your name',
+  'playerName.errorNameShort': 'Name must be at least 2 characters',
+  'playerName.errorNameLong': 'Name must be less than 20 characters',
+  'playerName.errorAgeRequired': 'Please enter your age',
+  'playerName.errorAgeRange': 'Age must be between 10 and 100',
+
+  'intro.welcome.title': 'Welcome to Bull Run!',
+  'intro.welcome.description': 'Your journey to financial mastery begins. Invest wisely across multiple asset classes and build the highest net worth by the end of the game.',
+  'intro.income.title': 'Track Your Income',
+  'intro.income.description': 'Monitor your cash flow with detailed breakdowns. You receive recurring income every 6 months - watch your wealth grow over time!',
+  'intro.assets.title': 'Learn About Assets',
+  'intro.assets.description': 'Hover over any asset to learn about the company, its sector, and what it does. Knowledge is power in investing!',
+  'intro.investments.title': 'Track Your Investments',
+  'intro.investments.description': 'See your invested amount, average purchase price, and profit/loss for each asset. Make informed decisions!',
+  'intro.portfolio.title': 'Portfolio Breakdown',
+  'intro.portfolio.description': 'View your complete portfolio composition and CAGR (Compound Annual Growth Rate). Diversification is key to success!',
+  'intro.quiz.title': 'Test Your Knowledge',
+  'intro.quiz.description': 'When new asset classes unlock, a quiz will appear. Answer correctly to continue in game! Learning pays off in Bull Run.',
+  'intro.lifeEvents.title': 'Life Events',
+  'intro.lifeEvents.description': 'Life events are randomly generated for all players. Each player, in every session, will experience unique life events at different in-game years. Life is not linear—you will face both ups and downs, just like in real life!',
+  'intro.lifeEvents.positive': 'Positive Life Event',
+  'intro.lifeEvents.negative': 'Negative Life Event',
+  'intro.debt.title': 'Debt & Purchase Restrictions',
+  'intro.debt.description': 'If you don\'t have enough pocket cash to handle a life event, you fall into debt. While in debt, buying and investing actions are locked. Your top priority becomes clearing the debt before any further purchases are allowed!',
+  'intro.compete.title': 'Compete & Win!',
+  'intro.compete.description': 'Track your ranking on the leaderboard. Compete with other players and prove you are the best investor!',
+  'intro.ready': 'You\'re Ready!',
+  'intro.waitingMessage': 'Waiting for other players to finish the tutorial...',
+  'intro.stillReading': 'Still Reading:',
+  'intro.autoStart': 'Game will start automatically when everyone is ready',
+  'intro.goToSlide': 'Go to slide {number}',
+  'intro.next': 'next',
+  'intro.letsPlay': 'Let\'s Play!',
+
+  'education.unlocked': 'UNLOCKED',
+  'education.correct': '✓ CORRECT!',
+  'education.submit': 'SUBMIT ANSWER',
+  'education.attempts': 'Attempts: {count}/3',
+  'education.checkNewAsset': 'Check your new asset in the game!',
+  'education.autoClosing': '(Auto-closing in 5 seconds)',
+  'education.closeNow': 'Close Now',
+
+  'lifeEvent.dismiss': 'Dismiss',
+  'lifeEvent.lossTitle': 'Unexpected Expense',
+  'lifeEvent.gainTitle': 'Good News!',
+  'lifeEvent.estimatedCost': 'Estimated Cost',
+  'lifeEvent.amountDeducted': 'Amount Deducted',
+  'lifeEvent.amountReceived': 'Amount Received',
+  'lifeEvent.choicesTitle': 'How will you handle it?',
+  'lifeEvent.insuranceNote': 'A matching insurance policy pays part of the cost',
+  'lifeEvent.choice': 'Choice:',
+  'lifeEvent.totalCost': 'Total Cost:',
+  'lifeEvent.insurancePaid': 'Insurance Paid:',
+  'lifeEvent.fdsBroken': 'FDs Broken:',
+  'lifeEvent.inDebtTitle': 'You Are In Debt',
+  'lifeEvent.currentDebt': 'Current Debt: ₹{amount}',
+  'lifeEvent.sellAssets': 'Sell assets to clear debt',
+  'lifeEvent.waitIncome': 'Wait for monthly income',
+  'lifeEvent.purchasesDisabled': 'All purchase actions are temporarily disabled',
+  'lifeEvent.paymentSuccessful': 'Payment Successful',
+  'lifeEvent.paymentMessage': 'Funds were deducted from your pocket cash',
+  'lifeEvent.fundsAdded': 'Funds Added',
+  'lifeEvent.fundsAddedMessage': 'Money has been credited to your pocket cash',
+  'lifeEvent.debtCleared': 'Debt Cleared!',
+  'lifeEvent.previousDebt': 'Previous Debt:',
+  'lifeEvent.paymentReceived': 'Payment Received:',
+  'lifeEvent.newBalance': 'New Balance:',
+  'lifeEvent.debtClearedMessage': '✅ You are no longer in debt! All purchase actions are now available.',
+  'lifeEvent.debtReduced': 'Debt Reduced',
+  'lifeEvent.remainingDebt': 'Remaining Debt:',
+  'lifeEvent.stillInDebtMessage': '⚡ You are still in debt. Continue selling assets or wait for more income.',
+  'lifeEvent.pickOption': 'Pick an option to continue',
+  'lifeEvent.clickDismiss': 'Click anywhere to dismiss',
+};
+
+export type MessageKey = keyof typeof messages;
+
+export interface LocaleBundle {
+  messages: Record<MessageKey, string>;
+  // Same order as FINANCIAL_QUOTES, so a quote can be looked up by its English index
+  quotes: string[];
+  // Asset sectors and descriptions, keyed by their English text in utils/stockInfo
+  sectors: { [english: string]: string };
+  assetDescriptions: { [english: string]: string };
+}
@@ -0,0 +1,292 @@
+import { LocaleBundle } from './en';
+
+export const hi: LocaleBundle = {
+  messages: {
+    'language.label': 'भाषा',
+
+    'menu.subtitle': 'एक वित्तीय निवेश यात्रा',
+    'menu.solo': 'अकेले खेलें',
+    'menu.multi': 'मल्टी मोड',
+
+    'common.cancel': 'रद्द करें',
+
+    'playerName.title': 'सोलो मोड',
+    'playerName.prompt': 'खेल शुरू करने के लिए अपना नाम लिखें',
+    'playerName.nameLabel': 'खिलाड़ी का नाम',
+    'playerName.namePlaceholder': 'अपना नाम लिखें',
+    'playerName.ageLabel': 'उम्र',
+    'playerName.agePlaceholder': 'अपनी उम्र लिखें',
+    'playerName.start': 'खेल शुरू करें',
+    'playerName.errorNameRequired': 'कृपया अपना नाम लिखें',
+    'playerName.errorNameShort': 'नाम कम से कम 2 अक्षरों का होना चाहिए',
+    'playerName.errorNameLong': 'नाम 20 अक्षरों से कम होना चाहिए',
+    'playerName.errorAgeRequired': 'कृपया अपनी उम्र लिखें',
+    'playerName.errorAgeRange': 'उम्र 10 से 100 के बीच होनी चाहिए',
+
+    'intro.welcome.title': 'बुल रन में आपका स्वागत है!',
+    'intro.welcome.description': 'पैसों की समझ की आपकी यात्रा शुरू होती है। अलग-अलग एसेट क्लास में समझदारी से निवेश करें और खेल के अंत तक सबसे ज़्यादा नेट वर्थ बनाएँ।',
+    'intro.income.title': 'अपनी आय पर नज़र रखें',
+    'intro.income.description': 'विस्तृत ब्योरे के साथ अपने कैश फ्लो पर नज़र रखें। आपको हर 6 महीने में नियमित आय मिलती है - देखें कि समय के साथ आपकी संपत्ति कैसे बढ़ती है!',
+    'intro.assets.title': 'एसेट्स के बारे में जानें',
+    'intro.assets.description': 'किसी भी एसेट पर माउस ले जाकर कंपनी, उसके सेक्टर और उसके काम के बारे में जानें। निवेश में ज्ञान ही ताकत है!',
+    'intro.investments.title': 'अपने निवेश पर नज़र रखें',
+    'intro.investments.description': 'हर एसेट के लिए अपनी निवेश की गई रकम, औसत खरीद मूल्य और लाभ/हानि देखें। सोच-समझकर फ़ैसले लें!',
+    'intro.portfolio.title': 'पोर्टफ़ोलियो का ब्योरा',
+    'intro.portfolio.description': 'अपने पूरे पोर्टफ़ोलियो की बनावट और CAGR (चक्रवृद्धि वार्षिक वृद्धि दर) देखें। विविधता ही सफलता की कुंजी है!',
+    'intro.quiz.title': 'अपना ज्ञान परखें',
+    'intro.quiz.description': 'जब नए एसेट क्लास खुलते हैं, तो एक क्विज़ आता है। खेल जारी रखने के लिए सही जवाब दें! बुल रन में सीखना फ़ायदेमंद है।',
+    'intro.lifeEvents.title': 'जीवन की घटनाएँ',
+    'intro.lifeEvents.description': 'जीवन की घटनाएँ सभी खिलाड़ियों के लिए अचानक बनती हैं। हर खिलाड़ी को हर सत्र में खेल के अलग-अलग वर्षों में अलग घटनाएँ मिलेंगी। जीवन सीधी रेखा नहीं है—असल ज़िंदगी की तरह आपको उतार-चढ़ाव दोनों का सामना करना होगा!',
+    'intro.lifeEvents.positive': 'अच्छी घटना',
+    'intro.lifeEvents.negative': 'बुरी घटना',
+    'intro.debt.title': 'कर्ज़ और खरीद पर रोक',
+    'intro.debt.description': 'अगर किसी घटना का खर्च उठाने के लिए आपकी जेब में पर्याप्त नकद नहीं है, तो आप कर्ज़ में चले जाते हैं। कर्ज़ में रहते हुए खरीदना और निवेश करना बंद रहता है। कोई भी नई खरीद से पहले कर्ज़ चुकाना आपकी पहली प्राथमिकता बन जाती है!',
+    'intro.compete.title': 'मुकाबला करें और जीतें!',
+    'intro.compete.description': 'लीडरबोर्ड पर अपनी रैंक देखें। दूसरे खिलाड़ियों से मुकाबला करें और साबित करें कि आप सबसे अच्छे निवेशक हैं!',
+    'intro.ready': 'आप तैयार हैं!',
+    'intro.waitingMessage': 'दूसरे खिलाड़ियों के ट्यूटोरियल पूरा करने का इंतज़ार है...',
+    'intro.stillReading': 'अभी पढ़ रहे हैं:',
+    'intro.autoStart': 'सबके तैयार होते ही खेल अपने आप शुरू हो जाएगा',
+    'intro.goToSlide': 'स्लाइड {number} पर जाएँ',
+    'intro.next': 'आगे',
+    'intro.letsPlay': 'चलो खेलें!',
+
+    'education.unlocked': 'खुल गया',
+    'education.correct': '✓ सही जवाब!',
+    'education.submit': 'जवाब भेजें',
+    'education.attempts': 'प्रयास: {count}/3',
+    'education.checkNewAsset': 'खेल में अपना नया एसेट देखें!',
+    'education.autoClosing': '(5 सेकंड में अपने आप बंद हो जाएगा)',
+    'education.closeNow': 'अभी बंद करें',
+
+    'lifeEvent.dismiss': 'हटाएँ',
+    'lifeEvent.lossTitle': 'अचानक खर्च',
+    'lifeEvent.gainTitle': 'खुशखबरी!',
+    'lifeEvent.estimatedCost': 'अनुमानित खर्च',
+    'lifeEvent.amountDeducted': 'कटी हुई रकम',
+    'lifeEvent.amountReceived': 'मिली हुई रकम',
+    'lifeEvent.choicesTitle': 'आप इसे कैसे संभालेंगे?',
+    'lifeEvent.insuranceNote': 'मेल खाती बीमा पॉलिसी खर्च का कुछ हिस्सा देती है',
+    'lifeEvent.choice': 'चुनाव:',
+    'lifeEvent.totalCost': 'कुल खर्च:',
+    'lifeEvent.insurancePaid': 'बीमा से मिला:',
+    'lifeEvent.fdsBroken': 'तोड़ी गई FD:',
+    'lifeEvent.inDebtTitle': 'आप कर्ज़ में हैं',
+    'lifeEvent.currentDebt': 'मौजूदा कर्ज़: ₹{amount}',
+    'lifeEvent.sellAssets': 'कर्ज़ चुकाने के लिए एसेट बेचें',
+    'lifeEvent.waitIncome': 'मासिक आय का इंतज़ार करें',
+    'lifeEvent.purchasesDisabled': 'सभी खरीद कुछ समय के लिए बंद हैं',
+    'lifeEvent.paymentSuccessful': 'भुगतान सफल',
+    'lifeEvent.paymentMessage': 'रकम आपकी जेब के नकद से काट ली गई',
+    'lifeEvent.fundsAdded': 'रकम जोड़ी गई',
+    'lifeEvent.fundsAddedMessage': 'पैसे आपकी जेब के नकद में जमा हो गए',
+    'lifeEvent.debtCleared': 'कर्ज़ चुक गया!',
+    'lifeEvent.previousDebt': 'पिछला कर्ज़:',
+    'lifeEvent.paymentReceived': 'मिला भुगतान:',
+    'lifeEvent.newBalance': 'नया बैलेंस:',
+    'lifeEvent.debtClearedMessage': '✅ अब आप कर्ज़ में नहीं हैं! सभी खरीद फिर से उपलब्ध हैं।',
+    'lifeEvent.debtReduced': 'कर्ज़ कम हुआ',
+    'lifeEvent.remainingDebt': 'बाकी कर्ज़:',
+    'lifeEvent.stillInDebtMessage': '⚡ आप अभी भी कर्ज़ में हैं। एसेट बेचते रहें या और आय का इंतज़ार करें।',
+    'lifeEvent.pickOption': 'आगे बढ़ने के लिए एक विकल्प चुनें',
+    'lifeEvent.clickDismiss': 'हटाने के लिए कहीं भी क्लिक करें',
+  },
+  quotes: [
+    'नियम नंबर 1: कभी पैसा मत गँवाओ। नियम नंबर 2: नियम नंबर 1 कभी मत भूलो।',
+    'कीमत वह है जो आप चुकाते हैं। मूल्य वह है जो आपको मिलता है।',
+    'शेयर बाज़ार अधीर लोगों से धैर्यवान लोगों तक पैसा पहुँचाने का ज़रिया है।',
+    'जोखिम तब आता है जब आप नहीं जानते कि आप क्या कर रहे हैं।',
+    'जब दूसरे लालची हों तब डरें, और जब दूसरे डरे हों तब लालची बनें।',
+    'सबसे अच्छा निवेश वह है जो आप खुद पर करते हैं।',
+    'चक्रवृद्धि ब्याज दुनिया का आठवाँ अजूबा है।',
+    'ज्ञान में किया गया निवेश सबसे अच्छा ब्याज देता है।',
+    'खर्च के बाद जो बचे उसे मत बचाओ, बचत के बाद जो बचे उसे खर्च करो।',
+    'निवेश के चार सबसे खतरनाक शब्द हैं: "इस बार अलग है।"',
+    'निवेश में जो आरामदायक लगता है, वह शायद ही कभी फ़ायदेमंद होता है।',
+    'बाज़ार में बिताया गया समय, बाज़ार का सही समय पकड़ने से बेहतर है।',
+    'सारे अंडे एक ही टोकरी में मत रखो।',
+    'एक सफल ट्रेडर का लक्ष्य सबसे अच्छे सौदे करना है। पैसा बाद में आता है।',
+    'निवेश पेंट सूखते या घास उगते देखने जैसा होना चाहिए।',
+    'बहुत ज़्यादा विविधता की ज़रूरत तभी होती है जब निवेशक समझते नहीं कि वे क्या कर रहे हैं।',
+    'आम निवेशक को हमेशा निवेशक की तरह काम करना चाहिए, सट्टेबाज़ की तरह नहीं।',
+    'बात यह नहीं कि आप कितना कमाते हैं, बात यह है कि आप कितना बचाते हैं।',
+    'कभी-कभी बाज़ार ऐसी बेवकूफ़ी करता है कि आप हैरान रह जाते हैं।',
+    'निवेशक की सबसे बड़ी समस्या—और सबसे बड़ा दुश्मन—अक्सर वह खुद होता है।',
+    'हर शेयर के पीछे एक कंपनी होती है। पता करें कि वह क्या कर रही है।',
+    'जानिए आपके पास क्या है, और क्यों है।',
+    'रिटर्न बहुत मायने रखता है, लेकिन बड़े नुकसान से बचना उससे भी ज़्यादा।',
+    'समझदार निवेशक यथार्थवादी होता है जो आशावादियों को बेचता है और निराशावादियों से खरीदता है।',
+  ],
+  sectors: {
+    'Information Technology': 'सूचना प्रौद्योगिकी',
+    'Banking & Finance': 'बैंकिंग और वित्त',
+    'Financial Services': 'वित्तीय सेवाएँ',
+    'Metals & Mining': 'धातु और खनन',
+    'Power Generation': 'बिजली उत्पादन',
+    'Infrastructure': 'बुनियादी ढाँचा',
+    'Index Fund - ETF': 'इंडेक्स फंड - ETF',
+    'Automotive': 'ऑटोमोबाइल',
+    'FMCG': 'FMCG (रोज़मर्रा का सामान)',
+    'Diversified': 'विविध',
+    'Telecommunications': 'दूरसंचार',
+    'Technology': 'प्रौद्योगिकी',
+    'Precious Metals': 'कीमती धातुएँ',
+    'Mutual Fund - Large Cap': 'म्यूचुअल फंड - लार्ज कैप',
+    'Mutual Fund - Mid Cap': 'म्यूचुअल फंड - मिड कैप',
+    'Mutual Fund - Small Cap': 'म्यूचुअल फंड - स्मॉल कैप',
+    'Foreign Exchange': 'विदेशी मुद्रा',
+    'Energy Commodity': 'ऊर्जा कमोडिटी',
+    'Conglomerate': 'समूह कंपनी',
+    'Textiles': 'कपड़ा उद्योग',
+    'Telecommunications Equipment': 'दूरसंचार उपकरण',
+    'Renewable Energy': 'नवीकरणीय ऊर्जा',
+    'Real Estate Investment Trust': 'रियल एस्टेट इन्वेस्टमेंट ट्रस्ट',
+    'Oil & Gas': 'तेल और गैस',
+    'Media & Entertainment': 'मीडिया और मनोरंजन',
+    'Industrial Metal': 'औद्योगिक धातु',
+    'Digital Marketing': 'डिजिटल मार्केटिंग',
+    'Defense & Aerospace': 'रक्षा और एयरोस्पेस',
+    'Cryptocurrency': 'क्रिप्टोकरेंसी',
+    'Chemicals': 'रसायन',
+    'Agricultural Commodity': 'कृषि कमोडिटी',
+    'Travel & Hospitality': 'यात्रा और आतिथ्य',
+    'Retail': 'खुदरा',
+    'Real Estate': 'रियल एस्टेट',
+    'Power Transmission': 'बिजली पारेषण',
+    'Power & Utilities': 'बिजली और यूटिलिटी',
+    'Pharmaceuticals': 'दवा उद्योग',
+    'Paints & Coatings': 'पेंट और कोटिंग',
+    'Investment': 'निवेश',
+    'Insurance': 'बीमा',
+    'Healthcare': 'स्वास्थ्य सेवा',
+    'Financial Technology': 'फिनटेक',
+    'Consumer Durables': 'उपभोक्ता टिकाऊ सामान',
+    'Cement': 'सीमेंट',
+    'Aviation': 'विमानन',
+  },
+  assetDescriptions: {
+    'Largest IT services and consulting company in India': 'भारत की सबसे बड़ी IT सेवा और कंसल्टिंग कंपनी',
+    'Global leader in consulting, technology, and outsourcing solutions': 'कंसल्टिंग, टेक्नोलॉजी और आउटसोर्सिंग समाधानों में वैश्विक अग्रणी',
+    'Leading IT services, consulting, and business process services company': 'IT सेवा, कंसल्टिंग और बिज़नेस प्रोसेस सेवाओं की अग्रणी कंपनी',
+    'Global IT services company specializing in digital transformation': 'डिजिटल बदलाव में विशेषज्ञ वैश्विक IT सेवा कंपनी',
+    'Leading IT services and consulting provider with telecom expertise': 'टेलीकॉम विशेषज्ञता वाली अग्रणी IT सेवा और कंसल्टिंग कंपनी',
+    'India\'s largest private sector bank by assets': 'संपत्ति के हिसाब से भारत का सबसे बड़ा निजी बैंक',
+    'Second largest private sector bank in India': 'भारत का दूसरा सबसे बड़ा निजी क्षेत्र का बैंक',
+    'Largest public sector bank in India with nationwide presence': 'देशभर में मौजूद भारत का सबसे बड़ा सरकारी बैंक',
+    'Third largest private sector bank in India': 'भारत का तीसरा सबसे बड़ा निजी क्षेत्र का बैंक',
+    'Leading private sector bank with diverse financial services': 'विविध वित्तीय सेवाओं वाला अग्रणी निजी बैंक',
+    'New generation private sector bank with innovative banking solutions': 'नए बैंकिंग समाधानों वाला नई पीढ़ी का निजी बैंक',
+    'Public sector bank with pan-India presence and international operations': 'पूरे भारत में मौजूद और अंतरराष्ट्रीय कामकाज वाला सरकारी बैंक',
+    'Private sector bank that faced crisis in 2020, now recovering': '2020 में संकट झेलने वाला निजी बैंक, अब उबर रहा है',
+    'Leading non-banking financial company in consumer finance': 'उपभोक्ता ऋण की अग्रणी गैर-बैंकिंग वित्तीय कंपनी',
+    'Diversified financial services holding company': 'विविध वित्तीय सेवाओं की होल्डिंग कंपनी',
+    'Leading private life insurance company in India': 'भारत की अग्रणी निजी जीवन बीमा कंपनी',
+    'Leading commercial vehicle financing company': 'व्यावसायिक वाहनों के लिए ऋण देने वाली अग्रणी कंपनी',
+    'Diversified conglomerate in energy, petrochemicals, retail, and telecom': 'ऊर्जा, पेट्रोकेमिकल, खुदरा और टेलीकॉम में फैला विविध समूह',
+    'India\'s largest crude oil and natural gas exploration company': 'भारत की सबसे बड़ी कच्चा तेल और प्राकृतिक गैस खोज कंपनी',
+    'Largest power generation company in India': 'भारत की सबसे बड़ी बिजली उत्पादन कंपनी',
+    'Central transmission utility responsible for national power grid': 'राष्ट्रीय पावर ग्रिड संभालने वाली केंद्रीय पारेषण कंपनी',
+    'Largest state-owned natural gas processing and distribution company': 'प्राकृतिक गैस प्रसंस्करण और वितरण की सबसे बड़ी सरकारी कंपनी',
+    'Largest passenger car manufacturer in India': 'भारत की सबसे बड़ी यात्री कार निर्माता',
+    'Leading manufacturer of tractors, utility vehicles, and commercial vehicles': 'ट्रैक्टर, यूटिलिटी वाहन और व्यावसायिक वाहनों की अग्रणी निर्माता',
+    'Leading manufacturer of motorcycles and three-wheelers': 'मोटरसाइकिल और तिपहिया वाहनों की अग्रणी निर्माता',
+    'World\'s largest manufacturer of motorcycles and scooters': 'मोटरसाइकिल और स्कूटर की दुनिया की सबसे बड़ी निर्माता',
+    'Major commercial vehicle manufacturer specializing in trucks and buses': 'ट्रक और बसों में विशेषज्ञ प्रमुख व्यावसायिक वाहन निर्माता',
+    'India\'s largest FMCG company with iconic consumer brands': 'मशहूर उपभोक्ता ब्रांडों वाली भारत की सबसे बड़ी FMCG कंपनी',
+    'Diversified conglomerate in FMCG, hotels, paperboards, and agri-business': 'FMCG, होटल, पेपरबोर्ड और कृषि व्यवसाय में फैला विविध समूह',
+    'Leading food and beverage company with brands like Maggi and Nescafé': 'मैगी और नेसकैफ़े जैसे ब्रांड वाली अग्रणी खाद्य और पेय कंपनी',
+    'Leading consumer goods company with brands like Tata Tea and Tata Salt': 'टाटा टी और टाटा नमक जैसे ब्रांड वाली अग्रणी उपभोक्ता सामान कंपनी',
+    'Leading manufacturer of watches, jewelry, and eyewear': 'घड़ियों, आभूषण और चश्मों की अग्रणी निर्माता',
+    'Largest paint company in India with pan-Asia presence': 'पूरे एशिया में मौजूद भारत की सबसे बड़ी पेंट कंपनी',
+    'Leading retail chain operating Westside, Zudio, and Star stores': 'वेस्टसाइड, ज़ूडियो और स्टार स्टोर चलाने वाली अग्रणी रिटेल चेन',
+    'D2C beauty and personal care brand company (Mamaearth, The Derma Co)': 'सीधे ग्राहकों को बेचने वाली ब्यूटी और पर्सनल केयर ब्रांड कंपनी (मामाअर्थ, द डर्मा को)',
+    'India\'s largest integrated steel producer': 'भारत की सबसे बड़ी एकीकृत इस्पात उत्पादक',
+    'India\'s leading integrated steel manufacturer': 'भारत की अग्रणी एकीकृत इस्पात निर्माता',
+    'Leading aluminum and copper manufacturer in India': 'भारत की अग्रणी एल्युमिनियम और तांबा निर्माता',
+    'Public sector copper mining and smelting company': 'तांबे के खनन और प्रगलन की सरकारी कंपनी',
+    'India\'s largest pharmaceutical company by market cap': 'बाज़ार मूल्य के हिसाब से भारत की सबसे बड़ी दवा कंपनी',
+    'India\'s leading integrated healthcare services provider': 'भारत की अग्रणी एकीकृत स्वास्थ्य सेवा प्रदाता',
+    'Leading engineering, construction, and technology conglomerate': 'इंजीनियरिंग, निर्माण और टेक्नोलॉजी का अग्रणी समूह',
+    'Largest cement manufacturer in India': 'भारत की सबसे बड़ी सीमेंट निर्माता',
+    'Flagship company of Aditya Birla Group in cement and chemicals': 'सीमेंट और रसायन में आदित्य बिड़ला समूह की प्रमुख कंपनी',
+    'Leading highway infrastructure developer and toll road operator': 'हाईवे बनाने और टोल सड़कें चलाने वाली अग्रणी कंपनी',
+    'India\'s second largest telecom operator with global presence': 'वैश्विक मौजूदगी वाली भारत की दूसरी सबसे बड़ी टेलीकॉम कंपनी',
+    'Telecom operator struggling with debt and market share loss': 'कर्ज़ और घटती बाज़ार हिस्सेदारी से जूझती टेलीकॉम कंपनी',
+    'Public sector telecom infrastructure provider leveraging railway networks': 'रेलवे नेटवर्क का उपयोग करने वाली सरकारी टेलीकॉम ढाँचा कंपनी',
+    'Flagship company of Adani Group in infrastructure and commodities': 'बुनियादी ढाँचे और कमोडिटी में अडानी समूह की प्रमुख कंपनी',
+    'Largest private sector port and logistics company in India': 'भारत की सबसे बड़ी निजी बंदरगाह और लॉजिस्टिक्स कंपनी',
+    'Real estate development company focused on residential and commercial projects': 'आवासीय और व्यावसायिक परियोजनाओं पर केंद्रित रियल एस्टेट कंपनी',
+    'Private thermal power generation company': 'निजी थर्मल बिजली उत्पादन कंपनी',
+    'Power generation company with execution challenges': 'परियोजनाएँ पूरी करने में चुनौतियों वाली बिजली उत्पादन कंपनी',
+    'Power generation company with hydroelectric and thermal projects': 'पनबिजली और थर्मल परियोजनाओं वाली बिजली उत्पादन कंपनी',
+    'Independent power producer with thermal power plants': 'थर्मल पावर प्लांट वाली स्वतंत्र बिजली उत्पादक',
+    'Integrated power utility company serving Kolkata and surrounding areas': 'कोलकाता और आसपास के इलाकों को सेवा देने वाली एकीकृत बिजली कंपनी',
+    'State-owned aerospace and defense electronics company': 'एयरोस्पेस और रक्षा इलेक्ट्रॉनिक्स की सरकारी कंपनी',
+    'Precision engineering solutions for nuclear, space, and defense sectors': 'परमाणु, अंतरिक्ष और रक्षा क्षेत्रों के लिए सटीक इंजीनियरिंग समाधान',
+    'Leading media and entertainment company with TV channels and digital platforms': 'टीवी चैनल और डिजिटल प्लेटफ़ॉर्म वाली अग्रणी मीडिया और मनोरंजन कंपनी',
+    'Direct-to-home satellite television service provider': 'डायरेक्ट-टू-होम सैटेलाइट टीवी सेवा प्रदाता',
+    'India\'s largest airline by market share and fleet size': 'बाज़ार हिस्सेदारी और विमानों की संख्या में भारत की सबसे बड़ी एयरलाइन',
+    'Online travel company offering flight, hotel, and holiday bookings': 'फ़्लाइट, होटल और छुट्टियों की बुकिंग देने वाली ऑनलाइन ट्रैवल कंपनी',
+    'Digital payments and financial services platform': 'डिजिटल भुगतान और वित्तीय सेवाओं का प्लेटफ़ॉर्म',
+    'Cybersecurity solutions provider for individuals and enterprises': 'व्यक्तियों और कंपनियों के लिए साइबर सुरक्षा समाधान प्रदाता',
+    'IT services company specializing in cloud and data solutions': 'क्लाउड और डेटा समाधानों में विशेषज्ञ IT सेवा कंपनी',
+    'Wind turbine manufacturer facing financial challenges': 'वित्तीय चुनौतियों से जूझती पवन टरबाइन निर्माता',
+    'Solar cell and module manufacturing company': 'सोलर सेल और मॉड्यूल बनाने वाली कंपनी',
+    'Housing finance company providing home loans and related services': 'होम लोन और संबंधित सेवाएँ देने वाली हाउसिंग फ़ाइनेंस कंपनी',
+    'Non-banking finance company focused on SME and vehicle financing': 'छोटे उद्योगों और वाहन ऋण पर केंद्रित गैर-बैंकिंग वित्त कंपनी',
+    'Gold loan and microfinance services provider': 'गोल्ड लोन और माइक्रोफ़ाइनेंस सेवा प्रदाता',
+    'Discount brokerage and online trading platform': 'डिस्काउंट ब्रोकरेज और ऑनलाइन ट्रेडिंग प्लेटफ़ॉर्म',
+    'Small finance bank focused on microfinance and inclusive banking': 'माइक्रोफ़ाइनेंस और समावेशी बैंकिंग पर केंद्रित स्मॉल फ़ाइनेंस बैंक',
+    'Manufacturer and exporter of home furnishing textiles': 'होम फ़र्निशिंग कपड़ों की निर्माता और निर्यातक',
+    'Leading manufacturer of home textiles, yarn, and paper products': 'होम टेक्सटाइल, धागे और कागज़ उत्पादों की अग्रणी निर्माता',
+    'Specialty chemicals manufacturer for pigments and dyes': 'पिगमेंट और रंगों के लिए विशेष रसायन निर्माता',
+    'Agrochemical and specialty chemical manufacturing company': 'कृषि रसायन और विशेष रसायन बनाने वाली कंपनी',
+    'Infrastructure development company in power, airports, and energy sectors': 'बिजली, हवाई अड्डे और ऊर्जा क्षेत्रों में बुनियादी ढाँचा विकास कंपनी',
+    'Diversified company with interests in drones, e-vehicles, and fintech': 'ड्रोन, इलेक्ट्रिक वाहन और फिनटेक में रुचि वाली विविध कंपनी',
+    'Satellite and telecom infrastructure services provider': 'सैटेलाइट और टेलीकॉम ढाँचा सेवा प्रदाता',
+    'Digital advertising and marketing technology company': 'डिजिटल विज्ञापन और मार्केटिंग टेक्नोलॉजी कंपनी',
+    'Programmatic advertising and marketing technology company': 'प्रोग्रामेटिक विज्ञापन और मार्केटिंग टेक्नोलॉजी कंपनी',
+    'Technology company providing banking and retail solutions': 'बैंकिंग और रिटेल समाधान देने वाली टेक्नोलॉजी कंपनी',
+    'Technology enterprise providing telecom and defense equipment solutions': 'टेलीकॉम और रक्षा उपकरण समाधान देने वाली टेक्नोलॉजी कंपनी',
+    'Provider of telecom analytics and revenue assurance solutions': 'टेलीकॉम एनालिटिक्स और राजस्व सुरक्षा समाधान प्रदाता',
+    'IT consulting and solutions company specializing in digital transformation': 'डिजिटल बदलाव में विशेषज्ञ IT कंसल्टिंग और समाधान कंपनी',
+    'Public sector telecom equipment manufacturer and IT solutions provider': 'सरकारी टेलीकॉम उपकरण निर्माता और IT समाधान प्रदाता',
+    'Foreign exchange and money transfer service provider': 'विदेशी मुद्रा और मनी ट्रांसफ़र सेवा प्रदाता',
+    'Battery and electrical equipment manufacturer': 'बैटरी और विद्युत उपकरण निर्माता',
+    'Technology and IT infrastructure provider': 'टेक्नोलॉजी और IT ढाँचा प्रदाता',
+    'Manufacturer of welded tubes and pipes': 'वेल्डेड ट्यूब और पाइप निर्माता',
+    'Pioneer in infrastructure development and construction': 'बुनियादी ढाँचा विकास और निर्माण में अग्रणी',
+    'Metallurgical coke and chemicals manufacturer': 'मेटलर्जिकल कोक और रसायन निर्माता',
+    'Traditional gold investment with intrinsic value and inflation hedge properties': 'अपने आप में मूल्यवान और महँगाई से बचाव करने वाला पारंपरिक सोना निवेश',
+    'Modern way to invest in gold with 24K purity, backed by physical gold reserves': '24 कैरेट शुद्धता वाला, असली सोने के भंडार से समर्थित सोने में निवेश का आधुनिक तरीका',
+    'First and largest cryptocurrency, decentralized digital currency and store of value': 'पहली और सबसे बड़ी क्रिप्टोकरेंसी, विकेंद्रीकृत डिजिटल मुद्रा और मूल्य का भंडार',
+    'Leading smart contract platform and second largest cryptocurrency by market cap': 'अग्रणी स्मार्ट कॉन्ट्रैक्ट प्लेटफ़ॉर्म और बाज़ार मूल्य में दूसरी सबसे बड़ी क्रिप्टोकरेंसी',
+    'India\'s first ETF tracking Nifty 50 index with low expense ratio': 'कम खर्च अनुपात के साथ निफ्टी 50 को ट्रैक करने वाला भारत का पहला ETF',
+    'Exchange-traded fund tracking top 50 large-cap Indian companies': 'शीर्ष 50 बड़ी भारतीय कंपनियों को ट्रैक करने वाला एक्सचेंज ट्रेडेड फंड',
+    'Passive investment fund mirroring Nifty 50 performance': 'निफ्टी 50 के प्रदर्शन को दोहराने वाला निष्क्रिय निवेश फंड',
+    'Low-cost index fund for diversified large-cap exposure': 'विविध बड़ी कंपनियों में निवेश के लिए कम लागत वाला इंडेक्स फंड',
+    'Tracks Nifty Next 50 index featuring emerging blue-chip companies': 'उभरती ब्लू-चिप कंपनियों वाले निफ्टी नेक्स्ट 50 सूचकांक को ट्रैक करता है',
+    'Actively managed large-cap equity fund focusing on established companies': 'स्थापित कंपनियों पर केंद्रित सक्रिय रूप से प्रबंधित लार्ज-कैप इक्विटी फंड',
+    'Large-cap fund investing in fundamentally strong market leaders': 'बुनियादी रूप से मज़बूत बाज़ार अग्रणियों में निवेश करने वाला लार्ज-कैप फंड',
+    'Mid-cap focused fund targeting high-growth potential companies': 'तेज़ बढ़त की संभावना वाली कंपनियों पर केंद्रित मिड-कैप फंड',
+    'Invests in emerging mid-cap companies with strong growth prospects': 'मज़बूत बढ़त की संभावना वाली उभरती मिड-कैप कंपनियों में निवेश करता है',
+    'Opportunistic mid-cap fund for capital appreciation': 'पूँजी बढ़ाने के लिए अवसरों को पकड़ने वाला मिड-कैप फंड',
+    'High-risk, high-reward fund investing in small-cap companies': 'स्मॉल-कैप कंपनियों में निवेश करने वाला ऊँचे जोखिम, ऊँचे इनाम वाला फंड',
+    'Small-cap equity fund for aggressive long-term wealth creation': 'लंबी अवधि में तेज़ी से संपत्ति बनाने के लिए स्मॉल-कैप इक्विटी फंड',
+    'Natural fiber commodity influenced by weather, demand, and global textile industry': 'मौसम, माँग और वैश्विक कपड़ा उद्योग से प्रभावित प्राकृतिक रेशा कमोडिटी',
+    'Essential food grain commodity affected by climate and global food demand': 'जलवायु और वैश्विक खाद्य माँग से प्रभावित ज़रूरी अनाज कमोडिटी',
+    'West Texas Intermediate crude oil benchmark for US oil prices': 'अमेरिकी तेल कीमतों का मानक वेस्ट टेक्सास इंटरमीडिएट कच्चा तेल',
+    'Industrial and precious metal with dual demand from jewelry and electronics': 'आभूषण और इलेक्ट्रॉनिक्स दोनों की माँग वाली औद्योगिक और कीमती धातु',
+    'Clean energy commodity for heating, power generation, and industrial use': 'हीटिंग, बिजली उत्पादन और औद्योगिक उपयोग के लिए स्वच्छ ऊर्जा कमोडिटी',
+    'Essential industrial metal for construction, electronics, and green energy': 'निर्माण, इलेक्ट्रॉनिक्स और हरित ऊर्जा के लिए ज़रूरी औद्योगिक धातु',
+    'International oil benchmark pricing two-thirds of global crude oil': 'दुनिया के दो-तिहाई कच्चे तेल की कीमत तय करने वाला अंतरराष्ट्रीय मानक',
+    'Lightweight metal used in aerospace, automotive, and construction industries': 'एयरोस्पेस, ऑटोमोबाइल और निर्माण उद्योगों में इस्तेमाल होने वाली हल्की धातु',
+    'India\'s first REIT, investing in premium commercial office spaces': 'प्रीमियम व्यावसायिक ऑफ़िस स्पेस में निवेश करने वाला भारत का पहला REIT',
+    'Premium office and business park REIT with presence across major cities': 'प्रमुख शहरों में मौजूद प्रीमियम ऑफ़िस और बिज़नेस पार्क REIT',
+    'Most traded currency pair in India, reflects dollar strength vs rupee': 'भारत में सबसे ज़्यादा ट्रेड होने वाली मुद्रा जोड़ी, रुपये के मुकाबले डॉलर की ताकत दिखाती है',
+    'Exchange rate between Euro and Indian Rupee for European trade': 'यूरोपीय व्यापार के लिए यूरो और भारतीय रुपये की विनिमय दर',
+    'GBP to INR exchange rate for UK-India trade and investments': 'ब्रिटेन-भारत व्यापार और निवेश के लिए पाउंड से रुपये की विनिमय दर',
+    'Indian equity stock': 'भारतीय कंपनी का शेयर',
+    'Investment asset': 'निवेश एसेट',
+  },
+};
@@ -0,0 +1,292 @@
+import { LocaleBundle } from './en';
+
+export const mr: LocaleBundle = {
+  messages: {
+    'language.label': 'भाषा',
+
+    'menu.subtitle': 'एक आर्थिक गुंतवणूक प्रवास',
+    'menu.solo': 'एकट्याने खेळा',
+    'menu.multi': 'मल्टी मोड',
+
+    'common.cancel': 'रद्द करा',
+
+    'playerName.title': 'सोलो मोड',
+    'playerName.prompt': 'खेळ सुरू करण्यासाठी तुमचे नाव लिहा',
+    'playerName.nameLabel': 'खेळाडूचे नाव',
+    'playerName.namePlaceholder': 'तुमचे नाव लिहा',
+    'playerName.ageLabel': 'वय',
+    'playerName.agePlaceholder': 'तुमचे वय लिहा',
+    'playerName.start': 'खेळ सुरू करा',
+    'playerName.errorNameRequired': 'कृपया तुमचे नाव लिहा',
+    'playerName.errorNameShort': 'नाव किमान 2 अक्षरांचे असावे',
+    'playerName.errorNameLong': 'नाव 20 अक्षरांपेक्षा कमी असावे',
+    'playerName.errorAgeRequired': 'कृपया तुमचे वय लिहा',
+    'playerName.errorAgeRange': 'वय 10 ते 100 दरम्यान असावे',
+
+    'intro.welcome.title': 'बुल रनमध्ये तुमचे स्वागत आहे!',
+    'intro.welcome.description': 'पैशाच्या जाणकारीचा तुमचा प्रवास सुरू होत आहे. वेगवेगळ्या ॲसेट क्लासमध्ये हुशारीने गुंतवणूक करा आणि खेळाच्या शेवटी सर्वाधिक नेट वर्थ मिळवा.',
+    'intro.income.title': 'तुमच्या उत्पन्नावर लक्ष ठेवा',
+    'intro.income.description': 'तपशीलवार माहितीसह तुमच्या कॅश फ्लोवर लक्ष ठेवा. तुम्हाला दर 6 महिन्यांनी नियमित उत्पन्न मिळते - काळानुसार तुमची संपत्ती वाढताना पाहा!',
+    'intro.assets.title': 'ॲसेट्सबद्दल जाणून घ्या',
+    'intro.assets.description': 'कोणत्याही ॲसेटवर माउस नेऊन कंपनी, तिचे क्षेत्र आणि ती काय करते ते जाणून घ्या. गुंतवणुकीत ज्ञान हीच ताकद आहे!',
+    'intro.investments.title': 'तुमच्या गुंतवणुकीवर लक्ष ठेवा',
+    'intro.investments.description': 'प्रत्येक ॲसेटसाठी गुंतवलेली रक्कम, सरासरी खरेदी किंमत आणि नफा/तोटा पाहा. विचारपूर्वक निर्णय घ्या!',
+    'intro.portfolio.title': 'पोर्टफोलिओचा तपशील',
+    'intro.portfolio.description': 'तुमच्या संपूर्ण पोर्टफोलिओची रचना आणि CAGR (चक्रवाढ वार्षिक वाढीचा दर) पाहा. विविधता हीच यशाची गुरुकिल्ली आहे!',
+    'intro.quiz.title': 'तुमचे ज्ञान तपासा',
+    'intro.quiz.description': 'नवीन ॲसेट क्लास उघडल्यावर एक प्रश्नमंजुषा येते. खेळ पुढे चालू ठेवण्यासाठी योग्य उत्तर द्या! बुल रनमध्ये शिकणे फायद्याचे ठरते.',
+    'intro.lifeEvents.title': 'आयुष्यातील घटना',
+    'intro.lifeEvents.description': 'आयुष्यातील घटना सर्व खेळाडूंसाठी अचानक घडतात. प्रत्येक खेळाडूला प्रत्येक सत्रात खेळाच्या वेगवेगळ्या वर्षांत वेगळ्या घटना अनुभवायला मिळतील. आयुष्य सरळ रेषेत चालत नाही—खऱ्या आयुष्याप्रमाणेच तुम्हाला चढ-उतार दोन्ही पाहावे लागतील!',
+    'intro.lifeEvents.positive': 'चांगली घटना',
+    'intro.lifeEvents.negative': 'वाईट घटना',
+    'intro.debt.title': 'कर्ज आणि खरेदीवरील बंधने',
+    'intro.debt.description': 'एखाद्या घटनेचा खर्च भागवण्याइतकी रोकड तुमच्या खिशात नसेल, तर तुम्ही कर्जात जाता. कर्जात असताना खरेदी आणि गुंतवणूक बंद राहते. पुढील कोणत्याही खरेदीपूर्वी कर्ज फेडणे हेच तुमचे पहिले काम ठरते!',
+    'intro.compete.title': 'स्पर्धा करा आणि जिंका!',
+    'intro.compete.description': 'लीडरबोर्डवर तुमचे स्थान पाहा. इतर खेळाडूंशी स्पर्धा करा आणि तुम्हीच सर्वोत्तम गुंतवणूकदार आहात हे सिद्ध करा!',
+    'intro.ready': 'तुम्ही तयार आहात!',
+    'intro.waitingMessage': 'इतर खेळाडूंनी ट्युटोरियल पूर्ण करण्याची वाट पाहत आहोत...',
+    'intro.stillReading': 'अजून वाचत आहेत:',
+    'intro.autoStart': 'सगळे तयार झाल्यावर खेळ आपोआप सुरू होईल',
+    'intro.goToSlide': 'स्लाइड {number} वर जा',
+    'intro.next': 'पुढे',
+    'intro.letsPlay': 'चला खेळूया!',
+
+    'education.unlocked': 'उघडले',
+    'education.correct': '✓ बरोबर!',
+    'education.submit': 'उत्तर पाठवा',
+    'education.attempts': 'प्रयत्न: {count}/3',
+    'education.checkNewAsset': 'खेळात तुमचा नवीन ॲसेट पाहा!',
+    'education.autoClosing': '(5 सेकंदांत आपोआप बंद होईल)',
+    'education.closeNow': 'आता बंद करा',
+
+    'lifeEvent.dismiss': 'बंद करा',
+    'lifeEvent.lossTitle': 'अनपेक्षित खर्च',
+    'lifeEvent.gainTitle': 'आनंदाची बातमी!',
+    'lifeEvent.estimatedCost': 'अंदाजे खर्च',
+    'lifeEvent.amountDeducted': 'वजा झालेली रक्कम',
+    'lifeEvent.amountReceived': 'मिळालेली रक्कम',
+    'lifeEvent.choicesTitle': 'तुम्ही हे कसे हाताळाल?',
+    'lifeEvent.insuranceNote': 'जुळणारी विमा पॉलिसी खर्चाचा काही भाग भरते',
+    'lifeEvent.choice': 'निवड:',
+    'lifeEvent.totalCost': 'एकूण खर्च:',
+    'lifeEvent.insurancePaid': 'विम्याने भरले:',
+    'lifeEvent.fdsBroken': 'मोडलेल्या FD:',
+    'lifeEvent.inDebtTitle': 'तुम्ही कर्जात आहात',
+    'lifeEvent.currentDebt': 'सध्याचे कर्ज: ₹{amount}',
+    'lifeEvent.sellAssets': 'कर्ज फेडण्यासाठी ॲसेट विका',
+    'lifeEvent.waitIncome': 'मासिक उत्पन्नाची वाट पाहा',
+    'lifeEvent.purchasesDisabled': 'सर्व खरेदी तात्पुरती बंद आहे',
+    'lifeEvent.paymentSuccessful': 'भरणा यशस्वी',
+    'lifeEvent.paymentMessage': 'रक्कम तुमच्या खिशातील रोकडीतून वजा केली',
+    'lifeEvent.fundsAdded': 'रक्कम जमा झाली',
+    'lifeEvent.fundsAddedMessage': 'पैसे तुमच्या खिशातील रोकडीत जमा झाले',
+    'lifeEvent.debtCleared': 'कर्ज फिटले!',
+    'lifeEvent.previousDebt': 'आधीचे कर्ज:',
+    'lifeEvent.paymentReceived': 'मिळालेला भरणा:',
+    'lifeEvent.newBalance': 'नवीन शिल्लक:',
+    'lifeEvent.debtClearedMessage': '✅ तुम्ही आता कर्जात नाही! सर्व खरेदी पुन्हा उपलब्ध आहे.',
+    'lifeEvent.debtReduced': 'कर्ज कमी झाले',
+    'lifeEvent.remainingDebt': 'उरलेले कर्ज:',
+    'lifeEvent.stillInDebtMessage': '⚡ तुम्ही अजूनही कर्जात आहात. ॲसेट विकत राहा किंवा आणखी उत्पन्नाची वाट पाहा.',
+    'lifeEvent.pickOption': 'पुढे जाण्यासाठी एक पर्याय निवडा',
+    'lifeEvent.clickDismiss': 'बंद करण्यासाठी कुठेही क्लिक करा',
+  },
+  quotes: [
+    'नियम क्रमांक 1: कधीही पैसे गमावू नका. नियम क्रमांक 2: नियम क्रमांक 1 कधीही विसरू नका.',
+    'किंमत म्हणजे तुम्ही जे देता. मूल्य म्हणजे तुम्हाला जे मिळते.',
+    'शेअर बाजार हा अधीर लोकांकडून संयमी लोकांकडे पैसा पोहोचवणारे साधन आहे.',
+    'आपण काय करत आहोत हे माहीत नसते तेव्हाच जोखीम निर्माण होते.',
+    'इतर लोभी असताना घाबरा, आणि इतर घाबरलेले असताना लोभी व्हा.',
+    'स्वतःमध्ये केलेली गुंतवणूक हीच सर्वोत्तम गुंतवणूक आहे.',
+    'चक्रवाढ व्याज हे जगातील आठवे आश्चर्य आहे.',
+    'ज्ञानातील गुंतवणूक सर्वोत्तम व्याज देते.',
+    'खर्चानंतर उरलेले वाचवू नका, तर बचतीनंतर उरलेले खर्च करा.',
+    'गुंतवणुकीतील चार सर्वात धोकादायक शब्द: "या वेळी वेगळे आहे."',
+    'गुंतवणुकीत जे सोयीचे वाटते ते क्वचितच फायद्याचे ठरते.',
+    'बाजारात टिकून राहणे हे बाजाराची वेळ साधण्यापेक्षा चांगले.',
+    'सगळी अंडी एकाच टोपलीत ठेवू नका.',
+    'यशस्वी ट्रेडरचे ध्येय सर्वोत्तम व्यवहार करणे असते. पैसा दुय्यम असतो.',
+    'गुंतवणूक म्हणजे रंग वाळताना किंवा गवत उगवताना पाहण्यासारखी असावी.',
+    'गुंतवणूकदारांना आपण काय करतो हे कळत नसेल तेव्हाच खूप विविधतेची गरज असते.',
+    'सामान्य गुंतवणूकदाराने नेहमी गुंतवणूकदारासारखे वागावे, सट्टेबाजासारखे नव्हे.',
+    'तुम्ही किती पैसे कमावता हे महत्त्वाचे नाही, तर किती राखून ठेवता हे महत्त्वाचे आहे.',
+    'कधीकधी बाजार इतका मूर्खपणा करतो की श्वास रोखला जातो.',
+    'गुंतवणूकदाराची मुख्य समस्या—आणि सर्वात मोठा शत्रूही—बहुधा तो स्वतःच असतो.',
+    'प्रत्येक शेअरमागे एक कंपनी असते. ती काय करते ते शोधा.',
+    'तुमच्याकडे काय आहे आणि ते का आहे, हे जाणून घ्या.',
+    'परतावा खूप महत्त्वाचा आहे, पण मोठा तोटा टाळणे त्याहून महत्त्वाचे आहे.',
+    'हुशार गुंतवणूकदार वास्तववादी असतो, जो आशावादी लोकांना विकतो आणि निराशावादी लोकांकडून विकत घेतो.',
+  ],
+  sectors: {
+    'Information Technology': 'माहिती तंत्रज्ञान',
+    'Banking & Finance': 'बँकिंग आणि वित्त',
+    'Financial Services': 'वित्तीय सेवा',
+    'Metals & Mining': 'धातू आणि खाणकाम',
+    'Power Generation': 'वीजनिर्मिती',
+    'Infrastructure': 'पायाभूत सुविधा',
+    'Index Fund - ETF': 'इंडेक्स फंड - ETF',
+    'Automotive': 'वाहन उद्योग',
+    'FMCG': 'FMCG (दैनंदिन वापराच्या वस्तू)',
+    'Diversified': 'वैविध्यपूर्ण',
+    'Telecommunications': 'दूरसंचार',
+    'Technology': 'तंत्रज्ञान',
+    'Precious Metals': 'मौल्यवान धातू',
+    'Mutual Fund - Large Cap': 'म्युच्युअल फंड - लार्ज कॅप',
+    'Mutual Fund - Mid Cap': 'म्युच्युअल फंड - मिड कॅप',
+    'Mutual Fund - Small Cap': 'म्युच्युअल फंड - स्मॉल कॅप',
+    'Foreign Exchange': 'परकीय चलन',
+    'Energy Commodity': 'ऊर्जा कमोडिटी',
+    'Conglomerate': 'उद्योगसमूह',
+    'Textiles': 'वस्त्रोद्योग',
+    'Telecommunications Equipment': 'दूरसंचार उपकरणे',
+    'Renewable Energy': 'अक्षय ऊर्जा',
+    'Real Estate Investment Trust': 'रिअल इस्टेट इन्व्हेस्टमेंट ट्रस्ट',
+    'Oil & Gas': 'तेल आणि वायू',
+    'Media & Entertainment': 'माध्यमे आणि मनोरंजन',
+    'Industrial Metal': 'औद्योगिक धातू',
+    'Digital Marketing': 'डिजिटल मार्केटिंग',
+    'Defense & Aerospace': 'संरक्षण आणि एरोस्पेस',
+    'Cryptocurrency': 'क्रिप्टोकरन्सी',
+    'Chemicals': 'रसायने',
+    'Agricultural Commodity': 'कृषी कमोडिटी',
+    'Travel & Hospitality': 'प्रवास आणि आदरातिथ्य',
+    'Retail': 'किरकोळ विक्री',
+    'Real Estate': 'स्थावर मालमत्ता',
+    'Power Transmission': 'वीज पारेषण',
+    'Power & Utilities': 'वीज आणि युटिलिटी',
+    'Pharmaceuticals': 'औषधनिर्मिती',
+    'Paints & Coatings': 'रंग आणि कोटिंग',
+    'Investment': 'गुंतवणूक',
+    'Insurance': 'विमा',
+    'Healthcare': 'आरोग्यसेवा',
+    'Financial Technology': 'फिनटेक',
+    'Consumer Durables': 'ग्राहक टिकाऊ वस्तू',
+    'Cement': 'सिमेंट',
+    'Aviation': 'विमान वाहतूक',
+  },
+  assetDescriptions: {
+    'Largest IT services and consulting company in India': 'भारतातील सर्वात मोठी IT सेवा आणि सल्लागार कंपनी',
+    'Global leader in consulting, technology, and outsourcing solutions': 'सल्लागार, तंत्रज्ञान आणि आउटसोर्सिंग सेवांमध्ये जागतिक आघाडीवर',
+    'Leading IT services, consulting, and business process services company': 'IT सेवा, सल्लागार आणि बिझनेस प्रोसेस सेवांची आघाडीची कंपनी',
+    'Global IT services company specializing in digital transformation': 'डिजिटल परिवर्तनात तज्ज्ञ जागतिक IT सेवा कंपनी',
+    'Leading IT services and consulting provider with telecom expertise': 'दूरसंचार क्षेत्रातील कौशल्य असलेली आघाडीची IT सेवा आणि सल्लागार कंपनी',
+    'India\'s largest private sector bank by assets': 'मालमत्तेनुसार भारतातील सर्वात मोठी खासगी बँक',
+    'Second largest private sector bank in India': 'भारतातील दुसरी सर्वात मोठी खासगी बँक',
+    'Largest public sector bank in India with nationwide presence': 'देशभर अस्तित्व असलेली भारतातील सर्वात मोठी सरकारी बँक',
+    'Third largest private sector bank in India': 'भारतातील तिसरी सर्वात मोठी खासगी बँक',
+    'Leading private sector bank with diverse financial services': 'विविध वित्तीय सेवा देणारी आघाडीची खासगी बँक',
+    'New generation private sector bank with innovative banking solutions': 'नावीन्यपूर्ण बँकिंग सेवा देणारी नव्या पिढीची खासगी बँक',
+    'Public sector bank with pan-India presence and international operations': 'देशभर अस्तित्व आणि आंतरराष्ट्रीय कामकाज असलेली सरकारी बँक',
+    'Private sector bank that faced crisis in 2020, now recovering': '2020 मध्ये संकटात सापडलेली, आता सावरणारी खासगी बँक',
+    'Leading non-banking financial company in consumer finance': 'ग्राहक कर्जातील आघाडीची बिगर-बँकिंग वित्तीय कंपनी',
+    'Diversified financial services holding company': 'विविध वित्तीय सेवांची होल्डिंग कंपनी',
+    'Leading private life insurance company in India': 'भारतातील आघाडीची खासगी जीवन विमा कंपनी',
+    'Leading commercial vehicle financing company': 'व्यावसायिक वाहनांसाठी कर्ज देणारी आघाडीची कंपनी',
+    'Diversified conglomerate in energy, petrochemicals, retail, and telecom': 'ऊर्जा, पेट्रोकेमिकल्स, किरकोळ विक्री आणि दूरसंचारात पसरलेला उद्योगसमूह',
+    'India\'s largest crude oil and natural gas exploration company': 'भारतातील सर्वात मोठी कच्चे तेल आणि नैसर्गिक वायू शोध कंपनी',
+    'Largest power generation company in India': 'भारतातील सर्वात मोठी वीजनिर्मिती कंपनी',
+    'Central transmission utility responsible for national power grid': 'राष्ट्रीय पॉवर ग्रिड सांभाळणारी केंद्रीय पारेषण कंपनी',
+    'Largest state-owned natural gas processing and distribution company': 'नैसर्गिक वायू प्रक्रिया आणि वितरणाची सर्वात मोठी सरकारी कंपनी',
+    'Largest passenger car manufacturer in India': 'भारतातील सर्वात मोठी प्रवासी कार उत्पादक',
+    'Leading manufacturer of tractors, utility vehicles, and commercial vehicles': 'ट्रॅक्टर, युटिलिटी वाहने आणि व्यावसायिक वाहनांची आघाडीची उत्पादक',
+    'Leading manufacturer of motorcycles and three-wheelers': 'मोटरसायकल आणि तीनचाकी वाहनांची आघाडीची उत्पादक',
+    'World\'s largest manufacturer of motorcycles and scooters': 'मोटरसायकल आणि स्कूटरची जगातील सर्वात मोठी उत्पादक',
+    'Major commercial vehicle manufacturer specializing in trucks and buses': 'ट्रक आणि बसमध्ये तज्ज्ञ प्रमुख व्यावसायिक वाहन उत्पादक',
+    'India\'s largest FMCG company with iconic consumer brands': 'प्रसिद्ध ग्राहक ब्रँड असलेली भारतातील सर्वात मोठी FMCG कंपनी',
+    'Diversified conglomerate in FMCG, hotels, paperboards, and agri-business': 'FMCG, हॉटेल्स, पेपरबोर्ड आणि कृषी व्यवसायात पसरलेला उद्योगसमूह',
+    'Leading food and beverage company with brands like Maggi and Nescafé': 'मॅगी आणि नेसकॅफेसारखे ब्रँड असलेली आघाडीची खाद्य आणि पेय कंपनी',
+    'Leading consumer goods company with brands like Tata Tea and Tata Salt': 'टाटा टी आणि टाटा मीठसारखे ब्रँड असलेली आघाडीची ग्राहक वस्तू कंपनी',
+    'Leading manufacturer of watches, jewelry, and eyewear': 'घड्याळे, दागिने आणि चष्म्यांची आघाडीची उत्पादक',
+    'Largest paint company in India with pan-Asia presence': 'संपूर्ण आशियात अस्तित्व असलेली भारतातील सर्वात मोठी रंग कंपनी',
+    'Leading retail chain operating Westside, Zudio, and Star stores': 'वेस्टसाइड, झुडिओ आणि स्टार स्टोअर्स चालवणारी आघाडीची रिटेल साखळी',
+    'D2C beauty and personal care brand company (Mamaearth, The Derma Co)': 'थेट ग्राहकांना विकणारी सौंदर्य आणि वैयक्तिक निगा ब्रँड कंपनी (मामाअर्थ, द डर्मा को)',
+    'India\'s largest integrated steel producer': 'भारतातील सर्वात मोठी एकात्मिक पोलाद उत्पादक',
+    'India\'s leading integrated steel manufacturer': 'भारतातील आघाडीची एकात्मिक पोलाद उत्पादक',
+    'Leading aluminum and copper manufacturer in India': 'भारतातील आघाडीची ॲल्युमिनियम आणि तांबे उत्पादक',
+    'Public sector copper mining and smelting company': 'तांब्याचे खाणकाम आणि वितळवण्याची सरकारी कंपनी',
+    'India\'s largest pharmaceutical company by market cap': 'बाजारमूल्यानुसार भारतातील सर्वात मोठी औषध कंपनी',
+    'India\'s leading integrated healthcare services provider': 'भारतातील आघाडीची एकात्मिक आरोग्यसेवा पुरवठादार',
+    'Leading engineering, construction, and technology conglomerate': 'अभियांत्रिकी, बांधकाम आणि तंत्रज्ञानातील आघाडीचा उद्योगसमूह',
+    'Largest cement manufacturer in India': 'भारतातील सर्वात मोठी सिमेंट उत्पादक',
+    'Flagship company of Aditya Birla Group in cement and chemicals': 'सिमेंट आणि रसायनांतील आदित्य बिर्ला समूहाची प्रमुख कंपनी',
+    'Leading highway infrastructure developer and toll road operator': 'महामार्ग उभारणारी आणि टोल रस्ते चालवणारी आघाडीची कंपनी',
+    'India\'s second largest telecom operator with global presence': 'जागतिक अस्तित्व असलेली भारतातील दुसरी सर्वात मोठी दूरसंचार कंपनी',
+    'Telecom operator struggling with debt and market share loss': 'कर्ज आणि घटत्या बाजार हिश्श्याशी झुंजणारी दूरसंचार कंपनी',
+    'Public sector telecom infrastructure provider leveraging railway networks': 'रेल्वे नेटवर्कचा वापर करणारी सरकारी दूरसंचार पायाभूत सुविधा कंपनी',
+    'Flagship company of Adani Group in infrastructure and commodities': 'पायाभूत सुविधा आणि कमोडिटीमधील अदानी समूहाची प्रमुख कंपनी',
+    'Largest private sector port and logistics company in India': 'भारतातील सर्वात मोठी खासगी बंदर आणि लॉजिस्टिक्स कंपनी',
+    'Real estate development company focused on residential and commercial projects': 'निवासी आणि व्यावसायिक प्रकल्पांवर भर देणारी बांधकाम विकास कंपनी',
+    'Private thermal power generation company': 'खासगी औष्णिक वीजनिर्मिती कंपनी',
+    'Power generation company with execution challenges': 'प्रकल्प पूर्ण करण्यात अडचणी असलेली वीजनिर्मिती कंपनी',
+    'Power generation company with hydroelectric and thermal projects': 'जलविद्युत आणि औष्णिक प्रकल्प असलेली वीजनिर्मिती कंपनी',
+    'Independent power producer with thermal power plants': 'औष्णिक वीज प्रकल्प असलेली स्वतंत्र वीज उत्पादक',
+    'Integrated power utility company serving Kolkata and surrounding areas': 'कोलकाता आणि परिसराला सेवा देणारी एकात्मिक वीज कंपनी',
+    'State-owned aerospace and defense electronics company': 'एरोस्पेस आणि संरक्षण इलेक्ट्रॉनिक्सची सरकारी कंपनी',
+    'Precision engineering solutions for nuclear, space, and defense sectors': 'अणु, अवकाश आणि संरक्षण क्षेत्रांसाठी अचूक अभियांत्रिकी सेवा',
+    'Leading media and entertainment company with TV channels and digital platforms': 'टीव्ही चॅनेल आणि डिजिटल प्लॅटफॉर्म असलेली आघाडीची माध्यम आणि मनोरंजन कंपनी',
+    'Direct-to-home satellite television service provider': 'डायरेक्ट-टू-होम उपग्रह टीव्ही सेवा पुरवठादार',
+    'India\'s largest airline by market share and fleet size': 'बाजार हिस्सा आणि विमानसंख्येनुसार भारतातील सर्वात मोठी विमान कंपनी',
+    'Online travel company offering flight, hotel, and holiday bookings': 'विमान, हॉटेल आणि सुट्ट्यांचे बुकिंग देणारी ऑनलाइन प्रवास कंपनी',
+    'Digital payments and financial services platform': 'डिजिटल पेमेंट आणि वित्तीय सेवांचा प्लॅटफॉर्म',
+    'Cybersecurity solutions provider for individuals and enterprises': 'व्यक्ती आणि कंपन्यांसाठी सायबर सुरक्षा सेवा पुरवठादार',
+    'IT services company specializing in cloud and data solutions': 'क्लाउड आणि डेटा सेवांमध्ये तज्ज्ञ IT सेवा कंपनी',
+    'Wind turbine manufacturer facing financial challenges': 'आर्थिक अडचणींना तोंड देणारी पवनचक्की उत्पादक',
+    'Solar cell and module manufacturing company': 'सौर सेल आणि मॉड्यूल बनवणारी कंपनी',
+    'Housing finance company providing home loans and related services': 'गृहकर्ज आणि संबंधित सेवा देणारी गृहवित्त कंपनी',
+    'Non-banking finance company focused on SME and vehicle financing': 'लघु उद्योग आणि वाहन कर्जावर भर देणारी बिगर-बँकिंग वित्त कंपनी',
+    'Gold loan and microfinance services provider': 'सोनेतारण कर्ज आणि सूक्ष्म वित्त सेवा पुरवठादार',
+    'Discount brokerage and online trading platform': 'डिस्काउंट ब्रोकरेज आणि ऑनलाइन ट्रेडिंग प्लॅटफॉर्म',
+    'Small finance bank focused on microfinance and inclusive banking': 'सूक्ष्म वित्त आणि सर्वसमावेशक बँकिंगवर भर देणारी स्मॉल फायनान्स बँक',
+    'Manufacturer and exporter of home furnishing textiles': 'गृहसजावटीच्या वस्त्रांची उत्पादक आणि निर्यातदार',
+    'Leading manufacturer of home textiles, yarn, and paper products': 'गृहवस्त्रे, सूत आणि कागद उत्पादनांची आघाडीची उत्पादक',
+    'Specialty chemicals manufacturer for pigments and dyes': 'रंगद्रव्ये आणि रंगांसाठी विशेष रसायन उत्पादक',
+    'Agrochemical and specialty chemical manufacturing company': 'कृषी रसायने आणि विशेष रसायने बनवणारी कंपनी',
+    'Infrastructure development company in power, airports, and energy sectors': 'वीज, विमानतळ आणि ऊर्जा क्षेत्रांतील पायाभूत सुविधा विकास कंपनी',
+    'Diversified company with interests in drones, e-vehicles, and fintech': 'ड्रोन, इलेक्ट्रिक वाहने आणि फिनटेकमध्ये रस असलेली वैविध्यपूर्ण कंपनी',
+    'Satellite and telecom infrastructure services provider': 'उपग्रह आणि दूरसंचार पायाभूत सेवा पुरवठादार',
+    'Digital advertising and marketing technology company': 'डिजिटल जाहिरात आणि मार्केटिंग तंत्रज्ञान कंपनी',
+    'Programmatic advertising and marketing technology company': 'प्रोग्रामॅटिक जाहिरात आणि मार्केटिंग तंत्रज्ञान कंपनी',
+    'Technology company providing banking and retail solutions': 'बँकिंग आणि रिटेल सेवा देणारी तंत्रज्ञान कंपनी',
+    'Technology enterprise providing telecom and defense equipment solutions': 'दूरसंचार आणि संरक्षण उपकरण सेवा देणारी तंत्रज्ञान कंपनी',
+    'Provider of telecom analytics and revenue assurance solutions': 'दूरसंचार विश्लेषण आणि महसूल सुरक्षा सेवा पुरवठादार',
+    'IT consulting and solutions company specializing in digital transformation': 'डिजिटल परिवर्तनात तज्ज्ञ IT सल्लागार आणि सेवा कंपनी',
+    'Public sector telecom equipment manufacturer and IT solutions provider': 'सरकारी दूरसंचार उपकरण उत्पादक आणि IT सेवा पुरवठादार',
+    'Foreign exchange and money transfer service provider': 'परकीय चलन आणि पैसे पाठवण्याची सेवा पुरवठादार',
+    'Battery and electrical equipment manufacturer': 'बॅटरी आणि विद्युत उपकरण उत्पादक',
+    'Technology and IT infrastructure provider': 'तंत्रज्ञान आणि IT पायाभूत सुविधा पुरवठादार',
+    'Manufacturer of welded tubes and pipes': 'वेल्डेड ट्यूब आणि पाइप उत्पादक',
+    'Pioneer in infrastructure development and construction': 'पायाभूत सुविधा विकास आणि बांधकामातील अग्रणी',
+    'Metallurgical coke and chemicals manufacturer': 'मेटलर्जिकल कोक आणि रसायन उत्पादक',
+    'Traditional gold investment with intrinsic value and inflation hedge properties': 'स्वतःचे मूल्य असलेली आणि महागाईपासून बचाव करणारी पारंपरिक सोने गुंतवणूक',
+    'Modern way to invest in gold with 24K purity, backed by physical gold reserves': '24 कॅरेट शुद्धतेची, प्रत्यक्ष सोन्याच्या साठ्याचा आधार असलेली सोने गुंतवणुकीची आधुनिक पद्धत',
+    'First and largest cryptocurrency, decentralized digital currency and store of value': 'पहिली आणि सर्वात मोठी क्रिप्टोकरन्सी, विकेंद्रित डिजिटल चलन आणि मूल्याचा साठा',
+    'Leading smart contract platform and second largest cryptocurrency by market cap': 'आघाडीचा स्मार्ट कॉन्ट्रॅक्ट प्लॅटफॉर्म आणि बाजारमूल्यानुसार दुसरी सर्वात मोठी क्रिप्टोकरन्सी',
+    'India\'s first ETF tracking Nifty 50 index with low expense ratio': 'कमी खर्च प्रमाणासह निफ्टी 50 चा मागोवा घेणारा भारतातील पहिला ETF',
+    'Exchange-traded fund tracking top 50 large-cap Indian companies': 'आघाडीच्या 50 मोठ्या भारतीय कंपन्यांचा मागोवा घेणारा एक्सचेंज ट्रेडेड फंड',
+    'Passive investment fund mirroring Nifty 50 performance': 'निफ्टी 50 च्या कामगिरीचे अनुकरण करणारा निष्क्रिय गुंतवणूक फंड',
+    'Low-cost index fund for diversified large-cap exposure': 'वैविध्यपूर्ण मोठ्या कंपन्यांतील गुंतवणुकीसाठी कमी खर्चाचा इंडेक्स फंड',
+    'Tracks Nifty Next 50 index featuring emerging blue-chip companies': 'उदयोन्मुख ब्लू-चिप कंपन्यांच्या निफ्टी नेक्स्ट 50 निर्देशांकाचा मागोवा घेतो',
+    'Actively managed large-cap equity fund focusing on established companies': 'प्रस्थापित कंपन्यांवर भर देणारा सक्रियपणे व्यवस्थापित लार्ज-कॅप इक्विटी फंड',
+    'Large-cap fund investing in fundamentally strong market leaders': 'मूलभूतदृष्ट्या भक्कम बाजार आघाडीवीरांमध्ये गुंतवणूक करणारा लार्ज-कॅप फंड',
+    'Mid-cap focused fund targeting high-growth potential companies': 'जलद वाढीची क्षमता असलेल्या कंपन्यांवर भर देणारा मिड-कॅप फंड',
+    'Invests in emerging mid-cap companies with strong growth prospects': 'भक्कम वाढीची शक्यता असलेल्या उदयोन्मुख मिड-कॅप कंपन्यांमध्ये गुंतवणूक करतो',
+    'Opportunistic mid-cap fund for capital appreciation': 'भांडवलवाढीसाठी संधी साधणारा मिड-कॅप फंड',
+    'High-risk, high-reward fund investing in small-cap companies': 'स्मॉल-कॅप कंपन्यांत गुंतवणूक करणारा जास्त जोखीम, जास्त परताव्याचा फंड',
+    'Small-cap equity fund for aggressive long-term wealth creation': 'दीर्घकाळात वेगाने संपत्ती निर्माण करण्यासाठी स्मॉल-कॅप इक्विटी फंड',
+    'Natural fiber commodity influenced by weather, demand, and global textile industry': 'हवामान, मागणी आणि जागतिक वस्त्रोद्योगावर अवलंबून नैसर्गिक धागा कमोडिटी',
+    'Essential food grain commodity affected by climate and global food demand': 'हवामान आणि जागतिक अन्नमागणीवर अवलंबून आवश्यक धान्य कमोडिटी',
+    'West Texas Intermediate crude oil benchmark for US oil prices': 'अमेरिकन तेल किमतींचा मानदंड असलेले वेस्ट टेक्सास इंटरमीडिएट कच्चे तेल',
+    'Industrial and precious metal with dual demand from jewelry and electronics': 'दागिने आणि इलेक्ट्रॉनिक्स दोन्हीकडून मागणी असलेला औद्योगिक व मौल्यवान धातू',
+    'Clean energy commodity for heating, power generation, and industrial use': 'उष्णता, वीजनिर्मिती आणि औद्योगिक वापरासाठी स्वच्छ ऊर्जा कमोडिटी',
+    'Essential industrial metal for construction, electronics, and green energy': 'बांधकाम, इलेक्ट्रॉनिक्स आणि हरित ऊर्जेसाठी आवश्यक औद्योगिक धातू',
+    'International oil benchmark pricing two-thirds of global crude oil': 'जगातील दोन-तृतीयांश कच्च्या तेलाची किंमत ठरवणारा आंतरराष्ट्रीय मानदंड',
+    'Lightweight metal used in aerospace, automotive, and construction industries': 'एरोस्पेस, वाहन आणि बांधकाम उद्योगांत वापरला जाणारा हलका धातू',
+    'India\'s first REIT, investing in premium commercial office spaces': 'प्रीमियम व्यावसायिक ऑफिस जागांमध्ये गुंतवणूक करणारा भारतातील पहिला REIT',
+    'Premium office and business park REIT with presence across major cities': 'प्रमुख शहरांमध्ये अस्तित्व असलेला प्रीमियम ऑफिस आणि बिझनेस पार्क REIT',
+    'Most traded currency pair in India, reflects dollar strength vs rupee': 'भारतातील सर्वाधिक व्यवहार होणारी चलन जोडी, रुपयाच्या तुलनेत डॉलरची ताकत दाखवते',
+    'Exchange rate between Euro and Indian Rupee for European trade': 'युरोपीय व्यापारासाठी युरो आणि भारतीय रुपयामधील विनिमय दर',
+    'GBP to INR exchange rate for UK-India trade and investments': 'ब्रिटन-भारत व्यापार आणि गुंतवणुकीसाठी पौंड ते रुपया विनिमय दर',
+    'Indian equity stock': 'भारतीय कंपनीचा शेअर',
+    'Investment asset': 'गुंतवणूक ॲसेट',
+  },
+};
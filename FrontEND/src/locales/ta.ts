@@ -0,0 +1,292 @@
+import { LocaleBundle } from './en';
+
+export const ta: LocaleBundle = {
+  messages: {
+    'language.label': 'மொழி',
+
+    'menu.subtitle': 'ஒரு நிதி முதலீட்டுப் பயணம்',
+    'menu.solo': 'தனியாக விளையாடு',
+    'menu.multi': 'பலர் விளையாட்டு',
+
+    'common.cancel': 'ரத்து செய்',
+
+    'playerName.title': 'தனி முறை',
+    'playerName.prompt': 'விளையாட்டைத் தொடங்க உங்கள் பெயரை உள்ளிடவும்',
+    'playerName.nameLabel': 'வீரரின் பெயர்',
+    'playerName.namePlaceholder': 'உங்கள் பெயரை உள்ளிடவும்',
+    'playerName.ageLabel': 'வயது',
+    'playerName.agePlaceholder': 'உங்கள் வயதை உள்ளிடவும்',
+    'playerName.start': 'விளையாட்டைத் தொடங்கு',
+    'playerName.errorNameRequired': 'தயவுசெய்து உங்கள் பெயரை உள்ளிடவும்',
+    'playerName.errorNameShort': 'பெயரில் குறைந்தது 2 எழுத்துகள் இருக்க வேண்டும்',
+    'playerName.errorNameLong': 'பெயர் 20 எழுத்துகளுக்குக் குறைவாக இருக்க வேண்டும்',
+    'playerName.errorAgeRequired': 'தயவுசெய்து உங்கள் வயதை உள்ளிடவும்',
+    'playerName.errorAgeRange': 'வயது 10 முதல் 100 வரை இருக்க வேண்டும்',
+
+    'intro.welcome.title': 'புல் ரன்னுக்கு வரவேற்கிறோம்!',
+    'intro.welcome.description': 'நிதி அறிவை நோக்கிய உங்கள் பயணம் தொடங்குகிறது. பல்வேறு சொத்து வகைகளில் புத்திசாலித்தனமாக முதலீடு செய்து, விளையாட்டின் முடிவில் அதிக நிகர மதிப்பை உருவாக்குங்கள்.',
+    'intro.income.title': 'உங்கள் வருமானத்தைக் கண்காணியுங்கள்',
+    'intro.income.description': 'விரிவான விவரங்களுடன் உங்கள் பணப்புழக்கத்தைக் கண்காணியுங்கள். ஒவ்வொரு 6 மாதங்களுக்கும் உங்களுக்கு வழக்கமான வருமானம் கிடைக்கும் - காலப்போக்கில் உங்கள் செல்வம் வளர்வதைப் பாருங்கள்!',
+    'intro.assets.title': 'சொத்துகளைப் பற்றி அறியுங்கள்',
+    'intro.assets.description': 'எந்தச் சொத்தின் மீதும் சுட்டியை வைத்து, அந்த நிறுவனம், அதன் துறை மற்றும் அது என்ன செய்கிறது என்பதை அறியுங்கள். முதலீட்டில் அறிவே ஆற்றல்!',
+    'intro.investments.title': 'உங்கள் முதலீடுகளைக் கண்காணியுங்கள்',
+    'intro.investments.description': 'ஒவ்வொரு சொத்துக்கும் நீங்கள் முதலீடு செய்த தொகை, சராசரி வாங்கிய விலை மற்றும் லாபம்/நஷ்டத்தைப் பாருங்கள். தெளிவான முடிவுகளை எடுங்கள்!',
+    'intro.portfolio.title': 'போர்ட்ஃபோலியோ விவரம்',
+    'intro.portfolio.description': 'உங்கள் முழு போர்ட்ஃபோலியோ அமைப்பையும் CAGR (கூட்டு ஆண்டு வளர்ச்சி விகிதம்) ஐயும் பாருங்கள். பல்வகைப்படுத்தலே வெற்றிக்கான திறவுகோல்!',
+    'intro.quiz.title': 'உங்கள் அறிவைச் சோதியுங்கள்',
+    'intro.quiz.description': 'புதிய சொத்து வகைகள் திறக்கும்போது ஒரு வினாடி வினா வரும். விளையாட்டைத் தொடர சரியாகப் பதிலளியுங்கள்! புல் ரன்னில் கற்றல் பலன் தரும்.',
+    'intro.lifeEvents.title': 'வாழ்க்கை நிகழ்வுகள்',
+    'intro.lifeEvents.description': 'வாழ்க்கை நிகழ்வுகள் எல்லா வீரர்களுக்கும் தற்செயலாக உருவாகின்றன. ஒவ்வொரு வீரரும் ஒவ்வொரு அமர்விலும் விளையாட்டின் வெவ்வேறு ஆண்டுகளில் தனித்துவமான நிகழ்வுகளைச் சந்திப்பார்கள். வாழ்க்கை நேர்கோட்டில் செல்வதில்லை—உண்மை வாழ்க்கையைப் போலவே ஏற்றத்தாழ்வுகள் இரண்டையும் சந்திப்பீர்கள்!',
+    'intro.lifeEvents.positive': 'நல்ல நிகழ்வு',
+    'intro.lifeEvents.negative': 'மோசமான நிகழ்வு',
+    'intro.debt.title': 'கடன் மற்றும் வாங்குவதற்கான தடைகள்',
+    'intro.debt.description': 'ஒரு வாழ்க்கை நிகழ்வைச் சமாளிக்கப் போதுமான கையிருப்புப் பணம் இல்லையென்றால், நீங்கள் கடனில் விழுவீர்கள். கடனில் இருக்கும்போது வாங்குவதும் முதலீடு செய்வதும் பூட்டப்படும். மேலும் எதையும் வாங்கும் முன் கடனை அடைப்பதே உங்கள் முதல் வேலை!',
+    'intro.compete.title': 'போட்டியிட்டு வெல்லுங்கள்!',
+    'intro.compete.description': 'லீடர்போர்டில் உங்கள் தரவரிசையைப் பாருங்கள். மற்ற வீரர்களுடன் போட்டியிட்டு நீங்களே சிறந்த முதலீட்டாளர் என்று நிரூபியுங்கள்!',
+    'intro.ready': 'நீங்கள் தயார்!',
+    'intro.waitingMessage': 'மற்ற வீரர்கள் பயிற்சியை முடிக்கக் காத்திருக்கிறோம்...',
+    'intro.stillReading': 'இன்னும் படிக்கிறார்கள்:',
+    'intro.autoStart': 'எல்லோரும் தயாரானதும் விளையாட்டு தானாகத் தொடங்கும்',
+    'intro.goToSlide': 'ஸ்லைடு {number} க்குச் செல்',
+    'intro.next': 'அடுத்து',
+    'intro.letsPlay': 'விளையாடலாம்!',
+
+    'education.unlocked': 'திறக்கப்பட்டது',
+    'education.correct': '✓ சரியான பதில்!',
+    'education.submit': 'பதிலைச் சமர்ப்பி',
+    'education.attempts': 'முயற்சிகள்: {count}/3',
+    'education.checkNewAsset': 'விளையாட்டில் உங்கள் புதிய சொத்தைப் பாருங்கள்!',
+    'education.autoClosing': '(5 விநாடிகளில் தானாக மூடப்படும்)',
+    'education.closeNow': 'இப்போது மூடு',
+
+    'lifeEvent.dismiss': 'மூடு',
+    'lifeEvent.lossTitle': 'எதிர்பாராத செலவு',
+    'lifeEvent.gainTitle': 'நல்ல செய்தி!',
+    'lifeEvent.estimatedCost': 'மதிப்பிடப்பட்ட செலவு',
+    'lifeEvent.amountDeducted': 'கழிக்கப்பட்ட தொகை',
+    'lifeEvent.amountReceived': 'பெறப்பட்ட தொகை',
+    'lifeEvent.choicesTitle': 'இதை எப்படிச் சமாளிப்பீர்கள்?',
+    'lifeEvent.insuranceNote': 'பொருந்தும் காப்பீட்டுத் திட்டம் செலவின் ஒரு பகுதியைச் செலுத்தும்',
+    'lifeEvent.choice': 'தேர்வு:',
+    'lifeEvent.totalCost': 'மொத்தச் செலவு:',
+    'lifeEvent.insurancePaid': 'காப்பீடு செலுத்தியது:',
+    'lifeEvent.fdsBroken': 'உடைக்கப்பட்ட FD:',
+    'lifeEvent.inDebtTitle': 'நீங்கள் கடனில் இருக்கிறீர்கள்',
+    'lifeEvent.currentDebt': 'தற்போதைய கடன்: ₹{amount}',
+    'lifeEvent.sellAssets': 'கடனை அடைக்கச் சொத்துகளை விற்கவும்',
+    'lifeEvent.waitIncome': 'மாத வருமானத்திற்குக் காத்திருக்கவும்',
+    'lifeEvent.purchasesDisabled': 'எல்லா வாங்குதல்களும் தற்காலிகமாக முடக்கப்பட்டுள்ளன',
+    'lifeEvent.paymentSuccessful': 'பணம் செலுத்தப்பட்டது',
+    'lifeEvent.paymentMessage': 'உங்கள் கையிருப்புப் பணத்திலிருந்து தொகை கழிக்கப்பட்டது',
+    'lifeEvent.fundsAdded': 'தொகை சேர்க்கப்பட்டது',
+    'lifeEvent.fundsAddedMessage': 'பணம் உங்கள் கையிருப்பில் வரவு வைக்கப்பட்டது',
+    'lifeEvent.debtCleared': 'கடன் அடைக்கப்பட்டது!',
+    'lifeEvent.previousDebt': 'முந்தைய கடன்:',
+    'lifeEvent.paymentReceived': 'பெறப்பட்ட தொகை:',
+    'lifeEvent.newBalance': 'புதிய இருப்பு:',
+    'lifeEvent.debtClearedMessage': '✅ நீங்கள் இனி கடனில் இல்லை! எல்லா வாங்குதல்களும் மீண்டும் கிடைக்கும்.',
+    'lifeEvent.debtReduced': 'கடன் குறைந்தது',
+    'lifeEvent.remainingDebt': 'மீதமுள்ள கடன்:',
+    'lifeEvent.stillInDebtMessage': '⚡ நீங்கள் இன்னும் கடனில் இருக்கிறீர்கள். சொத்துகளை விற்பதைத் தொடருங்கள் அல்லது அடுத்த வருமானத்திற்குக் காத்திருங்கள்.',
+    'lifeEvent.pickOption': 'தொடர ஒரு விருப்பத்தைத் தேர்ந்தெடுக்கவும்',
+    'lifeEvent.clickDismiss': 'மூட எங்கு வேண்டுமானாலும் கிளிக் செய்யவும்',
+  },
+  quotes: [
+    'விதி எண் 1: ஒருபோதும் பணத்தை இழக்காதீர்கள். விதி எண் 2: விதி எண் 1 ஐ ஒருபோதும் மறக்காதீர்கள்.',
+    'விலை என்பது நீங்கள் கொடுப்பது. மதிப்பு என்பது நீங்கள் பெறுவது.',
+    'பங்குச் சந்தை பொறுமையற்றவர்களிடமிருந்து பொறுமையானவர்களுக்குப் பணத்தை மாற்றும் ஒரு கருவி.',
+    'நீங்கள் என்ன செய்கிறீர்கள் என்று தெரியாதபோதுதான் ஆபத்து வருகிறது.',
+    'மற்றவர்கள் பேராசைப்படும்போது பயப்படுங்கள், மற்றவர்கள் பயப்படும்போது பேராசைப்படுங்கள்.',
+    'நீங்கள் செய்யக்கூடிய சிறந்த முதலீடு உங்கள் மீதான முதலீடே.',
+    'கூட்டு வட்டி உலகின் எட்டாவது அதிசயம்.',
+    'அறிவில் செய்யும் முதலீடு சிறந்த வட்டியைத் தரும்.',
+    'செலவு செய்த பின் மீதமிருப்பதைச் சேமிக்காதீர்கள்; சேமித்த பின் மீதமிருப்பதைச் செலவு செய்யுங்கள்.',
+    'முதலீட்டில் மிக ஆபத்தான நான்கு வார்த்தைகள்: "இந்த முறை வேறு மாதிரி."',
+    'முதலீட்டில் வசதியாகத் தோன்றுவது அரிதாகவே லாபம் தரும்.',
+    'சந்தையின் நேரத்தைக் கணிப்பதைவிட சந்தையில் நீண்ட நேரம் இருப்பதே சிறந்தது.',
+    'எல்லா முட்டைகளையும் ஒரே கூடையில் வைக்காதீர்கள்.',
+    'வெற்றிகரமான வர்த்தகரின் இலக்கு சிறந்த வர்த்தகங்களைச் செய்வதே. பணம் இரண்டாம் பட்சம்.',
+    'முதலீடு என்பது பெயிண்ட் காய்வதையோ புல் வளர்வதையோ பார்ப்பது போல இருக்க வேண்டும்.',
+    'முதலீட்டாளர்கள் தாங்கள் என்ன செய்கிறோம் என்று புரியாதபோதுதான் பரந்த பல்வகைப்படுத்தல் தேவை.',
+    'தனிப்பட்ட முதலீட்டாளர் எப்போதும் ஊக வணிகராக அல்லாமல் முதலீட்டாளராகவே செயல்பட வேண்டும்.',
+    'நீங்கள் எவ்வளவு சம்பாதிக்கிறீர்கள் என்பதல்ல, எவ்வளவு வைத்திருக்கிறீர்கள் என்பதே முக்கியம்.',
+    'சில நேரங்களில் சந்தை மூச்சடைக்க வைக்கும் அளவுக்கு முட்டாள்தனமாக நடந்துகொள்கிறது.',
+    'முதலீட்டாளரின் முக்கியப் பிரச்சினை—அவரது மோசமான எதிரியும்கூட—பெரும்பாலும் அவரேதான்.',
+    'ஒவ்வொரு பங்கின் பின்னாலும் ஒரு நிறுவனம் உள்ளது. அது என்ன செய்கிறது என்பதைக் கண்டறியுங்கள்.',
+    'நீங்கள் எதை வைத்திருக்கிறீர்கள், ஏன் வைத்திருக்கிறீர்கள் என்பதை அறியுங்கள்.',
+    'வருமானம் மிகவும் முக்கியம், ஆனால் பெரிய நஷ்டத்தைத் தவிர்ப்பது அதைவிட முக்கியம்.',
+    'புத்திசாலி முதலீட்டாளர் நம்பிக்கையாளர்களுக்கு விற்று, அவநம்பிக்கையாளர்களிடமிருந்து வாங்கும் யதார்த்தவாதி.',
+  ],
+  sectors: {
+    'Information Technology': 'தகவல் தொழில்நுட்பம்',
+    'Banking & Finance': 'வங்கி மற்றும் நிதி',
+    'Financial Services': 'நிதிச் சேவைகள்',
+    'Metals & Mining': 'உலோகம் மற்றும் சுரங்கம்',
+    'Power Generation': 'மின் உற்பத்தி',
+    'Infrastructure': 'உள்கட்டமைப்பு',
+    'Index Fund - ETF': 'குறியீட்டு நிதி - ETF',
+    'Automotive': 'வாகனத் துறை',
+    'FMCG': 'FMCG (அன்றாடப் பயன்பாட்டுப் பொருட்கள்)',
+    'Diversified': 'பல்வகை',
+    'Telecommunications': 'தொலைத்தொடர்பு',
+    'Technology': 'தொழில்நுட்பம்',
+    'Precious Metals': 'விலைமதிப்புள்ள உலோகங்கள்',
+    'Mutual Fund - Large Cap': 'பரஸ்பர நிதி - லார்ஜ் கேப்',
+    'Mutual Fund - Mid Cap': 'பரஸ்பர நிதி - மிட் கேப்',
+    'Mutual Fund - Small Cap': 'பரஸ்பர நிதி - ஸ்மால் கேப்',
+    'Foreign Exchange': 'அந்நியச் செலாவணி',
+    'Energy Commodity': 'எரிசக்திப் பொருள்',
+    'Conglomerate': 'கூட்டு நிறுவனம்',
+    'Textiles': 'ஜவுளி',
+    'Telecommunications Equipment': 'தொலைத்தொடர்பு உபகரணங்கள்',
+    'Renewable Energy': 'புதுப்பிக்கத்தக்க எரிசக்தி',
+    'Real Estate Investment Trust': 'ரியல் எஸ்டேட் முதலீட்டு அறக்கட்டளை',
+    'Oil & Gas': 'எண்ணெய் மற்றும் எரிவாயு',
+    'Media & Entertainment': 'ஊடகம் மற்றும் பொழுதுபோக்கு',
+    'Industrial Metal': 'தொழில்துறை உலோகம்',
+    'Digital Marketing': 'டிஜிட்டல் மார்க்கெட்டிங்',
+    'Defense & Aerospace': 'பாதுகாப்பு மற்றும் விண்வெளி',
+    'Cryptocurrency': 'கிரிப்டோகரன்சி',
+    'Chemicals': 'ரசாயனங்கள்',
+    'Agricultural Commodity': 'விவசாயப் பொருள்',
+    'Travel & Hospitality': 'பயணம் மற்றும் விருந்தோம்பல்',
+    'Retail': 'சில்லறை வணிகம்',
+    'Real Estate': 'ரியல் எஸ்டேட்',
+    'Power Transmission': 'மின் பகிர்மானம்',
+    'Power & Utilities': 'மின்சாரம் மற்றும் பயன்பாட்டுச் சேவைகள்',
+    'Pharmaceuticals': 'மருந்துத் துறை',
+    'Paints & Coatings': 'வண்ணப்பூச்சுகள்',
+    'Investment': 'முதலீடு',
+    'Insurance': 'காப்பீடு',
+    'Healthcare': 'சுகாதாரம்',
+    'Financial Technology': 'ஃபின்டெக்',
+    'Consumer Durables': 'நுகர்வோர் நீடித்த பொருட்கள்',
+    'Cement': 'சிமெண்ட்',
+    'Aviation': 'விமானப் போக்குவரத்து',
+  },
+  assetDescriptions: {
+    'Largest IT services and consulting company in India': 'இந்தியாவின் மிகப்பெரிய IT சேவை மற்றும் ஆலோசனை நிறுவனம்',
+    'Global leader in consulting, technology, and outsourcing solutions': 'ஆலோசனை, தொழில்நுட்பம், அவுட்சோர்சிங் சேவைகளில் உலகளாவிய முன்னோடி',
+    'Leading IT services, consulting, and business process services company': 'IT சேவை, ஆலோசனை, வணிகச் செயல்முறைச் சேவைகளின் முன்னணி நிறுவனம்',
+    'Global IT services company specializing in digital transformation': 'டிஜிட்டல் மாற்றத்தில் சிறப்புப் பெற்ற உலகளாவிய IT சேவை நிறுவனம்',
+    'Leading IT services and consulting provider with telecom expertise': 'தொலைத்தொடர்பு நிபுணத்துவம் கொண்ட முன்னணி IT சேவை மற்றும் ஆலோசனை நிறுவனம்',
+    'India\'s largest private sector bank by assets': 'சொத்து மதிப்பில் இந்தியாவின் மிகப்பெரிய தனியார் வங்கி',
+    'Second largest private sector bank in India': 'இந்தியாவின் இரண்டாவது பெரிய தனியார் வங்கி',
+    'Largest public sector bank in India with nationwide presence': 'நாடு முழுவதும் இயங்கும் இந்தியாவின் மிகப்பெரிய பொதுத்துறை வங்கி',
+    'Third largest private sector bank in India': 'இந்தியாவின் மூன்றாவது பெரிய தனியார் வங்கி',
+    'Leading private sector bank with diverse financial services': 'பல்வேறு நிதிச் சேவைகள் கொண்ட முன்னணி தனியார் வங்கி',
+    'New generation private sector bank with innovative banking solutions': 'புதுமையான வங்கிச் சேவைகள் கொண்ட புதிய தலைமுறைத் தனியார் வங்கி',
+    'Public sector bank with pan-India presence and international operations': 'இந்தியா முழுவதும் மற்றும் வெளிநாடுகளிலும் இயங்கும் பொதுத்துறை வங்கி',
+    'Private sector bank that faced crisis in 2020, now recovering': '2020-இல் நெருக்கடியைச் சந்தித்து, இப்போது மீண்டு வரும் தனியார் வங்கி',
+    'Leading non-banking financial company in consumer finance': 'நுகர்வோர் கடனில் முன்னணி வங்கிசாரா நிதி நிறுவனம்',
+    'Diversified financial services holding company': 'பல்வகை நிதிச் சேவைகளின் ஹோல்டிங் நிறுவனம்',
+    'Leading private life insurance company in India': 'இந்தியாவின் முன்னணி தனியார் ஆயுள் காப்பீட்டு நிறுவனம்',
+    'Leading commercial vehicle financing company': 'வணிக வாகனங்களுக்குக் கடன் வழங்கும் முன்னணி நிறுவனம்',
+    'Diversified conglomerate in energy, petrochemicals, retail, and telecom': 'எரிசக்தி, பெட்ரோகெமிக்கல்ஸ், சில்லறை வணிகம், தொலைத்தொடர்பில் இயங்கும் கூட்டு நிறுவனம்',
+    'India\'s largest crude oil and natural gas exploration company': 'இந்தியாவின் மிகப்பெரிய கச்சா எண்ணெய் மற்றும் இயற்கை எரிவாயு ஆய்வு நிறுவனம்',
+    'Largest power generation company in India': 'இந்தியாவின் மிகப்பெரிய மின் உற்பத்தி நிறுவனம்',
+    'Central transmission utility responsible for national power grid': 'தேசிய மின் தொகுப்பை நிர்வகிக்கும் மத்திய மின் பகிர்மான நிறுவனம்',
+    'Largest state-owned natural gas processing and distribution company': 'இயற்கை எரிவாயு பதப்படுத்தல் மற்றும் விநியோகத்தில் மிகப்பெரிய அரசு நிறுவனம்',
+    'Largest passenger car manufacturer in India': 'இந்தியாவின் மிகப்பெரிய பயணிகள் கார் உற்பத்தியாளர்',
+    'Leading manufacturer of tractors, utility vehicles, and commercial vehicles': 'டிராக்டர், பயன்பாட்டு வாகனங்கள், வணிக வாகனங்களின் முன்னணி உற்பத்தியாளர்',
+    'Leading manufacturer of motorcycles and three-wheelers': 'மோட்டார் சைக்கிள் மற்றும் மூன்று சக்கர வாகனங்களின் முன்னணி உற்பத்தியாளர்',
+    'World\'s largest manufacturer of motorcycles and scooters': 'மோட்டார் சைக்கிள் மற்றும் ஸ்கூட்டர்களின் உலகின் மிகப்பெரிய உற்பத்தியாளர்',
+    'Major commercial vehicle manufacturer specializing in trucks and buses': 'லாரி மற்றும் பேருந்துகளில் சிறப்புப் பெற்ற முக்கிய வணிக வாகன உற்பத்தியாளர்',
+    'India\'s largest FMCG company with iconic consumer brands': 'பிரபல நுகர்வோர் பிராண்டுகள் கொண்ட இந்தியாவின் மிகப்பெரிய FMCG நிறுவனம்',
+    'Diversified conglomerate in FMCG, hotels, paperboards, and agri-business': 'FMCG, ஹோட்டல்கள், காகித அட்டை, வேளாண் வணிகத்தில் இயங்கும் கூட்டு நிறுவனம்',
+    'Leading food and beverage company with brands like Maggi and Nescafé': 'மேகி, நெஸ்கஃபே போன்ற பிராண்டுகள் கொண்ட முன்னணி உணவு மற்றும் பான நிறுவனம்',
+    'Leading consumer goods company with brands like Tata Tea and Tata Salt': 'டாடா டீ, டாடா உப்பு போன்ற பிராண்டுகள் கொண்ட முன்னணி நுகர்வோர் பொருள் நிறுவனம்',
+    'Leading manufacturer of watches, jewelry, and eyewear': 'கைக்கடிகாரங்கள், நகைகள், மூக்குக்கண்ணாடிகளின் முன்னணி உற்பத்தியாளர்',
+    'Largest paint company in India with pan-Asia presence': 'ஆசியா முழுவதும் இயங்கும் இந்தியாவின் மிகப்பெரிய பெயிண்ட் நிறுவனம்',
+    'Leading retail chain operating Westside, Zudio, and Star stores': 'வெஸ்ட்சைட், ஜூடியோ, ஸ்டார் கடைகளை நடத்தும் முன்னணி சில்லறை வணிகச் சங்கிலி',
+    'D2C beauty and personal care brand company (Mamaearth, The Derma Co)': 'நேரடியாக வாடிக்கையாளருக்கு விற்கும் அழகு மற்றும் தனிநபர் பராமரிப்பு பிராண்ட் நிறுவனம் (மாமாஎர்த், தி டெர்மா கோ)',
+    'India\'s largest integrated steel producer': 'இந்தியாவின் மிகப்பெரிய ஒருங்கிணைந்த எஃகு உற்பத்தியாளர்',
+    'India\'s leading integrated steel manufacturer': 'இந்தியாவின் முன்னணி ஒருங்கிணைந்த எஃகு உற்பத்தியாளர்',
+    'Leading aluminum and copper manufacturer in India': 'இந்தியாவின் முன்னணி அலுமினியம் மற்றும் தாமிர உற்பத்தியாளர்',
+    'Public sector copper mining and smelting company': 'தாமிரச் சுரங்கம் மற்றும் உருக்கும் பொதுத்துறை நிறுவனம்',
+    'India\'s largest pharmaceutical company by market cap': 'சந்தை மதிப்பில் இந்தியாவின் மிகப்பெரிய மருந்து நிறுவனம்',
+    'India\'s leading integrated healthcare services provider': 'இந்தியாவின் முன்னணி ஒருங்கிணைந்த சுகாதாரச் சேவை வழங்குநர்',
+    'Leading engineering, construction, and technology conglomerate': 'பொறியியல், கட்டுமானம், தொழில்நுட்பத்தில் முன்னணி கூட்டு நிறுவனம்',
+    'Largest cement manufacturer in India': 'இந்தியாவின் மிகப்பெரிய சிமெண்ட் உற்பத்தியாளர்',
+    'Flagship company of Aditya Birla Group in cement and chemicals': 'சிமெண்ட் மற்றும் ரசாயனங்களில் ஆதித்ய பிர்லா குழுமத்தின் முதன்மை நிறுவனம்',
+    'Leading highway infrastructure developer and toll road operator': 'நெடுஞ்சாலை அமைக்கும் மற்றும் சுங்கச் சாலைகளை இயக்கும் முன்னணி நிறுவனம்',
+    'India\'s second largest telecom operator with global presence': 'உலகளாவிய இருப்பு கொண்ட இந்தியாவின் இரண்டாவது பெரிய தொலைத்தொடர்பு நிறுவனம்',
+    'Telecom operator struggling with debt and market share loss': 'கடன் மற்றும் சந்தைப் பங்கு இழப்புடன் போராடும் தொலைத்தொடர்பு நிறுவனம்',
+    'Public sector telecom infrastructure provider leveraging railway networks': 'ரயில்வே வலையமைப்பைப் பயன்படுத்தும் பொதுத்துறை தொலைத்தொடர்பு உள்கட்டமைப்பு நிறுவனம்',
+    'Flagship company of Adani Group in infrastructure and commodities': 'உள்கட்டமைப்பு மற்றும் பொருட்களில் அதானி குழுமத்தின் முதன்மை நிறுவனம்',
+    'Largest private sector port and logistics company in India': 'இந்தியாவின் மிகப்பெரிய தனியார் துறைமுக மற்றும் சரக்குப் போக்குவரத்து நிறுவனம்',
+    'Real estate development company focused on residential and commercial projects': 'குடியிருப்பு மற்றும் வணிகத் திட்டங்களில் கவனம் செலுத்தும் ரியல் எஸ்டேட் நிறுவனம்',
+    'Private thermal power generation company': 'தனியார் அனல் மின் உற்பத்தி நிறுவனம்',
+    'Power generation company with execution challenges': 'திட்டங்களைச் செயல்படுத்துவதில் சவால்களைச் சந்திக்கும் மின் உற்பத்தி நிறுவனம்',
+    'Power generation company with hydroelectric and thermal projects': 'நீர் மின் மற்றும் அனல் மின் திட்டங்கள் கொண்ட மின் உற்பத்தி நிறுவனம்',
+    'Independent power producer with thermal power plants': 'அனல் மின் நிலையங்கள் கொண்ட சுயாதீன மின் உற்பத்தியாளர்',
+    'Integrated power utility company serving Kolkata and surrounding areas': 'கொல்கத்தா மற்றும் சுற்றுப் பகுதிகளுக்குச் சேவை செய்யும் ஒருங்கிணைந்த மின் நிறுவனம்',
+    'State-owned aerospace and defense electronics company': 'விண்வெளி மற்றும் பாதுகாப்பு மின்னணுவியல் அரசு நிறுவனம்',
+    'Precision engineering solutions for nuclear, space, and defense sectors': 'அணுசக்தி, விண்வெளி, பாதுகாப்புத் துறைகளுக்கான துல்லியப் பொறியியல் சேவைகள்',
+    'Leading media and entertainment company with TV channels and digital platforms': 'தொலைக்காட்சி அலைவரிசைகள் மற்றும் டிஜிட்டல் தளங்கள் கொண்ட முன்னணி ஊடக நிறுவனம்',
+    'Direct-to-home satellite television service provider': 'டைரக்ட்-டு-ஹோம் செயற்கைக்கோள் தொலைக்காட்சிச் சேவை வழங்குநர்',
+    'India\'s largest airline by market share and fleet size': 'சந்தைப் பங்கு மற்றும் விமான எண்ணிக்கையில் இந்தியாவின் மிகப்பெரிய விமான நிறுவனம்',
+    'Online travel company offering flight, hotel, and holiday bookings': 'விமானம், ஹோட்டல், விடுமுறைப் பயண முன்பதிவு வழங்கும் இணையப் பயண நிறுவனம்',
+    'Digital payments and financial services platform': 'டிஜிட்டல் பணப்பரிமாற்றம் மற்றும் நிதிச் சேவைத் தளம்',
+    'Cybersecurity solutions provider for individuals and enterprises': 'தனிநபர்கள் மற்றும் நிறுவனங்களுக்கான இணையப் பாதுகாப்புச் சேவை வழங்குநர்',
+    'IT services company specializing in cloud and data solutions': 'கிளவுட் மற்றும் தரவுச் சேவைகளில் சிறப்புப் பெற்ற IT சேவை நிறுவனம்',
+    'Wind turbine manufacturer facing financial challenges': 'நிதிச் சவால்களைச் சந்திக்கும் காற்றாலை உற்பத்தியாளர்',
+    'Solar cell and module manufacturing company': 'சூரிய மின்கலம் மற்றும் மாட்யூல் உற்பத்தி நிறுவனம்',
+    'Housing finance company providing home loans and related services': 'வீட்டுக் கடன் மற்றும் தொடர்புடைய சேவைகள் வழங்கும் வீட்டு நிதி நிறுவனம்',
+    'Non-banking finance company focused on SME and vehicle financing': 'சிறு தொழில் மற்றும் வாகனக் கடனில் கவனம் செலுத்தும் வங்கிசாரா நிதி நிறுவனம்',
+    'Gold loan and microfinance services provider': 'நகைக் கடன் மற்றும் நுண்நிதிச் சேவை வழங்குநர்',
+    'Discount brokerage and online trading platform': 'தள்ளுபடி தரகு மற்றும் இணைய வர்த்தகத் தளம்',
+    'Small finance bank focused on microfinance and inclusive banking': 'நுண்நிதி மற்றும் அனைவருக்குமான வங்கிச் சேவையில் கவனம் செலுத்தும் சிறு நிதி வங்கி',
+    'Manufacturer and exporter of home furnishing textiles': 'வீட்டு அலங்கார ஜவுளிகளின் உற்பத்தியாளர் மற்றும் ஏற்றுமதியாளர்',
+    'Leading manufacturer of home textiles, yarn, and paper products': 'வீட்டு ஜவுளி, நூல், காகிதப் பொருட்களின் முன்னணி உற்பத்தியாளர்',
+    'Specialty chemicals manufacturer for pigments and dyes': 'நிறமிகள் மற்றும் சாயங்களுக்கான சிறப்பு ரசாயன உற்பத்தியாளர்',
+    'Agrochemical and specialty chemical manufacturing company': 'வேளாண் ரசாயனம் மற்றும் சிறப்பு ரசாயன உற்பத்தி நிறுவனம்',
+    'Infrastructure development company in power, airports, and energy sectors': 'மின்சாரம், விமான நிலையங்கள், எரிசக்தித் துறைகளில் உள்கட்டமைப்பு மேம்பாட்டு நிறுவனம்',
+    'Diversified company with interests in drones, e-vehicles, and fintech': 'ட்ரோன்கள், மின் வாகனங்கள், ஃபின்டெக்கில் ஈடுபடும் பல்வகை நிறுவனம்',
+    'Satellite and telecom infrastructure services provider': 'செயற்கைக்கோள் மற்றும் தொலைத்தொடர்பு உள்கட்டமைப்புச் சேவை வழங்குநர்',
+    'Digital advertising and marketing technology company': 'டிஜிட்டல் விளம்பரம் மற்றும் மார்க்கெட்டிங் தொழில்நுட்ப நிறுவனம்',
+    'Programmatic advertising and marketing technology company': 'புரோகிராமேடிக் விளம்பரம் மற்றும் மார்க்கெட்டிங் தொழில்நுட்ப நிறுவனம்',
+    'Technology company providing banking and retail solutions': 'வங்கி மற்றும் சில்லறை வணிகச் சேவைகள் வழங்கும் தொழில்நுட்ப நிறுவனம்',
+    'Technology enterprise providing telecom and defense equipment solutions': 'தொலைத்தொடர்பு மற்றும் பாதுகாப்பு உபகரணச் சேவைகள் வழங்கும் தொழில்நுட்ப நிறுவனம்',
+    'Provider of telecom analytics and revenue assurance solutions': 'தொலைத்தொடர்புப் பகுப்பாய்வு மற்றும் வருவாய் உறுதிச் சேவை வழங்குநர்',
+    'IT consulting and solutions company specializing in digital transformation': 'டிஜிட்டல் மாற்றத்தில் சிறப்புப் பெற்ற IT ஆலோசனை மற்றும் சேவை நிறுவனம்',
+    'Public sector telecom equipment manufacturer and IT solutions provider': 'பொதுத்துறை தொலைத்தொடர்பு உபகரண உற்பத்தியாளர் மற்றும் IT சேவை வழங்குநர்',
+    'Foreign exchange and money transfer service provider': 'அந்நியச் செலாவணி மற்றும் பணப் பரிமாற்றச் சேவை வழங்குநர்',
+    'Battery and electrical equipment manufacturer': 'பேட்டரி மற்றும் மின் உபகரண உற்பத்தியாளர்',
+    'Technology and IT infrastructure provider': 'தொழில்நுட்பம் மற்றும் IT உள்கட்டமைப்பு வழங்குநர்',
+    'Manufacturer of welded tubes and pipes': 'பற்றவைக்கப்பட்ட குழாய்களின் உற்பத்தியாளர்',
+    'Pioneer in infrastructure development and construction': 'உள்கட்டமைப்பு மேம்பாடு மற்றும் கட்டுமானத்தில் முன்னோடி',
+    'Metallurgical coke and chemicals manufacturer': 'உலோகவியல் கோக் மற்றும் ரசாயன உற்பத்தியாளர்',
+    'Traditional gold investment with intrinsic value and inflation hedge properties': 'உள்ளார்ந்த மதிப்பும் பணவீக்கப் பாதுகாப்பும் கொண்ட பாரம்பரியத் தங்க முதலீடு',
+    'Modern way to invest in gold with 24K purity, backed by physical gold reserves': 'உண்மையான தங்கக் கையிருப்பின் ஆதரவுடன் 24K தூய்மையில் தங்கத்தில் முதலீடு செய்யும் நவீன வழி',
+    'First and largest cryptocurrency, decentralized digital currency and store of value': 'முதல் மற்றும் மிகப்பெரிய கிரிப்டோகரன்சி, பரவலாக்கப்பட்ட டிஜிட்டல் நாணயம் மற்றும் மதிப்புச் சேமிப்பு',
+    'Leading smart contract platform and second largest cryptocurrency by market cap': 'முன்னணி ஸ்மார்ட் ஒப்பந்தத் தளம், சந்தை மதிப்பில் இரண்டாவது பெரிய கிரிப்டோகரன்சி',
+    'India\'s first ETF tracking Nifty 50 index with low expense ratio': 'குறைந்த செலவு விகிதத்துடன் நிஃப்டி 50-ஐப் பின்பற்றும் இந்தியாவின் முதல் ETF',
+    'Exchange-traded fund tracking top 50 large-cap Indian companies': 'முன்னணி 50 பெரிய இந்திய நிறுவனங்களைப் பின்பற்றும் பரிமாற்ற வர்த்தக நிதி',
+    'Passive investment fund mirroring Nifty 50 performance': 'நிஃப்டி 50 செயல்பாட்டைப் பிரதிபலிக்கும் செயலற்ற முதலீட்டு நிதி',
+    'Low-cost index fund for diversified large-cap exposure': 'பல்வகைப் பெரிய நிறுவன முதலீட்டுக்கான குறைந்த செலவுக் குறியீட்டு நிதி',
+    'Tracks Nifty Next 50 index featuring emerging blue-chip companies': 'வளர்ந்து வரும் புளூ-சிப் நிறுவனங்கள் கொண்ட நிஃப்டி நெக்ஸ்ட் 50 குறியீட்டைப் பின்பற்றுகிறது',
+    'Actively managed large-cap equity fund focusing on established companies': 'நிலைபெற்ற நிறுவனங்களில் கவனம் செலுத்தும், செயல்பாட்டு முறையில் நிர்வகிக்கப்படும் லார்ஜ்-கேப் நிதி',
+    'Large-cap fund investing in fundamentally strong market leaders': 'அடிப்படையில் வலுவான சந்தை முன்னோடிகளில் முதலீடு செய்யும் லார்ஜ்-கேப் நிதி',
+    'Mid-cap focused fund targeting high-growth potential companies': 'அதிக வளர்ச்சி வாய்ப்புள்ள நிறுவனங்களை இலக்காகக் கொண்ட மிட்-கேப் நிதி',
+    'Invests in emerging mid-cap companies with strong growth prospects': 'வலுவான வளர்ச்சி வாய்ப்புள்ள வளர்ந்து வரும் மிட்-கேப் நிறுவனங்களில் முதலீடு செய்கிறது',
+    'Opportunistic mid-cap fund for capital appreciation': 'மூலதன வளர்ச்சிக்காக வாய்ப்புகளைப் பயன்படுத்தும் மிட்-கேப் நிதி',
+    'High-risk, high-reward fund investing in small-cap companies': 'ஸ்மால்-கேப் நிறுவனங்களில் முதலீடு செய்யும் அதிக அபாய, அதிக வருமான நிதி',
+    'Small-cap equity fund for aggressive long-term wealth creation': 'நீண்டகாலத்தில் வேகமாகச் செல்வம் சேர்க்கும் ஸ்மால்-கேப் பங்கு நிதி',
+    'Natural fiber commodity influenced by weather, demand, and global textile industry': 'வானிலை, தேவை, உலக ஜவுளித் துறையால் பாதிக்கப்படும் இயற்கை இழைப் பொருள்',
+    'Essential food grain commodity affected by climate and global food demand': 'காலநிலை மற்றும் உலக உணவுத் தேவையால் பாதிக்கப்படும் அத்தியாவசிய தானியப் பொருள்',
+    'West Texas Intermediate crude oil benchmark for US oil prices': 'அமெரிக்க எண்ணெய் விலைக்கான அளவுகோலான வெஸ்ட் டெக்சாஸ் இன்டர்மீடியட் கச்சா எண்ணெய்',
+    'Industrial and precious metal with dual demand from jewelry and electronics': 'நகை மற்றும் மின்னணுவியல் இரண்டிலும் தேவையுள்ள தொழில்துறை மற்றும் விலைமதிப்புள்ள உலோகம்',
+    'Clean energy commodity for heating, power generation, and industrial use': 'வெப்பமூட்டல், மின் உற்பத்தி, தொழில்துறைப் பயன்பாட்டுக்கான தூய்மையான எரிசக்திப் பொருள்',
+    'Essential industrial metal for construction, electronics, and green energy': 'கட்டுமானம், மின்னணுவியல், பசுமை எரிசக்திக்கு அவசியமான தொழில்துறை உலோகம்',
+    'International oil benchmark pricing two-thirds of global crude oil': 'உலகக் கச்சா எண்ணெயில் மூன்றில் இரண்டு பங்கின் விலையை நிர்ணயிக்கும் சர்வதேச அளவுகோல்',
+    'Lightweight metal used in aerospace, automotive, and construction industries': 'விண்வெளி, வாகன, கட்டுமானத் துறைகளில் பயன்படும் இலகுரக உலோகம்',
+    'India\'s first REIT, investing in premium commercial office spaces': 'உயர்தர வணிக அலுவலக இடங்களில் முதலீடு செய்யும் இந்தியாவின் முதல் REIT',
+    'Premium office and business park REIT with presence across major cities': 'முக்கிய நகரங்களில் இயங்கும் உயர்தர அலுவலக மற்றும் வணிகப் பூங்கா REIT',
+    'Most traded currency pair in India, reflects dollar strength vs rupee': 'இந்தியாவில் அதிகம் வர்த்தகமாகும் நாணய ஜோடி, ரூபாய்க்கு எதிரான டாலரின் வலிமையைக் காட்டுகிறது',
+    'Exchange rate between Euro and Indian Rupee for European trade': 'ஐரோப்பிய வர்த்தகத்துக்கான யூரோ மற்றும் இந்திய ரூபாய் இடையிலான மாற்று விகிதம்',
+    'GBP to INR exchange rate for UK-India trade and investments': 'பிரிட்டன்-இந்தியா வர்த்தகம் மற்றும் முதலீட்டுக்கான பவுண்ட்-ரூபாய் மாற்று விகிதம்',
+    'Indian equity stock': 'இந்திய நிறுவனப் பங்கு',
+    'Investment asset': 'முதலீட்டுச் சொத்து',
+  },
+};
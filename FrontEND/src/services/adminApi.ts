@@ -1,4 +1,5 @@
-import { AdminSettings } from '../types';
+import { AdminSettings, BenchmarkResult, Language, LifeEventTemplate, LifeEventTranslation, QuizResult } from '../types';
+import { AssetEducationContent, QuizQuestion, QuizQuestionTranslation, QuizBankTranslations } from '../utils/assetEducation';
 import { getServerUrl } from '../utils/getServerUrl';
 
 // Use runtime override -> build env -> inferred from page hostname
@@ -41,6 +42,18 @@ export interface SettingsResponse {
   message?: string;
 }
 
+export interface FDRateRow {
+  year: number;
+  tenureMonths: number;
+  rate: number;
+}
+
+export interface FDRatesResponse {
+  success: boolean;
+  rates?: FDRateRow[];
+  message?: string;
+}
+
 /**
  * Admin Authentication API
  */
@@ -152,6 +165,253 @@ export const adminSettingsApi = {
   },
 };
 
+/**
+ * FD Rates API
+ */
+export const fdRatesApi = {
+  /**
+   * Get every FD rate row
+   */
+  async getRates(): Promise<FDRatesResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/fd-rates`);
+      return await response.json();
+    } catch (error) {
+      console.error('Get FD rates error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  /**
+   * Add or update the rate for a year and tenure
+   */
+  async saveRate(row: FDRateRow): Promise<ApiResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/fd-rates`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(row),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Save FD rate error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  /**
+   * Delete the rate for a year and tenure
+   */
+  async deleteRate(year: number, tenureMonths: number): Promise<ApiResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/fd-rates`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, tenureMonths }),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Delete FD rate error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+};
+
+export type TransferFormat = 'json' | 'csv';
+
+export interface LifeEventTemplatesResponse {
+  success: boolean;
+  templates?: LifeEventTemplate[];
+  message?: string;
+}
+
+export interface QuizBankResponse {
+  success: boolean;
+  categories?: AssetEducationContent[];
+  message?: string;
+}
+
+export interface LifeEventTranslationsResponse {
+  success: boolean;
+  translations?: { [eventId: number]: LifeEventTranslation };
+  message?: string;
+}
+
+export interface QuizBankTranslationsResponse {
+  success: boolean;
+  translations?: QuizBankTranslations;
+  message?: string;
+}
+
+/**
+ * Download an export file as text; server errors come back as JSON
+ */
+async function fetchExport(path: string, format: TransferFormat): Promise<{ success: boolean; content?: string; message?: string }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}?format=${format}`);
+    if (!response.ok) {
+      return await response.json();
+    }
+    return { success: true, content: await response.text() };
+  } catch (error) {
+    console.error('Export error:', error);
+    return { success: false, message: 'Failed to connect to server' };
+  }
+}
+
+async function sendJson(path: string, method: string, body?: unknown): Promise<ApiResponse & { id?: number }> {
+  try {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    return await response.json();
+  } catch (error) {
+    console.error(`${method} ${path} error:`, error);
+    return { success: false, message: 'Failed to connect to server' };
+  }
+}
+
+/**
+ * Life Event Pool API
+ */
+export const lifeEventPoolApi = {
+  /**
+   * Get every life event template, including disabled ones
+   */
+  async getTemplates(): Promise<LifeEventTemplatesResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/life-events`);
+      return await response.json();
+    } catch (error) {
+      console.error('Get life events error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  /**
+   * Add a template, or update it when it has an id
+   */
+  async saveTemplate(template: LifeEventTemplate): Promise<ApiResponse & { id?: number }> {
+    const { id, ...fields } = template;
+    return id
+      ? sendJson(`/api/admin/life-events/${id}`, 'PUT', fields)
+      : sendJson('/api/admin/life-events', 'POST', fields);
+  },
+
+  async deleteTemplate(id: number): Promise<ApiResponse> {
+    return sendJson(`/api/admin/life-events/${id}`, 'DELETE');
+  },
+
+  async exportTemplates(format: TransferFormat): Promise<{ success: boolean; content?: string; message?: string }> {
+    return fetchExport('/api/admin/life-events/export', format);
+  },
+
+  /**
+   * Import a JSON or CSV file; replace drops the current pool first
+   */
+  async importTemplates(format: TransferFormat, content: string, replace: boolean): Promise<ApiResponse> {
+    return sendJson('/api/admin/life-events/import', 'POST', { format, content, replace });
+  },
+
+  /**
+   * Get the translations stored for a language, keyed by template id
+   */
+  async getTranslations(language: Language): Promise<LifeEventTranslationsResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/life-events/translations/${language}`);
+      return await response.json();
+    } catch (error) {
+      console.error('Get life event translations error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  async saveTranslation(id: number, language: Language, translation: LifeEventTranslation): Promise<ApiResponse> {
+    return sendJson(`/api/admin/life-events/${id}/translations/${language}`, 'PUT', translation);
+  },
+
+  async deleteTranslation(id: number, language: Language): Promise<ApiResponse> {
+    return sendJson(`/api/admin/life-events/${id}/translations/${language}`, 'DELETE');
+  },
+};
+
+/**
+ * Quiz Bank API
+ */
+export const quizBankApi = {
+  /**
+   * Get every category with all its questions, including disabled ones
+   */
+  async getQuizBank(): Promise<QuizBankResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/quiz-bank`);
+      return await response.json();
+    } catch (error) {
+      console.error('Get quiz bank error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  async saveCategory(category: string, title: string, description: string): Promise<ApiResponse> {
+    return sendJson(`/api/admin/quiz-bank/categories/${encodeURIComponent(category)}`, 'PUT', { title, description });
+  },
+
+  /**
+   * Add a question, or update it when it has an id
+   */
+  async saveQuestion(category: string, question: QuizQuestion): Promise<ApiResponse & { id?: number }> {
+    const { id, ...fields } = question;
+    return id
+      ? sendJson(`/api/admin/quiz-bank/questions/${id}`, 'PUT', { ...fields, category })
+      : sendJson('/api/admin/quiz-bank/questions', 'POST', { ...fields, category });
+  },
+
+  async deleteQuestion(id: number): Promise<ApiResponse> {
+    return sendJson(`/api/admin/quiz-bank/questions/${id}`, 'DELETE');
+  },
+
+  async exportQuizBank(format: TransferFormat): Promise<{ success: boolean; content?: string; message?: string }> {
+    return fetchExport('/api/admin/quiz-bank/export', format);
+  },
+
+  /**
+   * Import a JSON or CSV file; replace drops the existing questions of each imported category
+   */
+  async importQuizBank(format: TransferFormat, content: string, replace: boolean): Promise<ApiResponse> {
+    return sendJson('/api/admin/quiz-bank/import', 'POST', { format, content, replace });
+  },
+
+  /**
+   * Get the category intros and questions stored for a language
+   */
+  async getTranslations(language: Language): Promise<QuizBankTranslationsResponse> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/admin/quiz-bank/translations/${language}`);
+      return await response.json();
+    } catch (error) {
+      console.error('Get quiz bank translations error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
+
+  async saveCategoryTranslation(category: string, language: Language, title: string, description: string): Promise<ApiResponse> {
+    return sendJson(`/api/admin/quiz-bank/categories/${encodeURIComponent(category)}/translations/${language}`, 'PUT', { title, description });
+  },
+
+  async saveQuestionTranslation(id: number, language: Language, translation: QuizQuestionTranslation): Promise<ApiResponse> {
+    return sendJson(`/api/admin/quiz-bank/questions/${id}/translations/${language}`, 'PUT', translation);
+  },
+
+  async deleteQuestionTranslation(id: number, language: Language): Promise<ApiResponse> {
+    return sendJson(`/api/admin/quiz-bank/questions/${id}/translations/${language}`, 'DELETE');
+  },
+};
+
 /**
  * Player Logs API
  */
@@ -170,6 +430,7 @@ export const playerLogsApi = {
     portfolioBreakdown: any;
     adminSettings: AdminSettings;
     gameDurationMinutes?: number;
+    quizResults?: QuizResult[];
   }): Promise<ApiResponse & { logId?: number; uniqueId?: string }> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/game/log`, {
@@ -215,7 +476,7 @@ export const playerLogsApi = {
   /**
    * Get player statistics
    */
-  async getStats(playerName?: string): Promise<{ success: boolean; stats?: any; message?: string }> {
+  async getStats(playerName?: string): Promise<{ success: boolean; stats?: any; quizStats?: any; quizLeaderboard?: any[]; message?: string }> {
     try {
       const params = new URLSearchParams();
       if (playerName) params.append('playerName', playerName);
@@ -227,6 +488,27 @@ export const playerLogsApi = {
       return { success: false, message: 'Failed to connect to server' };
     }
   },
+
+  /**
+   * Replay the game's cash flows against passive benchmark portfolios
+   */
+  async getBenchmarks(params: {
+    adminSettings: AdminSettings;
+    lifeEvents: Array<{ gameYear: number; gameMonth: number; amount: number }>;
+  }): Promise<{ success: boolean; benchmarks?: BenchmarkResult[]; message?: string }> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/game/benchmarks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+      });
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get benchmarks error:', error);
+      return { success: false, message: 'Failed to connect to server' };
+    }
+  },
 };
 
 /**
@@ -246,3 +528,37 @@ export async function fetchFinalLeaderboard(roomId: string): Promise<FinalLeader
   }
 }
 
+
+/**
+ * Life event pool used to generate solo events (same pool the server draws from)
+ * Returns an empty list on failure - solo games then run without life events
+ */
+export async function fetchLifeEventPool(language?: Language): Promise<LifeEventTemplate[]> {
+  try {
+    const query = language ? `?language=${language}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/game/life-events/pool${query}`);
+    if (!response.ok) return [];
+    const data: { success: boolean; data?: LifeEventTemplate[] } = await response.json();
+    return data.success && data.data ? data.data : [];
+  } catch (error) {
+    console.error('fetchLifeEventPool error:', error);
+    return [];
+  }
+}
+
+/**
+ * Asset intros and enabled quiz questions keyed by category
+ * Returns null on failure so callers keep the bank they already have
+ */
+export async function fetchQuizBank(language?: Language): Promise<{ [category: string]: AssetEducationContent } | null> {
+  try {
+    const query = language ? `?language=${language}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/game/quiz-bank${query}`);
+    if (!response.ok) return null;
+    const data: { success: boolean; data?: { [category: string]: AssetEducationContent } } = await response.json();
+    return data.success && data.data ? data.data : null;
+  } catch (error) {
+    console.error('fetchQuizBank error:', error);
+    return null;
+  }
+}
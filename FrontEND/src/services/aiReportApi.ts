@@ -1,8 +1,9 @@
 import { getServerUrl } from '../utils/getServerUrl';
+import { Language } from '../types';
 const API_BASE_URL = `${getServerUrl()}/api`;
 
 export const aiReportApi = {
-  async generateReport(params: { logId?: number; uniqueId?: string; reportId?: string; summary?: any; trades?: any[] }): Promise<{
+  async generateReport(params: { logId?: number; uniqueId?: string; reportId?: string; summary?: any; trades?: any[]; language?: Language }): Promise<{
     success: boolean;
     report?: string;
     message?: string;
@@ -14,6 +15,7 @@ export const aiReportApi = {
       if (params.reportId) body.reportId = params.reportId;
       if (params.summary) body.summary = params.summary;
       if (params.trades) body.trades = params.trades;
+      if (params.language) body.language = params.language;
 
       const response = await fetch(`${API_BASE_URL}/ai-report/generate`, {
         method: 'POST',
@@ -5,6 +5,7 @@
  */
 
 import { getServerUrl } from '../utils/getServerUrl';
+import { CorporateAction, CPIPoint, FDRateTable } from '../types';
 
 const SERVER_URL = getServerUrl();
 
@@ -65,13 +66,25 @@ export interface HealthResponse {
 }
 
 export interface FDRatesResponse {
+  success: boolean;
+  data?: FDRateTable;
+  error?: string;
+}
+
+export interface CorporateActionsResponse {
   success: boolean;
   data?: {
-    [year: number]: { 12: number; 24: number; 36: number };
+    actions: CorporateAction[];
   };
   error?: string;
 }
 
+export interface CPIResponse {
+  success: boolean;
+  data?: CPIPoint[];
+  error?: string;
+}
+
 // Cache for prices to reduce API calls
 const priceCache: Map<string, { [symbol: string]: number }> = new Map();
 const CACHE_MAX_SIZE = 300;
@@ -95,9 +108,9 @@ export async function checkPriceServiceHealth(): Promise<boolean> {
 
 /**
  * Fetch FD rates for all years
- * Returns rates for 12-month (1yr), 24-month (2yr), and 36-month (3yr) FDs
+ * Returns { year: { tenureMonths: rate } } - 12/24/36 plus any custom tenures the admin added
  */
-export async function fetchFDRates(): Promise<{ [year: number]: { 12: number; 24: number; 36: number } }> {
+export async function fetchFDRates(): Promise<FDRateTable> {
   try {
     const response = await fetchWithTimeout(`${SERVER_URL}/api/prices/fd-rates`);
     if (!response.ok) {
@@ -117,6 +130,59 @@ export async function fetchFDRates(): Promise<{ [year: number]: { 12: number; 24
   }
 }
 
+/**
+ * Fetch dividends, splits and bonus issues for a run of calendar months (solo mode only)
+ */
+export async function fetchCorporateActions(
+  symbols: string[],
+  year: number,
+  month: number,
+  months: number = 1,
+  isMultiplayer: boolean = false
+): Promise<CorporateAction[]> {
+  // Multiplayer ledgers get corporate actions from the server
+  if (isMultiplayer) {
+    return [];
+  }
+
+  try {
+    const params = new URLSearchParams({
+      symbols: symbols.join(','),
+      year: year.toString(),
+      month: month.toString(),
+      months: months.toString(),
+    });
+
+    const response = await fetchWithTimeout(`${SERVER_URL}/api/prices/corporate-actions?${params}`);
+    if (!response.ok) {
+      return [];
+    }
+    const data: CorporateActionsResponse = await response.json();
+
+    return data.success && data.data ? data.data.actions : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Fetch the consumer price index series (oldest first) for inflation-adjusted results
+ * Returns an empty series when the server has no CPI data
+ */
+export async function fetchCPISeries(): Promise<CPIPoint[]> {
+  try {
+    const response = await fetchWithTimeout(`${SERVER_URL}/api/prices/cpi`);
+    if (!response.ok) {
+      return [];
+    }
+    const data: CPIResponse = await response.json();
+
+    return data.success && data.data ? data.data : [];
+  } catch (error) {
+    return [];
+  }
+}
+
 /**
  * Get prices for symbols at a specific date
  */
@@ -351,8 +417,15 @@ export function getGameSymbols(selectedAssets: any): string[] {
     symbols.push(selectedAssets.reit);
   }
 
-  // REMOVED: Crypto (BTC, ETH) - disabled in current game version
-  // REMOVED: Forex (USDINR, EURINR, GBPINR) - disabled in current game version
+  // Crypto (BTC from Calendar 2014, ETH from 2017 - only when the host enabled CRYPTO)
+  if (selectedAssets?.crypto && Array.isArray(selectedAssets.crypto)) {
+    symbols.push(...selectedAssets.crypto);
+  }
+
+  // Forex pairs (unlock at Calendar 2008 - only when the host enabled FOREX)
+  if (selectedAssets?.forex && Array.isArray(selectedAssets.forex)) {
+    symbols.push(...selectedAssets.forex);
+  }
 
   return [...new Set(symbols)]; // Deduplicate
 }
@@ -387,3 +460,4 @@ function updateCache(key: string, prices: { [symbol: string]: number }): void {
   }
   priceCache.set(key, prices);
 }
+
@@ -1,6 +1,6 @@
 import { io, Socket } from 'socket.io-client';
-import { PlayerInfo, MultiplayerGameState, PortfolioBreakdown } from '../types/multiplayer';
-import { AdminSettings } from '../types';
+import { PlayerInfo, MultiplayerGameState, PortfolioBreakdown, SessionResumeData, PlayerLedger, LedgerResponse, NetworthBalances, SpectatorInfo, SpectatorJoinResponse, RoomOptions, QuizAnswerResponse, StandingOrderFill } from '../types/multiplayer';
+import { AdminSettings, CorporateActionPayout, LoanType, BondType, MarketNewsItem, InsuranceType, Language, NewStandingOrder } from '../types';
 import { getServerUrl } from '../utils/getServerUrl';
 import {
   initializeDecryption,
@@ -13,6 +13,12 @@ import { priceStore } from '../stores/priceStore';
 
 const SERVER_URL = getServerUrl();
 
+// Ledger commands lock the trade and banking controls until they are answered, so a lost ack has to give up
+const LEDGER_ACK_TIMEOUT_MS = 10000;
+const ledgerAck = (resolve: (response: LedgerResponse) => void) =>
+  (err: Error | null, response: LedgerResponse) =>
+    resolve(err ? { success: false, error: 'The server did not respond in time' } : response);
+
 // Key exchange data structure
 interface KeyExchangeData {
   sessionKey: string;
@@ -24,12 +30,23 @@ interface ServerToClientEvents {
   roomJoined: (data: { roomId: string; players: PlayerInfo[]; adminSettings: any }) => void;
   playerJoined: (data: { player: PlayerInfo }) => void;
   playerLeft: (data: { playerId: string }) => void;
+  playerDisconnected: (data: { playerId: string }) => void;
+  playerReconnected: (data: { oldPlayerId: string; player: PlayerInfo }) => void;
+  hostChanged: (data: { previousHostId: string; newHostId: string; newHostName: string }) => void;
+  successorChanged: (data: { successorId: string | null }) => void;
+  kickedFromRoom: (data: { roomId: string }) => void;
+  playerReadyChanged: (data: { playerId: string; isReady: boolean }) => void;
+  readyRuleChanged: (data: { requireAllReady: boolean }) => void;
+  startCountdown: (data: { durationMs: number }) => void;
+  startCountdownCancelled: (data: { reason: string }) => void;
+  spectatorsUpdate: (data: { spectators: SpectatorInfo[] }) => void;
   gameStarted: (data: { gameState: MultiplayerGameState; adminSettings: AdminSettings }) => void;
   gameStateUpdate: (data: { gameState: MultiplayerGameState }) => void;
   gamePaused: (data: { reason: 'quiz' | 'manual' | 'intro'; playersWaitingForQuiz?: string[]; playersWaitingForIntro?: string[] }) => void;
   gameResumed: () => void;
   gameEnded: (data: { finalYear: number; finalMonth: number }) => void;
   timeProgression: (data: { year: number; month: number }) => void;
+  speedChanged: (data: { monthDuration: number }) => void;
   // Server can send authoritative final leaderboard (broadcast from server DB) or host can send it.
   finalLeaderboard: (data: { leaderboard: { playerId: string; playerName: string; networth: number; portfolioBreakdown?: any }[] }) => void;
   leaderboardUpdate: (data: { players: PlayerInfo[] }) => void;
@@ -39,35 +56,73 @@ interface ServerToClientEvents {
   introStatusUpdate: (data: { playersWaitingForIntro: string[]; playersCompletedIntro: string[] }) => void;
   allPlayersIntroComplete: () => void;
   lifeEventTriggered: (data: { event: any; postPocketCash?: number }) => void;
+  lifeEventResolved: (data: { event: any; postPocketCash?: number }) => void;
   adminSettingsUpdated: (data: { adminSettings: AdminSettings }) => void;
   error: (data: { message: string }) => void;
   // Secure price broadcast events
   priceTick: (data: { year: number; month: number; encrypted: EncryptedPayload }) => void;
   keyExchangeResponse: (data: KeyExchangeData) => void;
   networthValidation: (data: { valid: boolean; serverNetworth: number; clientNetworth: number; deviation: number }) => void;
+  ledgerUpdate: (data: { ledger: PlayerLedger }) => void;
+  corporateActionsApplied: (data: { payouts: CorporateActionPayout[]; gameYear: number; gameMonth: number }) => void;
+  standingOrdersExecuted: (data: { fills: StandingOrderFill[] }) => void;
+  newsItem: (data: { item: MarketNewsItem; gameYear: number; gameMonth: number }) => void;
   fetchFinalLeaderboardFromDB: (data: { roomId: string }) => void;
 }
 
 interface ClientToServerEvents {
-  createRoom: (data: { playerName: string }, callback: (response: { success: boolean; roomId?: string; error?: string }) => void) => void;
-  joinRoom: (data: { roomId: string; playerName: string }, callback: (response: { success: boolean; players?: PlayerInfo[]; adminSettings?: any; error?: string }) => void) => void;
+  createRoom: (data: { playerName: string } & RoomOptions, callback: (response: { success: boolean; roomId?: string; sessionToken?: string; maxPlayers?: number | null; error?: string }) => void) => void;
+  joinRoom: (data: { roomId: string; playerName: string; passcode?: string }, callback: (response: { success: boolean; players?: PlayerInfo[]; adminSettings?: any; sessionToken?: string; isHost?: boolean; gameState?: MultiplayerGameState; maxPlayers?: number | null; requireAllReady?: boolean; error?: string }) => void) => void;
   leaveRoom: () => void;
+  joinAsSpectator: (data: { roomId: string; spectatorName: string; passcode?: string }, callback: (response: SpectatorJoinResponse) => void) => void;
+  designateSuccessor: (data: { playerId: string | null }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  kickPlayer: (data: { playerId: string }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  setReady: (data: { isReady: boolean }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  setReadyRule: (data: { requireAllReady: boolean }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  resumeSession: (data: { sessionToken: string }, callback: (response: SessionResumeData) => void) => void;
   startGame: (data: { adminSettings: AdminSettings; initialGameState?: any }, callback: (response: { success: boolean; error?: string }) => void) => void;
   togglePause: () => void;
+  setGameSpeed: (data: { monthDuration: number }, callback: (response: { success: boolean; error?: string }) => void) => void;
+  stepMonth: (callback: (response: { success: boolean; error?: string }) => void) => void;
+  jumpToMonth: (data: { year: number; month: number }, callback: (response: { success: boolean; error?: string }) => void) => void;
   updatePlayerState: (data: { networth: number; portfolioBreakdown: PortfolioBreakdown }) => void;
+  // Ledger commands - the server executes these against its own copy of our balances
+  placeTrade: (data: { side: 'buy' | 'sell'; assetType: string; assetName: string; quantity: number }, callback: (response: LedgerResponse) => void) => void;
+  depositSavings: (data: { amount: number }, callback: (response: LedgerResponse) => void) => void;
+  withdrawSavings: (data: { amount: number }, callback: (response: LedgerResponse) => void) => void;
+  openFD: (data: { amount: number; duration: number }, callback: (response: LedgerResponse) => void) => void;
+  collectFD: (data: { fdId: string }, callback: (response: LedgerResponse) => void) => void;
+  breakFD: (data: { fdId: string }, callback: (response: LedgerResponse) => void) => void;
+  takeLoan: (data: { type: LoanType; amount: number; tenureMonths: 12 | 24 | 36; fdId?: string }, callback: (response: LedgerResponse) => void) => void;
+  repayLoan: (data: { loanId: string }, callback: (response: LedgerResponse) => void) => void;
+  buyBond: (data: { type: BondType; amount: number }, callback: (response: LedgerResponse) => void) => void;
+  sellBond: (data: { bondId: string }, callback: (response: LedgerResponse) => void) => void;
+  buyInsurance: (data: { type: InsuranceType }, callback: (response: LedgerResponse) => void) => void;
+  cancelInsurance: (data: { policyId: string }, callback: (response: LedgerResponse) => void) => void;
+  resolveLifeEvent: (data: { eventId: string; choiceId: string }, callback: (response: LedgerResponse) => void) => void;
+  placeOrder: (data: NewStandingOrder, callback: (response: LedgerResponse) => void) => void;
+  cancelOrder: (data: { orderId: string }, callback: (response: LedgerResponse) => void) => void;
+  requestLedger: (callback: (response: LedgerResponse) => void) => void;
   quizStarted: (data: { quizCategory: string }) => void;
   quizFinished: (data: { quizCategory: string }) => void;
+  submitQuizAnswer: (data: { answerIndex: number }, callback: (response: QuizAnswerResponse) => void) => void;
+  setLanguage: (data: { language: Language }) => void;
   // Game intro sync
   introCompleted: () => void;
   // Secure price broadcast events
   requestKeyExchange: (callback: (response: { success: boolean; data?: KeyExchangeData; error?: string }) => void) => void;
-  submitNetworth: (data: { networth: number; portfolioBreakdown: PortfolioBreakdown; holdings: any }, callback: (response: { valid: boolean; serverNetworth?: number; error?: string }) => void) => void;
+  submitNetworth: (data: { networth: number; portfolioBreakdown: PortfolioBreakdown; holdings: any; pocketCash?: number; savingsBalance?: number; fixedDeposits?: NetworthBalances['fixedDeposits']; bonds?: NetworthBalances['bonds'] }, callback: (response: { valid: boolean; serverNetworth?: number; error?: string }) => void) => void;
 }
 
 class SocketService {
   private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private eventHandlers: Map<string, Set<Function>> = new Map();
   private isConnecting: boolean = false;
+  // Resumable session issued by the server on createRoom/joinRoom
+  private sessionToken: string | null = null;
+  // Room we are watching as a spectator (spectators have no seat to resume, they just rejoin)
+  private spectating: { roomId: string; spectatorName: string; passcode?: string } | null = null;
+  private hasConnectedBefore: boolean = false;
 
   connect(): void {
     if (this.socket?.connected) {
@@ -100,7 +155,16 @@ class SocketService {
 
     this.socket.on('connect', () => {
       this.isConnecting = false;
+      const isReconnect = this.hasConnectedBefore;
+      this.hasConnectedBefore = true;
       this.emit('connect');
+
+      // A reconnect gets a new socket id - rebind it to our existing seat in the room
+      if (isReconnect && this.sessionToken) {
+        this.resumeSession();
+      } else if (isReconnect && this.spectating) {
+        this.socket?.emit('joinAsSpectator', this.spectating, () => { });
+      }
     });
 
     this.socket.on('disconnect', (_reason) => {
@@ -133,11 +197,28 @@ class SocketService {
     this.socket.on('roomJoined', (data) => this.emit('roomJoined', data));
     this.socket.on('playerJoined', (data) => this.emit('playerJoined', data));
     this.socket.on('playerLeft', (data) => this.emit('playerLeft', data));
+    this.socket.on('playerDisconnected', (data) => this.emit('playerDisconnected', data));
+    this.socket.on('playerReconnected', (data) => this.emit('playerReconnected', data));
+    this.socket.on('hostChanged', (data) => this.emit('hostChanged', data));
+    this.socket.on('successorChanged', (data) => this.emit('successorChanged', data));
+    this.socket.on('kickedFromRoom', (data) => {
+      // Our seat is gone - nothing to resume on reconnect
+      this.sessionToken = null;
+      this.spectating = null;
+      this.clearEncryptionState();
+      this.emit('kickedFromRoom', data);
+    });
+    this.socket.on('spectatorsUpdate', (data) => this.emit('spectatorsUpdate', data));
+    this.socket.on('playerReadyChanged', (data) => this.emit('playerReadyChanged', data));
+    this.socket.on('readyRuleChanged', (data) => this.emit('readyRuleChanged', data));
+    this.socket.on('startCountdown', (data) => this.emit('startCountdown', data));
+    this.socket.on('startCountdownCancelled', (data) => this.emit('startCountdownCancelled', data));
     this.socket.on('gameStarted', (data) => this.emit('gameStarted', data));
     this.socket.on('gameStateUpdate', (data) => this.emit('gameStateUpdate', data));
     this.socket.on('gamePaused', (data) => this.emit('gamePaused', data));
     this.socket.on('gameResumed', () => this.emit('gameResumed'));
     this.socket.on('timeProgression', (data) => this.emit('timeProgression', data));
+    this.socket.on('speedChanged', (data) => this.emit('speedChanged', data));
     this.socket.on('gameEnded', (data) => this.emit('gameEnded', data));
     this.socket.on('leaderboardUpdate', (data) => this.emit('leaderboardUpdate', data));
     // Server tells host to fetch the final leaderboard from DB (emitted after it waits for players to log)
@@ -152,7 +233,17 @@ class SocketService {
     this.socket.on('lifeEventTriggered', (data) => {
       this.emit('lifeEventTriggered', data);
     });
+    // A life event with choices was settled (our pick, or the default once the decision timed out)
+    this.socket.on('lifeEventResolved', (data) => this.emit('lifeEventResolved', data));
     this.socket.on('adminSettingsUpdated', (data) => this.emit('adminSettingsUpdated', data));
+    // Server-authoritative balances (monthly interest, income, FD maturity, life events)
+    this.socket.on('ledgerUpdate', (data) => this.emit('ledgerUpdate', data));
+    // Dividends/splits already applied to the ledger - only needed for the cash-flow log
+    this.socket.on('corporateActionsApplied', (data) => this.emit('corporateActionsApplied', data));
+    // Standing orders the server filled this month - the ledger follows, so only needed for the trade log
+    this.socket.on('standingOrdersExecuted', (data) => this.emit('standingOrdersExecuted', data));
+    // Market headlines reached by the room's calendar (news ticker)
+    this.socket.on('newsItem', (data) => this.emit('newsItem', data));
 
     // === Price Broadcast Event Handlers ===
 
@@ -225,27 +316,72 @@ class SocketService {
   }
 
   // API methods
-  async createRoom(playerName: string): Promise<{ success: boolean; roomId?: string; error?: string }> {
+  async createRoom(playerName: string, options: RoomOptions = {}): Promise<{ success: boolean; roomId?: string; maxPlayers?: number | null; error?: string }> {
     return new Promise((resolve) => {
       if (!this.socket) {
         resolve({ success: false, error: 'Not connected to server' });
         return;
       }
 
-      this.socket.emit('createRoom', { playerName }, (response) => {
+      this.socket.emit('createRoom', { playerName, ...options }, (response) => {
+        if (response.success && response.sessionToken) {
+          this.sessionToken = response.sessionToken;
+        }
+        resolve(response);
+      });
+    });
+  }
+
+  async joinRoom(roomId: string, playerName: string, passcode?: string): Promise<{ success: boolean; players?: PlayerInfo[]; adminSettings?: any; isHost?: boolean; gameState?: MultiplayerGameState; maxPlayers?: number | null; requireAllReady?: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('joinRoom', { roomId, playerName, passcode }, (response) => {
+        if (response.success && response.sessionToken) {
+          this.sessionToken = response.sessionToken;
+        }
+        resolve(response);
+      });
+    });
+  }
+
+  /**
+   * Resume our session after a dropped connection
+   * Emits 'sessionResumed' with the server's room snapshot, or 'sessionResumeFailed'
+   */
+  async resumeSession(): Promise<SessionResumeData> {
+    return new Promise((resolve) => {
+      if (!this.socket || !this.sessionToken) {
+        resolve({ success: false, error: 'No session to resume' });
+        return;
+      }
+
+      this.socket.emit('resumeSession', { sessionToken: this.sessionToken }, (response) => {
+        if (response.success) {
+          this.emit('sessionResumed', response);
+        } else {
+          this.sessionToken = null;
+          this.emit('sessionResumeFailed', response.error || 'Session expired');
+        }
         resolve(response);
       });
     });
   }
 
-  async joinRoom(roomId: string, playerName: string): Promise<{ success: boolean; players?: PlayerInfo[]; adminSettings?: any; error?: string }> {
+  async joinAsSpectator(roomId: string, spectatorName: string, passcode?: string): Promise<SpectatorJoinResponse> {
     return new Promise((resolve) => {
       if (!this.socket) {
         resolve({ success: false, error: 'Not connected to server' });
         return;
       }
 
-      this.socket.emit('joinRoom', { roomId, playerName }, (response) => {
+      this.socket.emit('joinAsSpectator', { roomId, spectatorName, passcode }, (response) => {
+        if (response.success) {
+          this.spectating = { roomId, spectatorName, passcode };
+        }
         resolve(response);
       });
     });
@@ -255,10 +391,64 @@ class SocketService {
     if (this.socket) {
       this.socket.emit('leaveRoom');
     }
+    this.sessionToken = null;
+    this.spectating = null;
     // Clear encryption state when leaving
     this.clearEncryptionState();
   }
 
+  async designateSuccessor(playerId: string | null): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('designateSuccessor', { playerId }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  async kickPlayer(playerId: string): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('kickPlayer', { playerId }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  async setReady(isReady: boolean): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('setReady', { isReady }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  async setReadyRule(requireAllReady: boolean): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('setReadyRule', { requireAllReady }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
   async startGame(adminSettings: AdminSettings, initialGameState?: any): Promise<{ success: boolean; error?: string }> {
     return new Promise((resolve) => {
       if (!this.socket) {
@@ -278,12 +468,236 @@ class SocketService {
     }
   }
 
+  // === Host Time Controls ===
+
+  async setGameSpeed(monthDuration: number): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('setGameSpeed', { monthDuration }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  async stepMonth(): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('stepMonth', (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  async jumpToMonth(year: number, month: number): Promise<{ success: boolean; error?: string }> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('jumpToMonth', { year, month }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
   updatePlayerState(networth: number, portfolioBreakdown: PortfolioBreakdown): void {
     if (this.socket) {
       this.socket.emit('updatePlayerState', { networth, portfolioBreakdown });
     }
   }
 
+  // === Ledger Commands ===
+
+  async placeTrade(side: 'buy' | 'sell', assetType: string, assetName: string, quantity: number): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('placeTrade', { side, assetType, assetName, quantity }, ledgerAck(resolve));
+    });
+  }
+
+  async depositSavings(amount: number): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('depositSavings', { amount }, ledgerAck(resolve));
+    });
+  }
+
+  async withdrawSavings(amount: number): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('withdrawSavings', { amount }, ledgerAck(resolve));
+    });
+  }
+
+  async openFD(amount: number, duration: number): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('openFD', { amount, duration }, ledgerAck(resolve));
+    });
+  }
+
+  async collectFD(fdId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('collectFD', { fdId }, ledgerAck(resolve));
+    });
+  }
+
+  async breakFD(fdId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('breakFD', { fdId }, ledgerAck(resolve));
+    });
+  }
+
+  // Gold-backed loans are valued at the server's current gold price
+  async takeLoan(type: LoanType, amount: number, tenureMonths: 12 | 24 | 36, fdId?: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('takeLoan', { type, amount, tenureMonths, fdId }, ledgerAck(resolve));
+    });
+  }
+
+  async repayLoan(loanId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('repayLoan', { loanId }, ledgerAck(resolve));
+    });
+  }
+
+  // The server fixes the coupon at its own market yield for the current month
+  async buyBond(type: BondType, amount: number): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('buyBond', { type, amount }, ledgerAck(resolve));
+    });
+  }
+
+  async sellBond(bondId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('sellBond', { bondId }, ledgerAck(resolve));
+    });
+  }
+
+  // The server prices the premium from the room's income and the current game year
+  async buyInsurance(type: InsuranceType): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('buyInsurance', { type }, ledgerAck(resolve));
+    });
+  }
+
+  async cancelInsurance(policyId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('cancelInsurance', { policyId }, ledgerAck(resolve));
+    });
+  }
+
+  // Standing orders are kept and filled by the server every month, even while we are disconnected
+  async placeOrder(order: NewStandingOrder): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('placeOrder', order, ledgerAck(resolve));
+    });
+  }
+
+  async cancelOrder(orderId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('cancelOrder', { orderId }, ledgerAck(resolve));
+    });
+  }
+
+  async resolveLifeEvent(eventId: string, choiceId: string): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('resolveLifeEvent', { eventId, choiceId }, ledgerAck(resolve));
+    });
+  }
+
+  // Current server ledger, used to restore balances after rejoining a running game
+  async requestLedger(): Promise<LedgerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.timeout(LEDGER_ACK_TIMEOUT_MS).emit('requestLedger', ledgerAck(resolve));
+    });
+  }
+
   quizStarted(quizCategory: string): void {
     if (this.socket) {
       this.socket.emit('quizStarted', { quizCategory });
@@ -296,6 +710,27 @@ class SocketService {
     }
   }
 
+  // Answer to the open quiz - the server checks it against its question bank and scores the quiz
+  async submitQuizAnswer(answerIndex: number): Promise<QuizAnswerResponse> {
+    return new Promise((resolve) => {
+      if (!this.socket) {
+        resolve({ success: false, error: 'Not connected to server' });
+        return;
+      }
+
+      this.socket.emit('submitQuizAnswer', { answerIndex }, (response) => {
+        resolve(response);
+      });
+    });
+  }
+
+  // The server generates this player's life events in their language
+  setLanguage(language: Language): void {
+    if (this.socket) {
+      this.socket.emit('setLanguage', { language });
+    }
+  }
+
   introCompleted(): void {
     if (this.socket) {
       this.socket.emit('introCompleted');
@@ -350,11 +785,12 @@ class SocketService {
 
   /**
    * Submit networth for server validation
+   * Out-of-tolerance submissions are replaced by the server's figure and counted against the player
    */
   async submitNetworth(
     networth: number,
     portfolioBreakdown: PortfolioBreakdown,
-    holdings: any
+    balances: NetworthBalances
   ): Promise<{ valid: boolean; serverNetworth?: number; error?: string }> {
     return new Promise((resolve) => {
       if (!this.socket) {
@@ -362,9 +798,10 @@ class SocketService {
         return;
       }
 
+      const { holdings, pocketCash, savingsBalance, fixedDeposits, bonds } = balances;
       this.socket.emit(
         'submitNetworth',
-        { networth, portfolioBreakdown, holdings },
+        { networth, portfolioBreakdown, holdings, pocketCash, savingsBalance, fixedDeposits, bonds },
         (response) => {
           resolve(response);
         }
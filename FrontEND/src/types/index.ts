@@ -1,23 +1,89 @@
+export type InsuranceType = 'HEALTH' | 'VEHICLE';
+
+export interface LifeEventChoice {
+  id: string;
+  label: string;
+  amountFactor: number; // 1 = the full amount, 0.5 = half
+  breakFD?: boolean; // Break fixed deposits (oldest first) to cover the cost
+}
+
+// An entry in the life event pool served by /api/game/life-events/pool
+export interface LifeEventTemplate {
+  id?: number;
+  message: string;
+  amount: number; // Rupees at the default income in the game's first month; negative for losses
+  weight: number;
+  months?: number[]; // Calendar months the event can happen in (all when missing)
+  insuranceType?: InsuranceType;
+  choices?: LifeEventChoice[];
+  enabled?: boolean;
+}
+
+// A life event reworded in another language, edited in the admin panel
+export interface LifeEventTranslation {
+  message: string;
+  choiceLabels?: { [choiceId: string]: string };
+}
+
 export interface LifeEvent {
   id: string;
   type: 'gain' | 'loss';
   message: string;
-  amount: number; // positive for gains, negative for losses
-  gameYear: number; // 1..20
+  amount: number; // positive for gains, negative for losses - the net cash effect once resolved
+  gameYear: number; // 1..gameDurationYears
   gameMonth: number; // 1..12
   triggered?: boolean;
+  insuranceType?: InsuranceType;
+  choices?: LifeEventChoice[];
+  awaitingChoice?: boolean; // Triggered, waiting for the player to pick a choice
+  choiceId?: string;
+  grossAmount?: number; // Cost after the choice, before insurance
+  insuranceCover?: number; // Paid by the player's policy
+  fdBroken?: number; // Principal of fixed deposits broken to pay
+}
+
+export interface InsurancePolicy {
+  id: string;
+  type: InsuranceType;
+  premium: number; // Current annual premium, charged at purchase and on each anniversary
+  coverRatio: number;
+  startYear: number;
+  startMonth: number;
+}
+
+export type MarketNewsCategory = 'MARKETS' | 'RBI' | 'POLICY' | 'GLOBAL' | 'COMMODITIES' | 'CURRENCY';
+
+export interface MarketNewsItem {
+  id: string;
+  year: number; // Calendar year
+  month: number; // 1..12
+  category: MarketNewsCategory;
+  headline: string;
 }
 
 export interface CashTransaction {
   id: string;
-  type: 'recurring_income' | 'life_event_gain' | 'life_event_loss';
-  amount: number; // positive for gains, negative for losses
+  type: 'recurring_income' | 'life_event_gain' | 'life_event_loss' | 'dividend' | 'corporate_action' | 'quiz_bonus';
+  amount: number; // positive for gains, negative for losses, 0 for splits/bonus issues
   message: string;
   gameYear: number;
   gameMonth: number;
   timestamp: number; // ms since epoch for ordering
 }
 
+// A quiz answered correctly
+export interface QuizResult {
+  category: string;
+  questionId: number | null;
+  answers: number[]; // Every option submitted, the correct one last
+  attempts: number;
+  points: number;
+  bonusCash: number;
+  timeTakenMs: number | null;
+  gameYear: number;
+  gameMonth: number;
+}
+
 export interface GameState {
   mode: 'menu' | 'solo' | 'multi' | 'settings';
   currentYear: number;
@@ -36,15 +102,57 @@ export interface GameState {
   assetUnlockSchedule?: AssetUnlockSchedule;
   yearlyQuotes?: string[]; // Array of quotes, one per year (shuffled at game start)
   completedQuizzes?: string[]; // Track which asset categories have completed their quiz
+  quizResults?: QuizResult[]; // Scored quizzes (solo: scored here and re-scored when logged; multiplayer: from the server)
   quizQuestionIndices?: { [category: string]: number }; // Random question index per category for this session
   // Solo mode uses an array of life events; multiplayer stores per-player events on server and emits triggers
   lifeEvents?: LifeEvent[];
+  loans?: Loan[]; // Personal and secured loans still being repaid
+  bonds?: Bond[]; // G-secs, RBI and corporate bonds held to maturity or sold early
+  insurancePolicies?: InsurancePolicy[]; // Health and vehicle cover, renewed yearly
+  openOrders?: StandingOrder[]; // Limit, stop-loss and SIP orders waiting on the next price tick
+  orderExecutions?: OrderExecution[]; // Most recent standing-order fills (newest first)
   // Multiplayer-specific properties
   pauseReason?: 'quiz' | 'manual' | 'intro' | null;
   playersWaitingForIntro?: string[];
   playersWaitingForQuiz?: string[];
 }
 
+export type StandingOrderType = 'limitBuy' | 'limitSell' | 'stopLoss' | 'sip';
+
+export interface StandingOrder {
+  id: string;
+  type: StandingOrderType;
+  assetType: string;
+  assetName: string;
+  quantity?: number; // Units for limit and stop-loss orders
+  triggerPrice?: number; // Limit price, or the stop price for stop-loss
+  amount?: number; // Rupees invested every month by a SIP
+  createdYear: number;
+  createdMonth: number;
+  lastExecutedYear?: number; // SIP only: game month of the last instalment
+  lastExecutedMonth?: number;
+  lastRejection?: StandingOrderRejection; // Multiplayer: why the server last refused to fill it
+}
+
+export interface StandingOrderRejection {
+  reason: string;
+  gameYear: number;
+  gameMonth: number;
+}
+
+export type NewStandingOrder = Pick<StandingOrder, 'type' | 'assetType' | 'assetName' | 'quantity' | 'triggerPrice' | 'amount'>;
+
+export interface OrderExecution {
+  orderId: string;
+  type: StandingOrderType;
+  assetName: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  gameYear: number;
+  gameMonth: number;
+}
+
 export interface SelectedAssets {
   stocks: string[];
   fundType: 'index' | 'mutual';
@@ -53,6 +161,8 @@ export interface SelectedAssets {
   mutualFunds: string[]; // Array of mutual fund names (unlocks at calendar 2017)
   commodity: string;
   reit: string; // Randomly selected REIT (EMBASSY or MINDSPACE) - unlocks at calendar 2020
+  crypto?: string[]; // BTC/ETH - only when the host enabled CRYPTO
+  forex?: string[]; // 2 random currency pairs - only when the host enabled FOREX
 }
 
 export interface SavingsAccount {
@@ -64,7 +174,7 @@ export interface SavingsAccount {
 export interface FixedDeposit {
   id: string;
   amount: number;
-  duration: 12 | 24 | 36; // in months (1 year, 2 years, 3 years)
+  duration: number; // in months (12/24/36, or a custom tenure set by the admin)
   interestRate: number;
   startMonth: number;
   startYear: number;
@@ -73,6 +183,36 @@ export interface FixedDeposit {
   isMatured: boolean;
 }
 
+export type LoanType = 'personal' | 'fdBacked' | 'goldBacked';
+
+export interface Loan {
+  id: string;
+  type: LoanType;
+  principal: number;
+  interestRate: number; // annual %, like FixedDeposit
+  tenureMonths: 12 | 24 | 36;
+  emi: number;
+  outstanding: number;
+  startYear: number;
+  startMonth: number;
+  collateralFdId?: string; // fdBacked: the FD is locked until the loan is repaid
+  pledgedGoldQuantity?: number; // goldBacked: physical gold that can't be sold until repaid
+}
+
+export type BondType = 'gsec' | 'rbi' | 'corporate';
+
+export interface Bond {
+  id: string;
+  type: BondType;
+  faceValue: number;
+  couponRate: number; // annual %, fixed at purchase and paid half-yearly
+  issueYear: number; // Calendar year of purchase, to look up market yields later
+  startYear: number;
+  startMonth: number;
+  maturityYear: number;
+  maturityMonth: number;
+}
+
 export interface Holdings {
   physicalGold: AssetHolding;
   digitalGold: AssetHolding;
@@ -82,12 +222,48 @@ export interface Holdings {
   crypto: { [key: string]: AssetHolding };
   commodity: AssetHolding;
   reits: { [key: string]: AssetHolding };
+  forex: { [key: string]: AssetHolding }; // Currency pairs quoted in rupees (USDINR, EURINR, GBPINR)
 }
 
 export interface AssetHolding {
   quantity: number;
   avgPrice: number;
   totalInvested: number;
+  acquiredMonthIndex?: number; // Quantity-weighted game month of purchase (capital gains holding period)
+}
+
+// Dividend, split or bonus issue from the corporate_actions table
+export interface CorporateAction {
+  assetName: string;
+  actionType: 'dividend' | 'split' | 'bonus';
+  exDate: string; // YYYY-MM-DD
+  amount: number; // Dividend per unit held
+  factor: number; // Quantity multiplier for splits/bonuses (1:5 split = 5, 1:1 bonus = 2)
+}
+
+// Consumer price index point from the cpi_index table
+export interface CPIPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+// Passive strategy replayed over the same cash flows as the player
+export interface BenchmarkResult {
+  id: 'nifty' | 'gold' | 'fdLadder' | 'balanced';
+  label: string;
+  finalValue: number;
+  cagr: number;
+  yearEndValues: number[]; // Value at the end of each game year
+}
+
+// What a corporate action did to one holding
+export interface CorporateActionPayout {
+  assetType: string;
+  assetName: string;
+  actionType: 'dividend' | 'split' | 'bonus';
+  amount: number; // Cash credited (0 for splits/bonuses)
+  quantityBefore: number;
+  quantityAfter: number;
 }
 
 export interface AssetData {
@@ -102,14 +278,10 @@ export interface AssetInfo {
   isUnlocked: boolean;
 }
 
-export interface FDRate {
-  year: number;
-  oneYear: number;
-  twoYear: number;
-  threeYear: number;
-}
+// Annual FD rates (%) per calendar year, keyed by tenure in months
+export type FDRateTable = { [year: number]: { [tenureMonths: number]: number } };
 
-export type AssetCategory = 'BANKING' | 'GOLD' | 'STOCKS' | 'FUNDS' | 'CRYPTO' | 'REIT' | 'COMMODITIES' | 'FOREX';
+export type AssetCategory = 'BANKING' | 'GOLD' | 'STOCKS' | 'FUNDS' | 'CRYPTO' | 'REIT' | 'COMMODITIES' | 'FOREX' | 'BONDS';
 
 export interface AdminSettings {
   selectedCategories: AssetCategory[];
@@ -120,6 +292,37 @@ export interface AdminSettings {
   enableQuiz: boolean; // Enable/disable quiz on asset unlock
   eventsCount?: number; // Number of random life events per player (min 1, max 20). Default: 3
   monthDuration?: number; // Duration of each game month in milliseconds. Default: 5000 (5 seconds)
+  gameDurationYears?: number; // Length of the game in years (min 5, max 20). Default: 20
+  taxSettings?: TaxSettings; // Trading fees and taxes. Off unless taxSettings.enabled
+  loanSettings?: LoanSettings; // Personal/secured loans and overdraft interest. Defaults apply when missing
+  scenarioId?: string; // Historical scenario (see utils/scenarios.ts). Fixes the start date, length and asset pool when set
+  defaultLanguage?: Language; // Used by players who haven't picked a language themselves. Default: 'en'
+  quizBonusCash?: number; // Pocket cash for a first-try quiz answer, less on retries (see utils/quizScoring.ts). 0/missing = no bonus
+}
+
+export type Language = 'en' | 'hi' | 'mr' | 'ta';
+
+// Rates are fractions (0.001 = 0.1%)
+export interface TaxSettings {
+  enabled: boolean;
+  brokerageRate: number; // Per trade, on trade value
+  maxBrokeragePerTrade: number; // Flat cap in rupees
+  sttRate: number; // Securities transaction tax, on equity sells
+  stampDutyRate: number; // On buys
+  shortTermGainsRate: number; // Capital gains held less than longTermHoldingMonths
+  longTermGainsRate: number;
+  longTermHoldingMonths: number;
+  fdInterestTaxRate: number; // Deducted from FD interest at maturity
+}
+
+// Annual rates are fractions (0.14 = 14% PA)
+export interface LoanSettings {
+  enabled: boolean;
+  personalLoanRate: number;
+  securedLoanRate: number; // Loans against an FD or physical gold
+  overdraftRate: number; // Charged monthly on negative pocket cash
+  maxPersonalLoan: number; // Total personal borrowing cap in rupees
+  loanToValue: number; // Share of the collateral's value that can be borrowed
 }
 
 export interface AssetUnlockSchedule {
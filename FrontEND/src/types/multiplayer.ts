@@ -1,5 +1,7 @@
 // Multiplayer-specific types for frontend
 
+import { Bond, FixedDeposit, Holdings, InsurancePolicy, Loan, OrderExecution, QuizResult, StandingOrder } from './index';
+
 export interface PlayerInfo {
   id: string;
   name: string;
@@ -8,6 +10,8 @@ export interface PlayerInfo {
   networth: number;
   portfolioBreakdown: PortfolioBreakdown;
   quizStatus: QuizStatus;
+  isConnected?: boolean; // false while the player is reconnecting
+  suspiciousSubmissions?: number; // networth submissions the server rejected
 }
 
 export interface PortfolioBreakdown {
@@ -22,11 +26,15 @@ export interface PortfolioBreakdown {
   crypto: number;
   commodities: number;
   reits: number;
+  forex?: number;
+  loans?: number; // Outstanding loans, as a negative amount
+  bonds?: number;
 }
 
 export interface QuizStatus {
   currentQuiz: string | null;
   isCompleted: boolean;
+  results?: QuizResult[]; // Scored by the server, one per category
 }
 
 export interface MultiplayerGameState {
@@ -50,6 +58,112 @@ export interface RoomInfo {
   players: PlayerInfo[];
   adminSettings: any | null;
   isHost: boolean;
+  successorId?: string | null; // Player the host picked to take over if they leave
+  isSpectator?: boolean; // Watching without a seat
+  spectators?: SpectatorInfo[];
+  maxPlayers?: number | null; // Cap on non-host players (null = unlimited)
+  passcode?: string | null; // Only known to the host who set it
+  requireAllReady?: boolean; // Host rule: everyone must be ready before the game starts
+}
+
+// Host-chosen limits when creating a room
+export interface RoomOptions {
+  maxPlayers?: number;
+  passcode?: string;
+}
+
+// Someone watching the room without playing
+export interface SpectatorInfo {
+  id: string;
+  name: string;
+}
+
+// Server response when joining a room as a spectator
+export interface SpectatorJoinResponse {
+  success: boolean;
+  roomId?: string;
+  players?: PlayerInfo[];
+  spectators?: SpectatorInfo[];
+  adminSettings?: any | null;
+  gameState?: MultiplayerGameState;
+  leaderboard?: PlayerInfo[];
+  error?: string;
+}
+
+// Server response when a dropped socket resumes its session
+export interface SessionResumeData {
+  success: boolean;
+  roomId?: string;
+  playerId?: string;
+  isHost?: boolean;
+  players?: PlayerInfo[];
+  adminSettings?: any | null;
+  gameState?: MultiplayerGameState;
+  error?: string;
+}
+
+// Balances sent alongside a networth submission so the server can re-value them
+export interface NetworthBalances {
+  pocketCash: number;
+  savingsBalance: number;
+  fixedDeposits: FixedDeposit[];
+  holdings: Holdings;
+  bonds?: Bond[];
+}
+
+// Server-held balances for a multiplayer player (authoritative over local game state)
+export interface PlayerLedger {
+  pocketCash: number;
+  pocketCashReceivedTotal: number;
+  savingsBalance: number;
+  savingsTotalDeposited: number;
+  fixedDeposits: FixedDeposit[];
+  holdings: Holdings;
+  loans?: Loan[];
+  bonds?: Bond[];
+  insurancePolicies?: InsurancePolicy[];
+  openOrders?: StandingOrder[]; // Standing orders the server fills every month
+  orderExecutions?: OrderExecution[]; // Most recent fills (newest first)
+}
+
+// A standing order the server filled, with the trade it executed
+export interface StandingOrderFill {
+  execution: OrderExecution;
+  trade: TradeExecution;
+}
+
+// Trade as executed by the server, at the server's price
+export interface TradeExecution {
+  side: 'buy' | 'sell';
+  assetType: string;
+  assetName: string;
+  quantity: number;
+  price: number;
+  totalValue: number;
+  pocketCashBefore: number;
+  pocketCashAfter: number;
+  holdingQuantityBefore: number;
+  holdingQuantityAfter: number;
+  charges?: number; // Brokerage + STT + stamp duty
+  capitalGainsTax?: number;
+}
+
+// Response to every ledger command (placeTrade, depositSavings, openFD, ...)
+export interface LedgerResponse {
+  success: boolean;
+  ledger?: PlayerLedger;
+  trade?: TradeExecution;
+  error?: string;
+}
+
+// Reply to submitQuizAnswer
+export interface QuizAnswerResponse {
+  success: boolean;
+  correct?: boolean;
+  attempts?: number;
+  result?: QuizResult;
+  ledger?: PlayerLedger;
+  error?: string;
 }
 
-export type MultiplayerMode = 'lobby' | 'host-spectator' | 'player-game';
+export type MultiplayerMode = 'lobby' | 'host-spectator' | 'player-game' | 'spectator';
@@ -2,6 +2,7 @@ import { AssetCategory, AssetUnlockSchedule, UnlockEntry } from '../types';
 import {
   CATEGORY_MAX_CARDS,
   CALENDAR_YEAR_TRIGGERS,
+  TOTAL_GAME_YEARS,
   VALID_START_YEAR_MIN,
   VALID_START_YEAR_MAX
 } from './constants';
@@ -194,6 +195,7 @@ export const getAssetsForCategory = (category: AssetCategory): string[] => {
  * - Year 4+: Additional Stock (1 card - progressive unlock based on data availability)
  *   - 1 stock selected (preferably with data available after Year 4)
  *   - Example: 2 stocks unlock at Year 4, 3rd stock with firstYear=2015 unlocks at Year 11
+ * - Year 5: Bonds (1 card - G-Sec, RBI bond or AAA corporate bond, priced off the yield table)
  *
  * CALENDAR YEAR BASED UNLOCKS:
  * - Calendar >= 2009: Index Fund (NIFTYBEES - 1 fixed card)
@@ -202,23 +204,26 @@ export const getAssetsForCategory = (category: AssetCategory): string[] => {
  * - Calendar >= 2017: Mutual Funds (2 cards)
  * - Calendar >= 2020: REITs (1 card)
  *
- * DISABLED CATEGORIES (always 0 cards): CRYPTO, FOREX
+ * OPTIONAL CATEGORIES (only when included in categories by the host):
+ * - Calendar >= 2008: Forex (2 random pairs from USDINR, EURINR, GBPINR)
+ * - Calendar >= 2014: Crypto (BTC), Calendar >= 2017: Crypto (+ETH)
  *
- * RULE: No new asset category should unlock in the last 3 game years (Years 18-20)
+ * RULE: No new asset category should unlock in the last 3 game years (Years 18-20 in a 20 year game)
  */
 export const generateAssetUnlockSchedule = (
-  _categories: AssetCategory[], // Ignored - using hard-coded categories
-  gameStartYear: number
+  categories: AssetCategory[], // Only consulted for the optional CRYPTO/FOREX categories
+  gameStartYear: number,
+  totalGameYears: number = TOTAL_GAME_YEARS
 ): AssetUnlockSchedule => {
   const schedule: AssetUnlockSchedule = {};
-  const TOTAL_GAME_YEARS = 20;
-  // RULE: No new assets in final 3 years (years 18-20)
-  const MAX_UNLOCK_YEAR = TOTAL_GAME_YEARS - 3; // Year 17 is the last year for new unlocks
+  // RULE: No new assets in final 3 years
+  const MAX_UNLOCK_YEAR = totalGameYears - 3; // e.g. Year 17 is the last year for new unlocks in a 20 year game
 
-  // Calculate required start year to ensure REITs can unlock before year 17
-  // REIT triggers at 2020, needs to unlock by year 17
+  // Calculate required start year to ensure REITs can unlock before the last unlock year
+  // REIT triggers at 2020, needs to unlock by year 17 in a 20 year game
   // So start year = 2020 - 17 + 1 = 2004
-  const requiredStartYear = CALENDAR_YEAR_TRIGGERS.REITS - MAX_UNLOCK_YEAR + 1;
+  // Shorter games can't move the start past VALID_START_YEAR_MAX - they simply end before the later categories unlock
+  const requiredStartYear = Math.min(VALID_START_YEAR_MAX, CALENDAR_YEAR_TRIGGERS.REITS - MAX_UNLOCK_YEAR + 1);
 
   // Validate game start year (must be at least requiredStartYear to allow all unlocks)
   const validStartYear = Math.max(
@@ -335,8 +340,8 @@ export const generateAssetUnlockSchedule = (
       const dataAvailableAtGameYear = stockCalendarYear - validStartYear + 1;
       const unlockAtGameYear = Math.max(4, dataAvailableAtGameYear);
 
-      // Only unlock if within valid game years (1-20) and before final 3 years
-      if (unlockAtGameYear >= 1 && unlockAtGameYear <= TOTAL_GAME_YEARS && unlockAtGameYear <= MAX_UNLOCK_YEAR) {
+      // Only unlock if within valid game years and before final 3 years
+      if (unlockAtGameYear >= 1 && unlockAtGameYear <= totalGameYears && unlockAtGameYear <= MAX_UNLOCK_YEAR) {
         if (!stockUnlockMap[unlockAtGameYear]) {
           stockUnlockMap[unlockAtGameYear] = [];
         }
@@ -363,14 +368,32 @@ export const generateAssetUnlockSchedule = (
     });
   }
 
+  // ===== GAME YEAR 5: Bonds (1 card) =====
+  // Yields are hard-coded for every start year, so bonds never wait on price data
+  const BONDS_UNLOCK_YEAR = 5;
+  if (BONDS_UNLOCK_YEAR <= MAX_UNLOCK_YEAR) {
+    if (!schedule[BONDS_UNLOCK_YEAR]) {
+      schedule[BONDS_UNLOCK_YEAR] = [];
+    }
+    schedule[BONDS_UNLOCK_YEAR].push({
+      category: 'BONDS',
+      assetType: 'BONDS',
+      calendarYear: validStartYear + BONDS_UNLOCK_YEAR - 1,
+      maxCards: CATEGORY_MAX_CARDS.BONDS
+    });
+  }
+
   // ===== SELECT REIT ONCE (before calendar year loop) =====
   // Randomly select EMBASSY (2019) or MINDSPACE (2020)
   const availableReits = ['EMBASSY', 'MINDSPACE'];
   const selectedReit = availableReits[Math.floor(Math.random() * availableReits.length)];
   const selectedReitData = ASSET_TIMELINE_DATA[selectedReit];
 
+  const cryptoEnabled = categories.includes('CRYPTO');
+  const forexEnabled = categories.includes('FOREX');
+
   // ===== CALENDAR YEAR BASED UNLOCKS =====
-  for (let gameYear = 1; gameYear <= TOTAL_GAME_YEARS; gameYear++) {
+  for (let gameYear = 1; gameYear <= totalGameYears; gameYear++) {
     const calendarYear = validStartYear + gameYear - 1;
     const calendarUnlocks: UnlockEntry[] = [];
 
@@ -458,6 +481,43 @@ export const generateAssetUnlockSchedule = (
       });
     }
 
+    // Forex (2 random currency pairs when Calendar >= 2008) - optional
+    if (forexEnabled && calendarYear === CALENDAR_YEAR_TRIGGERS.FOREX) {
+      const availablePairs = getAssetsForCategory('FOREX')
+        .filter(name => ASSET_TIMELINE_DATA[name].firstYear <= calendarYear);
+
+      if (availablePairs.length > 0) {
+        calendarUnlocks.push({
+          category: 'FOREX',
+          assetType: 'FOREX',
+          assetNames: getRandomItems(availablePairs, Math.min(CATEGORY_MAX_CARDS.FOREX, availablePairs.length)),
+          calendarYear,
+          maxCards: CATEGORY_MAX_CARDS.FOREX
+        });
+      }
+    }
+
+    // Crypto - PROGRESSIVE UNLOCK (optional)
+    // 2014: BTC, 2017: ETH
+    if (cryptoEnabled && calendarYear === CALENDAR_YEAR_TRIGGERS.CRYPTO) {
+      calendarUnlocks.push({
+        category: 'CRYPTO',
+        assetType: 'CRYPTO',
+        assetNames: ['BTC'],
+        calendarYear,
+        maxCards: 1
+      });
+    }
+    if (cryptoEnabled && calendarYear === CALENDAR_YEAR_TRIGGERS.CRYPTO_2) {
+      calendarUnlocks.push({
+        category: 'CRYPTO',
+        assetType: 'CRYPTO',
+        assetNames: ['ETH'],
+        calendarYear,
+        maxCards: 1
+      });
+    }
+
     // Add calendar-based unlocks to schedule
     if (calendarUnlocks.length > 0) {
       if (!schedule[gameYear]) {
@@ -508,12 +568,16 @@ export const extractSelectedAssetsFromSchedule = (schedule: AssetUnlockSchedule)
   mutualFunds: string[];
   commodity: string;
   reit: string;
+  crypto: string[];
+  forex: string[];
 } => {
   let allStocks: string[] = [];
   let indexFunds: string[] = [];
   let mutualFunds: string[] = [];
   let commodity = '';
   let reit = '';
+  let crypto: string[] = [];
+  let forex: string[] = [];
 
   // Scan through all unlock years to collect assets
   Object.values(schedule).forEach((unlocks: UnlockEntry[]) => {
@@ -542,6 +606,16 @@ export const extractSelectedAssetsFromSchedule = (schedule: AssetUnlockSchedule)
       if (unlock.category === 'REIT') {
         reit = unlock.assetType;
       }
+
+      // Crypto (BTC at calendar 2014, ETH at 2017) - only when enabled
+      if (unlock.assetType === 'CRYPTO' && unlock.assetNames) {
+        crypto = [...new Set([...crypto, ...unlock.assetNames])];
+      }
+
+      // Forex (2 random pairs at calendar 2008) - only when enabled
+      if (unlock.assetType === 'FOREX' && unlock.assetNames) {
+        forex = [...new Set([...forex, ...unlock.assetNames])];
+      }
     });
   });
 
@@ -556,6 +630,8 @@ export const extractSelectedAssetsFromSchedule = (schedule: AssetUnlockSchedule)
     indexFunds: [...new Set(indexFunds)],
     mutualFunds: [...new Set(mutualFunds)],
     commodity,
-    reit
+    reit,
+    crypto,
+    forex
   };
 };
@@ -11,6 +11,7 @@ export interface BankingLog {
   interestRate?: number;
   maturityAmount?: number;
   penaltyAmount?: number;
+  taxDeducted?: number; // Tax on FD interest (when the host enabled taxes)
   remarks?: string;
   gameYear: number;
   gameMonth: number;
@@ -58,7 +59,7 @@ class BankingTracker {
   logFDInvestment(
     fdId: string,
     amount: number,
-    durationMonths: 12 | 24 | 36,
+    durationMonths: number,
     interestRate: number,
     balanceAfter: number,
     gameYear: number,
@@ -85,9 +86,11 @@ class BankingTracker {
     maturityAmount: number,
     balanceAfter: number,
     gameYear: number,
-    gameMonth: number
+    gameMonth: number,
+    taxDeducted: number = 0
   ) {
     const interestEarned = maturityAmount - investedAmount;
+    const taxRemark = taxDeducted > 0 ? `, Tax: ₹${taxDeducted.toFixed(2)}` : '';
     this.logTransaction({
       transactionType: 'fd_maturity',
       subType: 'fd_maturity',
@@ -95,10 +98,11 @@ class BankingTracker {
       balanceAfter,
       fdId,
       maturityAmount,
+      taxDeducted,
       gameYear,
       gameMonth,
       timestamp: Date.now(),
-      remarks: `FD Matured - Principal: ₹${investedAmount.toFixed(2)}, Interest: ₹${interestEarned.toFixed(2)}`,
+      remarks: `FD Matured - Principal: ₹${investedAmount.toFixed(2)}, Interest: ₹${interestEarned.toFixed(2)}${taxRemark}`,
     });
   }
 
@@ -0,0 +1,147 @@
+// Bonds - mirrors BackEND/src/game/bonds.ts (and buyBond/sellBond in playerLedger.ts),
+// so solo bonds earn the same coupons and trade at the same prices as multiplayer ledgers.
+import { Bond, BondType, TaxSettings } from '../types';
+import { calculateCapitalGainsTax, calculateFDInterestTax } from './taxes';
+
+export interface BondTerms {
+  label: string;
+  description: string;
+  tenureMonths: number;
+  spread: number; // % over the 10-year G-sec yield
+  tradeable: boolean;
+}
+
+export const BOND_TERMS: Record<BondType, BondTerms> = {
+  gsec: { label: 'G-Sec 10Y', description: 'Government of India, sell anytime', tenureMonths: 120, spread: 0, tradeable: true },
+  rbi: { label: 'RBI Bond 7Y', description: 'Held to maturity, no price risk', tenureMonths: 84, spread: 0.35, tradeable: false },
+  corporate: { label: 'AAA Corp 5Y', description: 'Higher coupon, sell anytime', tenureMonths: 60, spread: 1.5, tradeable: true },
+};
+
+export const BOND_TYPES = Object.keys(BOND_TERMS) as BondType[];
+export const MAX_BONDS = 5;
+export const MIN_BOND_INVESTMENT = 1000;
+const COUPON_INTERVAL_MONTHS = 6;
+
+// Average 10-year G-sec yield (annual %) by calendar year - same table as the server
+const GSEC_YIELDS: { [year: number]: number } = {
+  2000: 10.9, 2001: 9.4, 2002: 7.4, 2003: 5.9, 2004: 6.7,
+  2005: 7.1, 2006: 7.6, 2007: 7.9, 2008: 7.6, 2009: 7.2,
+  2010: 7.9, 2011: 8.4, 2012: 8.2, 2013: 8.4, 2014: 8.4,
+  2015: 7.8, 2016: 7.0, 2017: 6.9, 2018: 7.7, 2019: 7.0,
+  2020: 6.0, 2021: 6.3, 2022: 7.3, 2023: 7.2, 2024: 7.0,
+  2025: 6.5, 2026: 6.4,
+};
+const DEFAULT_GSEC_YIELD = 7.0;
+
+export const getBondYield = (type: BondType, calendarYear: number, month: number): number => {
+  const thisYear = GSEC_YIELDS[calendarYear] ?? DEFAULT_GSEC_YIELD;
+  const nextYear = GSEC_YIELDS[calendarYear + 1] ?? thisYear;
+  return thisYear + (nextYear - thisYear) * ((month - 1) / 12) + BOND_TERMS[type].spread;
+};
+
+const monthsBetween = (fromYear: number, fromMonth: number, toYear: number, toMonth: number): number =>
+  (toYear - fromYear) * 12 + (toMonth - fromMonth);
+
+/**
+ * Current value of a bond: tradeable bonds are priced off the market yield, RBI bonds stay at face value
+ */
+export const valueBond = (bond: Bond, currentYear: number, currentMonth: number): number => {
+  const monthsRemaining = monthsBetween(currentYear, currentMonth, bond.maturityYear, bond.maturityMonth);
+  if (!BOND_TERMS[bond.type].tradeable || monthsRemaining <= 0) return bond.faceValue;
+
+  const calendarYear = bond.issueYear + currentYear - bond.startYear;
+  const periodRate = getBondYield(bond.type, calendarYear, currentMonth) / 100 / 2;
+  const periods = Math.ceil(monthsRemaining / COUPON_INTERVAL_MONTHS);
+  const coupon = bond.faceValue * (bond.couponRate / 100) / 2;
+  const discount = Math.pow(1 + periodRate, -periods);
+
+  return coupon * (1 - discount) / periodRate + bond.faceValue * discount;
+};
+
+export const getBondsValue = (bonds: Bond[] | undefined, currentYear: number, currentMonth: number): number =>
+  (bonds || []).reduce((sum, bond) => sum + valueBond(bond, currentYear, currentMonth), 0);
+
+export const getBondsInvested = (bonds?: Bond[]): number =>
+  (bonds || []).reduce((sum, bond) => sum + bond.faceValue, 0);
+
+/**
+ * Build a bond bought at par, or explain why it can't be bought
+ */
+export const createBond = (
+  params: {
+    type: BondType;
+    amount: number;
+    pocketCash: number;
+    bonds: Bond[];
+    calendarYear: number;
+    currentYear: number;
+    currentMonth: number;
+  }
+): { bond?: Bond; error?: string } => {
+  const { type, amount, calendarYear, currentYear, currentMonth } = params;
+
+  if (!(amount >= MIN_BOND_INVESTMENT)) return { error: `Minimum bond investment is ₹${MIN_BOND_INVESTMENT}` };
+  if (amount > params.pocketCash) return { error: 'Insufficient funds' };
+  if (params.bonds.length >= MAX_BONDS) return { error: `You can hold at most ${MAX_BONDS} bonds` };
+
+  const { tenureMonths } = BOND_TERMS[type];
+  return {
+    bond: {
+      id: `${Date.now()}-${Math.random()}`,
+      type,
+      faceValue: amount,
+      couponRate: Math.round(getBondYield(type, calendarYear, currentMonth) * 100) / 100,
+      issueYear: calendarYear,
+      startYear: currentYear,
+      startMonth: currentMonth,
+      maturityMonth: (currentMonth + tenureMonths) % 12 || 12,
+      maturityYear: currentYear + Math.floor((currentMonth + tenureMonths - 1) / 12)
+    }
+  };
+};
+
+/**
+ * Proceeds of selling a tradeable bond early: market value less any capital gains tax
+ */
+export const getBondSaleProceeds = (
+  bond: Bond,
+  currentYear: number,
+  currentMonth: number,
+  taxSettings: TaxSettings | null
+): number => {
+  const value = valueBond(bond, currentYear, currentMonth);
+  const holdingMonths = monthsBetween(bond.startYear, bond.startMonth, currentYear, currentMonth);
+  return value - calculateCapitalGainsTax(value - bond.faceValue, holdingMonths, taxSettings);
+};
+
+/**
+ * One month of bond cash flows: half-yearly coupons (taxed like FD interest) and the
+ * face value back at maturity. Matured bonds drop off.
+ */
+export const applyMonthlyBondUpdate = (
+  pocketCash: number,
+  bonds: Bond[],
+  year: number,
+  month: number,
+  taxSettings: TaxSettings | null
+): { pocketCash: number; bonds: Bond[]; couponIncome: number } => {
+  let cash = pocketCash;
+  let couponIncome = 0;
+
+  const openBonds = bonds.filter(bond => {
+    const monthsHeld = monthsBetween(bond.startYear, bond.startMonth, year, month);
+    if (monthsHeld > 0 && monthsHeld % COUPON_INTERVAL_MONTHS === 0) {
+      const coupon = bond.faceValue * (bond.couponRate / 100) / 2;
+      couponIncome += coupon;
+      cash += coupon - calculateFDInterestTax(coupon, taxSettings);
+    }
+
+    if (year === bond.maturityYear && month === bond.maturityMonth) {
+      cash += bond.faceValue;
+      return false;
+    }
+    return true;
+  });
+
+  return { pocketCash: cash, bonds: openBonds, couponIncome };
+};
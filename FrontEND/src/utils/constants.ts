@@ -1,5 +1,26 @@
 export const MONTH_DURATION_MS = 2000; // 2 seconds = 1 month
-export const TOTAL_GAME_YEARS = 20;
+
+// Bounds and presets for the in-game speed control (ms per month, same limits as the server)
+export const MIN_MONTH_DURATION_MS = 500;
+export const MAX_MONTH_DURATION_MS = 60000;
+export const GAME_SPEED_OPTIONS: { label: string; monthDuration: number }[] = [
+  { label: 'Slow-mo', monthDuration: 15000 },
+  { label: 'Normal', monthDuration: 5000 },
+  { label: 'Fast', monthDuration: 2000 },
+  { label: 'Very fast', monthDuration: 1000 },
+  { label: 'Turbo', monthDuration: 500 },
+];
+export const TOTAL_GAME_YEARS = 20; // Default game length (AdminSettings.gameDurationYears overrides it)
+export const MIN_GAME_DURATION_YEARS = 5;
+export const MAX_GAME_DURATION_YEARS = 20;
+
+// Game length from admin settings, falling back to TOTAL_GAME_YEARS when unset or out of range
+export const getTotalGameYears = (settings?: { gameDurationYears?: number } | null): number => {
+  const years = settings?.gameDurationYears;
+  return typeof years === 'number' && Number.isInteger(years) && years >= MIN_GAME_DURATION_YEARS && years <= MAX_GAME_DURATION_YEARS
+    ? years
+    : TOTAL_GAME_YEARS;
+};
 export const STARTING_CASH = 100000; // Starting pocket cash in rupees
 export const SAVINGS_INTEREST_RATE = 0.025; // 2.5% per annum
 export const GAME_START_YEAR = 2005; // Game year 1 maps to calendar year 2005
@@ -8,8 +29,8 @@ export const GAME_START_YEAR = 2005; // Game year 1 maps to calendar year 2005
 export const VALID_START_YEAR_MIN = 2000;
 export const VALID_START_YEAR_MAX = 2005;
 
-// Disabled categories - these will not appear in the game
-export const DISABLED_CATEGORIES = ['CRYPTO', 'FOREX'] as const;
+// Optional categories - only appear when the host enables them in selectedCategories
+export const OPTIONAL_CATEGORIES = ['CRYPTO', 'FOREX'] as const;
 
 // Maximum cards per asset category (HARD-CODED - Single Source of Truth)
 // This cannot be overridden by admin settings
@@ -23,8 +44,9 @@ export const CATEGORY_MAX_CARDS: { [key: string]: number } = {
   MUTUAL_FUND: 2,       // 2 cards when calendar >= 2017
   STOCKS: 3,            // 3 cards total at Year 4 (2 random fixed + 1 additional random)
   REITS: 1,             // 1 card when calendar >= 2020
-  CRYPTO: 0,            // DISABLED
-  FOREX: 0,             // DISABLED
+  BONDS: 1,             // 1 bond card (G-Sec, RBI, corporate) at start of Year 5
+  CRYPTO: 2,            // Optional: BTC at 2014, ETH at 2017
+  FOREX: 2,             // Optional: 2 random currency pairs at 2008
 };
 
 // Calendar year triggers for specific asset unlocks (HARD-CODED - Single Source of Truth)
@@ -35,6 +57,9 @@ export const CALENDAR_YEAR_TRIGGERS: { [key: string]: number } = {
   DIGITAL_GOLD: 2012,    // Gold ETF (1 card) unlocks when calendar year >= 2012
   MUTUAL_FUND: 2017,     // 2 cards unlock when calendar year >= 2017
   REITS: 2020,           // 1 card unlocks when calendar year >= 2020
+  FOREX: 2008,           // 2 random currency pairs unlock when calendar year >= 2008 (optional)
+  CRYPTO: 2014,          // BTC unlocks when calendar year >= 2014 (optional)
+  CRYPTO_2: 2017,        // ETH unlocks when calendar year >= 2017 (optional, progressive)
 };
 
 // Financial quotes - one random quote per year
@@ -73,12 +98,15 @@ export const ASSET_UNLOCK_TIMELINE: { [key: number]: string[] } = {
   2: ['PHYSICAL_GOLD'],                 // Physical gold at start of year 2 (1 card)
   3: ['COMMODITY'],                     // Commodity at start of year 3 (1 random card)
   4: ['INDIAN_STOCKS'],                 // 3 stocks at start of year 4 (2 random fixed + 1 additional)
+  5: ['BONDS'],                         // Bond card at start of year 5 (G-Sec, RBI bond, AAA corporate)
   // Calendar-based unlocks (not tied to game year):
   // - INDEX_FUND: Progressive unlock - NIFTYBEES at 2009, 1 random at 2015 (2 cards total)
   // - DIGITAL_GOLD (Gold ETF): Calendar >= 2012 (1 card)
   // - MUTUAL_FUND: Calendar >= 2017 (2 cards)
   // - REITS: Calendar >= 2020 (1 card)
-  // DISABLED categories (always 0 cards): CRYPTO, FOREX
+  // Optional categories (host opt-in via selectedCategories):
+  // - FOREX: Calendar >= 2008 (2 random pairs)
+  // - CRYPTO: Progressive unlock - BTC at 2014, ETH at 2017
 };
 
 // Available stocks for selection - ALL 90 stocks (data served from PostgreSQL)
@@ -171,39 +199,24 @@ export const getRandomItem = <T>(array: T[]): T => {
   return array[Math.floor(Math.random() * array.length)];
 };
 
+// Number formats follow the player's language (set by utils/i18n.ts). Every supported locale
+// groups digits the Indian way (lakhs, crores); Marathi also switches to Devanagari digits
+let wholeNumberFormat = new Intl.NumberFormat('en-IN', { maximumFractionDigits: 0 });
+let decimalNumberFormat = new Intl.NumberFormat('en-IN', { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+export const setNumberLocale = (locale: string): void => {
+  wholeNumberFormat = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 });
+  decimalNumberFormat = new Intl.NumberFormat(locale, { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+};
+
 // Utility function to format numbers in Indian numbering system (lakhs, crores)
 // Returns whole numbers without decimals for kid-friendly UI
 export const formatIndianNumber = (num: number): string => {
-  const rounded = Math.round(Math.abs(num));
-  const numStr = rounded.toString();
-
-  // Indian numbering system: last 3 digits, then groups of 2
-  const lastThree = numStr.slice(-3);
-  const otherNumbers = numStr.slice(0, -3);
-
-  let formatted = lastThree;
-  if (otherNumbers !== '') {
-    formatted = otherNumbers.replace(/\B(?=(\d{2})+(?!\d))/g, ',') + ',' + lastThree;
-  }
-
-  return formatted;
+  return wholeNumberFormat.format(Math.round(Math.abs(num)));
 };
 
 // Utility function to format stock prices with 1 decimal place
 // Used for stocks where penny stock changes (0.1, 0.6, etc.) matter
 export const formatIndianNumberWithDecimal = (num: number): string => {
-  const absNum = Math.abs(num);
-  const fixed = absNum.toFixed(1); // Keep 1 decimal place
-  const [integerPart, decimalPart] = fixed.split('.');
-
-  // Indian numbering system: last 3 digits, then groups of 2
-  const lastThree = integerPart.slice(-3);
-  const otherNumbers = integerPart.slice(0, -3);
-
-  let formatted = lastThree;
-  if (otherNumbers !== '') {
-    formatted = otherNumbers.replace(/\B(?=(\d{2})+(?!\d))/g, ',') + ',' + lastThree;
-  }
-
-  return `${formatted}.${decimalPart}`;
+  return decimalNumberFormat.format(Math.abs(num));
 };
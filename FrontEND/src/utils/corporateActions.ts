@@ -0,0 +1,77 @@
+// Dividends, splits and bonus issues - mirrors applyCorporateActionsToLedger in
+// BackEND/src/game/playerLedger.ts, which does the same for multiplayer ledgers.
+import { CashTransaction, CorporateAction, CorporateActionPayout, Holdings } from '../types';
+
+type CorporateActionAssetType = 'stocks' | 'reits' | 'indexFund' | 'mutualFund';
+
+// Gold, commodities and crypto have no dividends or splits
+const CORPORATE_ACTION_TYPES: CorporateActionAssetType[] = ['stocks', 'reits', 'indexFund', 'mutualFund'];
+
+/**
+ * Apply corporate actions to holdings without mutating them
+ * Splits and bonuses scale quantity up and average price down, so the amount invested is unchanged
+ */
+export const applyCorporateActions = (
+  holdings: Holdings,
+  actions: CorporateAction[]
+): { holdings: Holdings; payouts: CorporateActionPayout[] } => {
+  const updated: Holdings = { ...holdings };
+  const payouts: CorporateActionPayout[] = [];
+
+  actions.forEach(action => {
+    CORPORATE_ACTION_TYPES.forEach(assetType => {
+      const holding = updated[assetType][action.assetName];
+      if (!holding || holding.quantity <= 0) return;
+
+      const quantityBefore = holding.quantity;
+
+      if (action.actionType === 'dividend') {
+        const amount = quantityBefore * action.amount;
+        if (!(amount > 0)) return;
+
+        payouts.push({ assetType, assetName: action.assetName, actionType: 'dividend', amount, quantityBefore, quantityAfter: quantityBefore });
+        return;
+      }
+
+      if (!(action.factor > 0) || action.factor === 1) return;
+
+      updated[assetType] = {
+        ...updated[assetType],
+        [action.assetName]: {
+          ...holding,
+          quantity: quantityBefore * action.factor,
+          avgPrice: holding.avgPrice / action.factor
+        }
+      };
+      payouts.push({ assetType, assetName: action.assetName, actionType: action.actionType, amount: 0, quantityBefore, quantityAfter: quantityBefore * action.factor });
+    });
+  });
+
+  return { holdings: updated, payouts };
+};
+
+const formatQuantity = (quantity: number): string =>
+  Number.isInteger(quantity) ? String(quantity) : quantity.toFixed(2);
+
+/**
+ * Cash-flow entries for the Total Received breakdown (splits/bonuses are logged with a zero amount)
+ */
+export const toCorporateActionTransactions = (
+  payouts: CorporateActionPayout[],
+  gameYear: number,
+  gameMonth: number
+): CashTransaction[] => {
+  const now = Date.now();
+
+  return payouts.map((payout, idx) => ({
+    id: `${payout.actionType}_${payout.assetName}_${gameYear}_${gameMonth}_${now}_${idx}`,
+    type: payout.actionType === 'dividend' ? 'dividend' : 'corporate_action',
+    amount: payout.amount,
+    message: payout.actionType === 'dividend'
+      ? `Dividend from ${payout.assetName} (${formatQuantity(payout.quantityBefore)} units)`
+      : `${payout.assetName} ${payout.actionType === 'split' ? 'stock split' : 'bonus issue'}: ${formatQuantity(payout.quantityBefore)} → ${formatQuantity(payout.quantityAfter)} units`,
+    gameYear,
+    gameMonth,
+    timestamp: now + idx
+  }));
+};
@@ -1,4 +1,4 @@
-import { AssetData, FDRate } from '../types';
+import { AssetData } from '../types';
 
 export const loadCSV = async (path: string): Promise<string> => {
   const response = await fetch(path);
@@ -49,41 +49,6 @@ export const parseAssetCSV = (csvText: string): AssetData[] => {
   return data;
 };
 
-export const parseFDRates = (csvText: string): FDRate[] => {
-  const lines = csvText.trim().split('\n');
-  const rates: FDRate[] = [];
-
-  for (let i = 3; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const parts = line.split(',');
-    if (parts.length >= 4) {
-      const dateRange = parts[0];
-      const yearMatch = dateRange.match(/\d{4}/);
-      if (yearMatch) {
-        // CSV columns: 1 Year, 2 Year, 3 Year, 5 Year
-        // Map them correctly:
-        // - 1 year: Use 1 Year rate directly
-        // - 2 years: Use 2 Year rate directly
-        // - 3 years: Use 3 Year rate directly
-        const oneYearRate = parseFloat(parts[1]) || 0;
-        const twoYearRate = parseFloat(parts[2]) || 0;
-        const threeYearRate = parseFloat(parts[3]) || 0;
-
-        rates.push({
-          year: parseInt(yearMatch[0]),
-          oneYear: oneYearRate,
-          twoYear: twoYearRate,
-          threeYear: threeYearRate
-        });
-      }
-    }
-  }
-
-  return rates;
-};
-
 export const getAssetPriceAtDate = (assetData: AssetData[], calendarYear: number, month: number): number => {
   if (!assetData || assetData.length === 0) {
     return 0;
@@ -121,30 +86,3 @@ export const getAssetPriceAtDate = (assetData: AssetData[], calendarYear: number
 
   return closestData?.price || 0;
 };
-
-export const getFDRateForYear = (fdRates: FDRate[], calendarYear: number, duration: 12 | 24 | 36): number => {
-  if (!fdRates || fdRates.length === 0) {
-    // Default rates if no data available (annualized)
-    if (duration === 12) return 6.9;
-    if (duration === 24) return 7.0;
-    return 7.5;
-  }
-
-  // Use calendar year directly (e.g., 2005, 2006, etc.)
-  // Find the most recent rate that applies to this year
-  const sortedRates = [...fdRates].sort((a, b) => b.year - a.year);
-  const rate = sortedRates.find(r => r.year <= calendarYear) || fdRates[fdRates.length - 1];
-
-  if (!rate) {
-    // Fallback to default rates (annualized)
-    if (duration === 12) return 6.9;
-    if (duration === 24) return 7.0;
-    return 7.5;
-  }
-
-  // All rates in CSV are annual (PA - Per Annum)
-  // Return the annual rate - calculation will be adjusted based on duration
-  if (duration === 12) return rate.oneYear;    // Annual rate for 1 year
-  if (duration === 24) return rate.twoYear;    // Annual rate for 2 years
-  return rate.threeYear;                        // Annual rate for 3 years
-};
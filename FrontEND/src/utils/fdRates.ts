@@ -0,0 +1,24 @@
+// FD rate lookup - mirrors BackEND/src/services/fdRates.ts. The table comes from the
+// server's fd_rates table via /api/prices/fd-rates, so solo FDs book the multiplayer rates.
+import { FDRateTable } from '../types';
+
+// Used when no year up to the current one has a rate for a standard tenure
+const DEFAULT_FD_RATES: { [tenureMonths: number]: number } = { 12: 5.0, 24: 6.0, 36: 7.0 };
+
+/**
+ * Rates (tenure in months -> annual %) on offer in a calendar year.
+ * Each tenure keeps the rate of the latest year at or before calendarYear that set it.
+ */
+export const getFDRatesForYear = (table: FDRateTable, calendarYear: number): { [tenureMonths: number]: number } => {
+  const rates: { [tenureMonths: number]: number } = { ...DEFAULT_FD_RATES };
+  const years = Object.keys(table).map(Number).filter(year => year <= calendarYear).sort((a, b) => a - b);
+
+  for (const year of years) {
+    Object.assign(rates, table[year]);
+  }
+  return rates;
+};
+
+// "1Yr" for whole years, "18M" otherwise
+export const formatFDTenure = (tenureMonths: number): string =>
+  tenureMonths % 12 === 0 ? `${tenureMonths / 12}Yr` : `${tenureMonths}M`;
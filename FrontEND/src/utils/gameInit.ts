@@ -1,14 +1,12 @@
 import { AdminSettings } from "../types";
 import { FINANCIAL_QUOTES } from "../utils/constants";
-import { generateAssetUnlockSchedule, extractSelectedAssetsFromSchedule } from "../utils/assetUnlockCalculator";
+import { extractSelectedAssetsFromSchedule } from "../utils/assetUnlockCalculator";
+import { generateGameUnlockSchedule } from "../utils/scenarios";
 import { generateQuestionIndices } from "../utils/assetEducation";
 
 export function generateInitialGameData(adminSettings: AdminSettings) {
   // Generate unlock schedule first
-  const assetUnlockSchedule = generateAssetUnlockSchedule(
-    adminSettings.selectedCategories,
-    adminSettings.gameStartYear
-  );
+  const assetUnlockSchedule = generateGameUnlockSchedule(adminSettings);
 
   // Extract selected assets from the schedule (ensures consistency)
   const assetsFromSchedule = extractSelectedAssetsFromSchedule(assetUnlockSchedule);
@@ -31,6 +29,8 @@ export function generateInitialGameData(adminSettings: AdminSettings) {
     mutualFunds: assetsFromSchedule.mutualFunds,
     commodity: assetsFromSchedule.commodity,
     reit: assetsFromSchedule.reit,
+    crypto: assetsFromSchedule.crypto,
+    forex: assetsFromSchedule.forex,
   };
 
   const yearlyQuotes = [...FINANCIAL_QUOTES].sort(() => Math.random() - 0.5);
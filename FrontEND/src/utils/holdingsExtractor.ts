@@ -247,6 +247,28 @@ export function extractHoldingsData(
     });
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0 && assetDataMap[pair]) {
+      const currentPrice = getAssetPriceAtDate(assetDataMap[pair], calendarYear, gameMonth);
+      const currentValue = holding.quantity * currentPrice;
+      const unrealizedPL = currentValue - holding.totalInvested;
+
+      holdings.push({
+        assetCategory: 'forex',
+        assetName: pair,
+        quantity: holding.quantity,
+        avgPrice: holding.avgPrice,
+        totalInvested: holding.totalInvested,
+        currentPrice,
+        currentValue,
+        unrealizedPL,
+        gameYear,
+        gameMonth,
+      });
+    }
+  });
+
   return holdings;
 }
 
@@ -518,5 +540,27 @@ export function extractHoldingsDataWithPrices(
     });
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0) {
+      const currentPrice = getPrice(pair);
+      const currentValue = holding.quantity * currentPrice;
+      const unrealizedPL = currentValue - holding.totalInvested;
+
+      holdings.push({
+        assetCategory: 'forex',
+        assetName: pair,
+        quantity: holding.quantity,
+        avgPrice: holding.avgPrice,
+        totalInvested: holding.totalInvested,
+        currentPrice,
+        currentValue,
+        unrealizedPL,
+        gameYear,
+        gameMonth,
+      });
+    }
+  });
+
   return holdings;
 }
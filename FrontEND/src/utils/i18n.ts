@@ -0,0 +1,64 @@
+// UI translations. Bundles live in ../locales; quiz and life event text comes translated from the server
+import { Language } from '../types';
+import { FINANCIAL_QUOTES, setNumberLocale } from './constants';
+import { AssetInfo } from './stockInfo';
+import { messages as enMessages, MessageKey, LocaleBundle } from '../locales/en';
+import { hi } from '../locales/hi';
+import { mr } from '../locales/mr';
+import { ta } from '../locales/ta';
+
+export type { MessageKey };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Each language is listed under its own name so players can find it
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'hi', label: 'हिन्दी' },
+  { value: 'mr', label: 'मराठी' },
+  { value: 'ta', label: 'தமிழ்' },
+];
+
+const BUNDLES: Record<Language, LocaleBundle> = {
+  en: { messages: enMessages, quotes: FINANCIAL_QUOTES, sectors: {}, assetDescriptions: {} },
+  hi,
+  mr,
+  ta,
+};
+
+let currentLanguage: Language = DEFAULT_LANGUAGE;
+
+export const isLanguage = (value: unknown): value is Language => {
+  return typeof value === 'string' && value in BUNDLES;
+};
+
+export const getLanguage = (): Language => currentLanguage;
+
+// Switch the UI language; number formatting follows it
+export const setLanguage = (language: Language): void => {
+  currentLanguage = language;
+  setNumberLocale(`${language}-IN`);
+};
+
+// Look up a UI string, filling {placeholders} from params
+export const translate = (key: MessageKey, params?: { [name: string]: string | number }): string => {
+  const text = BUNDLES[currentLanguage].messages[key] || enMessages[key];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) => (params[name] !== undefined ? String(params[name]) : match));
+};
+
+// Yearly quotes are stored in English in the game state; show the matching translation
+export const localizeQuote = (quote: string): string => {
+  const index = FINANCIAL_QUOTES.indexOf(quote);
+  return index >= 0 ? BUNDLES[currentLanguage].quotes[index] || quote : quote;
+};
+
+// Asset tooltips keep the company name and translate the sector and description
+export const localizeAssetInfo = (info: AssetInfo): AssetInfo => {
+  const bundle = BUNDLES[currentLanguage];
+  return {
+    ...info,
+    sector: bundle.sectors[info.sector] || info.sector,
+    description: bundle.assetDescriptions[info.description] || info.description,
+  };
+};
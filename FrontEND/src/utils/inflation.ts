@@ -0,0 +1,64 @@
+// Inflation adjustment - getCPIForMonth mirrors BackEND/src/services/marketDataService.ts,
+// so the end screen and the AI report deflate results with the same CPI curve.
+import { CPIPoint } from '../types';
+
+const toMonthIndex = (date: string) => parseInt(date.slice(0, 4), 10) * 12 + parseInt(date.slice(5, 7), 10) - 1;
+
+/**
+ * CPI for a calendar month, interpolated between the surrounding points and held flat
+ * before the first / after the last one. Null when the series is empty.
+ */
+export const getCPIForMonth = (series: CPIPoint[], year: number, month: number): number | null => {
+  if (series.length === 0) return null;
+
+  const target = year * 12 + month - 1;
+  if (target <= toMonthIndex(series[0].date)) return series[0].value;
+
+  for (let i = 1; i < series.length; i++) {
+    const end = toMonthIndex(series[i].date);
+    if (target <= end) {
+      const start = toMonthIndex(series[i - 1].date);
+      const progress = (target - start) / (end - start);
+      return series[i - 1].value + (series[i].value - series[i - 1].value) * progress;
+    }
+  }
+
+  return series[series.length - 1].value;
+};
+
+/**
+ * How much prices rose between two calendar months (1.5 means ₹1.50 buys what ₹1 did).
+ * 1 when there is no CPI data, so real values fall back to nominal.
+ */
+export const getInflationFactor = (
+  series: CPIPoint[],
+  fromYear: number,
+  fromMonth: number,
+  toYear: number,
+  toMonth: number
+): number => {
+  const from = getCPIForMonth(series, fromYear, fromMonth);
+  const to = getCPIForMonth(series, toYear, toMonth);
+  return from && to ? to / from : 1;
+};
+
+/**
+ * What ₹1 of cash held since the first month is worth in each of the last `months`
+ * months (oldest first, starting at 1) - drawn as the "purchasing power of cash" line.
+ */
+export const getPurchasingPowerHistory = (
+  series: CPIPoint[],
+  calendarYear: number,
+  month: number,
+  months: number
+): number[] => {
+  const end = calendarYear * 12 + month - 1;
+  const start = end - months + 1;
+  const history: number[] = [];
+
+  for (let index = start; index <= end; index++) {
+    const factor = getInflationFactor(series, Math.floor(start / 12), (start % 12) + 1, Math.floor(index / 12), (index % 12) + 1);
+    history.push(1 / factor);
+  }
+  return history;
+};
@@ -0,0 +1,65 @@
+// Insurance - mirrors BackEND/src/game/insurance.ts (and buyInsurance/cancelInsurance in playerLedger.ts),
+// so solo policies cost and renew the same as on multiplayer ledgers.
+import { InsurancePolicy, InsuranceType } from '../types';
+import { getIncomeScale } from './lifeEvents';
+
+export interface InsuranceProduct {
+  label: string;
+  description: string;
+  annualPremium: number; // At the default income in game year 1
+  coverRatio: number;
+}
+
+export const INSURANCE_PRODUCTS: Record<InsuranceType, InsuranceProduct> = {
+  HEALTH: { label: 'Health Insurance', description: 'Covers 80% of medical emergencies', annualPremium: 8000, coverRatio: 0.8 },
+  VEHICLE: { label: 'Vehicle Insurance', description: 'Covers 70% of vehicle repairs', annualPremium: 4000, coverRatio: 0.7 },
+};
+
+export const INSURANCE_TYPES = Object.keys(INSURANCE_PRODUCTS) as InsuranceType[];
+const PREMIUM_ESCALATION = 0.07;
+
+export const getInsurancePremium = (type: InsuranceType, recurringIncome: number, gameYear: number): number => {
+  const { annualPremium } = INSURANCE_PRODUCTS[type];
+  return Math.round(annualPremium * getIncomeScale(recurringIncome) * Math.pow(1 + PREMIUM_ESCALATION, gameYear - 1));
+};
+
+export const createInsurancePolicy = (
+  type: InsuranceType,
+  recurringIncome: number,
+  currentYear: number,
+  currentMonth: number
+): InsurancePolicy => ({
+  id: `${Date.now()}-${Math.random()}`,
+  type,
+  premium: getInsurancePremium(type, recurringIncome, currentYear),
+  coverRatio: INSURANCE_PRODUCTS[type].coverRatio,
+  startYear: currentYear,
+  startMonth: currentMonth,
+});
+
+// Renew policies on their anniversary; a policy lapses when pocket cash can't pay the renewal
+export const applyMonthlyInsuranceUpdate = (
+  pocketCash: number,
+  policies: InsurancePolicy[],
+  recurringIncome: number,
+  year: number,
+  month: number
+): { pocketCash: number; policies: InsurancePolicy[] } => {
+  let cash = pocketCash;
+  const renewed: InsurancePolicy[] = [];
+
+  policies.forEach(policy => {
+    if (month !== policy.startMonth || year <= policy.startYear) {
+      renewed.push(policy);
+      return;
+    }
+
+    const premium = getInsurancePremium(policy.type, recurringIncome, year);
+    if (cash >= premium) {
+      cash -= premium;
+      renewed.push({ ...policy, premium });
+    }
+  });
+
+  return { pocketCash: cash, policies: renewed };
+};
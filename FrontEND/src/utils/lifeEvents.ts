@@ -1,49 +1,64 @@
-import { LifeEvent } from '../types';
-
-export const EVENT_POOL = {
-  losses: [
-    { message: 'House robbery during Diwali', amount: -30000 },
-    { message: 'Family medical emergency', amount: -75000 },
-    { message: 'Vehicle repair after monsoon', amount: -20000 },
-    { message: 'Wedding shopping expenses', amount: -50000 },
-    { message: 'Health insurance deductible', amount: -25000 },
-    { message: 'Home repairs after flooding', amount: -45000 },
-    { message: 'Laptop suddenly stopped working', amount: -50000 },
-    { message: 'Legal fees for property dispute', amount: -40000 },
-    { message: 'AC breakdown in peak summer', amount: -10000 },
-    { message: 'Parent hospitalization costs', amount: -80000 },
-    { message: 'Car accident - insurance excess', amount: -22000 },
-    { message: 'Stolen mobile phone', amount: -12000 },
-    { message: 'Urgent home appliance replacement', amount: -28000 },
-    { message: 'Child school fees increase', amount: -50000 },
-    { message: 'Unexpected tax liability', amount: -30000 },
-    { message: 'Emergency dental treatment', amount: -18000 },
-    { message: 'Bike accident repair', amount: -14000 },
-    { message: 'Flooding damaged furniture', amount: -40000 },
-    { message: 'Friend wedding gift expected', amount: -10000 },
-    { message: 'Pet medical emergency', amount: -10000 }
-  ],
-  gains: [
-    { message: 'Diwali bonus from company', amount: 50000 },
-    { message: 'Freelance project bonus', amount: 40000 },
-    { message: 'Side business profit', amount: 35000 },
-    { message: 'Performance bonus at work', amount: 45000 },
-    { message: 'Tax refund received', amount: 25000 },
-    { message: 'Sold old items online', amount: 15000 },
-    { message: 'Investment dividend received', amount: 30000 }
-  ]
-};
+// Life events - mirrors BackEND/src/game/lifeEvents.ts, so solo players get the same
+// scheduling, scaling, choices and insurance cover as multiplayer.
+import { CPIPoint, FixedDeposit, InsurancePolicy, LifeEvent, LifeEventTemplate } from '../types';
+import { TOTAL_GAME_YEARS } from './constants';
+import { getCPIForMonth } from './inflation';
 
-const TOTAL_GAME_YEARS = 20;
+// Pool amounts are set for the default half-yearly income
+export const DEFAULT_RECURRING_INCOME = 50000;
+const ASSUMED_INFLATION = 0.06;
 
-function randInt(min: number, max: number) {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export interface LifeEventContext {
+  pool?: LifeEventTemplate[]; // Admin-authored pool served by /api/game/life-events/pool
+  recurringIncome?: number;
+  gameStartYear?: number;
+  gameStartMonth?: number;
+  cpiSeries?: CPIPoint[];
 }
 
-export function generateLifeEvents(count: number, assetUnlockSchedule?: any): LifeEvent[] {
+export const getIncomeScale = (recurringIncome?: number): number =>
+  recurringIncome && recurringIncome > 0 ? recurringIncome / DEFAULT_RECURRING_INCOME : 1;
+
+const getPriceScale = (context: LifeEventContext, gameYear: number, gameMonth: number): number => {
+  const startYear = context.gameStartYear;
+  const startMonth = context.gameStartMonth || 1;
+  if (!startYear) return 1;
+
+  const from = getCPIForMonth(context.cpiSeries || [], startYear, startMonth);
+  const to = getCPIForMonth(context.cpiSeries || [], startYear + gameYear - 1, gameMonth);
+  if (from && to) return to / from;
+
+  const monthsElapsed = (gameYear - 1) * 12 + gameMonth - startMonth;
+  return Math.pow(1 + ASSUMED_INFLATION, monthsElapsed / 12);
+};
+
+const pickTemplate = (candidates: LifeEventTemplate[], used: Set<string>): LifeEventTemplate | null => {
+  const fresh = candidates.filter(t => !used.has(t.message));
+  const options = fresh.length > 0 ? fresh : candidates;
+  const totalWeight = options.reduce((sum, t) => sum + Math.max(0, t.weight), 0);
+  if (totalWeight <= 0) return null;
+
+  let roll = Math.random() * totalWeight;
+  for (const template of options) {
+    roll -= Math.max(0, template.weight);
+    if (roll < 0) return template;
+  }
+  return options[options.length - 1];
+};
+
+// Every eligible month (Year 4 to the second-last year, skipping asset-unlock months) gets an
+// event with the same probability, so `count` events are expected on average
+export function generateLifeEvents(
+  count: number,
+  assetUnlockSchedule?: any,
+  totalYears: number = TOTAL_GAME_YEARS,
+  context: LifeEventContext = {}
+): LifeEvent[] {
   const events: LifeEvent[] = [];
-  const disallowed = new Set<string>();
+  const pool = (context.pool || []).filter(t => t.enabled !== false);
+  if (count <= 0 || pool.length === 0) return events;
 
+  const disallowed = new Set<string>();
   if (assetUnlockSchedule) {
     for (const y of Object.keys(assetUnlockSchedule)) {
       const yearNum = Number(y);
@@ -51,49 +66,82 @@ export function generateLifeEvents(count: number, assetUnlockSchedule?: any): Li
     }
   }
 
-  const pool = [...EVENT_POOL.gains, ...EVENT_POOL.losses];
+  const slots: Array<{ year: number; month: number }> = [];
+  for (let year = 4; year <= totalYears - 1; year++) {
+    for (let month = 1; month <= 12; month++) {
+      if (!disallowed.has(`${year}-${month}`)) slots.push({ year, month });
+    }
+  }
+  if (slots.length === 0) return events;
+
+  const probability = Math.min(1, count / slots.length);
+  const maxEvents = count * 2;
+  const incomeScale = getIncomeScale(context.recurringIncome);
   const usedMessages = new Set<string>();
 
-  let attempts = 0;
-  while (events.length < count && attempts < count * 20) {
-    attempts++;
-    const candidate = pool[Math.floor(Math.random() * pool.length)];
-    if (usedMessages.has(candidate.message) && usedMessages.size < pool.length) continue;
-
-    // Life events only appear in Years 4-19 (not in first 3 years, not in last year)
-    let year = randInt(4, TOTAL_GAME_YEARS - 1);
-    let month = randInt(1, 12);
-
-    let innerAttempts = 0;
-    while ((disallowed.has(`${year}-${month}`) || events.some(e => e.gameYear === year && e.gameMonth === month)) && innerAttempts < 50) {
-      year = randInt(4, TOTAL_GAME_YEARS - 1);
-      month = randInt(1, 12);
-      innerAttempts++;
-    }
+  for (const { year, month } of slots) {
+    if (events.length >= maxEvents) break;
+    if (Math.random() >= probability) continue;
 
-    if (innerAttempts >= 50) {
-      year = randInt(4, TOTAL_GAME_YEARS - 1);
-      month = randInt(1, 12);
-      let shiftAttempts = 0;
-      while (events.some(e => e.gameYear === year && e.gameMonth === month) && shiftAttempts < 24) {
-        month = (month % 12) + 1;
-        shiftAttempts++;
-      }
-    }
+    const template = pickTemplate(pool.filter(t => !t.months || t.months.length === 0 || t.months.includes(month)), usedMessages);
+    if (!template) continue;
 
-    const ev: LifeEvent = {
+    const amount = Math.round((template.amount * incomeScale * getPriceScale(context, year, month)) / 100) * 100;
+
+    events.push({
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
-      type: candidate.amount >= 0 ? 'gain' : 'loss',
-      message: candidate.message,
-      amount: candidate.amount,
+      type: amount >= 0 ? 'gain' : 'loss',
+      message: template.message,
+      amount,
       gameYear: year,
       gameMonth: month,
-      triggered: false
-    };
+      triggered: false,
+      ...(template.insuranceType && amount < 0 ? { insuranceType: template.insuranceType } : {}),
+      ...(template.choices && template.choices.length > 0 && amount < 0 ? { choices: template.choices } : {}),
+    });
+    usedMessages.add(template.message);
+  }
+
+  return events;
+}
+
+// Settle a triggered event with the chosen option (first one by default) and any matching insurance cover
+export function resolveLifeEvent(event: LifeEvent, choiceId: string | undefined, policies: InsurancePolicy[] = []): LifeEvent {
+  if (event.grossAmount !== undefined) return event;
+
+  const choice = event.choices?.find(c => c.id === choiceId) ?? event.choices?.[0];
+  const grossAmount = Math.round(event.amount * (choice?.amountFactor ?? 1));
+  const policy = grossAmount < 0 && event.insuranceType
+    ? policies.find(p => p.type === event.insuranceType)
+    : undefined;
+  const insuranceCover = policy ? Math.round(Math.abs(grossAmount) * policy.coverRatio) : 0;
+
+  return {
+    ...event,
+    awaitingChoice: false,
+    choiceId: choice?.id,
+    grossAmount,
+    insuranceCover,
+    amount: grossAmount + insuranceCover,
+  };
+}
+
+// Running, unpledged FDs to break (oldest first) until the proceeds cover `cost`
+export function selectFDsToBreak(
+  fixedDeposits: FixedDeposit[],
+  cost: number,
+  breakPenalty: number,
+  isPledged: (fdId: string) => boolean
+): FixedDeposit[] {
+  const selected: FixedDeposit[] = [];
+  let proceeds = 0;
 
-    events.push(ev);
-    usedMessages.add(candidate.message);
+  for (const fd of fixedDeposits) {
+    if (proceeds >= cost) break;
+    if (fd.isMatured || isPledged(fd.id)) continue;
+    selected.push(fd);
+    proceeds += fd.amount * (1 - breakPenalty);
   }
 
-  return events.sort((a, b) => (a.gameYear - b.gameYear) || (a.gameMonth - b.gameMonth));
+  return selected;
 }
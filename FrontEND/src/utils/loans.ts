@@ -0,0 +1,133 @@
+// Loans and overdraft - mirrors BackEND/src/game/loans.ts and takeLoan in playerLedger.ts,
+// so solo games borrow and repay on the same terms as multiplayer ledgers.
+import { AdminSettings, FixedDeposit, Loan, LoanSettings, LoanType } from '../types';
+
+export const DEFAULT_LOAN_SETTINGS: LoanSettings = {
+  enabled: true,
+  personalLoanRate: 0.14,
+  securedLoanRate: 0.09, // Against an FD or physical gold
+  overdraftRate: 0.18,
+  maxPersonalLoan: 200000,
+  loanToValue: 0.75,
+};
+
+export type LoanTenure = 12 | 24 | 36;
+
+export const MAX_ACTIVE_LOANS = 3;
+
+/**
+ * Active loan settings for a game, or null when the host switched borrowing off
+ */
+export const getLoanSettings = (settings?: Pick<AdminSettings, 'loanSettings'> | null): LoanSettings | null => {
+  const loanSettings = settings?.loanSettings;
+  if (!loanSettings) return DEFAULT_LOAN_SETTINGS;
+  return loanSettings.enabled ? loanSettings : null;
+};
+
+export const getLoanRate = (type: LoanType, settings: LoanSettings): number =>
+  type === 'personal' ? settings.personalLoanRate : settings.securedLoanRate;
+
+// Equated monthly instalment for a reducing-balance loan
+export const calculateEMI = (principal: number, annualRate: number, tenureMonths: number): number => {
+  const monthlyRate = annualRate / 12;
+  if (monthlyRate === 0) return principal / tenureMonths;
+  const growth = Math.pow(1 + monthlyRate, tenureMonths);
+  return (principal * monthlyRate * growth) / (growth - 1);
+};
+
+export const getOutstandingLoans = (loans?: Loan[]): number =>
+  (loans || []).reduce((sum, loan) => sum + loan.outstanding, 0);
+
+export const getPledgedGoldQuantity = (loans?: Loan[]): number =>
+  (loans || []).reduce((sum, loan) => sum + (loan.pledgedGoldQuantity || 0), 0);
+
+export const isFDPledged = (loans: Loan[] | undefined, fdId: string): boolean =>
+  (loans || []).some(loan => loan.collateralFdId === fdId);
+
+/**
+ * Build a new loan, or explain why it can't be taken
+ */
+export const createLoan = (
+  params: {
+    type: LoanType;
+    amount: number;
+    tenureMonths: LoanTenure;
+    loans: Loan[];
+    fixedDeposits: FixedDeposit[];
+    physicalGoldQuantity: number;
+    currentYear: number;
+    currentMonth: number;
+    fdId?: string;
+    goldPrice?: number;
+  },
+  settings: LoanSettings | null
+): { loan?: Loan; error?: string } => {
+  const { type, amount, tenureMonths, loans } = params;
+
+  if (!settings) return { error: 'Loans are disabled for this game' };
+  if (!(amount > 0)) return { error: 'Invalid amount' };
+  if (loans.length >= MAX_ACTIVE_LOANS) return { error: `You can have at most ${MAX_ACTIVE_LOANS} loans` };
+
+  const rate = getLoanRate(type, settings);
+  const loan: Loan = {
+    id: `${Date.now()}-${Math.random()}`,
+    type,
+    principal: amount,
+    interestRate: rate * 100,
+    tenureMonths,
+    emi: calculateEMI(amount, rate, tenureMonths),
+    outstanding: amount,
+    startYear: params.currentYear,
+    startMonth: params.currentMonth
+  };
+
+  if (type === 'personal') {
+    const borrowed = loans.filter(l => l.type === 'personal').reduce((sum, l) => sum + l.outstanding, 0);
+    if (borrowed + amount > settings.maxPersonalLoan) return { error: 'Amount is above your personal loan limit' };
+  } else if (type === 'fdBacked') {
+    const fd = params.fixedDeposits.find(f => f.id === params.fdId);
+    if (!fd || fd.isMatured) return { error: 'Choose a running fixed deposit to borrow against' };
+    if (isFDPledged(loans, fd.id)) return { error: 'This fixed deposit is already pledged' };
+    if (amount > fd.amount * settings.loanToValue) return { error: 'Amount is above the loan limit for this fixed deposit' };
+    loan.collateralFdId = fd.id;
+  } else {
+    const goldPrice = params.goldPrice || 0;
+    if (!(goldPrice > 0)) return { error: 'Gold price not available for this period' };
+    const freeGold = params.physicalGoldQuantity - getPledgedGoldQuantity(loans);
+    if (amount > freeGold * goldPrice * settings.loanToValue) return { error: 'Not enough unpledged physical gold for this amount' };
+    // Pledge only as much gold as the amount needs
+    loan.pledgedGoldQuantity = Math.min(freeGold, amount / (goldPrice * settings.loanToValue));
+  }
+
+  return { loan };
+};
+
+/**
+ * One month of borrowing costs: overdraft interest on negative pocket cash, then every EMI.
+ * Repaid loans drop off, releasing their collateral.
+ */
+export const applyMonthlyLoanUpdate = (
+  pocketCash: number,
+  loans: Loan[],
+  settings: LoanSettings | null
+): { pocketCash: number; loans: Loan[] } => {
+  let cash = pocketCash;
+
+  if (settings && cash < 0) {
+    cash -= Math.abs(cash) * (settings.overdraftRate / 12);
+  }
+
+  const openLoans: Loan[] = [];
+  loans.forEach(loan => {
+    const interest = loan.outstanding * (loan.interestRate / 100 / 12);
+    const principalPaid = Math.min(Math.max(loan.emi - interest, 0), loan.outstanding);
+    cash -= interest + principalPaid;
+
+    const outstanding = loan.outstanding - principalPaid;
+    if (outstanding > 0.01) {
+      openLoans.push({ ...loan, outstanding });
+    }
+  });
+
+  return { pocketCash: cash, loans: openLoans };
+};
@@ -1,5 +1,8 @@
 import { GameState, AssetData } from '../types';
 import { getAssetPriceAtDate } from './csvLoader';
+import { getOutstandingLoans } from './loans';
+import { getBondsValue } from './bonds';
+import { getGameStartMonth } from './scenarios';
 
 /**
  * Type for a price lookup function
@@ -14,8 +17,10 @@ export function calculateTotalCapital(gameState: GameState): number {
   const recurringIncome = gameState.adminSettings?.recurringIncome || 0;
 
   // Count how many times recurring income was added (every 6 months)
+  // A scenario that opens mid-year skips the paydays before its first month
   const totalMonths = (gameState.currentYear - 1) * 12 + gameState.currentMonth;
-  const recurringPayments = Math.floor(totalMonths / 6);
+  const skippedPayments = Math.floor((getGameStartMonth(gameState.adminSettings) - 1) / 6);
+  const recurringPayments = Math.floor(totalMonths / 6) - skippedPayments;
 
   return initialCash + (recurringIncome * recurringPayments);
 }
@@ -155,6 +160,20 @@ export function calculateNetworth(
     currentValue += gameState.holdings.reits['MINDSPACE'].quantity * price;
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0 && assetDataMap[pair]) {
+      const price = getAssetPriceAtDate(assetDataMap[pair], calendarYear, gameState.currentMonth);
+      currentValue += holding.quantity * price;
+    }
+  });
+
+  // Bonds
+  currentValue += getBondsValue(gameState.bonds, gameState.currentYear, gameState.currentMonth);
+
+  // Loans still being repaid
+  currentValue -= getOutstandingLoans(gameState.loans);
+
   return currentValue;
 }
 
@@ -173,6 +192,7 @@ export function calculatePortfolioBreakdown(
   let cryptoValue = 0;
   let commoditiesValue = 0;
   let reitsValue = 0;
+  let forexValue = 0;
 
   // Gold
   if (gameState.holdings.physicalGold.quantity > 0 && assetDataMap['Physical_Gold']) {
@@ -257,6 +277,14 @@ export function calculatePortfolioBreakdown(
     reitsValue += gameState.holdings.reits['MINDSPACE'].quantity * price;
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0 && assetDataMap[pair]) {
+      const price = getAssetPriceAtDate(assetDataMap[pair], calendarYear, gameState.currentMonth);
+      forexValue += holding.quantity * price;
+    }
+  });
+
   // Calculate FD value with accrued interest (rates are PA)
   let fdValue = 0;
   gameState.fixedDeposits.forEach((fd) => {
@@ -289,6 +317,9 @@ export function calculatePortfolioBreakdown(
     crypto: cryptoValue,
     commodities: commoditiesValue,
     reits: reitsValue,
+    forex: forexValue,
+    bonds: getBondsValue(gameState.bonds, gameState.currentYear, gameState.currentMonth),
+    loans: -getOutstandingLoans(gameState.loans),
   };
 }
 
@@ -407,6 +438,20 @@ export function calculateNetworthWithPrices(
     currentValue += gameState.holdings.reits['MINDSPACE'].quantity * price;
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0) {
+      const price = getPrice(pair);
+      currentValue += holding.quantity * price;
+    }
+  });
+
+  // Bonds
+  currentValue += getBondsValue(gameState.bonds, gameState.currentYear, gameState.currentMonth);
+
+  // Loans still being repaid
+  currentValue -= getOutstandingLoans(gameState.loans);
+
   return currentValue;
 }
 
@@ -424,6 +469,7 @@ export function calculatePortfolioBreakdownWithPrices(
   let cryptoValue = 0;
   let commoditiesValue = 0;
   let reitsValue = 0;
+  let forexValue = 0;
 
   // Gold
   if (gameState.holdings.physicalGold.quantity > 0) {
@@ -531,6 +577,14 @@ export function calculatePortfolioBreakdownWithPrices(
     reitsValue += gameState.holdings.reits['MINDSPACE'].quantity * price;
   }
 
+  // Forex
+  Object.entries(gameState.holdings.forex || {}).forEach(([pair, holding]) => {
+    if (holding.quantity > 0) {
+      const price = getPrice(pair);
+      forexValue += holding.quantity * price;
+    }
+  });
+
   // Calculate FD value with accrued interest (rates are PA)
   let fdValue = 0;
   gameState.fixedDeposits.forEach((fd) => {
@@ -564,6 +618,9 @@ export function calculatePortfolioBreakdownWithPrices(
     crypto: cryptoValue,
     commodities: commoditiesValue,
     reits: reitsValue,
+    forex: forexValue,
+    bonds: getBondsValue(gameState.bonds, gameState.currentYear, gameState.currentMonth),
+    loans: -getOutstandingLoans(gameState.loans),
   };
 
   // Validate breakdown sums correctly
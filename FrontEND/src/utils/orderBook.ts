@@ -0,0 +1,81 @@
+// Standing order book for solo games: which orders fill at this month's prices and how the book
+// changes afterwards. Multiplayer books live on the server ledger (BackEND/src/game/orderBook.ts).
+import { GameState, Holdings, StandingOrder } from '../types';
+import { getTaxSettings, calculateTradeCharges } from './taxes';
+import { getPledgedGoldQuantity } from './loans';
+
+type SingleHoldingType = 'physicalGold' | 'digitalGold' | 'commodity';
+type GroupedHoldingType = 'stocks' | 'crypto' | 'reits' | 'indexFund' | 'mutualFund' | 'forex';
+
+export const isSingleHolding = (assetType: string): assetType is SingleHoldingType =>
+  assetType === 'physicalGold' || assetType === 'digitalGold' || assetType === 'commodity';
+
+export const isGroupedHolding = (assetType: string): assetType is GroupedHoldingType =>
+  assetType === 'stocks' || assetType === 'crypto' || assetType === 'reits' || assetType === 'indexFund' || assetType === 'mutualFund' || assetType === 'forex';
+
+export const getHeldQuantity = (holdings: Holdings, assetType: string, assetName: string): number => {
+  if (isSingleHolding(assetType)) return holdings[assetType].quantity;
+  if (isGroupedHolding(assetType)) return holdings[assetType][assetName]?.quantity || 0;
+  return 0;
+};
+
+export interface OrderFill {
+  order: StandingOrder;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+}
+
+// Work out which standing orders fire at the given prices. Buys are funded in
+// book order from pocket cash; sells never exceed what is actually held.
+export const collectOrderFills = (state: GameState, getPrice: (assetName: string) => number): OrderFill[] => {
+  const fills: OrderFill[] = [];
+  let cash = state.pocketCash;
+  const sold = new Map<string, number>();
+  const taxSettings = getTaxSettings(state.adminSettings);
+  const buyCost = (order: StandingOrder, quantity: number, price: number) =>
+    quantity * price + calculateTradeCharges('buy', order.assetType, quantity * price, taxSettings).total;
+
+  for (const order of state.openOrders || []) {
+    const price = getPrice(order.assetName);
+    if (!(price > 0)) continue;
+
+    if (order.type === 'sip') {
+      if (order.lastExecutedYear === state.currentYear && order.lastExecutedMonth === state.currentMonth) continue;
+      const quantity = Math.floor((order.amount || 0) / price);
+      if (quantity <= 0 || buyCost(order, quantity, price) > cash) continue;
+      cash -= buyCost(order, quantity, price);
+      fills.push({ order, side: 'buy', quantity, price });
+    } else if (order.type === 'limitBuy') {
+      const quantity = order.quantity || 0;
+      if (price > (order.triggerPrice || 0) || quantity <= 0 || buyCost(order, quantity, price) > cash) continue;
+      cash -= buyCost(order, quantity, price);
+      fills.push({ order, side: 'buy', quantity, price });
+    } else {
+      // Limit sells fire at or above their price, stop-losses at or below
+      const trigger = order.triggerPrice || 0;
+      const triggered = order.type === 'limitSell' ? price >= trigger : price <= trigger;
+      if (!triggered) continue;
+      const key = `${order.assetType}|${order.assetName}`;
+      // Gold pledged against a loan can't be sold
+      const pledged = order.assetType === 'physicalGold' ? getPledgedGoldQuantity(state.loans) : 0;
+      const available = getHeldQuantity(state.holdings, order.assetType, order.assetName) - pledged - (sold.get(key) || 0);
+      const quantity = Math.min(order.quantity || 0, available);
+      if (quantity <= 0) continue;
+      sold.set(key, (sold.get(key) || 0) + quantity);
+      fills.push({ order, side: 'sell', quantity, price });
+    }
+  }
+
+  return fills;
+};
+
+// Filled limit and stop-loss orders leave the book; SIPs stay and remember this month
+export const settleOrderBook = (orders: StandingOrder[], fills: OrderFill[], year: number, month: number): StandingOrder[] => {
+  const filledIds = new Set(fills.map(fill => fill.order.id));
+  return orders
+    .filter(order => order.type === 'sip' || !filledIds.has(order.id))
+    .map(order => order.type === 'sip' && filledIds.has(order.id)
+      ? { ...order, lastExecutedYear: year, lastExecutedMonth: month }
+      : order);
+};
@@ -7,6 +7,8 @@ interface ReportData {
   finalNetworth: number;
   cagr: number;
   profitLoss: number;
+  realNetworth?: number; // Inflation-adjusted, in game-start rupees
+  realCagr?: number;
   reportContent: string;
   generatedDate: string;
   reportId?: string;
@@ -127,6 +129,12 @@ export function generateReportPDF(data: ReportData): void {
   pdf.setFont(FONT_FAMILY.base, 'bold');
   pdf.text(`Rs.${formatNumber(data.finalNetworth)}`, margin + cardWidth / 2, yPosition + 20, { align: 'center' });
 
+  if (data.realNetworth !== undefined) {
+    pdf.setTextColor(...COLORS.labelGray);
+    pdf.setFontSize(7.5);
+    pdf.text(`After inflation: Rs.${formatNumber(data.realNetworth)}`, margin + cardWidth / 2, yPosition + 26, { align: 'center' });
+  }
+
   const card2X = margin + cardWidth + cardSpacing;
   pdf.setFillColor(...COLORS.cardBackground);
   pdf.roundedRect(card2X, yPosition, cardWidth, cardHeight, 8, 8, 'F');
@@ -141,6 +149,12 @@ export function generateReportPDF(data: ReportData): void {
   pdf.setFont(FONT_FAMILY.base, 'bold');
   pdf.text(`${data.cagr.toFixed(2)}%`, card2X + cardWidth / 2, yPosition + 20, { align: 'center' });
 
+  if (data.realCagr !== undefined) {
+    pdf.setTextColor(...COLORS.labelGray);
+    pdf.setFontSize(7.5);
+    pdf.text(`After inflation: ${data.realCagr.toFixed(2)}%`, card2X + cardWidth / 2, yPosition + 26, { align: 'center' });
+  }
+
   const card3X = margin + 2 * (cardWidth + cardSpacing);
   const isGrowth = data.profitLoss >= 0;
 
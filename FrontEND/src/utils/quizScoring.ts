@@ -0,0 +1,63 @@
+// Quiz scoring - mirrors BackEND/src/game/quizScoring.ts. Solo games score here for the bonus cash;
+// the server re-scores them when the game is logged, and scores multiplayer answers itself.
+import { AdminSettings, QuizResult } from '../types';
+import { QuizQuestion } from './assetEducation';
+
+const POINTS_BY_ATTEMPT = [100, 60, 30];
+const MIN_QUIZ_POINTS = 10;
+
+export const MAX_QUIZ_POINTS = POINTS_BY_ATTEMPT[0];
+export const MAX_QUIZ_BONUS_CASH = 1000000;
+
+export interface QuizScoreSummary {
+  quizzes: number;
+  points: number;
+  maxPoints: number;
+  firstTry: number; // Quizzes answered correctly on the first try
+  bonusCash: number;
+  averageTimeSeconds: number | null;
+}
+
+// A correctly answered quiz as the quiz modal reports it
+export interface QuizAttempt {
+  question: QuizQuestion;
+  answers: number[];
+  timeTakenMs: number;
+}
+
+export const getQuizPoints = (attempts: number): number =>
+  POINTS_BY_ATTEMPT[attempts - 1] ?? MIN_QUIZ_POINTS;
+
+// Same rule as the server: an out-of-range bonus pays nothing rather than being capped
+export const isValidQuizBonusCash = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_QUIZ_BONUS_CASH;
+
+// Full bonus for a first-try answer, scaled by the points on retries
+export const getQuizBonusCash = (settings: Pick<AdminSettings, 'quizBonusCash'> | null | undefined, points: number): number => {
+  const bonus = settings?.quizBonusCash;
+  if (!isValidQuizBonusCash(bonus)) return 0;
+  return Math.round((bonus * points) / MAX_QUIZ_POINTS);
+};
+
+// Options submitted up to and including the first correct one; null when none is correct
+export const scoreQuizAnswers = (question: QuizQuestion, answers: number[]): { answers: number[]; attempts: number; points: number } | null => {
+  const correctAt = answers.indexOf(question.correctAnswer);
+  if (correctAt < 0) return null;
+
+  const counted = answers.slice(0, correctAt + 1);
+  return { answers: counted, attempts: counted.length, points: getQuizPoints(counted.length) };
+};
+
+export const summarizeQuizResults = (results: QuizResult[] = []): QuizScoreSummary => {
+  const timed = results.filter(result => result.timeTakenMs !== null);
+  return {
+    quizzes: results.length,
+    points: results.reduce((sum, result) => sum + result.points, 0),
+    maxPoints: results.length * MAX_QUIZ_POINTS,
+    firstTry: results.filter(result => result.attempts === 1).length,
+    bonusCash: results.reduce((sum, result) => sum + result.bonusCash, 0),
+    averageTimeSeconds: timed.length > 0
+      ? timed.reduce((sum, result) => sum + (result.timeTakenMs || 0), 0) / timed.length / 1000
+      : null,
+  };
+};
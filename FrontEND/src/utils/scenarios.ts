@@ -0,0 +1,306 @@
+// Historical scenarios - mirrors BackEND/src/game/scenarios.ts (dates and length);
+// the asset pool and headlines only live here because they drive the client-side unlock schedule
+import { AdminSettings, AssetCategory, AssetUnlockSchedule, UnlockEntry } from '../types';
+import { ASSET_TIMELINE_DATA, generateAssetUnlockSchedule } from './assetUnlockCalculator';
+import { MIN_GAME_DURATION_YEARS, MAX_GAME_DURATION_YEARS, TOTAL_GAME_YEARS, VALID_START_YEAR_MAX, getTotalGameYears } from './constants';
+
+export type ScenarioId = 'crash2008' | 'rupeeCrisis2013' | 'demonetisation2016' | 'covid2020';
+
+export interface ScenarioNewsItem {
+  year: number; // Calendar year
+  month: number;
+  headline: string;
+}
+
+// Everything a scenario puts on the table - all of it is tradeable from the first month
+export interface ScenarioAssetPool {
+  stocks: string[];
+  indexFunds: string[];
+  mutualFunds: string[];
+  gold: Array<'Physical_Gold' | 'Digital_Gold'>;
+  commodity?: string;
+  reit?: string;
+  crypto: string[];
+  forex: string[];
+  bonds: boolean;
+}
+
+export interface Scenario {
+  id: ScenarioId;
+  name: string;
+  description: string;
+  startYear: number;
+  startMonth: number; // Game year 1 begins in this calendar month
+  durationYears: number;
+  assetPool: ScenarioAssetPool;
+  news: ScenarioNewsItem[];
+}
+
+export const SCENARIOS: Scenario[] = [
+  {
+    id: 'crash2008',
+    name: '2008 Global Financial Crisis',
+    description: 'Start at the top of the 2008 bull market and ride out Lehman, the crash and the recovery.',
+    startYear: 2008,
+    startMonth: 1,
+    durationYears: 5,
+    assetPool: {
+      stocks: ['ICICIBANK', 'RELIANCE', 'INFY'],
+      indexFunds: [],
+      mutualFunds: [],
+      gold: ['Physical_Gold'],
+      commodity: 'CRUDEOIL_WTI',
+      crypto: [],
+      forex: ['USDINR'],
+      bonds: true,
+    },
+    news: [
+      { year: 2008, month: 1, headline: 'Sensex crashes 1,400 points in a day as global recession fears spread' },
+      { year: 2008, month: 3, headline: 'Bear Stearns rescued by JPMorgan in a Fed-backed deal' },
+      { year: 2008, month: 7, headline: 'Crude oil hits a record $147 a barrel' },
+      { year: 2008, month: 9, headline: 'Lehman Brothers files for bankruptcy - markets worldwide in freefall' },
+      { year: 2008, month: 10, headline: 'RBI slashes CRR and repo rate in emergency moves to ease liquidity' },
+      { year: 2009, month: 3, headline: 'US Fed expands quantitative easing - global markets hit their crisis lows' },
+      { year: 2009, month: 5, headline: 'Election verdict sends Sensex up 17% in a single day' },
+      { year: 2010, month: 11, headline: 'Sensex climbs back above 21,000, near its pre-crisis peak' },
+      { year: 2011, month: 8, headline: 'S&P strips the US of its AAA credit rating' },
+      { year: 2011, month: 9, headline: 'Gold hits a record high near $1,900 an ounce' },
+      { year: 2012, month: 9, headline: 'FDI in retail and a diesel price hike spark a reform rally' },
+    ],
+  },
+  {
+    id: 'rupeeCrisis2013',
+    name: '2013 Taper Tantrum & Rupee Crisis',
+    description: 'Foreign money flees when the US Fed talks of tapering and the rupee hits record lows.',
+    startYear: 2013,
+    startMonth: 5,
+    durationYears: 5,
+    assetPool: {
+      stocks: ['INFY', 'HDFCBANK', 'MARUTI'],
+      indexFunds: ['NIFTYBEES'],
+      mutualFunds: [],
+      gold: ['Physical_Gold', 'Digital_Gold'],
+      commodity: 'CRUDEOIL_WTI',
+      crypto: [],
+      forex: ['USDINR', 'EURINR'],
+      bonds: true,
+    },
+    news: [
+      { year: 2013, month: 5, headline: 'US Fed hints at tapering bond purchases - emerging markets sell off' },
+      { year: 2013, month: 6, headline: 'Import duty on gold raised to curb the current account deficit' },
+      { year: 2013, month: 8, headline: 'Rupee crashes to a record low near 69 per dollar' },
+      { year: 2013, month: 9, headline: 'Raghuram Rajan takes charge at RBI; dollar deposit swap window steadies the rupee' },
+      { year: 2014, month: 5, headline: 'Clear majority in the general election - Sensex crosses 25,000' },
+      { year: 2014, month: 11, headline: 'OPEC refuses to cut output - crude oil prices collapse' },
+      { year: 2015, month: 1, headline: 'RBI surprises markets with a repo rate cut' },
+      { year: 2015, month: 8, headline: 'China devalues the yuan - global markets tumble' },
+      { year: 2016, month: 6, headline: 'Britain votes to leave the European Union' },
+      { year: 2016, month: 11, headline: 'Demonetisation: ₹500 and ₹1,000 notes withdrawn overnight' },
+      { year: 2017, month: 7, headline: 'GST rolls out nationwide, replacing a maze of indirect taxes' },
+    ],
+  },
+  {
+    id: 'demonetisation2016',
+    name: '2016 Demonetisation',
+    description: 'Begin the night 86% of the cash in circulation stops being legal tender.',
+    startYear: 2016,
+    startMonth: 11,
+    durationYears: 5,
+    assetPool: {
+      stocks: ['VAKRANGEE', 'BAJFINANCE', 'MARUTI'],
+      indexFunds: ['NIFTYBEES'],
+      mutualFunds: [],
+      gold: ['Physical_Gold', 'Digital_Gold'],
+      commodity: 'SILVER',
+      crypto: ['BTC'],
+      forex: [],
+      bonds: true,
+    },
+    news: [
+      { year: 2016, month: 11, headline: 'Demonetisation: ₹500 and ₹1,000 notes withdrawn overnight - cash crunch hits shops' },
+      { year: 2016, month: 12, headline: 'Deadline to deposit old notes ends; digital payments boom' },
+      { year: 2017, month: 7, headline: 'GST rolls out nationwide, replacing a maze of indirect taxes' },
+      { year: 2017, month: 12, headline: 'Bitcoin surges towards $20,000' },
+      { year: 2018, month: 2, headline: 'Budget brings back long-term capital gains tax on shares' },
+      { year: 2018, month: 9, headline: 'IL&FS defaults set off a credit scare among NBFCs' },
+      { year: 2019, month: 9, headline: 'Corporate tax cut to 22% - Sensex jumps nearly 1,900 points' },
+      { year: 2020, month: 3, headline: 'COVID-19 lockdown - Sensex falls 13% in a single day' },
+      { year: 2020, month: 5, headline: 'RBI cuts the repo rate to a record low of 4%' },
+      { year: 2020, month: 11, headline: 'Vaccine hopes push the Sensex to a record above 44,000' },
+    ],
+  },
+  {
+    id: 'covid2020',
+    name: '2020 COVID Crash',
+    description: 'A pandemic shuts the economy down, then a liquidity flood drives a record rally.',
+    startYear: 2020,
+    startMonth: 1,
+    durationYears: 5,
+    assetPool: {
+      stocks: ['INDIGO', 'RELIANCE', 'SUNPHARMA'],
+      indexFunds: ['NIFTYBEES'],
+      mutualFunds: ['Axis_Midcap'],
+      gold: ['Physical_Gold', 'Digital_Gold'],
+      commodity: 'BRENT',
+      reit: 'EMBASSY',
+      crypto: ['BTC', 'ETH'],
+      forex: [],
+      bonds: true,
+    },
+    news: [
+      { year: 2020, month: 1, headline: 'WHO declares a global health emergency over the novel coronavirus' },
+      { year: 2020, month: 3, headline: 'Nationwide lockdown announced - Sensex crashes 13% in a day; RBI cuts rates by 0.75%' },
+      { year: 2020, month: 4, headline: 'US crude oil futures briefly trade below zero' },
+      { year: 2020, month: 5, headline: '₹20 lakh crore relief package announced' },
+      { year: 2020, month: 8, headline: 'Gold crosses ₹56,000 per 10 grams, a record' },
+      { year: 2021, month: 1, headline: 'Sensex crosses 50,000 for the first time' },
+      { year: 2021, month: 4, headline: 'Second COVID wave overwhelms hospitals' },
+      { year: 2021, month: 11, headline: 'Bitcoin hits an all-time high near $69,000' },
+      { year: 2022, month: 2, headline: 'Russia invades Ukraine - crude oil jumps above $100' },
+      { year: 2022, month: 5, headline: 'RBI begins raising rates at an unscheduled meeting' },
+      { year: 2023, month: 1, headline: 'Short-seller report hammers Adani group stocks' },
+      { year: 2024, month: 6, headline: 'Election results day - markets swing sharply' },
+      { year: 2024, month: 9, headline: 'Sensex hits a record above 85,000' },
+    ],
+  },
+];
+
+export const getScenario = (id?: string | null): Scenario | undefined =>
+  id ? SCENARIOS.find(scenario => scenario.id === id) : undefined;
+
+// Select (or clear) a scenario on a settings object - a scenario pins the start year and game length,
+// clearing it puts a classic timeline back
+export const withScenario = <T extends AdminSettings>(settings: T, scenarioId?: string): T => {
+  const scenario = getScenario(scenarioId);
+  if (scenario) {
+    return { ...settings, scenarioId: scenario.id, gameStartYear: scenario.startYear, gameDurationYears: scenario.durationYears };
+  }
+  return settings.scenarioId
+    ? { ...settings, scenarioId: undefined, gameStartYear: VALID_START_YEAR_MAX, gameDurationYears: TOTAL_GAME_YEARS }
+    : settings;
+};
+
+// Calendar month the game opens in - January unless a scenario starts mid-year
+export const getGameStartMonth = (settings?: Pick<AdminSettings, 'scenarioId'> | null): number =>
+  getScenario(settings?.scenarioId)?.startMonth ?? 1;
+
+// Last game year and calendar month. A game always lasts gameDurationYears x 12 months
+// from its opening month, so a scenario opening in November finishes in October
+export const getGameEnd = (settings?: Pick<AdminSettings, 'scenarioId' | 'gameDurationYears'> | null): { year: number; month: number } => {
+  const lastIndex = getGameStartMonth(settings) - 1 + getTotalGameYears(settings) * 12 - 1;
+  return { year: Math.floor(lastIndex / 12) + 1, month: (lastIndex % 12) + 1 };
+};
+
+// True once (year, month) is the final game month or later
+export const hasReachedGameEnd = (settings: Pick<AdminSettings, 'scenarioId' | 'gameDurationYears'> | null | undefined, year: number, month: number): boolean => {
+  const end = getGameEnd(settings);
+  return year * 12 + month >= end.year * 12 + end.month;
+};
+
+const getPoolAssets = (pool: ScenarioAssetPool): string[] => [
+  ...pool.stocks,
+  ...pool.indexFunds,
+  ...pool.mutualFunds,
+  ...pool.gold,
+  ...(pool.commodity ? [pool.commodity] : []),
+  ...(pool.reit ? [pool.reit] : []),
+  ...pool.crypto,
+  ...pool.forex,
+];
+
+/**
+ * Problems that stop a scenario from running - every pool asset needs prices
+ * from the scenario's first month through its last year
+ */
+export const validateScenario = (scenario: Scenario): string[] => {
+  const problems: string[] = [];
+  const endYear = scenario.startYear + scenario.durationYears - 1;
+
+  if (scenario.durationYears < MIN_GAME_DURATION_YEARS || scenario.durationYears > MAX_GAME_DURATION_YEARS) {
+    problems.push(`Length must be ${MIN_GAME_DURATION_YEARS}-${MAX_GAME_DURATION_YEARS} years`);
+  }
+
+  getPoolAssets(scenario.assetPool).forEach(asset => {
+    const data = ASSET_TIMELINE_DATA[asset];
+    if (!data) {
+      problems.push(`${asset} has no price data`);
+    } else if (data.firstYear > scenario.startYear || (data.firstYear === scenario.startYear && data.firstMonth > scenario.startMonth)) {
+      problems.push(`${asset} prices start in ${data.firstMonth}/${data.firstYear}`);
+    } else if (data.lastYear < endYear) {
+      problems.push(`${asset} prices end in ${data.lastYear}`);
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Unlock schedule for a scenario: the whole pool opens in game year 1
+ */
+export const generateScenarioUnlockSchedule = (scenario: Scenario): AssetUnlockSchedule => {
+  const { assetPool: pool, startYear: calendarYear } = scenario;
+  const unlocks: UnlockEntry[] = [
+    { category: 'BANKING', assetType: 'SAVINGS_AC', calendarYear, maxCards: 1 },
+    { category: 'BANKING', assetType: 'FD', calendarYear, maxCards: 1 },
+  ];
+
+  pool.gold.forEach(gold => unlocks.push({ category: 'GOLD', assetType: gold, calendarYear, maxCards: 1 }));
+  if (pool.commodity) {
+    unlocks.push({ category: 'COMMODITIES', assetType: pool.commodity, calendarYear, maxCards: 1 });
+  }
+  if (pool.stocks.length > 0) {
+    unlocks.push({ category: 'STOCKS', assetType: 'STOCKS', assetNames: pool.stocks, calendarYear, maxCards: pool.stocks.length });
+  }
+  if (pool.bonds) {
+    unlocks.push({ category: 'BONDS', assetType: 'BONDS', calendarYear, maxCards: 1 });
+  }
+  if (pool.indexFunds.length > 0) {
+    unlocks.push({ category: 'FUNDS', assetType: 'INDEX_FUND', assetNames: pool.indexFunds, calendarYear, maxCards: pool.indexFunds.length });
+  }
+  if (pool.mutualFunds.length > 0) {
+    unlocks.push({ category: 'FUNDS', assetType: 'MUTUAL_FUND', assetNames: pool.mutualFunds, calendarYear, maxCards: pool.mutualFunds.length });
+  }
+  if (pool.reit) {
+    unlocks.push({ category: 'REIT', assetType: pool.reit, calendarYear, maxCards: 1 });
+  }
+  if (pool.forex.length > 0) {
+    unlocks.push({ category: 'FOREX', assetType: 'FOREX', assetNames: pool.forex, calendarYear, maxCards: pool.forex.length });
+  }
+  if (pool.crypto.length > 0) {
+    unlocks.push({ category: 'CRYPTO', assetType: 'CRYPTO', assetNames: pool.crypto, calendarYear, maxCards: pool.crypto.length });
+  }
+
+  return { 1: unlocks };
+};
+
+// Unlock schedule for a new game - the scenario's pool, or the regular progressive schedule
+export const generateGameUnlockSchedule = (settings: AdminSettings): AssetUnlockSchedule => {
+  const scenario = getScenario(settings.scenarioId);
+  return scenario
+    ? generateScenarioUnlockSchedule(scenario)
+    : generateAssetUnlockSchedule(settings.selectedCategories, settings.gameStartYear, getTotalGameYears(settings));
+};
+
+// Asset categories a scenario's pool covers, for the settings summary
+export const getScenarioCategories = (scenario: Scenario): AssetCategory[] => {
+  const { assetPool: pool } = scenario;
+  const categories: AssetCategory[] = ['BANKING'];
+  if (pool.gold.length > 0) categories.push('GOLD');
+  if (pool.stocks.length > 0) categories.push('STOCKS');
+  if (pool.indexFunds.length > 0 || pool.mutualFunds.length > 0) categories.push('FUNDS');
+  if (pool.commodity) categories.push('COMMODITIES');
+  if (pool.reit) categories.push('REIT');
+  if (pool.bonds) categories.push('BONDS');
+  if (pool.crypto.length > 0) categories.push('CRYPTO');
+  if (pool.forex.length > 0) categories.push('FOREX');
+  return categories;
+};
+
+// Most recent scripted headline at or before the given calendar month
+export const getLatestScenarioNews = (scenario: Scenario, calendarYear: number, month: number): ScenarioNewsItem | null => {
+  const now = calendarYear * 12 + month;
+  return scenario.news.reduce<ScenarioNewsItem | null>(
+    (latest, item) => (item.year * 12 + item.month <= now ? item : latest),
+    null
+  );
+};
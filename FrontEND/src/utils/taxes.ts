@@ -0,0 +1,64 @@
+// Trading fees and taxes - mirrors BackEND/src/game/taxes.ts so solo games
+// charge exactly what the server ledger charges in multiplayer.
+import { AdminSettings, TaxSettings } from '../types';
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  enabled: false,
+  brokerageRate: 0.0003, // 0.03%
+  maxBrokeragePerTrade: 20,
+  sttRate: 0.001, // 0.1% on equity sells
+  stampDutyRate: 0.00015, // 0.015% on buys
+  shortTermGainsRate: 0.15,
+  longTermGainsRate: 0.10,
+  longTermHoldingMonths: 12,
+  fdInterestTaxRate: 0.10,
+};
+
+// STT is only charged on listed equity and equity funds
+const STT_ASSET_TYPES = ['stocks', 'indexFund', 'mutualFund', 'reits'];
+
+export interface TradeCharges {
+  brokerage: number;
+  stt: number;
+  stampDuty: number;
+  total: number;
+}
+
+// Active tax settings, or null when the host has not enabled taxes
+export const getTaxSettings = (settings?: Pick<AdminSettings, 'taxSettings'> | null): TaxSettings | null => {
+  const taxSettings = settings?.taxSettings;
+  if (!taxSettings?.enabled) return null;
+  return { ...DEFAULT_TAX_SETTINGS, ...taxSettings };
+};
+
+// Months since game start, used to measure holding periods
+export const toMonthIndex = (year: number, month: number): number => (year - 1) * 12 + month;
+
+export const calculateTradeCharges = (
+  side: 'buy' | 'sell',
+  assetType: string,
+  tradeValue: number,
+  settings: TaxSettings | null
+): TradeCharges => {
+  if (!settings || tradeValue <= 0) {
+    return { brokerage: 0, stt: 0, stampDuty: 0, total: 0 };
+  }
+
+  const brokerage = Math.min(tradeValue * settings.brokerageRate, settings.maxBrokeragePerTrade);
+  const stt = side === 'sell' && STT_ASSET_TYPES.includes(assetType) ? tradeValue * settings.sttRate : 0;
+  const stampDuty = side === 'buy' ? tradeValue * settings.stampDutyRate : 0;
+
+  return { brokerage, stt, stampDuty, total: brokerage + stt + stampDuty };
+};
+
+// Tax on a realised gain; losses are not taxed (and not carried forward)
+export const calculateCapitalGainsTax = (gain: number, holdingMonths: number, settings: TaxSettings | null): number => {
+  if (!settings || gain <= 0) return 0;
+  const rate = holdingMonths >= settings.longTermHoldingMonths ? settings.longTermGainsRate : settings.shortTermGainsRate;
+  return gain * rate;
+};
+
+export const calculateFDInterestTax = (interest: number, settings: TaxSettings | null): number => {
+  if (!settings || interest <= 0) return 0;
+  return interest * settings.fdInterestTaxRate;
+};
@@ -18,6 +18,8 @@ export interface TradeLog {
   pocketCashAfter: number;
   holdingQuantityBefore: number;
   holdingQuantityAfter: number;
+  charges?: number; // Brokerage + STT + stamp duty (taxes enabled only)
+  taxPaid?: number; // Capital gains tax on a sell
 }
 
 class TradeTracker {
@@ -89,7 +91,7 @@ class TradeTracker {
     fixedDeposits?: Array<{
       id: string;
       amount: number;
-      duration: 12 | 24 | 36;
+      duration: number;
       interestRate: number;
       startMonth: number;
       startYear: number;
@@ -158,6 +160,8 @@ class TradeTracker {
       const winCount = this.trades.filter(t => t.transactionType === 'sell' && this.calculateProfitLoss(t) > 0).length;
       const lossCount = this.trades.filter(t => t.transactionType === 'sell' && this.calculateProfitLoss(t) <= 0).length;
       const winRate = realizedCount > 0 ? (winCount / realizedCount) : 0;
+      const totalCharges = this.trades.reduce((sum, t) => sum + (t.charges || 0), 0);
+      const totalTaxPaid = this.trades.reduce((sum, t) => sum + (t.taxPaid || 0), 0);
 
       // Generate a timestamp-based Report ID
       function generateReportId() {
@@ -190,6 +194,8 @@ class TradeTracker {
           winCount,
           lossCount,
           winRate,
+          totalCharges,
+          totalTaxPaid,
           exposureByAsset,
           tradingFrequency: this.calculateTradingFrequency(),
           assetTypeDistribution: this.getAssetTypeDistribution(),
@@ -204,6 +210,8 @@ class TradeTracker {
           exitPrice: trade.transactionType === 'sell' ? trade.price : null,
           positionSize: trade.totalValue,
           profitLoss: trade.transactionType === 'sell' ? this.calculateProfitLoss(trade) : null,
+          charges: trade.charges || 0,
+          taxPaid: trade.taxPaid || 0,
           gameYear: trade.gameYear,
           gameMonth: trade.gameMonth,
         })),
@@ -247,7 +255,8 @@ class TradeTracker {
     const avgBuyPrice = buyTrade.price;
     const sellPrice = sellTrade.price;
 
-    return (sellPrice - avgBuyPrice) * sellTrade.quantity;
+    // After-tax: the sell's own charges and capital gains tax come off the gain
+    return (sellPrice - avgBuyPrice) * sellTrade.quantity - (sellTrade.charges || 0) - (sellTrade.taxPaid || 0);
   }
 
   private computeBankingMetrics(
@@ -255,7 +264,7 @@ class TradeTracker {
     fixedDeposits?: Array<{
       id: string;
       amount: number;
-      duration: 12 | 24 | 36;
+      duration: number;
       interestRate: number;
       startMonth: number;
       startYear: number;
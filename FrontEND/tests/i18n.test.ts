@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { messages } from '../src/locales/en';
+import { hi } from '../src/locales/hi';
+import { mr } from '../src/locales/mr';
+import { ta } from '../src/locales/ta';
+import { FINANCIAL_QUOTES } from '../src/utils/constants';
+import { localizeQuote, setLanguage, translate } from '../src/utils/i18n';
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) || []).sort();
+
+describe('locale bundles', () => {
+  for (const [language, bundle] of Object.entries({ hi, mr, ta })) {
+    it(`${language} keeps every placeholder of the English text`, () => {
+      for (const [key, english] of Object.entries(messages)) {
+        const translated = bundle.messages[key as keyof typeof messages];
+        assert.deepEqual(placeholders(translated), placeholders(english), key);
+      }
+    });
+
+    it(`${language} translates every yearly quote`, () => {
+      assert.equal(bundle.quotes.length, FINANCIAL_QUOTES.length);
+    });
+  }
+});
+
+describe('translate', () => {
+  it('fills placeholders in the current language and leaves unknown ones alone', () => {
+    setLanguage('hi');
+    assert.equal(translate('education.attempts', { count: 2 }), hi.messages['education.attempts'].replace('{count}', '2'));
+
+    setLanguage('en');
+    assert.equal(translate('education.attempts', { count: 2 }), 'Attempts: 2/3');
+    assert.equal(translate('education.attempts'), 'Attempts: {count}/3');
+  });
+
+  it('shows a stored English quote in the current language', () => {
+    setLanguage('ta');
+    assert.equal(localizeQuote(FINANCIAL_QUOTES[0]), ta.quotes[0]);
+    assert.equal(localizeQuote('Not a stored quote'), 'Not a stored quote');
+    setLanguage('en');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CPIPoint } from '../src/types';
+import { getCPIForMonth, getInflationFactor, getPurchasingPowerHistory } from '../src/utils/inflation';
+
+// Prices rise 10% a year, one point every January
+const series: CPIPoint[] = [
+  { date: '2010-01-01', value: 100 },
+  { date: '2011-01-01', value: 110 },
+  { date: '2012-01-01', value: 121 },
+];
+
+describe('getCPIForMonth', () => {
+  it('interpolates between points and holds flat outside the series', () => {
+    assert.equal(getCPIForMonth(series, 2010, 7), 105);
+    assert.equal(getCPIForMonth(series, 2005, 3), 100);
+    assert.equal(getCPIForMonth(series, 2020, 1), 121);
+    assert.equal(getCPIForMonth([], 2010, 1), null);
+  });
+});
+
+describe('getInflationFactor', () => {
+  it('compares the CPI of two months, and leaves values nominal without data', () => {
+    assert.ok(Math.abs(getInflationFactor(series, 2010, 1, 2012, 1) - 1.21) < 1e-9);
+    assert.equal(getInflationFactor([], 2010, 1, 2012, 1), 1);
+  });
+});
+
+describe('getPurchasingPowerHistory', () => {
+  it('starts at 1 and falls as prices rise', () => {
+    const history = getPurchasingPowerHistory(series, 2012, 1, 25);
+
+    assert.equal(history.length, 25);
+    assert.equal(history[0], 1);
+    assert.ok(Math.abs(history[12] - 1 / 1.1) < 1e-9);
+    assert.ok(Math.abs(history[24] - 1 / 1.21) < 1e-9);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameState, StandingOrder } from '../src/types';
+import { collectOrderFills, settleOrderBook } from '../src/utils/orderBook';
+
+const prices: { [assetName: string]: number } = { INFY: 1000, TCS: 1100, WIPRO: 400, Physical_Gold: 5000 };
+const getPrice = (assetName: string) => prices[assetName] || 0;
+
+const order = (id: string, fields: Partial<StandingOrder>): StandingOrder => ({
+  id,
+  type: 'limitBuy',
+  assetType: 'stocks',
+  assetName: 'TCS',
+  createdYear: 1,
+  createdMonth: 1,
+  ...fields,
+});
+
+// 10k cash, 5 TCS and 10 gold of which 8 are pledged against a loan; no taxes
+const stateWith = (openOrders: StandingOrder[]) => ({
+  currentYear: 3,
+  currentMonth: 4,
+  pocketCash: 10000,
+  holdings: { stocks: { TCS: { quantity: 5, avgPrice: 900, totalInvested: 4500 } }, physicalGold: { quantity: 10, avgPrice: 4000, totalInvested: 40000 } },
+  loans: [{ pledgedGoldQuantity: 8 }],
+  openOrders,
+}) as unknown as GameState;
+
+const summary = (fills: ReturnType<typeof collectOrderFills>) => fills.map(fill => [fill.order.id, fill.side, fill.quantity]);
+
+describe('collectOrderFills', () => {
+  it('funds buys in book order from pocket cash', () => {
+    const fills = collectOrderFills(stateWith([
+      order('sip', { type: 'sip', assetName: 'INFY', amount: 3000 }),
+      order('tcs', { quantity: 5, triggerPrice: 1200 }),
+      order('wipro', { assetName: 'WIPRO', quantity: 5, triggerPrice: 500 }),
+      order('notYet', { quantity: 1, triggerPrice: 1000 }),
+    ]), getPrice);
+
+    assert.deepEqual(summary(fills), [['sip', 'buy', 3], ['tcs', 'buy', 5]]);
+  });
+
+  it('never sells more than is held or pledged gold', () => {
+    const fills = collectOrderFills(stateWith([
+      order('take', { type: 'limitSell', quantity: 3, triggerPrice: 1000 }),
+      order('stop', { type: 'stopLoss', quantity: 5, triggerPrice: 1200 }),
+      order('gold', { type: 'stopLoss', assetType: 'physicalGold', assetName: 'Physical_Gold', quantity: 5, triggerPrice: 6000 }),
+      order('high', { type: 'limitSell', quantity: 1, triggerPrice: 2000 }),
+    ]), getPrice);
+
+    assert.deepEqual(summary(fills), [['take', 'sell', 3], ['stop', 'sell', 2], ['gold', 'sell', 2]]);
+  });
+
+  it('pays a SIP once a month', () => {
+    const fills = collectOrderFills(stateWith([
+      order('paid', { type: 'sip', assetName: 'INFY', amount: 3000, lastExecutedYear: 3, lastExecutedMonth: 4 }),
+      order('due', { type: 'sip', assetName: 'INFY', amount: 3000, lastExecutedYear: 3, lastExecutedMonth: 3 }),
+    ]), getPrice);
+
+    assert.deepEqual(summary(fills), [['due', 'buy', 3]]);
+  });
+});
+
+describe('settleOrderBook', () => {
+  it('drops filled limit orders and keeps SIPs for next month', () => {
+    const sip = order('sip', { type: 'sip', assetName: 'INFY', amount: 3000 });
+    const limit = order('tcs', { quantity: 5, triggerPrice: 1200 });
+    const waiting = order('wipro', { assetName: 'WIPRO', quantity: 5, triggerPrice: 300 });
+    const fills = [{ order: sip, side: 'buy' as const, quantity: 3, price: 1000 }, { order: limit, side: 'buy' as const, quantity: 5, price: 1100 }];
+
+    const book = settleOrderBook([sip, limit, waiting], fills, 3, 4);
+
+    assert.deepEqual(book.map(entry => entry.id), ['sip', 'wipro']);
+    assert.equal(book[0].lastExecutedMonth, 4);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { QuizResult } from '../src/types';
+import { QuizQuestion } from '../src/utils/assetEducation';
+import { getQuizBonusCash, scoreQuizAnswers, summarizeQuizResults } from '../src/utils/quizScoring';
+
+const question: QuizQuestion = {
+  question: 'What does a REIT invest in?',
+  options: ['Gold and silver', 'Stock market', 'Commercial real estate', 'Cryptocurrency'],
+  correctAnswer: 2,
+  hint: 'Think about buildings and property!',
+};
+
+const result = (points: number, attempts: number, bonusCash: number, timeTakenMs: number | null): QuizResult => ({
+  category: 'REIT',
+  questionId: 1,
+  answers: [],
+  attempts,
+  points,
+  bonusCash,
+  timeTakenMs,
+  gameYear: 1,
+  gameMonth: 1,
+});
+
+describe('scoreQuizAnswers', () => {
+  it('matches the server scoring', () => {
+    assert.deepEqual(scoreQuizAnswers(question, [2]), { answers: [2], attempts: 1, points: 100 });
+    assert.deepEqual(scoreQuizAnswers(question, [0, 1, 3, 2]), { answers: [0, 1, 3, 2], attempts: 4, points: 10 });
+    assert.equal(scoreQuizAnswers(question, [0, 1]), null);
+  });
+});
+
+describe('getQuizBonusCash', () => {
+  it('scales the bonus by the points', () => {
+    assert.equal(getQuizBonusCash({ quizBonusCash: 2000 }, 60), 1200);
+    assert.equal(getQuizBonusCash({ quizBonusCash: 1000000 }, 100), 1000000);
+    assert.equal(getQuizBonusCash({}, 100), 0);
+  });
+
+  it('pays nothing for an over-limit bonus, like the server', () => {
+    assert.equal(getQuizBonusCash({ quizBonusCash: 5000000 }, 100), 0);
+  });
+});
+
+describe('summarizeQuizResults', () => {
+  it('totals points and bonus and averages only timed quizzes', () => {
+    const summary = summarizeQuizResults([result(100, 1, 2000, 4000), result(30, 3, 600, null), result(60, 2, 1200, 8000)]);
+
+    assert.deepEqual(summary, {
+      quizzes: 3,
+      points: 190,
+      maxPoints: 300,
+      firstTry: 1,
+      bonusCash: 3800,
+      averageTimeSeconds: 6,
+    });
+  });
+
+  it('reports no average time without results', () => {
+    assert.equal(summarizeQuizResults().averageTimeSeconds, null);
+  });
+});